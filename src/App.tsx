@@ -19,6 +19,9 @@ const CustomImages = lazy(() => import("./pages/CustomImages"));
 const Admin = lazy(() => import("./pages/Admin"));
 const Duels = lazy(() => import("./pages/Duels"));
 const DuelPage = lazy(() => import("./pages/Duel"));
+const ChallengePage = lazy(() => import("./pages/Challenge"));
+const DailyArchivePage = lazy(() => import("./pages/DailyArchive"));
+const GameReplayPage = lazy(() => import("./pages/GameReplay"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 // Loading component for lazy-loaded routes
@@ -65,6 +68,9 @@ const App = () => {
                     <Route path="/admin" element={<Admin />} />
                     <Route path="/duels" element={<Duels />} />
                     <Route path="/duel/:code" element={<DuelPage />} />
+                    <Route path="/challenge/:id" element={<ChallengePage />} />
+                    <Route path="/daily" element={<DailyArchivePage />} />
+                    <Route path="/game/:sessionId" element={<GameReplayPage />} />
                     {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                     <Route path="*" element={<NotFound />} />
                   </Routes>
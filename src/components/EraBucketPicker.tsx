@@ -0,0 +1,74 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { EraBucketSetId } from '@/types/game';
+import { ERA_BUCKET_SETS, eraBucketYear, findEraBucket } from '@/utils/eraBuckets';
+
+interface EraBucketPickerProps {
+  bucketSet: EraBucketSetId;
+  /** Current guess as a year; the picker highlights the bucket containing it. */
+  selectedYear: number | null;
+  onYearSelected: (year: number) => void;
+  isDisabled?: boolean;
+}
+
+// Era-mode replacement for the year slider. A pick is reported as the bucket's
+// middle year so the rest of the round flow is unchanged.
+const EraBucketPicker: React.FC<EraBucketPickerProps> = ({
+  bucketSet,
+  selectedYear,
+  onYearSelected,
+  isDisabled = false,
+}) => {
+  const { name, buckets } = ERA_BUCKET_SETS[bucketSet];
+  const selected = selectedYear !== null ? findEraBucket(bucketSet, selectedYear) : null;
+
+  return (
+    <div className="w-full">
+      <div
+        className="bg-brand text-white py-3 px-6 text-center rounded-xl mb-3 shadow-lg border-2 border-red-600"
+        role="status"
+        aria-live="polite"
+      >
+        <div className="text-3xl sm:text-4xl font-bold drop-shadow-sm">
+          {selected ? selected.label : `Pick ${bucketSet === 'decades' ? 'a decade' : 'an era'}`}
+        </div>
+        {selected && selected.label !== `${selected.start}s` && (
+          <div className="text-sm opacity-90 mt-1">{selected.start}–{selected.end}</div>
+        )}
+      </div>
+
+      <div
+        className={`grid gap-2 p-4 bg-white/50 rounded-xl shadow-sm border border-gray-200 ${
+          buckets.length > 8 ? 'grid-cols-3 sm:grid-cols-5' : 'grid-cols-2 sm:grid-cols-3'
+        }`}
+        role="radiogroup"
+        aria-label={name}
+      >
+        {buckets.map(bucket => {
+          const isSelected = selected?.id === bucket.id;
+          return (
+            <motion.button
+              key={bucket.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              disabled={isDisabled}
+              onClick={() => onYearSelected(eraBucketYear(bucket))}
+              className={`px-3 py-2 rounded-lg border-2 text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-red-200 ${
+                isSelected
+                  ? 'border-brand bg-brand text-white shadow-md'
+                  : 'border-gray-200 bg-white text-gray-700 hover:border-brand/50'
+              }`}
+              whileHover={{ scale: isDisabled ? 1 : 1.03 }}
+              whileTap={{ scale: isDisabled ? 1 : 0.97 }}
+            >
+              {bucket.label}
+            </motion.button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EraBucketPicker;
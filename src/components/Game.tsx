@@ -1,9 +1,17 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
 import { getDailyChallengeImages, hasUserPlayedDailyChallengeToday, getIncompleteDailyChallengeSession } from '@/utils/dailyChallenge';
 import { resetImagePool } from '@/utils/imagePool';
-import { GameImage, GuessResult, GameSession } from '@/types/game';
+import { GameImage, GuessResult, GameSession, EraBucketSetId, GuessDimension, CustomChallenge, GameDifficulty, GameRegion, ImageCollection } from '@/types/game';
+import { getScoringProfile, getScoringProfileForMode } from '@/utils/scoringProfiles';
+import { REGION_SCORING_PROFILE } from '@/utils/gameRegions';
+import { getScoredDimensionForMode } from '@/utils/scoringSystem';
+import { eraMissYear } from '@/utils/eraBuckets';
+import { createSavedGame, describeSavedGame, restoreGameState, SavedGameContext } from '@/utils/savedGames';
+import { getResumableSession } from '@/services/savedGameService';
+import { getReplayPath } from '@/utils/gameReplay';
 import GameSummary from './GameSummary';
 import GameInstructions from './GameInstructions';
 import RoundResults from './RoundResults';
@@ -25,6 +33,7 @@ import { useGameImages } from '@/hooks/useGameImages';
 import { usePerformanceMonitor } from '@/hooks/usePerformanceMonitor';
 import { useAuth } from '@/hooks/useAuth';
 import { useGameSession } from '@/hooks/useGameSession';
+import { useSavedGame } from '@/hooks/useSavedGame';
 import GameStoryGallery from './GameStoryGallery';
 import { GAME_CONSTANTS } from '@/constants/gameConstants';
 import { LoadingSpinner } from '@/components/ui/LoadingStates';
@@ -57,6 +66,13 @@ interface GameProps {
   onMultiplayerGuessSubmit?: (yearGuess: number, locationGuess: { lat: number; lng: number }, timeUsed: number) => Promise<void>;
   onMultiplayerNextRound?: () => Promise<void>;
   onMultiplayerExit?: () => void;
+  // Custom challenge (/challenge/:id): skip the menus and play these images
+  challenge?: CustomChallenge;
+  challengeImages?: GameImage[];
+  challengeSession?: GameSession | null; // the player's unfinished attempt, if any
+  onChallengeExit?: () => void;
+  // Daily archive replay (/daily): a past day's images, saved unranked
+  dailyReplay?: { date: string; images: GameImage[]; onExit: () => void };
 }
 
 const Game: React.FC<GameProps> = ({ 
@@ -64,17 +80,23 @@ const Game: React.FC<GameProps> = ({
   multiplayerState, 
   onMultiplayerGuessSubmit,
   onMultiplayerNextRound,
-  onMultiplayerExit 
+  onMultiplayerExit,
+  challenge,
+  challengeImages,
+  challengeSession,
+  onChallengeExit,
+  dailyReplay
 }) => {
   // Performance monitoring
   const { metrics, trackImageLoad } = usePerformanceMonitor('Game');
 
   // Navigation
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   // Authentication and session tracking - skip initialization in multiplayer mode
-  const { user, profile } = useAuth({ skipInitialization: multiplayerMode });
-  const { currentSession, setCurrentSession, startGameSession, saveRoundResult, completeGameSession } = useGameSession({
+  const { user, profile, loading: authLoading } = useAuth({ skipInitialization: multiplayerMode });
+  const { currentSession, setCurrentSession, startGameSession, startRound, saveRoundResult, completeGameSession } = useGameSession({
     onProfileUpdate: async (userId: string) => {
       // Profile will be updated automatically by the auth system
       console.log('Profile update requested for:', userId);
@@ -89,7 +111,20 @@ const Game: React.FC<GameProps> = ({
     isTimedMode: boolean;
     timerType: 'per-round' | 'total-game';
     isDaily: boolean;
+    eraBucketSet: EraBucketSetId | null;
+    scoredDimension: GuessDimension | null;
+    difficulty: GameDifficulty | null;
+    collection: ImageCollection | null;
+    region: GameRegion | null;
   } | null>(null);
+  // Difficulty the player asked for; the pool query draws that tier (or the
+  // images near their skill rating) first
+  const [difficulty, setDifficulty] = useState<GameDifficulty | null>(null);
+  // Collection the game is drawn from; such games rank on its own board
+  const [collection, setCollection] = useState<ImageCollection | null>(null);
+  const [preferCollection, setPreferCollection] = useState(false);
+  // Region mode: images and the guess map bounded to one state or city
+  const [region, setRegion] = useState<GameRegion | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [gameOverView, setGameOverView] = useState<'story' | 'detailed' | 'leaderboard'>('story');
   const [isMobile, setIsMobile] = useState(false);
@@ -99,6 +134,10 @@ const Game: React.FC<GameProps> = ({
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [hasPlayedDailyToday, setHasPlayedDailyToday] = useState(false);
   const [resumingSession, setResumingSession] = useState<GameSession | null>(null);
+  // A pool game that can be saved and resumed, and a resumed game's images
+  // (it plays its saved sequence instead of drawing from the pool again)
+  const [savedGameContext, setSavedGameContext] = useState<Omit<SavedGameContext, 'sessionId'> | null>(null);
+  const [resumedImages, setResumedImages] = useState<GameImage[] | null>(null);
 
   // Custom hooks
   const {
@@ -107,12 +146,21 @@ const Game: React.FC<GameProps> = ({
     setYearGuess,
     locationGuess,
     setLocationGuess,
+    yearMargin,
+    setYearMargin,
+    radiusKm,
+    setRadiusKm,
+    hintsRevealed,
+    setHintsRevealed,
     totalGameScore,
     initializeGame,
+    restoreGame,
     addResult,
+    updateResult,
     nextRound,
     resetGame,
-    updateTimer
+    updateTimer,
+    syncRoundTimer
   } = useGameState();
 
   const { calculateAndCreateResult } = useGameScoring();
@@ -125,7 +173,35 @@ const Game: React.FC<GameProps> = ({
     isError,
     isSuccess,
     invalidateQuery
-  } = useGameImages(gameStartCounter, isDailyChallenge, gameMode, user?.id);
+  } = useGameImages(gameStartCounter, isDailyChallenge, gameMode, user?.id, !challenge && !dailyReplay && !resumedImages, difficulty, collection, region);
+  // Rounds advance through the challenge's (or replayed day's, or resumed
+  // game's) fixed sequence instead of the pool
+  const roundImages = challengeImages ?? dailyReplay?.images ?? resumedImages ?? gameImages;
+
+  const { savedGame, saveProgress, discardSavedGame } = useSavedGame(
+    user?.id,
+    !multiplayerMode && !challenge && !dailyReplay && !authLoading
+  );
+
+  // Keep the game in play saved so a refresh, or another device, can resume it
+  const savedGameSnapshot = useMemo(() => {
+    if (!savedGameContext || gameMode !== 'playing' || multiplayerMode) return null;
+    return createSavedGame(gameState, { ...savedGameContext, sessionId: currentSession?.id ?? null }, hintsRevealed);
+  }, [savedGameContext, gameMode, multiplayerMode, gameState, currentSession, hintsRevealed]);
+
+  useEffect(() => {
+    if (savedGameSnapshot) {
+      saveProgress(savedGameSnapshot);
+    }
+  }, [savedGameSnapshot, saveProgress]);
+
+  useEffect(() => {
+    if (!savedGameSnapshot) return;
+    // The throttled timer may be a few seconds behind; catch it up on the way out
+    const handlePageHide = () => saveProgress(savedGameSnapshot, true);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [savedGameSnapshot, saveProgress]);
 
   // Timer hook
   useGameTimer({
@@ -138,6 +214,22 @@ const Game: React.FC<GameProps> = ({
     onTimeUp: handleTimeUp
   });
 
+  // The server times per-round timed rounds for the time bonus, from when
+  // each round is on screen. A round picked up again after a reload or a
+  // resume already has a clock there, and the timer follows it.
+  const clockSessionId = currentSession?.timer_type === 'per-round' && !multiplayerMode ? currentSession.id : null;
+  const roundInPlay = gameMode === 'playing' && gameState.isGuessing && !gameState.hasGuessed;
+  useEffect(() => {
+    if (!clockSessionId || !roundInPlay) return;
+    const roundNumber = gameState.currentRound;
+    startRound(clockSessionId, roundNumber).then(({ elapsedSeconds }) => {
+      if (elapsedSeconds) {
+        syncRoundTimer(roundNumber, elapsedSeconds);
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clockSessionId, roundInPlay, gameState.currentRound]);
+
   // Effect to check daily challenge status when user changes
   useEffect(() => {
     const checkDailyChallengeStatus = async () => {
@@ -178,7 +270,15 @@ const Game: React.FC<GameProps> = ({
   useEffect(() => {
     if (pendingGameStart && isSuccess && gameImages && gameImages.length > 0) {
       console.log('🚀 Data is ready, starting game now with images:', gameImages);
-      const { isTimedMode, timerType, isDaily } = pendingGameStart;
+      const { isTimedMode, timerType, isDaily, eraBucketSet, scoredDimension, difficulty, collection, region } = pendingGameStart;
+      const sessionGameMode = isDaily
+        ? 'daily'
+        : scoredDimension === 'year'
+          ? 'year_only'
+          : scoredDimension === 'location'
+            ? 'location_only'
+            : eraBucketSet ? 'era' : (isTimedMode ? 'timed' : 'random');
+      const sessionProfile = region ? REGION_SCORING_PROFILE : getScoringProfileForMode(sessionGameMode);
       
       // Check if we're resuming a session
       if (resumingSession && isDaily) {
@@ -188,15 +288,35 @@ const Game: React.FC<GameProps> = ({
           nextRound: resumingSession.rounds_completed + 1
         });
         
-        // Initialize game starting from the next round
+        // Initialize game starting from the next round, keeping the profile the
+        // session was started with so every round is scored on the same curves
         const startFromRound = resumingSession.rounds_completed + 1;
-        initializeGame(gameImages, isTimedMode, timerType, undefined, startFromRound);
+        const resumedProfile = getScoringProfile(resumingSession.scoring_profile).id;
+        initializeGame(
+          gameImages,
+          isTimedMode,
+          timerType,
+          undefined,
+          startFromRound,
+          resumedProfile,
+          resumingSession.era_bucket_set,
+          getScoredDimensionForMode(resumingSession.game_mode)
+        );
         
         // Clear the resuming session state
         setResumingSession(null);
       } else {
         // Start fresh game
-        initializeGame(gameImages, isTimedMode, timerType);
+        initializeGame(gameImages, isTimedMode, timerType, undefined, 1, sessionProfile, eraBucketSet, scoredDimension);
+        if (!isDaily) {
+          setSavedGameContext({
+            gameMode: sessionGameMode,
+            images: gameImages,
+            difficulty,
+            collectionId: collection?.id ?? null,
+            region
+          });
+        }
       }
       
       setGameMode('playing');
@@ -206,9 +326,20 @@ const Game: React.FC<GameProps> = ({
       // Start game session if user is logged in and NOT in multiplayer mode
       // Note: We don't start a new session if we're resuming an existing one
       if (user && !multiplayerMode && !resumingSession) {
-        const gameMode = isDaily ? 'daily' : (isTimedMode ? 'timed' : 'random');
         console.log('👤 User is logged in, starting game session...');
-        startGameSession(user.id, gameMode, gameImages.length).then(({ data, error }) => {
+        startGameSession(
+          user.id,
+          sessionGameMode,
+          gameImages.length,
+          sessionProfile,
+          isTimedMode ? timerType : null,
+          eraBucketSet,
+          null,
+          null,
+          difficulty,
+          collection?.id ?? null,
+          region?.id ?? null
+        ).then(({ data, error }) => {
           if (error) {
             console.error('❌ Failed to start game session:', error);
           } else {
@@ -262,6 +393,75 @@ const Game: React.FC<GameProps> = ({
     }
   }, [multiplayerMode, multiplayerState?.gameStarted, multiplayerState?.getMultiplayerImages, multiplayerState?.timePerRound, gameMode, initializeGame]);
 
+  // Start a custom challenge as soon as its images are in and we know who is
+  // playing, resuming the player's unfinished attempt if there is one
+  const challengeStartedRef = useRef(false);
+  useEffect(() => {
+    if (!challenge || !challengeImages?.length || authLoading || challengeStartedRef.current) return;
+    challengeStartedRef.current = true;
+
+    const profileId = getScoringProfile(challenge.scoring_profile).id;
+    const isTimed = challenge.timer_seconds !== null;
+    initializeGame(
+      challengeImages,
+      isTimed,
+      'per-round',
+      challenge.timer_seconds ?? undefined,
+      challengeSession ? challengeSession.rounds_completed + 1 : 1,
+      profileId
+    );
+    setGameMode('playing');
+
+    if (challengeSession) {
+      setCurrentSession(challengeSession);
+    } else if (user) {
+      startGameSession(
+        user.id,
+        'challenge',
+        challengeImages.length,
+        profileId,
+        isTimed ? 'per-round' : null,
+        null,
+        challenge.id
+      ).then(({ error }) => {
+        if (error) {
+          console.error('❌ Failed to start challenge session:', error);
+          toast.error('Your score for this challenge will not be saved');
+        }
+      });
+    }
+  }, [challenge, challengeImages, challengeSession, authLoading, user, initializeGame, startGameSession, setCurrentSession]);
+
+  // Replay a past daily from the archive: untimed like the live daily, and
+  // saved as a 'daily_archive' session that never reaches a leaderboard
+  const dailyReplayStartedRef = useRef(false);
+  useEffect(() => {
+    if (!dailyReplay?.images.length || authLoading || dailyReplayStartedRef.current) return;
+    dailyReplayStartedRef.current = true;
+
+    const profileId = getScoringProfileForMode('daily_archive');
+    initializeGame(dailyReplay.images, false, 'per-round', undefined, 1, profileId);
+    setGameMode('playing');
+
+    if (user) {
+      startGameSession(
+        user.id,
+        'daily_archive',
+        dailyReplay.images.length,
+        profileId,
+        null,
+        null,
+        null,
+        dailyReplay.date
+      ).then(({ error }) => {
+        if (error) {
+          console.error('❌ Failed to start daily replay session:', error);
+          toast.error('Your score for this replay will not be saved');
+        }
+      });
+    }
+  }, [dailyReplay, authLoading, user, initializeGame, startGameSession]);
+
   // Sync local game state with multiplayer round changes
   useEffect(() => {
     if (multiplayerMode && multiplayerState?.currentRound && gameState.currentRound) {
@@ -310,12 +510,18 @@ const Game: React.FC<GameProps> = ({
     }
   }
 
+  // An era round needs a bucket picked; the year slider always has a value
+  const needsEraPick = !!gameState.eraBucketSet && gameState.scoredDimension !== 'location' && yearGuess === null;
+
   // Auto-submit when timer expires
   const handleAutoSubmit = async () => {
     if (!gameState.currentImage) return;
-    const finalYearGuess = yearGuess || Math.floor((1900 + 2025) / 2);
+    // An era round that ran out unpicked is a miss, not a guess at some bucket
+    const finalYearGuess = needsEraPick
+      ? eraMissYear(gameState.eraBucketSet, gameState.currentImage.year)
+      : yearGuess || Math.floor((1900 + 2025) / 2);
     const finalLocationGuess = locationGuess || { lat: 40, lng: 0 };
-    await submitGuessWithScores(finalYearGuess, finalLocationGuess, true);
+    await submitGuessWithScores(finalYearGuess, finalLocationGuess, true, needsEraPick);
     if (!locationGuess) {
       setLocationGuess(finalLocationGuess);
     }
@@ -325,7 +531,8 @@ const Game: React.FC<GameProps> = ({
   const submitGuessWithScores = async (
     finalYearGuess: number, 
     finalLocationGuess: { lat: number; lng: number }, 
-    isAutoSubmit: boolean = false
+    isAutoSubmit: boolean = false,
+    eraUnpicked: boolean = false
   ) => {
     if (!gameState.currentImage) return;
 
@@ -337,8 +544,18 @@ const Game: React.FC<GameProps> = ({
       gameState.isTimedMode,
       gameState.timerType,
       gameState.roundStartTime,
-      isAutoSubmit
+      isAutoSubmit,
+      gameState.scoringProfile,
+      gameState.eraBucketSet,
+      gameState.scoredDimension,
+      // A bucket is already a range, and a half that isn't played has none
+      gameState.eraBucketSet || gameState.scoredDimension === 'location' ? 0 : yearMargin,
+      gameState.scoredDimension === 'year' ? 0 : radiusKm,
+      hintsRevealed
     );
+    if (eraUnpicked) {
+      result.eraUnpicked = true;
+    }
 
     addResult(result);
 
@@ -357,20 +574,21 @@ const Game: React.FC<GameProps> = ({
     if (user && currentSession && gameState.currentImage && !multiplayerMode) {
       saveRoundResult(
         currentSession.id,
-        user.id,
         gameState.currentRound,
-        result,
         gameState.currentImage.id,
-        gameState.currentImage.year,
-        {
-          lat: gameState.currentImage.location.lat,
-          lng: gameState.currentImage.location.lng
-        }
-      ).then(({ error }) => {
+        result
+      ).then(({ data, error }) => {
         if (error) {
           console.error('Failed to save round result:', error);
         } else {
           console.log('✅ Round result saved');
+          // The server's clock sets the time bonus, so its score is the one shown
+          updateResult(result.imageId, {
+            timeBonus: data.time_bonus,
+            displayYearScore: data.display_year_score,
+            displayLocationScore: data.display_location_score,
+            scaledScore: data.display_total_score
+          });
         }
       });
     } else if (multiplayerMode) {
@@ -383,6 +601,13 @@ const Game: React.FC<GameProps> = ({
     console.log('🎮 Play button clicked, setting mode to instructions');
     setGameMode('instructions');
     setIsDailyChallenge(false);
+    setPreferCollection(false);
+  };
+
+  const handleCollectionsClick = () => {
+    setGameMode('instructions');
+    setIsDailyChallenge(false);
+    setPreferCollection(true);
   };
 
   const handleDailyChallengeClick = async () => {
@@ -483,16 +708,94 @@ const Game: React.FC<GameProps> = ({
     setGameMode('home');
   };
 
-  const startGame = (isTimedMode: boolean, timerType: 'per-round' | 'total-game', isDaily: boolean = false) => {
-    console.log('🚀 Starting game with params:', { isTimedMode, timerType, isDaily });
+  const startGame = (
+    isTimedMode: boolean,
+    timerType: 'per-round' | 'total-game',
+    isDaily: boolean = false,
+    eraBucketSet: EraBucketSetId | null = null,
+    scoredDimension: GuessDimension | null = null,
+    difficulty: GameDifficulty | null = null,
+    collection: ImageCollection | null = null,
+    region: GameRegion | null = null
+  ) => {
+    console.log('🚀 Starting game with params:', { isTimedMode, timerType, isDaily, eraBucketSet, scoredDimension, difficulty, collection: collection?.slug, region: region?.slug });
     
+    // The daily has a fixed set for everyone
+    const gameDifficulty = isDaily ? null : difficulty;
+    const gameCollection = isDaily ? null : collection;
+    const gameRegion = isDaily ? null : region;
+    setDifficulty(gameDifficulty);
+    setCollection(gameCollection);
+    setRegion(gameRegion);
+    setSavedGameContext(null);
+    setResumedImages(null);
     if (!isDaily) {
+      // A new game takes the place of the one saved
+      if (savedGame) {
+        discardSavedGame();
+      }
       invalidateQuery();
       setGameStartCounter(prev => prev + 1);
     }
 
-    setPendingGameStart({ isTimedMode, timerType, isDaily });
+    setPendingGameStart({ isTimedMode, timerType, isDaily, eraBucketSet, scoredDimension, difficulty: gameDifficulty, collection: gameCollection, region: gameRegion });
+    setGameMode('playing');
+  };
+
+  const handleResumeGame = async () => {
+    if (!savedGame) return;
+    const game = savedGame;
+
+    // Rounds keep scoring against the session the game started with
+    let session: GameSession | null = null;
+    if (user && game.sessionId) {
+      try {
+        session = await getResumableSession(game.sessionId);
+      } catch (error) {
+        console.error('Error loading the saved game session:', error);
+        toast.error('Unable to resume that game. Please try again.');
+        return;
+      }
+      if (!session) {
+        toast.info('That game has already been finished.');
+        discardSavedGame();
+        return;
+      }
+    }
+
+    console.log('🔄 Resuming saved game:', { sessionId: game.sessionId, round: game.currentRound });
+    setIsDailyChallenge(false);
+    setPendingGameStart(null);
+    setDifficulty(game.difficulty);
+    setCollection(null);
+    setRegion(game.region);
+    setResumedImages(game.images);
+    setSavedGameContext({
+      gameMode: game.gameMode,
+      images: game.images,
+      difficulty: game.difficulty,
+      collectionId: game.collectionId,
+      region: game.region
+    });
+    setCurrentSession(session);
+    restoreGame(restoreGameState(game), game.images, game.hintsRevealed);
+    setGameOverView('story');
     setGameMode('playing');
+    toast.info(`Resuming from round ${game.currentRound} of ${game.totalRounds}`);
+  };
+
+  const handleDiscardSavedGame = () => {
+    discardSavedGame();
+    toast.success('Saved game discarded');
+  };
+
+  // Leaving a game on purpose (or finishing it) leaves nothing to resume
+  const clearSavedGame = () => {
+    if (savedGameContext) {
+      discardSavedGame();
+    }
+    setSavedGameContext(null);
+    setResumedImages(null);
   };
 
   const handleResetPool = async () => {
@@ -518,6 +821,10 @@ const Game: React.FC<GameProps> = ({
     setIsDailyChallenge(false);
     setPendingGameStart(null);
     resetGame();
+    clearSavedGame();
+    // A challenge or replay has no menu of its own; its page takes over again
+    onChallengeExit?.();
+    dailyReplay?.onExit();
   };
 
   const handleGoHome = () => {
@@ -539,35 +846,25 @@ const Game: React.FC<GameProps> = ({
       setIsCompletingGame(true);
       console.log('🏁 Completing game session before going home...');
       
-      const totalScore = gameState.results.reduce((sum, result) => {
-        // Use the same scoring logic as GameSummary
-        if (result.scaledScore !== undefined) {
-          return sum + result.scaledScore;
-        }
-        if (result.displayYearScore !== undefined && result.displayLocationScore !== undefined) {
-          const baseScore = result.displayYearScore + result.displayLocationScore;
-          const timeBonus = result.timeBonus || 0;
-          return sum + baseScore + timeBonus;
-        }
-        return sum + (result.totalScore * 100) + (result.timeBonus || 0);
-      }, 0);
-
       const totalTime = gameState.results.reduce((sum, result) => sum + (result.timeUsed || 0), 0);
 
       try {
-        const { error } = await completeGameSession(
-          currentSession.id,
-          totalScore,
-          gameState.results.length,
-          totalTime
-        );
+        // The saved total is the server's sum of the rounds it scored
+        const { data, error } = await completeGameSession(currentSession.id, totalTime);
 
         if (error) {
           console.error('Failed to complete game session:', error);
           toast.error('Failed to save game results');
         } else {
           console.log('✅ Game session completed successfully');
-          toast.success(`Game completed! Score: ${Math.round(totalScore)} points saved.`);
+          const sessionId = currentSession.id;
+          toast.success(`Game completed! Score: ${Math.round(data?.total_score ?? 0)} points saved.`, {
+            action: { label: 'Watch replay', onClick: () => navigate(getReplayPath(sessionId)) }
+          });
+          // Streaks and the archive calendar read daily sessions
+          if (data?.daily_date) {
+            queryClient.invalidateQueries({ queryKey: ['dailyArchive'] });
+          }
         }
       } catch (error) {
         console.error('Error completing game session:', error);
@@ -605,14 +902,22 @@ const Game: React.FC<GameProps> = ({
       console.log('❌ No current image, returning');
       return;
     }
-    if (!locationGuess) {
+    // Year-only practice has no map; the scorer ignores the location there
+    const finalLocationGuess = gameState.scoredDimension === 'year'
+      ? locationGuess || gameState.currentImage.location
+      : locationGuess;
+    if (!finalLocationGuess) {
       console.log('❌ No location guess, showing error');
       toast.error("Please select a location on the map before submitting your guess!");
       return;
     }
+    if (needsEraPick) {
+      toast.error(`Please pick ${gameState.eraBucketSet === 'decades' ? 'a decade' : 'an era'} before submitting your guess!`);
+      return;
+    }
     const finalYearGuess = yearGuess || Math.floor((1900 + 2025) / 2);
-    console.log('✅ Submitting guess:', { finalYearGuess, locationGuess });
-    await submitGuessWithScores(finalYearGuess, locationGuess);
+    console.log('✅ Submitting guess:', { finalYearGuess, finalLocationGuess });
+    await submitGuessWithScores(finalYearGuess, finalLocationGuess);
   };
 
   const handleNextRound = async () => {
@@ -631,12 +936,12 @@ const Game: React.FC<GameProps> = ({
     
     // Brief delay for fade out effect
     setTimeout(() => {
-    nextRound(gameImages);
+    nextRound(roundImages);
     
     // Track next image loading performance
     const nextImageIndex = gameState.currentRound;
-    if (gameImages && gameImages[nextImageIndex]) {
-      trackImageLoad(gameImages[nextImageIndex].image_url).catch(() => {
+    if (roundImages && roundImages[nextImageIndex]) {
+      trackImageLoad(roundImages[nextImageIndex].image_url).catch(() => {
         // Image failed to load - already handled by trackImageLoad
       });
     }
@@ -650,9 +955,16 @@ const Game: React.FC<GameProps> = ({
   };
 
   const handlePlayAgain = () => {
+    // A challenge can only be played once; save it (or the replay) and go back
+    // to its page
+    if (challenge || dailyReplay) {
+      handleCompleteGameAndGoHome();
+      return;
+    }
     setGameMode('home');
     setIsDailyChallenge(false);
     setPendingGameStart(null);
+    clearSavedGame();
     setGameOverView('story');
   };
 
@@ -726,11 +1038,15 @@ const Game: React.FC<GameProps> = ({
       {gameMode === 'home' && (
         <Home 
           onPlayClick={handlePlayClick} 
+          onCollectionsClick={handleCollectionsClick}
           onDailyChallengeClick={handleDailyChallengeClick}
           onTutorialClick={handleTutorialClick}
           onMultiplayerClick={handleMultiplayerClick}
           hasPlayedDailyToday={hasPlayedDailyToday}
           onRefreshDailyChallenge={handleRefreshDailyChallenge}
+          savedGameSummary={savedGame ? describeSavedGame(savedGame) : undefined}
+          onResumeGame={handleResumeGame}
+          onDiscardSavedGame={handleDiscardSavedGame}
         />
       )}
 
@@ -754,8 +1070,10 @@ const Game: React.FC<GameProps> = ({
       {/* Show instructions */}
       {gameMode === 'instructions' && (
         <GameInstructions 
-          onStart={startGame}
+          onStart={(isTimedMode, timerType, eraBucketSet, scoredDimension, difficulty, collection, region) =>
+            startGame(isTimedMode, timerType, false, eraBucketSet, scoredDimension, difficulty, collection, region)}
           onGoBack={() => setGameMode('home')}
+          preferCollection={preferCollection}
         />
       )}
 
@@ -983,6 +1301,14 @@ const Game: React.FC<GameProps> = ({
               timeRemaining: gameState.timeRemaining
             }}
             onGameEnd={handleCompleteGameAndGoHome}
+            eraBucketSet={gameState.eraBucketSet}
+            scoredDimension={gameState.scoredDimension}
+            // Rooms score guesses as points, so ranges are single-player only
+            yearMargin={yearMargin}
+            onYearMarginChange={multiplayerMode ? undefined : setYearMargin}
+            radiusKm={radiusKm}
+            onRadiusChange={multiplayerMode ? undefined : setRadiusKm}
+            region={multiplayerMode || isDailyChallenge ? null : region}
           />
           
           <GameControls
@@ -996,6 +1322,10 @@ const Game: React.FC<GameProps> = ({
             isTimedMode={gameState.isTimedMode}
             onSubmitGuess={handleSubmitGuess}
             onNextRound={handleNextRound}
+            // Like ranges, hints are only charged for in single-player games
+            hintsRevealed={hintsRevealed}
+            hintPenalty={getScoringProfile(gameState.scoringProfile).hintPenalty}
+            onRevealHint={multiplayerMode ? undefined : () => setHintsRevealed(n => n + 1)}
           />
           </motion.div>
         </AnimatePresence>
@@ -1016,7 +1346,7 @@ const Game: React.FC<GameProps> = ({
           >
           <Button
             onClick={handleSubmitGuess}
-            disabled={!locationGuess}
+            disabled={(!locationGuess && gameState.scoredDimension !== 'year') || needsEraPick}
             className="w-full bg-brand hover:bg-red-600 text-white font-bold py-4 px-6 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed text-lg min-h-[56px]"
             >
               <motion.span
@@ -1,8 +1,9 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GameImage as GameImageType } from '@/types/game';
+import { EraBucketSetId, GameImage as GameImageType, GameRegion, GuessDimension } from '@/types/game';
 import GameImage from './GameImage';
 import YearSelector from './YearSelector';
+import EraBucketPicker from './EraBucketPicker';
 import MapSelector from './MapSelector';
 import EnhancedButton from './EnhancedButton';
 import { toast } from "sonner";
@@ -11,6 +12,8 @@ import { useScreenReader, useKeyboardNavigation } from '@/hooks/useAccessibility
 import { useBreakpoint } from '@/hooks/useResponsive';
 import { LoadingSpinner, GameImageSkeleton, ErrorState } from '@/components/ui/LoadingStates';
 import OptimizedImage from '@/components/OptimizedImage';
+import { ERA_BUCKET_SETS, eraBucketYear, findEraBucketIndex } from '@/utils/eraBuckets';
+import { CONFIDENCE_RANGES, calculateRangeScore } from '@/utils/scoringSystem';
 
 interface GameContentProps {
   currentImage: GameImageType;
@@ -27,6 +30,16 @@ interface GameContentProps {
     timeRemaining: number;
   };
   onGameEnd: () => void;
+  eraBucketSet?: EraBucketSetId | null;
+  /** Practice modes: only this half of the guess is asked for. */
+  scoredDimension?: GuessDimension | null;
+  /** Confidence ranges; the controls only show when a change handler is given. */
+  yearMargin?: number;
+  onYearMarginChange?: (years: number) => void;
+  radiusKm?: number;
+  onRadiusChange?: (km: number) => void;
+  /** Region mode: the map is held to this region. */
+  region?: GameRegion | null;
 }
 
 const GameContent: React.FC<GameContentProps> = React.memo(({
@@ -41,30 +54,52 @@ const GameContent: React.FC<GameContentProps> = React.memo(({
   showResults,
   gameState,
   onGameEnd,
+  eraBucketSet = null,
+  scoredDimension = null,
+  yearMargin = 0,
+  onYearMarginChange,
+  radiusKm = 0,
+  onRadiusChange,
+  region = null,
 }) => {
   const { announce } = useScreenReader();
   const { isMobile, isTablet } = useBreakpoint();
+  const asksYear = scoredDimension !== 'location';
+  const asksLocation = scoredDimension !== 'year';
+  // The year slider always has a default, but an era has to be picked
+  const needsBucket = !!eraBucketSet && asksYear && yearGuess === null;
+  const bucketName = eraBucketSet === 'decades' ? 'a decade' : 'an era';
+  const needsPin = asksLocation && !locationGuess;
+  const canSubmit = !needsBucket && !needsPin;
 
   // Announce important game state changes to screen readers
   useEffect(() => {
-    if (hasGuessed && yearGuess) {
+    if (hasGuessed && yearGuess && asksYear) {
       const yearDiff = Math.abs(yearGuess - currentImage.year);
       announce(`Guess submitted. You were ${yearDiff} years off from ${currentImage.year}.`);
     }
-  }, [hasGuessed, yearGuess, currentImage.year, announce]);
+  }, [hasGuessed, yearGuess, asksYear, currentImage.year, announce]);
 
   // Keyboard navigation for year selection
   useKeyboardNavigation(
     () => {
       // Only auto-submit if both location and year are selected AND user explicitly presses Enter
-      if (!hasGuessed && locationGuess && yearGuess) {
+      if (!hasGuessed && canSubmit && (yearGuess || !asksYear)) {
         onSubmitGuess();
       }
     },
     undefined,
     (direction) => {
-      if (!hasGuessed && (direction === 'left' || direction === 'right')) {
+      if (!hasGuessed && asksYear && (direction === 'left' || direction === 'right')) {
         const increment = direction === 'right' ? 1 : -1;
+        if (eraBucketSet) {
+          // Arrow keys step through buckets rather than single years
+          const { buckets } = ERA_BUCKET_SETS[eraBucketSet];
+          const current = yearGuess === null ? -1 : findEraBucketIndex(eraBucketSet, yearGuess);
+          const next = Math.max(0, Math.min(buckets.length - 1, current + increment));
+          onYearSelected(eraBucketYear(buckets[next]));
+          return;
+        }
         const currentYear = yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT;
         const newYear = Math.max(
           GAME_CONSTANTS.YEAR_RANGE.MIN,
@@ -77,11 +112,11 @@ const GameContent: React.FC<GameContentProps> = React.memo(({
 
   // Memoize year difference calculation
   const yearDifference = useMemo(() => {
-    if (!yearGuess || !hasGuessed) return null;
+    if (!yearGuess || !hasGuessed || !asksYear) return null;
     const diff = Math.abs(yearGuess - currentImage.year);
     const direction = yearGuess > currentImage.year ? 'too late' : 'too early';
     return { diff, direction };
-  }, [yearGuess, currentImage.year, hasGuessed]);
+  }, [yearGuess, currentImage.year, hasGuessed, asksYear]);
 
   // Memoize the actual location for MapSelector
   const actualLocation = useMemo(() => 
@@ -91,10 +126,13 @@ const GameContent: React.FC<GameContentProps> = React.memo(({
 
   const handleSubmitGuess = () => {
     console.log('🎯 handleSubmitGuess called, locationGuess:', locationGuess);
-    if (!locationGuess) {
-      console.log('❌ No location selected, showing error');
-      toast.error("Please select a location on the map before submitting your guess!");
-      announce("Please select a location on the map before submitting your guess!", "assertive");
+    if (!canSubmit) {
+      const message = needsPin
+        ? "Please select a location on the map before submitting your guess!"
+        : `Please pick ${bucketName} before submitting your guess!`;
+      console.log('❌ Guess incomplete, showing error');
+      toast.error(message);
+      announce(message, "assertive");
       return;
     }
     console.log('✅ Location selected, calling onSubmitGuess');
@@ -145,7 +183,7 @@ const GameContent: React.FC<GameContentProps> = React.memo(({
         
         {/* Year selector — shown inline below the image on both mobile and desktop */}
         <AnimatePresence>
-          {!hasGuessed && (
+          {!hasGuessed && asksYear && (
             <motion.div
               className="mt-4"
               initial={{ opacity: 0, y: 20 }}
@@ -153,60 +191,98 @@ const GameContent: React.FC<GameContentProps> = React.memo(({
               exit={{ opacity: 0, y: -20 }}
               transition={{ duration: 0.6, ease: "easeOut", delay: 0.4 }}
             >
-              {/* Year display box - enhanced visual styling */}
-              <motion.div 
-                className="bg-brand text-white py-3 px-6 text-center rounded-xl mb-3 flex items-center justify-center shadow-lg border-2 border-red-600 transition-all duration-200 hover:shadow-xl" 
-                style={{ height: GAME_CONSTANTS.UI.YEAR_DISPLAY_HEIGHT }}
-                role="status"
-                aria-live="polite"
-                aria-label={`Selected year: ${yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT}`}
-                whileHover={{ scale: 1.02 }}
-                transition={{ duration: 0.2 }}
-              >
-                <motion.div
-                  className="text-4xl sm:text-5xl font-bold drop-shadow-sm"
-                  key={yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT}
-                  initial={{ scale: 1.1 }}
-                  animate={{ scale: 1 }}
-                  transition={{ duration: 0.2 }}
-                >
-                  {yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT}
-                </motion.div>
-              </motion.div>
-              
-              {/* Slider with enhanced styling and accessibility */}
-              <motion.div 
-                className="relative p-4 bg-white/50 rounded-xl shadow-sm border border-gray-200"
-                whileHover={{ scale: 1.01 }}
-                transition={{ duration: 0.2 }}
-              >
-                <label htmlFor="year-slider" className="sr-only">
-                  Select year between {GAME_CONSTANTS.YEAR_RANGE.MIN} and {GAME_CONSTANTS.YEAR_RANGE.MAX}
-                </label>
-                <input
-                  id="year-slider"
-                  type="range"
-                  min={GAME_CONSTANTS.YEAR_RANGE.MIN}
-                  max={GAME_CONSTANTS.YEAR_RANGE.MAX}
-                  value={yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT}
-                  onChange={(e) => onYearSelected(parseInt(e.target.value))}
-                  disabled={false}
-                  className="w-full h-10 appearance-none bg-transparent cursor-pointer transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-red-200"
-                  style={{ 
-                    background: `linear-gradient(to right, #ea384c ${((yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT) - GAME_CONSTANTS.YEAR_RANGE.MIN) / (GAME_CONSTANTS.YEAR_RANGE.MAX - GAME_CONSTANTS.YEAR_RANGE.MIN) * 100}%, #ea384c ${((yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT) - GAME_CONSTANTS.YEAR_RANGE.MIN) / (GAME_CONSTANTS.YEAR_RANGE.MAX - GAME_CONSTANTS.YEAR_RANGE.MIN) * 100}%, #ccc ${((yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT) - GAME_CONSTANTS.YEAR_RANGE.MIN) / (GAME_CONSTANTS.YEAR_RANGE.MAX - GAME_CONSTANTS.YEAR_RANGE.MIN) * 100}%)`,
-                    height: '12px',
-                    borderRadius: '6px',
-                  }}
-                  aria-describedby="year-range-description"
+              {eraBucketSet ? (
+                <EraBucketPicker
+                  bucketSet={eraBucketSet}
+                  selectedYear={yearGuess}
+                  onYearSelected={onYearSelected}
                 />
-                <div 
-                  id="year-range-description"
-                  className="flex justify-between text-sm text-gray-700 mt-3 font-medium"
-                >
-                  <span>{GAME_CONSTANTS.YEAR_RANGE.MIN}</span>
-                  <span>{GAME_CONSTANTS.YEAR_RANGE.MAX}</span>
-                </div>
-              </motion.div>
+              ) : (
+                <>
+                  {/* Year display box - enhanced visual styling */}
+                  <motion.div 
+                    className="bg-brand text-white py-3 px-6 text-center rounded-xl mb-3 flex items-center justify-center shadow-lg border-2 border-red-600 transition-all duration-200 hover:shadow-xl" 
+                    style={{ height: GAME_CONSTANTS.UI.YEAR_DISPLAY_HEIGHT }}
+                    role="status"
+                    aria-live="polite"
+                    aria-label={`Selected year: ${yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT}`}
+                    whileHover={{ scale: 1.02 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <motion.div
+                      className="text-4xl sm:text-5xl font-bold drop-shadow-sm"
+                      key={yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT}
+                      initial={{ scale: 1.1 }}
+                      animate={{ scale: 1 }}
+                      transition={{ duration: 0.2 }}
+                    >
+                      {yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT}
+                    </motion.div>
+                  </motion.div>
+              
+                  {/* Slider with enhanced styling and accessibility */}
+                  <motion.div 
+                    className="relative p-4 bg-white/50 rounded-xl shadow-sm border border-gray-200"
+                    whileHover={{ scale: 1.01 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <label htmlFor="year-slider" className="sr-only">
+                      Select year between {GAME_CONSTANTS.YEAR_RANGE.MIN} and {GAME_CONSTANTS.YEAR_RANGE.MAX}
+                    </label>
+                    <input
+                      id="year-slider"
+                      type="range"
+                      min={GAME_CONSTANTS.YEAR_RANGE.MIN}
+                      max={GAME_CONSTANTS.YEAR_RANGE.MAX}
+                      value={yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT}
+                      onChange={(e) => onYearSelected(parseInt(e.target.value))}
+                      disabled={false}
+                      className="w-full h-10 appearance-none bg-transparent cursor-pointer transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-red-200"
+                      style={{ 
+                        background: `linear-gradient(to right, #ea384c ${((yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT) - GAME_CONSTANTS.YEAR_RANGE.MIN) / (GAME_CONSTANTS.YEAR_RANGE.MAX - GAME_CONSTANTS.YEAR_RANGE.MIN) * 100}%, #ea384c ${((yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT) - GAME_CONSTANTS.YEAR_RANGE.MIN) / (GAME_CONSTANTS.YEAR_RANGE.MAX - GAME_CONSTANTS.YEAR_RANGE.MIN) * 100}%, #ccc ${((yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT) - GAME_CONSTANTS.YEAR_RANGE.MIN) / (GAME_CONSTANTS.YEAR_RANGE.MAX - GAME_CONSTANTS.YEAR_RANGE.MIN) * 100}%)`,
+                        height: '12px',
+                        borderRadius: '6px',
+                      }}
+                      aria-describedby="year-range-description"
+                    />
+                    <div 
+                      id="year-range-description"
+                      className="flex justify-between text-sm text-gray-700 mt-3 font-medium"
+                    >
+                      <span>{GAME_CONSTANTS.YEAR_RANGE.MIN}</span>
+                      <span>{GAME_CONSTANTS.YEAR_RANGE.MAX}</span>
+                    </div>
+                  </motion.div>
+
+                  {onYearMarginChange && (
+                    <div className="mt-3 px-4 py-3 bg-white/50 rounded-xl shadow-sm border border-gray-200">
+                      <label htmlFor="year-margin-slider" className="flex justify-between text-sm font-medium text-gray-700">
+                        <span>Year range</span>
+                        <span className="font-bold text-brand">
+                          {yearMargin > 0
+                            ? `${(yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT) - yearMargin}–${(yearGuess || GAME_CONSTANTS.YEAR_RANGE.DEFAULT) + yearMargin}`
+                            : 'Exact year'}
+                        </span>
+                      </label>
+                      <input
+                        id="year-margin-slider"
+                        type="range"
+                        min={0}
+                        max={CONFIDENCE_RANGES.MAX_YEAR_MARGIN}
+                        value={yearMargin}
+                        onChange={(e) => onYearMarginChange(parseInt(e.target.value))}
+                        className="w-full accent-brand"
+                        aria-describedby="year-margin-description"
+                      />
+                      <p id="year-margin-description" className="text-xs text-gray-500">
+                        {yearMargin > 0
+                          ? `Worth up to ${calculateRangeScore(0, yearMargin, CONFIDENCE_RANGES.YEAR_MARGIN_HALF_AT)}% of the year points — nothing if the answer is outside.`
+                          : 'Widen the range for a safer but smaller score.'}
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -257,70 +333,75 @@ const GameContent: React.FC<GameContentProps> = React.memo(({
         animate={{ opacity: 1, x: 0 }}
         transition={{ duration: 0.6, ease: "easeOut", delay: 0.2 }}
       >
-        {/* Map container - Mobile gets more space */}
-        <motion.div 
-          className="rounded-xl overflow-hidden shadow-lg border-2 border-gray-300 bg-white relative" 
-          style={{ height: isMobile ? '50vh' : GAME_CONSTANTS.UI.MAP_HEIGHT, minHeight: isMobile ? '320px' : undefined }}
-          role="application"
-          aria-label="Interactive map for location selection"
-          initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: 1, scale: 1 }}
-          transition={{ duration: 0.8, ease: "easeOut", delay: 0.4 }}
-          whileHover={{ scale: isMobile ? 1 : 1.01 }}
-        >
-          <MapSelector 
-            onLocationSelected={hasGuessed ? () => {} : onLocationSelected} 
-            isDisabled={hasGuessed} 
-            actualLocation={actualLocation} 
-            guessedLocation={locationGuess} 
-          />
+        {/* Map container - Mobile gets more space; year-only practice has no map */}
+        {asksLocation && (
+          <motion.div 
+            className="rounded-xl overflow-hidden shadow-lg border-2 border-gray-300 bg-white relative" 
+            style={{ height: isMobile ? '50vh' : GAME_CONSTANTS.UI.MAP_HEIGHT, minHeight: isMobile ? '320px' : undefined }}
+            role="application"
+            aria-label="Interactive map for location selection"
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.8, ease: "easeOut", delay: 0.4 }}
+            whileHover={{ scale: isMobile ? 1 : 1.01 }}
+          >
+            <MapSelector 
+              onLocationSelected={hasGuessed ? () => {} : onLocationSelected} 
+              isDisabled={hasGuessed} 
+              actualLocation={actualLocation} 
+              guessedLocation={locationGuess} 
+              radiusKm={radiusKm}
+              onRadiusChange={hasGuessed ? undefined : onRadiusChange}
+              region={region}
+            />
 
-          {/* Mobile year selector now renders inline above the map (not as an
-              overlay), and the mobile Submit lives in the fixed bar in Game.tsx. */}
+            {/* Mobile year selector now renders inline above the map (not as an
+                overlay), and the mobile Submit lives in the fixed bar in Game.tsx. */}
 
-          {/* Mobile: Results Overlay */}
-          <AnimatePresence>
-            {isMobile && hasGuessed && (
-              <motion.div 
-                className="absolute top-4 left-4 right-4 z-20"
-                initial={{ opacity: 0, y: -50 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -50 }}
-                transition={{ duration: 0.6, ease: "easeOut" }}
-              >
+            {/* Mobile: Results Overlay */}
+            <AnimatePresence>
+              {isMobile && hasGuessed && (
                 <motion.div 
-                  className="bg-white/95 backdrop-blur-sm rounded-lg p-4 shadow-lg border border-gray-200"
-                  initial={{ scale: 0.9 }}
-                  animate={{ scale: 1 }}
-                  transition={{ duration: 0.4, ease: "easeOut", delay: 0.2 }}
+                  className="absolute top-4 left-4 right-4 z-20"
+                  initial={{ opacity: 0, y: -50 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -50 }}
+                  transition={{ duration: 0.6, ease: "easeOut" }}
                 >
                   <motion.div 
-                    className="text-lg font-semibold text-gray-800 text-center"
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    transition={{ delay: 0.4 }}
+                    className="bg-white/95 backdrop-blur-sm rounded-lg p-4 shadow-lg border border-gray-200"
+                    initial={{ scale: 0.9 }}
+                    animate={{ scale: 1 }}
+                    transition={{ duration: 0.4, ease: "easeOut", delay: 0.2 }}
                   >
-                    {currentImage.year} - {currentImage.location.name}
-                  </motion.div>
-                  {yearGuess && yearDifference && (
                     <motion.div 
-                      className="mt-2 text-center text-gray-600"
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: 0.6 }}
+                      className="text-lg font-semibold text-gray-800 text-center"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ delay: 0.4 }}
                     >
-                      <span className="font-semibold">Your guess: </span> 
-                      <span className="font-bold text-brand">{yearGuess}</span>
-                      <span className="block text-sm mt-1">
-                        ({yearDifference.diff} years {yearDifference.direction})
-                      </span>
+                      {currentImage.year} - {currentImage.location.name}
                     </motion.div>
-                  )}
+                    {yearGuess && yearDifference && (
+                      <motion.div 
+                        className="mt-2 text-center text-gray-600"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: 0.6 }}
+                      >
+                        <span className="font-semibold">Your guess: </span> 
+                        <span className="font-bold text-brand">{yearGuess}</span>
+                        <span className="block text-sm mt-1">
+                          ({yearDifference.diff} years {yearDifference.direction})
+                        </span>
+                      </motion.div>
+                    )}
+                  </motion.div>
                 </motion.div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </motion.div>
+              )}
+            </AnimatePresence>
+          </motion.div>
+        )}
         
         {/* Desktop Submit button */}
         <AnimatePresence>
@@ -334,25 +415,25 @@ const GameContent: React.FC<GameContentProps> = React.memo(({
             >
               <div className="mb-3 mt-3">
                 <motion.div
-                  whileHover={{ scale: locationGuess ? 1.02 : 1 }}
-                  whileTap={{ scale: locationGuess ? 0.98 : 1 }}
+                  whileHover={{ scale: canSubmit ? 1.02 : 1 }}
+                  whileTap={{ scale: canSubmit ? 0.98 : 1 }}
                   transition={{ duration: 0.2 }}
                 >
                   <EnhancedButton 
                     onClick={handleSubmitGuess} 
-                    disabled={!locationGuess} 
+                    disabled={!canSubmit} 
                     animationType="pulse" 
                     className={`w-full py-3 px-6 rounded-xl font-bold transition-all duration-300 flex items-center justify-center shadow-lg border-2 focus:ring-4 focus:ring-red-200 focus:outline-none text-5xl ${
-                      locationGuess 
+                      canSubmit 
                         ? "bg-brand hover:bg-red-600 text-white border-red-600 hover:shadow-xl" 
                         : "bg-gray-300 text-gray-500 cursor-not-allowed border-gray-400 shadow-sm"
                     }`}
                     style={{ height: GAME_CONSTANTS.UI.SUBMIT_BUTTON_HEIGHT }}
-                    aria-label={locationGuess ? "Submit your guess" : "Select a location first to submit guess"}
+                    aria-label={canSubmit ? "Submit your guess" : needsPin ? "Select a location first to submit guess" : `Pick ${bucketName} first to submit guess`}
                   >
                     <motion.span 
                       className="drop-shadow-sm"
-                      animate={locationGuess ? { scale: [1, 1.05, 1] } : {}}
+                      animate={canSubmit ? { scale: [1, 1.05, 1] } : {}}
                       transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
                     >
                       Make Guess
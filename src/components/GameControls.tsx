@@ -1,6 +1,8 @@
 import React from 'react';
 import EnhancedButton from './EnhancedButton';
+import { Lightbulb } from 'lucide-react';
 import { calculateDistance } from '@/utils/gameUtils';
+import { IMAGE_HINT_LABELS } from '@/utils/imageHints';
 import { GuessResult, GameImage } from '@/types/game';
 
 interface GameControlsProps {
@@ -14,6 +16,10 @@ interface GameControlsProps {
   onSubmitGuess: () => void;
   onNextRound: () => void;
   isSpectator?: boolean;
+  // Hints: revealed in order before guessing; omitted where rounds can't record them
+  hintsRevealed?: number;
+  hintPenalty?: number;
+  onRevealHint?: () => void;
 }
 
 const GameControls: React.FC<GameControlsProps> = ({
@@ -26,8 +32,13 @@ const GameControls: React.FC<GameControlsProps> = ({
   isTimedMode,
   onSubmitGuess,
   onNextRound,
-  isSpectator
+  isSpectator,
+  hintsRevealed = 0,
+  hintPenalty = 0,
+  onRevealHint
 }) => {
+  const hints = currentImage.hints ?? [];
+
   if (hasGuessed) {
     return (
       <div className="flex-shrink-0 mt-4 space-y-4">
@@ -45,6 +56,13 @@ const GameControls: React.FC<GameControlsProps> = ({
           </div>
         )}
         
+        {!!currentResult?.hintsUsed && (
+          <div className="text-center text-gray-600 bg-white p-3 rounded-xl">
+            {currentResult.hintsUsed} hint{currentResult.hintsUsed === 1 ? '' : 's'} used
+            {!!currentResult.hintPenalty && ` (−${currentResult.hintPenalty.toLocaleString()} points)`}
+          </div>
+        )}
+
         {currentResult?.timeUsed && isTimedMode && (
           <div className="text-center text-gray-600 bg-white p-3 rounded-xl">
             Time used: {currentResult.timeUsed}s
@@ -65,8 +83,35 @@ const GameControls: React.FC<GameControlsProps> = ({
     );
   }
 
-  // When user hasn't guessed yet, don't show any controls since they're now in GameContent
-  return null;
+  // Before the guess the submit controls live in GameContent; only hints show here
+  if (!onRevealHint || isSpectator || hints.length === 0) return null;
+
+  return (
+    <div className="flex-shrink-0 mt-4 bg-white p-4 rounded-xl shadow-md space-y-3">
+      {hints.slice(0, hintsRevealed).map((hint, i) => (
+        <p key={i} className="text-sm text-gray-700">
+          <span className="font-semibold">{IMAGE_HINT_LABELS[hint.kind]}:</span> {hint.text}
+        </p>
+      ))}
+      {hintsRevealed < hints.length ? (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-gray-500">
+            {hints.length - hintsRevealed} hint{hints.length - hintsRevealed === 1 ? '' : 's'} available
+          </span>
+          <EnhancedButton
+            onClick={onRevealHint}
+            variant="outline"
+            className="border-brand/30 text-brand hover:bg-brand/5"
+          >
+            <Lightbulb className="h-4 w-4 mr-2" />
+            Reveal hint{hintPenalty > 0 && ` (−${hintPenalty.toLocaleString()})`}
+          </EnhancedButton>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">No more hints for this photo</p>
+      )}
+    </div>
+  );
 };
 
 export default GameControls;
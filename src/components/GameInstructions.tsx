@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Play, 
@@ -10,15 +10,36 @@ import {
   Zap,
   Trophy,
   Brain,
-  Lightbulb
+  Lightbulb,
+  CalendarRange,
+  Crosshair,
+  Gauge,
+  Library,
+  MapPinned
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { listPublishedCollections } from '@/services/collectionService';
+import { listPublishedRegions } from '@/services/regionService';
+import { EraBucketSetId, GameDifficulty, GameRegion, GuessDimension, ImageCollection } from '@/types/game';
+import { ERA_BUCKET_SETS } from '@/utils/eraBuckets';
+import { DIFFICULTY_LABELS, DIFFICULTY_TIERS } from '@/utils/imageDifficulty';
 
 
 interface GameInstructionsProps {
-  onStart: (isTimedMode: boolean, timerType: 'per-round' | 'total-game') => void;
+  onStart: (
+    isTimedMode: boolean,
+    timerType: 'per-round' | 'total-game',
+    eraBucketSet: EraBucketSetId | null,
+    scoredDimension: GuessDimension | null,
+    difficulty: GameDifficulty | null,
+    collection: ImageCollection | null,
+    region: GameRegion | null
+  ) => void;
   onGoBack: () => void;
+  // Opened from Home's "Play a collection": preselect the first collection
+  preferCollection?: boolean;
 }
 
 // Animation variants
@@ -45,14 +66,78 @@ const itemVariants = {
   },
 };
 
-const GameInstructions: React.FC<GameInstructionsProps> = ({ onStart, onGoBack }) => {
+const GameInstructions: React.FC<GameInstructionsProps> = ({ onStart, onGoBack, preferCollection = false }) => {
   const [selectedMode, setSelectedMode] = useState<'normal' | 'timed'>('normal');
   const [timerType, setTimerType] = useState<'per-round' | 'total-game'>('per-round');
+  // 'exact' is the classic year slider; otherwise era mode with that bucket set
+  const [yearInput, setYearInput] = useState<'exact' | EraBucketSetId>('exact');
+  // 'both' is the full game; otherwise a practice mode that plays one half
+  const [guessFocus, setGuessFocus] = useState<'both' | GuessDimension>('both');
+  // 'any' draws from the whole pool; a tier plays that tier's photos first,
+  // adaptive the photos rated near the player
+  const [difficulty, setDifficulty] = useState<'any' | GameDifficulty>('any');
+  // 'all' plays the whole pool; otherwise only the chosen collection's photos
+  const [collections, setCollections] = useState<ImageCollection[]>([]);
+  const [collectionId, setCollectionId] = useState<string>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    listPublishedCollections()
+      .then(list => {
+        if (cancelled) return;
+        setCollections(list);
+        if (preferCollection && list.length > 0) setCollectionId(list[0].id);
+      })
+      .catch(error => console.warn('⚠️ Could not load collections:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [preferCollection]);
+
+  const selectedCollection = collections.find(c => c.id === collectionId) ?? null;
+
+  // 'anywhere' is the usual map; otherwise region mode for that region
+  const [regions, setRegions] = useState<GameRegion[]>([]);
+  const [regionId, setRegionId] = useState<string>('anywhere');
+
+  useEffect(() => {
+    listPublishedRegions()
+      .then(setRegions)
+      .catch(error => console.warn('⚠️ Could not load regions:', error));
+  }, []);
+
+  const selectedRegion = regions.find(r => r.id === regionId) ?? null;
 
   const handleStart = () => {
-    onStart(selectedMode === 'timed', timerType);
+    const isPractice = guessFocus !== 'both';
+    onStart(
+      selectedMode === 'timed',
+      timerType,
+      isPractice || yearInput === 'exact' ? null : yearInput,
+      isPractice ? guessFocus : null,
+      difficulty === 'any' ? null : difficulty,
+      selectedCollection,
+      selectedRegion
+    );
   };
 
+  const guessFocusOptions: Array<{ id: 'both' | GuessDimension; name: string; description: string }> = [
+    { id: 'both', name: 'Year & place', description: 'The full game: date the photo and pin it on the map.' },
+    { id: 'year', name: 'Year only', description: 'Practice dating photos. No map.' },
+    { id: 'location', name: 'Place only', description: 'Practice placing photos. No year.' },
+  ];
+
+  const difficultyOptions: Array<{ id: 'any' | GameDifficulty; name: string; description: string }> = [
+    { id: 'any', name: 'Any', description: 'Photos from the whole collection.' },
+    ...DIFFICULTY_TIERS.map(id => ({ id, ...DIFFICULTY_LABELS[id] })),
+    { id: 'adaptive', name: 'Adaptive', description: 'Photos matched to your skill, which grows as you play.' },
+  ];
+
+  const yearInputOptions: Array<{ id: 'exact' | EraBucketSetId; name: string; description: string }> = [
+    { id: 'exact', name: 'Exact year', description: 'Slide to the year the photo was taken.' },
+    ...Object.values(ERA_BUCKET_SETS).map(({ id, name, description }) => ({ id, name, description })),
+  ];
+
   return (
     <div className="relative flex flex-col min-h-screen w-full">
       {/* Back button - Enhanced styling */}
@@ -303,6 +388,169 @@ const GameInstructions: React.FC<GameInstructionsProps> = ({ onStart, onGoBack }
 
 
             </div>
+
+            {/* What to guess - the full game or a single-dimension practice mode */}
+            <div className="mt-8 pt-6 border-t border-gray-200">
+              <div className="flex items-center gap-2 text-gray-800 font-semibold mb-3">
+                <Crosshair size={18} className="text-brand" />
+                <span>What do you want to guess?</span>
+              </div>
+              <div className="grid sm:grid-cols-3 gap-3" role="radiogroup" aria-label="What to guess">
+                {guessFocusOptions.map(option => (
+                  <motion.button
+                    key={option.id}
+                    type="button"
+                    role="radio"
+                    aria-checked={guessFocus === option.id}
+                    onClick={() => setGuessFocus(option.id)}
+                    className={`p-3 rounded-lg border-2 text-left transition-all duration-200 ${
+                      guessFocus === option.id
+                        ? 'border-brand bg-red-50/80 shadow-md'
+                        : 'border-gray-200 bg-white/90 hover:border-gray-300'
+                    }`}
+                    whileHover={{ scale: 1.03 }}
+                    whileTap={{ scale: 0.97 }}
+                  >
+                    <div className="font-bold text-sm text-gray-800">{option.name}</div>
+                    <div className="text-xs text-gray-600">{option.description}</div>
+                  </motion.button>
+                ))}
+              </div>
+              {guessFocus !== 'both' && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Practice mode: the one thing you guess is worth the full 10,000 points a round.
+                  Ranked on its own leaderboard.
+                </p>
+              )}
+            </div>
+
+            {/* Collection - a curated set of photos, ranked on its own board */}
+            {collections.length > 0 && (
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <div className="flex items-center gap-2 text-gray-800 font-semibold mb-3">
+                  <Library size={18} className="text-brand" />
+                  <span>Which photos?</span>
+                </div>
+                <Select value={collectionId} onValueChange={setCollectionId}>
+                  <SelectTrigger className="bg-white/90 sm:max-w-sm" aria-label="Collection">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everything</SelectItem>
+                    {collections.map(c => (
+                      <SelectItem key={c.id} value={c.id}>{c.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedCollection && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    {selectedCollection.description ? `${selectedCollection.description} ` : ''}
+                    Ranked on the collection's own leaderboard.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Region - images and the map bounded to one state or city */}
+            {regions.length > 0 && (
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <div className="flex items-center gap-2 text-gray-800 font-semibold mb-3">
+                  <MapPinned size={18} className="text-brand" />
+                  <span>Where?</span>
+                </div>
+                <Select value={regionId} onValueChange={setRegionId}>
+                  <SelectTrigger className="bg-white/90 sm:max-w-sm" aria-label="Region">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="anywhere">Anywhere</SelectItem>
+                    {regions.map(r => (
+                      <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedRegion && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Region mode: only photos from {selectedRegion.name}, and the map stays there.
+                    Scored in kilometres on the Regional leaderboard.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Difficulty - the whole pool, one tier of it, or matched to the player */}
+            <div className="mt-8 pt-6 border-t border-gray-200">
+              <div className="flex items-center gap-2 text-gray-800 font-semibold mb-3">
+                <Gauge size={18} className="text-brand" />
+                <span>How hard should it be?</span>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3" role="radiogroup" aria-label="Difficulty">
+                {difficultyOptions.map(option => (
+                  <motion.button
+                    key={option.id}
+                    type="button"
+                    role="radio"
+                    aria-checked={difficulty === option.id}
+                    onClick={() => setDifficulty(option.id)}
+                    className={`p-3 rounded-lg border-2 text-left transition-all duration-200 ${
+                      difficulty === option.id
+                        ? 'border-brand bg-red-50/80 shadow-md'
+                        : 'border-gray-200 bg-white/90 hover:border-gray-300'
+                    }`}
+                    whileHover={{ scale: 1.03 }}
+                    whileTap={{ scale: 0.97 }}
+                  >
+                    <div className="font-bold text-sm text-gray-800">{option.name}</div>
+                    <div className="text-xs text-gray-600">{option.description}</div>
+                  </motion.button>
+                ))}
+              </div>
+              {difficulty !== 'any' && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {difficulty === 'adaptive'
+                    ? 'Your skill rating rises and falls with every round you play. '
+                    : 'Difficulty is rated from how everyone has played each photo. '}
+                  These games don't count towards the leaderboard.
+                </p>
+              )}
+            </div>
+
+            {/* Year guessing style - exact year or era mode */}
+            {guessFocus === 'both' && (
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <div className="flex items-center gap-2 text-gray-800 font-semibold mb-3">
+                  <CalendarRange size={18} className="text-brand" />
+                  <span>How do you want to guess the year?</span>
+                </div>
+                <div className="grid sm:grid-cols-3 gap-3" role="radiogroup" aria-label="Year guessing style">
+                  {yearInputOptions.map(option => (
+                    <motion.button
+                      key={option.id}
+                      type="button"
+                      role="radio"
+                      aria-checked={yearInput === option.id}
+                      onClick={() => setYearInput(option.id)}
+                      className={`p-3 rounded-lg border-2 text-left transition-all duration-200 ${
+                        yearInput === option.id
+                          ? 'border-brand bg-red-50/80 shadow-md'
+                          : 'border-gray-200 bg-white/90 hover:border-gray-300'
+                      }`}
+                      whileHover={{ scale: 1.03 }}
+                      whileTap={{ scale: 0.97 }}
+                    >
+                      <div className="font-bold text-sm text-gray-800">{option.name}</div>
+                      <div className="text-xs text-gray-600">{option.description}</div>
+                    </motion.button>
+                  ))}
+                </div>
+                {yearInput !== 'exact' && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Era mode: full points for the right bucket, partial points for a neighbouring one.
+                    Ranked on its own leaderboard.
+                  </p>
+                )}
+              </div>
+            )}
           </Card>
         </motion.div>
         
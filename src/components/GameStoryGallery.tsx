@@ -25,8 +25,8 @@ const Photo: React.FC<{
   roundInfo: {
     roundNumber: number;
     score: number;
-    distance: number;
-    yearDiff: number;
+    distance: number | null; // null when the round didn't guess that half
+    yearDiff: number | null;
     timeUsed?: number;
     locationName: string;
   };
@@ -118,14 +118,18 @@ const Photo: React.FC<{
                 <Trophy size={16} />
                 {Math.round(roundInfo.score)} pts
               </div>
-              <div className="flex items-center gap-2">
-                <MapPin size={16} />
-                {Math.round(roundInfo.distance)}mi
-              </div>
-              <div className="flex items-center gap-2">
-                <Calendar size={16} />
-                {roundInfo.yearDiff}yr
-              </div>
+              {roundInfo.distance !== null && (
+                <div className="flex items-center gap-2">
+                  <MapPin size={16} />
+                  {Math.round(roundInfo.distance)}mi
+                </div>
+              )}
+              {roundInfo.yearDiff !== null && (
+                <div className="flex items-center gap-2">
+                  <Calendar size={16} />
+                  {roundInfo.yearDiff}yr
+                </div>
+              )}
               {isTimedMode && roundInfo.timeUsed && (
                 <div className="flex items-center gap-2">
                   <Timer size={16} />
@@ -400,12 +404,16 @@ export const GameStoryGallery: React.FC<GameStoryGalleryProps> = ({
               <div className="relative h-[300px] w-[300px]">
                 {/* Render photos in reverse z-index order */}
                 {results.map((result, index) => {
-                  const distance = result.actualLocation ? calculateDistance(
-                    result.locationGuess.lat, result.locationGuess.lng,
-                    result.actualLocation.lat, result.actualLocation.lng
-                  ) : 0;
-
-                  const yearDiff = result.actualYear ? Math.abs(result.yearGuess - result.actualYear) : 0;
+                  const distance = result.scoredDimension === 'year'
+                    ? null
+                    : result.actualLocation ? calculateDistance(
+                      result.locationGuess.lat, result.locationGuess.lng,
+                      result.actualLocation.lat, result.actualLocation.lng
+                    ) : 0;
+
+                  const yearDiff = result.scoredDimension === 'location'
+                    ? null
+                    : result.actualYear ? Math.abs(result.yearGuess - result.actualYear) : 0;
                   const position = photoPositions[index];
                   
                   // Base z-index with higher index = higher z-index, but hovered photo gets highest
@@ -4,7 +4,9 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { GuessResult } from '@/types/game';
 import { Navigation, MapPin, Timer } from 'lucide-react';
-import { loadGoogleMapsScript, createOptimizedMap } from '@/utils/mapUtils';
+import { loadMapProvider } from '@/utils/mapUtils';
+import type { GameMap, LatLng, MapLine, MapMarker, MapProvider } from '@/utils/mapProvider';
+import { describeEraMiss, describeEraNoPick } from '@/utils/eraBuckets';
 
 interface GameSummaryProps {
   results: GuessResult[];
@@ -24,7 +26,7 @@ const GameSummary: React.FC<GameSummaryProps> = ({ results, onPlayAgain, onGoHom
     
     // Fallback: use display scores if available
     if (result.displayYearScore !== undefined && result.displayLocationScore !== undefined) {
-      const baseScore = result.displayYearScore + result.displayLocationScore;
+      const baseScore = result.displayYearScore + result.displayLocationScore - (result.hintPenalty || 0);
       const timeBonus = result.timeBonus || 0;
       return baseScore + timeBonus;
     }
@@ -51,9 +53,10 @@ const GameSummary: React.FC<GameSummaryProps> = ({ results, onPlayAgain, onGoHom
   });
     
   const mapRef = useRef<HTMLDivElement>(null);
-  const googleMapRef = useRef<google.maps.Map | null>(null);
-  const markersRef = useRef<google.maps.Marker[]>([]);
-  const linesRef = useRef<google.maps.Polyline[]>([]);
+  const gameMapRef = useRef<GameMap | null>(null);
+  const markersRef = useRef<MapMarker[]>([]);
+  const linesRef = useRef<MapLine[]>([]);
+  const [provider, setProvider] = useState<MapProvider | null>(null);
   const [mapReady, setMapReady] = useState(false);
 
   // Calculate total time used for timed mode
@@ -73,11 +76,30 @@ const GameSummary: React.FC<GameSummaryProps> = ({ results, onPlayAgain, onGoHom
   };
   
   // Calculate years difference for display
-  const getYearsDiff = (actual: number, guess: number) => {
+  const getYearsDiff = (actual: number, guess: number, result: GuessResult) => {
+    if (result.eraUnpicked) return describeEraNoPick(result.eraBucketSet);
+    if (result.eraBucketSet) return describeEraMiss(result.eraBucketSet, actual, guess);
     const diff = Math.abs(actual - guess);
     return `${diff} yrs off`;
   };
   
+  // "N yrs off - M mi", leaving out whichever half a practice mode didn't play
+  const getRoundMiss = (result: GuessResult) => {
+    const parts: string[] = [];
+    if (result.scoredDimension !== 'location') {
+      parts.push(result.actualYear ? getYearsDiff(result.actualYear, result.yearGuess, result) : `Year: ${result.yearGuess}`);
+    }
+    if (result.scoredDimension !== 'year' && result.actualLocation) {
+      parts.push(`${Math.round(
+        calculateDistance(
+          result.locationGuess.lat, result.locationGuess.lng,
+          result.actualLocation.lat, result.actualLocation.lng
+        )
+      )} mi`);
+    }
+    return parts.join(' - ');
+  };
+
   // Get image URL for each result (using the stored imageUrl)
   const getImageUrl = (result: GuessResult) => {
     // Use the actual image URL stored in the result
@@ -87,139 +109,94 @@ const GameSummary: React.FC<GameSummaryProps> = ({ results, onPlayAgain, onGoHom
   // Create custom marker with consistent styling
   const createCustomMarker = (
     position: { lat: number; lng: number },
-    map: google.maps.Map,
+    map: GameMap,
     isGuess: boolean,
     title: string,
     label?: string
-  ): google.maps.Marker => {
-    return new google.maps.Marker({
-      position,
-      map,
-      title,
-      label: label ? {
-        text: label,
-        color: "#ffffff",
-        fontSize: "12px",
-        fontWeight: "bold"
-      } : undefined,
-      icon: {
-        path: google.maps.SymbolPath.CIRCLE,
-        scale: 12,
-        fillColor: isGuess ? "#3b82f6" : "#ea384c",
-        fillOpacity: 1,
-        strokeWeight: 3,
-        strokeColor: "#ffffff",
-        strokeOpacity: 1
-      }
-    });
+  ): MapMarker => map.createMarker(position, { color: isGuess ? "#3b82f6" : "#ea384c", title, label });
+
+  // Clear existing markers and lines
+  const clearMapElements = () => {
+    markersRef.current.forEach(marker => marker.remove());
+    linesRef.current.forEach(line => line.remove());
+    markersRef.current = [];
+    linesRef.current = [];
   };
 
-  // Initialize Google Maps
+  // Create the map once the provider is known
   useEffect(() => {
-    // Check if the Google Maps API is loaded
-    if (!window.google?.maps || !mapRef.current) return;
-    
+    if (!provider || !mapRef.current) return;
+
     try {
-      // Use optimized map configuration for better performance
-      const map = createOptimizedMap(mapRef.current, {
+      const map = provider.createMap(mapRef.current, {
         center: { lat: 20, lng: 0 },
         zoom: 2
       });
-      
-      googleMapRef.current = map;
+      gameMapRef.current = map;
       setMapReady(true);
-      
-      // Clear existing markers and lines
-      markersRef.current.forEach(marker => marker.setMap(null));
-      linesRef.current.forEach(line => line.setMap(null));
-      markersRef.current = [];
-      linesRef.current = [];
-      
-      // If no results, stop here
-      if (results.length === 0) return;
-      
-      // Create bounds to fit all points
-      const bounds = new google.maps.LatLngBounds();
-      
-      // Add markers and lines for each guess
-      results.forEach((result, index) => {
-        // Get the user's guessed location
-        const guessedLocation = result.locationGuess;
-        
-        // Get the actual location from the result
-        const actualLocation = result.actualLocation;
-        
-        if (!actualLocation) {
-          console.error("Missing actual location for result:", result);
-          return;
-        }
-        
-        // Add guessed location marker with custom styling and label
-        const guessMarker = createCustomMarker(
-          guessedLocation,
-          map,
-          true,
-          `Round ${index + 1} - Your Guess`,
-          (index + 1).toString()
-        );
-        
-        markersRef.current.push(guessMarker);
-        bounds.extend(guessedLocation);
-        
-        // Add actual location marker with custom styling
-        const actualMarker = createCustomMarker(
-          actualLocation,
-          map,
-          false,
-          `Round ${index + 1} - Actual Location`
-        );
-          
-        // Line connecting the two
-        const line = new google.maps.Polyline({
-          path: [guessedLocation, actualLocation],
-          geodesic: true,
-          strokeColor: "#ea384c",
-          strokeOpacity: 0.8,
-          strokeWeight: 2,
-          map
-        });
-          
-        markersRef.current.push(actualMarker);
-        linesRef.current.push(line);
-        bounds.extend(actualLocation);
-      });
-      
-      // Fit the map to show all points with some padding
-      map.fitBounds(bounds, 50);
+
+      return () => {
+        clearMapElements();
+        map.destroy();
+        gameMapRef.current = null;
+      };
     } catch (error) {
-      console.error("Error initializing Google Maps:", error);
+      console.error("Error initializing the map:", error);
     }
-  }, [results, mapRef]);
+  }, [provider]);
 
-  // Load Google Maps API
+  // Every round's guess and answer, joined by a line
   useEffect(() => {
-    if (window.google?.maps) {
-      setMapReady(true);
-      return;
+    const map = gameMapRef.current;
+    if (!mapReady || !map) return;
+
+    clearMapElements();
+
+    // If no results, stop here
+    if (results.length === 0) return;
+
+    // Every point, to fit the map to
+    const points: LatLng[] = [];
+
+    results.forEach((result, index) => {
+      // Get the user's guessed location
+      const guessedLocation = result.locationGuess;
+
+      // Get the actual location from the result
+      const actualLocation = result.actualLocation;
+
+      if (!actualLocation) {
+        console.error("Missing actual location for result:", result);
+        return;
+      }
+
+      markersRef.current.push(
+        createCustomMarker(guessedLocation, map, true, `Round ${index + 1} - Your Guess`, (index + 1).toString()),
+        createCustomMarker(actualLocation, map, false, `Round ${index + 1} - Actual Location`)
+      );
+      linesRef.current.push(
+        map.createPolyline([guessedLocation, actualLocation], { color: "#ea384c", opacity: 0.8, weight: 2 })
+      );
+      points.push(guessedLocation, actualLocation);
+    });
+
+    // Fit the map to show all points with some padding
+    if (points.length > 0) {
+      map.smoothFitBounds(points, 50);
     }
-    
-    loadGoogleMapsScript()
-      .then(() => {
-        setMapReady(true);
-      })
-      .catch((error) => {
-        console.error('Failed to load Google Maps:', error);
-      });
-  }, []);
+  }, [results, mapReady]);
 
-  // Cleanup markers and lines on unmount
+  // Google Maps if it loads, the offline map otherwise
   useEffect(() => {
+    let cancelled = false;
+    loadMapProvider().then((loaded) => {
+      if (!cancelled) setProvider(loaded);
+    });
     return () => {
-      markersRef.current.forEach(marker => marker.setMap(null));
-      linesRef.current.forEach(line => line.setMap(null));
+      cancelled = true;
     };
   }, []);
-  
+
   // Handle the exit button click to go back to home page
   const handleExitClick = () => {
     console.log('🏠 Navigating to home page (without page reload)...');
@@ -326,13 +303,7 @@ const GameSummary: React.FC<GameSummaryProps> = ({ results, onPlayAgain, onGoHom
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 1.4 + (index * 0.1) }}
                   >
-                    {result.actualYear ? getYearsDiff(result.actualYear, result.yearGuess) : `Year: ${result.yearGuess}`} 
-                    {result.actualLocation ? ` - ${Math.round(
-                      calculateDistance(
-                        result.locationGuess.lat, result.locationGuess.lng,
-                        result.actualLocation.lat, result.actualLocation.lng
-                      )
-                    )} mi` : ''}
+                    {getRoundMiss(result)}
                     {isTimedMode && result.timeUsed && (
                       <div className="text-xs opacity-70">
                         {formatTime(result.timeUsed)}
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { Play, Calendar, GraduationCap, Camera, Trophy, MessageSquare, Users } from 'lucide-react';
+import { Play, Calendar, GraduationCap, Camera, Trophy, MessageSquare, Users, History, X } from 'lucide-react';
 import { GradientButton } from '@/components/ui/gradient-button';
 import { UserHeader } from './UserHeader';
 import { Leaderboard } from './Leaderboard';
@@ -12,11 +12,15 @@ import { useBreakpoint } from '@/hooks/useResponsive';
 
 interface HomeProps {
   onPlayClick?: () => void;
+  onCollectionsClick?: () => void;
   onDailyChallengeClick?: () => Promise<void>;
   onTutorialClick?: () => void;
   onMultiplayerClick?: () => void;
   hasPlayedDailyToday?: boolean;
   onRefreshDailyChallenge?: () => Promise<void>;
+  savedGameSummary?: string; // set when there's an unfinished game to resume
+  onResumeGame?: () => void;
+  onDiscardSavedGame?: () => void;
 }
 
 // Animation variants for staggered effects
@@ -76,11 +80,15 @@ const buttonVariants = {
 
 export const Home: React.FC<HomeProps> = ({
   onPlayClick,
+  onCollectionsClick,
   onDailyChallengeClick,
   onTutorialClick,
   onMultiplayerClick,
   hasPlayedDailyToday = false,
-  onRefreshDailyChallenge
+  onRefreshDailyChallenge,
+  savedGameSummary,
+  onResumeGame,
+  onDiscardSavedGame
 }) => {
   const navigate = useNavigate();
   const [showLeaderboard, setShowLeaderboard] = useState(false);
@@ -304,6 +312,44 @@ export const Home: React.FC<HomeProps> = ({
             className={`flex flex-col items-center w-full ${isMobile ? 'gap-3' : 'gap-4 lg:gap-5'}`}
             variants={buttonContainerVariants}
           >
+            {/* Resume an unfinished game */}
+            {savedGameSummary && onResumeGame && (
+              <motion.div
+                className="w-full flex justify-center"
+                variants={buttonVariants}
+              >
+                <div
+                  className={`flex items-center gap-3 rounded-2xl bg-white/90 shadow-lg ${
+                    isMobile ? 'w-full max-w-xs px-3 py-2.5' : 'w-full max-w-sm px-4 py-3'
+                  }`}
+                >
+                  <History size={isMobile ? 18 : 20} className="text-brand shrink-0" />
+                  <div className="flex-1 min-w-0 text-left">
+                    <div className="text-sm font-semibold text-gray-900 font-poppins">Resume game</div>
+                    <div className="text-xs text-gray-600 truncate">{savedGameSummary}</div>
+                  </div>
+                  <Button
+                    onClick={onResumeGame}
+                    size="sm"
+                    className="bg-brand hover:bg-red-600 text-white rounded-full"
+                  >
+                    Resume
+                  </Button>
+                  {onDiscardSavedGame && (
+                    <Button
+                      onClick={onDiscardSavedGame}
+                      variant="ghost"
+                      size="sm"
+                      aria-label="Discard saved game"
+                      className="rounded-full px-2 text-gray-500 hover:text-gray-800"
+                    >
+                      <X size={16} />
+                    </Button>
+                  )}
+                </div>
+              </motion.div>
+            )}
+
             {/* Play Button */}
             <motion.div 
               className="w-full flex justify-center"
@@ -327,6 +373,16 @@ export const Home: React.FC<HomeProps> = ({
                 </GradientButton>
               </motion.div>
             </motion.div>
+            {onCollectionsClick && (
+              <motion.div className="-mt-1 lg:-mt-2" variants={buttonVariants}>
+                <button
+                  onClick={onCollectionsClick}
+                  className="text-sm font-medium text-white/90 hover:text-white underline underline-offset-4 drop-shadow"
+                >
+                  Play a collection
+                </button>
+              </motion.div>
+            )}
 
             {/* Daily Challenge Button */}
             <motion.div 
@@ -357,6 +413,14 @@ export const Home: React.FC<HomeProps> = ({
                 </GradientButton>
               </motion.div>
             </motion.div>
+            <motion.div className="-mt-1 lg:-mt-2" variants={buttonVariants}>
+              <button
+                onClick={() => navigate('/daily')}
+                className="text-sm font-medium text-white/90 hover:text-white underline underline-offset-4 drop-shadow"
+              >
+                Past challenges &amp; streaks
+              </button>
+            </motion.div>
 
             {/* Tutorial Button */}
             <motion.div 
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '@/integrations/supabase/client';
-import { LeaderboardEntry, LeaderboardFilters } from '@/types/game';
-import { Trophy, Medal, Award, Calendar, Clock, Target, Users, X, Star, Crown, Zap } from 'lucide-react';
+import { ImageCollection, LeaderboardEntry, LeaderboardFilters, ScoringProfileId } from '@/types/game';
+import { Trophy, Medal, Award, Calendar, Clock, Target, Users, X, Star, Crown, Zap, Library } from 'lucide-react';
 import { safeQuery, testDatabaseConnectivity } from '@/utils/databaseUtils';
 import { useProfileContext } from '@/contexts/ProfileContext';
 import { useKeyboardNavigation } from '@/hooks/useAccessibility';
+import { DEFAULT_SCORING_PROFILE, SCORING_PROFILES, SCORING_PROFILE_IDS } from '@/utils/scoringProfiles';
+import { listPublishedCollections } from '@/services/collectionService';
 
 
 interface LeaderboardProps {
@@ -22,8 +24,13 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose }) =>
     // which is usually empty and made the leaderboard look broken on first open.
     timeframe: 'all-time',
     gameMode: 'all',
-    metric: 'total_score'
+    // Scores from different profiles are not comparable, so rank one at a time.
+    scoringProfile: DEFAULT_SCORING_PROFILE,
+    metric: 'total_score',
+    // Collection games rank only on their collection's board
+    collectionId: null
   });
+  const [collections, setCollections] = useState<ImageCollection[]>([]);
   const { refreshAllProfiles } = useProfileContext();
 
   // Close on Escape for keyboard users.
@@ -72,6 +79,13 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose }) =>
     }
   }, [isOpen, filters]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    listPublishedCollections()
+      .then(setCollections)
+      .catch(err => console.warn('⚠️ Could not load collections:', err));
+  }, [isOpen]);
+
   // Listen for profile updates and refresh leaderboard
   useEffect(() => {
     const handleProfileUpdate = (event: CustomEvent) => {
@@ -149,6 +163,8 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose }) =>
             start_ts: startDate ? startDate.toISOString() : null,
             end_ts: endDate ? endDate.toISOString() : null,
             game_mode_filter: filters.gameMode,
+            scoring_profile_filter: filters.scoringProfile,
+            collection_filter: filters.collectionId,
             limit_count: 100,
           });
         },
@@ -331,7 +347,7 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose }) =>
 
           {/* Filters */}
             <motion.div 
-              className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-6"
+              className={`mt-8 grid grid-cols-1 md:grid-cols-2 gap-6 ${collections.length > 0 ? 'lg:grid-cols-5' : 'lg:grid-cols-4'}`}
               variants={itemVariants}
             >
             {/* Timeframe Filter */}
@@ -379,9 +395,61 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose }) =>
                 <option value="daily">Daily Challenge</option>
                 <option value="timed">Timed (30s & 4min)</option>
                 <option value="random">Normal Mode</option>
+                <option value="era">Era Mode</option>
+                <option value="year_only">Year Only (practice)</option>
+                <option value="location_only">Place Only (practice)</option>
+              </select>
+            </div>
+
+            {/* Scoring Profile Filter */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-white/90 flex items-center gap-2">
+                  <Star className="w-4 h-4" />
+                Scoring
+              </label>
+              <select
+                value={filters.scoringProfile}
+                onChange={(e) => setFilters(prev => ({ ...prev, scoringProfile: e.target.value as ScoringProfileId }))}
+                className="w-full pl-4 pr-10 py-3 rounded-xl bg-white/10 backdrop-blur-sm border border-white/20 text-white placeholder-white/60 focus:ring-2 focus:ring-white/30 focus:border-white/40 transition-all duration-200 appearance-none cursor-pointer"
+                style={{
+                  backgroundImage: `url("data:image/svg+xml;charset=UTF-8,%3csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='white' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3e%3cpolyline points='6,9 12,15 18,9'%3e%3c/polyline%3e%3c/svg%3e")`,
+                  backgroundRepeat: 'no-repeat',
+                  backgroundPosition: 'right 12px center',
+                  backgroundSize: '16px'
+                }}
+              >
+                {SCORING_PROFILE_IDS.map(id => (
+                  <option key={id} value={id}>{SCORING_PROFILES[id].name}</option>
+                ))}
               </select>
             </div>
 
+            {/* Collection Filter */}
+            {collections.length > 0 && (
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-white/90 flex items-center gap-2">
+                  <Library className="w-4 h-4" />
+                  Collection
+                </label>
+                <select
+                  value={filters.collectionId ?? 'all'}
+                  onChange={(e) => setFilters(prev => ({ ...prev, collectionId: e.target.value === 'all' ? null : e.target.value }))}
+                  className="w-full pl-4 pr-10 py-3 rounded-xl bg-white/10 backdrop-blur-sm border border-white/20 text-white placeholder-white/60 focus:ring-2 focus:ring-white/30 focus:border-white/40 transition-all duration-200 appearance-none cursor-pointer"
+                  style={{
+                    backgroundImage: `url("data:image/svg+xml;charset=UTF-8,%3csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='white' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3e%3cpolyline points='6,9 12,15 18,9'%3e%3c/polyline%3e%3c/svg%3e")`,
+                    backgroundRepeat: 'no-repeat',
+                    backgroundPosition: 'right 12px center',
+                    backgroundSize: '16px'
+                  }}
+                >
+                  <option value="all">Whole Pool</option>
+                  {collections.map(c => (
+                    <option key={c.id} value={c.id}>{c.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Metric Filter */}
               <div className="space-y-3">
                 <label className="block text-sm font-medium text-white/90 flex items-center gap-2">
@@ -1,37 +1,72 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { Card } from '@/components/ui/card';
 import { GlobeIcon, MapPin } from 'lucide-react';
-import { loadGoogleMapsScript, createOptimizedMap } from '@/utils/mapUtils';
+import { loadMapProvider } from '@/utils/mapUtils';
+import { CONFIDENCE_RANGES, calculateRangeScore } from '@/utils/scoringSystem';
+import type { GameMap, LatLng, MapLine, MapMarker, MapProvider, MarkerStyle } from '@/utils/mapProvider';
+import type { GameRegion } from '@/types/game';
 
 interface MapSelectorProps {
   onLocationSelected: (lat: number, lng: number) => void;
   isDisabled?: boolean;
   actualLocation?: { lat: number; lng: number } | null;
   guessedLocation?: { lat: number; lng: number } | null;
+  /** Confidence radius around the pin in km; 0 = point guess. */
+  radiusKm?: number;
+  /** Makes the radius adjustable (drag the circle's edge). Google Maps only. */
+  onRadiusChange?: (radiusKm: number) => void;
+  /** Region mode: panning and zoom are held to this region. */
+  region?: GameRegion | null;
 }
 
+// Radius a pin starts with when the player first widens it
+const DEFAULT_RADIUS_KM = 100;
+
+// Pin styles, shared with RoundResults
+const GUESS_MARKER: MarkerStyle = { color: '#3b82f6', title: 'Your guess', zIndex: 10 };
+const ACTUAL_MARKER: MarkerStyle = { color: '#ea384c', title: 'Actual location', zIndex: 15 };
+const CLICK_FEEDBACK_MARKER: MarkerStyle = { color: '#00ff00', size: 15, opacity: 0.6, strokeWeight: 2, zIndex: 20 };
+const CURSOR_MARKER: MarkerStyle = {
+  color: '#0000ff',
+  size: 7,
+  opacity: 0.4,
+  strokeColor: '#0000ff',
+  strokeWeight: 1,
+  zIndex: 1
+};
+
 const MapSelector: React.FC<MapSelectorProps> = ({ 
   onLocationSelected, 
   isDisabled = false,
   actualLocation = null,
-  guessedLocation = null
+  guessedLocation = null,
+  radiusKm = 0,
+  onRadiusChange,
+  region = null
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
-  const googleMapRef = useRef<google.maps.Map | null>(null);
-  const guessedMarkerRef = useRef<google.maps.Marker | null>(null);
-  const actualMarkerRef = useRef<google.maps.Marker | null>(null);
+  const gameMapRef = useRef<GameMap | null>(null);
+  const guessedMarkerRef = useRef<MapMarker | null>(null);
+  const actualMarkerRef = useRef<MapMarker | null>(null);
   const [mapReady, setMapReady] = useState(false);
   const [cursorPosition, setCursorPosition] = useState<{ lat: number, lng: number } | null>(null);
-  const mouseMarkerRef = useRef<google.maps.Marker | null>(null);
-  const [isScriptLoaded, setIsScriptLoaded] = useState(false);
-  const polylineRef = useRef<google.maps.Polyline | null>(null);
+  const mouseMarkerRef = useRef<MapMarker | null>(null);
+  const [provider, setProvider] = useState<MapProvider | null>(null);
+  const polylineRef = useRef<MapLine | null>(null);
+  const radiusCircleRef = useRef<google.maps.Circle | null>(null);
+  const onRadiusChangeRef = useRef(onRadiusChange);
+  onRadiusChangeRef.current = onRadiusChange;
+  const isDisabledRef = useRef(isDisabled);
+  isDisabledRef.current = isDisabled;
+  // The radius circle is dragged on Google's editable circles
+  const supportsRadius = mapReady && !!gameMapRef.current?.googleMap;
   
   // Store the current guessed location in a ref to persist across re-renders
   const currentGuessedLocationRef = useRef<{ lat: number; lng: number } | null>(null);
 
   // Function to update guessed marker - stabilized dependencies
   const updateGuessedMarker = useCallback((location: { lat: number; lng: number }) => {
-    if (!mapReady || !googleMapRef.current) return;
+    if (!mapReady || !gameMapRef.current) return;
 
     // Check if location actually changed to avoid unnecessary updates
     if (currentGuessedLocationRef.current && 
@@ -43,244 +78,136 @@ const MapSelector: React.FC<MapSelectorProps> = ({
     // Store the new location
     currentGuessedLocationRef.current = location;
 
-    // Remove existing guessed marker
     if (guessedMarkerRef.current) {
-      guessedMarkerRef.current.setMap(null);
-      guessedMarkerRef.current = null;
+      guessedMarkerRef.current.setPosition(location);
+    } else {
+      guessedMarkerRef.current = gameMapRef.current.createMarker(location, GUESS_MARKER);
     }
 
-    // Add new guessed marker with custom blue styling (same as RoundResults)
-    guessedMarkerRef.current = new google.maps.Marker({
-      position: { lat: location.lat, lng: location.lng },
-      map: googleMapRef.current,
-      title: "Your guess",
-      icon: {
-        path: google.maps.SymbolPath.CIRCLE,
-        scale: 12,
-        fillColor: "#3b82f6",
-        fillOpacity: 1,
-        strokeWeight: 3,
-        strokeColor: "#ffffff",
-        strokeOpacity: 1
-      },
-      zIndex: 10 // Higher z-index to ensure it's always visible
-    });
-
     // Don't draw line here - let a separate effect handle line drawing
     // This prevents the marker from being recreated when actualLocation changes
   }, [mapReady]); // Removed actualLocation dependency
 
   // Memoize the click handler to prevent constant re-renders
-  const handleMapClick = useCallback((event: google.maps.MapMouseEvent) => {
-    if (!event.latLng || isDisabled) return;
-    
-    const position = { 
-      lat: event.latLng.lat(), 
-      lng: event.latLng.lng() 
-    };
+  const handleMapClick = useCallback((position: LatLng) => {
+    if (isDisabled) return;
     
     // Add visual feedback with temporary click marker
-    if (googleMapRef.current && !isDisabled) {
-      // Create temporary click feedback marker
-      const clickFeedbackMarker = new google.maps.Marker({
-        position: position,
-        map: googleMapRef.current,
-        icon: {
-          path: google.maps.SymbolPath.CIRCLE,
-          scale: 15,
-          fillColor: "#00ff00",
-          fillOpacity: 0.6,
-          strokeWeight: 2,
-          strokeColor: "#ffffff",
-          strokeOpacity: 1
-        },
-        animation: google.maps.Animation.DROP,
-        zIndex: 20 // Very high to show on top
-      });
-
-      // Remove click feedback marker after animation
+    if (gameMapRef.current) {
+      const clickFeedbackMarker = gameMapRef.current.createMarker(position, CLICK_FEEDBACK_MARKER);
       setTimeout(() => {
-        clickFeedbackMarker.setMap(null);
+        clickFeedbackMarker.remove();
       }, 800);
     }
     
     // Don't clear the mouse cursor marker - let it continue following the mouse
     // The guessed marker will be placed/updated and the cursor will keep following
     
-    if (onLocationSelected && !isDisabled) {
+    if (onLocationSelected) {
       onLocationSelected(position.lat, position.lng);
       // The guessed marker will be updated via the useEffect when guessedLocation prop changes
     }
   }, [onLocationSelected, isDisabled]);
+  const handleMapClickRef = useRef(handleMapClick);
+  handleMapClickRef.current = handleMapClick;
+
+  // Google Maps if it loads, the offline map otherwise
+  useEffect(() => {
+    let cancelled = false;
+    loadMapProvider().then((loaded) => {
+      if (!cancelled) setProvider(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  // Function to initialize the map
-  const initMap = useCallback(() => {
-    if (!mapRef.current || googleMapRef.current || !window.google?.maps) return;
+  // Create the map once the provider is known; it lives as long as the component
+  useEffect(() => {
+    if (!provider || !mapRef.current) return;
 
+    let map: GameMap;
     try {
-      // Use optimized map configuration for better performance
-      const map = createOptimizedMap(mapRef.current, {
+      map = provider.createMap(mapRef.current, {
         center: { lat: 20, lng: 0 },
         zoom: 2
       });
-
-      googleMapRef.current = map;
-
-      // Add click listener once
-      map.addListener('click', handleMapClick);
-
-      // If not disabled, set up event listeners for map movement
-      if (!isDisabled) {
-        map.addListener('mousemove', (event: google.maps.MapMouseEvent) => {
-          if (event.latLng) {
-            const position = { 
-              lat: event.latLng.lat(), 
-              lng: event.latLng.lng() 
-            };
-            setCursorPosition(position);
-            
-            // Always show cursor marker (blue follower) regardless of guess status
-            // Update cursor marker position
-            if (mouseMarkerRef.current) {
-              mouseMarkerRef.current.setPosition(position);
-            } else {
-              mouseMarkerRef.current = new google.maps.Marker({
-                position: position,
-                map: map,
-                icon: {
-                  path: google.maps.SymbolPath.CIRCLE,
-                  scale: 7,
-                  fillColor: "#0000ff",
-                  fillOpacity: 0.4,
-                  strokeWeight: 1,
-                  strokeColor: "#0000ff"
-                },
-                clickable: false,
-                zIndex: 1 // Lower z-index so guessed marker is on top
-              });
-            }
-          }
-        });
-
-        map.addListener('mouseout', () => {
-          setCursorPosition(null);
-          if (mouseMarkerRef.current) {
-            mouseMarkerRef.current.setMap(null);
-            mouseMarkerRef.current = null;
-          }
-        });
-      }
-
-      setMapReady(true);
-      
-      // Don't initialize markers here - let the useEffect hooks handle them
-      // This prevents the map from reinitializing when locations change
     } catch (error) {
-      console.error("Error initializing Google Maps:", error);
-    }
-  }, [handleMapClick, isDisabled]);
-
-  // Load Google Maps Script
-  useEffect(() => {
-    if (window.google?.maps) {
-      setIsScriptLoaded(true);
+      console.error("Error initializing the map:", error);
       return;
     }
-    
-    loadGoogleMapsScript()
-      .then(() => {
-        setIsScriptLoaded(true);
-      })
-      .catch((error) => {
-        console.error('Failed to load Google Maps:', error);
-      });
-  }, []);
+    gameMapRef.current = map;
 
-  // Initialize map when script is loaded
-  useEffect(() => {
-    if (isScriptLoaded && mapRef.current) {
-      initMap();
-    }
-    
-    // Cleanup function
-    return () => {
-      if (guessedMarkerRef.current) {
-        guessedMarkerRef.current.setMap(null);
-      }
-      if (actualMarkerRef.current) {
-        actualMarkerRef.current.setMap(null);
+    const removeClick = map.onClick((position) => handleMapClickRef.current(position));
+
+    // A faint pin follows the pointer while guessing
+    const removeMove = map.onPointerMove((position) => {
+      if (isDisabledRef.current || !position) {
+        setCursorPosition(null);
+        mouseMarkerRef.current?.remove();
+        mouseMarkerRef.current = null;
+        return;
       }
+      setCursorPosition(position);
       if (mouseMarkerRef.current) {
-        mouseMarkerRef.current.setMap(null);
-      }
-      if (polylineRef.current) {
-        polylineRef.current.setMap(null);
+        mouseMarkerRef.current.setPosition(position);
+      } else {
+        mouseMarkerRef.current = map.createMarker(position, CURSOR_MARKER);
       }
+    });
+
+    setMapReady(true);
+
+    return () => {
+      removeClick();
+      removeMove();
+      guessedMarkerRef.current?.remove();
+      actualMarkerRef.current?.remove();
+      mouseMarkerRef.current?.remove();
+      polylineRef.current?.remove();
+      radiusCircleRef.current?.setMap(null);
+      guessedMarkerRef.current = null;
+      actualMarkerRef.current = null;
+      mouseMarkerRef.current = null;
+      polylineRef.current = null;
+      radiusCircleRef.current = null;
+      currentGuessedLocationRef.current = null;
+      map.destroy();
+      gameMapRef.current = null;
+      setMapReady(false);
     };
-  }, [isScriptLoaded, isDisabled, initMap]);
+  }, [provider]);
 
   // Draw a line between two markers and display distance
   const drawLineBetweenMarkers = useCallback((from: { lat: number; lng: number }, to: { lat: number; lng: number }) => {
-    if (!googleMapRef.current) return;
-
-    // Remove existing polyline
-    if (polylineRef.current) {
-      polylineRef.current.setMap(null);
-    }
+    if (!gameMapRef.current) return;
 
-    // Draw new polyline with consistent styling
-    polylineRef.current = new google.maps.Polyline({
-      path: [from, to],
-      geodesic: true,
-      strokeColor: '#ea384c',
-      strokeOpacity: 0.8,
-        strokeWeight: 3,
-      map: googleMapRef.current
+    polylineRef.current?.remove();
+    polylineRef.current = gameMapRef.current.createPolyline([from, to], {
+      color: '#ea384c',
+      opacity: 0.8,
+      weight: 3
     });
   }, []);
 
   // Function to update actual marker
   const updateActualMarker = useCallback((location: { lat: number; lng: number }) => {
-    if (!mapReady || !googleMapRef.current) return;
+    const map = gameMapRef.current;
+    if (!mapReady || !map) return;
 
-    // Remove existing actual marker
-    if (actualMarkerRef.current) {
-      actualMarkerRef.current.setMap(null);
-      actualMarkerRef.current = null;
-    }
-
-    // Add new actual marker with custom red styling (same as RoundResults)
-    actualMarkerRef.current = new google.maps.Marker({
-      position: { lat: location.lat, lng: location.lng },
-      map: googleMapRef.current,
-      title: "Actual location",
-      icon: {
-        path: google.maps.SymbolPath.CIRCLE,
-        scale: 12,
-        fillColor: "#ea384c",
-        fillOpacity: 1,
-        strokeWeight: 3,
-        strokeColor: "#ffffff",
-        strokeOpacity: 1
-      },
-      zIndex: 15 // Highest z-index so actual location is always visible on top
-    });
+    actualMarkerRef.current?.remove();
+    actualMarkerRef.current = map.createMarker(location, ACTUAL_MARKER);
 
     // If we have both markers, draw a line between them
     if (guessedLocation && guessedMarkerRef.current) {
       drawLineBetweenMarkers(guessedLocation, location);
     }
 
-    // Center the map to show both markers if guessed location exists
+    // Show both markers if there's a guess, otherwise just the actual location
     if (guessedLocation) {
-      const bounds = new google.maps.LatLngBounds();
-      bounds.extend({ lat: location.lat, lng: location.lng });
-      bounds.extend({ lat: guessedLocation.lat, lng: guessedLocation.lng });
-      googleMapRef.current.fitBounds(bounds, 50); // 50px padding
+      map.smoothFitBounds([location, guessedLocation], 50);
     } else {
-      // Just center on actual location
-      googleMapRef.current.panTo({ lat: location.lat, lng: location.lng });
-      googleMapRef.current.setZoom(4);
+      map.panTo(location, 4);
     }
   }, [mapReady, guessedLocation, drawLineBetweenMarkers]);
 
@@ -290,10 +217,8 @@ const MapSelector: React.FC<MapSelectorProps> = ({
       updateGuessedMarker(guessedLocation);
     } else if (mapReady && !guessedLocation) {
       // Clear the marker and ref when location is removed
-      if (guessedMarkerRef.current) {
-        guessedMarkerRef.current.setMap(null);
-        guessedMarkerRef.current = null;
-      }
+      guessedMarkerRef.current?.remove();
+      guessedMarkerRef.current = null;
       currentGuessedLocationRef.current = null;
     }
   }, [guessedLocation, mapReady, updateGuessedMarker]);
@@ -304,6 +229,54 @@ const MapSelector: React.FC<MapSelectorProps> = ({
     }
   }, [actualLocation, mapReady, updateActualMarker]);
 
+  // Region mode: hold the map to the region for as long as it's set
+  useEffect(() => {
+    if (!mapReady || !gameMapRef.current || !region) return;
+    return gameMapRef.current.restrictToRegion(region);
+  }, [mapReady, region]);
+
+  // Confidence radius: a circle around the pin whose edge can be dragged while
+  // guessing. Clamped to whole km within CONFIDENCE_RANGES so it scores the same
+  // on the server.
+  useEffect(() => {
+    const googleMap = gameMapRef.current?.googleMap;
+    if (!mapReady || !googleMap || !guessedLocation || radiusKm <= 0) {
+      if (radiusCircleRef.current) {
+        radiusCircleRef.current.setMap(null);
+        radiusCircleRef.current = null;
+      }
+      return;
+    }
+
+    const editable = !isDisabled && !!onRadiusChangeRef.current;
+    let circle = radiusCircleRef.current;
+    if (!circle) {
+      circle = new google.maps.Circle({
+        map: googleMap,
+        strokeColor: '#3b82f6',
+        strokeOpacity: 0.9,
+        strokeWeight: 2,
+        fillColor: '#3b82f6',
+        fillOpacity: 0.12,
+        clickable: false,
+        zIndex: 5
+      });
+      circle.addListener('radius_changed', () => {
+        const km = Math.round((radiusCircleRef.current?.getRadius() ?? 0) / 1000);
+        const clamped = Math.min(CONFIDENCE_RANGES.MAX_RADIUS_KM, Math.max(1, km));
+        onRadiusChangeRef.current?.(clamped);
+      });
+      radiusCircleRef.current = circle;
+    }
+
+    // The pin, not the circle, decides the centre
+    circle.setCenter(guessedLocation);
+    circle.setEditable(editable);
+    if (Math.round(circle.getRadius() / 1000) !== radiusKm) {
+      circle.setRadius(radiusKm * 1000);
+    }
+  }, [mapReady, guessedLocation, radiusKm, isDisabled]);
+
   // Separate effect for drawing lines between markers
   useEffect(() => {
     if (mapReady && guessedLocation && actualLocation && guessedMarkerRef.current && actualMarkerRef.current) {
@@ -311,6 +284,15 @@ const MapSelector: React.FC<MapSelectorProps> = ({
     }
   }, [mapReady, guessedLocation, actualLocation, drawLineBetweenMarkers]);
 
+  // A cursor pin left behind when guessing ends
+  useEffect(() => {
+    if (isDisabled) {
+      mouseMarkerRef.current?.remove();
+      mouseMarkerRef.current = null;
+      setCursorPosition(null);
+    }
+  }, [isDisabled]);
+
   return (
     <Card className="w-full h-full overflow-hidden flex flex-col">
       <div 
@@ -347,13 +329,42 @@ const MapSelector: React.FC<MapSelectorProps> = ({
           </div>
         )}
         
-        {/* Click instruction overlay — bottom-center, clear of Google's top map controls */}
+        {/* Click instruction overlay — bottom-center, clear of the map's top controls */}
         {!isDisabled && !guessedLocation && (
           <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 max-w-[calc(100%-1.5rem)] text-center bg-brand/90 text-white px-4 py-2 rounded-lg text-sm font-medium shadow-lg backdrop-blur-sm animate-pulse">
             Click anywhere on the map to place your guess
           </div>
         )}
 
+        {/* Confidence radius toggle */}
+        {!isDisabled && guessedLocation && onRadiusChange && supportsRadius && (
+          <div className="absolute top-3 left-3 z-10 flex items-center gap-2 bg-white/95 text-gray-800 px-3 py-2 rounded-lg text-sm shadow-lg border border-gray-200">
+            {radiusKm > 0 ? (
+              <>
+                <span>
+                  Within <span className="font-bold text-blue-600">{radiusKm} km</span>
+                  {' '}· up to {calculateRangeScore(0, radiusKm, CONFIDENCE_RANGES.RADIUS_HALF_AT_KM)}% of the points
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onRadiusChange(0)}
+                  className="text-xs font-semibold text-brand hover:underline"
+                >
+                  Exact pin
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onRadiusChange(DEFAULT_RADIUS_KM)}
+                className="font-semibold text-blue-600 hover:underline"
+              >
+                Widen guess to a radius
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Guess confirmation overlay */}
         {!isDisabled && guessedLocation && (
           <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 max-w-[calc(100%-1.5rem)] text-center bg-green-500/90 text-white px-4 py-2 rounded-lg text-sm font-medium shadow-lg backdrop-blur-sm border-2 border-white/30">
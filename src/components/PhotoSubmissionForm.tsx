@@ -4,11 +4,18 @@ import { X, Upload, ArrowRight, ArrowLeft, CheckCircle, Camera, Calendar, MapPin
 import { toast } from 'sonner';
 import { useFocusManagement, useKeyboardNavigation } from '@/hooks/useAccessibility';
 import { 
+  findPossibleDuplicates,
+  readPhotoMetadata,
   submitPhotoWithFile, 
   validatePhotoSubmission, 
+  type MetadataField,
   type PhotoSubmissionData,
   type YearConfidence 
 } from '@/services/photoSubmissionService';
+import { suggestFromMetadata, type EmbeddedPhotoMetadata } from '@/utils/photoMetadata';
+import { convertGoogleDriveUrl } from '@/utils/gameUtils';
+import type { HashMatch } from '@/utils/perceptualHash';
+import type { HashedImage } from '@/services/imageHashService';
 
 interface PhotoSubmissionFormProps {
   isOpen: boolean;
@@ -24,10 +31,32 @@ const yearConfidenceOptions: Array<{ value: YearConfidence; label: string; icon:
   { value: 'unknown', label: 'Unknown Year', icon: HelpCircle, description: 'I\'m not sure when this photo was taken' }
 ];
 
+// Empties the fields still holding values read from the previous photo
+const clearMetadataFields = (data: Partial<PhotoSubmissionData>): Partial<PhotoSubmissionData> => {
+  const fields = data.metadataFields ?? [];
+  return {
+    ...data,
+    ...(fields.includes('yearTaken') && { yearTaken: undefined, yearConfidence: 'approximate' as YearConfidence }),
+    ...(fields.includes('locationDescription') && { locationDescription: '' }),
+    ...(fields.includes('description') && { description: '' }),
+    metadataFields: []
+  };
+};
+
+const FromMetadataNote: React.FC<{ show: boolean }> = ({ show }) =>
+  show ? (
+    <p className="flex items-center gap-1.5 text-sm text-blue-700 mt-2">
+      <FileImage className="w-4 h-4" />
+      From the photo's metadata — please check it
+    </p>
+  ) : null;
+
 export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen, onClose }) => {
   const [currentStep, setCurrentStep] = useState<FormStep>('welcome');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [photoMetadata, setPhotoMetadata] = useState<EmbeddedPhotoMetadata | null>(null);
+  const [duplicateMatches, setDuplicateMatches] = useState<HashMatch<HashedImage>[]>([]);
   const modalRef = useRef<HTMLDivElement>(null);
   const previousFocusRef = useRef<HTMLElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -82,6 +111,8 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
       cluesDescription: ''
     });
     setPhotoPreview(null);
+    setPhotoMetadata(null);
+    setDuplicateMatches([]);
     setIsSubmitting(false);
   };
 
@@ -104,10 +135,55 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
     }
   };
 
+  // The latest form state, for the async photo checks to read
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
+
+  // Pre-fill empty fields from the photo's EXIF/XMP, remembering which ones so
+  // they can be flagged, and cleared again if the photo is swapped
+  const applyPhotoMetadata = useCallback(async (file: File) => {
+    const metadata = await readPhotoMetadata(file);
+    const current = formDataRef.current;
+    if (current.photoFile !== file) return; // another photo was picked meanwhile
+    const suggestion = metadata
+      ? suggestFromMetadata(metadata, { min: 1800, max: new Date().getFullYear() })
+      : {};
+    // Only fields the submitter hasn't filled in themselves
+    const prefill: Partial<PhotoSubmissionData> = {};
+    const filled: MetadataField[] = [];
+    if (suggestion.yearTaken && current.yearTaken === undefined) {
+      prefill.yearTaken = suggestion.yearTaken;
+      prefill.yearConfidence = suggestion.yearConfidence;
+      filled.push('yearTaken');
+    }
+    if (suggestion.locationDescription && !current.locationDescription?.trim()) {
+      prefill.locationDescription = suggestion.locationDescription;
+      filled.push('locationDescription');
+    }
+    if (suggestion.description && !current.description?.trim()) {
+      prefill.description = suggestion.description.slice(0, 1000);
+      filled.push('description');
+    }
+    setFormData(prev => ({ ...prev, ...prefill, metadataFields: filled }));
+    setPhotoMetadata(metadata);
+  }, []);
+
+  // Warn early when the photo looks like one already in the game
+  const checkForDuplicates = useCallback(async (file: File) => {
+    const { hash, matches } = await findPossibleDuplicates(file);
+    if (formDataRef.current.photoFile !== file) return;
+    setFormData(prev => ({ ...prev, perceptualHash: hash ?? undefined }));
+    setDuplicateMatches(matches);
+  }, []);
+
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      setFormData(prev => ({ ...prev, photoFile: file }));
+      setFormData(prev => ({ ...clearMetadataFields(prev), photoFile: file, perceptualHash: undefined }));
+      setPhotoMetadata(null);
+      setDuplicateMatches([]);
+      applyPhotoMetadata(file);
+      checkForDuplicates(file);
 
       // Create preview
       const reader = new FileReader();
@@ -116,7 +192,7 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
       };
       reader.readAsDataURL(file);
     }
-  }, []);
+  }, [applyPhotoMetadata, checkForDuplicates]);
 
   const handleSubmit = async () => {
     // Check if we have all required data
@@ -152,9 +228,16 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
   };
 
   const updateFormData = (field: keyof PhotoSubmissionData, value: string | number | File | YearConfidence | undefined) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+    // An edited field is the submitter's own, no longer "from metadata"
+    setFormData(prev => ({
+      ...prev,
+      [field]: value,
+      metadataFields: prev.metadataFields?.filter(f => f !== field)
+    }));
   };
 
+  const isFromMetadata = (field: MetadataField) => formData.metadataFields?.includes(field) ?? false;
+
   const renderStep = () => {
     switch (currentStep) {
       case 'welcome':
@@ -240,7 +323,9 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
                       <Button
                         onClick={() => {
                           setPhotoPreview(null);
-                          updateFormData('photoFile', undefined);
+                          setPhotoMetadata(null);
+                          setDuplicateMatches([]);
+                          setFormData(prev => ({ ...clearMetadataFields(prev), photoFile: undefined, perceptualHash: undefined }));
                         }}
                         variant="secondary"
                         size="sm"
@@ -260,6 +345,51 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
                       </p>
                     </div>
                   </div>
+
+                  {duplicateMatches.length > 0 && (
+                    <div className="flex items-start gap-3 p-4 bg-amber-50 rounded-xl">
+                      <Info className="w-5 h-5 text-amber-600 mt-0.5 shrink-0" />
+                      <div className="text-sm text-amber-800 space-y-2">
+                        <p className="font-medium text-amber-900">
+                          {duplicateMatches[0].kind === 'duplicate'
+                            ? 'This photo looks like one already in SmrutiMap'
+                            : 'This photo looks similar to one already in SmrutiMap'}
+                        </p>
+                        <div className="flex gap-2">
+                          {duplicateMatches.slice(0, 3).map(({ item }) => (
+                            <img
+                              key={item.id}
+                              src={convertGoogleDriveUrl(item.image_url)}
+                              alt={item.location_name}
+                              title={`${item.location_name}, ${item.year}`}
+                              className="w-20 h-14 object-cover rounded-lg"
+                            />
+                          ))}
+                        </div>
+                        <p>If it's the same picture, there's no need to send it again. A different shot of the same place is welcome.</p>
+                      </div>
+                    </div>
+                  )}
+
+                  {photoMetadata && (
+                    <div className="flex items-start gap-3 p-4 bg-blue-50 rounded-xl">
+                      <FileImage className="w-5 h-5 text-blue-600 mt-0.5 shrink-0" />
+                      <div className="text-sm text-blue-800">
+                        <p className="font-medium text-blue-900">Your photo carries metadata</p>
+                        <p>
+                          {[
+                            photoMetadata.date && `Dated ${photoMetadata.date.year}`,
+                            photoMetadata.gps && 'GPS location',
+                            photoMetadata.camera,
+                            photoMetadata.captions.length > 0 && 'a caption'
+                          ].filter(Boolean).join(' · ')}
+                        </p>
+                        {(formData.metadataFields?.length ?? 0) > 0 && (
+                          <p className="mt-1">We've filled in what we could. Check it on the next steps — a scan or a copy can carry the wrong date.</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -376,6 +506,7 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
                 className="w-full px-6 py-4 text-lg border-2 border-gray-200 rounded-2xl focus:border-brand focus:outline-none resize-none transition-colors placeholder-gray-400"
                 autoFocus
               />
+              <FromMetadataNote show={isFromMetadata('locationDescription')} />
               <div className="flex justify-between items-center text-sm text-gray-500">
                 <span>{(formData.locationDescription || '').length}/500 characters</span>
                 <div className="flex items-center gap-1">
@@ -446,6 +577,7 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
                   max={new Date().getFullYear()}
                   className="w-full px-6 py-4 text-lg border-2 border-gray-200 rounded-2xl focus:border-brand focus:outline-none transition-colors placeholder-gray-400"
                 />
+                <FromMetadataNote show={isFromMetadata('yearTaken')} />
               </div>
 
               <div>
@@ -521,6 +653,7 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
                   maxLength={1000}
                   className="w-full px-6 py-4 text-lg border-2 border-gray-200 rounded-2xl focus:border-brand focus:outline-none resize-none transition-colors placeholder-gray-400"
                 />
+                <FromMetadataNote show={isFromMetadata('description')} />
                 <div className="text-sm text-gray-500 mt-2">
                   {(formData.description || '').length}/1000 characters
                 </div>
@@ -603,6 +736,7 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
                   <h3 className="font-semibold text-gray-700 text-sm uppercase tracking-wide mb-3">Location</h3>
                   <div className="bg-white p-4 rounded-xl border">
                     <p>{formData.locationDescription}</p>
+                    {isFromMetadata('locationDescription') && <p className="text-sm text-blue-700 mt-1">From photo metadata</p>}
                   </div>
                 </div>
 
@@ -610,7 +744,10 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
                 <div>
                   <h3 className="font-semibold text-gray-700 text-sm uppercase tracking-wide mb-3">Year Information</h3>
                   <div className="bg-white p-4 rounded-xl border space-y-2">
-                    <p><span className="font-medium">Year:</span> {formData.yearTaken || 'Not specified'}</p>
+                    <p>
+                      <span className="font-medium">Year:</span> {formData.yearTaken || 'Not specified'}
+                      {isFromMetadata('yearTaken') && <span className="text-sm text-blue-700"> (from photo metadata)</span>}
+                    </p>
                     <div className="flex items-center gap-2">
                       <span className="font-medium">Confidence:</span>
                       {selectedConfidence && <selectedConfidence.icon className="h-5 w-5 text-brand" />}
@@ -627,6 +764,7 @@ export const PhotoSubmissionForm: React.FC<PhotoSubmissionFormProps> = ({ isOpen
                       {formData.description && (
                         <div>
                           <span className="font-medium">Description:</span>
+                          {isFromMetadata('description') && <span className="text-sm text-blue-700"> (from photo metadata)</span>}
                           <p className="mt-1 text-gray-700">{formData.description}</p>
                         </div>
                       )}
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   X, 
   Edit3, 
@@ -20,20 +21,29 @@ import {
   RefreshCw,
   Shield,
   Users,
-  Dices
+  Dices,
+  Flame,
+  BarChart3,
+  ImagePlus
 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { fixUserStatsFromSessions } from '@/utils/databaseUtils';
 import { useAdmin } from '@/hooks/useAdmin';
 import { useProfileContext } from '@/contexts/ProfileContext';
+import { useDailyArchive } from '@/hooks/useDailyArchive';
+import PlayerStatsPanel from '@/components/profile/PlayerStatsPanel';
+import MySubmissionsPanel from '@/components/profile/MySubmissionsPanel';
 
 interface ProfileViewProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+type ProfileTab = 'profile' | 'analytics' | 'submissions';
+
 interface ProfileFormData {
   display_name: string;
   username: string;
@@ -45,6 +55,8 @@ const ProfileView: React.FC<ProfileViewProps> = ({ isOpen, onClose }) => {
   const { profile, user, refreshProfile } = useAuth();
   const { isAdmin } = useAdmin();
   const { refreshAllProfiles } = useProfileContext();
+  const { streaks } = useDailyArchive(user?.id);
+  const navigate = useNavigate();
   
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState<ProfileFormData>({
@@ -56,6 +68,7 @@ const ProfileView: React.FC<ProfileViewProps> = ({ isOpen, onClose }) => {
   const [errors, setErrors] = useState<Partial<ProfileFormData>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [activeTab, setActiveTab] = useState<ProfileTab>('profile');
 
   // Game mode options
   const gameModeOptions = [
@@ -347,6 +360,29 @@ const ProfileView: React.FC<ProfileViewProps> = ({ isOpen, onClose }) => {
              )}
           </div>
 
+          {/* Editing always happens on the Profile tab */}
+          <Tabs
+            value={isEditing ? 'profile' : activeTab}
+            onValueChange={(value) => setActiveTab(value as ProfileTab)}
+          >
+            {!isEditing && (
+              <TabsList className="grid w-full grid-cols-3 mb-6">
+                <TabsTrigger value="profile" className="flex items-center gap-2">
+                  <User size={14} />
+                  Profile
+                </TabsTrigger>
+                <TabsTrigger value="analytics" className="flex items-center gap-2">
+                  <BarChart3 size={14} />
+                  Analytics
+                </TabsTrigger>
+                <TabsTrigger value="submissions" className="flex items-center gap-2">
+                  <ImagePlus size={14} />
+                  Submissions
+                </TabsTrigger>
+              </TabsList>
+            )}
+
+          <TabsContent value="profile" className="mt-0 space-y-6">
           {/* Profile Information */}
           <div className="grid gap-6">
             {/* Display Name */}
@@ -544,6 +580,52 @@ const ProfileView: React.FC<ProfileViewProps> = ({ isOpen, onClose }) => {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Daily Challenge Streaks */}
+            <Card>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                    <Flame size={16} />
+                    Daily Streak
+                  </CardTitle>
+                  <Button
+                    onClick={() => {
+                      onClose();
+                      navigate('/daily');
+                    }}
+                    variant="outline"
+                    size="sm"
+                    className="h-8 px-3 text-xs"
+                  >
+                    <Calendar size={12} className="mr-1" />
+                    Archive
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+                    <Flame size={20} className="text-orange-500" />
+                    <div>
+                      <div className="font-semibold text-gray-800">{streaks.current}</div>
+                      <div className="text-gray-600 text-sm">Current Streak</div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+                    <Trophy size={20} className="text-yellow-500" />
+                    <div>
+                      <div className="font-semibold text-gray-800">{streaks.longest}</div>
+                      <div className="text-gray-600 text-sm">Longest Streak</div>
+                    </div>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-3 text-center">
+                  Days end at midnight Eastern Time. Archive replays don't count.
+                </p>
+              </CardContent>
+            </Card>
           </div>
 
           {/* Admin Panel Button */}
@@ -573,6 +655,20 @@ const ProfileView: React.FC<ProfileViewProps> = ({ isOpen, onClose }) => {
               </CardContent>
             </Card>
           )}
+          </TabsContent>
+
+          {!isEditing && user && (
+            <TabsContent value="analytics" className="mt-0">
+              <PlayerStatsPanel userId={user.id} />
+            </TabsContent>
+          )}
+
+          {!isEditing && user && (
+            <TabsContent value="submissions" className="mt-0">
+              <MySubmissionsPanel userId={user.id} />
+            </TabsContent>
+          )}
+          </Tabs>
           </div>
 
           {/* Action Buttons */}
@@ -4,8 +4,10 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { GuessResult } from '@/types/game';
 import { Navigation, Home, ArrowRight } from 'lucide-react';
-import { loadGoogleMapsScript, cleanupMapElements, createOptimizedMap, createMarker, createPolyline } from '@/utils/mapUtils';
+import { loadMapProvider } from '@/utils/mapUtils';
+import type { GameMap, MapLine, MapMarker, MapProvider } from '@/utils/mapProvider';
 import { ENV_CONFIG } from '@/constants/gameConstants';
+import { describeEraMiss, describeEraNoPick, findEraBucket } from '@/utils/eraBuckets';
 
 interface RoundResultsProps {
   result: GuessResult;
@@ -31,10 +33,10 @@ const RoundResults: React.FC<RoundResultsProps> = ({
   isHost = false
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
-  const googleMapRef = useRef<google.maps.Map | null>(null);
-  const markersRef = useRef<google.maps.Marker[]>([]);
-  const polylinesRef = useRef<google.maps.Polyline[]>([]);
-  const animationRef = useRef<number | null>(null);
+  const gameMapRef = useRef<GameMap | null>(null);
+  const markersRef = useRef<MapMarker[]>([]);
+  const polylinesRef = useRef<MapLine[]>([]);
+  const [provider, setProvider] = useState<MapProvider | null>(null);
   const [mapReady, setMapReady] = useState(false);
   const [progressWidth, setProgressWidth] = useState(0);
   const [animatedTotalScore, setAnimatedTotalScore] = useState(0);
@@ -70,7 +72,7 @@ const RoundResults: React.FC<RoundResultsProps> = ({
     }
     
     if (result.displayYearScore !== undefined && result.displayLocationScore !== undefined) {
-      const baseScore = result.displayYearScore + result.displayLocationScore;
+      const baseScore = result.displayYearScore + result.displayLocationScore - (result.hintPenalty || 0);
       const timeBonus = result.timeBonus || 0;
       return baseScore + timeBonus;
     }
@@ -82,152 +84,82 @@ const RoundResults: React.FC<RoundResultsProps> = ({
   const yearScore = result.displayYearScore || 0;
   const locationScore = result.displayLocationScore || 0;
   const timeBonus = result.timeBonus || 0;
+  // Practice modes play one half only, and it fills the whole 10000 range
+  const showsYear = result.scoredDimension !== 'location';
+  const showsLocation = result.scoredDimension !== 'year';
+  const categoryMax = result.scoredDimension ? 10000 : 5000;
 
   // Clear all markers and polylines
   const clearMapElements = () => {
-    // Cancel any running animation
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
-      animationRef.current = null;
-    }
-    
-    markersRef.current.forEach(marker => marker.setMap(null));
+    markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
-    polylinesRef.current.forEach(polyline => polyline.setMap(null));
+    polylinesRef.current.forEach(polyline => polyline.remove());
     polylinesRef.current = [];
   };
 
   // Create custom marker with consistent styling
   const createCustomMarker = (
     position: { lat: number; lng: number },
-    map: google.maps.Map,
+    map: GameMap,
     isGuess: boolean,
     title: string
-  ): google.maps.Marker => {
-    return new google.maps.Marker({
-      position,
-      map,
-      title,
-      icon: {
-        path: google.maps.SymbolPath.CIRCLE,
-        scale: 12,
-        fillColor: isGuess ? "#3b82f6" : "#ea384c",
-        fillOpacity: 1,
-        strokeWeight: 3,
-        strokeColor: "#ffffff",
-        strokeOpacity: 1
-      }
-    });
-  };
+  ): MapMarker => map.createMarker(position, { color: isGuess ? "#3b82f6" : "#ea384c", title });
 
-  // Initialize Google Maps
+  // Create the map once the provider is known
   useEffect(() => {
-    if (!window.google?.maps || !mapRef.current) return;
-    
+    if (!provider || !mapRef.current) return;
+
     try {
-      // Use optimized map configuration for better performance
-      const map = createOptimizedMap(mapRef.current, {
+      const map = provider.createMap(mapRef.current, {
         center: { lat: 20, lng: 0 },
         zoom: 2
       });
-      
-      googleMapRef.current = map;
+      gameMapRef.current = map;
       setMapReady(true);
-      
-      // Clear existing elements
-      clearMapElements();
-      
-      // If no actual location, stop here
-      if (!result.actualLocation) return;
-      
-      // Add guessed location marker with custom blue styling
-      const guessedMarker = createCustomMarker(
-        result.locationGuess,
-        map,
-        true,
-        "Your Guess"
-      );
-      markersRef.current.push(guessedMarker);
-      
-      // Add actual location marker with custom red styling
-      const actualMarker = createCustomMarker(
-        result.actualLocation,
-        map,
-        false,
-        "Actual Location"
-      );
-      markersRef.current.push(actualMarker);
-      
-      // Create animated dotted line symbol
-      const lineSymbol = {
-        path: 'M 0,-1 0,1',
-        strokeOpacity: 1,
-        strokeColor: "#ea384c",
-        strokeWeight: 3,
-        scale: 1.5
-      };
-
-      // Draw animated dotted line between the two points
-      const polyline = new google.maps.Polyline({
-        path: [result.locationGuess, result.actualLocation],
-        geodesic: true,
-        strokeOpacity: 0,
-        strokeWeight: 0,
-        icons: [{
-          icon: lineSymbol,
-          offset: '0',
-          repeat: '20px'
-        }],
-        map
-      });
 
-      polylinesRef.current.push(polyline);
-
-      // Animate the dotted line with requestAnimationFrame
-      let offset = 0;
-      const animatePolyline = () => {
-        offset = (offset + 0.05) % 100;
-        const icons = polyline.get('icons');
-        if (icons && icons[0] && polylinesRef.current.includes(polyline)) {
-          icons[0].offset = offset + '%';
-          polyline.set('icons', icons);
-          animationRef.current = requestAnimationFrame(animatePolyline);
-        }
+      return () => {
+        clearMapElements();
+        map.destroy();
+        gameMapRef.current = null;
       };
-
-      // Start the animation
-      animationRef.current = requestAnimationFrame(animatePolyline);
-      
-      // Fit bounds to show both markers
-      const bounds = new google.maps.LatLngBounds();
-      bounds.extend(result.locationGuess);
-      bounds.extend(result.actualLocation);
-      map.fitBounds(bounds, 100);
     } catch (error) {
-      console.error("Error initializing Google Maps:", error);
+      console.error("Error initializing the map:", error);
     }
-  }, [result]);
+  }, [provider]);
 
-  // Load Google Maps API
+  // Pins for the guess and the answer, joined by a moving dotted line
   useEffect(() => {
-    if (window.google?.maps) {
-      setMapReady(true);
-      return;
-    }
-    
-    loadGoogleMapsScript()
-      .then(() => {
-        setMapReady(true);
+    const map = gameMapRef.current;
+    if (!mapReady || !map) return;
+
+    // Clear existing elements
+    clearMapElements();
+
+    // If no actual location, stop here
+    if (!result.actualLocation) return;
+
+    markersRef.current.push(createCustomMarker(result.locationGuess, map, true, "Your Guess"));
+    markersRef.current.push(createCustomMarker(result.actualLocation, map, false, "Actual Location"));
+    polylinesRef.current.push(
+      map.createPolyline([result.locationGuess, result.actualLocation], {
+        color: "#ea384c",
+        weight: 3,
+        animated: true
       })
-      .catch((error) => {
-        console.error('Failed to load Google Maps:', error);
-      });
-  }, []);
+    );
 
-  // Cleanup on unmount
+    // Fit bounds to show both markers
+    map.smoothFitBounds([result.locationGuess, result.actualLocation], 100);
+  }, [result, mapReady]);
+
+  // Google Maps if it loads, the offline map otherwise
   useEffect(() => {
+    let cancelled = false;
+    loadMapProvider().then((loaded) => {
+      if (!cancelled) setProvider(loaded);
+    });
     return () => {
-      clearMapElements();
+      cancelled = true;
     };
   }, []);
 
@@ -347,12 +279,32 @@ const RoundResults: React.FC<RoundResultsProps> = ({
       <div className="max-w-7xl mx-auto space-y-4 lg:space-y-5">
         {/* Prominent Distance Display */}
         <div className="text-center px-4">
-          <p className="text-xl lg:text-3xl xl:text-4xl text-gray-800 font-sans">
-            Your guess was <span className="font-bold text-brand text-2xl lg:text-4xl xl:text-5xl font-sans">{Math.round(distanceOff)} miles</span> from the correct location
-          </p>
-          <p className="text-base lg:text-lg xl:text-xl text-gray-600 mt-2 font-sans">
-            You were <span className="font-bold text-brand font-sans">{Math.abs(result.yearGuess - result.actualYear)} years</span> off
-          </p>
+          {showsLocation && (
+            <p className="text-xl lg:text-3xl xl:text-4xl text-gray-800 font-sans">
+              Your guess was <span className="font-bold text-brand text-2xl lg:text-4xl xl:text-5xl font-sans">{Math.round(distanceOff)} miles</span> from the correct location
+              {!!result.radiusKm && (
+                <span className="block text-base lg:text-lg text-gray-600 mt-1">
+                  {result.locationScore > 0 ? 'Inside' : 'Outside'} your {result.radiusKm} km radius
+                </span>
+              )}
+            </p>
+          )}
+          {showsYear && (
+            <p className="text-base lg:text-lg xl:text-xl text-gray-600 mt-2 font-sans">
+              {result.eraBucketSet ? (
+                <span className="font-bold text-brand font-sans">
+                  {result.eraUnpicked
+                    ? describeEraNoPick(result.eraBucketSet)
+                    : describeEraMiss(result.eraBucketSet, result.actualYear, result.yearGuess)}
+                </span>
+              ) : (
+                <>You were <span className="font-bold text-brand font-sans">{Math.abs(result.yearGuess - result.actualYear)} years</span> off</>
+              )}
+              {!!result.yearMargin && (
+                <> ({result.yearScore > 0 ? 'inside' : 'outside'} your ±{result.yearMargin} year range)</>
+              )}
+            </p>
+          )}
         </div>
 
         {/* Always Centered Score Cards with Better Screen Usage */}
@@ -366,25 +318,46 @@ const RoundResults: React.FC<RoundResultsProps> = ({
             </div>
 
             {/* Year Score */}
-            <div className="bg-white rounded-xl p-4 lg:p-5 xl:p-6 text-center shadow-lg border-2 border-brand/20 min-w-[140px] lg:min-w-[160px] xl:min-w-[180px]">
-              <div className="text-sm lg:text-base xl:text-lg text-gray-600 mb-1 font-sans">Year</div>
-              <div className="text-2xl lg:text-3xl xl:text-4xl font-bold text-brand font-sans">{animatedYearScore}</div>
-              <div className="text-xs lg:text-sm text-gray-500 font-sans">/5000</div>
-            </div>
+            {showsYear && (
+              <div className="bg-white rounded-xl p-4 lg:p-5 xl:p-6 text-center shadow-lg border-2 border-brand/20 min-w-[140px] lg:min-w-[160px] xl:min-w-[180px]">
+                <div className="text-sm lg:text-base xl:text-lg text-gray-600 mb-1 font-sans">Year</div>
+                <div className="text-2xl lg:text-3xl xl:text-4xl font-bold text-brand font-sans">{animatedYearScore}</div>
+                <div className="text-xs lg:text-sm text-gray-500 font-sans">/{categoryMax}</div>
+              </div>
+            )}
 
             {/* Location Score */}
-            <div className="bg-white rounded-xl p-4 lg:p-5 xl:p-6 text-center shadow-lg border-2 border-brand/20 min-w-[140px] lg:min-w-[160px] xl:min-w-[180px]">
-              <div className="text-sm lg:text-base xl:text-lg text-gray-600 mb-1 font-sans">Location</div>
-              <div className="text-2xl lg:text-3xl xl:text-4xl font-bold text-brand font-sans">{animatedLocationScore}</div>
-              <div className="text-xs lg:text-sm text-gray-500 font-sans">/5000</div>
-            </div>
+            {showsLocation && (
+              <div className="bg-white rounded-xl p-4 lg:p-5 xl:p-6 text-center shadow-lg border-2 border-brand/20 min-w-[140px] lg:min-w-[160px] xl:min-w-[180px]">
+                <div className="text-sm lg:text-base xl:text-lg text-gray-600 mb-1 font-sans">Location</div>
+                <div className="text-2xl lg:text-3xl xl:text-4xl font-bold text-brand font-sans">{animatedLocationScore}</div>
+                <div className="text-xs lg:text-sm text-gray-500 font-sans">/{categoryMax}</div>
+              </div>
+            )}
 
             {/* Year Comparison */}
-            <div className="bg-gray-50 rounded-xl p-4 lg:p-5 xl:p-6 text-center shadow-lg min-w-[140px] lg:min-w-[160px] xl:min-w-[180px]">
-              <div className="text-sm lg:text-base xl:text-lg text-gray-600 mb-1 font-sans">Year Guess</div>
-              <div className="text-xl lg:text-2xl xl:text-3xl font-bold text-gray-800 font-sans">{result.yearGuess}</div>
-              <div className="text-xs lg:text-sm text-gray-500 font-sans">vs {result.actualYear}</div>
-            </div>
+            {showsYear && (
+              <div className="bg-gray-50 rounded-xl p-4 lg:p-5 xl:p-6 text-center shadow-lg min-w-[140px] lg:min-w-[160px] xl:min-w-[180px]">
+                <div className="text-sm lg:text-base xl:text-lg text-gray-600 mb-1 font-sans">{result.eraBucketSet ? 'Era Guess' : 'Year Guess'}</div>
+                <div className="text-xl lg:text-2xl xl:text-3xl font-bold text-gray-800 font-sans">
+                  {result.eraUnpicked
+                    ? '—'
+                    : result.eraBucketSet ? findEraBucket(result.eraBucketSet, result.yearGuess).label : result.yearGuess}
+                </div>
+                <div className="text-xs lg:text-sm text-gray-500 font-sans">
+                  vs {result.eraBucketSet ? `${findEraBucket(result.eraBucketSet, result.actualYear).label} (${result.actualYear})` : result.actualYear}
+                </div>
+              </div>
+            )}
+
+            {/* Hints revealed before guessing */}
+            {!!result.hintsUsed && (
+              <div className="bg-gray-50 rounded-xl p-4 lg:p-5 xl:p-6 text-center shadow-lg min-w-[140px] lg:min-w-[160px] xl:min-w-[180px]">
+                <div className="text-sm lg:text-base xl:text-lg text-gray-600 mb-1 font-sans">Hints</div>
+                <div className="text-2xl lg:text-3xl xl:text-4xl font-bold text-gray-800 font-sans">−{result.hintPenalty || 0}</div>
+                <div className="text-xs lg:text-sm text-gray-500 font-sans">{result.hintsUsed} used</div>
+              </div>
+            )}
 
             {/* Time Bonus (if applicable) - always in the flow */}
             {timeBonus > 0 && (
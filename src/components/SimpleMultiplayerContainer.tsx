@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { SimpleMultiplayerMenu } from './SimpleMultiplayerMenu';
+import { SimpleMultiplayerMenu, type RoomSettings } from './SimpleMultiplayerMenu';
 import { SimpleMultiplayerLobby } from './SimpleMultiplayerLobby';
 import Game from './Game';
 import { useSimpleMultiplayer } from '@/hooks/useSimpleMultiplayer';
@@ -73,11 +73,12 @@ export const SimpleMultiplayerContainer: React.FC<SimpleMultiplayerContainerProp
   // }, []);
 
   // Wrapper function to match the expected signature
-  const handleCreateRoom = async (displayName: string, settings: { rounds: number; timePerRound: number }) => {
+  const handleCreateRoom = async (displayName: string, settings: RoomSettings) => {
     return await multiplayer.createRoom({
       displayName,
       rounds: settings.rounds,
-      timePerRound: settings.timePerRound
+      timePerRound: settings.timePerRound,
+      collectionId: settings.collectionId
     });
   };
 
@@ -1,12 +1,21 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { listPublishedCollections } from '@/services/collectionService';
+import type { ImageCollection } from '@/types/game';
 
 import { ArrowLeft, Users, Plus, LogIn, Home, Gamepad2, KeyRound } from 'lucide-react';
 
+export interface RoomSettings {
+  rounds: number;
+  timePerRound: number;
+  collectionId: string | null; // null plays the whole pool
+}
+
 interface SimpleMultiplayerMenuProps {
   onBack: () => void;
-  onCreateRoom: (displayName: string, settings: { rounds: number; timePerRound: number }) => Promise<{ success: boolean; error?: string }>;
+  onCreateRoom: (displayName: string, settings: RoomSettings) => Promise<{ success: boolean; error?: string }>;
   onJoinRoom: (roomCode: string, displayName: string, isSpectator?: boolean) => Promise<{ success: boolean; error?: string }>;
   onHome: () => void;
 }
@@ -22,12 +31,21 @@ export const SimpleMultiplayerMenu: React.FC<SimpleMultiplayerMenuProps> = ({
   const [error, setError] = useState('');
   const [displayName, setDisplayName] = useState('');
   const [roomCode, setRoomCode] = useState('');
-  const [settings, setSettings] = useState({
+  const [settings, setSettings] = useState<RoomSettings>({
     rounds: 5,
-    timePerRound: 60
+    timePerRound: 60,
+    collectionId: null
   });
+  const [collections, setCollections] = useState<ImageCollection[]>([]);
   const [joinAsSpectator, setJoinAsSpectator] = useState(false);
 
+  useEffect(() => {
+    if (view !== 'create' || collections.length > 0) return;
+    listPublishedCollections()
+      .then(setCollections)
+      .catch(err => console.warn('⚠️ Could not load collections:', err));
+  }, [view, collections.length]);
+
   const handleCreateRoom = async () => {
     if (!displayName.trim()) {
       setError('Please enter your display name');
@@ -164,6 +182,28 @@ export const SimpleMultiplayerMenu: React.FC<SimpleMultiplayerMenuProps> = ({
                 </div>
               </div>
 
+              {collections.length > 0 && (
+                <div>
+                  <label className="block text-lg font-semibold text-gray-900 mb-3">
+                    Photos
+                  </label>
+                  <Select
+                    value={settings.collectionId ?? 'all'}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, collectionId: value === 'all' ? null : value }))}
+                  >
+                    <SelectTrigger className="h-14 text-lg border-2 border-gray-200 rounded-2xl" aria-label="Collection">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Everything</SelectItem>
+                      {collections.map(c => (
+                        <SelectItem key={c.id} value={c.id}>{c.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {error && (
                 <div className="p-4 bg-red-50 border border-red-200 rounded-2xl">
                   <p className="text-red-600 font-medium text-center">{error}</p>
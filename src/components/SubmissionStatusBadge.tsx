@@ -0,0 +1,18 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { SUBMISSION_STATUS_LABELS } from '@/utils/submissionWorkflow';
+import type { PhotoSubmissionStatus } from '@/types/admin';
+
+const STATUS_STYLES: Record<PhotoSubmissionStatus, string> = {
+  pending: 'bg-brand/10 text-brand',
+  reviewing: 'bg-amber-100 text-amber-700',
+  approved: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-gray-200 text-gray-600',
+  needs_info: 'bg-blue-100 text-blue-700',
+};
+
+const SubmissionStatusBadge: React.FC<{ status: PhotoSubmissionStatus }> = ({ status }) => (
+  <Badge className={STATUS_STYLES[status]}>{SUBMISSION_STATUS_LABELS[status]}</Badge>
+);
+
+export default SubmissionStatusBadge;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Lock, MessageSquare, RefreshCw, UserCheck } from 'lucide-react';
+import { describeEvent, type ThreadViewer } from '@/utils/submissionWorkflow';
+import type { SubmissionEvent, SubmissionEventKind } from '@/types/admin';
+
+interface SubmissionTimelineProps {
+  events: SubmissionEvent[];
+  viewer: ThreadViewer;
+}
+
+const EVENT_ICONS: Record<SubmissionEventKind, React.ElementType> = {
+  comment: MessageSquare,
+  status: RefreshCw,
+  assignment: UserCheck,
+};
+
+/** A photo submission's thread, oldest first: messages, status changes and assignments. */
+const SubmissionTimeline: React.FC<SubmissionTimelineProps> = ({ events, viewer }) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No messages or changes yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {events.map((event) => {
+        const Icon = event.internal ? Lock : EVENT_ICONS[event.kind];
+        const fromSubmitter = event.actor_role === 'submitter';
+        return (
+          <li
+            key={event.id}
+            className={`rounded-md border p-2 text-sm ${
+              event.internal
+                ? 'border-dashed border-gray-300 bg-gray-50'
+                : fromSubmitter
+                  ? 'border-blue-100 bg-blue-50'
+                  : 'border-gray-200 bg-white'
+            }`}
+          >
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <Icon className="h-3.5 w-3.5 shrink-0" />
+              <span className="font-medium text-gray-700">{describeEvent(event, viewer)}</span>
+              <span className="ml-auto shrink-0">{new Date(event.created_at).toLocaleString()}</span>
+            </div>
+            {event.body && <p className="mt-1 whitespace-pre-wrap text-gray-800">{event.body}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default SubmissionTimeline;
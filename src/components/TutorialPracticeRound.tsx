@@ -10,7 +10,8 @@ import { Card } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { GAME_CONSTANTS } from '@/constants/gameConstants';
-import { loadGoogleMapsScript, createOptimizedMap } from '@/utils/mapUtils';
+import { loadMapProvider } from '@/utils/mapUtils';
+import type { GameMap, MapLine, MapMarker, MapProvider } from '@/utils/mapProvider';
 import { calculateCompleteScore } from '@/utils/scoringSystem';
 import { calculateDistance, transformDatabaseImageToGameImage } from '@/utils/gameUtils';
 
@@ -36,9 +37,10 @@ const TutorialPracticeRound: React.FC<TutorialPracticeRoundProps> = ({
   
   // Map refs for results display
   const mapRef = useRef<HTMLDivElement>(null);
-  const googleMapRef = useRef<google.maps.Map | null>(null);
-  const markersRef = useRef<google.maps.Marker[]>([]);
-  const polylinesRef = useRef<google.maps.Polyline[]>([]);
+  const gameMapRef = useRef<GameMap | null>(null);
+  const markersRef = useRef<MapMarker[]>([]);
+  const polylinesRef = useRef<MapLine[]>([]);
+  const [provider, setProvider] = useState<MapProvider | null>(null);
   const [mapReady, setMapReady] = useState(false);
 
   // Fetch a practice image from the database
@@ -196,115 +198,75 @@ const TutorialPracticeRound: React.FC<TutorialPracticeRoundProps> = ({
   // Create custom marker with consistent styling
   const createCustomMarker = (
     position: { lat: number; lng: number },
-    map: google.maps.Map,
+    map: GameMap,
     isGuess: boolean,
     title: string
-  ): google.maps.Marker => {
-    return new google.maps.Marker({
-      position,
-      map,
-      title,
-      icon: {
-        path: google.maps.SymbolPath.CIRCLE,
-        scale: 12,
-        fillColor: isGuess ? "#3b82f6" : "#ea384c",
-        fillOpacity: 1,
-        strokeWeight: 3,
-        strokeColor: "#ffffff",
-        strokeOpacity: 1
-      }
-    });
-  };
+  ): MapMarker => map.createMarker(position, { color: isGuess ? "#3b82f6" : "#ea384c", title });
 
   // Clear all markers and polylines
   const clearMapElements = () => {
-    markersRef.current.forEach(marker => marker.setMap(null));
+    markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
-    polylinesRef.current.forEach(polyline => polyline.setMap(null));
+    polylinesRef.current.forEach(polyline => polyline.remove());
     polylinesRef.current = [];
   };
 
   // Initialize results map
   useEffect(() => {
-    if (!hasGuessed || !window.google?.maps || !mapRef.current || !locationGuess || !practiceImage?.location) return;
+    if (!hasGuessed || !provider || !mapRef.current || !locationGuess || !practiceImage?.location) return;
     
     try {
-      // Use optimized map configuration for better performance
-      const map = createOptimizedMap(mapRef.current, {
+      const map = provider.createMap(mapRef.current, {
         center: { lat: 20, lng: 0 },
         zoom: 2
       });
       
-      googleMapRef.current = map;
+      gameMapRef.current = map;
       
       // Clear existing elements
       clearMapElements();
       
       // Add guessed location marker
-      const guessedMarker = createCustomMarker(
-        locationGuess,
-        map,
-        true,
-        "Your Guess"
-      );
-      markersRef.current.push(guessedMarker);
+      markersRef.current.push(createCustomMarker(locationGuess, map, true, "Your Guess"));
       
       // Add actual location marker
-      const actualMarker = createCustomMarker(
-        practiceImage.location,
-        map,
-        false,
-        "Actual Location"
-      );
-      markersRef.current.push(actualMarker);
+      markersRef.current.push(createCustomMarker(practiceImage.location, map, false, "Actual Location"));
       
       // Draw line between the two points
-      const polyline = new google.maps.Polyline({
-        path: [locationGuess, practiceImage.location],
-        geodesic: true,
-        strokeColor: "#ea384c",
-        strokeOpacity: 0.8,
-        strokeWeight: 3,
-        map
-      });
-      polylinesRef.current.push(polyline);
+      polylinesRef.current.push(
+        map.createPolyline([locationGuess, practiceImage.location], {
+          color: "#ea384c",
+          opacity: 0.8,
+          weight: 3
+        })
+      );
       
       // Fit bounds to show both markers
-      const bounds = new google.maps.LatLngBounds();
-      bounds.extend(locationGuess);
-      bounds.extend(practiceImage.location);
-      map.fitBounds(bounds, 100);
+      map.smoothFitBounds([locationGuess, practiceImage.location], 100);
+      setMapReady(true);
+
+      return () => {
+        clearMapElements();
+        map.destroy();
+        gameMapRef.current = null;
+      };
     } catch (error) {
-      console.error("Error initializing Google Maps:", error);
+      console.error("Error initializing the map:", error);
     }
-  }, [hasGuessed, locationGuess, practiceImage]);
+  }, [hasGuessed, provider, locationGuess, practiceImage]);
 
-  // Load Google Maps API for results
+  // Google Maps if it loads, the offline map otherwise
   useEffect(() => {
-    if (hasGuessed) {
-      if (window.google?.maps) {
-        setMapReady(true);
-        return;
-      }
-      
-      loadGoogleMapsScript()
-        .then(() => {
-          setMapReady(true);
-        })
-        .catch((error) => {
-          console.error('Failed to load Google Maps:', error);
-        });
-    }
-  }, [hasGuessed]);
+    if (!hasGuessed) return;
 
-  // Cleanup on unmount
-  useEffect(() => {
+    let cancelled = false;
+    loadMapProvider().then((loaded) => {
+      if (!cancelled) setProvider(loaded);
+    });
     return () => {
-      clearMapElements();
+      cancelled = true;
     };
-  }, []);
-
-
+  }, [hasGuessed]);
 
   if (loading) {
     return (
@@ -1,13 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { User, Trophy, LogOut, Crown, Target, Calendar, Edit3, RefreshCw, Settings } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { User, Trophy, LogOut, Crown, Target, Calendar, Edit3, RefreshCw, Settings, Flame } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { AuthModal } from './auth/AuthModal';
 import ProfileView from './ProfileView';
 import SettingsPanel from './SettingsPanel';
 import { fixUserStatsFromSessions } from '@/utils/databaseUtils';
 import { useProfileContext } from '@/contexts/ProfileContext';
+import { useDailyArchive } from '@/hooks/useDailyArchive';
 
 interface UserHeaderProps {
   onShowLeaderboard: () => void;
@@ -20,6 +22,8 @@ export const UserHeader: React.FC<UserHeaderProps> = ({ onShowLeaderboard }) =>
   const [showSettings, setShowSettings] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { refreshUserProfile } = useProfileContext();
+  const { streaks } = useDailyArchive(user?.id);
+  const navigate = useNavigate();
 
   const handleSignOut = async () => {
     console.log('🚪 Sign out requested');
@@ -184,6 +188,11 @@ export const UserHeader: React.FC<UserHeaderProps> = ({ onShowLeaderboard }) =>
                   </div>
                 </div>
               </div>
+              <div className="flex items-center justify-center gap-2 mt-3 pt-2 border-t border-gray-200 text-sm">
+                <Flame size={16} className="text-orange-500" />
+                <span className="font-semibold text-gray-800">{streaks.current}-day streak</span>
+                <span className="text-gray-500 text-xs">(best {streaks.longest})</span>
+              </div>
               <div className="text-xs text-gray-500 mt-2 text-center">
                 Last updated: {new Date(profile.updated_at).toLocaleTimeString()}
               </div>
@@ -227,6 +236,14 @@ export const UserHeader: React.FC<UserHeaderProps> = ({ onShowLeaderboard }) =>
             <span>View Leaderboard</span>
           </DropdownMenuItem>
 
+          <DropdownMenuItem
+            onClick={() => navigate('/daily')}
+            className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-brand hover:text-white transition-colors cursor-pointer"
+          >
+            <Calendar size={18} />
+            <span>Daily Archive</span>
+          </DropdownMenuItem>
+
           <DropdownMenuItem
             onClick={() => setShowSettings(true)}
             className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-brand hover:text-white transition-colors cursor-pointer"
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -10,10 +10,140 @@ import {
   Calendar,
   BarChart3,
   Download,
-  RefreshCw
+  RefreshCw,
+  Gauge
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { AdminService } from '@/services/adminService';
-import type { DailySummary, VisitorAnalytics } from '@/types/admin';
+import { DIFFICULTY_LABELS, DIFFICULTY_TIERS } from '@/utils/imageDifficulty';
+import type { AdminImageDifficulty, DailySummary, VisitorAnalytics } from '@/types/admin';
+import type { DifficultyTier } from '@/types/game';
+
+const TIER_BADGE: Record<DifficultyTier, string> = {
+  easy: 'bg-green-100 text-green-800 hover:bg-green-100',
+  medium: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  hard: 'bg-red-100 text-red-800 hover:bg-red-100',
+};
+
+// Per-image difficulty ratings, loaded separately so a large image table
+// doesn't hold up the visitor analytics
+const ImageDifficultyCard: React.FC = () => {
+  const [images, setImages] = useState<AdminImageDifficulty[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [recomputing, setRecomputing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setImages(await AdminService.getImageDifficulty());
+    } catch (err) {
+      console.error('Failed to load image difficulty:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRecompute = async () => {
+    setRecomputing(true);
+    try {
+      const rated = await AdminService.recomputeImageDifficulty();
+      toast.success(`Difficulty recomputed: ${rated} images rated`);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not recompute difficulty');
+    } finally {
+      setRecomputing(false);
+    }
+  };
+
+  const rated = images.filter(img => img.difficulty !== null);
+  const lastComputed = images.find(img => img.difficulty_updated_at)?.difficulty_updated_at;
+  const rows = [...rated.slice(0, 5), ...rated.slice(Math.max(5, rated.length - 5))];
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200">
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Image Difficulty
+          </CardTitle>
+          <Button onClick={handleRecompute} variant="outline" size="sm" disabled={recomputing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${recomputing ? 'animate-spin' : ''}`} />
+            {recomputing ? 'Recomputing…' : 'Recompute now'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {DIFFICULTY_TIERS.map(tier => (
+                <div key={tier} className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">{DIFFICULTY_LABELS[tier].name}</p>
+                  <p className="text-xl font-bold text-gray-900">
+                    {rated.filter(img => img.difficulty === tier).length}
+                  </p>
+                </div>
+              ))}
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Unrated</p>
+                <p className="text-xl font-bold text-gray-900">{images.length - rated.length}</p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Rated from average year error, average distance and score spread once an image
+              has 5 rounds.{' '}
+              {lastComputed
+                ? `Last computed ${new Date(lastComputed).toLocaleString()}.`
+                : 'Not computed yet.'}
+            </p>
+            {rows.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Hardest and easiest</p>
+                {rows.map(img => (
+                  <div key={img.id} className="flex items-center gap-3 p-2 bg-gray-50 rounded-lg">
+                    <img
+                      src={img.image_url}
+                      alt=""
+                      loading="lazy"
+                      className="h-10 w-14 object-cover rounded"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">
+                        {img.location_name} · {img.year}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        ±{img.avg_year_error ?? '–'} yrs ·{' '}
+                        {img.avg_distance_km !== null ? `${Math.round(img.avg_distance_km)} km` : '– km'} ·
+                        σ {img.score_stddev ?? '–'} · {img.difficulty_rounds} rounds
+                      </p>
+                    </div>
+                    {img.difficulty && (
+                      <Badge className={TIER_BADGE[img.difficulty]}>
+                        {img.difficulty_score}
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
 
 export const AdminAnalyticsPanel: React.FC = () => {
   const [dailySummary, setDailySummary] = useState<DailySummary[]>([]);
@@ -361,6 +491,8 @@ export const AdminAnalyticsPanel: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      <ImageDifficultyCard />
     </div>
   );
 }; 
\ No newline at end of file
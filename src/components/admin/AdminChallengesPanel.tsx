@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Flag, Link2, Plus, RefreshCw, Search } from 'lucide-react';
+import { getAllImages } from '@/data/sampleData';
+import { createChallenge, listChallenges } from '@/services/challengeService';
+import { CHALLENGE_LIMITS, getChallengePath, getChallengeUrl } from '@/utils/customChallenge';
+import { SCORING_PROFILES, SCORING_PROFILE_IDS } from '@/utils/scoringProfiles';
+import type { CustomChallenge, GameImage, ScoringProfileId } from '@/types/game';
+
+const copyLink = async (challengeId: string) => {
+  try {
+    await navigator.clipboard.writeText(getChallengeUrl(challengeId));
+    toast.success('Challenge link copied!');
+  } catch {
+    toast.error('Could not copy — your browser blocked clipboard access');
+  }
+};
+
+export const AdminChallengesPanel: React.FC = () => {
+  const [challenges, setChallenges] = useState<CustomChallenge[]>([]);
+  const [images, setImages] = useState<GameImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [title, setTitle] = useState('');
+  const [center, setCenter] = useState('');
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [roundCount, setRoundCount] = useState(5);
+  const [timerSeconds, setTimerSeconds] = useState('');
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfileId>('classic');
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [list, pool] = await Promise.all([listChallenges(), getAllImages()]);
+      setChallenges(list);
+      setImages(pool);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load challenges');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const filteredImages = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!q) return images;
+    return images.filter(
+      (img) =>
+        img.location.name.toLowerCase().includes(q) ||
+        img.description.toLowerCase().includes(q) ||
+        String(img.year).includes(q)
+    );
+  }, [images, search]);
+
+  const toggleImage = (id: string) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(id)) return prev.filter((x) => x !== id);
+      if (prev.length >= CHALLENGE_LIMITS.MAX_IMAGES) {
+        toast.error(`A challenge can use at most ${CHALLENGE_LIMITS.MAX_IMAGES} photos`);
+        return prev;
+      }
+      return [...prev, id];
+    });
+  };
+
+  const rounds = Math.min(roundCount, selectedIds.length);
+  const timer = timerSeconds.trim() === '' ? null : Number(timerSeconds);
+  const timerValid =
+    timer === null ||
+    (Number.isInteger(timer) &&
+      timer >= CHALLENGE_LIMITS.MIN_TIMER_SECONDS &&
+      timer <= CHALLENGE_LIMITS.MAX_TIMER_SECONDS);
+  const canCreate = title.trim().length > 0 && rounds > 0 && timerValid && !saving;
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+    setSaving(true);
+    try {
+      const id = await createChallenge({
+        title: title.trim(),
+        imageIds: selectedIds,
+        roundCount: rounds,
+        timerSeconds: timer,
+        center: center.trim() || undefined,
+        scoringProfile,
+      });
+      await copyLink(id);
+      setTitle('');
+      setCenter('');
+      setSelectedIds([]);
+      setTimerSeconds('');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not create the challenge');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5 text-brand" />
+            New Challenge
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="challenge-title">Title</Label>
+              <Input
+                id="challenge-title"
+                value={title}
+                maxLength={CHALLENGE_LIMITS.MAX_TITLE_LENGTH}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Heritage Week quiz"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-center">Center (optional)</Label>
+              <Input
+                id="challenge-center"
+                value={center}
+                onChange={(e) => setCenter(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-rounds">Rounds</Label>
+              <Input
+                id="challenge-rounds"
+                type="number"
+                min={1}
+                max={CHALLENGE_LIMITS.MAX_IMAGES}
+                value={roundCount}
+                onChange={(e) => setRoundCount(Math.max(1, Number(e.target.value) || 1))}
+              />
+              <p className="text-xs text-gray-500">
+                Drawn from the selected photos — {rounds} of {selectedIds.length} will be played.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-timer">Seconds per round (blank = untimed)</Label>
+              <Input
+                id="challenge-timer"
+                type="number"
+                min={CHALLENGE_LIMITS.MIN_TIMER_SECONDS}
+                max={CHALLENGE_LIMITS.MAX_TIMER_SECONDS}
+                value={timerSeconds}
+                onChange={(e) => setTimerSeconds(e.target.value)}
+              />
+              {!timerValid && (
+                <p className="text-xs text-brand">
+                  Use {CHALLENGE_LIMITS.MIN_TIMER_SECONDS}–{CHALLENGE_LIMITS.MAX_TIMER_SECONDS} seconds.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Scoring</Label>
+              <Select
+                value={scoringProfile}
+                onValueChange={(v) => setScoringProfile(v as ScoringProfileId)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCORING_PROFILE_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {SCORING_PROFILES[id].name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <Label>
+                Photos ({selectedIds.length}/{CHALLENGE_LIMITS.MAX_IMAGES})
+              </Label>
+              <div className="relative">
+                <Search className="h-4 w-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search place, description or year"
+                  className="pl-8 w-64"
+                />
+              </div>
+            </div>
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg divide-y">
+              {filteredImages.map((img) => (
+                <label
+                  key={img.id}
+                  className="flex items-center gap-3 p-2 hover:bg-gray-50 cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selectedIds.includes(img.id)}
+                    onCheckedChange={() => toggleImage(img.id)}
+                  />
+                  <img
+                    src={img.image_url}
+                    alt=""
+                    loading="lazy"
+                    className="h-10 w-14 object-cover rounded"
+                  />
+                  <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">
+                    {img.location.name}
+                  </span>
+                  <span className="text-xs text-gray-500">{img.year}</span>
+                </label>
+              ))}
+              {!loading && filteredImages.length === 0 && (
+                <p className="p-4 text-sm text-gray-500 text-center">No photos match.</p>
+              )}
+            </div>
+          </div>
+
+          <Button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="bg-brand hover:bg-brand-dark text-white"
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            {saving ? 'Creating…' : 'Create & copy link'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <Flag className="h-5 w-5 text-brand" />
+              Challenges
+              <span className="text-sm font-normal text-gray-500">({challenges.length})</span>
+            </CardTitle>
+            <Button onClick={load} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-100 rounded-lg" />
+              ))}
+            </div>
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-brand font-medium mb-3">{error}</p>
+              <Button onClick={load} variant="outline" size="sm">
+                Retry
+              </Button>
+            </div>
+          ) : challenges.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No challenges yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {challenges.map((c) => (
+                <div
+                  key={c.id}
+                  className="p-4 bg-gray-50 rounded-lg border border-gray-100 flex items-center justify-between gap-3 flex-wrap"
+                >
+                  <div className="min-w-0">
+                    <a
+                      href={getChallengePath(c.id)}
+                      className="font-medium text-gray-900 hover:text-brand"
+                    >
+                      {c.title}
+                    </a>
+                    <div className="flex items-center gap-2 mt-1 flex-wrap text-xs text-gray-500">
+                      <Badge className="bg-gray-200 text-gray-700 hover:bg-gray-200">
+                        {c.round_count} rounds
+                      </Badge>
+                      <span>{c.timer_seconds ? `${c.timer_seconds}s` : 'untimed'}</span>
+                      <span>{SCORING_PROFILES[c.scoring_profile]?.name ?? c.scoring_profile}</span>
+                      {c.center && <span>{c.center}</span>}
+                      <span>{new Date(c.created_at).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+                  <Button onClick={() => copyLink(c.id)} variant="outline" size="sm">
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Copy link
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
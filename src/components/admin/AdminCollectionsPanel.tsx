@@ -0,0 +1,492 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Library, Pencil, RefreshCw, Search, Tags, Trash2 } from 'lucide-react';
+import { getAllImages } from '@/data/sampleData';
+import {
+  deleteCollection,
+  listAllCollections,
+  saveCollection,
+  setImageTags,
+} from '@/services/collectionService';
+import {
+  COLLECTION_LIMITS,
+  TAG_KINDS,
+  countTags,
+  getCollectionImages,
+  isValidSlug,
+  parseTagList,
+  slugify,
+} from '@/utils/imageCollections';
+import type { GameImage, ImageCollection } from '@/types/game';
+
+interface CollectionForm {
+  id?: string;
+  title: string;
+  slug: string;
+  slugEdited: boolean; // stop following the title once the slug is typed
+  description: string;
+  tags: string;
+  imageIds: string[];
+  isPublished: boolean;
+}
+
+const EMPTY_FORM: CollectionForm = {
+  title: '',
+  slug: '',
+  slugEdited: false,
+  description: '',
+  tags: '',
+  imageIds: [],
+  isPublished: false,
+};
+
+const formFromCollection = (collection: ImageCollection): CollectionForm => ({
+  id: collection.id,
+  title: collection.title,
+  slug: collection.slug,
+  slugEdited: true,
+  description: collection.description ?? '',
+  tags: collection.tag_filter.join(', '),
+  imageIds: collection.image_ids,
+  isPublished: collection.is_published,
+});
+
+const matchesSearch = (img: GameImage, q: string) =>
+  img.location.name.toLowerCase().includes(q) ||
+  img.description.toLowerCase().includes(q) ||
+  String(img.year).includes(q) ||
+  (img.tags ?? []).some((tag) => tag.includes(q));
+
+export const AdminCollectionsPanel: React.FC = () => {
+  const [collections, setCollections] = useState<ImageCollection[]>([]);
+  const [images, setImages] = useState<GameImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<CollectionForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<ImageCollection | null>(null);
+  const [search, setSearch] = useState('');
+  const [tagSearch, setTagSearch] = useState('');
+  const [editingTags, setEditingTags] = useState<{ imageId: string; value: string } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [list, pool] = await Promise.all([listAllCollections(), getAllImages()]);
+      setCollections(list);
+      setImages(pool);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collections');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const tagFilter = useMemo(() => parseTagList(form.tags), [form.tags]);
+  const memberCount = useMemo(
+    () => getCollectionImages({ tag_filter: tagFilter, image_ids: form.imageIds }, images).length,
+    [tagFilter, form.imageIds, images]
+  );
+  const tagCounts = useMemo(() => countTags(images), [images]);
+
+  const filteredImages = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return q ? images.filter((img) => matchesSearch(img, q)) : images;
+  }, [images, search]);
+  const taggableImages = useMemo(() => {
+    const q = tagSearch.trim().toLowerCase();
+    return q ? images.filter((img) => matchesSearch(img, q)) : images;
+  }, [images, tagSearch]);
+
+  const setTitle = (title: string) =>
+    setForm((prev) => ({ ...prev, title, slug: prev.slugEdited ? prev.slug : slugify(title) }));
+
+  const toggleImage = (id: string) => {
+    setForm((prev) => {
+      if (prev.imageIds.includes(id)) {
+        return { ...prev, imageIds: prev.imageIds.filter((x) => x !== id) };
+      }
+      if (prev.imageIds.length >= COLLECTION_LIMITS.MAX_IMAGES) {
+        toast.error(`A collection can hand-pick at most ${COLLECTION_LIMITS.MAX_IMAGES} photos`);
+        return prev;
+      }
+      return { ...prev, imageIds: [...prev.imageIds, id] };
+    });
+  };
+
+  const slugValid = isValidSlug(form.slug);
+  const canSave =
+    form.title.trim().length > 0 &&
+    slugValid &&
+    tagFilter.length <= COLLECTION_LIMITS.MAX_TAGS &&
+    memberCount > 0 &&
+    !saving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      await saveCollection({
+        id: form.id,
+        title: form.title.trim(),
+        slug: form.slug,
+        description: form.description.trim() || undefined,
+        tagFilter,
+        imageIds: form.imageIds,
+        isPublished: form.isPublished,
+      });
+      toast.success(form.id ? 'Collection saved' : 'Collection created');
+      setForm(EMPTY_FORM);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not save the collection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (collection: ImageCollection) => {
+    try {
+      await deleteCollection(collection.id);
+      toast.success('Collection deleted');
+      if (form.id === collection.id) setForm(EMPTY_FORM);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not delete the collection');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleSaveTags = async () => {
+    if (!editingTags) return;
+    try {
+      const tags = await setImageTags(editingTags.imageId, parseTagList(editingTags.value));
+      setImages((prev) =>
+        prev.map((img) => (img.id === editingTags.imageId ? { ...img, tags } : img))
+      );
+      setEditingTags(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not save the tags');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <Library className="h-5 w-5 text-brand" />
+              {form.id ? 'Edit Collection' : 'New Collection'}
+            </CardTitle>
+            <Button onClick={load} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="collection-title">Title</Label>
+              <Input
+                id="collection-title"
+                value={form.title}
+                maxLength={COLLECTION_LIMITS.MAX_TITLE_LENGTH}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Old Bombay"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="collection-slug">Slug</Label>
+              <Input
+                id="collection-slug"
+                value={form.slug}
+                maxLength={COLLECTION_LIMITS.MAX_SLUG_LENGTH}
+                onChange={(e) =>
+                  setForm({ ...form, slug: e.target.value.toLowerCase(), slugEdited: true })
+                }
+              />
+              {form.slug !== '' && !slugValid && (
+                <p className="text-xs text-brand">Lowercase letters, digits and single dashes only.</p>
+              )}
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="collection-tags">Tags (comma-separated)</Label>
+              <Input
+                id="collection-tags"
+                value={form.tags}
+                onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                placeholder="city:mumbai, archive:bombay-gazette"
+              />
+              <p className="text-xs text-gray-500">
+                Every photo with one of these tags is in the collection, plus the photos picked
+                below — {memberCount} of {images.length} photos.
+              </p>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="collection-description">Description (optional)</Label>
+              <Textarea
+                id="collection-description"
+                value={form.description}
+                maxLength={COLLECTION_LIMITS.MAX_DESCRIPTION_LENGTH}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="collection-published"
+                checked={form.isPublished}
+                onCheckedChange={(checked) => setForm({ ...form, isPublished: checked })}
+              />
+              <Label htmlFor="collection-published">Published — players can pick it</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <Label>
+                Hand-picked photos ({form.imageIds.length}/{COLLECTION_LIMITS.MAX_IMAGES})
+              </Label>
+              <div className="relative">
+                <Search className="h-4 w-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search place, description, year or tag"
+                  className="pl-8 w-64"
+                />
+              </div>
+            </div>
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg divide-y">
+              {filteredImages.map((img) => (
+                <label
+                  key={img.id}
+                  className="flex items-center gap-3 p-2 hover:bg-gray-50 cursor-pointer"
+                >
+                  <Checkbox
+                    checked={form.imageIds.includes(img.id)}
+                    onCheckedChange={() => toggleImage(img.id)}
+                  />
+                  <img
+                    src={img.image_url}
+                    alt=""
+                    loading="lazy"
+                    className="h-10 w-14 object-cover rounded"
+                  />
+                  <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">
+                    {img.location.name}
+                  </span>
+                  <span className="text-xs text-gray-500">{img.year}</span>
+                </label>
+              ))}
+              {!loading && filteredImages.length === 0 && (
+                <p className="p-4 text-sm text-gray-500 text-center">No photos match.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="bg-brand hover:bg-brand-dark text-white"
+            >
+              {saving ? 'Saving…' : form.id ? 'Save collection' : 'Create collection'}
+            </Button>
+            {form.id && (
+              <Button onClick={() => setForm(EMPTY_FORM)} variant="outline">
+                Cancel
+              </Button>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-100 rounded-lg" />
+              ))}
+            </div>
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-brand font-medium mb-3">{error}</p>
+              <Button onClick={load} variant="outline" size="sm">
+                Retry
+              </Button>
+            </div>
+          ) : collections.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No collections yet.</p>
+          ) : (
+            <div className="space-y-2 pt-2">
+              {collections.map((c) => (
+                <div
+                  key={c.id}
+                  className="p-3 bg-gray-50 rounded-lg border border-gray-100 flex items-center justify-between gap-3 flex-wrap"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{c.title}</p>
+                    <div className="flex items-center gap-2 mt-1 flex-wrap text-xs text-gray-500">
+                      {c.is_published ? (
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Published</Badge>
+                      ) : (
+                        <Badge className="bg-gray-200 text-gray-700 hover:bg-gray-200">Draft</Badge>
+                      )}
+                      <span>{c.slug}</span>
+                      <span>{getCollectionImages(c, images).length} photos</span>
+                      {c.tag_filter.length > 0 && <span>{c.tag_filter.join(', ')}</span>}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={() => setForm(formFromCollection(c))} variant="outline" size="sm">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button onClick={() => setDeleting(c)} variant="outline" size="sm">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5 text-brand" />
+            Photo Tags
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-500">
+            Group tags by kind with a prefix — {TAG_KINDS.map((kind) => `${kind}:`).join(', ')}.
+          </p>
+          {tagCounts.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {tagCounts.map(({ tag, count }) => (
+                <button key={tag} type="button" onClick={() => setTagSearch(tag)}>
+                  <Badge className="bg-gray-100 text-gray-700 hover:bg-gray-200">
+                    {tag} · {count}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="relative">
+            <Search className="h-4 w-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <Input
+              value={tagSearch}
+              onChange={(e) => setTagSearch(e.target.value)}
+              placeholder="Search place, description, year or tag"
+              className="pl-8 w-64"
+            />
+          </div>
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg divide-y">
+            {taggableImages.map((img) => (
+              <div key={img.id} className="flex items-center gap-3 p-2">
+                <img
+                  src={img.image_url}
+                  alt=""
+                  loading="lazy"
+                  className="h-10 w-14 object-cover rounded"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 truncate">
+                    {img.location.name} <span className="text-xs text-gray-500">{img.year}</span>
+                  </p>
+                  {editingTags?.imageId === img.id ? (
+                    <div className="flex gap-2 mt-1">
+                      <Input
+                        autoFocus
+                        value={editingTags.value}
+                        onChange={(e) => setEditingTags({ imageId: img.id, value: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleSaveTags();
+                          if (e.key === 'Escape') setEditingTags(null);
+                        }}
+                        className="h-8"
+                      />
+                      <Button onClick={handleSaveTags} size="sm" className="bg-brand hover:bg-brand-dark text-white">
+                        Save
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {(img.tags ?? []).length === 0 ? (
+                        <span className="text-xs text-gray-400">No tags</span>
+                      ) : (
+                        img.tags?.map((tag) => (
+                          <Badge key={tag} className="bg-gray-100 text-gray-700 hover:bg-gray-100">
+                            {tag}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+                {editingTags?.imageId !== img.id && (
+                  <Button
+                    onClick={() => setEditingTags({ imageId: img.id, value: (img.tags ?? []).join(', ') })}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {!loading && taggableImages.length === 0 && (
+              <p className="p-4 text-sm text-gray-500 text-center">No photos match.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(o) => !o && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete the collection “{deleting?.title}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its photos and their tags stay. Games already played from it stay off the
+              general leaderboards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && handleDelete(deleting)}
+              className="bg-brand hover:bg-brand-dark"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
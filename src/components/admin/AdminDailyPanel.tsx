@@ -0,0 +1,526 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { CalendarDays, Pencil, Pin, PinOff, Plus, RefreshCw, Shuffle, Trash2 } from 'lucide-react';
+import {
+  deleteDailyTheme,
+  getDailyImagePool,
+  listDailyThemes,
+  listStoredDailyChallenges,
+  pinDailyChallenge,
+  saveDailyTheme,
+  unpinDailyChallenge,
+  type StoredDailyChallenge,
+} from '@/services/dailyCurationService';
+import { matchesDailyTheme, previewDailySchedule } from '@/utils/dailySelection';
+import { getEasternDateString, shiftDateString } from '@/utils/dailyStreaks';
+import type { DailyTheme, GameImage } from '@/types/game';
+
+const UPCOMING_DAYS = 14;
+
+interface ThemeForm {
+  id?: string;
+  title: string;
+  description: string;
+  startDate: string;
+  endDate: string;
+  yearFrom: string;
+  yearTo: string;
+  keywords: string;
+}
+
+const EMPTY_FORM: ThemeForm = {
+  title: '',
+  description: '',
+  startDate: '',
+  endDate: '',
+  yearFrom: '',
+  yearTo: '',
+  keywords: '',
+};
+
+const formFromTheme = (theme: DailyTheme): ThemeForm => ({
+  id: theme.id,
+  title: theme.title,
+  description: theme.description ?? '',
+  startDate: theme.start_date,
+  endDate: theme.end_date,
+  yearFrom: theme.year_from?.toString() ?? '',
+  yearTo: theme.year_to?.toString() ?? '',
+  keywords: theme.keywords.join(', '),
+});
+
+const parseYear = (value: string): number | null =>
+  value.trim() === '' ? null : Number(value);
+
+const formatDay = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export const AdminDailyPanel: React.FC = () => {
+  const [themes, setThemes] = useState<DailyTheme[]>([]);
+  const [stored, setStored] = useState<StoredDailyChallenge[]>([]);
+  const [pool, setPool] = useState<GameImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<ThemeForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [busyDay, setBusyDay] = useState<string | null>(null);
+  const [rerolls, setRerolls] = useState<Map<string, number>>(new Map());
+  const [deleting, setDeleting] = useState<DailyTheme | null>(null);
+
+  const today = getEasternDateString();
+  const lastDay = shiftDateString(today, UPCOMING_DAYS - 1);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [themeList, storedDays, images] = await Promise.all([
+        listDailyThemes(),
+        listStoredDailyChallenges(today, lastDay),
+        getDailyImagePool(),
+      ]);
+      setThemes(themeList);
+      setStored(storedDays);
+      setPool(images);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the daily schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, [today, lastDay]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const imagesById = useMemo(() => new Map(pool.map((img) => [img.id, img])), [pool]);
+  const storedByDay = useMemo(
+    () => new Map(stored.map((row) => [row.challenge_date, row])),
+    [stored]
+  );
+  const schedule = useMemo(
+    () =>
+      pool.length === 0
+        ? []
+        : previewDailySchedule({
+            pool,
+            themes,
+            stored: new Map(stored.map((row) => [row.challenge_date, row.image_ids])),
+            from: today,
+            days: UPCOMING_DAYS,
+            rerolls,
+          }),
+    [pool, themes, stored, today, rerolls]
+  );
+  const themesById = useMemo(() => new Map(themes.map((t) => [t.id, t])), [themes]);
+
+  const yearFrom = parseYear(form.yearFrom);
+  const yearTo = parseYear(form.yearTo);
+  const yearsValid =
+    (yearFrom === null || Number.isInteger(yearFrom)) &&
+    (yearTo === null || Number.isInteger(yearTo)) &&
+    (yearFrom === null || yearTo === null || yearTo >= yearFrom);
+  const canSave =
+    form.title.trim().length > 0 &&
+    form.startDate !== '' &&
+    form.endDate !== '' &&
+    form.endDate >= form.startDate &&
+    yearsValid &&
+    !saving;
+
+  // How many photos in the pool fit the theme being edited, so admins can
+  // tell a theme that will mostly be topped up from the rest of the pool
+  const matchingCount = useMemo(() => {
+    if (!yearsValid) return null;
+    const draft: DailyTheme = {
+      id: form.id ?? 'draft',
+      title: form.title,
+      description: null,
+      start_date: form.startDate,
+      end_date: form.endDate,
+      year_from: yearFrom,
+      year_to: yearTo,
+      keywords: form.keywords.split(',').map((k) => k.trim()).filter(Boolean),
+      created_at: '',
+    };
+    return pool.filter((img) => matchesDailyTheme(img, draft)).length;
+  }, [pool, form, yearFrom, yearTo, yearsValid]);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      await saveDailyTheme({
+        id: form.id,
+        title: form.title.trim(),
+        description: form.description.trim() || undefined,
+        startDate: form.startDate,
+        endDate: form.endDate,
+        yearFrom,
+        yearTo,
+        keywords: form.keywords.split(',').map((k) => k.trim()).filter(Boolean),
+      });
+      toast.success(form.id ? 'Theme updated' : 'Theme scheduled');
+      setForm(EMPTY_FORM);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not save the theme');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (theme: DailyTheme) => {
+    setDeleting(null);
+    try {
+      await deleteDailyTheme(theme.id);
+      if (form.id === theme.id) setForm(EMPTY_FORM);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not delete the theme');
+    }
+  };
+
+  const handlePin = async (date: string, imageIds: string[], themeId: string | null) => {
+    setBusyDay(date);
+    try {
+      await pinDailyChallenge(date, imageIds, themeId);
+      toast.success(`${formatDay(date)} pinned`);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not pin the day');
+    } finally {
+      setBusyDay(null);
+    }
+  };
+
+  const handleUnpin = async (date: string) => {
+    setBusyDay(date);
+    try {
+      await unpinDailyChallenge(date);
+      toast.success(`${formatDay(date)} unpinned`);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not unpin the day');
+    } finally {
+      setBusyDay(null);
+    }
+  };
+
+  const reroll = (date: string) =>
+    setRerolls((prev) => new Map(prev).set(date, (prev.get(date) ?? 0) + 1));
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5 text-brand" />
+              Upcoming Dailies
+            </CardTitle>
+            <Button onClick={load} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-20 bg-gray-100 rounded-lg" />
+              ))}
+            </div>
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-brand font-medium mb-3">{error}</p>
+              <Button onClick={load} variant="outline" size="sm">
+                Retry
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-500">
+                Days without stored photos show what will be generated on the day. Pin a
+                preview to lock it in, or shuffle for another pick first.
+              </p>
+              {schedule.map((day) => {
+                const row = storedByDay.get(day.date);
+                const isToday = day.date === today;
+                const pinned = !!row?.pinned_at;
+                const theme = themesById.get(row?.theme_id ?? day.themeId ?? '');
+                return (
+                  <div
+                    key={day.date}
+                    className="p-3 bg-gray-50 rounded-lg border border-gray-100 space-y-2"
+                  >
+                    <div className="flex items-center justify-between gap-3 flex-wrap">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium text-gray-900">{formatDay(day.date)}</span>
+                        {isToday && (
+                          <Badge className="bg-brand text-white hover:bg-brand">Today</Badge>
+                        )}
+                        {pinned ? (
+                          <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">
+                            Pinned
+                          </Badge>
+                        ) : day.stored ? (
+                          <Badge className="bg-gray-200 text-gray-700 hover:bg-gray-200">
+                            Generated
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Preview</Badge>
+                        )}
+                        {theme && (
+                          <Badge className="bg-emerald-100 text-emerald-800 hover:bg-emerald-100">
+                            {theme.title}
+                          </Badge>
+                        )}
+                      </div>
+                      {!isToday && (
+                        <div className="flex items-center gap-2">
+                          {day.stored ? (
+                            <Button
+                              onClick={() => handleUnpin(day.date)}
+                              disabled={busyDay === day.date}
+                              variant="outline"
+                              size="sm"
+                            >
+                              <PinOff className="h-4 w-4 mr-2" />
+                              {pinned ? 'Unpin' : 'Clear'}
+                            </Button>
+                          ) : (
+                            <>
+                              <Button onClick={() => reroll(day.date)} variant="outline" size="sm">
+                                <Shuffle className="h-4 w-4 mr-2" />
+                                Shuffle
+                              </Button>
+                              <Button
+                                onClick={() => handlePin(day.date, day.imageIds, day.themeId)}
+                                disabled={busyDay === day.date || day.imageIds.length === 0}
+                                size="sm"
+                                className="bg-brand hover:bg-brand-dark text-white"
+                              >
+                                <Pin className="h-4 w-4 mr-2" />
+                                Pin
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-2 overflow-x-auto">
+                      {day.imageIds.map((id) => {
+                        const img = imagesById.get(id);
+                        return img ? (
+                          <div key={id} className="w-24 shrink-0">
+                            <img
+                              src={img.image_url}
+                              alt=""
+                              loading="lazy"
+                              className="h-16 w-24 object-cover rounded"
+                            />
+                            <p className="text-xs text-gray-600 truncate mt-1">
+                              {img.year} · {img.location.name}
+                            </p>
+                          </div>
+                        ) : (
+                          <div
+                            key={id}
+                            className="h-16 w-24 shrink-0 rounded bg-gray-200 text-xs text-gray-500 flex items-center justify-center"
+                          >
+                            Missing
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5 text-brand" />
+            {form.id ? 'Edit Theme' : 'Schedule a Theme'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="theme-title">Title</Label>
+              <Input
+                id="theme-title"
+                value={form.title}
+                maxLength={80}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="Monsoon week"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="theme-start">First day</Label>
+              <Input
+                id="theme-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="theme-end">Last day</Label>
+              <Input
+                id="theme-end"
+                type="date"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="theme-year-from">From year (optional)</Label>
+              <Input
+                id="theme-year-from"
+                type="number"
+                value={form.yearFrom}
+                onChange={(e) => setForm({ ...form, yearFrom: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="theme-year-to">To year (optional)</Label>
+              <Input
+                id="theme-year-to"
+                type="number"
+                value={form.yearTo}
+                onChange={(e) => setForm({ ...form, yearTo: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="theme-keywords">Keywords (comma-separated, optional)</Label>
+              <Input
+                id="theme-keywords"
+                value={form.keywords}
+                onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+                placeholder="monsoon, rain, flood"
+              />
+              <p className="text-xs text-gray-500">
+                Matched against photo descriptions and place names.
+                {matchingCount !== null && ` ${matchingCount} of ${pool.length} photos fit this theme.`}
+              </p>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="theme-description">Description (optional)</Label>
+              <Textarea
+                id="theme-description"
+                value={form.description}
+                maxLength={280}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+          </div>
+          {!yearsValid && <p className="text-xs text-brand">Check the year range.</p>}
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="bg-brand hover:bg-brand-dark text-white"
+            >
+              {saving ? 'Saving…' : form.id ? 'Save theme' : 'Schedule theme'}
+            </Button>
+            {form.id && (
+              <Button onClick={() => setForm(EMPTY_FORM)} variant="outline">
+                Cancel
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Themes only shape days generated from now on; pinned and already generated days
+            keep their photos.
+          </p>
+
+          {themes.length > 0 && (
+            <div className="space-y-2 pt-2">
+              {themes.map((theme) => (
+                <div
+                  key={theme.id}
+                  className="p-3 bg-gray-50 rounded-lg border border-gray-100 flex items-center justify-between gap-3 flex-wrap"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{theme.title}</p>
+                    <div className="flex items-center gap-2 mt-1 flex-wrap text-xs text-gray-500">
+                      <span>
+                        {formatDay(theme.start_date)} – {formatDay(theme.end_date)}
+                      </span>
+                      {(theme.year_from !== null || theme.year_to !== null) && (
+                        <span>
+                          {theme.year_from ?? '…'}–{theme.year_to ?? '…'}
+                        </span>
+                      )}
+                      {theme.keywords.length > 0 && <span>{theme.keywords.join(', ')}</span>}
+                      {theme.end_date < today && (
+                        <Badge className="bg-gray-200 text-gray-700 hover:bg-gray-200">Past</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={() => setForm(formFromTheme(theme))} variant="outline" size="sm">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button onClick={() => setDeleting(theme)} variant="outline" size="sm">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(o) => !o && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete the theme “{deleting?.title}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Days that were already generated or pinned under it keep their photos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && handleDelete(deleting)}
+              className="bg-brand hover:bg-brand-dark"
+            >
+              Delete theme
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
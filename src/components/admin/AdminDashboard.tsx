@@ -16,7 +16,13 @@ import {
   Shield,
   MessageSquare,
   Image as ImageIcon,
-  RefreshCw
+  RefreshCw,
+  Flag,
+  CalendarDays,
+  Library,
+  MapPinned,
+  FileUp,
+  Images
 } from 'lucide-react';
 import { AdminService } from '@/services/adminService';
 import type { AdminDashboardStats } from '@/types/admin';
@@ -26,6 +32,12 @@ import { AdminAnalyticsPanel } from './AdminAnalyticsPanel';
 import { AdminSettingsPanel } from './AdminSettingsPanel';
 import { AdminFeedbackPanel } from './AdminFeedbackPanel';
 import { AdminSubmissionsPanel } from './AdminSubmissionsPanel';
+import { AdminChallengesPanel } from './AdminChallengesPanel';
+import { AdminDailyPanel } from './AdminDailyPanel';
+import { AdminCollectionsPanel } from './AdminCollectionsPanel';
+import { AdminRegionsPanel } from './AdminRegionsPanel';
+import { AdminImportPanel } from './AdminImportPanel';
+import { AdminImagesPanel } from './AdminImagesPanel';
 
 export const AdminDashboard: React.FC = () => {
   const [stats, setStats] = useState<AdminDashboardStats | null>(null);
@@ -232,7 +244,7 @@ export const AdminDashboard: React.FC = () => {
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 h-auto bg-white shadow-sm border border-gray-200">
+          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-12 h-auto bg-white shadow-sm border border-gray-200">
             <TabsTrigger value="overview" className="flex items-center gap-2 data-[state=active]:bg-brand data-[state=active]:text-white">
               <BarChart3 className="h-4 w-4" />
               Overview
@@ -253,6 +265,30 @@ export const AdminDashboard: React.FC = () => {
               <ImageIcon className="h-4 w-4" />
               Submissions
             </TabsTrigger>
+            <TabsTrigger value="images" className="flex items-center gap-2 data-[state=active]:bg-brand data-[state=active]:text-white">
+              <Images className="h-4 w-4" />
+              Images
+            </TabsTrigger>
+            <TabsTrigger value="challenges" className="flex items-center gap-2 data-[state=active]:bg-brand data-[state=active]:text-white">
+              <Flag className="h-4 w-4" />
+              Challenges
+            </TabsTrigger>
+            <TabsTrigger value="daily" className="flex items-center gap-2 data-[state=active]:bg-brand data-[state=active]:text-white">
+              <CalendarDays className="h-4 w-4" />
+              Daily
+            </TabsTrigger>
+            <TabsTrigger value="collections" className="flex items-center gap-2 data-[state=active]:bg-brand data-[state=active]:text-white">
+              <Library className="h-4 w-4" />
+              Collections
+            </TabsTrigger>
+            <TabsTrigger value="regions" className="flex items-center gap-2 data-[state=active]:bg-brand data-[state=active]:text-white">
+              <MapPinned className="h-4 w-4" />
+              Regions
+            </TabsTrigger>
+            <TabsTrigger value="import" className="flex items-center gap-2 data-[state=active]:bg-brand data-[state=active]:text-white">
+              <FileUp className="h-4 w-4" />
+              Import
+            </TabsTrigger>
             <TabsTrigger value="settings" className="flex items-center gap-2 data-[state=active]:bg-brand data-[state=active]:text-white">
               <Settings className="h-4 w-4" />
               Settings
@@ -344,6 +380,30 @@ export const AdminDashboard: React.FC = () => {
             <AdminSubmissionsPanel />
           </TabsContent>
 
+          <TabsContent value="images">
+            <AdminImagesPanel />
+          </TabsContent>
+
+          <TabsContent value="challenges">
+            <AdminChallengesPanel />
+          </TabsContent>
+
+          <TabsContent value="daily">
+            <AdminDailyPanel />
+          </TabsContent>
+
+          <TabsContent value="collections">
+            <AdminCollectionsPanel />
+          </TabsContent>
+
+          <TabsContent value="regions">
+            <AdminRegionsPanel />
+          </TabsContent>
+
+          <TabsContent value="import">
+            <AdminImportPanel />
+          </TabsContent>
+
           <TabsContent value="settings">
             <AdminSettingsPanel />
           </TabsContent>
@@ -0,0 +1,578 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import MapSelector from '@/components/MapSelector';
+import { toast } from 'sonner';
+import { Archive, ArchiveRestore, ChevronDown, ChevronUp, Fingerprint, Images, RefreshCw, Search, Trash2 } from 'lucide-react';
+import { AdminService } from '@/services/adminService';
+import { hashImagesInBatches } from '@/services/imageHashService';
+import { listAllRegions } from '@/services/regionService';
+import { GAME_CONSTANTS } from '@/constants/gameConstants';
+import { convertGoogleDriveUrl } from '@/utils/gameUtils';
+import { countTags } from '@/utils/imageCollections';
+import { DIFFICULTY_LABELS, DIFFICULTY_TIERS } from '@/utils/imageDifficulty';
+import {
+  CATALOGUE_SORT_LABELS,
+  DEFAULT_CATALOGUE_FILTERS,
+  IMAGE_STATUS_LABELS,
+  countByStatus,
+  filterCatalogue,
+  sortCatalogue,
+  type CatalogueFilters,
+  type CatalogueSort,
+} from '@/utils/imageCatalogue';
+import type { AdminCatalogueImage, AdminImageUsage } from '@/types/admin';
+import type { GameRegion, ImageStatus } from '@/types/game';
+
+// Rows rendered at a time; the catalogue runs to thousands of photos
+const PAGE_SIZE = 50;
+// Radix selects can't hold an empty value, so "no filter" is this
+const ANY = 'any';
+
+const STATUS_BADGES: Record<ImageStatus, string> = {
+  active: 'bg-green-100 text-green-800 hover:bg-green-100',
+  retired: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  deleted: 'bg-gray-200 text-gray-700 hover:bg-gray-200',
+};
+
+const formatNumber = (value: number | null, digits = 0) =>
+  value === null ? '—' : value.toLocaleString('en-US', { maximumFractionDigits: digits });
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString() : '—');
+
+interface ImageEditorProps {
+  image: AdminCatalogueImage;
+  onChanged: (image: AdminCatalogueImage) => void;
+}
+
+/** The expanded row: edit year, place and description, see how the photo
+ *  plays, and retire, delete or restore it. */
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, onChanged }) => {
+  const [year, setYear] = useState(String(image.year));
+  const [locationName, setLocationName] = useState(image.location_name);
+  const [description, setDescription] = useState(image.description);
+  const [coords, setCoords] = useState({ lat: image.location_lat, lng: image.location_lng });
+  const [usage, setUsage] = useState<AdminImageUsage | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    AdminService.getImageUsage(image.id)
+      .then((data) => !cancelled && setUsage(data))
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Could not load usage'));
+    return () => {
+      cancelled = true;
+    };
+  }, [image.id]);
+
+  const parsedYear = parseInt(year, 10);
+  const yearValid =
+    parsedYear >= GAME_CONSTANTS.YEAR_RANGE.MIN && parsedYear <= GAME_CONSTANTS.YEAR_RANGE.MAX;
+  const dirty =
+    parsedYear !== image.year ||
+    locationName !== image.location_name ||
+    description !== image.description ||
+    coords.lat !== image.location_lat ||
+    coords.lng !== image.location_lng;
+
+  const handleSave = async () => {
+    if (!yearValid || !locationName.trim()) return;
+    setSaving(true);
+    try {
+      await AdminService.updateImage(image.id, {
+        year: parsedYear,
+        lat: coords.lat,
+        lng: coords.lng,
+        locationName: locationName.trim(),
+        description: description.trim(),
+      });
+      toast.success('Image saved');
+      onChanged({
+        ...image,
+        year: parsedYear,
+        location_lat: coords.lat,
+        location_lng: coords.lng,
+        location_name: locationName.trim(),
+        description: description.trim(),
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not save the image');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatus = async (status: ImageStatus) => {
+    setSaving(true);
+    try {
+      await AdminService.setImageStatus(image.id, status);
+      toast.success(
+        status === 'active' ? 'Image restored to the pool' : `Image ${IMAGE_STATUS_LABELS[status].toLowerCase()}`
+      );
+      onChanged({ ...image, status, status_changed_at: new Date().toISOString() });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not change the status');
+    } finally {
+      setSaving(false);
+      setConfirmDelete(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-3 bg-gray-50 border-t border-gray-100">
+      <div className="space-y-3">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor={`year-${image.id}`}>Year</Label>
+            <Input
+              id={`year-${image.id}`}
+              type="number"
+              value={year}
+              min={GAME_CONSTANTS.YEAR_RANGE.MIN}
+              max={GAME_CONSTANTS.YEAR_RANGE.MAX}
+              onChange={(e) => setYear(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5 col-span-2">
+            <Label htmlFor={`name-${image.id}`}>Location name</Label>
+            <Input
+              id={`name-${image.id}`}
+              value={locationName}
+              onChange={(e) => setLocationName(e.target.value)}
+            />
+          </div>
+        </div>
+        {!yearValid && (
+          <p className="text-xs text-brand">
+            Year must be between {GAME_CONSTANTS.YEAR_RANGE.MIN} and {GAME_CONSTANTS.YEAR_RANGE.MAX}.
+          </p>
+        )}
+        <div className="space-y-1.5">
+          <Label htmlFor={`desc-${image.id}`}>Description</Label>
+          <Textarea
+            id={`desc-${image.id}`}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label>
+            Location{' '}
+            <span className="text-gray-500 font-normal">
+              ({coords.lat.toFixed(4)}, {coords.lng.toFixed(4)}) — click the map to move the pin
+            </span>
+          </Label>
+          <div className="h-56 rounded-lg overflow-hidden">
+            <MapSelector
+              onLocationSelected={(lat, lng) => setCoords({ lat, lng })}
+              guessedLocation={coords}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          <Button
+            onClick={handleSave}
+            disabled={!dirty || !yearValid || !locationName.trim() || saving}
+            className="bg-brand hover:bg-brand-dark text-white"
+          >
+            {saving ? 'Saving…' : 'Save changes'}
+          </Button>
+          {image.status === 'active' ? (
+            <Button onClick={() => handleStatus('retired')} disabled={saving} variant="outline">
+              <Archive className="h-4 w-4 mr-2" />
+              Retire
+            </Button>
+          ) : (
+            <Button onClick={() => handleStatus('active')} disabled={saving} variant="outline">
+              <ArchiveRestore className="h-4 w-4 mr-2" />
+              Restore
+            </Button>
+          )}
+          {image.status !== 'deleted' && (
+            <Button onClick={() => setConfirmDelete(true)} disabled={saving} variant="outline">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <img
+          src={convertGoogleDriveUrl(image.image_url)}
+          alt={image.location_name}
+          className="w-full max-h-64 object-contain rounded-lg bg-gray-100"
+        />
+        {usage === null ? (
+          <div className="h-32 bg-gray-100 rounded-lg animate-pulse" />
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+            {[
+              { label: 'Rounds played', value: formatNumber(usage.rounds) },
+              { label: 'Players', value: formatNumber(usage.players) },
+              { label: 'Avg score', value: formatNumber(usage.avg_score) },
+              { label: 'Best / worst', value: `${formatNumber(usage.best_score)} / ${formatNumber(usage.worst_score)}` },
+              { label: 'Avg year error', value: formatNumber(usage.avg_year_error, 1) },
+              {
+                label: 'Exact years',
+                value: usage.exact_year_rate === null ? '—' : `${Math.round(usage.exact_year_rate * 100)}%`,
+              },
+              { label: 'Avg distance', value: usage.avg_distance_km === null ? '—' : `${formatNumber(usage.avg_distance_km)} km` },
+              { label: 'First played', value: formatDate(usage.first_played_at) },
+              { label: 'Last played', value: formatDate(usage.last_played_at) },
+              { label: 'Daily challenges', value: formatNumber(usage.daily_challenges) },
+              { label: 'Custom challenges', value: formatNumber(usage.custom_challenges) },
+              { label: 'Collections', value: formatNumber(usage.collections) },
+            ].map((item) => (
+              <div key={item.label} className="p-2 bg-white rounded-lg border border-gray-100">
+                <div className="font-semibold text-gray-800">{item.value}</div>
+                <div className="text-gray-500 text-xs">{item.label}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        {image.status !== 'active' && (
+          <p className="text-xs text-gray-500">
+            {IMAGE_STATUS_LABELS[image.status]} {formatDate(image.status_changed_at)}. It is no longer
+            dealt in new games; past games, dailies and challenges still show it.
+          </p>
+        )}
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this image?</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{image.location_name}” will be hidden from the catalogue and never dealt again. Its
+              play history is kept, and it can be restored from the Deleted filter.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleStatus('deleted')}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export const AdminImagesPanel: React.FC = () => {
+  const [images, setImages] = useState<AdminCatalogueImage[]>([]);
+  const [regions, setRegions] = useState<GameRegion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<CatalogueFilters>(DEFAULT_CATALOGUE_FILTERS);
+  const [sort, setSort] = useState<CatalogueSort>('recent');
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [hashing, setHashing] = useState<{ done: number; total: number } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [catalogue, regionList] = await Promise.all([
+        AdminService.getImageCatalogue(),
+        listAllRegions(),
+      ]);
+      setImages(catalogue);
+      setRegions(regionList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the image catalogue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const statusCounts = useMemo(() => countByStatus(images), [images]);
+  const tagCounts = useMemo(() => countTags(images), [images]);
+  const visible = useMemo(
+    () => sortCatalogue(filterCatalogue(images, filters, regions), sort),
+    [images, filters, regions, sort]
+  );
+
+  const updateFilters = (patch: Partial<CatalogueFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setShown(PAGE_SIZE);
+  };
+
+  const parseYear = (value: string) => (value.trim() === '' ? null : parseInt(value, 10) || null);
+
+  const handleChanged = (updated: AdminCatalogueImage) =>
+    setImages((prev) => prev.map((img) => (img.id === updated.id ? updated : img)));
+
+  const unhashed = useMemo(
+    () => images.filter((img) => img.perceptual_hash === null && img.status !== 'deleted'),
+    [images]
+  );
+
+  // The server can't fetch images, so they are hashed here in the browser
+  const handleHashImages = async () => {
+    const queue = unhashed;
+    setHashing({ done: 0, total: queue.length });
+    try {
+      const { saved, failed } = await hashImagesInBatches(
+        queue,
+        async (batch) => {
+          const updated = await AdminService.setImageHashes(batch);
+          const hashes = new Map(batch.map((entry) => [entry.id, entry.hash]));
+          setImages((prev) =>
+            prev.map((img) => (hashes.has(img.id) ? { ...img, perceptual_hash: hashes.get(img.id)! } : img))
+          );
+          return updated;
+        },
+        (done) => setHashing({ done, total: queue.length })
+      );
+      if (failed > 0) {
+        toast.warning(`Hashed ${saved} images; ${failed} couldn't be loaded for hashing`);
+      } else {
+        toast.success(`Hashed ${saved} images`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save image hashes');
+    } finally {
+      setHashing(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200">
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Images className="h-5 w-5 text-brand" />
+            Image Catalogue
+          </CardTitle>
+          <div className="flex gap-2">
+            {unhashed.length > 0 && (
+              <Button onClick={handleHashImages} variant="outline" size="sm" disabled={hashing !== null}>
+                <Fingerprint className="h-4 w-4 mr-2" />
+                {hashing
+                  ? `Hashing ${hashing.done}/${hashing.total}...`
+                  : `Hash ${unhashed.length} images for duplicate checks`}
+              </Button>
+            )}
+            <Button onClick={load} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="relative sm:col-span-2">
+            <Search className="h-4 w-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <Input
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              placeholder="Search place, description, year, tag or id"
+              className="pl-8"
+            />
+          </div>
+          <Select
+            value={filters.status}
+            onValueChange={(status) => updateFilters({ status: status as CatalogueFilters['status'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="current">
+                Active and retired ({statusCounts.active + statusCounts.retired})
+              </SelectItem>
+              {(Object.keys(IMAGE_STATUS_LABELS) as ImageStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {IMAGE_STATUS_LABELS[status]} ({statusCounts[status]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sort} onValueChange={(value) => setSort(value as CatalogueSort)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CATALOGUE_SORT_LABELS) as CatalogueSort[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {CATALOGUE_SORT_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              placeholder="From year"
+              value={filters.yearFrom ?? ''}
+              onChange={(e) => updateFilters({ yearFrom: parseYear(e.target.value) })}
+            />
+            <Input
+              type="number"
+              placeholder="To year"
+              value={filters.yearTo ?? ''}
+              onChange={(e) => updateFilters({ yearTo: parseYear(e.target.value) })}
+            />
+          </div>
+          <Select
+            value={filters.regionId ?? ANY}
+            onValueChange={(id) => updateFilters({ regionId: id === ANY ? null : id })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any region</SelectItem>
+              {regions.map((region) => (
+                <SelectItem key={region.id} value={region.id}>
+                  {region.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.tag ?? ANY}
+            onValueChange={(tag) => updateFilters({ tag: tag === ANY ? null : tag })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any tag</SelectItem>
+              {tagCounts.map(({ tag, count }) => (
+                <SelectItem key={tag} value={tag}>
+                  {tag} ({count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.difficulty ?? ANY}
+            onValueChange={(value) =>
+              updateFilters({ difficulty: value === ANY ? null : (value as CatalogueFilters['difficulty']) })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any difficulty</SelectItem>
+              {DIFFICULTY_TIERS.map((tier) => (
+                <SelectItem key={tier} value={tier}>
+                  {DIFFICULTY_LABELS[tier].name}
+                </SelectItem>
+              ))}
+              <SelectItem value="unrated">Unrated</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>
+            {visible.length} of {images.length} photos
+          </span>
+          <Button
+            onClick={() => {
+              setFilters(DEFAULT_CATALOGUE_FILTERS);
+              setShown(PAGE_SIZE);
+            }}
+            variant="ghost"
+            size="sm"
+          >
+            Clear filters
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-14 bg-gray-100 rounded-lg" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-brand font-medium mb-3">{error}</p>
+            <Button onClick={load} variant="outline" size="sm">
+              Retry
+            </Button>
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No photos match.</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y">
+            {visible.slice(0, shown).map((img) => (
+              <div key={img.id}>
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expandedId === img.id ? null : img.id)}
+                  className="w-full flex items-center gap-3 p-2 text-left hover:bg-gray-50"
+                >
+                  <img
+                    src={convertGoogleDriveUrl(img.image_url)}
+                    alt=""
+                    loading="lazy"
+                    className="h-10 w-14 object-cover rounded"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800 truncate">{img.location_name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {img.year} · {img.difficulty ? DIFFICULTY_LABELS[img.difficulty].name : 'Unrated'} ·{' '}
+                      {img.difficulty_rounds} rounds
+                      {img.tags.length > 0 && ` · ${img.tags.join(', ')}`}
+                    </p>
+                  </div>
+                  {img.status !== 'active' && (
+                    <Badge className={STATUS_BADGES[img.status]}>{IMAGE_STATUS_LABELS[img.status]}</Badge>
+                  )}
+                  {expandedId === img.id ? (
+                    <ChevronUp className="h-4 w-4 text-gray-400" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4 text-gray-400" />
+                  )}
+                </button>
+                {expandedId === img.id && <ImageEditor image={img} onChanged={handleChanged} />}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!loading && visible.length > shown && (
+          <div className="text-center">
+            <Button onClick={() => setShown(shown + PAGE_SIZE)} variant="outline" size="sm">
+              Show more ({visible.length - shown} left)
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
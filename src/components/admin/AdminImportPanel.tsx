@@ -0,0 +1,387 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Download, FileUp, FlaskConical, Upload } from 'lucide-react';
+import { AdminService } from '@/services/adminService';
+import { hashImagesInBatches } from '@/services/imageHashService';
+import { handleNewImagesAdded } from '@/utils/adminUtils';
+import {
+  MANIFEST_COLUMNS,
+  MANIFEST_LIMITS,
+  describeDuplicate,
+  detectManifestFormat,
+  findManifestDuplicates,
+  parseManifest,
+  serializeManifest,
+  type ManifestFormat,
+  type ManifestRow,
+} from '@/utils/imageManifest';
+import type { AdminImportResult, AdminImportRowResult } from '@/types/admin';
+
+type RowStatus = AdminImportRowResult['status'];
+
+interface ReportRow {
+  line: number;
+  label: string;
+  status: RowStatus | 'pending'; // pending: passed the file checks, not yet dry-run
+  messages: string[];
+}
+
+const STATUS_BADGES: Record<ReportRow['status'], { label: string; className: string }> = {
+  pending: { label: 'Checked', className: 'bg-gray-100 text-gray-700' },
+  ok: { label: 'Ready', className: 'bg-green-100 text-green-800' },
+  inserted: { label: 'Imported', className: 'bg-green-100 text-green-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800' },
+  duplicate: { label: 'Duplicate', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const rowLabel = (row: ManifestRow) =>
+  row.entry ? `${row.entry.location_name} (${row.entry.year})` : '—';
+
+// The file's own checks first; the server's verdict replaces them once a dry
+// run (or the import) has come back
+const buildReport = (rows: ManifestRow[], result: AdminImportResult | null): ReportRow[] => {
+  const localDuplicates = findManifestDuplicates(rows, []);
+  const serverRows = new Map(result?.rows.map(row => [row.line, row]));
+
+  return rows.map(row => {
+    const server = serverRows.get(row.line);
+    if (server) {
+      return {
+        line: row.line,
+        label: rowLabel(row),
+        status: server.status,
+        messages: server.duplicate
+          ? [describeDuplicate({ kind: server.duplicate.kind, line: server.duplicate.line, imageId: server.duplicate.image_id })]
+          : server.errors,
+      };
+    }
+    const duplicate = localDuplicates.get(row.line);
+    return {
+      line: row.line,
+      label: rowLabel(row),
+      status: row.errors.length ? 'invalid' : duplicate ? 'duplicate' : 'pending',
+      messages: duplicate ? [describeDuplicate(duplicate)] : row.errors,
+    };
+  });
+};
+
+const downloadFile = (contents: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const AdminImportPanel: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ManifestRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [result, setResult] = useState<AdminImportResult | null>(null);
+  const [running, setRunning] = useState<'dry-run' | 'import' | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [hashing, setHashing] = useState<{ done: number; total: number } | null>(null);
+  const [exporting, setExporting] = useState<ManifestFormat | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+
+  // Only rows that pass the file checks go to the server
+  const importRows = useMemo(
+    () => rows.flatMap(row => (row.entry ? [{ ...row.entry, line: row.line }] : [])),
+    [rows]
+  );
+  const report = useMemo(() => buildReport(rows, result), [rows, result]);
+  const counts = useMemo(() => {
+    const byStatus: Record<ReportRow['status'], number> = { pending: 0, ok: 0, inserted: 0, invalid: 0, duplicate: 0 };
+    report.forEach(row => byStatus[row.status]++);
+    return byStatus;
+  }, [report]);
+  const visibleReport = problemsOnly
+    ? report.filter(row => row.status === 'invalid' || row.status === 'duplicate')
+    : report;
+
+  const isDryRun = result?.dry_run === true;
+  const imported = result?.dry_run === false;
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setResult(null);
+    setProblemsOnly(false);
+    try {
+      const text = await file.text();
+      setRows(parseManifest(text, detectManifestFormat(file.name, text)));
+      setFileError(null);
+    } catch (err) {
+      setRows([]);
+      setFileError(err instanceof Error ? err.message : 'The file could not be read');
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (!importRows.length) return;
+    setRunning('dry-run');
+    try {
+      setResult(await AdminService.importImages(importRows));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'The dry run failed');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result?.dry_run) return;
+    setConfirming(false);
+    setRunning('import');
+    try {
+      const outcome = await AdminService.importImages(importRows, result.confirm_token);
+      setResult(outcome);
+      toast.success(`Imported ${outcome.inserted} photo${outcome.inserted === 1 ? '' : 's'}`);
+      // Give existing players' pools the new photos
+      const pools = await handleNewImagesAdded();
+      if (!pools.success) toast.error(pools.message);
+      await hashImported(outcome);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'The import failed');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  // Hash the new photos straight away so submissions are checked against
+  // them; any that can't be loaded are left to the Images tab backfill
+  const hashImported = async (outcome: AdminImportResult) => {
+    const urls = new Map(importRows.map(row => [row.line, row.image_url]));
+    const inserted = outcome.rows.flatMap(row =>
+      row.image_id ? [{ id: row.image_id, image_url: urls.get(row.line)! }] : []
+    );
+    if (inserted.length === 0) return;
+    setHashing({ done: 0, total: inserted.length });
+    try {
+      const { failed } = await hashImagesInBatches(
+        inserted,
+        batch => AdminService.setImageHashes(batch),
+        done => setHashing({ done, total: inserted.length })
+      );
+      if (failed > 0) {
+        toast.warning(`${failed} imported photo${failed === 1 ? '' : 's'} couldn't be hashed; hash them from the Images tab`);
+      }
+    } catch (err) {
+      toast.warning(
+        `${err instanceof Error ? err.message : 'Saving image hashes failed'}; hash the new photos from the Images tab`
+      );
+    } finally {
+      setHashing(null);
+    }
+  };
+
+  const handleExport = async (format: ManifestFormat) => {
+    setExporting(format);
+    try {
+      const entries = await AdminService.getImageManifest();
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(
+        serializeManifest(entries, format),
+        `smrutimap-images-${date}.${format}`,
+        format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json'
+      );
+      toast.success(`Exported ${entries.length} photos`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'The export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setRows([]);
+    setFileError(null);
+    setResult(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5 text-brand" />
+            Bulk Import
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="text-sm text-gray-600 space-y-1">
+            <p>
+              Upload a CSV or JSON manifest of up to {MANIFEST_LIMITS.MAX_ROWS} photos with the columns{' '}
+              <code className="text-xs bg-gray-100 px-1 rounded">{MANIFEST_COLUMNS.join(', ')}</code>.
+              Tags are optional and separated by semicolons in CSV.
+            </p>
+            <p>
+              Every row is checked, and a dry run compares it with the catalogue. Nothing is added
+              until you confirm the dry run.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3 flex-wrap">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} variant="outline" disabled={running !== null}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Choose manifest
+            </Button>
+            {fileName && <span className="text-sm text-gray-700 truncate">{fileName}</span>}
+            {fileName && (
+              <Button onClick={reset} variant="ghost" size="sm" disabled={running !== null}>
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {fileError && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{fileError}</p>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex items-center gap-2 flex-wrap text-sm">
+                <span className="text-gray-700 font-medium">{rows.length} rows:</span>
+                {(Object.keys(counts) as ReportRow['status'][])
+                  .filter(status => counts[status] > 0)
+                  .map(status => (
+                    <Badge key={status} variant="secondary" className={STATUS_BADGES[status].className}>
+                      {counts[status]} {STATUS_BADGES[status].label.toLowerCase()}
+                    </Badge>
+                  ))}
+                <label className="ml-auto flex items-center gap-2 text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={problemsOnly}
+                    onChange={(e) => setProblemsOnly(e.target.checked)}
+                  />
+                  Problems only
+                </label>
+              </div>
+
+              <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr className="text-left text-gray-600">
+                      <th className="p-2 font-medium w-16">Line</th>
+                      <th className="p-2 font-medium">Photo</th>
+                      <th className="p-2 font-medium w-28">Status</th>
+                      <th className="p-2 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {visibleReport.map(row => (
+                      <tr key={row.line}>
+                        <td className="p-2 text-gray-500">{row.line}</td>
+                        <td className="p-2 text-gray-800">{row.label}</td>
+                        <td className="p-2">
+                          <Badge variant="secondary" className={STATUS_BADGES[row.status].className}>
+                            {STATUS_BADGES[row.status].label}
+                          </Badge>
+                        </td>
+                        <td className="p-2 text-gray-600">{row.messages.join('; ')}</td>
+                      </tr>
+                    ))}
+                    {visibleReport.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="p-4 text-center text-gray-500">No problems found.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {!imported && (
+                <div className="flex gap-2 flex-wrap">
+                  <Button onClick={handleDryRun} disabled={running !== null || importRows.length === 0} variant="outline">
+                    <FlaskConical className="h-4 w-4 mr-2" />
+                    {running === 'dry-run' ? 'Checking…' : isDryRun ? 'Run dry run again' : 'Dry run'}
+                  </Button>
+                  <Button
+                    onClick={() => setConfirming(true)}
+                    disabled={running !== null || !isDryRun || counts.ok === 0}
+                    className="bg-brand hover:bg-brand-dark text-white"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {running === 'import' ? 'Importing…' : `Import ${counts.ok} photo${counts.ok === 1 ? '' : 's'}`}
+                  </Button>
+                </div>
+              )}
+
+              {hashing && (
+                <p className="text-sm text-gray-600">
+                  Hashing the new photos for duplicate checks… {hashing.done}/{hashing.total}
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5 text-brand" />
+            Export
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Download the whole catalogue in the manifest format above, ready to edit and import elsewhere.
+          </p>
+          <div className="flex gap-2">
+            {(['csv', 'json'] as const).map(format => (
+              <Button key={format} onClick={() => handleExport(format)} disabled={exporting !== null} variant="outline">
+                <Download className="h-4 w-4 mr-2" />
+                {exporting === format ? 'Exporting…' : `Export ${format.toUpperCase()}`}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Import {counts.ok} photos?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They go straight into the live game pool. Rows marked invalid or duplicate are skipped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleImport} className="bg-brand hover:bg-brand-dark text-white">
+              Import
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
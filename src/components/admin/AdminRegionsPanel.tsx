@@ -0,0 +1,432 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Eraser, MapPinned, Pencil, RefreshCw, Trash2, Undo2 } from 'lucide-react';
+import { getAllImages } from '@/data/sampleData';
+import { deleteRegion, listAllRegions, saveRegion, setRegionPublished } from '@/services/regionService';
+import { getPolygonBounds, getRegionImages, REGION_LIMITS } from '@/utils/gameRegions';
+import { isValidSlug, slugify } from '@/utils/imageCollections';
+import { loadMapProvider } from '@/utils/mapUtils';
+import type { GameMap } from '@/utils/mapProvider';
+import type { GameImage, GameRegion, RegionPoint } from '@/types/game';
+
+interface RegionForm {
+  id?: string;
+  name: string;
+  slug: string;
+  slugEdited: boolean;
+  description: string;
+  points: RegionPoint[];
+  isPublished: boolean;
+}
+
+const EMPTY_FORM: RegionForm = {
+  name: '',
+  slug: '',
+  slugEdited: false,
+  description: '',
+  points: [],
+  isPublished: true,
+};
+
+const formFromRegion = (region: GameRegion): RegionForm => ({
+  id: region.id,
+  name: region.name,
+  slug: region.slug,
+  slugEdited: true,
+  description: region.description ?? '',
+  points: region.polygon ?? [],
+  isPublished: region.is_published,
+});
+
+// Click-to-draw outline: every click on the map adds a point
+const OutlineMap: React.FC<{
+  points: RegionPoint[];
+  onAddPoint: (point: RegionPoint) => void;
+  fitKey: string | undefined; // re-fit the view when another region is loaded
+}> = ({ points, onAddPoint, fitKey }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<GameMap | null>(null);
+  const onAddPointRef = useRef(onAddPoint);
+  onAddPointRef.current = onAddPoint;
+  const [ready, setReady] = useState(false);
+
+  // Google Maps if it loads, the offline map otherwise
+  useEffect(() => {
+    let cancelled = false;
+    loadMapProvider().then((provider) => {
+      if (cancelled || !containerRef.current) return;
+      const map = provider.createMap(containerRef.current, {
+        center: { lat: 22, lng: 80 },
+        zoom: 4,
+        crosshair: true,
+      });
+      map.onClick((position) => {
+        onAddPointRef.current({
+          lat: Number(position.lat.toFixed(5)),
+          lng: Number(position.lng.toFixed(5)),
+        });
+      });
+      mapRef.current = map;
+      setReady(true);
+    });
+    return () => {
+      cancelled = true;
+      mapRef.current?.destroy();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!ready || !map || points.length === 0) return;
+    const outline = map.createPolygon(points, { color: '#b91c1c', weight: 2, fillOpacity: 0.12 });
+    return () => outline.remove();
+  }, [ready, points]);
+
+  useEffect(() => {
+    if (!ready || !fitKey || points.length < 2) return;
+    const { south, west, north, east } = getPolygonBounds(points);
+    mapRef.current?.smoothFitBounds(
+      [
+        { lat: south, lng: west },
+        { lat: north, lng: east },
+      ],
+      40
+    );
+    // Only when a different region is loaded, not on every added point
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ready, fitKey]);
+
+  return (
+    <div className="relative h-80 rounded-lg overflow-hidden border border-gray-200">
+      <div ref={containerRef} className="absolute inset-0" />
+      {!ready && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-50 text-sm text-gray-500">
+          Loading map…
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AdminRegionsPanel: React.FC = () => {
+  const [regions, setRegions] = useState<GameRegion[]>([]);
+  const [images, setImages] = useState<GameImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<RegionForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<GameRegion | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [list, pool] = await Promise.all([listAllRegions(), getAllImages()]);
+      setRegions(list);
+      setImages(pool);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load regions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const drawnCount = useMemo(
+    () =>
+      form.points.length < REGION_LIMITS.MIN_POINTS
+        ? 0
+        : getRegionImages({ ...getPolygonBounds(form.points), polygon: form.points }, images).length,
+    [form.points, images]
+  );
+
+  const addPoint = useCallback((point: RegionPoint) => {
+    setForm((prev) =>
+      prev.points.length >= REGION_LIMITS.MAX_POINTS ? prev : { ...prev, points: [...prev.points, point] }
+    );
+  }, []);
+
+  const slugValid = isValidSlug(form.slug);
+  const canSave =
+    form.name.trim().length > 0 &&
+    slugValid &&
+    form.points.length >= REGION_LIMITS.MIN_POINTS &&
+    !saving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      await saveRegion({
+        id: form.id,
+        name: form.name.trim(),
+        slug: form.slug,
+        description: form.description.trim() || undefined,
+        polygon: form.points,
+        isPublished: form.isPublished,
+      });
+      toast.success(form.id ? 'Region saved' : 'Region created');
+      setForm(EMPTY_FORM);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not save the region');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePublished = async (region: GameRegion) => {
+    setBusyId(region.id);
+    try {
+      await setRegionPublished(region.id, !region.is_published);
+      setRegions((prev) =>
+        prev.map((r) => (r.id === region.id ? { ...r, is_published: !region.is_published } : r))
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not update the region');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (region: GameRegion) => {
+    try {
+      await deleteRegion(region.id);
+      toast.success('Region deleted');
+      if (form.id === region.id) setForm(EMPTY_FORM);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not delete the region');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Pencil className="h-5 w-5 text-brand" />
+            {form.id ? 'Edit Region' : 'Draw a Region'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="region-name">Name</Label>
+              <Input
+                id="region-name"
+                value={form.name}
+                maxLength={REGION_LIMITS.MAX_NAME_LENGTH}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    name: e.target.value,
+                    slug: form.slugEdited ? form.slug : slugify(e.target.value),
+                  })
+                }
+                placeholder="Old Pune"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="region-slug">Slug</Label>
+              <Input
+                id="region-slug"
+                value={form.slug}
+                onChange={(e) =>
+                  setForm({ ...form, slug: e.target.value.toLowerCase(), slugEdited: true })
+                }
+              />
+              {form.slug !== '' && !slugValid && (
+                <p className="text-xs text-brand">Lowercase letters, digits and single dashes only.</p>
+              )}
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="region-description">Description (optional)</Label>
+              <Textarea
+                id="region-description"
+                value={form.description}
+                maxLength={280}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="region-published"
+                checked={form.isPublished}
+                onCheckedChange={(checked) => setForm({ ...form, isPublished: checked })}
+              />
+              <Label htmlFor="region-published">Published — players can pick it</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <p className="text-sm text-gray-600">
+                Click the map to outline the region — {form.points.length} point
+                {form.points.length === 1 ? '' : 's'}
+                {form.points.length >= REGION_LIMITS.MIN_POINTS && `, ${drawnCount} photos inside`}.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => setForm({ ...form, points: form.points.slice(0, -1) })}
+                  disabled={form.points.length === 0}
+                  variant="outline"
+                  size="sm"
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Undo
+                </Button>
+                <Button
+                  onClick={() => setForm({ ...form, points: [] })}
+                  disabled={form.points.length === 0}
+                  variant="outline"
+                  size="sm"
+                >
+                  <Eraser className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              </div>
+            </div>
+            <OutlineMap points={form.points} onAddPoint={addPoint} fitKey={form.id} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="bg-brand hover:bg-brand-dark text-white"
+            >
+              {saving ? 'Saving…' : form.id ? 'Save region' : 'Create region'}
+            </Button>
+            {form.id && (
+              <Button onClick={() => setForm(EMPTY_FORM)} variant="outline">
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <MapPinned className="h-5 w-5 text-brand" />
+              Regions
+              <span className="text-sm font-normal text-gray-500">({regions.length})</span>
+            </CardTitle>
+            <Button onClick={load} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-100 rounded-lg" />
+              ))}
+            </div>
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-brand font-medium mb-3">{error}</p>
+              <Button onClick={load} variant="outline" size="sm">
+                Retry
+              </Button>
+            </div>
+          ) : regions.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No regions yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {regions.map((r) => (
+                <div
+                  key={r.id}
+                  className="p-3 bg-gray-50 rounded-lg border border-gray-100 flex items-center justify-between gap-3 flex-wrap"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{r.name}</p>
+                    <div className="flex items-center gap-2 mt-1 flex-wrap text-xs text-gray-500">
+                      <Badge className="bg-gray-200 text-gray-700 hover:bg-gray-200">
+                        {r.is_preset ? 'Preset' : 'Drawn'}
+                      </Badge>
+                      <span>{getRegionImages(r, images).length} photos</span>
+                      <span>{r.slug}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`region-published-${r.id}`}
+                        checked={r.is_published}
+                        disabled={busyId === r.id}
+                        onCheckedChange={() => handleTogglePublished(r)}
+                      />
+                      <Label htmlFor={`region-published-${r.id}`} className="text-xs text-gray-600">
+                        {r.is_published ? 'Published' : 'Hidden'}
+                      </Label>
+                    </div>
+                    {!r.is_preset && (
+                      <>
+                        <Button onClick={() => setForm(formFromRegion(r))} variant="outline" size="sm">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button onClick={() => setDeleting(r)} variant="outline" size="sm">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(o) => !o && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete the region “{deleting?.name}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Games already played in it keep their scores. Hide it instead to keep it for later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && handleDelete(deleting)}
+              className="bg-brand hover:bg-brand-dark"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -11,23 +12,54 @@ import {
 } from '@/components/ui/dialog';
 import MapSelector from '@/components/MapSelector';
 import { toast } from 'sonner';
-import { MapPin, Calendar, User, Check, X } from 'lucide-react';
+import { MapPin, Calendar, User, Check, X, Plus, FileImage, Copy, HelpCircle } from 'lucide-react';
 import { AdminService } from '@/services/adminService';
+import { findSimilarImages, hashImageUrl, type HashedImage } from '@/services/imageHashService';
+import { convertGoogleDriveUrl } from '@/utils/gameUtils';
+import { findSimilarByHash, type HashMatch } from '@/utils/perceptualHash';
 import { GAME_CONSTANTS } from '@/constants/gameConstants';
+import AdminSubmissionThread from './AdminSubmissionThread';
+import {
+  IMAGE_HINT_KINDS,
+  IMAGE_HINT_LABELS,
+  MAX_HINT_LENGTH,
+  MAX_IMAGE_HINTS,
+  hintsFromSubmission,
+} from '@/utils/imageHints';
 import type { AdminPhotoSubmission } from '@/types/admin';
+import type { ImageHint, ImageHintKind } from '@/types/game';
 
 interface Props {
   submission: AdminPhotoSubmission | null;
+  otherSubmissions?: AdminPhotoSubmission[]; // checked for duplicates along with the catalogue
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onDone: () => void;
 }
 
-/** Full review modal: read the photo + clues, drop a pin to set coordinates,
- *  confirm year/name/description, then approve (publishes a game_images row)
- *  or reject with a reason. */
+interface DuplicateCheck {
+  hash: string | null; // null when the photo couldn't be hashed
+  images: HashMatch<HashedImage>[];
+  submissions: HashMatch<AdminPhotoSubmission>[];
+}
+
+const MatchLabel: React.FC<{ match: HashMatch<unknown> }> = ({ match }) => (
+  <span className={match.kind === 'duplicate' ? 'text-brand font-medium' : 'text-amber-700'}>
+    {match.kind === 'duplicate' ? 'Near-identical' : 'Similar'} · {match.distance} bits apart
+  </span>
+);
+
+// The status actions that first ask for a note
+type NoteAction = 'rejected' | 'needs_info';
+
+/** Full review modal: read the photo + clues, check it against likely
+ *  duplicates, drop a pin to set coordinates, confirm year/name/description,
+ *  turn the clues into player hints, then approve (publishes a game_images
+ *  row), ask the submitter for more information, or reject with a reason.
+ *  The thread below keeps the conversation and every change. */
 const AdminSubmissionReviewDialog: React.FC<Props> = ({
   submission,
+  otherSubmissions = [],
   open,
   onOpenChange,
   onDone,
@@ -36,9 +68,12 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
   const [year, setYear] = useState<number>(GAME_CONSTANTS.YEAR_RANGE.DEFAULT);
   const [description, setDescription] = useState('');
   const [coords, setCoords] = useState<{ lat: number; lng: number } | null>(null);
+  const [hints, setHints] = useState<ImageHint[]>([]);
   const [working, setWorking] = useState(false);
-  const [rejecting, setRejecting] = useState(false);
-  const [rejectReason, setRejectReason] = useState('');
+  const [noteAction, setNoteAction] = useState<NoteAction | null>(null);
+  const [actionNote, setActionNote] = useState('');
+  const [threadChanged, setThreadChanged] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateCheck | null>(null);
 
   // Seed the form from the submission each time a new one opens.
   useEffect(() => {
@@ -47,13 +82,48 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
     setLocationName(firstLine);
     setYear(submission.year_taken ?? GAME_CONSTANTS.YEAR_RANGE.DEFAULT);
     setDescription(submission.description || submission.clues_description || '');
-    setCoords(null);
-    setRejecting(false);
-    setRejectReason('');
+    // A GPS fix in the photo's metadata is a starting pin, not a final answer
+    setCoords(submission.photo_metadata?.embedded?.gps ?? null);
+    setHints(hintsFromSubmission(submission.clues_description, submission.year_taken));
+    setNoteAction(null);
+    setActionNote('');
+    setThreadChanged(false);
   }, [submission]);
 
+  // Older submissions have no stored hash, so hash the uploaded photo instead
+  useEffect(() => {
+    if (!submission) return;
+    let cancelled = false;
+    setDuplicates(null);
+    (async () => {
+      const hash = submission.perceptual_hash ?? (await hashImageUrl(submission.photo_url));
+      if (!hash) {
+        if (!cancelled) setDuplicates({ hash: null, images: [], submissions: [] });
+        return;
+      }
+      const images = await findSimilarImages(hash).catch(() => []);
+      const submissions = findSimilarByHash(
+        hash,
+        otherSubmissions.filter((other) => other.id !== submission.id),
+        (other) => other.perceptual_hash
+      );
+      if (!cancelled) setDuplicates({ hash, images, submissions });
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [submission, otherSubmissions]);
+
   if (!submission) return null;
 
+  const metadata = submission.photo_metadata?.embedded ?? null;
+  const prefilled = submission.photo_metadata?.prefilled ?? [];
+  const pinFromMetadata =
+    !!coords && !!metadata?.gps && coords.lat === metadata.gps.lat && coords.lng === metadata.gps.lng;
+
+  const updateHint = (index: number, patch: Partial<ImageHint>) =>
+    setHints(prev => prev.map((h, i) => (i === index ? { ...h, ...patch } : h)));
+
   const handleApprove = async () => {
     if (!coords) {
       toast.error('Click the map to set the location first');
@@ -68,6 +138,10 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
         lng: coords.lng,
         locationName,
         description,
+        // Blank rows are left out rather than rejected
+        hints: hints
+          .map(h => ({ ...h, text: h.text.trim() }))
+          .filter(h => h.text.length > 0),
       });
       toast.success('Approved and added to the game pool');
       onOpenChange(false);
@@ -79,29 +153,80 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
     }
   };
 
-  const handleReject = async () => {
+  const handleNoteAction = async () => {
+    if (!noteAction) return;
     setWorking(true);
     try {
-      await AdminService.setPhotoSubmissionStatus(submission.id, 'rejected', {
-        rejectionReason: rejectReason,
-      });
-      toast.success('Submission rejected');
+      await AdminService.setPhotoSubmissionStatus(
+        submission.id,
+        noteAction,
+        noteAction === 'rejected' ? { rejectionReason: actionNote } : { message: actionNote }
+      );
+      toast.success(noteAction === 'rejected' ? 'Submission rejected' : 'Asked the submitter for more information');
       onOpenChange(false);
       onDone();
     } catch (err) {
-      toast.error(err instanceof Error ? err.message : 'Could not reject');
+      toast.error(err instanceof Error ? err.message : 'Could not update the submission');
     } finally {
       setWorking(false);
     }
   };
 
+  // Comments and assignments leave the dialog open; refresh the list once it closes
+  const handleOpenChange = (next: boolean) => {
+    if (!next && threadChanged) onDone();
+    onOpenChange(next);
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Review submission</DialogTitle>
         </DialogHeader>
 
+        {duplicates && (duplicates.images.length > 0 || duplicates.submissions.length > 0) && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-amber-900">
+              <Copy className="h-4 w-4 shrink-0" />
+              Possible duplicates — compare before approving
+            </p>
+            {duplicates.images.slice(0, 4).map((match) => (
+              <div key={match.item.id} className="grid grid-cols-2 gap-3 text-xs">
+                <img src={submission.photo_url} alt="This submission" className="w-full h-32 object-contain bg-white rounded" />
+                <div className="space-y-1">
+                  <img
+                    src={convertGoogleDriveUrl(match.item.image_url)}
+                    alt={match.item.location_name}
+                    className="w-full h-32 object-contain bg-white rounded"
+                  />
+                  <p className="text-gray-700">
+                    In the game: {match.item.location_name}, {match.item.year}
+                  </p>
+                  <MatchLabel match={match} />
+                </div>
+              </div>
+            ))}
+            {duplicates.submissions.slice(0, 4).map((match) => (
+              <div key={match.item.id} className="grid grid-cols-2 gap-3 text-xs">
+                <img src={submission.photo_url} alt="This submission" className="w-full h-32 object-contain bg-white rounded" />
+                <div className="space-y-1">
+                  <img src={match.item.photo_url} alt="Other submission" className="w-full h-32 object-contain bg-white rounded" />
+                  <p className="text-gray-700">
+                    Submission by {match.item.submitter_name} ({match.item.status})
+                  </p>
+                  <MatchLabel match={match} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {duplicates?.hash === null && (
+          <p className="text-xs text-gray-500">
+            This photo couldn't be checked for duplicates (its host doesn't allow it).
+          </p>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Photo + submitter context */}
           <div className="space-y-3">
@@ -124,6 +249,9 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
                 <MapPin className="h-4 w-4 text-brand shrink-0 mt-0.5" />
                 <span className="whitespace-pre-wrap">
                   {submission.location_description || '—'}
+                  {prefilled.includes('locationDescription') && (
+                    <span className="text-gray-400"> (from metadata)</span>
+                  )}
                 </span>
               </p>
               <p className="flex items-center gap-2">
@@ -131,7 +259,8 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
                 {submission.year_taken ?? '—'}
                 {submission.year_confidence && (
                   <span className="text-gray-400">
-                    ({submission.year_confidence})
+                    ({submission.year_confidence}
+                    {prefilled.includes('yearTaken') && ', from metadata'})
                   </span>
                 )}
               </p>
@@ -141,6 +270,47 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
                   {submission.clues_description}
                 </p>
               )}
+              {metadata && (
+                <div className="pt-2 border-t border-gray-100 space-y-1">
+                  <p className="flex items-center gap-2 font-medium">
+                    <FileImage className="h-4 w-4 text-brand shrink-0" />
+                    Photo metadata
+                  </p>
+                  {metadata.date && (
+                    <p className="text-gray-500">
+                      Dated{' '}
+                      {[metadata.date.year, metadata.date.month, metadata.date.day]
+                        .filter((part) => part !== null)
+                        .join('-')}{' '}
+                      ({metadata.date.source})
+                    </p>
+                  )}
+                  {metadata.gps && (
+                    <p className="text-gray-500">
+                      GPS {metadata.gps.lat.toFixed(5)}, {metadata.gps.lng.toFixed(5)}
+                    </p>
+                  )}
+                  {metadata.place && <p className="text-gray-500">Place: {metadata.place}</p>}
+                  {metadata.camera && <p className="text-gray-500">Camera: {metadata.camera}</p>}
+                  {metadata.captions.map((caption) => (
+                    <p key={caption} className="text-gray-500 italic">“{caption}”</p>
+                  ))}
+                  {prefilled.includes('description') && (
+                    <p className="text-gray-400">The description was pre-filled from the caption.</p>
+                  )}
+                  <details className="text-xs text-gray-500">
+                    <summary className="cursor-pointer">All tags</summary>
+                    <dl className="mt-1 grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5">
+                      {Object.entries(metadata.raw).map(([name, value]) => (
+                        <React.Fragment key={name}>
+                          <dt className="font-medium">{name}</dt>
+                          <dd className="break-words">{value}</dd>
+                        </React.Fragment>
+                      ))}
+                    </dl>
+                  </details>
+                </div>
+              )}
             </div>
           </div>
 
@@ -177,12 +347,58 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
                 rows={3}
               />
             </div>
+            <div className="space-y-1.5">
+              <Label>Hints (revealed in this order, each costs points)</Label>
+              {hints.map((hint, i) => (
+                <div key={i} className="flex gap-2">
+                  <Select
+                    value={hint.kind}
+                    onValueChange={(kind) => updateHint(i, { kind: kind as ImageHintKind })}
+                  >
+                    <SelectTrigger className="w-28 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMAGE_HINT_KINDS.map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {IMAGE_HINT_LABELS[kind]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={hint.text}
+                    maxLength={MAX_HINT_LENGTH}
+                    onChange={(e) => updateHint(i, { text: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove hint"
+                    onClick={() => setHints(prev => prev.filter((_, j) => j !== i))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {hints.length < MAX_IMAGE_HINTS && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setHints(prev => [...prev, { kind: 'text', text: '' }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add hint
+                </Button>
+              )}
+            </div>
             <div className="space-y-1.5">
               <Label>
                 Pin the exact location{' '}
                 {coords ? (
                   <span className="text-emerald-600 font-medium">
                     ({coords.lat.toFixed(3)}, {coords.lng.toFixed(3)})
+                    {pinFromMetadata && ' from photo metadata — check it'}
                   </span>
                 ) : (
                   <span className="text-brand">— click the map</span>
@@ -198,45 +414,71 @@ const AdminSubmissionReviewDialog: React.FC<Props> = ({
           </div>
         </div>
 
+        <AdminSubmissionThread submission={submission} onChanged={() => setThreadChanged(true)} />
+
         {/* Actions */}
-        {rejecting ? (
+        {submission.status === 'approved' ? null : noteAction ? (
           <div className="space-y-3 border-t pt-4">
-            <Label htmlFor="reject-reason">Reason for rejection (optional)</Label>
+            <Label htmlFor="action-note">
+              {noteAction === 'rejected'
+                ? 'Reason for rejection (optional)'
+                : 'What do you need from the submitter?'}
+            </Label>
             <Textarea
-              id="reject-reason"
-              value={rejectReason}
-              onChange={(e) => setRejectReason(e.target.value)}
+              id="action-note"
+              value={actionNote}
+              onChange={(e) => setActionNote(e.target.value)}
               rows={2}
-              placeholder="Shared with no one — for your records"
+              placeholder={
+                noteAction === 'rejected'
+                  ? 'Shared with no one — for your records'
+                  : 'e.g. Which street was this taken on? Do you know the decade?'
+              }
             />
+            {noteAction === 'needs_info' && !submission.user_id && (
+              <p className="text-xs text-gray-500">
+                This was sent without an account, so it won't reach them; email{' '}
+                {submission.email || 'them'} as well.
+              </p>
+            )}
             <div className="flex justify-end gap-2">
               <Button
                 variant="outline"
-                onClick={() => setRejecting(false)}
+                onClick={() => setNoteAction(null)}
                 disabled={working}
               >
                 Back
               </Button>
               <Button
-                onClick={handleReject}
-                disabled={working}
+                onClick={handleNoteAction}
+                disabled={working || (noteAction === 'needs_info' && actionNote.trim() === '')}
                 className="bg-brand hover:bg-brand-dark"
               >
-                {working ? 'Rejecting…' : 'Confirm rejection'}
+                {working
+                  ? 'Saving…'
+                  : noteAction === 'rejected'
+                    ? 'Confirm rejection'
+                    : 'Send request'}
               </Button>
             </div>
           </div>
         ) : (
           <div className="flex justify-between items-center border-t pt-4">
-            <Button
-              variant="outline"
-              className="text-brand border-brand/30 hover:bg-brand/5"
-              onClick={() => setRejecting(true)}
-              disabled={working}
-            >
-              <X className="h-4 w-4 mr-2" />
-              Reject
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="text-brand border-brand/30 hover:bg-brand/5"
+                onClick={() => setNoteAction('rejected')}
+                disabled={working}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button variant="outline" onClick={() => setNoteAction('needs_info')} disabled={working}>
+                <HelpCircle className="h-4 w-4 mr-2" />
+                Ask for info
+              </Button>
+            </div>
             <Button
               onClick={handleApprove}
               disabled={working || !coords}
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { MessagesSquare, Send } from 'lucide-react';
+import { AdminService } from '@/services/adminService';
+import SubmissionStatusBadge from '@/components/SubmissionStatusBadge';
+import SubmissionTimeline from '@/components/SubmissionTimeline';
+import { MAX_COMMENT_LENGTH, validateComment } from '@/utils/submissionWorkflow';
+import type { AdminPhotoSubmission, AdminReviewer, PhotoSubmissionStatus, SubmissionEvent } from '@/types/admin';
+
+interface Props {
+  submission: AdminPhotoSubmission;
+  onChanged: () => void;
+}
+
+// Radix selects can't hold an empty value, so "no reviewer" is this
+const UNASSIGNED = 'unassigned';
+
+/** The review side of a submission: who is on it, its history and the
+ *  conversation with the submitter, plus internal notes between admins. */
+const AdminSubmissionThread: React.FC<Props> = ({ submission, onChanged }) => {
+  const [events, setEvents] = useState<SubmissionEvent[] | null>(null);
+  const [reviewers, setReviewers] = useState<AdminReviewer[]>([]);
+  const [assignee, setAssignee] = useState<string | null>(submission.assigned_to);
+  const [status, setStatus] = useState<PhotoSubmissionStatus>(submission.status);
+  const [comment, setComment] = useState('');
+  const [internal, setInternal] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  // Guest submissions have no account to read replies
+  const canMessageSubmitter = submission.user_id !== null;
+  const asNote = internal || !canMessageSubmitter;
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setEvents(await AdminService.getPhotoSubmissionEvents(submission.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not load the conversation');
+      setEvents([]);
+    }
+  }, [submission.id]);
+
+  useEffect(() => {
+    setEvents(null);
+    setAssignee(submission.assigned_to);
+    setStatus(submission.status);
+    setComment('');
+    setInternal(false);
+    loadEvents();
+  }, [submission, loadEvents]);
+
+  useEffect(() => {
+    AdminService.getReviewers()
+      .then(setReviewers)
+      .catch(() => setReviewers([]));
+  }, []);
+
+  const handleAssign = async (value: string) => {
+    const next = value === UNASSIGNED ? null : value;
+    setWorking(true);
+    try {
+      setStatus(await AdminService.assignPhotoSubmission(submission.id, next));
+      setAssignee(next);
+      await loadEvents();
+      onChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not assign');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const problem = validateComment(comment);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    setWorking(true);
+    try {
+      await AdminService.commentOnPhotoSubmission(submission.id, comment.trim(), asNote);
+      setComment('');
+      await loadEvents();
+      onChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not send');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center gap-3 flex-wrap">
+        <p className="flex items-center gap-2 font-medium text-gray-800">
+          <MessagesSquare className="h-4 w-4 text-brand" />
+          Review thread
+        </p>
+        <SubmissionStatusBadge status={status} />
+        <div className="ml-auto flex items-center gap-2">
+          <Label className="text-xs text-gray-500">Reviewer</Label>
+          <Select value={assignee ?? UNASSIGNED} onValueChange={handleAssign} disabled={working}>
+            <SelectTrigger className="w-44 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {reviewers.map((reviewer) => (
+                <SelectItem key={reviewer.user_id} value={reviewer.user_id}>
+                  {reviewer.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {events === null ? (
+        <div className="animate-pulse h-16 bg-gray-100 rounded-md" />
+      ) : (
+        <div className="max-h-64 overflow-y-auto pr-1">
+          <SubmissionTimeline events={events} viewer="admin" />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={2}
+          maxLength={MAX_COMMENT_LENGTH}
+          placeholder={
+            asNote
+              ? 'Note for other admins'
+              : 'Message to the submitter (shown in their profile)'
+          }
+        />
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <Checkbox
+              checked={asNote}
+              disabled={!canMessageSubmitter}
+              onCheckedChange={(checked) => setInternal(checked === true)}
+            />
+            Internal note
+            {!canMessageSubmitter && (
+              <span className="text-xs text-gray-400">(guest submission, no account to reply to)</span>
+            )}
+          </label>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleSend}
+            disabled={working || comment.trim() === ''}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {asNote ? 'Add note' : 'Send'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminSubmissionThread;
@@ -9,22 +9,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Image as ImageIcon, RefreshCw, MapPin, Calendar } from 'lucide-react';
+import { Image as ImageIcon, RefreshCw, MapPin, Calendar, UserCheck, MessageSquare } from 'lucide-react';
 import { AdminService } from '@/services/adminService';
+import { useAuth } from '@/hooks/useAuth';
+import { SUBMISSION_STATUS_LABELS } from '@/utils/submissionWorkflow';
+import SubmissionStatusBadge from '@/components/SubmissionStatusBadge';
 import AdminSubmissionReviewDialog from './AdminSubmissionReviewDialog';
 import type {
   AdminPhotoSubmission,
   PhotoSubmissionStatus,
 } from '@/types/admin';
 
-const STATUS_STYLES: Record<PhotoSubmissionStatus, string> = {
-  pending: 'bg-brand/10 text-brand',
-  reviewing: 'bg-amber-100 text-amber-700',
-  approved: 'bg-emerald-100 text-emerald-700',
-  rejected: 'bg-gray-200 text-gray-600',
-  needs_info: 'bg-blue-100 text-blue-700',
-};
-
 const FILTERS: Array<'all' | PhotoSubmissionStatus> = [
   'all',
   'pending',
@@ -34,11 +29,21 @@ const FILTERS: Array<'all' | PhotoSubmissionStatus> = [
   'needs_info',
 ];
 
+type ReviewerFilter = 'anyone' | 'me' | 'unassigned';
+
+const REVIEWER_FILTER_LABELS: Record<ReviewerFilter, string> = {
+  anyone: 'Any reviewer',
+  me: 'Assigned to me',
+  unassigned: 'Unassigned',
+};
+
 export const AdminSubmissionsPanel: React.FC = () => {
+  const { user } = useAuth();
   const [items, setItems] = useState<AdminPhotoSubmission[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<'all' | PhotoSubmissionStatus>('all');
+  const [reviewerFilter, setReviewerFilter] = useState<ReviewerFilter>('anyone');
   const [active, setActive] = useState<AdminPhotoSubmission | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
 
@@ -63,8 +68,12 @@ export const AdminSubmissionsPanel: React.FC = () => {
     setDialogOpen(true);
   };
 
-  const visible =
-    filter === 'all' ? items : items.filter((i) => i.status === filter);
+  const visible = items.filter(
+    (i) =>
+      (filter === 'all' || i.status === filter) &&
+      (reviewerFilter === 'anyone' ||
+        (reviewerFilter === 'me' ? i.assigned_to === user?.id : i.assigned_to === null))
+  );
   const pendingCount = items.filter(
     (i) => i.status === 'pending' || i.status === 'reviewing'
   ).length;
@@ -91,8 +100,23 @@ export const AdminSubmissionsPanel: React.FC = () => {
               </SelectTrigger>
               <SelectContent>
                 {FILTERS.map((f) => (
-                  <SelectItem key={f} value={f} className="capitalize">
-                    {f === 'all' ? 'All statuses' : f.replace('_', ' ')}
+                  <SelectItem key={f} value={f}>
+                    {f === 'all' ? 'All statuses' : SUBMISSION_STATUS_LABELS[f]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={reviewerFilter}
+              onValueChange={(v) => setReviewerFilter(v as ReviewerFilter)}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REVIEWER_FILTER_LABELS) as ReviewerFilter[]).map((f) => (
+                  <SelectItem key={f} value={f}>
+                    {REVIEWER_FILTER_LABELS[f]}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -122,9 +146,9 @@ export const AdminSubmissionsPanel: React.FC = () => {
           <div className="text-center py-10">
             <ImageIcon className="h-12 w-12 text-gray-300 mx-auto mb-4" />
             <p className="text-gray-500">
-              {filter === 'all'
+              {filter === 'all' && reviewerFilter === 'anyone'
                 ? 'No photo submissions yet.'
-                : `No ${filter.replace('_', ' ')} submissions.`}
+                : 'No submissions match these filters.'}
             </p>
           </div>
         ) : (
@@ -146,9 +170,13 @@ export const AdminSubmissionsPanel: React.FC = () => {
                   </div>
                   <div className="min-w-0 flex-1 flex flex-col">
                     <div className="flex items-center gap-2 flex-wrap">
-                      <Badge className={`${STATUS_STYLES[s.status]} capitalize`}>
-                        {s.status.replace('_', ' ')}
-                      </Badge>
+                      <SubmissionStatusBadge status={s.status} />
+                      {s.reply_waiting && (
+                        <Badge className="bg-blue-100 text-blue-700 gap-1">
+                          <MessageSquare className="h-3 w-3" />
+                          Reply waiting
+                        </Badge>
+                      )}
                       <span className="text-xs text-gray-500 truncate">
                         {s.submitter_name}
                       </span>
@@ -161,6 +189,20 @@ export const AdminSubmissionsPanel: React.FC = () => {
                       <Calendar className="h-3 w-3 shrink-0" />
                       {s.year_taken ?? '—'}
                     </p>
+                    <p className="text-xs text-gray-600 flex items-center gap-1 truncate">
+                      <UserCheck className="h-3 w-3 shrink-0" />
+                      {s.assignee_name ?? 'Unassigned'}
+                    </p>
+                    {s.last_status_change && (
+                      <p className="text-xs text-gray-400 truncate">
+                        {s.last_status_change.actor_role === 'submitter'
+                          ? 'Resubmitted'
+                          : SUBMISSION_STATUS_LABELS[s.last_status_change.to_status]}
+                        {s.last_status_change.actor_name && ` by ${s.last_status_change.actor_name}`}
+                        {' · '}
+                        {new Date(s.last_status_change.at).toLocaleDateString()}
+                      </p>
+                    )}
                     <div className="mt-auto pt-2">
                       <Button
                         size="sm"
@@ -185,6 +227,7 @@ export const AdminSubmissionsPanel: React.FC = () => {
 
       <AdminSubmissionReviewDialog
         submission={active}
+        otherSubmissions={items}
         open={dialogOpen}
         onOpenChange={setDialogOpen}
         onDone={load}
@@ -3,4 +3,10 @@ export { AdminUsersPanel } from './AdminUsersPanel';
 export { AdminAnalyticsPanel } from './AdminAnalyticsPanel';
 export { AdminSettingsPanel } from './AdminSettingsPanel';
 export { AdminFeedbackPanel } from './AdminFeedbackPanel';
-export { AdminSubmissionsPanel } from './AdminSubmissionsPanel'; 
\ No newline at end of file
+export { AdminSubmissionsPanel } from './AdminSubmissionsPanel';
+export { AdminChallengesPanel } from './AdminChallengesPanel';
+export { AdminDailyPanel } from './AdminDailyPanel';
+export { AdminCollectionsPanel } from './AdminCollectionsPanel';
+export { AdminRegionsPanel } from './AdminRegionsPanel';
+export { AdminImportPanel } from './AdminImportPanel';
+export { AdminImagesPanel } from './AdminImagesPanel';
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import type { ChallengeLeaderboardRow } from '@/services/challengeService';
+
+interface ChallengeLeaderboardProps {
+  rows: ChallengeLeaderboardRow[];
+  myId?: string;
+  loading?: boolean;
+}
+
+/** Ranked scores for one challenge; the signed-in player's row is highlighted. */
+const ChallengeLeaderboard: React.FC<ChallengeLeaderboardProps> = ({ rows, myId, loading }) => (
+  <div className="bg-white border-2 border-gray-200 rounded-2xl p-6">
+    <h2 className="flex items-center gap-2 text-lg font-bold text-gray-900 mb-4">
+      <Trophy className="h-5 w-5 text-brand" />
+      Leaderboard
+    </h2>
+    {loading ? (
+      <p className="text-sm text-gray-500">Loading scores…</p>
+    ) : rows.length === 0 ? (
+      <p className="text-sm text-gray-500">No one has finished this challenge yet. Be the first!</p>
+    ) : (
+      <ol className="space-y-2">
+        {rows.map((row, i) => (
+          <li
+            key={row.id}
+            className={`flex items-center gap-3 rounded-xl px-3 py-2 ${
+              row.id === myId ? 'bg-brand/10 border border-brand/30' : 'bg-gray-50'
+            }`}
+          >
+            <span className="w-6 text-right font-bold text-gray-500">{i + 1}</span>
+            {row.avatar_url ? (
+              <img src={row.avatar_url} alt="" className="h-8 w-8 rounded-full object-cover" />
+            ) : (
+              <div className="h-8 w-8 rounded-full bg-gray-200" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-gray-900 truncate">
+                {row.display_name || row.username}
+              </p>
+              {row.center && <p className="text-xs text-gray-500 truncate">{row.center}</p>}
+            </div>
+            <span className="font-bold text-gray-900">{row.score.toLocaleString()}</span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+export default ChallengeLeaderboard;
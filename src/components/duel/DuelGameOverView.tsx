@@ -5,6 +5,7 @@ import { Home, RotateCcw, Trophy } from 'lucide-react';
 import DuelHealthBar from './DuelHealthBar';
 import DuelResultsMap from './DuelResultsMap';
 import { PLAYER_PIN_COLORS } from './DuelResultsView';
+import { getDuelTeams, getGamesToWin } from '@/utils/duelFormats';
 import type {
   DuelInfo,
   DuelPlayer,
@@ -41,10 +42,14 @@ const DuelGameOverView: React.FC<DuelGameOverViewProps> = ({
   onPlayAgain,
   onHome,
 }) => {
-  const winner = players.find((p) => p.id === duel.winner_player_id) ?? null;
+  const isTeamDuel = duel.format === '2v2';
+  const teams = getDuelTeams(players, myId);
+  const winner = teams.find((t) => t.team === duel.winner_team) ?? null;
+  const myTeam = players.find((p) => p.id === myId)?.team;
   const cancelled = duel.status === 'cancelled';
-  const iWon = !!myId && winner?.id === myId;
-  const iLost = !!myId && !!winner && winner.id !== myId;
+  const iWon = !!myTeam && winner?.team === myTeam;
+  const iLost = !!myTeam && !!winner && winner.team !== myTeam;
+  const wins = isTeamDuel ? 'win' : 'wins';
 
   const headline = cancelled
     ? 'Duel cancelled'
@@ -53,21 +58,25 @@ const DuelGameOverView: React.FC<DuelGameOverViewProps> = ({
       : iLost
         ? 'Defeat'
         : winner
-          ? `${winner.display_name} wins!`
+          ? `${winner.name} ${wins}!`
           : 'Draw!';
 
+  const matchScore =
+    duel.best_of > 1 && winner
+      ? ` the match ${duel.game_wins[winner.team - 1]}–${duel.game_wins[2 - winner.team]}`
+      : '';
   const sub = cancelled
     ? 'The host closed this lobby.'
     : winner
-      ? `${winner.display_name} wins ${reasonText[duel.finish_reason ?? ''] ?? ''}`
+      ? `${winner.name} ${wins}${matchScore} ${reasonText[duel.finish_reason ?? ''] ?? ''}`
       : duel.finish_reason
         ? `Match ended ${reasonText[duel.finish_reason] ?? ''}`
         : '';
 
-  // Order columns: me first when I played, else join order.
-  const ordered = myId
-    ? [...players].sort((a, b) => (a.id === myId ? -1 : b.id === myId ? 1 : 0))
-    : players;
+  // Order columns: my team first (me leading) when I played, else by team.
+  const ordered = teams.flatMap((t) =>
+    [...t.players].sort((a, b) => (a.id === myId ? -1 : b.id === myId ? 1 : 0))
+  );
 
   const finalPins =
     finalRound?.guesses
@@ -103,13 +112,15 @@ const DuelGameOverView: React.FC<DuelGameOverViewProps> = ({
         {/* Final HP */}
         {players.length > 0 && (
           <div className="bg-white rounded-2xl border-2 border-gray-200 p-6 space-y-5">
-            {ordered.map((p) => (
+            {teams.map((t) => (
               <DuelHealthBar
-                key={p.id}
-                player={p}
+                key={t.team}
+                team={t}
                 maxHp={duel.starting_hp}
-                isMe={p.id === myId}
-                online={onlinePlayerIds.has(p.id)}
+                myId={myId}
+                onlinePlayerIds={onlinePlayerIds}
+                gamesWon={duel.game_wins[t.team - 1]}
+                gamesToWin={getGamesToWin(duel.best_of)}
               />
             ))}
           </div>
@@ -149,6 +160,9 @@ const DuelGameOverView: React.FC<DuelGameOverViewProps> = ({
                   return (
                     <tr key={r.round_number} className="border-t border-gray-100">
                       <td className="px-4 py-3 text-gray-700">
+                        {duel.best_of > 1 && (
+                          <span className="mr-2 text-xs text-gray-500">G{r.game_number}</span>
+                        )}
                         #{r.round_number}
                         {Number(r.multiplier) > 1 && (
                           <span className="ml-2 text-xs font-bold text-brand">
@@ -158,7 +172,9 @@ const DuelGameOverView: React.FC<DuelGameOverViewProps> = ({
                       </td>
                       {ordered.map((p) => {
                         const g = byPlayer.get(p.id);
-                        const won = r.winner_player_id === p.id;
+                        const won = isTeamDuel
+                          ? r.winner_team === p.team
+                          : r.winner_player_id === p.id;
                         return (
                           <td
                             key={p.id}
@@ -1,37 +1,43 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Crown } from 'lucide-react';
-import type { DuelPlayer } from '@/types/duel';
+import type { DuelTeamView } from '@/utils/duelFormats';
 
 interface DuelHealthBarProps {
-  player: DuelPlayer;
+  team: DuelTeamView;
   maxHp: number;
-  isMe?: boolean;
-  online?: boolean;
+  myId: string | null;
+  onlinePlayerIds: Set<string>;
   align?: 'left' | 'right';
+  /** Match progress pips, shown for best-of-3/5 matches. */
+  gamesWon?: number;
+  gamesToWin?: number;
 }
 
-/** Animated HP bar with a floating damage popup when health drops. */
+/** Animated HP bar for one side (a player, or a team sharing one pool) with
+ *  a floating damage popup when health drops. */
 const DuelHealthBar: React.FC<DuelHealthBarProps> = ({
-  player,
+  team,
   maxHp,
-  isMe = false,
-  online = true,
+  myId,
+  onlinePlayerIds,
   align = 'left',
+  gamesWon = 0,
+  gamesToWin = 1,
 }) => {
-  const pct = Math.max(0, Math.min(100, (player.hp / maxHp) * 100));
-  const prevHpRef = useRef(player.hp);
+  const pct = Math.max(0, Math.min(100, (team.hp / maxHp) * 100));
+  const prevHpRef = useRef(team.hp);
   const [damagePopup, setDamagePopup] = useState<{ amount: number; key: number } | null>(null);
 
   useEffect(() => {
-    const diff = prevHpRef.current - player.hp;
-    prevHpRef.current = player.hp;
+    const diff = prevHpRef.current - team.hp;
+    prevHpRef.current = team.hp;
     if (diff > 0) {
       setDamagePopup({ amount: diff, key: Date.now() });
       const t = window.setTimeout(() => setDamagePopup(null), 1800);
       return () => window.clearTimeout(t);
     }
-  }, [player.hp]);
+  }, [team.hp]);
 
   const barColor =
     pct > 50 ? 'bg-emerald-500' : pct > 25 ? 'bg-amber-500' : 'bg-brand';
@@ -42,17 +48,33 @@ const DuelHealthBar: React.FC<DuelHealthBarProps> = ({
       <div
         className={`flex items-center gap-2 mb-1 ${rightAligned ? 'flex-row-reverse' : ''}`}
       >
+        <div
+          className={`flex flex-col gap-0.5 min-w-0 ${rightAligned ? 'items-end' : 'items-start'}`}
+        >
+          {team.players.map((player) => {
+            const online = onlinePlayerIds.has(player.id);
+            return (
+              <div
+                key={player.id}
+                className={`flex items-center gap-2 min-w-0 ${rightAligned ? 'flex-row-reverse' : ''}`}
+              >
+                <span
+                  className={`inline-block w-2 h-2 rounded-full shrink-0 ${online ? 'bg-emerald-500' : 'bg-gray-300'}`}
+                  title={online ? 'Connected' : 'Disconnected'}
+                />
+                <span className="font-semibold text-gray-900 truncate max-w-[10rem]">
+                  {player.display_name}
+                  {player.id === myId && <span className="text-gray-400 font-normal"> (you)</span>}
+                </span>
+                {player.is_host && <Crown size={14} className="text-amber-500 shrink-0" />}
+              </div>
+            );
+          })}
+        </div>
         <span
-          className={`inline-block w-2 h-2 rounded-full ${online ? 'bg-emerald-500' : 'bg-gray-300'}`}
-          title={online ? 'Connected' : 'Disconnected'}
-        />
-        <span className="font-semibold text-gray-900 truncate max-w-[10rem]">
-          {player.display_name}
-          {isMe && <span className="text-gray-400 font-normal"> (you)</span>}
-        </span>
-        {player.is_host && <Crown size={14} className="text-amber-500 shrink-0" />}
-        <span className="font-space font-bold text-gray-900 ml-auto tabular-nums">
-          {player.hp.toLocaleString()}
+          className={`font-space font-bold text-gray-900 tabular-nums self-end ${rightAligned ? 'mr-auto' : 'ml-auto'}`}
+        >
+          {team.hp.toLocaleString()}
         </span>
       </div>
       <div className="h-4 w-full rounded-full bg-gray-200 overflow-hidden">
@@ -63,6 +85,21 @@ const DuelHealthBar: React.FC<DuelHealthBarProps> = ({
           transition={{ type: 'spring', stiffness: 120, damping: 20 }}
         />
       </div>
+      {gamesToWin > 1 && (
+        <div
+          className={`flex gap-1 mt-1.5 ${rightAligned ? 'justify-end' : ''}`}
+          aria-label={`${gamesWon} of ${gamesToWin} games won`}
+        >
+          {Array.from({ length: gamesToWin }, (_, i) => (
+            <span
+              key={i}
+              className={`inline-block w-2.5 h-2.5 rounded-full ${
+                i < gamesWon ? 'bg-brand' : 'bg-gray-200'
+              }`}
+            />
+          ))}
+        </div>
+      )}
       <AnimatePresence>
         {damagePopup && (
           <motion.span
@@ -1,13 +1,18 @@
 import React from 'react';
 import { Eye } from 'lucide-react';
 import DuelHealthBar from './DuelHealthBar';
-import type { DuelPlayer } from '@/types/duel';
+import { getDuelTeams, getGamesToWin } from '@/utils/duelFormats';
+import type { DuelGameWins, DuelInfo, DuelPlayer } from '@/types/duel';
 
 interface DuelHudProps {
+  duel: DuelInfo;
   players: DuelPlayer[];
   myId: string | null;
-  maxHp: number;
   roundNumber: number;
+  gameNumber: number;
+  /** Games won so far; defaults to the duel's (results pass the fresher
+   *  per-round value). */
+  gameWins?: DuelGameWins;
   multiplier: number;
   remainingMs: number | null;
   urgent?: boolean;
@@ -22,39 +27,44 @@ export const formatCountdown = (ms: number): string => {
   return `${m}:${String(s).padStart(2, '0')}`;
 };
 
-/** Top bar of a duel: my HP on the left, opponent's on the right, round
- *  number / damage multiplier / countdown in the middle. Spectators see the
- *  players in join order. */
+/** Top bar of a duel: my side's HP on the left, the other side's on the
+ *  right, game / round number / damage multiplier / countdown in the middle.
+ *  Spectators see team 1 on the left. */
 const DuelHud: React.FC<DuelHudProps> = ({
+  duel,
   players,
   myId,
-  maxHp,
   roundNumber,
+  gameNumber,
+  gameWins = duel.game_wins,
   multiplier,
   remainingMs,
   urgent = false,
   onlinePlayerIds,
   spectatorCount,
 }) => {
-  const left = myId ? players.find((p) => p.id === myId) : players[0];
-  const right = players.find((p) => p.id !== left?.id);
+  const [left, right] = getDuelTeams(players, myId);
+  const gamesToWin = getGamesToWin(duel.best_of);
 
   return (
     <div className="w-full bg-white/95 backdrop-blur border-b border-gray-200 px-3 sm:px-6 py-3">
       <div className="max-w-6xl mx-auto grid grid-cols-[1fr_auto_1fr] items-center gap-3 sm:gap-6">
-        {left ? (
-          <DuelHealthBar
-            player={left}
-            maxHp={maxHp}
-            isMe={left.id === myId}
-            online={onlinePlayerIds.has(left.id)}
-            align="left"
-          />
-        ) : (
-          <div />
-        )}
+        <DuelHealthBar
+          team={left}
+          maxHp={duel.starting_hp}
+          myId={myId}
+          onlinePlayerIds={onlinePlayerIds}
+          align="left"
+          gamesWon={gameWins[left.team - 1]}
+          gamesToWin={gamesToWin}
+        />
 
         <div className="flex flex-col items-center px-1 sm:px-4">
+          {duel.best_of > 1 && (
+            <span className="text-xs font-medium text-gray-500 whitespace-nowrap">
+              Game {gameNumber} · Best of {duel.best_of}
+            </span>
+          )}
           <div className="flex items-center gap-2 text-gray-900">
             <span className="font-space font-bold whitespace-nowrap">
               Round {roundNumber}
@@ -84,17 +94,15 @@ const DuelHud: React.FC<DuelHudProps> = ({
           )}
         </div>
 
-        {right ? (
-          <DuelHealthBar
-            player={right}
-            maxHp={maxHp}
-            isMe={right.id === myId}
-            online={onlinePlayerIds.has(right.id)}
-            align="right"
-          />
-        ) : (
-          <div />
-        )}
+        <DuelHealthBar
+          team={right}
+          maxHp={duel.starting_hp}
+          myId={myId}
+          onlinePlayerIds={onlinePlayerIds}
+          align="right"
+          gamesWon={gameWins[right.team - 1]}
+          gamesToWin={gamesToWin}
+        />
       </div>
     </div>
   );
@@ -10,12 +10,18 @@ import {
   Hourglass,
   Link2,
   LogOut,
+  Repeat,
   Swords,
+  Target,
   Timer,
+  Trophy,
+  Users,
   Zap,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import type { DuelInfo, DuelPlayer } from '@/types/duel';
+import { getScoringProfile } from '@/utils/scoringProfiles';
+import { getDuelTeamSize } from '@/utils/duelFormats';
 
 interface DuelLobbyProps {
   duel: DuelInfo;
@@ -26,6 +32,7 @@ interface DuelLobbyProps {
   onlinePlayerIds: Set<string>;
   spectatorCount: number;
   onStart: () => void;
+  onSwitchTeam: () => void;
   onLeave: () => void;
 }
 
@@ -38,11 +45,53 @@ const DuelLobby: React.FC<DuelLobbyProps> = ({
   onlinePlayerIds,
   spectatorCount,
   onStart,
+  onSwitchTeam,
   onLeave,
 }) => {
   const [copied, setCopied] = useState<'code' | 'link' | null>(null);
   const isSpectator = !myId;
-  const full = players.length >= 2;
+  const isTeamDuel = duel.format === '2v2';
+  const teamSize = getDuelTeamSize(duel.format);
+  const teamCount = (team: 1 | 2) => players.filter((p) => p.team === team).length;
+  const full = teamCount(1) >= teamSize && teamCount(2) >= teamSize;
+  const me = players.find((p) => p.id === myId);
+  const canSwitch = isTeamDuel && !!me && teamCount(me.team === 1 ? 2 : 1) < teamSize;
+
+  const playerRow = (p: DuelPlayer) => (
+    <motion.div
+      key={p.id}
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="flex items-center gap-3 bg-white border-2 border-gray-200 rounded-2xl px-5 py-4"
+    >
+      <span
+        className={`inline-block w-2.5 h-2.5 rounded-full ${
+          onlinePlayerIds.has(p.id) ? 'bg-emerald-500' : 'bg-gray-300'
+        }`}
+      />
+      <span className="text-lg font-semibold text-gray-900">
+        {p.display_name}
+        {p.id === myId && (
+          <span className="text-gray-400 font-normal"> (you)</span>
+        )}
+      </span>
+      {p.is_host && (
+        <span className="ml-auto flex items-center gap-1 text-amber-600 text-sm font-medium">
+          <Crown size={16} /> Host
+        </span>
+      )}
+    </motion.div>
+  );
+
+  const openSlot = (key: string, text: string) => (
+    <div
+      key={key}
+      className="flex items-center gap-3 border-2 border-dashed border-gray-300 rounded-2xl px-5 py-4 text-gray-500"
+    >
+      <Hourglass size={18} className="animate-pulse" />
+      {text}
+    </div>
+  );
 
   const copy = async (what: 'code' | 'link') => {
     const text =
@@ -73,8 +122,12 @@ const DuelLobby: React.FC<DuelLobbyProps> = ({
             {isSpectator
               ? "You're spectating — the duel will start when the host is ready"
               : full
-                ? 'Both duelists are here. Ready when you are!'
-                : 'Share the code below with your opponent'}
+                ? isTeamDuel
+                  ? 'Both teams are full. Ready when you are!'
+                  : 'Both duelists are here. Ready when you are!'
+                : isTeamDuel
+                  ? 'Share the code below with three other players'
+                  : 'Share the code below with your opponent'}
           </p>
         </div>
 
@@ -112,42 +165,50 @@ const DuelLobby: React.FC<DuelLobbyProps> = ({
         </div>
 
         {/* Players */}
-        <div className="space-y-3">
-          {players.map((p) => (
-            <motion.div
-              key={p.id}
-              initial={{ opacity: 0, y: 8 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="flex items-center gap-3 bg-white border-2 border-gray-200 rounded-2xl px-5 py-4"
-            >
-              <span
-                className={`inline-block w-2.5 h-2.5 rounded-full ${
-                  onlinePlayerIds.has(p.id) ? 'bg-emerald-500' : 'bg-gray-300'
-                }`}
-              />
-              <span className="text-lg font-semibold text-gray-900">
-                {p.display_name}
-                {p.id === myId && (
-                  <span className="text-gray-400 font-normal"> (you)</span>
+        {isTeamDuel ? (
+          <div className="space-y-5">
+            {([1, 2] as const).map((team) => (
+              <div key={team} className="space-y-3">
+                <h3 className="flex items-center gap-2 font-semibold text-gray-700">
+                  <Users size={16} className="text-brand" />
+                  Team {team}
+                </h3>
+                {players.filter((p) => p.team === team).map(playerRow)}
+                {Array.from({ length: Math.max(0, teamSize - teamCount(team)) }, (_, i) =>
+                  openSlot(`open-${team}-${i}`, 'Open slot')
                 )}
-              </span>
-              {p.is_host && (
-                <span className="ml-auto flex items-center gap-1 text-amber-600 text-sm font-medium">
-                  <Crown size={16} /> Host
-                </span>
-              )}
-            </motion.div>
-          ))}
-          {!full && (
-            <div className="flex items-center gap-3 border-2 border-dashed border-gray-300 rounded-2xl px-5 py-4 text-gray-500">
-              <Hourglass size={18} className="animate-pulse" />
-              Waiting for an opponent to join…
-            </div>
-          )}
-        </div>
+              </div>
+            ))}
+            {canSwitch && (
+              <div className="text-center">
+                <Button onClick={onSwitchTeam} variant="outline" className="rounded-xl border-2">
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Switch to team {me?.team === 1 ? 2 : 1}
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {players.map(playerRow)}
+            {!full && openSlot('open', 'Waiting for an opponent to join…')}
+          </div>
+        )}
 
         {/* Match settings */}
         <div className="flex flex-wrap gap-2 justify-center text-sm">
+          {isTeamDuel && (
+            <span className="inline-flex items-center gap-1.5 bg-gray-100 rounded-full px-3 py-1.5 text-gray-700">
+              <Users size={14} className="text-brand" />
+              2v2 · team {duel.team_damage === 'average' ? 'average' : 'best'} guess
+            </span>
+          )}
+          {duel.best_of > 1 && (
+            <span className="inline-flex items-center gap-1.5 bg-gray-100 rounded-full px-3 py-1.5 text-gray-700">
+              <Trophy size={14} className="text-brand" />
+              Best of {duel.best_of}
+            </span>
+          )}
           <span className="inline-flex items-center gap-1.5 bg-gray-100 rounded-full px-3 py-1.5 text-gray-700">
             <Heart size={14} className="text-brand" />
             {duel.starting_hp.toLocaleString()} HP
@@ -160,6 +221,10 @@ const DuelLobby: React.FC<DuelLobbyProps> = ({
             <Zap size={14} className="text-brand" />
             {duel.guess_window_seconds}s after first guess
           </span>
+          <span className="inline-flex items-center gap-1.5 bg-gray-100 rounded-full px-3 py-1.5 text-gray-700">
+            <Target size={14} className="text-brand" />
+            {getScoringProfile(duel.scoring_profile).name} scoring
+          </span>
           {spectatorCount > 0 && (
             <span className="inline-flex items-center gap-1.5 bg-gray-100 rounded-full px-3 py-1.5 text-gray-700">
               <Eye size={14} className="text-brand" />
@@ -179,7 +244,9 @@ const DuelLobby: React.FC<DuelLobbyProps> = ({
               ? 'Starting…'
               : full
                 ? 'Start Duel'
-                : 'Waiting for opponent…'}
+                : isTeamDuel
+                  ? 'Waiting for players…'
+                  : 'Waiting for opponent…'}
           </Button>
         )}
         {!isHost && !isSpectator && (
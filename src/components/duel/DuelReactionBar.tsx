@@ -0,0 +1,28 @@
+import React from 'react';
+import { DUEL_REACTIONS, type DuelReactionEmoji } from '@/utils/duelReactions';
+
+interface DuelReactionBarProps {
+  onReact: (emoji: DuelReactionEmoji) => void;
+}
+
+/** The fixed set of reactions a spectator can send. */
+const DuelReactionBar: React.FC<DuelReactionBarProps> = ({ onReact }) => (
+  <div
+    role="toolbar"
+    aria-label="Send a reaction"
+    className="fixed bottom-4 right-4 z-20 flex gap-1 bg-white/90 backdrop-blur border border-gray-200 rounded-full px-2 py-1.5 shadow-lg"
+  >
+    {DUEL_REACTIONS.map((emoji) => (
+      <button
+        key={emoji}
+        onClick={() => onReact(emoji)}
+        className="w-9 h-9 rounded-full text-xl hover:bg-gray-100 active:scale-90 transition-transform"
+        aria-label={`React ${emoji}`}
+      >
+        {emoji}
+      </button>
+    ))}
+  </div>
+);
+
+export default DuelReactionBar;
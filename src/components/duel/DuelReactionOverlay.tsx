@@ -0,0 +1,38 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { DuelReaction } from '@/hooks/useDuel';
+
+interface DuelReactionOverlayProps {
+  reactions: DuelReaction[];
+}
+
+// Horizontal lane for a reaction, stable per id so it doesn't jump on rerender.
+const laneFor = (id: string): number => {
+  let h = 0;
+  for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) >>> 0;
+  return 4 + (h % 20);
+};
+
+/** Spectator reactions drifting up the right edge of the screen. Purely
+ *  decorative: it never takes pointer events. */
+const DuelReactionOverlay: React.FC<DuelReactionOverlayProps> = ({ reactions }) => (
+  <div className="fixed inset-0 z-30 pointer-events-none overflow-hidden" aria-hidden="true">
+    <AnimatePresence>
+      {reactions.map((r) => (
+        <motion.span
+          key={r.id}
+          initial={{ opacity: 0, y: 0, scale: 0.6 }}
+          animate={{ opacity: [0, 1, 1, 0], y: -320, scale: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 2.8, ease: 'easeOut' }}
+          className="absolute bottom-24 text-4xl"
+          style={{ right: `${laneFor(r.id)}%` }}
+        >
+          {r.emoji}
+        </motion.span>
+      ))}
+    </AnimatePresence>
+  </div>
+);
+
+export default DuelReactionOverlay;
@@ -1,7 +1,8 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { GlobeIcon } from 'lucide-react';
-import { loadGoogleMapsScript, createOptimizedMap } from '@/utils/mapUtils';
+import { loadMapProvider } from '@/utils/mapUtils';
+import type { GameMap, MapLine, MapMarker } from '@/utils/mapProvider';
 
 export interface ResultPin {
   lat: number;
@@ -16,33 +17,34 @@ interface DuelResultsMapProps {
 }
 
 /** Read-only map for round results: the actual location (brand red) plus one
- *  pin per player, with geodesic lines from each guess to the answer. */
+ *  pin per player, with lines from each guess to the answer. */
 const DuelResultsMap: React.FC<DuelResultsMapProps> = ({ actual, pins }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const mapRef = useRef<google.maps.Map | null>(null);
-  const overlaysRef = useRef<(google.maps.Marker | google.maps.Polyline)[]>([]);
+  const mapRef = useRef<GameMap | null>(null);
+  const overlaysRef = useRef<(MapMarker | MapLine)[]>([]);
   // Parents rebuild `pins`/`actual` objects on every render (e.g. each
   // countdown tick); only redraw overlays when the underlying data changes,
   // otherwise the markers flicker.
   const appliedSigRef = useRef('');
   const [ready, setReady] = useState(false);
 
+  // Google Maps if it loads, the offline map otherwise
   useEffect(() => {
     let cancelled = false;
-    loadGoogleMapsScript()
-      .then(() => {
-        if (cancelled || !containerRef.current) return;
-        if (!mapRef.current) {
-          mapRef.current = createOptimizedMap(containerRef.current, {
-            center: actual,
-            zoom: 4,
-          });
-        }
-        setReady(true);
-      })
-      .catch((err) => console.error('Failed to load Google Maps:', err));
+    loadMapProvider().then((provider) => {
+      if (cancelled || !containerRef.current) return;
+      mapRef.current = provider.createMap(containerRef.current, {
+        center: actual,
+        zoom: 4,
+      });
+      setReady(true);
+    });
     return () => {
       cancelled = true;
+      overlaysRef.current.forEach((o) => o.remove());
+      overlaysRef.current = [];
+      mapRef.current?.destroy();
+      mapRef.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -59,70 +61,26 @@ const DuelResultsMap: React.FC<DuelResultsMapProps> = ({ actual, pins }) => {
     if (sig === appliedSigRef.current) return;
     appliedSigRef.current = sig;
 
-    overlaysRef.current.forEach((o) => o.setMap(null));
+    overlaysRef.current.forEach((o) => o.remove());
     overlaysRef.current = [];
 
-    const bounds = new google.maps.LatLngBounds();
-    bounds.extend(actual);
-
     overlaysRef.current.push(
-      new google.maps.Marker({
-        position: actual,
-        map,
-        title: 'Actual location',
-        zIndex: 20,
-        icon: {
-          path: google.maps.SymbolPath.CIRCLE,
-          scale: 12,
-          fillColor: '#ea384c',
-          fillOpacity: 1,
-          strokeWeight: 3,
-          strokeColor: '#ffffff',
-        },
-      })
+      map.createMarker(actual, { color: '#ea384c', title: 'Actual location', zIndex: 20 })
     );
 
     pins.forEach((pin, i) => {
-      bounds.extend({ lat: pin.lat, lng: pin.lng });
+      const position = { lat: pin.lat, lng: pin.lng };
       overlaysRef.current.push(
-        new google.maps.Marker({
-          position: { lat: pin.lat, lng: pin.lng },
-          map,
-          title: pin.label,
-          zIndex: 10 + i,
-          icon: {
-            path: google.maps.SymbolPath.CIRCLE,
-            scale: 10,
-            fillColor: pin.color,
-            fillOpacity: 1,
-            strokeWeight: 3,
-            strokeColor: '#ffffff',
-          },
-        })
+        map.createMarker(position, { color: pin.color, size: 10, title: pin.label, zIndex: 10 + i })
       );
       overlaysRef.current.push(
-        new google.maps.Polyline({
-          path: [{ lat: pin.lat, lng: pin.lng }, actual],
-          geodesic: true,
-          strokeColor: pin.color,
-          strokeOpacity: 0.75,
-          strokeWeight: 3,
-          map,
-        })
+        map.createPolyline([position, actual], { color: pin.color, opacity: 0.75, weight: 3 })
       );
     });
 
-    map.fitBounds(bounds, 60);
+    map.smoothFitBounds([actual, ...pins.map((pin) => ({ lat: pin.lat, lng: pin.lng }))], 60);
   }, [ready, actual, pins]);
 
-  useEffect(
-    () => () => {
-      overlaysRef.current.forEach((o) => o.setMap(null));
-      overlaysRef.current = [];
-    },
-    []
-  );
-
   return (
     <Card className="w-full h-full overflow-hidden">
       <div className="relative w-full h-full">
@@ -1,49 +1,55 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { MapPin, Swords } from 'lucide-react';
+import { MapPin, Swords, Trophy } from 'lucide-react';
 import DuelHud from './DuelHud';
 import DuelResultsMap from './DuelResultsMap';
 import { formatCountdown } from './DuelHud';
-import type { DuelPlayer, DuelRoundResults } from '@/types/duel';
+import { getDuelTeams } from '@/utils/duelFormats';
+import type { DuelInfo, DuelPlayer, DuelRoundResults } from '@/types/duel';
 
-export const PLAYER_PIN_COLORS = ['#3b82f6', '#f59e0b'];
+export const PLAYER_PIN_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#8b5cf6'];
 
 interface DuelResultsViewProps {
+  duel: DuelInfo;
   players: DuelPlayer[];
   myId: string | null;
-  maxHp: number;
   results: DuelRoundResults;
   resultsRemainingMs: number | null;
   onlinePlayerIds: Set<string>;
   spectatorCount: number;
 }
 
-/** Orders guesses so "me" is first for players; join order for spectators. */
+/** Orders guesses so "me" (then my teammate) comes first for players; join
+ *  order for spectators. */
 const orderGuesses = (results: DuelRoundResults, myId: string | null) => {
   const guesses = [...results.guesses];
-  if (myId) {
-    guesses.sort((a, b) =>
-      a.player_id === myId ? -1 : b.player_id === myId ? 1 : 0
-    );
+  const myTeam = guesses.find((g) => g.player_id === myId)?.team;
+  if (myTeam) {
+    const rank = (g: (typeof guesses)[number]) =>
+      g.player_id === myId ? 0 : g.team === myTeam ? 1 : 2;
+    guesses.sort((a, b) => rank(a) - rank(b));
   }
   return guesses;
 };
 
 const DuelResultsView: React.FC<DuelResultsViewProps> = ({
+  duel,
   players,
   myId,
-  maxHp,
   results,
   resultsRemainingMs,
   onlinePlayerIds,
   spectatorCount,
 }) => {
   const guesses = orderGuesses(results, myId);
-  const winner = players.find((p) => p.id === results.winner_player_id);
-  const loser = players.find(
-    (p) => results.winner_player_id && p.id !== results.winner_player_id
-  );
-  const isTie = !results.winner_player_id;
+  const isTeamDuel = duel.format === '2v2';
+  const teams = getDuelTeams(players, myId);
+  const winner = teams.find((t) => t.team === results.winner_team);
+  const loser = teams.find((t) => results.winner_team && t.team !== results.winner_team);
+  const isTie = !results.winner_team;
+  // The losing side hit zero: that game is over (the match may not be)
+  const gameWon =
+    !!loser && results.players.some((p) => p.team === loser.team && p.hp === 0);
 
   const pins = guesses
     .filter((g) => g.guessed_lat != null && g.guessed_lng != null)
@@ -57,10 +63,12 @@ const DuelResultsView: React.FC<DuelResultsViewProps> = ({
   return (
     <div className="min-h-screen lg:h-screen flex flex-col bg-cream overflow-x-hidden">
       <DuelHud
+        duel={duel}
         players={players}
         myId={myId}
-        maxHp={maxHp}
         roundNumber={results.round_number}
+        gameNumber={results.game_number}
+        gameWins={results.game_wins}
         multiplier={Number(results.multiplier)}
         remainingMs={null}
         onlinePlayerIds={onlinePlayerIds}
@@ -92,6 +100,28 @@ const DuelResultsView: React.FC<DuelResultsViewProps> = ({
             )}
           </div>
 
+          {/* Team totals */}
+          {isTeamDuel && results.team_scores && (
+            <div className="grid grid-cols-2 gap-3">
+              {teams.map((t) => (
+                <div
+                  key={t.team}
+                  className={`bg-white rounded-2xl border-2 p-3 text-center ${
+                    t.team === results.winner_team ? 'border-emerald-400' : 'border-gray-200'
+                  }`}
+                >
+                  <p className="text-sm text-gray-600 truncate">{t.name}</p>
+                  <p className="font-space text-2xl font-bold text-gray-900 tabular-nums">
+                    {results.team_scores?.[t.team - 1].toLocaleString()}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    team {duel.team_damage === 'average' ? 'average' : 'best'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Per-player breakdown */}
           {guesses.map((g, i) => {
             const won = g.player_id === results.winner_player_id;
@@ -168,18 +198,36 @@ const DuelResultsView: React.FC<DuelResultsViewProps> = ({
               <>
                 <p className="flex items-center justify-center gap-2 font-bold text-lg">
                   <Swords size={18} />
-                  {loser?.display_name} takes{' '}
+                  {loser?.name} {isTeamDuel ? 'take' : 'takes'}{' '}
                   {(results.damage ?? 0).toLocaleString()} damage
                 </p>
                 <p className="text-white/85 text-sm mt-1">
                   {(results.score_diff ?? 0).toLocaleString()} score difference ×{' '}
                   {Number(results.multiplier)} multiplier
-                  {winner ? ` — ${winner.display_name} wins the round` : ''}
+                  {winner ? ` — ${winner.name} ${isTeamDuel ? 'win' : 'wins'} the round` : ''}
                 </p>
               </>
             )}
           </motion.div>
 
+          {gameWon && duel.best_of > 1 && winner && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.7 }}
+              className="rounded-2xl p-4 text-center bg-gray-900 text-white"
+            >
+              <p className="flex items-center justify-center gap-2 font-bold text-lg">
+                <Trophy size={18} />
+                {winner.name} {isTeamDuel ? 'take' : 'takes'} game {results.game_number}
+              </p>
+              <p className="text-white/80 text-sm mt-1">
+                Games {results.game_wins[winner.team - 1]}–{results.game_wins[2 - winner.team]}
+                {results.next_round_at ? ' · HP resets for the next game' : ''}
+              </p>
+            </motion.div>
+          )}
+
           {resultsRemainingMs != null && (
             <p className="text-center text-gray-600 font-medium pb-2">
               Next round in{' '}
@@ -1,19 +1,19 @@
 import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
-import { CheckCircle2, Eye, Hourglass, Zap } from 'lucide-react';
+import { CheckCircle2, Hourglass, Zap } from 'lucide-react';
 import MapSelector from '@/components/MapSelector';
 import YearSelector from '@/components/YearSelector';
 import DuelHud from './DuelHud';
 import DuelPhoto from './DuelPhoto';
 import { GAME_CONSTANTS } from '@/constants/gameConstants';
 import type { DuelRoundImage } from '@/services/duelService';
-import type { DuelPlayer, DuelRoundInfo, DuelGuess } from '@/types/duel';
+import type { DuelInfo, DuelPlayer, DuelRoundInfo, DuelGuess } from '@/types/duel';
 
 interface DuelRoundViewProps {
+  duel: DuelInfo;
   players: DuelPlayer[];
   myId: string | null;
-  maxHp: number;
   round: DuelRoundInfo;
   image: DuelRoundImage | null;
   myGuess: DuelGuess | null;
@@ -28,9 +28,9 @@ interface DuelRoundViewProps {
 }
 
 const DuelRoundView: React.FC<DuelRoundViewProps> = ({
+  duel,
   players,
   myId,
-  maxHp,
   round,
   image,
   myGuess,
@@ -58,6 +58,7 @@ const DuelRoundView: React.FC<DuelRoundViewProps> = ({
       ? { lat: myGuess.guessed_lat, lng: myGuess.guessed_lng }
       : location;
 
+  const isTeamDuel = duel.format === '2v2';
   const urgent = guessWindowArmed || (remainingMs != null && remainingMs <= 15000);
 
   const handleSubmit = async () => {
@@ -69,35 +70,31 @@ const DuelRoundView: React.FC<DuelRoundViewProps> = ({
     }
   };
 
-  const statusPill = isSpectator ? (
-    <span className="inline-flex items-center gap-2 bg-gray-900/85 text-white px-4 py-2 rounded-full text-sm font-medium">
-      <Eye size={14} />
-      Spectating · {round.guessed_player_ids.length}/2 guesses in
-    </span>
-  ) : iHaveGuessed ? (
+  const statusPill = iHaveGuessed ? (
     <span className="inline-flex items-center gap-2 bg-emerald-600/95 text-white px-4 py-2 rounded-full text-sm font-medium">
       <CheckCircle2 size={14} />
-      Guess locked in — waiting for opponent
+      Guess locked in — waiting for {isTeamDuel ? 'the others' : 'opponent'}
     </span>
   ) : guessWindowArmed ? (
     <span className="inline-flex items-center gap-2 bg-brand text-white px-4 py-2 rounded-full text-sm font-bold animate-pulse">
       <Zap size={14} />
-      Opponent has guessed — hurry!
+      {isTeamDuel ? 'Someone has guessed' : 'Opponent has guessed'} — hurry!
     </span>
   ) : opponentHasGuessed ? (
     <span className="inline-flex items-center gap-2 bg-amber-500/95 text-white px-4 py-2 rounded-full text-sm font-medium">
       <Hourglass size={14} />
-      Opponent has guessed
+      {isTeamDuel ? 'The other team has guessed' : 'Opponent has guessed'}
     </span>
   ) : null;
 
   return (
     <div className="min-h-screen lg:h-screen flex flex-col bg-cream overflow-x-hidden">
       <DuelHud
+        duel={duel}
         players={players}
         myId={myId}
-        maxHp={maxHp}
         roundNumber={round.round_number}
+        gameNumber={round.game_number}
         multiplier={Number(round.multiplier)}
         remainingMs={remainingMs}
         urgent={urgent}
@@ -0,0 +1,116 @@
+import React from 'react';
+import { CheckCircle2, Eye, Hourglass, Zap } from 'lucide-react';
+import DuelHud from './DuelHud';
+import DuelPhoto from './DuelPhoto';
+import { getDuelTeams } from '@/utils/duelFormats';
+import type { DuelRoundImage } from '@/services/duelService';
+import type { DuelInfo, DuelPlayer, DuelRoundInfo } from '@/types/duel';
+
+interface DuelSpectatorViewProps {
+  duel: DuelInfo;
+  players: DuelPlayer[];
+  round: DuelRoundInfo;
+  image: DuelRoundImage | null;
+  guessWindowArmed: boolean;
+  remainingMs: number | null;
+  onlinePlayerIds: Set<string>;
+  spectatorCount: number;
+}
+
+/** Round screen for spectators: the photo full width, with each player's
+ *  guess status live instead of a map. Guesses themselves stay hidden until
+ *  the round resolves and the results map shows them all. */
+const DuelSpectatorView: React.FC<DuelSpectatorViewProps> = ({
+  duel,
+  players,
+  round,
+  image,
+  guessWindowArmed,
+  remainingMs,
+  onlinePlayerIds,
+  spectatorCount,
+}) => {
+  const teams = getDuelTeams(players, null);
+  const guessed = new Set(round.guessed_player_ids);
+  const urgent = guessWindowArmed || (remainingMs != null && remainingMs <= 15000);
+
+  return (
+    <div className="min-h-screen lg:h-screen flex flex-col bg-cream overflow-x-hidden">
+      <DuelHud
+        duel={duel}
+        players={players}
+        myId={null}
+        roundNumber={round.round_number}
+        gameNumber={round.game_number}
+        multiplier={Number(round.multiplier)}
+        remainingMs={remainingMs}
+        urgent={urgent}
+        onlinePlayerIds={onlinePlayerIds}
+        spectatorCount={spectatorCount}
+      />
+
+      <div className="flex justify-center mt-3 px-3 z-10">
+        {guessWindowArmed ? (
+          <span className="inline-flex items-center gap-2 bg-brand text-white px-4 py-2 rounded-full text-sm font-bold animate-pulse">
+            <Zap size={14} />
+            First guess is in — the clock is running
+          </span>
+        ) : (
+          <span className="inline-flex items-center gap-2 bg-gray-900/85 text-white px-4 py-2 rounded-full text-sm font-medium">
+            <Eye size={14} />
+            Spectating · {guessed.size}/{players.length} guesses in
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 max-w-7xl w-full mx-auto p-3 sm:p-4 flex flex-col lg:flex-row gap-3 sm:gap-4 lg:min-h-0">
+        <div className="h-[50vh] lg:h-full lg:flex-1 lg:min-h-0">
+          <DuelPhoto imageUrl={image?.image_url ?? null} />
+        </div>
+
+        <div className="lg:w-72 shrink-0 grid grid-cols-2 lg:grid-cols-1 gap-3 content-start">
+          {teams.map((team) => (
+            <div
+              key={team.team}
+              className="bg-white border-2 border-gray-200 rounded-2xl p-4 space-y-2"
+            >
+              <p className="text-xs font-bold uppercase tracking-wide text-gray-500">
+                {duel.format === '2v2' ? `Team ${team.team}` : `Player ${team.team}`}
+              </p>
+              {team.players.map((player) => {
+                const hasGuessed = guessed.has(player.id);
+                return (
+                  <div key={player.id} className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span
+                        className={`inline-block w-2 h-2 rounded-full shrink-0 ${
+                          onlinePlayerIds.has(player.id) ? 'bg-emerald-500' : 'bg-gray-300'
+                        }`}
+                      />
+                      <span className="font-semibold text-gray-900 truncate">
+                        {player.display_name}
+                      </span>
+                    </span>
+                    {hasGuessed ? (
+                      <span className="inline-flex items-center gap-1 text-emerald-600 text-sm font-medium shrink-0">
+                        <CheckCircle2 size={14} />
+                        Locked in
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 text-gray-400 text-sm shrink-0">
+                        <Hourglass size={14} />
+                        Thinking…
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuelSpectatorView;
@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import DuelResultsMap from './duel/DuelResultsMap';
+import TutorialPracticeRound from './TutorialPracticeRound';
+
+// No Google Maps key, so loadMapProvider settles on the offline map
+vi.hoisted(() => {
+  vi.stubEnv('VITE_SUPABASE_URL', 'http://localhost:54321');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'test-anon-key');
+  vi.stubEnv('VITE_GOOGLE_MAPS_API_KEY', '');
+});
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        limit: () => ({
+          single: async () => ({
+            data: {
+              id: 'practice',
+              image_url: 'https://example.com/practice.jpg',
+              year: 1967,
+              location_lat: 18.922,
+              location_lng: 72.8347,
+              location_name: 'Gateway of India, Mumbai',
+              description: 'The Gateway of India from the harbour',
+            },
+            error: null,
+          }),
+        }),
+      }),
+    }),
+  },
+}));
+
+beforeAll(() => {
+  // jsdom has no pointer events; the offline map reads the mouse fields, the
+  // pointer id, and takes pointer capture while dragging
+  vi.stubGlobal(
+    'PointerEvent',
+    class extends MouseEvent {
+      pointerId: number;
+      constructor(type: string, init: PointerEventInit = {}) {
+        super(type, init);
+        this.pointerId = init.pointerId ?? 0;
+      }
+    }
+  );
+  Element.prototype.setPointerCapture ??= () => {};
+  // ...nor IntersectionObserver, which GameImage lazy-loads with
+  vi.stubGlobal(
+    'IntersectionObserver',
+    class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    }
+  );
+});
+
+afterEach(cleanup);
+
+const titlesIn = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('title')).map((title) => title.textContent);
+
+describe('DuelResultsMap on the offline map', () => {
+  it('draws the answer, a pin per player and a line from each guess', async () => {
+    const { container } = render(
+      <div style={{ width: 800, height: 600 }}>
+        <DuelResultsMap
+          actual={{ lat: 28.6129, lng: 77.2295 }}
+          pins={[
+            { lat: 19.076, lng: 72.8777, color: '#3b82f6', label: 'Asha' },
+            { lat: 22.5726, lng: 88.3639, color: '#22c55e', label: 'Ravi' },
+          ]}
+        />
+      </div>
+    );
+
+    await screen.findByText('Simplified offline map');
+    await waitFor(() => expect(screen.queryByText('Loading map…')).toBeNull());
+    expect(titlesIn(container)).toEqual(expect.arrayContaining(['Actual location', 'Asha', 'Ravi']));
+    expect(container.querySelectorAll('polyline')).toHaveLength(2);
+  });
+});
+
+describe('TutorialPracticeRound on the offline map', () => {
+  it('plays the practice round and shows the results map', async () => {
+    const { container } = render(<TutorialPracticeRound onComplete={() => {}} onSkip={() => {}} />);
+
+    fireEvent.change(await screen.findByLabelText(/Select year/), { target: { value: '1960' } });
+    await screen.findByText('Simplified offline map');
+
+    // A click on the map places the location guess
+    const svg = container.querySelector('svg[width="100%"]');
+    fireEvent.pointerDown(svg, { button: 0, pointerId: 1, clientX: 0, clientY: 0 });
+    fireEvent.pointerUp(svg, { button: 0, pointerId: 1, clientX: 0, clientY: 0 });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Submit Practice Guess' }));
+
+    await screen.findByText('Practice Complete!');
+    await waitFor(() => expect(screen.queryByText('Loading map...')).toBeNull());
+    expect(screen.getByText('Simplified offline map')).toBeTruthy();
+    expect(titlesIn(container)).toEqual(expect.arrayContaining(['Your Guess', 'Actual Location']));
+    expect(container.querySelectorAll('polyline')).toHaveLength(1);
+  });
+});
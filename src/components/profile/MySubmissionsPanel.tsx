@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Calendar, HelpCircle, Image as ImageIcon, MapPin, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import SubmissionStatusBadge from '@/components/SubmissionStatusBadge';
+import SubmissionTimeline from '@/components/SubmissionTimeline';
+import {
+  getMySubmissions,
+  replyToSubmission,
+  resubmitSubmission,
+  type MySubmission,
+  type ResubmissionDetails,
+  type YearConfidence,
+} from '@/services/photoSubmissionService';
+import {
+  MAX_COMMENT_LENGTH,
+  canResubmit,
+  isSubmissionClosed,
+  validateComment,
+} from '@/utils/submissionWorkflow';
+
+interface MySubmissionsPanelProps {
+  userId: string;
+}
+
+const YEAR_CONFIDENCE_LABELS: Record<YearConfidence, string> = {
+  exact: 'Exact year',
+  approximate: 'Approximate year',
+  decade: 'General decade',
+  unknown: 'Unknown year',
+};
+
+const detailsOf = (submission: MySubmission): ResubmissionDetails => ({
+  locationDescription: submission.location_description ?? '',
+  yearTaken: submission.year_taken ?? undefined,
+  yearConfidence: submission.year_confidence ?? 'unknown',
+  description: submission.description ?? '',
+  cluesDescription: submission.clues_description ?? '',
+});
+
+/** Answers a request for more information: the details, editable, and a note. */
+const ResubmitForm: React.FC<{ submission: MySubmission; onDone: () => void }> = ({ submission, onDone }) => {
+  const [details, setDetails] = useState<ResubmissionDetails>(() => detailsOf(submission));
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const update = (patch: Partial<ResubmissionDetails>) => setDetails((prev) => ({ ...prev, ...patch }));
+
+  const handleResubmit = async () => {
+    setSending(true);
+    const result = await resubmitSubmission(submission.id, details, message);
+    setSending(false);
+    if (!result.success) {
+      toast.error(result.error || 'Could not resubmit');
+      return;
+    }
+    toast.success('Sent back for review. Thank you!');
+    onDone();
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-blue-200 bg-blue-50/50 p-3">
+      <p className="text-sm font-medium text-blue-900">Update your details and resubmit</p>
+      <div className="space-y-1.5">
+        <Label htmlFor={`loc-${submission.id}`}>Where was it taken?</Label>
+        <Textarea
+          id={`loc-${submission.id}`}
+          value={details.locationDescription}
+          onChange={(e) => update({ locationDescription: e.target.value })}
+          rows={2}
+          maxLength={500}
+        />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor={`year-${submission.id}`}>Year</Label>
+          <Input
+            id={`year-${submission.id}`}
+            type="number"
+            value={details.yearTaken ?? ''}
+            onChange={(e) => update({ yearTaken: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label>How sure are you?</Label>
+          <Select
+            value={details.yearConfidence}
+            onValueChange={(value) => update({ yearConfidence: value as YearConfidence })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(YEAR_CONFIDENCE_LABELS) as YearConfidence[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {YEAR_CONFIDENCE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`desc-${submission.id}`}>Description</Label>
+        <Textarea
+          id={`desc-${submission.id}`}
+          value={details.description}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={2}
+          maxLength={1000}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`clues-${submission.id}`}>Clues in the photo</Label>
+        <Textarea
+          id={`clues-${submission.id}`}
+          value={details.cluesDescription}
+          onChange={(e) => update({ cluesDescription: e.target.value })}
+          rows={2}
+          maxLength={1000}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`msg-${submission.id}`}>Message to the reviewers (optional)</Label>
+        <Textarea
+          id={`msg-${submission.id}`}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={2}
+          maxLength={MAX_COMMENT_LENGTH}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={handleResubmit} disabled={sending} className="bg-brand hover:bg-brand-dark text-white">
+          <Send size={14} className="mr-2" />
+          {sending ? 'Sending...' : 'Resubmit for review'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const ReplyBox: React.FC<{ submission: MySubmission; onDone: () => void }> = ({ submission, onDone }) => {
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleReply = async () => {
+    const problem = validateComment(reply);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    setSending(true);
+    const result = await replyToSubmission(submission.id, reply);
+    setSending(false);
+    if (!result.success) {
+      toast.error(result.error || 'Could not send your reply');
+      return;
+    }
+    setReply('');
+    onDone();
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Textarea
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+        rows={1}
+        maxLength={MAX_COMMENT_LENGTH}
+        placeholder="Add a message for the reviewers"
+      />
+      <Button
+        variant="outline"
+        aria-label="Send reply"
+        onClick={handleReply}
+        disabled={sending || reply.trim() === ''}
+      >
+        <Send size={14} />
+      </Button>
+    </div>
+  );
+};
+
+const SubmissionCard: React.FC<{ submission: MySubmission; onChanged: () => void }> = ({
+  submission,
+  onChanged,
+}) => {
+  const needsInfo = canResubmit(submission.status);
+  const [expanded, setExpanded] = useState(needsInfo);
+  const messages = submission.events.filter((event) => event.kind === 'comment' || event.body).length;
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex gap-3">
+          <div className="w-20 h-20 rounded-md overflow-hidden bg-gray-100 shrink-0">
+            <img src={submission.photo_url} alt="Your submission" className="w-full h-full object-cover" loading="lazy" />
+          </div>
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <SubmissionStatusBadge status={submission.status} />
+              <span className="text-xs text-gray-500">
+                Sent {new Date(submission.created_at).toLocaleDateString()}
+              </span>
+            </div>
+            <p className="text-sm text-gray-700 flex items-center gap-1 truncate">
+              <MapPin size={12} className="shrink-0" />
+              {(submission.location_description || '—').split('\n')[0]}
+            </p>
+            <p className="text-sm text-gray-700 flex items-center gap-1">
+              <Calendar size={12} className="shrink-0" />
+              {submission.year_taken ?? 'Year unknown'}
+            </p>
+            <button
+              type="button"
+              onClick={() => setExpanded((prev) => !prev)}
+              className="text-xs font-medium text-brand hover:underline"
+            >
+              {expanded ? 'Hide history' : `Show history${messages > 0 ? ` (${messages} messages)` : ''}`}
+            </button>
+          </div>
+        </div>
+
+        {needsInfo && (
+          <p className="flex items-center gap-2 text-sm text-blue-800">
+            <HelpCircle size={16} className="shrink-0" />
+            A reviewer needs more information before this photo can join the game.
+          </p>
+        )}
+
+        {expanded && (
+          <div className="space-y-3">
+            <SubmissionTimeline events={submission.events} viewer="submitter" />
+            {needsInfo ? (
+              <ResubmitForm submission={submission} onDone={onChanged} />
+            ) : (
+              !isSubmissionClosed(submission.status) && <ReplyBox submission={submission} onDone={onChanged} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+/** The player's photo submissions, their review history and the conversation with reviewers. */
+const MySubmissionsPanel: React.FC<MySubmissionsPanelProps> = ({ userId }) => {
+  const { data: submissions = [], isLoading, isError, refetch } = useQuery({
+    queryKey: ['mySubmissions', userId],
+    queryFn: getMySubmissions,
+    staleTime: 60 * 1000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <div className="w-8 h-8 animate-spin rounded-full border-2 border-brand border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <p className="text-center text-gray-600 py-12">
+        Your submissions couldn't be loaded. Please try again later.
+      </p>
+    );
+  }
+
+  if (!submissions.length) {
+    return (
+      <div className="text-center py-12">
+        <ImageIcon size={32} className="mx-auto mb-3 text-gray-400" />
+        <p className="font-semibold text-gray-800">No submissions yet</p>
+        <p className="text-sm text-gray-600">Photos you submit while signed in will show up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {submissions.map((submission) => (
+        <SubmissionCard key={submission.id} submission={submission} onChanged={() => refetch()} />
+      ))}
+    </div>
+  );
+};
+
+export default MySubmissionsPanel;
@@ -0,0 +1,262 @@
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { BarChart3, Calendar, Clock, Compass, MapPin, Target, TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { getMyRoundHistory } from '@/services/playerStatsService';
+import { listPublishedRegions } from '@/services/regionService';
+import type { AccuracyGroup } from '@/utils/playerStats';
+import {
+  getAccuracyByDecade,
+  getAccuracyByRegion,
+  getDistanceHistogram,
+  getFurthestMisses,
+  getScoreTrend,
+  getStatsSummary,
+  getYearErrorHistogram,
+} from '@/utils/playerStats';
+
+interface PlayerStatsPanelProps {
+  userId: string;
+}
+
+const countConfig = {
+  count: { label: 'Rounds', color: '#ea384c' },
+} satisfies ChartConfig;
+
+const trendConfig = {
+  avgScore: { label: 'Average score', color: '#3b82f6' },
+} satisfies ChartConfig;
+
+const formatKm = (km: number | null) =>
+  km === null ? '—' : `${Math.round(km).toLocaleString('en-US')} km`;
+
+const formatYears = (years: number | null) =>
+  years === null ? '—' : `${Math.round(years)} yr${Math.round(years) === 1 ? '' : 's'}`;
+
+const describeBias = (bias: number | null) => {
+  if (bias === null || Math.abs(bias) < 1) return 'About right';
+  return `${Math.round(Math.abs(bias))} yrs too ${bias < 0 ? 'early' : 'late'}`;
+};
+
+const SectionTitle: React.FC<{ icon: React.ElementType; children: React.ReactNode }> = ({ icon: Icon, children }) => (
+  <CardTitle className="text-sm font-medium text-gray-700 flex items-center gap-2">
+    <Icon size={16} />
+    {children}
+  </CardTitle>
+);
+
+const AccuracyTable: React.FC<{ groups: AccuracyGroup[]; heading: string }> = ({ groups, heading }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 border-b border-gray-200">
+          <th className="py-2 pr-2 font-medium">{heading}</th>
+          <th className="py-2 px-2 font-medium text-right">Rounds</th>
+          <th className="py-2 px-2 font-medium text-right">Avg score</th>
+          <th className="py-2 px-2 font-medium text-right">Year off</th>
+          <th className="py-2 pl-2 font-medium text-right">Distance off</th>
+        </tr>
+      </thead>
+      <tbody>
+        {groups.map(group => (
+          <tr key={group.label} className="border-b border-gray-100 last:border-0">
+            <td className="py-2 pr-2 font-medium text-gray-800">{group.label}</td>
+            <td className="py-2 px-2 text-right">{group.rounds}</td>
+            <td className="py-2 px-2 text-right">{Math.round(group.avgScore).toLocaleString('en-US')}</td>
+            <td className="py-2 px-2 text-right">{formatYears(group.avgYearError)}</td>
+            <td className="py-2 pl-2 text-right">{formatKm(group.avgDistanceKm)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/** The profile's Analytics tab: where and when the player's guesses go wrong. */
+const PlayerStatsPanel: React.FC<PlayerStatsPanelProps> = ({ userId }) => {
+  const { data: rounds = [], isLoading, isError } = useQuery({
+    queryKey: ['roundHistory', userId],
+    queryFn: () => getMyRoundHistory(),
+    staleTime: 60 * 1000,
+  });
+  // Region accuracy is a nice-to-have; without regions everything is "Elsewhere"
+  const { data: regions = [] } = useQuery({
+    queryKey: ['publishedRegions'],
+    queryFn: listPublishedRegions,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const stats = useMemo(() => ({
+    summary: getStatsSummary(rounds),
+    yearErrors: getYearErrorHistogram(rounds),
+    distances: getDistanceHistogram(rounds),
+    decades: getAccuracyByDecade(rounds),
+    regions: getAccuracyByRegion(rounds, regions),
+    trend: getScoreTrend(rounds),
+    furthest: getFurthestMisses(rounds),
+  }), [rounds, regions]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[300px]">
+        <div className="w-8 h-8 animate-spin rounded-full border-2 border-brand border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <p className="text-center text-gray-600 py-12">
+        Your statistics couldn't be loaded. Please try again later.
+      </p>
+    );
+  }
+
+  if (!rounds.length) {
+    return (
+      <div className="text-center py-12">
+        <BarChart3 size={32} className="mx-auto mb-3 text-gray-400" />
+        <p className="font-semibold text-gray-800">No rounds yet</p>
+        <p className="text-sm text-gray-600">Play a signed-in game and your analytics will show up here.</p>
+      </div>
+    );
+  }
+
+  const { summary } = stats;
+
+  return (
+    <div className="grid gap-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          { label: 'Rounds', value: summary.rounds.toLocaleString('en-US') },
+          { label: 'Avg round score', value: Math.round(summary.avgScore).toLocaleString('en-US') },
+          { label: 'Typical year error', value: formatYears(summary.medianYearError) },
+          { label: 'Typical distance', value: formatKm(summary.medianDistanceKm) },
+        ].map(item => (
+          <div key={item.label} className="p-3 bg-gray-50 rounded-lg">
+            <div className="font-semibold text-gray-800">{item.value}</div>
+            <div className="text-gray-600 text-xs">{item.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <SectionTitle icon={Clock}>Year error</SectionTitle>
+            <span className="text-xs text-gray-500">You lean: {describeBias(summary.yearBias)}</span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={countConfig} className="aspect-auto h-48 w-full">
+            <BarChart data={stats.yearErrors}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} width={32} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <SectionTitle icon={Compass}>Distance error</SectionTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={countConfig} className="aspect-auto h-48 w-full">
+            <BarChart data={stats.distances}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+              <YAxis allowDecimals={false} width={32} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {stats.trend.length > 1 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <SectionTitle icon={TrendingUp}>Improvement over time</SectionTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={trendConfig} className="aspect-auto h-48 w-full">
+              <LineChart data={stats.trend}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="week"
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(week: string) =>
+                    new Date(`${week}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+                  }
+                />
+                <YAxis width={40} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${week}`} />} />
+                <Line dataKey="avgScore" stroke="var(--color-avgScore)" strokeWidth={2} dot={false} type="monotone" />
+              </LineChart>
+            </ChartContainer>
+            <p className="text-xs text-gray-500 mt-2 text-center">Average round score per week</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <SectionTitle icon={Calendar}>Accuracy by decade</SectionTitle>
+        </CardHeader>
+        <CardContent>
+          <AccuracyTable groups={stats.decades} heading="Decade" />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <SectionTitle icon={MapPin}>Accuracy by region</SectionTitle>
+        </CardHeader>
+        <CardContent>
+          <AccuracyTable groups={stats.regions} heading="Region" />
+        </CardContent>
+      </Card>
+
+      {stats.furthest.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <SectionTitle icon={Target}>Furthest off</SectionTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {stats.furthest.map(round => (
+              <div key={`${round.session_id}-${round.round_number}`} className="flex items-center gap-3">
+                {round.image_url ? (
+                  <img
+                    src={round.image_url}
+                    alt={round.location_name ?? 'Photo'}
+                    className="w-16 h-12 object-cover rounded-md flex-shrink-0"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-16 h-12 bg-gray-100 rounded-md flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{round.location_name ?? 'Unknown location'}</p>
+                  <p className="text-xs text-gray-500">
+                    {round.actual_year}
+                    {round.year_guess !== null && ` · you guessed ${round.year_guess}`}
+                  </p>
+                </div>
+                <span className="text-sm font-semibold text-brand whitespace-nowrap">{formatKm(round.distance_km)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PlayerStatsPanel;
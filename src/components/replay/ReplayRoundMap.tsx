@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { GuessResult } from '@/types/game';
+import { loadMapProvider } from '@/utils/mapUtils';
+import type { GameMap, MapLine, MapMarker, MapProvider } from '@/utils/mapProvider';
+
+interface ReplayRoundMapProps {
+  result: GuessResult;
+}
+
+// Pause between the guess landing and the answer appearing
+const ANSWER_DELAY_MS = 700;
+
+/** The round's guess dropped first, then the answer joined to it, as in play. */
+const ReplayRoundMap: React.FC<ReplayRoundMapProps> = ({ result }) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const gameMapRef = useRef<GameMap | null>(null);
+  const [provider, setProvider] = useState<MapProvider | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMapProvider().then((loaded) => {
+      if (!cancelled) setProvider(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!provider || !mapRef.current) return;
+    try {
+      const map = provider.createMap(mapRef.current, { center: { lat: 20, lng: 78 }, zoom: 3 });
+      gameMapRef.current = map;
+      setMapReady(true);
+      return () => {
+        map.destroy();
+        gameMapRef.current = null;
+        setMapReady(false);
+      };
+    } catch (error) {
+      console.error('Error initializing the replay map:', error);
+    }
+  }, [provider]);
+
+  useEffect(() => {
+    const map = gameMapRef.current;
+    if (!mapReady || !map || !result.actualLocation) return;
+
+    const guess = result.locationGuess;
+    const actual = { lat: result.actualLocation.lat, lng: result.actualLocation.lng };
+    const markers: MapMarker[] = [];
+    const lines: MapLine[] = [];
+
+    // Year-only rounds have no guess of their own to show
+    const hasGuess = result.scoredDimension !== 'year';
+    if (hasGuess) {
+      markers.push(map.createMarker(guess, { color: '#3b82f6', title: 'Guess' }));
+      map.panTo(guess, 4);
+    }
+
+    const timer = window.setTimeout(() => {
+      markers.push(map.createMarker(actual, { color: '#ea384c', title: 'Actual location' }));
+      if (hasGuess) {
+        lines.push(map.createPolyline([guess, actual], { color: '#ea384c', weight: 3, animated: true }));
+        map.smoothFitBounds([guess, actual], 80);
+      } else {
+        map.panTo(actual, 5);
+      }
+    }, hasGuess ? ANSWER_DELAY_MS : 0);
+
+    return () => {
+      window.clearTimeout(timer);
+      markers.forEach(marker => marker.remove());
+      lines.forEach(line => line.remove());
+    };
+  }, [result, mapReady]);
+
+  return <div ref={mapRef} className="w-full h-full min-h-[280px] rounded-xl overflow-hidden" />;
+};
+
+export default ReplayRoundMap;
@@ -48,7 +48,7 @@ export const GAME_CONSTANTS = {
     DISPLAY_MULTIPLIER: 50,
     MAX_DISPLAY_SCORE_PER_CATEGORY: 5000,
     MAX_TOTAL_DISPLAY_SCORE: 10000,
-    TIME_BONUS_MULTIPLIER: 2,
+    TIME_BONUS_MULTIPLIER: 1.5, // must match SCORE_CONSTANTS in scoringSystem.ts
   },
   
   // Animation and Performance
@@ -63,6 +63,7 @@ export const GAME_CONSTANTS = {
   STORAGE_KEYS: {
     IMAGE_POOL: 'smrutimap_image_pool',
     USED_IMAGES: 'smrutimap_used_images',
+    SAVED_GAME: 'smrutimap_saved_game',
   },
   
   // Image Quality Configuration
@@ -131,7 +132,8 @@ const requireEnv = (name: string): string => {
 export const ENV_CONFIG = {
   SUPABASE_URL: requireEnv('VITE_SUPABASE_URL'),
   SUPABASE_ANON_KEY: requireEnv('VITE_SUPABASE_ANON_KEY'),
-  GOOGLE_MAPS_API_KEY: requireEnv('VITE_GOOGLE_MAPS_API_KEY'),
+  // Optional: without it the game falls back to the offline map
+  GOOGLE_MAPS_API_KEY: (import.meta.env.VITE_GOOGLE_MAPS_API_KEY as string | undefined) ?? '',
   IS_DEVELOPMENT: import.meta.env.DEV,
   IS_PRODUCTION: import.meta.env.PROD,
 } as const;
@@ -1,5 +1,8 @@
 import { GameImage } from "../types/game";
 import { supabase } from "@/integrations/supabase/client";
+import { parseImageHints } from "@/utils/imageHints";
+import { isDifficultyTier } from "@/utils/imageDifficulty";
+import { isImageStatus } from "@/utils/imageCatalogue";
 
 // Google Drive URL converter function
 const convertGoogleDriveUrl = (url: string): string => {
@@ -60,6 +63,12 @@ export const fetchImagesFromSupabase = async (): Promise<GameImage[]> => {
       location_lng: number; 
       location_name: string; 
       description: string; 
+      hints: unknown;
+      difficulty: string | null;
+      difficulty_score: number | null;
+      skill_rating: number;
+      tags: string[] | null;
+      status: string | null;
     }) => {
       console.log('🔄 Transforming item:', item);
       
@@ -75,7 +84,13 @@ export const fetchImagesFromSupabase = async (): Promise<GameImage[]> => {
           lng: item.location_lng,
           name: item.location_name
         },
-        description: item.description
+        description: item.description,
+        hints: parseImageHints(item.hints),
+        difficulty: isDifficultyTier(item.difficulty) ? item.difficulty : null,
+        difficulty_score: item.difficulty_score,
+        skill_rating: item.skill_rating,
+        tags: item.tags ?? [],
+        status: isImageStatus(item.status) ? item.status : 'active'
       };
     });
     
@@ -157,121 +172,6 @@ export const getRandomGameImages = async (count: number = 5): Promise<GameImage[
   return finalShuffled;
 };
 
-// Function to get daily challenge images with enhanced logging
-export const getDailyChallengeImages = async (): Promise<GameImage[]> => {
-  console.log('📅 getDailyChallengeImages called');
-  
-  try {
-    // Use Eastern Time (EST/EDT) for daily challenge date
-    const now = new Date();
-    const easternTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
-    const today = easternTime.toISOString().split('T')[0]; // YYYY-MM-DD format in Eastern Time
-    console.log('📆 Daily challenge date (Eastern Time):', today);
-    
-    // First, check if we already have today's challenge
-    console.log('🔍 Checking for existing daily challenge...');
-    const { data: existingChallenge, error: fetchError } = await supabase
-      .from('daily_challenges')
-      .select('image_ids')
-      .eq('challenge_date', today)
-      .maybeSingle();
-    
-    if (fetchError) {
-      console.error('❌ Error fetching daily challenge:', fetchError);
-    }
-    
-    let imageIds: string[];
-    
-    if (existingChallenge && existingChallenge.image_ids && existingChallenge.image_ids.length > 0) {
-      // Use existing challenge
-      imageIds = existingChallenge.image_ids;
-      console.log('✅ Using existing daily challenge with image IDs:', imageIds);
-    } else {
-      // Generate new daily challenge using all available images
-      console.log('🆕 Generating new daily challenge');
-      const allImages = await getAllImages();
-      
-      if (allImages.length === 0) {
-        console.error('🚫 No images available for daily challenge generation');
-        return [];
-      }
-      
-      console.log(`🎯 Daily challenge: Using all ${allImages.length} images from database`);
-      
-      // Create deterministic seed from date
-      const dateNumbers = today.split('-').map(num => parseInt(num, 10));
-      const seed = dateNumbers[0] * 10000 + dateNumbers[1] * 100 + dateNumbers[2];
-      console.log('🌱 Generated seed for daily challenge:', seed);
-      
-      // Deterministic shuffle using date seed on all images
-      const seededRandom = (seed: number) => {
-        const x = Math.sin(seed) * 10000;
-        return x - Math.floor(x);
-      };
-      
-      const shuffledImages = [...allImages];
-      for (let i = shuffledImages.length - 1; i > 0; i--) {
-        const j = Math.floor(seededRandom(seed + i) * (i + 1));
-        [shuffledImages[i], shuffledImages[j]] = [shuffledImages[j], shuffledImages[i]];
-      }
-      
-      // Take first 5 images
-      const selectedImages = shuffledImages.slice(0, Math.min(5, allImages.length));
-      imageIds = selectedImages.map(img => img.id);
-      
-      console.log('🎯 Generated image IDs for daily challenge:', imageIds);
-      
-      // Store in database
-      try {
-        console.log('💾 Storing daily challenge in database...');
-        const { error: insertError } = await supabase
-          .from('daily_challenges')
-          .insert({
-            challenge_date: today,
-            image_ids: imageIds
-          });
-        
-        if (insertError) {
-          console.error('❌ Error storing daily challenge:', insertError);
-        } else {
-          console.log('✅ Successfully stored daily challenge in database');
-        }
-      } catch (insertError) {
-        console.error('💥 Unexpected error inserting daily challenge:', insertError);
-        // Continue anyway - we can still use the generated images
-      }
-    }
-    
-    // Now fetch the actual image data
-    console.log('📥 Fetching actual image data for daily challenge...');
-    const allImages = await getAllImages();
-    const challengeImages = imageIds
-      .map(id => {
-        const found = allImages.find(img => img.id === id);
-        if (!found) {
-          console.warn('⚠️ Image not found for ID:', id);
-        }
-        return found;
-      })
-      .filter((img): img is GameImage => img !== undefined);
-    
-    if (challengeImages.length === 0) {
-      console.error('🚫 No valid images found for daily challenge, falling back to random images');
-      return await getRandomGameImages(5);
-    }
-    
-    console.log(`✅ Loaded ${challengeImages.length} images for daily challenge`);
-    return challengeImages;
-    
-  } catch (error) {
-    console.error('💥 Unexpected error in getDailyChallengeImages:', error);
-    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-    // Fall back to random images if daily challenge fails
-    console.log('🔄 Falling back to random images due to error');
-    return await getRandomGameImages(5);
-  }
-};
-
 // Utility function to clear daily challenges (for resetting image pools)
 export const clearDailyChallenges = async (): Promise<boolean> => {
   console.log('🧹 Clearing daily challenges to reset image pools...');
@@ -0,0 +1,173 @@
+// Coarse coastlines for the fallback map (src/utils/vectorMap.ts), bundled so
+// it draws without a network. Each outline is a closed ring of [lng, lat]
+// pairs, accurate to a degree or so: enough to tell where a country is, not
+// to read a coast. Inland seas are left as land, and Eurasia is cut at the
+// antimeridian.
+
+export type OutlinePoint = readonly [lng: number, lat: number];
+
+export const WORLD_OUTLINES: readonly (readonly OutlinePoint[])[] = [
+  // North America
+  [
+    [-168, 66], [-162, 70], [-156, 71.3], [-141, 69.6], [-128, 70], [-115, 68.5], [-95, 68],
+    [-85, 69.5], [-82, 66], [-88, 64], [-93, 59], [-85, 55], [-80, 51.5], [-77, 56], [-78, 62.5],
+    [-70, 61], [-64, 60], [-61, 56], [-56, 52], [-60, 50], [-66, 49], [-64.5, 46], [-70, 43.5],
+    [-70, 41.5], [-74, 40.5], [-76, 37], [-75.5, 35.2], [-81, 31.5], [-80, 27], [-80.5, 25.2],
+    [-82.5, 27.5], [-84, 30], [-89, 30.2], [-94, 29.5], [-97.3, 27.5], [-97.5, 22], [-96, 19],
+    [-94.5, 18.2], [-91, 19], [-90.3, 21], [-87, 21.5], [-88, 16], [-84, 15.5], [-83.5, 11],
+    [-81.5, 9], [-79.5, 9.5], [-77.5, 8.5], [-78, 7.5], [-80, 7.3], [-82, 8.2], [-85.5, 10],
+    [-87.5, 13], [-91.5, 14], [-94.5, 16], [-97.5, 16], [-103, 18.5], [-105.5, 20.5], [-105.5, 23],
+    [-109, 26], [-112.5, 29.5], [-114.5, 31.5], [-112, 27], [-110, 23], [-112, 24.5], [-114, 28],
+    [-116.5, 31.5], [-117.5, 33.5], [-120.5, 34.5], [-122.5, 37.5], [-124.2, 40.5], [-124, 46],
+    [-124.5, 48.4], [-123, 49], [-127, 50.5], [-130.5, 54], [-134, 58], [-140, 59.7], [-147, 60.5],
+    [-152, 59], [-157, 57], [-162, 55], [-158, 58], [-162, 59.8], [-165, 61.5], [-164.5, 63.2],
+    [-161, 64.5], [-166, 65.5],
+  ],
+  // Greenland
+  [
+    [-73, 78], [-60, 82], [-35, 83.5], [-20, 82], [-18, 76], [-20, 70], [-26, 68], [-35, 66],
+    [-41, 63], [-43, 60], [-48, 61], [-51, 64], [-54, 67.5], [-55, 71], [-58, 75.5], [-67, 77],
+  ],
+  // Arctic islands: Baffin, Victoria, Ellesmere
+  [
+    [-80, 73.7], [-72, 71.5], [-68, 70], [-62, 66.8], [-65, 64.5], [-65, 62.8], [-71.5, 62.8],
+    [-77.5, 64.5], [-73, 67.5], [-78, 70], [-88, 70.5],
+  ],
+  [[-118, 72.5], [-105, 73.5], [-101, 70], [-112, 68.5], [-118, 69.5]],
+  [[-90, 76.5], [-75, 78.5], [-62, 82], [-90, 82.5], [-95, 80]],
+  // Newfoundland, Cuba, Hispaniola
+  [[-59.3, 47.6], [-55.5, 51.6], [-53, 49.3], [-52.7, 47.5], [-55.8, 46.9]],
+  [[-85, 21.9], [-82, 23.2], [-77, 22.2], [-74.2, 20.2], [-77.5, 19.9], [-80, 21.8]],
+  [[-74.5, 18.4], [-72.8, 19.9], [-69, 19.7], [-68.4, 18.6], [-71, 18]],
+  // South America
+  [
+    [-77.5, 8.5], [-75.5, 10.5], [-72, 11.8], [-71.5, 10.5], [-68, 10.5], [-63, 10.7], [-60, 8.5],
+    [-57, 6], [-52, 5], [-50, 2], [-50, 0], [-48, -1], [-44.5, -2.5], [-40, -3], [-35, -5.3],
+    [-35, -9], [-37, -12], [-39, -17], [-40, -20.5], [-42, -23], [-45, -24], [-48.5, -27],
+    [-49, -29], [-51, -31.5], [-53.5, -34], [-56.5, -34.8], [-57, -36.5], [-57.5, -38.2],
+    [-62, -39], [-62.5, -41], [-65, -42], [-64.5, -45], [-67.5, -46.5], [-66, -48], [-69, -51],
+    [-68.5, -53], [-66, -55], [-70, -55.2], [-74, -53], [-75.5, -50], [-75, -46], [-73.5, -42],
+    [-73.7, -37], [-71.5, -32], [-71.5, -28], [-70.5, -23], [-70.2, -18.5], [-75, -15.5],
+    [-77, -12], [-79.5, -7.5], [-81, -5], [-80, -2.5], [-80.5, 0], [-78.5, 2.5], [-77.5, 4],
+    [-77.5, 7],
+  ],
+  // Africa
+  [
+    [-17, 21], [-16, 24], [-13, 27.5], [-9.5, 30], [-9.5, 32.5], [-6, 35.8], [-2, 35.2], [3, 36.8],
+    [10, 37.2], [11, 35], [10.5, 33.5], [15.5, 32.3], [20, 31], [20, 32.5], [25, 32], [29, 30.9],
+    [32.3, 31.2], [34.2, 31.3], [34.9, 29.5], [33, 28.3], [33, 26], [35.5, 23.8], [37, 19],
+    [39, 15.8], [41.5, 13], [43.3, 12.5], [44.5, 10.5], [51.2, 11.8], [51, 10.5], [49, 6],
+    [47.5, 4], [44, -0.5], [41.5, -2], [39.5, -5], [39.5, -8], [40.5, -11], [40.5, -15],
+    [37, -17.5], [35.2, -22], [35.5, -24], [32.5, -26], [32.5, -28.5], [30, -31.5], [27, -33.7],
+    [22.5, -34], [20, -34.8], [18.3, -34], [18, -31.5], [16.5, -28.6], [15, -26.5], [14.5, -22.5],
+    [12, -18], [11.8, -15.5], [13.5, -12], [13, -9], [12, -5], [9.5, -2], [9.3, 1], [9.8, 3.5],
+    [8.5, 4.5], [6, 4.3], [4, 6.4], [1.5, 6.1], [-2, 4.7], [-4.5, 5.2], [-7.5, 4.4], [-9.5, 5.5],
+    [-11.5, 7], [-13.3, 8.5], [-15, 10.9], [-16.8, 12.5], [-17.5, 14.7], [-16.5, 16.3], [-16.2, 19],
+  ],
+  // Madagascar
+  [[49.3, -12], [50.5, -15.5], [49.5, -17], [47.2, -25], [45, -25.5], [43.5, -22], [44.3, -17], [46.5, -15.7]],
+  // Eurasia, Gibraltar round the north and east back along the Mediterranean
+  [
+    [-5.6, 36], [-9, 37], [-8.8, 42.5], [-8, 43.7], [-2, 43.4], [-1.5, 46], [-4.5, 47.8],
+    [-1.5, 48.7], [1.5, 50.2], [4, 51.4], [5, 53.3], [8.5, 53.9], [8.2, 55.5], [8.3, 57],
+    [10.5, 57.7], [10.5, 56.2], [12.5, 55.5], [10.5, 54.3], [14, 54], [19, 54.4], [21, 56.3],
+    [23.5, 57.2], [24.3, 59.3], [28.5, 59.8], [22.5, 60.3], [21.5, 61.5], [21.2, 63.5], [25, 65],
+    [22, 65.8], [17.5, 62.5], [19, 60], [16.5, 57], [14.2, 55.4], [12.5, 56.5], [11, 59], [8, 58.1],
+    [5.5, 58.9], [5, 62], [8, 63.5], [12, 66], [15, 68.3], [19, 70], [25, 71], [31, 70.3], [41, 67],
+    [37, 66], [33, 66.5], [35, 64.3], [40, 64.5], [44, 66.4], [44, 68.5], [53, 68.7], [58, 68.9],
+    [61, 69.8], [67, 68.5], [69, 73], [73, 71.8], [73.5, 68.5], [78, 72.3], [81, 73.6], [87, 74.9],
+    [95, 76], [104, 77.7], [113, 73.7], [119, 73], [129, 72.3], [135, 71.6], [140, 72.5],
+    [150, 71.3], [160, 70], [170, 69.8], [180, 68.9], [180, 65], [179, 62.5], [173, 61.5],
+    [166, 60], [163, 59.5], [162.5, 57.5], [163.3, 56], [161.8, 54.5], [156.7, 51], [156, 57.5],
+    [160, 61.5], [155, 59.2], [151, 59.2], [143, 59.4], [137, 54], [141, 52.5], [140.5, 48.5],
+    [136, 44], [132, 43], [129.5, 41], [129.5, 37], [129, 35.2], [126.5, 34.5], [126.2, 37.7],
+    [124.5, 39.8], [121, 40.8], [118, 39], [119, 37.2], [122.5, 37], [120.5, 36], [119.2, 34.8],
+    [121, 32], [122, 30], [121.5, 28], [119.5, 25.5], [116.5, 22.9], [113.5, 22.2], [110.5, 21],
+    [108, 21.6], [106.5, 20], [105.8, 19], [106.6, 17.5], [108.8, 15.4], [109.3, 12], [107, 10.4],
+    [105, 8.6], [104.8, 10.3], [102.5, 12.2], [100.9, 13.4], [100, 12.4], [99.2, 10], [100.3, 8.3],
+    [101.3, 6.8], [103.4, 4.9], [104.2, 1.4], [103.4, 1.3], [101.3, 2.9], [100.4, 5.5], [98.3, 8],
+    [98.5, 11], [97.8, 14.8], [97.5, 16.5], [94.2, 16], [94.5, 18.8], [92.3, 20.7], [91.8, 22.4],
+    [90.3, 21.9], [89, 21.8], [87, 21.5], [86.8, 20.5], [84.8, 19.2], [82.3, 16.6], [80.3, 15.5],
+    [80.2, 13], [79.8, 10.3], [78.9, 9.3], [77.5, 8.1], [76.6, 8.9], [75.8, 11.2], [74.6, 14],
+    [73.4, 16], [72.8, 19], [72.6, 21.5], [72, 21.2], [70.8, 20.7], [69.2, 22.2], [70.2, 22.6],
+    [68.5, 23.6], [67.2, 24.6], [66.6, 25.4], [64, 25.3], [61.5, 25.2], [57.4, 25.7], [56.5, 27],
+    [54.5, 26.6], [51.5, 27.8], [50.2, 30.1], [48.5, 30], [48, 29.3], [48.5, 28], [50, 26.2],
+    [50.6, 25], [51.6, 24.2], [54.5, 24.2], [56.3, 26.2], [56.4, 24.8], [58.6, 23.6], [59.8, 22.4],
+    [58.5, 20.5], [57.7, 19], [55, 17], [52.2, 15.6], [48.7, 14], [45, 12.8], [43.5, 12.7],
+    [42.7, 15.6], [41, 19.5], [39, 21.7], [38.5, 24], [37, 26], [35, 28], [34.9, 29.5], [34.2, 31.3],
+    [35, 33], [35.9, 35.5], [36.2, 36.6], [34.5, 36.8], [32, 36.1], [30, 36.2], [28, 36.8],
+    [26.5, 38.5], [26.5, 40.3], [23, 40.5], [24, 38], [22.8, 36.5], [21.5, 37], [21, 38.5],
+    [19.5, 40.2], [19.5, 41.8], [18.5, 42.5], [16, 43.5], [13.7, 45.1], [12.3, 45.3], [12.3, 44.3],
+    [13.6, 43.5], [16, 41.5], [18.5, 40.2], [17, 39], [16.5, 38], [15.6, 38], [15.7, 40], [14, 40.8],
+    [12.3, 41.8], [11, 42.5], [10.2, 43.9], [8.7, 44.4], [7.5, 43.8], [5, 43.3], [3.1, 43],
+    [3.2, 41.9], [1, 41], [0, 39.8], [-0.5, 38.3], [-2, 36.7], [-4.4, 36.7],
+  ],
+  // Great Britain, Ireland, Iceland, Novaya Zemlya
+  [
+    [-5.7, 50], [1.4, 51.2], [1.7, 52.7], [0, 53.5], [-1.5, 55], [-2, 56], [-1.8, 57.6],
+    [-3.5, 58.6], [-5, 58.6], [-6.2, 57], [-5.5, 55.5], [-3, 54.8], [-3.3, 53.5], [-4.6, 53.2],
+    [-4.3, 52.2], [-5.2, 51.7], [-3.2, 51.4],
+  ],
+  [[-6, 52.2], [-6, 54], [-7.3, 55.3], [-8.5, 54.8], [-10, 54], [-10, 52], [-9.5, 51.5]],
+  [[-24, 65.5], [-22, 66.4], [-16, 66.5], [-13.5, 65.2], [-15, 64.2], [-18.5, 63.4], [-22.5, 63.8]],
+  [[52, 71.5], [56, 73.5], [59, 75.7], [69, 76.8], [61, 75], [55.5, 72.5], [57, 70.6]],
+  // Sri Lanka
+  [[79.9, 9.7], [80.2, 9.8], [81.9, 7.3], [81.5, 6.3], [80.6, 5.9], [80, 6.5], [79.8, 8]],
+  // Japan, Sakhalin, Taiwan, Hainan
+  [
+    [130, 31.3], [131.5, 31.5], [132, 33.8], [135, 33.5], [136.8, 34.3], [139, 34.8], [140.8, 35.7],
+    [141, 38.2], [142, 39.6], [141.4, 41.4], [140, 40.7], [140, 39], [139, 37.5], [137, 37],
+    [136, 35.8], [133, 35.5], [131, 34.4], [130, 33.5],
+  ],
+  [[140, 41.5], [141.5, 42.6], [143.3, 42], [145.5, 43.3], [144.5, 44], [142, 45.4], [141.3, 43.3], [140, 42.5]],
+  [[142, 46], [143.5, 46.7], [143, 49], [144.5, 49], [143, 54], [142, 54.2], [142, 51.5], [141.8, 48]],
+  [[120.1, 23], [121, 25.3], [122, 25], [121.5, 23], [120.8, 21.9]],
+  [[108.6, 19.3], [110.5, 20.1], [111, 19.6], [110, 18.3], [108.7, 18.5]],
+  // Philippines
+  [[120, 18.5], [122.3, 18.4], [121.6, 15.8], [122, 14], [124.2, 12.8], [120.6, 13.8], [119.8, 16.2]],
+  [[122, 7], [123.5, 8.2], [125.5, 9.6], [126.5, 7.3], [125.5, 5.6], [124, 6.2]],
+  // Indonesia and New Guinea
+  [
+    [95.3, 5.6], [98, 4.2], [100.5, 2], [104, -1], [106, -3.3], [105.8, -5.8], [104.5, -5.9],
+    [102, -4], [100.5, -1], [98.7, 1.7], [96.5, 3.7],
+  ],
+  [[105.2, -6.8], [108.3, -6.2], [111, -6.4], [114.5, -7.7], [114.4, -8.7], [110, -8.1], [106.5, -7.4]],
+  [
+    [109, 1.5], [110.5, 1.7], [113, 3.2], [115.5, 5.2], [117, 6.9], [119.2, 5.3], [118, 4.2],
+    [117.7, 1], [117.5, 0], [116.5, -2], [116, -3.8], [114.5, -3.9], [111.7, -3], [110.2, -2.9],
+    [109, -0.5],
+  ],
+  [
+    [119.5, -5.5], [120.5, -5.5], [120.4, -2.5], [121, -1], [123, -1], [125, 1.5], [124, 0.4],
+    [120.2, 0.8], [119.7, -0.5], [118.8, -2.7],
+  ],
+  [
+    [131, -1], [135, -3.3], [138, -1.5], [141, -2.6], [145.8, -5], [147.5, -6.1], [147.2, -7.5],
+    [150, -10.4], [147, -10.1], [144, -7.7], [141, -9.1], [138, -8.4], [138.8, -7], [136, -4.6],
+    [132.5, -4], [132, -2.8],
+  ],
+  // Australia, Tasmania, New Zealand
+  [
+    [113.5, -22], [114.2, -26], [115, -29.5], [115.7, -33.5], [118, -35], [123.5, -33.9],
+    [126, -32.3], [131, -31.5], [134, -32.7], [135.8, -34.8], [137.5, -33], [138, -35.6],
+    [140, -37.8], [143.5, -38.8], [146.3, -39.1], [150, -37.5], [150.8, -34.5], [153.1, -30.4],
+    [153.5, -28], [153, -25.2], [150.8, -22.5], [149, -20.4], [146.3, -19], [145.3, -15],
+    [143.5, -14], [142.5, -10.8], [141.6, -12.8], [141.5, -16.5], [140, -17.7], [137.5, -16],
+    [135.5, -15], [136.8, -12.3], [134, -11.9], [132, -11.3], [130.2, -12.5], [129.5, -14.8],
+    [127, -13.8], [125, -15.5], [123, -16.5], [121.5, -19], [119, -20], [116.5, -20.7],
+  ],
+  [[144.6, -40.7], [148.3, -40.9], [148, -43], [146.8, -43.6], [145.2, -42.2]],
+  [
+    [172.7, -34.5], [174.5, -36], [175.9, -37.5], [178.5, -37.7], [177, -39.3], [176, -41.3],
+    [174.7, -41.3], [175, -39.5], [173.8, -39.2], [174.5, -37.5],
+  ],
+  [[172.7, -40.5], [174.2, -41.7], [172.8, -43.6], [171.2, -44.5], [169.5, -46.6], [166.5, -46], [168, -44], [171.3, -41.8]],
+  // Antarctica, closed along the bottom edge of the map
+  [
+    [-180, -78], [-160, -77.5], [-150, -76], [-135, -74.5], [-120, -74], [-100, -73], [-80, -73],
+    [-75, -70], [-67, -67.5], [-60, -64], [-57, -63.5], [-61, -68], [-62, -73], [-60, -75],
+    [-45, -78], [-30, -77], [-20, -74], [-10, -71], [0, -70], [20, -70], [40, -69], [55, -66.5],
+    [70, -67.5], [70, -69.5], [80, -67], [90, -66], [100, -66], [110, -66], [120, -66.5], [135, -66],
+    [150, -68.5], [165, -70.5], [170, -72], [167, -78], [180, -78], [180, -85], [-180, -85],
+  ],
+];
@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getDailyArchive } from '@/services/dailyArchiveService';
+import { getArchiveStreaks, getEasternDateString } from '@/utils/dailyStreaks';
+
+/**
+ * The daily challenge archive and the player's streaks, shared by the header,
+ * the profile and the archive page through one cached query. Disabled for
+ * guests, who have no streak to show.
+ */
+export const useDailyArchive = (userId?: string) => {
+  const { data: archive = [], isLoading, refetch } = useQuery({
+    queryKey: ['dailyArchive', userId],
+    queryFn: getDailyArchive,
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+
+  const streaks = useMemo(() => getArchiveStreaks(archive, getEasternDateString()), [archive]);
+
+  return { archive, streaks, isLoading, refetch };
+};
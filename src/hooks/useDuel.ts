@@ -8,11 +8,18 @@
 //      client-server clock skew,
 //   3. fires the idempotent resolve/advance RPCs when a countdown elapses
 //      (whichever client gets there first wins; the others no-op), and
-//   4. tracks presence so players can see who is connected.
+//   4. tracks presence so players can see who is connected, and carries
+//      spectators' emoji reactions as broadcasts on the same channel.
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { convertGoogleDriveUrl } from '@/utils/gameUtils';
+import {
+  DUEL_REACTION_COOLDOWN_MS,
+  DUEL_REACTION_LIFETIME_MS,
+  isDuelReaction,
+  type DuelReactionEmoji,
+} from '@/utils/duelReactions';
 import {
   advanceDuelRound,
   getDuelIdentity,
@@ -24,6 +31,7 @@ import {
   resolveDuelRound,
   startDuel,
   submitDuelGuess,
+  switchDuelTeam,
   type DuelRoundImage,
 } from '@/services/duelService';
 import type {
@@ -55,6 +63,11 @@ const freshAttempt = (key: string): AttemptTracker => ({
   inFlight: false,
 });
 
+export interface DuelReaction {
+  id: string;
+  emoji: DuelReactionEmoji;
+}
+
 const MAX_AUTO_RPC_TRIES = 10;
 const AUTO_RPC_RETRY_MS = 1200;
 
@@ -64,7 +77,8 @@ export interface UseDuelResult {
   state: DuelState | null;
   players: DuelPlayer[];
   me: DuelPlayer | null;
-  opponent: DuelPlayer | null;
+  /** Everyone on the other team (one player in a 1v1). */
+  opponents: DuelPlayer[];
   isPlayer: boolean;
   isSpectator: boolean;
   isHost: boolean;
@@ -83,9 +97,14 @@ export interface UseDuelResult {
   resultsRemainingMs: number | null;
   onlinePlayerIds: Set<string>;
   spectatorCount: number;
+  /** Reactions currently floating on screen, oldest first. */
+  reactions: DuelReaction[];
   serverNow: () => number;
   submitGuess: (year: number, lat: number, lng: number) => Promise<void>;
   startMatch: () => Promise<void>;
+  /** Spectators only; throttled, and a no-op before presence connects. */
+  sendReaction: (emoji: DuelReactionEmoji) => void;
+  switchTeam: () => Promise<void>;
   leave: () => Promise<void>;
   refresh: () => Promise<void>;
 }
@@ -100,6 +119,7 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
   const [submitting, setSubmitting] = useState(false);
   const [starting, setStarting] = useState(false);
   const [onlineKeys, setOnlineKeys] = useState<Set<string>>(new Set());
+  const [reactions, setReactions] = useState<DuelReaction[]>([]);
   const [, setTick] = useState(0);
 
   const identityRef = useRef<DuelIdentity | null>(
@@ -111,6 +131,8 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
   const debounceRef = useRef<number | undefined>(undefined);
   const resolveAttempt = useRef<AttemptTracker>(freshAttempt(''));
   const advanceAttempt = useRef<AttemptTracker>(freshAttempt(''));
+  const presenceChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const lastReactionAt = useRef(0);
 
   const applyServerTime = useCallback((serverTime: string | undefined) => {
     if (!serverTime) return;
@@ -199,6 +221,14 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
     };
   }, [duelId, scheduleRefresh]);
 
+  const showReaction = useCallback((emoji: DuelReactionEmoji) => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    setReactions((prev) => [...prev.slice(-19), { id, emoji }]);
+    window.setTimeout(() => {
+      setReactions((prev) => prev.filter((r) => r.id !== id));
+    }, DUEL_REACTION_LIFETIME_MS);
+  }, []);
+
   // Presence: players track under their player id, spectators under spec-*.
   const myPlayerId = state?.me ?? null;
   useEffect(() => {
@@ -207,7 +237,8 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
       myPlayerId || `spec-${Math.random().toString(36).slice(2, 10)}`;
     const channel = supabase.channel(`duel-presence-${code.toUpperCase()}`, {
       // realtime-js 2.11 only relays presence when explicitly enabled.
-      config: { presence: { key, enabled: true } },
+      // self: the sender sees its own reactions through the same path.
+      config: { presence: { key, enabled: true }, broadcast: { self: true } },
     });
     const sync = () => {
       setOnlineKeys(new Set(Object.keys(channel.presenceState())));
@@ -216,15 +247,20 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
       .on('presence', { event: 'sync' }, sync)
       .on('presence', { event: 'join' }, sync)
       .on('presence', { event: 'leave' }, sync)
+      .on('broadcast', { event: 'reaction' }, ({ payload }) => {
+        if (isDuelReaction(payload?.emoji)) showReaction(payload.emoji);
+      })
       .subscribe((status) => {
         if (status === 'SUBSCRIBED') {
           void channel.track({ role: myPlayerId ? 'player' : 'spectator' });
         }
       });
+    presenceChannelRef.current = channel;
     return () => {
+      presenceChannelRef.current = null;
       void supabase.removeChannel(channel);
     };
-  }, [code, duelId, myPlayerId]);
+  }, [code, duelId, myPlayerId, showReaction]);
 
   // Polling safety net while the duel is live.
   useEffect(() => {
@@ -372,8 +408,8 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
     () => players.find((p) => p.id === state?.me) ?? null,
     [players, state?.me]
   );
-  const opponent = useMemo(
-    () => (me ? players.find((p) => p.id !== me.id) ?? null : null),
+  const opponents = useMemo(
+    () => (me ? players.filter((p) => p.team !== me.team) : []),
     [players, me]
   );
 
@@ -381,8 +417,9 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
     !!pendingGuess ||
     !!state?.my_guess ||
     (!!state?.me && !!round?.guessed_player_ids?.includes(state.me));
-  const opponentHasGuessed =
-    !!opponent && !!round?.guessed_player_ids?.includes(opponent.id);
+  const opponentHasGuessed = opponents.some(
+    (p) => !!round?.guessed_player_ids?.includes(p.id)
+  );
   const guessWindowArmed = !!round?.guess_deadline && !round?.resolved_at;
 
   const phase: DuelPhase = !state
@@ -460,6 +497,25 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
     }
   }, [applyServerTime, refreshState]);
 
+  const sendReaction = useCallback(
+    (emoji: DuelReactionEmoji) => {
+      const channel = presenceChannelRef.current;
+      if (!channel || myPlayerId) return;
+      if (Date.now() - lastReactionAt.current < DUEL_REACTION_COOLDOWN_MS) return;
+      lastReactionAt.current = Date.now();
+      void channel.send({ type: 'broadcast', event: 'reaction', payload: { emoji } });
+    },
+    [myPlayerId]
+  );
+
+  const switchTeam = useCallback(async () => {
+    const identity = identityRef.current;
+    if (!identity) return;
+    const res = await switchDuelTeam(identity.token);
+    applyServerTime(res.server_time);
+    await refreshState();
+  }, [applyServerTime, refreshState]);
+
   const leave = useCallback(async () => {
     const identity = identityRef.current;
     if (!identity) return;
@@ -473,7 +529,7 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
     state,
     players,
     me,
-    opponent,
+    opponents,
     isPlayer: !!me,
     isSpectator: !!state && !me,
     isHost: !!me?.is_host,
@@ -489,9 +545,12 @@ export const useDuel = (code: string | undefined): UseDuelResult => {
     resultsRemainingMs,
     onlinePlayerIds,
     spectatorCount,
+    reactions,
     serverNow,
     submitGuess,
     startMatch,
+    sendReaction,
+    switchTeam,
     leave,
     refresh: refreshState,
   };
@@ -1,6 +1,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { getDailyChallengeImages } from '@/data/sampleData';
+import { getDailyChallengeImages } from '@/utils/dailyChallenge';
 import { getGameImagesFromPool } from '@/utils/imagePool';
+import type { GameDifficulty, GameRegion, ImageCollection } from '@/types/game';
 
 const DEFAULT_TOTAL_ROUNDS = 5;
 
@@ -8,7 +9,11 @@ export const useGameImages = (
   gameStartCounter: number,
   isDailyChallenge: boolean,
   gameMode: string,
-  userId?: string
+  userId?: string,
+  enabled = true, // off when the caller supplies its own images (custom challenges)
+  difficulty: GameDifficulty | null = null,
+  collection: ImageCollection | null = null,
+  region: GameRegion | null = null
 ) => {
   const queryClient = useQueryClient();
 
@@ -20,19 +25,22 @@ export const useGameImages = (
     isError,
     isSuccess
   } = useQuery({
-    queryKey: ['gameImages', gameStartCounter, isDailyChallenge, userId],
+    queryKey: ['gameImages', gameStartCounter, isDailyChallenge, userId, difficulty, collection?.id ?? null, region?.id ?? null],
     queryFn: async () => {
       console.log('🎮 React Query fetching game images...');
       console.log('Query params:', {
         gameStartCounter,
         isDailyChallenge,
+        difficulty,
+        collection: collection?.slug ?? null,
+        region: region?.slug ?? null,
         userId: userId ? `${userId.slice(0, 8)}...` : 'guest',
         timestamp: new Date().toISOString()
       });
       try {
         const images = isDailyChallenge 
           ? await getDailyChallengeImages() 
-          : await getGameImagesFromPool(DEFAULT_TOTAL_ROUNDS, userId);
+          : await getGameImagesFromPool(DEFAULT_TOTAL_ROUNDS, userId, difficulty, collection, region);
         console.log('🎯 Query function result:', images);
         console.log('🎯 Image IDs fetched:', images.map(img => img.id));
         if (!images || images.length === 0) {
@@ -47,7 +55,7 @@ export const useGameImages = (
     },
     staleTime: 0,
     gcTime: 0,
-    enabled: gameMode === 'playing' || gameMode === 'daily',
+    enabled: enabled && (gameMode === 'playing' || gameMode === 'daily'),
     retry: 3,
     retryDelay: attemptIndex => Math.min(1000 * 2 ** attemptIndex, 30000),
     refetchOnMount: true,
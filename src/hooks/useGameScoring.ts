@@ -1,7 +1,8 @@
 
 import { useCallback } from 'react';
 import { calculateCompleteScore } from '@/utils/scoringSystem';
-import { GuessResult, GameImage } from '@/types/game';
+import { GuessResult, GameImage, ScoringProfileId, EraBucketSetId, GuessDimension } from '@/types/game';
+import { DEFAULT_SCORING_PROFILE } from '@/utils/scoringProfiles';
 import { toast } from "sonner";
 
 export const useGameScoring = () => {
@@ -13,7 +14,13 @@ export const useGameScoring = () => {
     isTimedMode: boolean,
     timerType: 'per-round' | 'total-game',
     roundStartTime?: number,
-    isAutoSubmit: boolean = false
+    isAutoSubmit: boolean = false,
+    scoringProfile: ScoringProfileId = DEFAULT_SCORING_PROFILE,
+    eraBucketSet: EraBucketSetId | null = null,
+    scoredDimension: GuessDimension | null = null,
+    yearMargin: number = 0,
+    radiusKm: number = 0,
+    hintsUsed: number = 0
   ): GuessResult => {
     const roundEndTime = Date.now();
     const timeUsed = roundStartTime ? Math.floor((roundEndTime - roundStartTime) / 1000) : 0;
@@ -27,16 +34,26 @@ export const useGameScoring = () => {
       locationGuess.lng,
       timeRemaining,
       isTimedMode,
-      timerType
+      timerType,
+      scoringProfile,
+      eraBucketSet,
+      scoredDimension,
+      yearMargin,
+      radiusKm,
+      hintsUsed
     );
 
     console.log('📊 Score breakdown:', scoreBreakdown);
 
+    // In practice modes the half that wasn't played holds the answer, so the
+    // result screens have something sensible to draw for it.
     const result: GuessResult = {
       imageId: currentImage.id,
       imageUrl: currentImage.image_url,
-      yearGuess,
-      locationGuess,
+      yearGuess: scoredDimension === 'location' ? currentImage.year : yearGuess,
+      locationGuess: scoredDimension === 'year'
+        ? { lat: currentImage.location.lat, lng: currentImage.location.lng }
+        : locationGuess,
       actualYear: currentImage.year,
       actualLocation: {
         lat: currentImage.location.lat,
@@ -50,7 +67,13 @@ export const useGameScoring = () => {
       timeUsed,
       displayYearScore: scoreBreakdown.displayYearScore,
       displayLocationScore: scoreBreakdown.displayLocationScore,
-      timeBonus: scoreBreakdown.timeBonus
+      timeBonus: scoreBreakdown.timeBonus,
+      eraBucketSet: eraBucketSet ?? undefined,
+      scoredDimension: scoredDimension ?? undefined,
+      yearMargin,
+      radiusKm,
+      hintsUsed,
+      hintPenalty: scoreBreakdown.hintPenalty
     };
 
     console.log('📊 Final result stored:', result);
@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { GameSession, GameMode, GuessResult, RoundResult } from '@/types/game';
+import { GameSession, GameMode, GuessResult, ScoringProfileId, ServerRoundScore } from '@/types/game';
 import { safeQuery } from '@/utils/databaseUtils';
+import { getScoringProfileForMode } from '@/utils/scoringProfiles';
+import { SCORING_ENGINE_VERSION } from '@/utils/scoringSystem';
 
 interface UseGameSessionProps {
   onProfileUpdate?: (userId: string) => Promise<void>;
@@ -13,9 +15,17 @@ export const useGameSession = ({ onProfileUpdate }: UseGameSessionProps = {}) =>
   const startGameSession = async (
     userId: string, 
     gameMode: GameMode, 
-    roundsCount: number = 5
+    roundsCount: number = 5,
+    scoringProfile: ScoringProfileId = getScoringProfileForMode(gameMode),
+    timerType: GameSession['timer_type'] = null,
+    eraBucketSet: GameSession['era_bucket_set'] = null,
+    challengeId: GameSession['challenge_id'] = null,
+    dailyDate: GameSession['daily_date'] = null, // only for 'daily_archive' replays
+    difficulty: GameSession['difficulty'] = null,
+    collectionId: GameSession['collection_id'] = null,
+    regionId: GameSession['region_id'] = null
   ) => {
-    console.log('🎮 Starting game session for user:', userId, 'Mode:', gameMode);
+    console.log('🎮 Starting game session for user:', userId, 'Mode:', gameMode, 'Profile:', scoringProfile, 'Timer:', timerType, 'Era buckets:', eraBucketSet, 'Challenge:', challengeId);
     
     const { data, error, timedOut } = await safeQuery(
       async () => {
@@ -24,6 +34,14 @@ export const useGameSession = ({ onProfileUpdate }: UseGameSessionProps = {}) =>
           .insert({
             user_id: userId,
             game_mode: gameMode,
+            scoring_profile: scoringProfile,
+            timer_type: timerType,
+            era_bucket_set: eraBucketSet,
+            challenge_id: challengeId,
+            daily_date: dailyDate,
+            difficulty,
+            collection_id: collectionId,
+            region_id: regionId,
             total_score: 0,
             rounds_completed: 0,
           })
@@ -53,80 +71,107 @@ export const useGameSession = ({ onProfileUpdate }: UseGameSessionProps = {}) =>
     return { data: null, error: new Error('No session data returned') };
   };
 
+  // Starts the server's clock for a per-round timed round; submit_round_guess
+  // times the round from it, so the client never reports its time left.
+  // Resolves with the seconds the round has already run by that clock (0 for
+  // a round shown for the first time).
+  const startRound = async (sessionId: string, roundNumber: number) => {
+    const { data, error, timedOut } = await safeQuery(
+      async () => {
+        return await supabase.rpc('start_round', {
+          p_session_id: sessionId,
+          p_round_number: roundNumber,
+        });
+      },
+      { operation: 'Start round', timeoutMs: 3000 }
+    );
+
+    if (timedOut) {
+      console.error('⏱️ Starting the round clock timed out');
+      return { elapsedSeconds: null, error: new Error('Starting the round timed out') };
+    }
+
+    if (error || data?.error) {
+      console.error('❌ Error starting the round clock:', error || data?.error);
+      return { elapsedSeconds: null, error: error || data?.error };
+    }
+
+    return { elapsedSeconds: Number(data?.data ?? 0), error: null };
+  };
+
+  // The server looks up the answer and scores the guess itself (see
+  // submit_round_guess); the client's own result is only used for display.
   const saveRoundResult = async (
     sessionId: string,
-    userId: string,
     roundNumber: number,
-    guessResult: GuessResult,
     imageId: string,
-    actualYear: number,
-    actualLocation: { lat: number; lng: number }
+    guessResult: GuessResult
   ) => {
-    console.log('💾 Saving round result for session:', sessionId, 'Round:', roundNumber);
-    
-    const roundResult: Omit<RoundResult, 'id' | 'created_at'> = {
-      session_id: sessionId,
-      user_id: userId,
-      image_id: imageId,
-      round_number: roundNumber,
-      year_guess: guessResult.yearGuess,
-      actual_year: actualYear,
-      location_guess_lat: guessResult.locationGuess.lat,
-      location_guess_lng: guessResult.locationGuess.lng,
-      actual_location_lat: actualLocation.lat,
-      actual_location_lng: actualLocation.lng,
-      year_score: guessResult.yearScore,
-      location_score: guessResult.locationScore,
-      total_round_score: guessResult.totalScore,
-      time_used: guessResult.timeUsed,
-    };
+    console.log('💾 Submitting round guess for session:', sessionId, 'Round:', roundNumber);
 
     const { data, error, timedOut } = await safeQuery(
       async () => {
-        return await supabase
-          .from('round_results' as any)
-          .insert(roundResult)
-          .select()
-          .single();
+        return await supabase.rpc('submit_round_guess', {
+          p_session_id: sessionId,
+          p_image_id: imageId,
+          p_round_number: roundNumber,
+          // The half a practice mode doesn't play is sent as null
+          p_year: guessResult.scoredDimension === 'location' ? null : guessResult.yearGuess,
+          p_lat: guessResult.scoredDimension === 'year' ? null : guessResult.locationGuess.lat,
+          p_lng: guessResult.scoredDimension === 'year' ? null : guessResult.locationGuess.lng,
+          p_time_used: guessResult.timeUsed,
+          p_year_margin: guessResult.yearMargin ?? 0,
+          p_radius_km: guessResult.radiusKm ?? 0,
+          p_hints_used: guessResult.hintsUsed ?? 0,
+        });
       },
-      { operation: 'Save round result', timeoutMs: 3000 }
+      { operation: 'Submit round guess', timeoutMs: 3000 }
     );
 
     if (timedOut) {
-      console.error('⏱️ Round result save timed out');
-      return { data: null, error: new Error('Round result save timed out') };
+      console.error('⏱️ Round guess submission timed out');
+      return { data: null, error: new Error('Round guess submission timed out') };
     }
 
     if (error || data?.error) {
-      console.error('❌ Error saving round result:', error || data?.error);
+      console.error('❌ Error submitting round guess:', error || data?.error);
       return { data: null, error: error || data?.error };
     }
 
-    console.log('✅ Round result saved successfully');
-    return { data: data?.data, error: null };
+    const serverScore = data?.data as unknown as ServerRoundScore;
+    // The server times the round itself, so only the time bonus may differ
+    if (
+      serverScore &&
+      serverScore.display_total_score - serverScore.time_bonus !==
+        guessResult.scaledScore - (guessResult.timeBonus ?? 0)
+    ) {
+      // Same engine on both sides, so this means the client is out of date.
+      console.warn('⚠️ Server score differs from client score:', {
+        server: serverScore.display_total_score,
+        client: guessResult.scaledScore,
+        serverEngine: serverScore.engine_version,
+        clientEngine: SCORING_ENGINE_VERSION,
+      });
+    }
+
+    console.log('✅ Round guess scored by server:', serverScore);
+    return { data: serverScore, error: null };
   };
 
+  // Totals, verification and user stats are all done server-side from the
+  // rounds submit_round_guess recorded.
   const completeGameSession = async (
     sessionId: string,
-    totalScore: number,
-    roundsCompleted: number,
     totalTime?: number
   ) => {
-    console.log('🏁 Completing game session:', sessionId, 'Score:', totalScore, 'Rounds:', roundsCompleted);
+    console.log('🏁 Completing game session:', sessionId);
     
     const { data, error, timedOut } = await safeQuery(
       async () => {
-        return await supabase
-          .from('game_sessions' as any)
-          .update({
-            total_score: totalScore,
-            rounds_completed: roundsCompleted,
-            time_taken: totalTime,
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', sessionId)
-          .select()
-          .single();
+        return await supabase.rpc('complete_game_session', {
+          p_session_id: sessionId,
+          p_time_taken: totalTime,
+        });
       },
       { operation: 'Complete game session', timeoutMs: 5000 }
     );
@@ -141,75 +186,30 @@ export const useGameSession = ({ onProfileUpdate }: UseGameSessionProps = {}) =>
       return { data: null, error: error || data?.error };
     }
 
-    const sessionData = data?.data as any;
-    
-    // Update user profile stats
-    if (sessionData && sessionData.user_id) {
-      console.log('📊 Updating user stats after game completion...');
-      await updateUserStats(sessionData.user_id, totalScore, roundsCompleted);
-    }
-    
-    const typedSessionData = sessionData as unknown as GameSession;
+    const typedSessionData = data?.data as unknown as GameSession;
     setCurrentSession(typedSessionData);
-    console.log('✅ Game session completed successfully');
-    return { data: typedSessionData, error: null };
-  };
-
-  const updateUserStats = async (
-    userId: string,
-    gameScore: number,
-    roundsCompleted: number
-  ) => {
-    console.log('📊 Updating user stats for user:', userId, 'Score:', gameScore, 'Rounds:', roundsCompleted);
-
-    // Single atomic RPC: the database increments stats in one statement, so
-    // concurrent game completions can't clobber each other. The function also
-    // enforces user_uuid = auth.uid() server-side.
-    const { data: updateData, error: updateError, timedOut: updateTimeout } = await safeQuery(
-      async () => {
-        return await supabase.rpc('update_user_stats', {
-          user_uuid: userId,
-          game_score: Math.round(gameScore),
-          rounds_completed: roundsCompleted,
-        });
-      },
-      { operation: 'Update user stats', timeoutMs: 5000 }
-    );
-
-    if (updateTimeout) {
-      console.error('⏱️ User stats update timed out');
-      return { data: null, error: new Error('User stats update timed out') };
-    }
-
-    if (updateError || updateData?.error) {
-      console.error('❌ Error updating user stats:', updateError || updateData?.error);
-      return { data: null, error: updateError || updateData?.error };
-    }
-
-    console.log('✅ User stats updated successfully');
+    console.log('✅ Game session completed successfully:', typedSessionData?.total_score);
 
     // Call the onProfileUpdate callback
-    if (onProfileUpdate) {
+    if (onProfileUpdate && typedSessionData?.user_id) {
       console.log('🔄 Refreshing user profile after stats update...');
       try {
-        await onProfileUpdate(userId);
+        await onProfileUpdate(typedSessionData.user_id);
         console.log('✅ Profile refresh completed');
       } catch (error) {
         console.error('❌ Profile refresh failed:', error);
       }
-    } else {
-      console.log('⚠️ No profile update callback provided');
     }
 
-    return { data: updateData?.data, error: null };
+    return { data: typedSessionData, error: null };
   };
 
   return {
     currentSession,
     setCurrentSession,
     startGameSession,
+    startRound,
     saveRoundResult,
     completeGameSession,
-    updateUserStats,
   };
 }; 
\ No newline at end of file
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useGameState } from './useGameState';
+import { selectChallengeImages } from '@/utils/customChallenge';
+import type { GameImage, GuessResult } from '@/types/game';
+
+vi.hoisted(() => {
+  vi.stubEnv('VITE_SUPABASE_URL', 'http://localhost:54321');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'test-anon-key');
+});
+
+vi.mock('@/utils/imagePreloader', () => ({ preloadNextGameImages: () => {} }));
+
+const image = (id: string): GameImage => ({
+  id,
+  image_url: `https://example.com/${id}.jpg`,
+  year: 1970,
+  location: { lat: 0, lng: 0, name: id },
+  description: '',
+});
+
+const result = (image: GameImage): GuessResult => ({
+  imageId: image.id,
+  yearGuess: 1970,
+  locationGuess: { lat: 0, lng: 0 },
+  yearScore: 100,
+  locationScore: 100,
+  totalScore: 100,
+});
+
+const POOL = Array.from({ length: 12 }, (_, i) => `img-${i}`);
+const challenge = { id: 'c0ffee00-0000-4000-8000-000000000010', image_ids: POOL, round_count: 10 };
+
+describe('useGameState', () => {
+  it('plays every round of a 10-round challenge', () => {
+    const images = selectChallengeImages(challenge, POOL.map(image));
+    const { result: hook } = renderHook(() => useGameState());
+
+    act(() => hook.current.initializeGame(images));
+    expect(hook.current.gameState.totalRounds).toBe(10);
+
+    for (let round = 1; round <= 10; round++) {
+      expect(hook.current.gameState.currentRound).toBe(round);
+      expect(hook.current.gameState.currentImage?.id).toBe(images[round - 1].id);
+      act(() => hook.current.addResult(result(images[round - 1])));
+      act(() => hook.current.nextRound(images));
+      expect(hook.current.gameState.gameOver).toBe(round === 10);
+    }
+    expect(hook.current.gameState.results).toHaveLength(10);
+  });
+
+  it('resumes a challenge partway through', () => {
+    const images = selectChallengeImages(challenge, POOL.map(image));
+    const { result: hook } = renderHook(() => useGameState());
+
+    act(() => hook.current.initializeGame(images, false, 'per-round', undefined, 7));
+    expect(hook.current.gameState.currentRound).toBe(7);
+    expect(hook.current.gameState.totalRounds).toBe(10);
+  });
+
+  it('winds a timed round on to the server clock until it is guessed', () => {
+    const images = selectChallengeImages(challenge, POOL.map(image));
+    const { result: hook } = renderHook(() => useGameState());
+
+    act(() => hook.current.initializeGame(images, true, 'per-round', 60));
+    act(() => hook.current.syncRoundTimer(1, 42.3));
+    expect(hook.current.gameState.timeRemaining).toBe(18);
+
+    // Out of time while away: the last second runs down as usual
+    act(() => hook.current.syncRoundTimer(1, 75));
+    expect(hook.current.gameState.timeRemaining).toBe(1);
+    expect(hook.current.gameState.timerActive).toBe(true);
+
+    act(() => hook.current.addResult(result(images[0])));
+    act(() => hook.current.syncRoundTimer(1, 10));
+    expect(hook.current.gameState.timeRemaining).toBe(1);
+  });
+});
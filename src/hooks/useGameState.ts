@@ -1,7 +1,8 @@
 import { useState, useCallback, useMemo } from 'react';
-import { GameState, GameImage, GuessResult } from '@/types/game';
+import { GameState, GameImage, GuessResult, ScoringProfileId, EraBucketSetId, GuessDimension } from '@/types/game';
 import { preloadNextGameImages } from '@/utils/imagePreloader';
 import { GAME_CONSTANTS } from '@/constants/gameConstants';
+import { DEFAULT_SCORING_PROFILE } from '@/utils/scoringProfiles';
 
 export const useGameState = () => {
   const [gameState, setGameState] = useState<GameState>({
@@ -17,7 +18,10 @@ export const useGameState = () => {
     timerType: 'per-round',
     timeRemaining: 0,
     timerActive: false,
-    customTimerDuration: undefined
+    customTimerDuration: undefined,
+    scoringProfile: DEFAULT_SCORING_PROFILE,
+    eraBucketSet: null,
+    scoredDimension: null
   });
 
   const [yearGuess, setYearGuess] = useState<number | null>(null);
@@ -25,6 +29,11 @@ export const useGameState = () => {
     lat: number;
     lng: number;
   } | null>(null);
+  // Confidence ranges for the current guess; 0 means a point guess
+  const [yearMargin, setYearMargin] = useState(0);
+  const [radiusKm, setRadiusKm] = useState(0);
+  // How many of the current image's hints have been revealed
+  const [hintsRevealed, setHintsRevealed] = useState(0);
   const [totalGameScore, setTotalGameScore] = useState<number>(0);
 
   // Memoize total game score calculation
@@ -57,7 +66,10 @@ export const useGameState = () => {
     isTimedMode: boolean = false, 
     timerType: 'per-round' | 'total-game' = 'per-round',
     customTimerDuration?: number,
-    startFromRound: number = 1
+    startFromRound: number = 1,
+    scoringProfile: ScoringProfileId = DEFAULT_SCORING_PROFILE,
+    eraBucketSet: EraBucketSetId | null = null,
+    scoredDimension: GuessDimension | null = null
   ) => {
     if (!images || images.length === 0) {
       console.error('Cannot initialize game: no images provided');
@@ -72,9 +84,11 @@ export const useGameState = () => {
       ? (customTimerDuration || (timerType === 'per-round' ? GAME_CONSTANTS.TIMERS.PER_ROUND_TIME : GAME_CONSTANTS.TIMERS.TOTAL_GAME_TIME))
       : 0;
 
+    // The images are the game's whole sequence: a pool draw, a daily, or a
+    // challenge of up to CHALLENGE_LIMITS.MAX_IMAGES rounds
     setGameState({
       currentRound: validStartRound,
-      totalRounds: Math.min(images.length, GAME_CONSTANTS.GAME_RULES.DEFAULT_TOTAL_ROUNDS),
+      totalRounds: images.length,
       currentImage: images[imageIndex],
       results: [],
       isGuessing: true,
@@ -86,12 +100,18 @@ export const useGameState = () => {
       timeRemaining: initialTimeRemaining,
       timerActive: isTimedMode,
       roundStartTime: Date.now(),
-      customTimerDuration
+      customTimerDuration,
+      scoringProfile,
+      eraBucketSet,
+      scoredDimension
     });
 
     // Reset guesses
     setYearGuess(null);
     setLocationGuess(null);
+    setYearMargin(0);
+    setRadiusKm(0);
+    setHintsRevealed(0);
     setTotalGameScore(0);
 
     // Preload next images for better performance
@@ -101,6 +121,20 @@ export const useGameState = () => {
     }
   }, []);
 
+  // Picks a saved game up where it stopped (see src/utils/savedGames.ts)
+  const restoreGame = useCallback((state: GameState, images: GameImage[], restoredHints: number = 0) => {
+    setGameState(state);
+    setYearGuess(null);
+    setLocationGuess(null);
+    setYearMargin(0);
+    setRadiusKm(0);
+    setHintsRevealed(restoredHints);
+
+    if (images.length > state.currentRound) {
+      preloadNextGameImages(images, state.currentRound - 1);
+    }
+  }, []);
+
   const addResult = useCallback((result: GuessResult) => {
     setGameState(prev => ({
       ...prev,
@@ -111,6 +145,15 @@ export const useGameState = () => {
     }));
   }, []);
 
+  // Folds later changes into a round's result, e.g. the score the server
+  // settled on once the guess was saved
+  const updateResult = useCallback((imageId: string, changes: Partial<GuessResult>) => {
+    setGameState(prev => ({
+      ...prev,
+      results: prev.results.map(result => result.imageId === imageId ? { ...result, ...changes } : result)
+    }));
+  }, []);
+
   const nextRound = useCallback((images: GameImage[]) => {
     setGameState(prev => {
       const nextRoundNumber = prev.currentRound + 1;
@@ -154,6 +197,9 @@ export const useGameState = () => {
     // Reset guesses for new round
     setYearGuess(null);
     setLocationGuess(null);
+    setYearMargin(0);
+    setRadiusKm(0);
+    setHintsRevealed(0);
 
     // Preload next images
     setGameState(prev => {
@@ -183,13 +229,37 @@ export const useGameState = () => {
       timerType: 'per-round',
       timeRemaining: 0,
       timerActive: false,
-      customTimerDuration: undefined
+      customTimerDuration: undefined,
+      scoringProfile: DEFAULT_SCORING_PROFILE,
+      eraBucketSet: null,
+      scoredDimension: null
     });
     setYearGuess(null);
     setLocationGuess(null);
+    setYearMargin(0);
+    setRadiusKm(0);
+    setHintsRevealed(0);
     setTotalGameScore(0);
   }, []);
 
+  // Winds the current round's timer on to the time the server says it has
+  // run (time away from the page included), unless the round has been
+  // guessed or left since. A round that has run out keeps its last second, so
+  // it ends the way any other round does when the timer runs down.
+  const syncRoundTimer = useCallback((roundNumber: number, elapsedSeconds: number) => {
+    setGameState(prev => {
+      if (!prev.isTimedMode || prev.timerType !== 'per-round') return prev;
+      if (prev.currentRound !== roundNumber || !prev.isGuessing || prev.hasGuessed) return prev;
+      const roundSeconds = prev.customTimerDuration || GAME_CONSTANTS.TIMERS.PER_ROUND_TIME;
+      return {
+        ...prev,
+        timeRemaining: Math.max(1, Math.ceil(roundSeconds - elapsedSeconds)),
+        timerActive: true,
+        roundStartTime: Date.now() - elapsedSeconds * 1000
+      };
+    });
+  }, []);
+
   const updateTimer = useCallback((newTime: number, isActive: boolean) => {
     setGameState(prev => ({
       ...prev,
@@ -204,11 +274,20 @@ export const useGameState = () => {
     setYearGuess,
     locationGuess,
     setLocationGuess,
+    yearMargin,
+    setYearMargin,
+    radiusKm,
+    setRadiusKm,
+    hintsRevealed,
+    setHintsRevealed,
     totalGameScore,
     initializeGame,
+    restoreGame,
     addResult,
+    updateResult,
     nextRound,
     resetGame,
-    updateTimer
+    updateTimer,
+    syncRoundTimer
   };
 };
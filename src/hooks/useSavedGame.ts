@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getSavedGame, removeSavedGame, storeSavedGame } from '@/services/savedGameService';
+import { isSaveDue, SavedGame } from '@/utils/savedGames';
+
+const savedGameKey = (userId?: string) => ['savedGame', userId ?? 'guest'];
+
+/**
+ * The player's unfinished game for the resume prompt, and the calls that keep
+ * it current while they play. Writes run one after another so a late save
+ * can't bring back a game that was just discarded.
+ */
+export const useSavedGame = (userId: string | undefined, enabled: boolean) => {
+  const queryClient = useQueryClient();
+  const { data: savedGame = null } = useQuery({
+    queryKey: savedGameKey(userId),
+    queryFn: () => getSavedGame(userId),
+    enabled,
+    staleTime: 0,
+  });
+
+  const lastSaveRef = useRef<{ game: SavedGame; at: number } | null>(null);
+  const writesRef = useRef<Promise<void>>(Promise.resolve());
+
+  const enqueue = useCallback((write: () => Promise<void>) => {
+    writesRef.current = writesRef.current.then(write).catch(error => {
+      console.warn('⚠️ Could not update the saved game:', error);
+    });
+    return writesRef.current;
+  }, []);
+
+  // Saves the snapshot if it's due; `force` skips the timer throttle
+  const saveProgress = useCallback((game: SavedGame, force: boolean = false) => {
+    const now = Date.now();
+    const last = lastSaveRef.current;
+    if (!force && !isSaveDue(last?.game ?? null, last?.at ?? 0, game, now)) return;
+    lastSaveRef.current = { game, at: now };
+    queryClient.setQueryData(savedGameKey(userId), game);
+    enqueue(() => storeSavedGame(userId, game));
+  }, [userId, queryClient, enqueue]);
+
+  const discardSavedGame = useCallback(() => {
+    lastSaveRef.current = null;
+    queryClient.setQueryData(savedGameKey(userId), null);
+    return enqueue(() => removeSavedGame(userId));
+  }, [userId, queryClient, enqueue]);
+
+  // A different player starts from their own saves
+  useEffect(() => {
+    lastSaveRef.current = null;
+  }, [userId]);
+
+  return { savedGame, saveProgress, discardSavedGame };
+};
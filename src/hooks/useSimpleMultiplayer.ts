@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { getCollection } from '@/services/collectionService';
+import { getCollectionImages } from '@/utils/imageCollections';
 
 /**
  * Types are kept relaxed (any) because the project does not yet have Supabase
@@ -17,6 +19,7 @@ export interface SimpleMultiplayerRoom {
   image_sequence: string[] | null; // Array of image IDs for all rounds
   game_status: 'waiting' | 'playing' | 'finished';
   round_start_time: string | null;
+  collection_id: string | null; // rounds are drawn from this collection only
 }
 
 export interface PlayerScore {
@@ -294,7 +297,7 @@ export const useSimpleMultiplayer = () => {
   }, [loadScores, sb]);
 
   /** Create a new room */
-  const createRoom = useCallback(async (settings: { rounds: number; timePerRound: number; displayName: string }) => {
+  const createRoom = useCallback(async (settings: { rounds: number; timePerRound: number; displayName: string; collectionId?: string | null }) => {
     console.log('🏠 Creating room with user:', user.id, 'settings:', settings);
     const code = Math.random().toString(36).substring(2, 8).toUpperCase();
 
@@ -302,7 +305,8 @@ export const useSimpleMultiplayer = () => {
       room_code: code,
       host_user_id: user.id,
       total_rounds: settings.rounds,
-      time_per_round: settings.timePerRound
+      time_per_round: settings.timePerRound,
+      collection_id: settings.collectionId ?? null
     }).select().single();
 
     if (error || !data) return { success: false, error: error?.message || 'Failed to create room' };
@@ -372,10 +376,15 @@ export const useSimpleMultiplayer = () => {
     try {
       console.log('🖼️ Fetching game images...');
       
-      // Get random images for all rounds (not just current round)
-      const { data: images, error: imageError } = await sb.from('game_images').select('*').limit(50);
+      // Get random images for all rounds (not just current round). A
+      // collection room draws from the collection's images only.
+      const collection = state.room.collection_id ? await getCollection(state.room.collection_id) : null;
+      const { data: allImages, error: imageError } = collection
+        ? await sb.from('game_images').select('*').eq('status', 'active')
+        : await sb.from('game_images').select('*').eq('status', 'active').limit(50);
+      const images = collection && allImages ? getCollectionImages(collection, allImages) : allImages;
       
-      console.log('🖼️ Images query result:', { imageCount: images?.length, imageError });
+      console.log('🖼️ Images query result:', { imageCount: images?.length, collection: collection?.slug, imageError });
       
       if (imageError) {
         console.error('❌ Error fetching images:', imageError);
@@ -464,60 +473,32 @@ export const useSimpleMultiplayer = () => {
       currentRoundScores: state.scores.filter(s => s.round_number === state.room.current_round).length
     });
 
-    // Calculate proper scoring using the same system as local game
-    let totalDisplayScore = 0;
-    
-    if (locationGuess && actualLocation) {
-      // Use the full scoring system when we have location data
-      const { calculateCompleteScore } = await import('@/utils/scoringSystem');
-      
-      const timeRemaining = Math.max(0, (state.room.time_per_round || 60) - timeUsed);
-      const scoreBreakdown = calculateCompleteScore(
-        actualYear,
-        actualLocation.lat,
-        actualLocation.lng,
-        guessedYear,
-        locationGuess.lat,
-        locationGuess.lng,
-        timeRemaining,
-        true, // isTimedMode
-        'per-round'
-      );
-      
-      totalDisplayScore = scoreBreakdown.displayTotalScore;
-      
-      console.log('📊 Full scoring calculation:', {
-        yearGuess: guessedYear,
-        actualYear,
-        locationGuess,
-        actualLocation,
-        timeRemaining,
-        scoreBreakdown,
-        totalDisplayScore
-      });
-    } else {
-      // Fallback: Use simplified year-only scoring but scale to match display scores
-      const yearDiff = Math.abs(guessedYear - actualYear);
-      const { calculateYearScore } = await import('@/utils/scoringSystem');
-      
-      const rawYearScore = calculateYearScore(actualYear, guessedYear);
-      const displayYearScore = rawYearScore * 50; // DISPLAY_MULTIPLIER
-      
-      // Add time bonus if applicable
-      const timeRemaining = Math.max(0, (state.room.time_per_round || 60) - timeUsed);
-      const timeBonus = timeRemaining * 1.5; // Updated TIME_BONUS_MULTIPLIER to match scoring system
-      
-      totalDisplayScore = displayYearScore + timeBonus;
-      
-      console.log('📊 Simplified year-only scoring:', {
-        yearDiff,
-        rawYearScore,
-        displayYearScore,
-        timeRemaining,
-        timeBonus,
-        totalDisplayScore
-      });
-    }
+    // Score through the shared engine, same as single player and duels. A
+    // round without a location guess simply earns no location points.
+    const { scoreRound } = await import('@/utils/scoringSystem');
+    const { calculateDistance } = await import('@/utils/gameUtils');
+
+    const timeRemaining = Math.max(0, (state.room.time_per_round || 60) - timeUsed);
+    const scoreBreakdown = scoreRound({
+      actualYear,
+      guessedYear,
+      distanceKm: locationGuess && actualLocation
+        ? calculateDistance(actualLocation.lat, actualLocation.lng, locationGuess.lat, locationGuess.lng)
+        : null,
+      timeRemaining,
+      isTimedMode: true,
+      timerType: 'per-round'
+    });
+    const totalDisplayScore = scoreBreakdown.displayTotalScore;
+
+    console.log('📊 Scoring calculation:', {
+      yearGuess: guessedYear,
+      actualYear,
+      locationGuess,
+      actualLocation,
+      timeRemaining,
+      scoreBreakdown
+    });
 
     const scoreData = {
       room_id: state.room.id,
@@ -525,7 +506,7 @@ export const useSimpleMultiplayer = () => {
       round_number: state.room.current_round,
       guessed_year: guessedYear,
       actual_year: actualYear,
-      points: Math.round(totalDisplayScore), // Store the display score directly
+      points: totalDisplayScore, // Store the display score directly
       guess_time_seconds: timeUsed
     };
 
@@ -116,24 +116,116 @@ export type Database = {
         }
         Relationships: []
       }
+      custom_challenges: {
+        Row: {
+          center: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          image_ids: string[]
+          round_count: number
+          scoring_profile: string
+          timer_seconds: number | null
+          title: string
+        }
+        Insert: {
+          center?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          image_ids: string[]
+          round_count: number
+          scoring_profile?: string
+          timer_seconds?: number | null
+          title: string
+        }
+        Update: {
+          center?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          image_ids?: string[]
+          round_count?: number
+          scoring_profile?: string
+          timer_seconds?: number | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_challenges_scoring_profile_fkey"
+            columns: ["scoring_profile"]
+            isOneToOne: false
+            referencedRelation: "scoring_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       daily_challenges: {
         Row: {
           challenge_date: string
           created_at: string | null
           id: string
           image_ids: string[]
+          pinned_at: string | null
+          pinned_by: string | null
+          theme_id: string | null
         }
         Insert: {
           challenge_date: string
           created_at?: string | null
           id?: string
           image_ids: string[]
+          pinned_at?: string | null
+          pinned_by?: string | null
+          theme_id?: string | null
         }
         Update: {
           challenge_date?: string
           created_at?: string | null
           id?: string
           image_ids?: string[]
+          pinned_at?: string | null
+          pinned_by?: string | null
+          theme_id?: string | null
+        }
+        Relationships: []
+      }
+      daily_themes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          end_date: string
+          id: string
+          keywords: string[]
+          start_date: string
+          title: string
+          year_from: number | null
+          year_to: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date: string
+          id?: string
+          keywords?: string[]
+          start_date: string
+          title: string
+          year_from?: number | null
+          year_to?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date?: string
+          id?: string
+          keywords?: string[]
+          start_date?: string
+          title?: string
+          year_from?: number | null
+          year_to?: number | null
         }
         Relationships: []
       }
@@ -238,6 +330,7 @@ export type Database = {
           id: string
           is_host: boolean
           joined_at: string
+          team: number
           user_id: string | null
         }
         Insert: {
@@ -247,6 +340,7 @@ export type Database = {
           id?: string
           is_host?: boolean
           joined_at?: string
+          team: number
           user_id?: string | null
         }
         Update: {
@@ -256,6 +350,7 @@ export type Database = {
           id?: string
           is_host?: boolean
           joined_at?: string
+          team?: number
           user_id?: string | null
         }
         Relationships: [
@@ -273,6 +368,7 @@ export type Database = {
           base_deadline: string
           damage: number | null
           duel_id: string
+          game_number: number
           guess_deadline: string | null
           id: string
           image_id: string
@@ -282,12 +378,15 @@ export type Database = {
           round_number: number
           score_diff: number | null
           started_at: string
+          team_scores: number[] | null
           winner_player_id: string | null
+          winner_team: number | null
         }
         Insert: {
           base_deadline: string
           damage?: number | null
           duel_id: string
+          game_number?: number
           guess_deadline?: string | null
           id?: string
           image_id: string
@@ -297,12 +396,15 @@ export type Database = {
           round_number: number
           score_diff?: number | null
           started_at?: string
+          team_scores?: number[] | null
           winner_player_id?: string | null
+          winner_team?: number | null
         }
         Update: {
           base_deadline?: string
           damage?: number | null
           duel_id?: string
+          game_number?: number
           guess_deadline?: string | null
           id?: string
           image_id?: string
@@ -312,7 +414,9 @@ export type Database = {
           round_number?: number
           score_diff?: number | null
           started_at?: string
+          team_scores?: number[] | null
           winner_player_id?: string | null
+          winner_team?: number | null
         }
         Relationships: [
           {
@@ -363,54 +467,82 @@ export type Database = {
       }
       duels: {
         Row: {
+          best_of: number
           code: string
           created_at: string
+          current_game: number
           current_round: number
           finish_reason: string | null
           finished_at: string | null
+          format: string
+          game_wins: number[]
           guess_window_seconds: number
           id: string
           results_seconds: number
           round_seconds: number
+          scoring_profile: string
           started_at: string | null
           starting_hp: number
           status: string
+          team_damage: string
           updated_at: string
           winner_player_id: string | null
+          winner_team: number | null
         }
         Insert: {
+          best_of?: number
           code: string
           created_at?: string
+          current_game?: number
           current_round?: number
           finish_reason?: string | null
           finished_at?: string | null
+          format?: string
+          game_wins?: number[]
           guess_window_seconds?: number
           id?: string
           results_seconds?: number
           round_seconds?: number
+          scoring_profile?: string
           started_at?: string | null
           starting_hp?: number
           status?: string
+          team_damage?: string
           updated_at?: string
           winner_player_id?: string | null
+          winner_team?: number | null
         }
         Update: {
+          best_of?: number
           code?: string
           created_at?: string
+          current_game?: number
           current_round?: number
           finish_reason?: string | null
           finished_at?: string | null
+          format?: string
+          game_wins?: number[]
           guess_window_seconds?: number
           id?: string
           results_seconds?: number
           round_seconds?: number
+          scoring_profile?: string
           started_at?: string | null
           starting_hp?: number
           status?: string
+          team_damage?: string
           updated_at?: string
           winner_player_id?: string | null
+          winner_team?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "duels_scoring_profile_fkey"
+            columns: ["scoring_profile"]
+            isOneToOne: false
+            referencedRelation: "scoring_profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "duels_winner_fk"
             columns: ["winner_player_id"]
@@ -420,6 +552,56 @@ export type Database = {
           },
         ]
       }
+      era_bucket_sets: {
+        Row: {
+          id: string
+          name: string
+        }
+        Insert: {
+          id: string
+          name: string
+        }
+        Update: {
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      era_buckets: {
+        Row: {
+          end_year: number
+          id: string
+          label: string
+          ord: number
+          set_id: string
+          start_year: number
+        }
+        Insert: {
+          end_year: number
+          id: string
+          label: string
+          ord: number
+          set_id: string
+          start_year: number
+        }
+        Update: {
+          end_year?: number
+          id?: string
+          label?: string
+          ord?: number
+          set_id?: string
+          start_year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "era_buckets_set_id_fkey"
+            columns: ["set_id"]
+            isOneToOne: false
+            referencedRelation: "era_bucket_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       feedback: {
         Row: {
           admin_notes: string | null
@@ -464,80 +646,341 @@ export type Database = {
       }
       game_images: {
         Row: {
+          avg_distance_km: number | null
+          avg_year_error: number | null
           created_at: string
           description: string
+          difficulty: string | null
+          difficulty_rounds: number
+          difficulty_score: number | null
+          difficulty_updated_at: string | null
+          hints: Json
           id: string
           image_url: string
           location_lat: number
           location_lng: number
           location_name: string
+          perceptual_hash: string | null
+          score_stddev: number | null
+          skill_rating: number
+          status: string
+          status_changed_at: string | null
+          tags: string[]
           year: number
         }
         Insert: {
+          avg_distance_km?: number | null
+          avg_year_error?: number | null
           created_at?: string
           description: string
+          difficulty?: string | null
+          difficulty_rounds?: number
+          difficulty_score?: number | null
+          difficulty_updated_at?: string | null
+          hints?: Json
           id?: string
           image_url: string
           location_lat: number
           location_lng: number
           location_name: string
+          perceptual_hash?: string | null
+          score_stddev?: number | null
+          skill_rating?: number
+          status?: string
+          status_changed_at?: string | null
+          tags?: string[]
           year: number
         }
         Update: {
+          avg_distance_km?: number | null
+          avg_year_error?: number | null
           created_at?: string
           description?: string
+          difficulty?: string | null
+          difficulty_rounds?: number
+          difficulty_score?: number | null
+          difficulty_updated_at?: string | null
+          hints?: Json
           id?: string
           image_url?: string
           location_lat?: number
           location_lng?: number
           location_name?: string
+          perceptual_hash?: string | null
+          score_stddev?: number | null
+          skill_rating?: number
+          status?: string
+          status_changed_at?: string | null
+          tags?: string[]
           year?: number
         }
         Relationships: []
       }
+      game_regions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          east: number
+          id: string
+          is_preset: boolean
+          is_published: boolean
+          name: string
+          north: number
+          polygon: Json | null
+          slug: string
+          south: number
+          updated_at: string
+          west: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          east: number
+          id?: string
+          is_preset?: boolean
+          is_published?: boolean
+          name: string
+          north: number
+          polygon?: Json | null
+          slug: string
+          south: number
+          updated_at?: string
+          west: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          east?: number
+          id?: string
+          is_preset?: boolean
+          is_published?: boolean
+          name?: string
+          north?: number
+          polygon?: Json | null
+          slug?: string
+          south?: number
+          updated_at?: string
+          west?: number
+        }
+        Relationships: []
+      }
       game_sessions: {
         Row: {
+          challenge_id: string | null
+          collection_id: string | null
           completed_at: string | null
           created_at: string | null
+          daily_date: string | null
+          difficulty: string | null
+          era_bucket_set: string | null
           game_mode: string
           id: string
+          is_public: boolean
+          region_id: string | null
+          round_started_at: string | null
+          round_started_number: number | null
           rounds_completed: number
+          scoring_profile: string
           time_taken: number | null
+          timer_type: string | null
           total_score: number
           user_id: string | null
+          verified_at: string | null
         }
         Insert: {
+          challenge_id?: string | null
+          collection_id?: string | null
           completed_at?: string | null
           created_at?: string | null
+          daily_date?: string | null
+          difficulty?: string | null
+          era_bucket_set?: string | null
           game_mode: string
           id?: string
+          is_public?: boolean
+          region_id?: string | null
+          round_started_at?: string | null
+          round_started_number?: number | null
           rounds_completed: number
+          scoring_profile?: string
           time_taken?: number | null
+          timer_type?: string | null
           total_score: number
           user_id?: string | null
+          verified_at?: string | null
         }
         Update: {
+          challenge_id?: string | null
+          collection_id?: string | null
           completed_at?: string | null
           created_at?: string | null
+          daily_date?: string | null
+          difficulty?: string | null
+          era_bucket_set?: string | null
           game_mode?: string
           id?: string
+          is_public?: boolean
+          region_id?: string | null
+          round_started_at?: string | null
+          round_started_number?: number | null
           rounds_completed?: number
+          scoring_profile?: string
           time_taken?: number | null
+          timer_type?: string | null
           total_score?: number
           user_id?: string | null
+          verified_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_sessions_challenge_id_fkey"
+            columns: ["challenge_id"]
+            isOneToOne: false
+            referencedRelation: "custom_challenges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_sessions_era_bucket_set_fkey"
+            columns: ["era_bucket_set"]
+            isOneToOne: false
+            referencedRelation: "era_bucket_sets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_sessions_scoring_profile_fkey"
+            columns: ["scoring_profile"]
+            isOneToOne: false
+            referencedRelation: "scoring_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      image_collections: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          image_ids: string[]
+          is_published: boolean
+          slug: string
+          tag_filter: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          image_ids?: string[]
+          is_published?: boolean
+          slug: string
+          tag_filter?: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          image_ids?: string[]
+          is_published?: boolean
+          slug?: string
+          tag_filter?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      image_import_dry_runs: {
+        Row: {
+          admin_id: string
+          created_at: string
+          id: string
+          rows_hash: string
+        }
+        Insert: {
+          admin_id: string
+          created_at?: string
+          id?: string
+          rows_hash: string
+        }
+        Update: {
+          admin_id?: string
+          created_at?: string
+          id?: string
+          rows_hash?: string
         }
         Relationships: []
       }
+      photo_submission_events: {
+        Row: {
+          actor_id: string | null
+          actor_role: string
+          assignee_id: string | null
+          body: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          internal: boolean
+          kind: string
+          submission_id: string
+          to_status: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_role: string
+          assignee_id?: string | null
+          body?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          internal?: boolean
+          kind: string
+          submission_id: string
+          to_status?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          actor_role?: string
+          assignee_id?: string | null
+          body?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          internal?: boolean
+          kind?: string
+          submission_id?: string
+          to_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_submission_events_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "photo_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       photo_submissions: {
         Row: {
           admin_notes: string | null
           approval_date: string | null
+          assigned_at: string | null
+          assigned_to: string | null
           clues_description: string | null
           created_at: string | null
           description: string | null
           email: string
           id: string
           location_description: string
+          perceptual_hash: string | null
           photo_metadata: Json | null
           photo_url: string
           rejection_reason: string | null
@@ -552,12 +995,15 @@ export type Database = {
         Insert: {
           admin_notes?: string | null
           approval_date?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
           clues_description?: string | null
           created_at?: string | null
           description?: string | null
           email: string
           id?: string
           location_description: string
+          perceptual_hash?: string | null
           photo_metadata?: Json | null
           photo_url: string
           rejection_reason?: string | null
@@ -572,12 +1018,15 @@ export type Database = {
         Update: {
           admin_notes?: string | null
           approval_date?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
           clues_description?: string | null
           created_at?: string | null
           description?: string | null
           email?: string
           id?: string
           location_description?: string
+          perceptual_hash?: string | null
           photo_metadata?: Json | null
           photo_url?: string
           rejection_reason?: string | null
@@ -597,17 +1046,27 @@ export type Database = {
           actual_location_lng: number
           actual_year: number
           created_at: string | null
+          display_score: number | null
+          distance_km: number | null
+          hints_used: number
           id: string
+          image_description: string | null
           image_id: string | null
-          location_guess_lat: number
-          location_guess_lng: number
+          image_url: string | null
+          location_guess_lat: number | null
+          location_guess_lng: number | null
+          location_name: string | null
           location_score: number
+          radius_km: number
           round_number: number
+          scoring_engine_version: number | null
           session_id: string | null
+          time_bonus: number
           time_used: number | null
           total_round_score: number
           user_id: string | null
-          year_guess: number
+          year_guess: number | null
+          year_margin: number
           year_score: number
         }
         Insert: {
@@ -615,17 +1074,27 @@ export type Database = {
           actual_location_lng: number
           actual_year: number
           created_at?: string | null
+          display_score?: number | null
+          distance_km?: number | null
+          hints_used?: number
           id?: string
+          image_description?: string | null
           image_id?: string | null
-          location_guess_lat: number
-          location_guess_lng: number
+          image_url?: string | null
+          location_guess_lat?: number | null
+          location_guess_lng?: number | null
+          location_name?: string | null
           location_score: number
+          radius_km?: number
           round_number: number
+          scoring_engine_version?: number | null
           session_id?: string | null
+          time_bonus?: number
           time_used?: number | null
           total_round_score: number
           user_id?: string | null
-          year_guess: number
+          year_guess?: number | null
+          year_margin?: number
           year_score: number
         }
         Update: {
@@ -633,17 +1102,27 @@ export type Database = {
           actual_location_lng?: number
           actual_year?: number
           created_at?: string | null
+          display_score?: number | null
+          distance_km?: number | null
+          hints_used?: number
           id?: string
+          image_description?: string | null
           image_id?: string | null
-          location_guess_lat?: number
-          location_guess_lng?: number
+          image_url?: string | null
+          location_guess_lat?: number | null
+          location_guess_lng?: number | null
+          location_name?: string | null
           location_score?: number
+          radius_km?: number
           round_number?: number
+          scoring_engine_version?: number | null
           session_id?: string | null
+          time_bonus?: number
           time_used?: number | null
           total_round_score?: number
           user_id?: string | null
-          year_guess?: number
+          year_guess?: number | null
+          year_margin?: number
           year_score?: number
         }
         Relationships: [
@@ -663,6 +1142,68 @@ export type Database = {
           },
         ]
       }
+      saved_games: {
+        Row: {
+          session_id: string
+          state: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          session_id: string
+          state: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          session_id?: string
+          state?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_games_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "game_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scoring_profiles: {
+        Row: {
+          created_at: string
+          description: string
+          distance_curve: Json
+          distance_unit: string
+          hint_penalty: number
+          id: string
+          name: string
+          year_curve: Json
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          distance_curve: Json
+          distance_unit: string
+          hint_penalty?: number
+          id: string
+          name: string
+          year_curve: Json
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          distance_curve?: Json
+          distance_unit?: string
+          hint_penalty?: number
+          id?: string
+          name?: string
+          year_curve?: Json
+        }
+        Relationships: []
+      }
       simple_multiplayer_players: {
         Row: {
           display_name: string
@@ -697,6 +1238,7 @@ export type Database = {
       }
       simple_multiplayer_rooms: {
         Row: {
+          collection_id: string | null
           created_at: string | null
           current_image_id: string | null
           current_round: number | null
@@ -711,6 +1253,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          collection_id?: string | null
           created_at?: string | null
           current_image_id?: string | null
           current_round?: number | null
@@ -725,6 +1268,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          collection_id?: string | null
           created_at?: string | null
           current_image_id?: string | null
           current_round?: number | null
@@ -877,6 +1421,27 @@ export type Database = {
         }
         Relationships: []
       }
+      user_skill_ratings: {
+        Row: {
+          rating: number
+          rounds: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          rating?: number
+          rounds?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          rating?: number
+          rounds?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       daily_game_stats: {
@@ -958,10 +1523,34 @@ export type Database = {
         }
       }
       _duel_resolve_round: { Args: { p_round_id: string }; Returns: undefined }
+      _era_bucket_ord: { Args: { p_set: string; p_year: number }; Returns: number }
       _is_admin: { Args: never; Returns: boolean }
+      _scoring_curve_score: {
+        Args: { p_curve: Json; p_value: number }
+        Returns: number
+      }
+      _scoring_profile: {
+        Args: { p_profile: string }
+        Returns: {
+          created_at: string
+          description: string
+          distance_curve: Json
+          distance_unit: string
+          id: string
+          name: string
+          year_curve: Json
+        }
+        SetofOptions: {
+          from: "*"
+          to: "scoring_profiles"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       admin_approve_photo_submission: {
         Args: {
           p_description: string
+          p_hints?: Json
           p_id: string
           p_image_url: string
           p_lat: number
@@ -972,17 +1561,90 @@ export type Database = {
         }
         Returns: Json
       }
+      admin_assign_photo_submission: {
+        Args: { p_assignee: string; p_id: string }
+        Returns: Json
+      }
       admin_clean_old_analytics: { Args: { p_days?: number }; Returns: Json }
+      admin_comment_photo_submission: {
+        Args: { p_body: string; p_id: string; p_internal?: boolean }
+        Returns: Json
+      }
+      admin_create_custom_challenge: {
+        Args: {
+          p_center?: string
+          p_image_ids: string[]
+          p_round_count: number
+          p_scoring_profile?: string
+          p_timer_seconds?: number
+          p_title: string
+        }
+        Returns: Json
+      }
       admin_daily_summary: { Args: { p_days?: number }; Returns: Json }
+      admin_delete_daily_theme: { Args: { p_theme_id: string }; Returns: Json }
+      admin_delete_game_region: { Args: { p_region_id: string }; Returns: Json }
+      admin_delete_image_collection: {
+        Args: { p_collection_id: string }
+        Returns: Json
+      }
+      admin_image_usage: { Args: { p_image_id: string }; Returns: Json }
+      admin_import_images: {
+        Args: { p_confirm_token?: string; p_rows: Json }
+        Returns: Json
+      }
       admin_list_feedback: { Args: { p_limit?: number }; Returns: Json }
       admin_list_users: {
         Args: { p_limit?: number; p_offset?: number; p_search?: string }
         Returns: Json
       }
       admin_overview: { Args: never; Returns: Json }
+      admin_pin_daily_challenge: {
+        Args: { p_date: string; p_image_ids: string[]; p_theme_id?: string }
+        Returns: Json
+      }
       admin_recent_activity: { Args: { p_limit?: number }; Returns: Json }
+      admin_recompute_image_difficulty: { Args: never; Returns: Json }
       admin_reset_user_stats: { Args: { p_target: string }; Returns: Json }
+      admin_save_daily_theme: {
+        Args: {
+          p_description?: string
+          p_end_date: string
+          p_keywords?: string[]
+          p_start_date: string
+          p_theme_id?: string
+          p_title: string
+          p_year_from?: number
+          p_year_to?: number
+        }
+        Returns: Json
+      }
+      admin_save_game_region: {
+        Args: {
+          p_description?: string
+          p_is_published?: boolean
+          p_name: string
+          p_polygon: Json
+          p_region_id?: string
+          p_slug: string
+        }
+        Returns: Json
+      }
+      admin_save_image_collection: {
+        Args: {
+          p_collection_id?: string
+          p_description?: string
+          p_image_ids?: string[]
+          p_is_published?: boolean
+          p_slug: string
+          p_tag_filter?: string[]
+          p_title: string
+        }
+        Returns: Json
+      }
       admin_list_photo_submissions: { Args: { p_limit?: number }; Returns: Json }
+      admin_list_photo_submission_events: { Args: { p_id: string }; Returns: Json }
+      admin_list_reviewers: { Args: never; Returns: Json }
       admin_set_feedback_status: {
         Args: { p_id: string; p_notes?: string; p_status: string }
         Returns: Json
@@ -990,17 +1652,67 @@ export type Database = {
       admin_set_photo_submission_status: {
         Args: {
           p_id: string
+          p_message?: string
           p_notes?: string
           p_rejection_reason?: string
           p_status: string
         }
         Returns: Json
       }
+      admin_set_game_region_published: {
+        Args: { p_published: boolean; p_region_id: string }
+        Returns: Json
+      }
+      admin_set_image_hashes: { Args: { p_hashes: Json }; Returns: Json }
+      admin_set_image_status: {
+        Args: { p_image_id: string; p_status: string }
+        Returns: Json
+      }
+      admin_set_image_tags: {
+        Args: { p_image_id: string; p_tags: string[] }
+        Returns: Json
+      }
       admin_set_user_ban: {
         Args: { p_banned: boolean; p_reason?: string; p_target: string }
         Returns: Json
       }
+      admin_unpin_daily_challenge: { Args: { p_date: string }; Returns: Json }
+      admin_update_image: {
+        Args: {
+          p_description: string
+          p_image_id: string
+          p_lat: number
+          p_lng: number
+          p_location_name: string
+          p_year: number
+        }
+        Returns: Json
+      }
       cleanup_expired_rooms: { Args: never; Returns: number }
+      complete_game_session: {
+        Args: { p_session_id: string; p_time_taken?: number }
+        Returns: {
+          completed_at: string | null
+          created_at: string | null
+          era_bucket_set: string | null
+          game_mode: string
+          id: string
+          rounds_completed: number
+          scoring_profile: string
+          time_taken: number | null
+          timer_type: string | null
+          total_score: number
+          user_id: string | null
+          verified_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "game_sessions"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      discard_saved_game: { Args: never; Returns: undefined }
       duel_advance_round: { Args: { p_duel_id: string }; Returns: Json }
       duel_create: {
         Args: { p_display_name: string; p_settings?: Json }
@@ -1041,11 +1753,27 @@ export type Database = {
         }
         Returns: Json
       }
+      duel_switch_team: { Args: { p_token: string }; Returns: Json }
+      duel_team_size: { Args: { p_format: string }; Returns: number }
       duel_year_score: {
         Args: { p_actual: number; p_guessed: number }
         Returns: number
       }
+      game_mode_scored_dimension: {
+        Args: { p_game_mode: string }
+        Returns: string
+      }
       generate_unique_room_code: { Args: never; Returns: string }
+      get_daily_archive: {
+        Args: never
+        Returns: {
+          challenge_date: string
+          ranked_rounds: number
+          ranked_score: number
+          replay_best_score: number
+        }[]
+      }
+      get_game_replay: { Args: { p_session_id: string }; Returns: Json }
       get_leaderboard: {
         Args: {
           game_mode_filter?: string
@@ -1069,11 +1797,16 @@ export type Database = {
         Args: { image_count?: number }
         Returns: string[]
       }
+      get_my_photo_submissions: { Args: never; Returns: Json }
+      get_my_round_history: { Args: { p_limit?: number }; Returns: Json }
       get_session_leaderboard: {
         Args: {
+          challenge_filter?: string
+          collection_filter?: string
           end_ts?: string
           game_mode_filter?: string
           limit_count?: number
+          scoring_profile_filter?: string
           start_ts?: string
         }
         Returns: {
@@ -1104,6 +1837,85 @@ export type Database = {
           username: string
         }[]
       }
+      reply_to_photo_submission: {
+        Args: { p_body: string; p_id: string }
+        Returns: Json
+      }
+      resubmit_photo_submission: {
+        Args: {
+          p_clues_description: string
+          p_description: string
+          p_id: string
+          p_location_description: string
+          p_message?: string
+          p_year_confidence: string
+          p_year_taken: number
+        }
+        Returns: Json
+      }
+      save_game_progress: {
+        Args: { p_session_id: string; p_state: Json }
+        Returns: undefined
+      }
+      scoring_engine_version: { Args: never; Returns: number }
+      scoring_era_year_score: {
+        Args: { p_actual: number; p_guessed: number; p_set: string }
+        Returns: number
+      }
+      scoring_location_score_from_km: {
+        Args: { p_km: number; p_profile: string }
+        Returns: number
+      }
+      scoring_range_score: {
+        Args: { p_half_at: number; p_miss: number; p_width: number }
+        Returns: number
+      }
+      scoring_score_round: {
+        Args: {
+          p_actual_year: number
+          p_distance_km: number
+          p_era_bucket_set?: string
+          p_guessed_year: number | null
+          p_hints_used?: number
+          p_per_round_timer?: boolean
+          p_profile: string
+          p_radius_km?: number
+          p_scored_dimension?: string
+          p_time_remaining?: number
+          p_year_margin?: number
+        }
+        Returns: Json
+      }
+      scoring_year_score: {
+        Args: { p_actual: number; p_guessed: number; p_profile: string }
+        Returns: number
+      }
+      set_game_replay_public: {
+        Args: { p_public: boolean; p_session_id: string }
+        Returns: undefined
+      }
+      start_round: {
+        Args: {
+          p_round_number: number
+          p_session_id: string
+        }
+        Returns: number
+      }
+      submit_round_guess: {
+        Args: {
+          p_hints_used?: number
+          p_image_id: string
+          p_lat: number | null
+          p_lng: number | null
+          p_radius_km?: number
+          p_round_number: number
+          p_session_id: string
+          p_time_used?: number
+          p_year: number | null
+          p_year_margin?: number
+        }
+        Returns: Json
+      }
       update_user_stats: {
         Args: {
           game_score: number
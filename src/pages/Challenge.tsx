@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { Check, Flag, Home, Image as ImageIcon, Link2, Play, Timer } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/LoadingStates';
+import Game from '@/components/Game';
+import ChallengeLeaderboard from '@/components/challenge/ChallengeLeaderboard';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  getChallenge,
+  getChallengeImages,
+  getChallengeLeaderboard,
+  getMyChallengeSession,
+  type ChallengeLeaderboardRow,
+} from '@/services/challengeService';
+import { getChallengeUrl } from '@/utils/customChallenge';
+import { getScoringProfile } from '@/utils/scoringProfiles';
+import type { CustomChallenge, GameImage, GameSession } from '@/types/game';
+
+type Phase = 'loading' | 'error' | 'intro' | 'playing';
+
+/** /challenge/:id — intro card and leaderboard for a shared challenge, then
+ *  the regular game played over the challenge's fixed image sequence. */
+const ChallengePage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [phase, setPhase] = useState<Phase>('loading');
+  const [error, setError] = useState('');
+  const [challenge, setChallenge] = useState<CustomChallenge | null>(null);
+  const [images, setImages] = useState<GameImage[]>([]);
+  const [mySession, setMySession] = useState<GameSession | null>(null);
+  const [leaderboard, setLeaderboard] = useState<ChallengeLeaderboardRow[]>([]);
+  const [leaderboardLoading, setLeaderboardLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  const refreshLeaderboard = useCallback(async () => {
+    if (!id) return;
+    setLeaderboardLoading(true);
+    try {
+      setLeaderboard(await getChallengeLeaderboard(id));
+    } catch (e) {
+      console.error('Failed to load challenge leaderboard:', e);
+    } finally {
+      setLeaderboardLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const found = await getChallenge(id);
+        if (!found) throw new Error('This challenge does not exist or was removed.');
+        const sequence = await getChallengeImages(found);
+        if (sequence.length === 0) throw new Error('None of this challenge’s photos are available any more.');
+        if (cancelled) return;
+        setChallenge(found);
+        setImages(sequence);
+        setPhase('intro');
+      } catch (e) {
+        if (cancelled) return;
+        setError(e instanceof Error ? e.message : 'Could not load the challenge');
+        setPhase('error');
+      }
+    })();
+    refreshLeaderboard();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, refreshLeaderboard]);
+
+  // The player's attempt decides between Play, Resume and "already played"
+  useEffect(() => {
+    if (!id || !user || phase !== 'intro') return;
+    getMyChallengeSession(id, user.id)
+      .then(setMySession)
+      .catch((e) => console.error('Failed to load challenge session:', e));
+  }, [id, user, phase]);
+
+  const handleCopyLink = async () => {
+    if (!challenge) return;
+    try {
+      await navigator.clipboard.writeText(getChallengeUrl(challenge.id));
+      setCopied(true);
+      toast.success('Challenge link copied!');
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error('Could not copy — your browser blocked clipboard access');
+    }
+  };
+
+  const handleExit = useCallback(() => {
+    setPhase('intro');
+    setMySession(null);
+    refreshLeaderboard();
+  }, [refreshLeaderboard]);
+
+  if (phase === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-cream">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">Loading challenge…</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'error' || !challenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-cream p-6">
+        <div className="max-w-md w-full bg-white border-2 border-gray-200 rounded-2xl p-8 text-center space-y-4">
+          <h1 className="text-2xl font-bold text-gray-900">Challenge not found</h1>
+          <p className="text-gray-600">{error || 'Check the link and try again.'}</p>
+          <Button
+            onClick={() => navigate('/')}
+            className="bg-brand hover:bg-brand-dark text-white rounded-xl font-bold"
+          >
+            <Home className="h-4 w-4 mr-2" />
+            Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'playing') {
+    return (
+      <Game
+        challenge={challenge}
+        challengeImages={images}
+        challengeSession={mySession}
+        onChallengeExit={handleExit}
+      />
+    );
+  }
+
+  const finished =
+    mySession !== null &&
+    (mySession.verified_at !== null || mySession.rounds_completed >= images.length);
+  const inProgress = mySession !== null && !finished;
+
+  return (
+    <div className="bg-cream min-h-screen p-4 lg:p-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="bg-white border-2 border-gray-200 rounded-2xl p-6 lg:p-8 space-y-5">
+          <div>
+            <p className="text-sm font-medium text-brand uppercase tracking-wide">Challenge</p>
+            <h1 className="text-3xl font-bold text-gray-900">{challenge.title}</h1>
+            {challenge.center && <p className="text-gray-600 mt-1">{challenge.center}</p>}
+          </div>
+
+          <div className="flex flex-wrap gap-3 text-sm text-gray-700">
+            <span className="inline-flex items-center gap-1.5 bg-gray-100 rounded-full px-3 py-1">
+              <ImageIcon size={14} />
+              {images.length} rounds
+            </span>
+            <span className="inline-flex items-center gap-1.5 bg-gray-100 rounded-full px-3 py-1">
+              <Timer size={14} />
+              {challenge.timer_seconds ? `${challenge.timer_seconds}s per round` : 'Untimed'}
+            </span>
+            <span className="inline-flex items-center gap-1.5 bg-gray-100 rounded-full px-3 py-1">
+              <Flag size={14} />
+              {getScoringProfile(challenge.scoring_profile).name} scoring
+            </span>
+          </div>
+
+          {finished ? (
+            <p className="rounded-xl bg-emerald-50 border border-emerald-200 px-4 py-3 text-emerald-800">
+              You have played this challenge — {Math.round(mySession.total_score).toLocaleString()} points.
+            </p>
+          ) : (
+            !user &&
+            !authLoading && (
+              <p className="text-sm text-gray-500">
+                Sign in from the home page to get your score on the leaderboard.
+              </p>
+            )
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            {!finished && (
+              <Button
+                onClick={() => setPhase('playing')}
+                disabled={authLoading}
+                className="bg-brand hover:bg-brand-dark text-white rounded-xl font-bold"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {inProgress ? `Resume (round ${mySession.rounds_completed + 1})` : 'Play'}
+              </Button>
+            )}
+            <Button onClick={handleCopyLink} variant="outline" className="rounded-xl border-2">
+              {copied ? (
+                <Check className="h-4 w-4 mr-2 text-emerald-600" />
+              ) : (
+                <Link2 className="h-4 w-4 mr-2" />
+              )}
+              Copy link
+            </Button>
+            <Button onClick={() => navigate('/')} variant="outline" className="rounded-xl border-2">
+              <Home className="h-4 w-4 mr-2" />
+              Home
+            </Button>
+          </div>
+        </div>
+
+        <ChallengeLeaderboard rows={leaderboard} myId={user?.id} loading={leaderboardLoading} />
+      </div>
+    </div>
+  );
+};
+
+export default ChallengePage;
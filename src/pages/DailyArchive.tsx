@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { toast } from 'sonner';
+import { Flame, Home, Play, RotateCcw, Trophy } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/LoadingStates';
+import Game from '@/components/Game';
+import { useAuth } from '@/hooks/useAuth';
+import { getDailyArchive, getDailyArchiveImages } from '@/services/dailyArchiveService';
+import {
+  DAILY_CHALLENGE_ROUNDS,
+  getArchiveStreaks,
+  getEasternDateString,
+  isRankedDayComplete,
+} from '@/utils/dailyStreaks';
+import type { DailyArchiveDay, GameImage } from '@/types/game';
+
+type Phase = 'loading' | 'error' | 'browse' | 'playing';
+
+// Archive days are Eastern-Time YYYY-MM-DD strings; the calendar works in
+// local Date objects, so convert by calendar fields rather than instants.
+const toDate = (day: string): Date => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+const toDay = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const formatDay = (day: string) =>
+  toDate(day).toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+/** /daily — calendar of past daily challenges with the player's score for
+ *  each day, streaks, and unranked replays of days they missed. */
+const DailyArchivePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [phase, setPhase] = useState<Phase>('loading');
+  const [error, setError] = useState('');
+  const [archive, setArchive] = useState<DailyArchiveDay[]>([]);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [replay, setReplay] = useState<{ date: string; images: GameImage[] } | null>(null);
+  const [startingReplay, setStartingReplay] = useState(false);
+
+  const today = getEasternDateString();
+
+  const load = useCallback(async () => {
+    try {
+      setArchive(await getDailyArchive());
+      setPhase('browse');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load the archive');
+      setPhase('error');
+    }
+  }, []);
+
+  // Reload once we know who is signed in: guests get the days without scores
+  useEffect(() => {
+    if (authLoading) return;
+    load();
+  }, [authLoading, user?.id, load]);
+
+  const byDay = useMemo(
+    () => new Map(archive.map((day) => [day.challenge_date, day])),
+    [archive]
+  );
+  const streaks = useMemo(() => getArchiveStreaks(archive, today), [archive, today]);
+
+  const modifiers = useMemo(() => {
+    const ranked: Date[] = [];
+    const replayed: Date[] = [];
+    const missed: Date[] = [];
+    for (const day of archive) {
+      if (day.challenge_date >= today) continue;
+      const date = toDate(day.challenge_date);
+      if (isRankedDayComplete(day)) ranked.push(date);
+      else if (day.replay_best_score !== null) replayed.push(date);
+      else missed.push(date);
+    }
+    return { ranked, replayed, missed };
+  }, [archive, today]);
+
+  const handleExit = useCallback(() => {
+    setReplay(null);
+    setPhase('loading');
+    load();
+  }, [load]);
+
+  const handleReplay = async (day: string) => {
+    setStartingReplay(true);
+    try {
+      const images = await getDailyArchiveImages(day);
+      if (images.length === 0) {
+        toast.error('The photos for this day are no longer available');
+        return;
+      }
+      setReplay({ date: day, images });
+      setPhase('playing');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not load that day');
+    } finally {
+      setStartingReplay(false);
+    }
+  };
+
+  const dailyReplay = useMemo(
+    () => (replay ? { ...replay, onExit: handleExit } : undefined),
+    [replay, handleExit]
+  );
+
+  if (phase === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-cream">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">Loading the archive…</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'error') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-cream p-6">
+        <div className="max-w-md w-full bg-white border-2 border-gray-200 rounded-2xl p-8 text-center space-y-4">
+          <h1 className="text-2xl font-bold text-gray-900">Archive unavailable</h1>
+          <p className="text-gray-600">{error}</p>
+          <Button
+            onClick={() => navigate('/')}
+            className="bg-brand hover:bg-brand-dark text-white rounded-xl font-bold"
+          >
+            <Home className="h-4 w-4 mr-2" />
+            Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'playing' && dailyReplay) {
+    return <Game dailyReplay={dailyReplay} />;
+  }
+
+  const selected = selectedDay ? byDay.get(selectedDay) : undefined;
+  const selectedIsToday = selectedDay === today;
+  const rankedComplete = selected ? isRankedDayComplete(selected) : false;
+
+  return (
+    <div className="bg-cream min-h-screen p-4 lg:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div>
+            <p className="text-sm font-medium text-brand uppercase tracking-wide">Daily Challenge</p>
+            <h1 className="text-3xl font-bold text-gray-900">Archive</h1>
+          </div>
+          <Button onClick={() => navigate('/')} variant="outline" className="rounded-xl border-2">
+            <Home className="h-4 w-4 mr-2" />
+            Home
+          </Button>
+        </div>
+
+        {user ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-white border-2 border-gray-200 rounded-2xl p-4 flex items-center gap-3">
+              <Flame className="h-8 w-8 text-orange-500" />
+              <div>
+                <div className="text-2xl font-bold text-gray-900">{streaks.current}</div>
+                <div className="text-sm text-gray-600">Current streak</div>
+              </div>
+            </div>
+            <div className="bg-white border-2 border-gray-200 rounded-2xl p-4 flex items-center gap-3">
+              <Trophy className="h-8 w-8 text-yellow-500" />
+              <div>
+                <div className="text-2xl font-bold text-gray-900">{streaks.longest}</div>
+                <div className="text-sm text-gray-600">Longest streak</div>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Sign in from the home page to see your scores and streaks.
+          </p>
+        )}
+
+        <div className="bg-white border-2 border-gray-200 rounded-2xl p-4 lg:p-6 grid gap-6 md:grid-cols-[auto_1fr]">
+          <div>
+            <Calendar
+              mode="single"
+              selected={selectedDay ? toDate(selectedDay) : undefined}
+              onSelect={(date) => setSelectedDay(date ? toDay(date) : null)}
+              toDate={toDate(today)}
+              disabled={(date) => !byDay.has(toDay(date))}
+              modifiers={modifiers}
+              modifiersClassNames={{
+                ranked: 'bg-emerald-100 text-emerald-900 font-semibold',
+                replayed: 'bg-sky-100 text-sky-900',
+                missed: 'text-brand',
+              }}
+            />
+            <div className="flex flex-wrap gap-3 px-3 text-xs text-gray-600">
+              <span className="inline-flex items-center gap-1.5">
+                <span className="w-3 h-3 rounded bg-emerald-100" /> Played
+              </span>
+              <span className="inline-flex items-center gap-1.5">
+                <span className="w-3 h-3 rounded bg-sky-100" /> Replayed
+              </span>
+              <span className="inline-flex items-center gap-1.5">
+                <span className="w-3 h-3 rounded border border-brand" /> Missed
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {!selected || !selectedDay ? (
+              <p className="text-gray-600">
+                Pick a day to see your score. Missed days can be replayed, unranked.
+              </p>
+            ) : (
+              <>
+                <h2 className="text-xl font-bold text-gray-900">{formatDay(selectedDay)}</h2>
+                {selected.ranked_score !== null ? (
+                  <p className="rounded-xl bg-emerald-50 border border-emerald-200 px-4 py-3 text-emerald-800">
+                    {rankedComplete
+                      ? `You scored ${selected.ranked_score.toLocaleString()} points on the day.`
+                      : `You played ${selected.ranked_rounds} of ${DAILY_CHALLENGE_ROUNDS} rounds on the day (${selected.ranked_score.toLocaleString()} points).`}
+                  </p>
+                ) : (
+                  user &&
+                  !selectedIsToday && (
+                    <p className="text-gray-600">You didn’t play this challenge on the day.</p>
+                  )
+                )}
+                {selected.replay_best_score !== null && (
+                  <p className="text-gray-700">
+                    Best replay: {selected.replay_best_score.toLocaleString()} points{' '}
+                    <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      Unranked
+                    </span>
+                  </p>
+                )}
+
+                {selectedIsToday ? (
+                  <Button
+                    onClick={() => navigate('/')}
+                    className="bg-brand hover:bg-brand-dark text-white rounded-xl font-bold"
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    Play today’s challenge
+                  </Button>
+                ) : (
+                  !rankedComplete && (
+                    <div className="space-y-2">
+                      <Button
+                        onClick={() => handleReplay(selectedDay)}
+                        disabled={startingReplay}
+                        className="bg-brand hover:bg-brand-dark text-white rounded-xl font-bold"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        {startingReplay ? 'Loading…' : 'Replay (unranked)'}
+                      </Button>
+                      <p className="text-xs text-gray-500">
+                        Replays don’t count towards leaderboards, stats or streaks.
+                      </p>
+                    </div>
+                  )
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DailyArchivePage;
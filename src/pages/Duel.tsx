@@ -7,8 +7,11 @@ import { LoadingSpinner } from '@/components/ui/LoadingStates';
 import { useDuel } from '@/hooks/useDuel';
 import DuelLobby from '@/components/duel/DuelLobby';
 import DuelRoundView from '@/components/duel/DuelRoundView';
+import DuelSpectatorView from '@/components/duel/DuelSpectatorView';
 import DuelResultsView from '@/components/duel/DuelResultsView';
 import DuelGameOverView from '@/components/duel/DuelGameOverView';
+import DuelReactionBar from '@/components/duel/DuelReactionBar';
+import DuelReactionOverlay from '@/components/duel/DuelReactionOverlay';
 
 /** /duel/:code — lobby, live match, round results and game-over screens.
  *  Players are recognized via their stored token; everyone else spectates. */
@@ -76,7 +79,6 @@ const DuelPage: React.FC = () => {
   }
 
   const { state } = duel;
-  const maxHp = state.duel.starting_hp;
 
   return (
     <div className="bg-cream min-h-screen">
@@ -96,15 +98,35 @@ const DuelPage: React.FC = () => {
               )
             )
           }
+          onSwitchTeam={() =>
+            duel.switchTeam().catch((e) =>
+              toast.error(
+                e instanceof Error ? e.message : 'Could not switch teams'
+              )
+            )
+          }
           onLeave={handleLeave}
         />
       )}
 
-      {duel.phase === 'round' && state.round && (
+      {duel.phase === 'round' && state.round && duel.isSpectator && (
+        <DuelSpectatorView
+          duel={state.duel}
+          players={duel.players}
+          round={state.round}
+          image={duel.image}
+          guessWindowArmed={duel.guessWindowArmed}
+          remainingMs={duel.roundRemainingMs}
+          onlinePlayerIds={duel.onlinePlayerIds}
+          spectatorCount={duel.spectatorCount}
+        />
+      )}
+
+      {duel.phase === 'round' && state.round && !duel.isSpectator && (
         <DuelRoundView
+          duel={state.duel}
           players={duel.players}
           myId={state.me}
-          maxHp={maxHp}
           round={state.round}
           image={duel.image}
           myGuess={state.my_guess}
@@ -123,9 +145,9 @@ const DuelPage: React.FC = () => {
         (duel.roundResults &&
         duel.roundResults.round_number === state.round?.round_number ? (
           <DuelResultsView
+            duel={state.duel}
             players={duel.players}
             myId={state.me}
-            maxHp={maxHp}
             results={duel.roundResults}
             resultsRemainingMs={duel.resultsRemainingMs}
             onlinePlayerIds={duel.onlinePlayerIds}
@@ -163,11 +185,18 @@ const DuelPage: React.FC = () => {
 
       {duel.isSpectator &&
         (duel.phase === 'round' || duel.phase === 'results') && (
-          <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-20 inline-flex items-center gap-2 bg-gray-900/85 text-white px-4 py-2 rounded-full text-sm shadow-lg pointer-events-none">
+          <div className="fixed bottom-4 left-4 z-20 inline-flex items-center gap-2 bg-gray-900/85 text-white px-4 py-2 rounded-full text-sm shadow-lg pointer-events-none">
             <Eye size={14} />
             Spectator mode
           </div>
         )}
+
+      {/* Reactions float for everyone once the match is underway; only
+          spectators get the bar to send them. */}
+      {duel.phase !== 'lobby' && <DuelReactionOverlay reactions={duel.reactions} />}
+      {duel.isSpectator && duel.phase !== 'lobby' && (
+        <DuelReactionBar onReact={duel.sendReaction} />
+      )}
     </div>
   );
 };
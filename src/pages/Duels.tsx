@@ -4,6 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ArrowLeft, Eye, Home, LogIn, Plus, Swords, Target } from 'lucide-react';
 import { createDuel, joinDuel } from '@/services/duelService';
+import type { ScoringProfileId } from '@/types/game';
+import type { DuelBestOf, DuelFormat, DuelTeamDamage } from '@/types/duel';
+import { SCORING_PROFILES, SCORING_PROFILE_IDS } from '@/utils/scoringProfiles';
+import { DUEL_BEST_OF_OPTIONS } from '@/utils/duelFormats';
 
 type View = 'menu' | 'create' | 'join';
 
@@ -14,6 +18,14 @@ const HP_OPTIONS = [
 ];
 const ROUND_TIME_OPTIONS = [60, 120, 180];
 const GUESS_WINDOW_OPTIONS = [10, 15, 30];
+const FORMAT_OPTIONS: { value: DuelFormat; label: string; hint: string }[] = [
+  { value: '1v1', label: '1v1', hint: 'Head to head' },
+  { value: '2v2', label: '2v2', hint: 'Teams of two' },
+];
+const TEAM_DAMAGE_OPTIONS: { value: DuelTeamDamage; label: string; hint: string }[] = [
+  { value: 'best', label: 'Best guess', hint: "Team's top score counts" },
+  { value: 'average', label: 'Average', hint: 'Both guesses count' },
+];
 
 const optionButton = (selected: boolean) =>
   `flex-1 rounded-xl border-2 px-3 py-3 text-center transition-all ${
@@ -36,6 +48,10 @@ const DuelsPage: React.FC = () => {
   const [hp, setHp] = useState(12000);
   const [roundSeconds, setRoundSeconds] = useState(120);
   const [guessWindow, setGuessWindow] = useState(15);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfileId>('classic');
+  const [format, setFormat] = useState<DuelFormat>('1v1');
+  const [bestOf, setBestOf] = useState<DuelBestOf>(1);
+  const [teamDamage, setTeamDamage] = useState<DuelTeamDamage>('best');
 
   const rememberName = (name: string) => {
     try {
@@ -58,6 +74,10 @@ const DuelsPage: React.FC = () => {
         starting_hp: hp,
         round_seconds: roundSeconds,
         guess_window_seconds: guessWindow,
+        scoring_profile: scoringProfile,
+        format,
+        best_of: bestOf,
+        team_damage: teamDamage,
       });
       navigate(`/duel/${res.code}`);
     } catch (e) {
@@ -147,6 +167,77 @@ const DuelsPage: React.FC = () => {
                 />
               </div>
 
+              <div>
+                <label className="block text-lg font-semibold text-gray-900 mb-3">
+                  Format
+                </label>
+                <div className="flex gap-3">
+                  {FORMAT_OPTIONS.map((o) => (
+                    <button
+                      key={o.value}
+                      onClick={() => setFormat(o.value)}
+                      className={optionButton(format === o.value)}
+                    >
+                      <div className="font-bold">{o.label}</div>
+                      <div
+                        className={`text-xs ${format === o.value ? 'text-white/80' : 'text-gray-500'}`}
+                      >
+                        {o.hint}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {format === '2v2' && (
+                <div>
+                  <label className="block text-lg font-semibold text-gray-900 mb-3">
+                    Team score
+                  </label>
+                  <div className="flex gap-3">
+                    {TEAM_DAMAGE_OPTIONS.map((o) => (
+                      <button
+                        key={o.value}
+                        onClick={() => setTeamDamage(o.value)}
+                        className={optionButton(teamDamage === o.value)}
+                      >
+                        <div className="font-bold">{o.label}</div>
+                        <div
+                          className={`text-xs ${teamDamage === o.value ? 'text-white/80' : 'text-gray-500'}`}
+                        >
+                          {o.hint}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-sm text-gray-500 mt-2">
+                    The gap between the team scores is dealt to the losing team's shared HP
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-lg font-semibold text-gray-900 mb-3">
+                  Match length
+                </label>
+                <div className="flex gap-3">
+                  {DUEL_BEST_OF_OPTIONS.map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => setBestOf(n)}
+                      className={optionButton(bestOf === n)}
+                    >
+                      <div className="font-bold">{n === 1 ? 'Single game' : `Best of ${n}`}</div>
+                    </button>
+                  ))}
+                </div>
+                {bestOf > 1 && (
+                  <p className="text-sm text-gray-500 mt-2">
+                    Each knockout wins a game; HP resets between games
+                  </p>
+                )}
+              </div>
+
               <div>
                 <label className="block text-lg font-semibold text-gray-900 mb-3">
                   Health pool
@@ -206,6 +297,26 @@ const DuelsPage: React.FC = () => {
                 </p>
               </div>
 
+              <div>
+                <label className="block text-lg font-semibold text-gray-900 mb-3">
+                  Scoring
+                </label>
+                <div className="flex gap-3">
+                  {SCORING_PROFILE_IDS.map((id) => (
+                    <button
+                      key={id}
+                      onClick={() => setScoringProfile(id)}
+                      className={optionButton(scoringProfile === id)}
+                    >
+                      <div className="font-bold">{SCORING_PROFILES[id].name}</div>
+                    </button>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  {SCORING_PROFILES[scoringProfile].description}
+                </p>
+              </div>
+
               {error && (
                 <div className="p-4 bg-red-50 border border-red-200 rounded-2xl">
                   <p className="text-red-600 font-medium text-center">{error}</p>
@@ -0,0 +1,354 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { Check, ChevronLeft, ChevronRight, Clock, Home, Lightbulb, Link2, MapPin, Pause, Play, Trophy } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/LoadingStates';
+import ReplayRoundMap from '@/components/replay/ReplayRoundMap';
+import { useAuth } from '@/hooks/useAuth';
+import { getGameReplay, setReplayPublic } from '@/services/replayService';
+import {
+  formatRoundTime,
+  getReplayResults,
+  getReplayUrl,
+  getYearSliderPercent,
+  REPLAY_ROUND_MS,
+} from '@/utils/gameReplay';
+import { getGameModeLabel } from '@/utils/gameUtils';
+import { GAME_CONSTANTS } from '@/constants/gameConstants';
+import type { GameReplay } from '@/types/game';
+
+type Phase = 'loading' | 'error' | 'ready';
+
+const { MIN: MIN_YEAR, MAX: MAX_YEAR } = GAME_CONSTANTS.YEAR_RANGE;
+
+/** /game/:sessionId — a finished game played back round by round: the photo,
+ *  both pins on the map, where the year slider was left and the time taken.
+ *  Owners can make the replay public to share the link. */
+const GameReplayPage: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { loading: authLoading } = useAuth();
+  const [phase, setPhase] = useState<Phase>('loading');
+  const [error, setError] = useState('');
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [savingShare, setSavingShare] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Wait for the session so owners (and admins) get their private replays
+  useEffect(() => {
+    if (!sessionId || authLoading) return;
+    let cancelled = false;
+    setPhase('loading');
+    getGameReplay(sessionId)
+      .then((found) => {
+        if (cancelled) return;
+        if (found.rounds.length === 0) throw new Error('This game has no rounds to replay.');
+        setReplay(found);
+        setRoundIndex(0);
+        setPhase('ready');
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setError(e instanceof Error ? e.message : 'Could not load the replay');
+        setPhase('error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, authLoading]);
+
+  const results = useMemo(() => (replay ? getReplayResults(replay) : []), [replay]);
+
+  // Autoplay steps through the rounds and stops on the last
+  useEffect(() => {
+    if (!playing) return;
+    if (roundIndex >= results.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => setRoundIndex((i) => i + 1), REPLAY_ROUND_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, roundIndex, results.length]);
+
+  const handleTogglePublic = async (isPublic: boolean) => {
+    if (!replay) return;
+    setSavingShare(true);
+    try {
+      await setReplayPublic(replay.session_id, isPublic);
+      setReplay({ ...replay, is_public: isPublic });
+      toast.success(isPublic ? 'Anyone with the link can watch this replay' : 'Replay is private again');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not update sharing');
+    } finally {
+      setSavingShare(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!replay) return;
+    try {
+      await navigator.clipboard.writeText(getReplayUrl(replay.session_id));
+      setCopied(true);
+      toast.success('Replay link copied!');
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error('Could not copy — your browser blocked clipboard access');
+    }
+  };
+
+  if (phase === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-cream">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">Loading replay…</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'error' || !replay) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-cream p-6">
+        <div className="max-w-md w-full bg-white border-2 border-gray-200 rounded-2xl p-8 text-center space-y-4">
+          <h1 className="text-2xl font-bold text-gray-900">Replay unavailable</h1>
+          <p className="text-gray-600">{error || 'Check the link and try again.'}</p>
+          <Button
+            onClick={() => navigate('/')}
+            className="bg-brand hover:bg-brand-dark text-white rounded-xl font-bold"
+          >
+            <Home className="h-4 w-4 mr-2" />
+            Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const result = results[roundIndex];
+  // The RPC returns the rounds in play order, as getReplayResults sorts them
+  const round = replay.rounds[roundIndex];
+  const showsYear = result.scoredDimension !== 'location';
+  const showsLocation = result.scoredDimension !== 'year';
+  const guessPercent = getYearSliderPercent(result.yearGuess, MIN_YEAR, MAX_YEAR);
+  const actualPercent = getYearSliderPercent(result.actualYear ?? result.yearGuess, MIN_YEAR, MAX_YEAR);
+  const marginLeft = getYearSliderPercent(result.yearGuess - (result.yearMargin ?? 0), MIN_YEAR, MAX_YEAR);
+  const marginRight = getYearSliderPercent(result.yearGuess + (result.yearMargin ?? 0), MIN_YEAR, MAX_YEAR);
+
+  return (
+    <div className="bg-cream min-h-screen p-4 lg:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white border-2 border-gray-200 rounded-2xl p-6 space-y-4">
+          <div className="flex items-start justify-between gap-3 flex-wrap">
+            <div>
+              <p className="text-sm font-medium text-brand uppercase tracking-wide">Replay</p>
+              <h1 className="text-3xl font-bold text-gray-900">
+                {replay.is_owner ? 'Your game' : `${replay.username ?? 'A player'}’s game`}
+              </h1>
+              <p className="text-gray-600 mt-1">
+                {getGameModeLabel(replay.game_mode)} ·{' '}
+                {new Date(replay.completed_at).toLocaleDateString(undefined, {
+                  month: 'long',
+                  day: 'numeric',
+                  year: 'numeric',
+                })}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+              <Trophy className="h-6 w-6 text-yellow-500" />
+              {Math.round(replay.total_score).toLocaleString()}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {replay.is_owner && (
+              <div className="flex items-center gap-2 rounded-xl border-2 border-gray-200 px-3 py-1.5">
+                <Switch
+                  id="replay-public"
+                  checked={replay.is_public}
+                  disabled={savingShare}
+                  onCheckedChange={handleTogglePublic}
+                />
+                <Label htmlFor="replay-public" className="text-sm">
+                  {replay.is_public ? 'Public' : 'Private'}
+                </Label>
+              </div>
+            )}
+            {(replay.is_public || !replay.is_owner) && (
+              <Button onClick={handleCopyLink} variant="outline" className="rounded-xl border-2">
+                {copied ? (
+                  <Check className="h-4 w-4 mr-2 text-emerald-600" />
+                ) : (
+                  <Link2 className="h-4 w-4 mr-2" />
+                )}
+                Copy link
+              </Button>
+            )}
+            <Button onClick={() => navigate('/')} variant="outline" className="rounded-xl border-2">
+              <Home className="h-4 w-4 mr-2" />
+              Home
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div className="flex flex-wrap gap-2">
+            {results.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => {
+                  setPlaying(false);
+                  setRoundIndex(i);
+                }}
+                aria-label={`Round ${i + 1}`}
+                aria-current={i === roundIndex}
+                className={`w-10 h-10 rounded-full font-bold text-sm border-2 transition-colors ${
+                  i === roundIndex
+                    ? 'bg-brand border-brand text-white'
+                    : 'bg-white border-gray-200 text-gray-700 hover:border-brand'
+                }`}
+              >
+                {i + 1}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => setRoundIndex((i) => Math.max(0, i - 1))}
+              disabled={roundIndex === 0}
+              variant="outline"
+              size="icon"
+              aria-label="Previous round"
+              className="rounded-xl border-2"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => {
+                if (!playing && roundIndex >= results.length - 1) setRoundIndex(0);
+                setPlaying(!playing);
+              }}
+              className="bg-brand hover:bg-brand-dark text-white rounded-xl font-bold"
+            >
+              {playing ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+              {playing ? 'Pause' : 'Play'}
+            </Button>
+            <Button
+              onClick={() => setRoundIndex((i) => Math.min(results.length - 1, i + 1))}
+              disabled={roundIndex >= results.length - 1}
+              variant="outline"
+              size="icon"
+              aria-label="Next round"
+              className="rounded-xl border-2"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="bg-white border-2 border-gray-200 rounded-2xl overflow-hidden">
+            {result.imageUrl ? (
+              <img
+                src={result.imageUrl}
+                alt={round?.image_description || `Round ${roundIndex + 1}`}
+                className="w-full aspect-[4/3] object-cover bg-gray-100"
+              />
+            ) : (
+              <div className="w-full aspect-[4/3] bg-gray-100 flex items-center justify-center text-gray-500">
+                Photo no longer available
+              </div>
+            )}
+            <div className="p-4 space-y-1">
+              <p className="font-semibold text-gray-900">
+                {result.actualLocation?.name ?? 'Unknown place'}, {result.actualYear}
+              </p>
+              {round?.image_description && <p className="text-sm text-gray-600">{round.image_description}</p>}
+            </div>
+          </div>
+
+          <div className="bg-white border-2 border-gray-200 rounded-2xl p-2">
+            <ReplayRoundMap result={result} />
+          </div>
+        </div>
+
+        <div className="bg-white border-2 border-gray-200 rounded-2xl p-6 space-y-6">
+          {showsYear && (
+            <div className="space-y-3">
+              <div className="flex justify-between text-sm text-gray-700">
+                <span>
+                  Guessed <span className="font-bold text-blue-600">{result.yearGuess}</span>
+                  {result.yearMargin ? ` ± ${result.yearMargin}` : ''}
+                </span>
+                <span>
+                  Actual <span className="font-bold text-brand">{result.actualYear}</span>
+                </span>
+              </div>
+              {/* The year slider where the player left it, with the answer marked */}
+              <div className="relative h-2 rounded-full bg-gray-200" aria-hidden="true">
+                {result.yearMargin ? (
+                  <div
+                    className="absolute h-2 rounded-full bg-blue-200"
+                    style={{ left: `${marginLeft}%`, width: `${marginRight - marginLeft}%` }}
+                  />
+                ) : null}
+                <div
+                  className="absolute top-1/2 w-5 h-5 -mt-2.5 -ml-2.5 rounded-full bg-blue-600 border-2 border-white shadow transition-all duration-700"
+                  style={{ left: `${guessPercent}%` }}
+                />
+                <div
+                  className="absolute top-1/2 w-3 h-3 -mt-1.5 -ml-1.5 rounded-full bg-brand border-2 border-white shadow transition-all duration-700"
+                  style={{ left: `${actualPercent}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>{MIN_YEAR}</span>
+                <span>{MAX_YEAR}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-gray-500">Round score</div>
+              <div className="text-xl font-bold text-gray-900">{Math.round(result.scaledScore ?? 0).toLocaleString()}</div>
+            </div>
+            {showsLocation && (
+              <div>
+                <div className="text-gray-500 inline-flex items-center gap-1">
+                  <MapPin size={14} /> Distance
+                </div>
+                <div className="text-xl font-bold text-gray-900">
+                  {round?.distance_km !== null && round?.distance_km !== undefined
+                    ? `${Math.round(round.distance_km).toLocaleString()} km`
+                    : '—'}
+                </div>
+              </div>
+            )}
+            <div>
+              <div className="text-gray-500 inline-flex items-center gap-1">
+                <Clock size={14} /> Time
+              </div>
+              <div className="text-xl font-bold text-gray-900">
+                {result.timeUsed !== undefined ? formatRoundTime(result.timeUsed) : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-500 inline-flex items-center gap-1">
+                <Lightbulb size={14} /> Hints
+              </div>
+              <div className="text-xl font-bold text-gray-900">{result.hintsUsed ?? 0}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameReplayPage;
@@ -1,4 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import type { Json } from '@/integrations/supabase/types';
 import type {
   AdminDashboardStats,
   AdminUserStats,
@@ -9,7 +11,16 @@ import type {
   AdminPhotoSubmission,
   PhotoSubmissionStatus,
   ApprovePhotoSubmissionInput,
+  SubmissionEvent,
+  AdminReviewer,
+  AdminImageDifficulty,
+  AdminImportResult,
+  AdminCatalogueImage,
+  AdminImageUpdateInput,
+  AdminImageUsage,
 } from '@/types/admin';
+import type { ImageStatus } from '@/types/game';
+import type { ManifestEntry } from '@/utils/imageManifest';
 
 export interface ActivityItem {
   id: string;
@@ -34,15 +45,6 @@ const EMPTY_STATS: AdminDashboardStats = {
   activeUsers: 0,
 };
 
-/** Unwraps a supabase rpc/query, throwing the server's message on error. */
-const unwrap = async <T>(
-  q: PromiseLike<{ data: unknown; error: { message: string } | null }>
-): Promise<T> => {
-  const { data, error } = await q;
-  if (error) throw new Error(error.message || 'Request failed');
-  return data as T;
-};
-
 export class AdminService {
   // Check if current user is admin (client-side gate for routing/UI; every
   // admin RPC re-checks server-side via _is_admin()).
@@ -212,15 +214,18 @@ export class AdminService {
         p_location_name: input.locationName,
         p_description: input.description,
         p_notes: input.notes ?? null,
+        p_hints: (input.hints ?? []).map(h => ({ kind: h.kind, text: h.text })),
       })
     );
     return data.image_id;
   }
 
+  // `message` is shown to the submitter (required for needs_info); notes and
+  // rejection reasons stay internal. Every change is recorded in the thread.
   static async setPhotoSubmissionStatus(
     id: string,
     status: Exclude<PhotoSubmissionStatus, 'approved'>,
-    opts: { notes?: string; rejectionReason?: string } = {}
+    opts: { notes?: string; rejectionReason?: string; message?: string } = {}
   ): Promise<void> {
     await unwrap(
       supabase.rpc('admin_set_photo_submission_status', {
@@ -228,10 +233,44 @@ export class AdminService {
         p_status: status,
         p_notes: opts.notes ?? null,
         p_rejection_reason: opts.rejectionReason ?? null,
+        p_message: opts.message ?? null,
+      })
+    );
+  }
+
+  // A submission's thread (comments, status changes, assignments), oldest first
+  static async getPhotoSubmissionEvents(id: string): Promise<SubmissionEvent[]> {
+    return unwrap<SubmissionEvent[]>(
+      supabase.rpc('admin_list_photo_submission_events', { p_id: id })
+    );
+  }
+
+  static async commentOnPhotoSubmission(id: string, body: string, internal: boolean): Promise<void> {
+    await unwrap(
+      supabase.rpc('admin_comment_photo_submission', {
+        p_id: id,
+        p_body: body,
+        p_internal: internal,
       })
     );
   }
 
+  static async getReviewers(): Promise<AdminReviewer[]> {
+    return unwrap<AdminReviewer[]>(supabase.rpc('admin_list_reviewers'));
+  }
+
+  // Pass null to unassign. Assigning a pending submission starts its review;
+  // returns the resulting status.
+  static async assignPhotoSubmission(
+    id: string,
+    assignee: string | null
+  ): Promise<PhotoSubmissionStatus> {
+    const data = await unwrap<{ status: PhotoSubmissionStatus }>(
+      supabase.rpc('admin_assign_photo_submission', { p_id: id, p_assignee: assignee })
+    );
+    return data.status;
+  }
+
   // --- Maintenance -----------------------------------------------------------
   // Prune old analytics rows only (never game_sessions — those feed the
   // leaderboard). Returns the number deleted.
@@ -242,6 +281,121 @@ export class AdminService {
     return data.deleted ?? 0;
   }
 
+  // --- Image difficulty --------------------------------------------------------
+  // Ratings are computed server-side from round_results; hardest first,
+  // unrated images last.
+  static async getImageDifficulty(): Promise<AdminImageDifficulty[]> {
+    return unwrap<AdminImageDifficulty[]>(
+      supabase
+        .from('game_images')
+        .select(
+          'id, image_url, location_name, year, difficulty, difficulty_score, difficulty_rounds, avg_year_error, avg_distance_km, score_stddev, difficulty_updated_at'
+        )
+        .order('difficulty_score', { ascending: false, nullsFirst: false })
+    );
+  }
+
+  // Recompute every image's rating now. Returns how many images are rated.
+  static async recomputeImageDifficulty(): Promise<number> {
+    const data = await unwrap<{ rated: number }>(
+      supabase.rpc('admin_recompute_image_difficulty')
+    );
+    return data.rated ?? 0;
+  }
+
+  // --- Bulk import / export ----------------------------------------------------
+  // Without a token this is the dry run: every row is checked and nothing is
+  // written. Passing the dry run's confirm_token back inserts the clean rows.
+  static async importImages(
+    rows: (ManifestEntry & { line: number })[],
+    confirmToken?: string
+  ): Promise<AdminImportResult> {
+    return unwrap<AdminImportResult>(
+      supabase.rpc('admin_import_images', {
+        p_rows: rows as unknown as Json,
+        p_confirm_token: confirmToken ?? null,
+      })
+    );
+  }
+
+  // The whole catalogue in manifest form, oldest first, with the stored URLs
+  // (not the converted ones the game loads).
+  static async getImageManifest(): Promise<ManifestEntry[]> {
+    const rows = await unwrap<{
+      image_url: string;
+      year: number;
+      location_lat: number;
+      location_lng: number;
+      location_name: string;
+      description: string;
+      tags: string[] | null;
+    }[]>(
+      supabase
+        .from('game_images')
+        .select('image_url, year, location_lat, location_lng, location_name, description, tags')
+        .order('created_at', { ascending: true })
+    );
+    return rows.map(row => ({
+      image_url: row.image_url,
+      year: row.year,
+      lat: row.location_lat,
+      lng: row.location_lng,
+      location_name: row.location_name,
+      description: row.description,
+      tags: row.tags ?? [],
+    }));
+  }
+
+  // --- Image catalogue ---------------------------------------------------------
+  // Every image including retired and deleted ones, newest first; the panel
+  // filters and sorts client-side.
+  static async getImageCatalogue(): Promise<AdminCatalogueImage[]> {
+    return unwrap<AdminCatalogueImage[]>(
+      supabase
+        .from('game_images')
+        .select(
+          'id, image_url, year, location_lat, location_lng, location_name, description, tags, difficulty, difficulty_score, difficulty_rounds, status, status_changed_at, perceptual_hash, created_at'
+        )
+        .order('created_at', { ascending: false })
+    );
+  }
+
+  static async updateImage(id: string, input: AdminImageUpdateInput): Promise<void> {
+    await unwrap(
+      supabase.rpc('admin_update_image', {
+        p_image_id: id,
+        p_year: input.year,
+        p_lat: input.lat,
+        p_lng: input.lng,
+        p_location_name: input.locationName,
+        p_description: input.description,
+      })
+    );
+  }
+
+  // Retired and deleted images stop being dealt but keep their rounds, so
+  // old replays, dailies and challenges still resolve.
+  static async setImageStatus(id: string, status: ImageStatus): Promise<void> {
+    await unwrap(
+      supabase.rpc('admin_set_image_status', { p_image_id: id, p_status: status })
+    );
+  }
+
+  static async getImageUsage(id: string): Promise<AdminImageUsage> {
+    return unwrap<AdminImageUsage>(
+      supabase.rpc('admin_image_usage', { p_image_id: id })
+    );
+  }
+
+  // Perceptual hashes are computed in the browser (imageHashService) and
+  // stored here. Returns how many images were updated.
+  static async setImageHashes(hashes: { id: string; hash: string }[]): Promise<number> {
+    const data = await unwrap<{ updated: number }>(
+      supabase.rpc('admin_set_image_hashes', { p_hashes: hashes as unknown as Json })
+    );
+    return data.updated ?? 0;
+  }
+
   // --- Settings --------------------------------------------------------------
   static async getAdminSettings(): Promise<Record<string, unknown>> {
     try {
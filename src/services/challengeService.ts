@@ -0,0 +1,104 @@
+// Custom challenges: reads go straight to custom_challenges (public read),
+// creation through admin_create_custom_challenge. The image sequence is
+// derived client-side (selectChallengeImages) the same way for everyone.
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import { getAllImages } from '@/data/sampleData';
+import { selectChallengeImages } from '@/utils/customChallenge';
+import type { CustomChallenge, GameImage, GameSession, ScoringProfileId } from '@/types/game';
+
+export interface CreateChallengeInput {
+  title: string;
+  imageIds: string[];
+  roundCount: number;
+  timerSeconds: number | null;
+  center?: string;
+  scoringProfile?: ScoringProfileId;
+}
+
+export const createChallenge = async (input: CreateChallengeInput): Promise<string> => {
+  const data = await unwrap<{ challenge_id: string }>(
+    supabase.rpc('admin_create_custom_challenge', {
+      p_title: input.title,
+      p_image_ids: input.imageIds,
+      p_round_count: input.roundCount,
+      p_timer_seconds: input.timerSeconds,
+      p_center: input.center ?? null,
+      p_scoring_profile: input.scoringProfile ?? 'classic',
+    })
+  );
+  return data.challenge_id;
+};
+
+export const getChallenge = (id: string) =>
+  unwrap<CustomChallenge | null>(
+    supabase.from('custom_challenges').select('*').eq('id', id).maybeSingle()
+  );
+
+export const listChallenges = (limit = 50) =>
+  unwrap<CustomChallenge[]>(
+    supabase
+      .from('custom_challenges')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+  );
+
+/** The challenge's images in play order — identical for every player. */
+export const getChallengeImages = async (challenge: CustomChallenge): Promise<GameImage[]> =>
+  selectChallengeImages(challenge, await getAllImages());
+
+/** The signed-in player's one session for this challenge, finished or not. */
+export const getMyChallengeSession = (challengeId: string, userId: string) =>
+  unwrap<GameSession | null>(
+    supabase
+      .from('game_sessions')
+      .select('*')
+      .eq('challenge_id', challengeId)
+      .eq('user_id', userId)
+      .maybeSingle()
+  );
+
+export interface ChallengeLeaderboardRow {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  center: string | null;
+  score: number;
+}
+
+// One session per player per challenge, so the best game is the only game.
+export const getChallengeLeaderboard = async (
+  challengeId: string,
+  limit = 100
+): Promise<ChallengeLeaderboardRow[]> => {
+  const rows = await unwrap<
+    Array<{
+      id: string;
+      username: string;
+      display_name: string | null;
+      avatar_url: string | null;
+      center: string | null;
+      best_single_game_score: number | string;
+    }>
+  >(
+    supabase.rpc('get_session_leaderboard', {
+      game_mode_filter: 'challenge',
+      scoring_profile_filter: 'all',
+      challenge_filter: challengeId,
+      limit_count: limit,
+    })
+  );
+  return (rows || [])
+    .map((row) => ({
+      id: row.id,
+      username: row.username,
+      display_name: row.display_name,
+      avatar_url: row.avatar_url,
+      center: row.center,
+      score: Number(row.best_single_game_score) || 0,
+    }))
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,65 @@
+// Image tags and curated collections. Players read published collections
+// to pick one to play; admins manage tags and collections through the
+// admin_* RPCs (see the image_tags_collections migration).
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import type { ImageCollection } from '@/types/game';
+
+export interface SaveCollectionInput {
+  id?: string;
+  slug: string;
+  title: string;
+  description?: string;
+  tagFilter: string[];
+  imageIds: string[];
+  isPublished: boolean;
+}
+
+/** Published collections, for players picking one to play. */
+export const listPublishedCollections = () =>
+  unwrap<ImageCollection[]>(
+    supabase
+      .from('image_collections')
+      .select('*')
+      .eq('is_published', true)
+      .order('title', { ascending: true })
+  );
+
+/** Every collection, drafts included; RLS only returns drafts to admins. */
+export const listAllCollections = () =>
+  unwrap<ImageCollection[]>(
+    supabase.from('image_collections').select('*').order('updated_at', { ascending: false })
+  );
+
+export const getCollection = (id: string) =>
+  unwrap<ImageCollection | null>(
+    supabase.from('image_collections').select('*').eq('id', id).maybeSingle()
+  );
+
+export const saveCollection = async (input: SaveCollectionInput): Promise<string> => {
+  const data = await unwrap<{ collection_id: string }>(
+    supabase.rpc('admin_save_image_collection', {
+      p_title: input.title,
+      p_slug: input.slug,
+      p_description: input.description ?? null,
+      p_tag_filter: input.tagFilter,
+      p_image_ids: input.imageIds,
+      p_is_published: input.isPublished,
+      p_collection_id: input.id ?? null,
+    })
+  );
+  return data.collection_id;
+};
+
+export const deleteCollection = async (id: string): Promise<void> => {
+  await unwrap(supabase.rpc('admin_delete_image_collection', { p_collection_id: id }));
+};
+
+/** Replaces an image's tags; returns them as the server normalized them. */
+export const setImageTags = async (imageId: string, tags: string[]): Promise<string[]> => {
+  const data = await unwrap<{ tags: string[] }>(
+    supabase.rpc('admin_set_image_tags', { p_image_id: imageId, p_tags: tags })
+  );
+  return data.tags;
+};
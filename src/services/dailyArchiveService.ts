@@ -0,0 +1,25 @@
+// Daily challenge archive: past challenge days with the player's scores
+// (get_daily_archive) and the stored image set for replaying one of them.
+// Replays are game_mode 'daily_archive' sessions and never rank.
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import { getAllImages } from '@/data/sampleData';
+import type { DailyArchiveDay, GameImage } from '@/types/game';
+
+/** Every challenge day, newest first; scores are null for guests. */
+export const getDailyArchive = async (): Promise<DailyArchiveDay[]> =>
+  (await unwrap<DailyArchiveDay[] | null>(supabase.rpc('get_daily_archive'))) ?? [];
+
+/** The images of a past day's challenge in the order they were played, or
+ *  an empty list when no challenge was stored for that day. */
+export const getDailyArchiveImages = async (day: string): Promise<GameImage[]> => {
+  const row = await unwrap<{ image_ids: string[] } | null>(
+    supabase.from('daily_challenges').select('image_ids').eq('challenge_date', day).maybeSingle()
+  );
+  if (!row) return [];
+  const byId = new Map((await getAllImages()).map((img) => [img.id, img]));
+  return row.image_ids
+    .map((id) => byId.get(id))
+    .filter((img): img is GameImage => img !== undefined);
+};
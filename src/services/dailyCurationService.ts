@@ -0,0 +1,88 @@
+// Daily challenge curation for admins: the theme calendar (daily_themes) and
+// pinning the photos of upcoming days ahead of time. Writes go through the
+// admin_* RPCs; reads are public tables.
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import { getAllImages } from '@/data/sampleData';
+import { isImageInPlay } from '@/utils/imageCatalogue';
+import { DAILY_SELECTION } from '@/utils/dailySelection';
+import { shiftDateString } from '@/utils/dailyStreaks';
+import type { DailyTheme, GameImage } from '@/types/game';
+
+export interface SaveDailyThemeInput {
+  id?: string;
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  yearFrom: number | null;
+  yearTo: number | null;
+  keywords: string[];
+}
+
+export interface StoredDailyChallenge {
+  challenge_date: string;
+  image_ids: string[];
+  theme_id: string | null;
+  pinned_at: string | null;
+}
+
+export const listDailyThemes = () =>
+  unwrap<DailyTheme[]>(
+    supabase.from('daily_themes').select('*').order('start_date', { ascending: true })
+  );
+
+export const saveDailyTheme = async (input: SaveDailyThemeInput): Promise<string> => {
+  const data = await unwrap<{ theme_id: string }>(
+    supabase.rpc('admin_save_daily_theme', {
+      p_title: input.title,
+      p_start_date: input.startDate,
+      p_end_date: input.endDate,
+      p_year_from: input.yearFrom,
+      p_year_to: input.yearTo,
+      p_keywords: input.keywords,
+      p_description: input.description ?? null,
+      p_theme_id: input.id ?? null,
+    })
+  );
+  return data.theme_id;
+};
+
+export const deleteDailyTheme = async (id: string): Promise<void> => {
+  await unwrap(supabase.rpc('admin_delete_daily_theme', { p_theme_id: id }));
+};
+
+/** Stored days from the cooldown window before `from` through `to`, which is
+ *  what previewDailySchedule needs to preview `from`..`to`. */
+export const listStoredDailyChallenges = (from: string, to: string) =>
+  unwrap<StoredDailyChallenge[]>(
+    supabase
+      .from('daily_challenges')
+      .select('challenge_date, image_ids, theme_id, pinned_at')
+      .gte('challenge_date', shiftDateString(from, -DAILY_SELECTION.REUSE_COOLDOWN_DAYS))
+      .lte('challenge_date', to)
+      .order('challenge_date', { ascending: true })
+  );
+
+export const pinDailyChallenge = async (
+  date: string,
+  imageIds: string[],
+  themeId: string | null
+): Promise<void> => {
+  await unwrap(
+    supabase.rpc('admin_pin_daily_challenge', {
+      p_date: date,
+      p_image_ids: imageIds,
+      p_theme_id: themeId,
+    })
+  );
+};
+
+export const unpinDailyChallenge = async (date: string): Promise<void> => {
+  await unwrap(supabase.rpc('admin_unpin_daily_challenge', { p_date: date }));
+};
+
+/** The image pool the daily selection draws from: every image still in play. */
+export const getDailyImagePool = async (): Promise<GameImage[]> =>
+  (await getAllImages()).filter(isImageInPlay);
@@ -2,6 +2,7 @@
 // All game rules run server-side; this layer only ferries data.
 
 import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
 import type {
   DuelIdentity,
   DuelRoundResults,
@@ -51,17 +52,6 @@ export const clearDuelIdentity = (code: string) => {
   writeIdentities(map);
 };
 
-/** Unwraps a supabase query, throwing the server's message on error. */
-const unwrap = async <T>(
-  q: PromiseLike<{ data: unknown; error: { message: string } | null }>
-): Promise<T> => {
-  const { data, error } = await q;
-  if (error) {
-    throw new Error(error.message || 'Something went wrong');
-  }
-  return data as T;
-};
-
 interface CreateJoinResponse {
   duel_id: string;
   code: string;
@@ -108,6 +98,11 @@ export const startDuel = (token: string) =>
     supabase.rpc('duel_start', { p_token: token })
   );
 
+export const switchDuelTeam = (token: string) =>
+  unwrap<{ team: 1 | 2; server_time: string }>(
+    supabase.rpc('duel_switch_team', { p_token: token })
+  );
+
 export interface SubmitGuessResponse {
   submitted: boolean;
   both_guessed?: boolean;
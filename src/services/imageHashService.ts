@@ -0,0 +1,113 @@
+// Perceptual hashes in the browser: images are drawn to a small canvas and
+// hashed from its pixels (src/utils/perceptualHash.ts), then compared with
+// the hashes stored on game_images, which are public like the images.
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import { convertGoogleDriveUrl } from '@/utils/gameUtils';
+import { computePerceptualHash, findSimilarByHash, type HashMatch } from '@/utils/perceptualHash';
+
+// Longest side drawn before hashing; the hash only looks at 32x32 anyway
+const MAX_SIDE = 256;
+
+export interface HashedImage {
+  id: string;
+  image_url: string;
+  location_name: string;
+  year: number;
+  perceptual_hash: string;
+}
+
+const hashDrawable = (source: CanvasImageSource, width: number, height: number): string | null => {
+  const scale = Math.min(1, MAX_SIDE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  return computePerceptualHash(data, canvas.width, canvas.height);
+};
+
+/** The hash of an uploaded file, or null when the browser can't decode it. */
+export const hashImageFile = async (file: File): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    try {
+      return hashDrawable(bitmap, bitmap.width, bitmap.height);
+    } finally {
+      bitmap.close();
+    }
+  } catch (error) {
+    console.warn('Could not hash image file:', error);
+    return null;
+  }
+};
+
+/**
+ * The hash of a hosted image, or null when it can't be loaded or its host
+ * doesn't allow cross-origin reads (the canvas would be tainted).
+ */
+export const hashImageUrl = (url: string): Promise<string | null> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        resolve(hashDrawable(img, img.naturalWidth, img.naturalHeight));
+      } catch (error) {
+        console.warn('Could not hash image:', url, error);
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = convertGoogleDriveUrl(url);
+  });
+
+// Hashes saved per request by hashImagesInBatches
+const HASH_BATCH_SIZE = 25;
+
+/**
+ * Hashes hosted images one at a time and hands the hashes to `save` in
+ * batches, so an interrupted run keeps what it had done. Images that can't be
+ * loaded are counted as failed and stay unhashed for the Images tab backfill.
+ */
+export const hashImagesInBatches = async (
+  images: { id: string; image_url: string }[],
+  save: (hashes: { id: string; hash: string }[]) => Promise<number>,
+  onProgress?: (done: number) => void
+): Promise<{ saved: number; failed: number }> => {
+  let saved = 0;
+  let failed = 0;
+  let batch: { id: string; hash: string }[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    saved += await save(batch);
+    batch = [];
+  };
+  for (const [i, image] of images.entries()) {
+    const hash = await hashImageUrl(image.image_url);
+    if (hash) batch.push({ id: image.id, hash });
+    else failed++;
+    if (batch.length >= HASH_BATCH_SIZE) await flush();
+    onProgress?.(i + 1);
+  }
+  await flush();
+  return { saved, failed };
+};
+
+/** Every hashed image that is not deleted. */
+export const getHashedImages = (): Promise<HashedImage[]> =>
+  unwrap<HashedImage[]>(
+    supabase
+      .from('game_images')
+      .select('id, image_url, location_name, year, perceptual_hash')
+      .not('perceptual_hash', 'is', null)
+      .neq('status', 'deleted')
+  );
+
+/** Catalogue images that look like the picture with this hash, closest first. */
+export const findSimilarImages = async (hash: string): Promise<HashMatch<HashedImage>[]> =>
+  findSimilarByHash(hash, await getHashedImages(), (image) => image.perceptual_hash);
@@ -1,8 +1,29 @@
 import { supabase } from '@/integrations/supabase/client';
-import type { TablesInsert } from '@/integrations/supabase/types';
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import { readEmbeddedMetadata, type EmbeddedPhotoMetadata } from '@/utils/photoMetadata';
+import { findSimilarImages, hashImageFile, type HashedImage } from '@/services/imageHashService';
+import type { HashMatch } from '@/utils/perceptualHash';
+import type { PhotoSubmissionStatus, SubmissionEvent } from '@/types/admin';
 
 export type YearConfidence = 'exact' | 'approximate' | 'decade' | 'unknown';
 
+// Form fields that can be pre-filled from the photo's own metadata
+export type MetadataField = 'yearTaken' | 'locationDescription' | 'description';
+
+// What is stored in photo_submissions.photo_metadata
+export interface PhotoMetadata {
+  originalName: string;
+  fileSize: number;
+  fileType: string;
+  lastModified: number;
+  dimensions?: {
+    width: number;
+    height: number;
+  };
+  embedded?: EmbeddedPhotoMetadata; // EXIF/XMP, when the file carries any
+  prefilled?: MetadataField[]; // fields submitted as pre-filled from metadata, unedited
+}
+
 export interface PhotoSubmissionData {
   submitterName: string;
   email: string;
@@ -12,21 +33,36 @@ export interface PhotoSubmissionData {
   yearConfidence: YearConfidence;
   description?: string;
   cluesDescription?: string;
+  metadataFields?: MetadataField[];
+  perceptualHash?: string; // computed when the photo is picked; recomputed on submit if missing
 }
 
-export interface SubmitPhotoOptions extends Omit<PhotoSubmissionData, 'photoFile'> {
+export interface SubmitPhotoOptions extends Omit<PhotoSubmissionData, 'photoFile' | 'metadataFields'> {
   photoUrl: string;
-  photoMetadata?: {
-    originalName: string;
-    fileSize: number;
-    fileType: string;
-    dimensions?: {
-      width: number;
-      height: number;
-    };
-  };
+  photoMetadata?: PhotoMetadata;
 }
 
+// One of the signed-in user's submissions, with the thread they can see
+export interface MySubmission {
+  id: string;
+  photo_url: string;
+  location_description: string;
+  year_taken: number | null;
+  year_confidence: YearConfidence | null;
+  description: string | null;
+  clues_description: string | null;
+  status: PhotoSubmissionStatus;
+  created_at: string;
+  updated_at: string | null;
+  events: SubmissionEvent[];
+}
+
+// The details a submitter can correct when asked for more information
+export type ResubmissionDetails = Pick<
+  PhotoSubmissionData,
+  'locationDescription' | 'yearTaken' | 'yearConfidence' | 'description' | 'cluesDescription'
+>;
+
 /**
  * Upload photo to Supabase Storage with fallback to base64
  */
@@ -124,7 +160,8 @@ export async function submitPhoto(options: SubmitPhotoOptions): Promise<{ succes
       year_confidence: options.yearConfidence,
       description: options.description || null,
       clues_description: options.cluesDescription || null,
-      photo_metadata: options.photoMetadata || null,
+      photo_metadata: (options.photoMetadata as unknown as Json) || null,
+      perceptual_hash: options.perceptualHash || null,
       submission_source: 'web_app',
       status: 'pending'
     };
@@ -167,8 +204,10 @@ export async function submitPhotoWithFile(data: PhotoSubmissionData): Promise<{
       return { success: false, error: uploadResult.error || 'Failed to upload photo' };
     }
 
-    // Extract metadata
+    // Extract metadata and the perceptual hash reviewers match duplicates on
     const metadata = await extractImageMetadata(data.photoFile);
+    const perceptualHash = data.perceptualHash ?? await hashImageFile(data.photoFile);
+    if (data.metadataFields?.length) metadata.prefilled = data.metadataFields;
 
     // Submit to database
     const submitResult = await submitPhoto({
@@ -180,7 +219,8 @@ export async function submitPhotoWithFile(data: PhotoSubmissionData): Promise<{
       yearConfidence: data.yearConfidence,
       description: data.description,
       cluesDescription: data.cluesDescription,
-      photoMetadata: metadata
+      photoMetadata: metadata,
+      perceptualHash: perceptualHash ?? undefined
     });
 
     if (submitResult.success) {
@@ -227,6 +267,20 @@ export function validatePhotoSubmission(data: Partial<PhotoSubmissionData>): { i
     }
   }
 
+  errors.push(...validateSubmissionDetails(data));
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Checks the details about the photo, shared by the form and resubmissions
+ */
+function validateSubmissionDetails(data: Partial<PhotoSubmissionData>): string[] {
+  const errors: string[] = [];
+
   if (!data.locationDescription?.trim()) {
     errors.push('Location description is required');
   } else if (data.locationDescription.length > 500) {
@@ -249,31 +303,48 @@ export function validatePhotoSubmission(data: Partial<PhotoSubmissionData>): { i
     }
   }
 
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
+  return errors;
+}
+
+/**
+ * Hash a picked photo and look for it among the game's images, so the
+ * submitter hears about a likely duplicate before filling in the rest
+ */
+export async function findPossibleDuplicates(file: File): Promise<{ hash: string | null; matches: HashMatch<HashedImage>[] }> {
+  const hash = await hashImageFile(file);
+  if (!hash) return { hash: null, matches: [] };
+  try {
+    return { hash, matches: await findSimilarImages(hash) };
+  } catch (error) {
+    console.warn('Could not check for duplicate photos:', error);
+    return { hash, matches: [] };
+  }
+}
+
+/**
+ * Read EXIF/XMP from a JPEG or TIFF file; null when it carries none
+ */
+export async function readPhotoMetadata(file: File): Promise<EmbeddedPhotoMetadata | null> {
+  try {
+    return readEmbeddedMetadata(await file.arrayBuffer());
+  } catch (error) {
+    console.warn('Could not read photo metadata:', error);
+    return null;
+  }
 }
 
 /**
  * Extract metadata from image file
  */
-export async function extractImageMetadata(file: File): Promise<{
-  originalName: string;
-  fileSize: number;
-  fileType: string;
-  lastModified: number;
-  dimensions?: {
-    width: number;
-    height: number;
-  };
-}> {
+export async function extractImageMetadata(file: File): Promise<PhotoMetadata> {
+  const embedded = await readPhotoMetadata(file);
   return new Promise((resolve) => {
-    const metadata = {
+    const metadata: PhotoMetadata = {
       originalName: file.name,
       fileSize: file.size,
       fileType: file.type,
-      lastModified: file.lastModified
+      lastModified: file.lastModified,
+      ...(embedded && { embedded })
     };
 
     // Try to get image dimensions
@@ -294,4 +365,60 @@ export async function extractImageMetadata(file: File): Promise<{
       resolve(metadata);
     }
   });
-} 
\ No newline at end of file
+} 
+/**
+ * The signed-in user's submissions, newest first
+ */
+export async function getMySubmissions(): Promise<MySubmission[]> {
+  const { data, error } = await supabase.rpc('get_my_photo_submissions');
+  if (error) throw new Error(error.message || 'Failed to load your submissions');
+  return (data ?? []) as unknown as MySubmission[];
+}
+
+/**
+ * Add a reply to the conversation on one of your open submissions
+ */
+export async function replyToSubmission(id: string, body: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.rpc('reply_to_photo_submission', { p_id: id, p_body: body.trim() });
+  if (error) {
+    console.error('Reply error:', error);
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+}
+
+/**
+ * Answer a request for more information: update the details and send the
+ * submission back for review, optionally with a message to the reviewers
+ */
+export async function resubmitSubmission(
+  id: string,
+  details: ResubmissionDetails,
+  message?: string
+): Promise<{ success: boolean; error?: string }> {
+  const { isValid, errors } = validateResubmission(details);
+  if (!isValid) return { success: false, error: errors[0] };
+
+  const { error } = await supabase.rpc('resubmit_photo_submission', {
+    p_id: id,
+    p_location_description: details.locationDescription.trim(),
+    p_year_taken: details.yearTaken ?? null,
+    p_year_confidence: details.yearConfidence,
+    p_description: details.description?.trim() || null,
+    p_clues_description: details.cluesDescription?.trim() || null,
+    p_message: message?.trim() || null,
+  });
+  if (error) {
+    console.error('Resubmission error:', error);
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+}
+
+/**
+ * The submission form's rules for the details that can be resubmitted
+ */
+export function validateResubmission(details: ResubmissionDetails): { isValid: boolean; errors: string[] } {
+  const errors = validateSubmissionDetails(details);
+  return { isValid: errors.length === 0, errors };
+}
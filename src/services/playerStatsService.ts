@@ -0,0 +1,12 @@
+// The signed-in player's own rounds for the profile's Analytics tab. The
+// get_my_round_history RPC (see the player_round_history migration) only ever
+// returns the caller's rounds; everything shown is worked out from them in
+// src/utils/playerStats.ts.
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import type { PlayerRound } from '@/types/game';
+
+/** The player's most recent rounds, newest first (the server caps `limit`). */
+export const getMyRoundHistory = (limit: number = 1000) =>
+  unwrap<PlayerRound[]>(supabase.rpc('get_my_round_history', { p_limit: limit }));
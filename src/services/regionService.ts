@@ -0,0 +1,62 @@
+// Regions for region mode. Players read published regions to pick one;
+// admins draw their own and hide presets through the admin_* RPCs (see the
+// region_mode migration).
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import type { Json } from '@/integrations/supabase/types';
+import type { GameRegion, RegionPoint } from '@/types/game';
+
+export interface SaveRegionInput {
+  id?: string;
+  slug: string;
+  name: string;
+  description?: string;
+  polygon: RegionPoint[];
+  isPublished: boolean;
+}
+
+/** Published regions, presets first, for players picking one to play. */
+export const listPublishedRegions = () =>
+  unwrap<GameRegion[]>(
+    supabase
+      .from('game_regions')
+      .select('*')
+      .eq('is_published', true)
+      .order('is_preset', { ascending: false })
+      .order('name', { ascending: true })
+  );
+
+/** Every region, hidden ones included; RLS only returns those to admins. */
+export const listAllRegions = () =>
+  unwrap<GameRegion[]>(
+    supabase
+      .from('game_regions')
+      .select('*')
+      .order('is_preset', { ascending: false })
+      .order('name', { ascending: true })
+  );
+
+export const saveRegion = async (input: SaveRegionInput): Promise<string> => {
+  const data = await unwrap<{ region_id: string }>(
+    supabase.rpc('admin_save_game_region', {
+      p_name: input.name,
+      p_slug: input.slug,
+      p_polygon: input.polygon as unknown as Json,
+      p_description: input.description ?? null,
+      p_is_published: input.isPublished,
+      p_region_id: input.id ?? null,
+    })
+  );
+  return data.region_id;
+};
+
+export const setRegionPublished = async (id: string, published: boolean): Promise<void> => {
+  await unwrap(
+    supabase.rpc('admin_set_game_region_published', { p_region_id: id, p_published: published })
+  );
+};
+
+export const deleteRegion = async (id: string): Promise<void> => {
+  await unwrap(supabase.rpc('admin_delete_game_region', { p_region_id: id }));
+};
@@ -0,0 +1,14 @@
+// Replays of finished games (/game/:sessionId). Reads and sharing go through
+// the get_game_replay / set_game_replay_public RPCs (see the game_replays
+// migration), which decide who may see a replay.
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import type { GameReplay } from '@/types/game';
+
+export const getGameReplay = (sessionId: string) =>
+  unwrap<GameReplay>(supabase.rpc('get_game_replay', { p_session_id: sessionId }));
+
+export const setReplayPublic = async (sessionId: string, isPublic: boolean): Promise<void> => {
+  await unwrap(supabase.rpc('set_game_replay_public', { p_session_id: sessionId, p_public: isPublic }));
+};
@@ -0,0 +1,77 @@
+// Where an unfinished game's snapshot is kept: saved_games for signed-in
+// players, so it follows them to another device, and localStorage for guests
+// (or a signed-in game whose session never started). The snapshot itself is
+// built and checked in src/utils/savedGames.ts.
+
+import { supabase } from '@/integrations/supabase/client';
+import { unwrap } from '@/services/supabaseResult';
+import type { Json } from '@/integrations/supabase/types';
+import type { GameSession } from '@/types/game';
+import { GAME_CONSTANTS } from '@/constants/gameConstants';
+import { parseSavedGame, SavedGame } from '@/utils/savedGames';
+
+const STORAGE_KEY = GAME_CONSTANTS.STORAGE_KEYS.SAVED_GAME;
+
+const readLocalSavedGame = (): SavedGame | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseSavedGame(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn('Failed to load saved game:', error);
+    return null;
+  }
+};
+
+const writeLocalSavedGame = (game: SavedGame | null): void => {
+  try {
+    if (game) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(game));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to store saved game:', error);
+  }
+};
+
+/** The player's game to resume, if any; a signed-in player's own first. */
+export const getSavedGame = async (userId?: string): Promise<SavedGame | null> => {
+  if (userId) {
+    const row = await unwrap<{ session_id: string; state: Json } | null>(
+      supabase.from('saved_games').select('session_id, state').eq('user_id', userId).maybeSingle()
+    );
+    const game = row ? parseSavedGame(row.state) : null;
+    if (game) {
+      return { ...game, sessionId: row!.session_id };
+    }
+  }
+  return readLocalSavedGame();
+};
+
+export const storeSavedGame = async (userId: string | undefined, game: SavedGame): Promise<void> => {
+  if (userId && game.sessionId) {
+    await unwrap(
+      supabase.rpc('save_game_progress', {
+        p_session_id: game.sessionId,
+        p_state: game as unknown as Json,
+      })
+    );
+  } else {
+    writeLocalSavedGame(game);
+  }
+};
+
+export const removeSavedGame = async (userId?: string): Promise<void> => {
+  writeLocalSavedGame(null);
+  if (userId) {
+    await unwrap(supabase.rpc('discard_saved_game'));
+  }
+};
+
+/** The session a saved game scores against, or null once it has been completed. */
+export const getResumableSession = async (sessionId: string): Promise<GameSession | null> => {
+  const session = await unwrap<GameSession | null>(
+    supabase.from('game_sessions').select('*').eq('id', sessionId).maybeSingle()
+  );
+  return session && !session.completed_at ? session : null;
+};
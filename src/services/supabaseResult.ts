@@ -0,0 +1,13 @@
+// For services that would rather throw than check { data, error } after each
+// Supabase query or rpc.
+
+/** Unwraps a supabase query, throwing the server's message on error. */
+export const unwrap = async <T>(
+  q: PromiseLike<{ data: unknown; error: { message: string } | null }>
+): Promise<T> => {
+  const { data, error } = await q;
+  if (error) {
+    throw new Error(error.message || 'Something went wrong');
+  }
+  return data as T;
+};
@@ -1,5 +1,8 @@
 // Admin Panel Types
 
+import type { DifficultyTier, ImageHint, ImageStatus } from '@/types/game';
+import type { PhotoMetadata } from '@/services/photoSubmissionService';
+
 export interface AdminUser {
   id: string;
   user_id: string;
@@ -92,6 +95,29 @@ export type PhotoSubmissionStatus =
   | 'rejected'
   | 'needs_info';
 
+export type SubmissionEventKind = 'comment' | 'status' | 'assignment';
+
+// One entry in a submission's thread: a comment, a status change or an
+// assignment. Submitters get their own thread without internal entries,
+// reviewer names or internal notes.
+export interface SubmissionEvent {
+  id: string;
+  kind: SubmissionEventKind;
+  actor_role: 'admin' | 'submitter';
+  actor_name: string | null;
+  from_status: PhotoSubmissionStatus | null;
+  to_status: PhotoSubmissionStatus | null;
+  assignee_name: string | null; // assignment events; null when unassigning
+  body: string | null; // the comment, or the note on a status change
+  internal: boolean; // admins only
+  created_at: string;
+}
+
+export interface AdminReviewer {
+  user_id: string;
+  name: string;
+}
+
 export interface AdminPhotoSubmission {
   id: string;
   submitter_name: string;
@@ -102,12 +128,24 @@ export interface AdminPhotoSubmission {
   year_confidence: string | null;
   description: string | null;
   clues_description: string | null;
+  photo_metadata: PhotoMetadata | null; // file details, plus any EXIF/XMP read at upload
+  perceptual_hash: string | null; // null for submissions made before hashing, or undecodable files
   status: PhotoSubmissionStatus;
   admin_notes: string | null;
   rejection_reason: string | null;
   approval_date: string | null;
   user_id: string | null;
   created_at: string;
+  updated_at: string | null;
+  assigned_to: string | null;
+  assignee_name: string | null;
+  last_status_change: {
+    at: string;
+    to_status: PhotoSubmissionStatus;
+    actor_role: SubmissionEvent['actor_role'];
+    actor_name: string | null;
+  } | null;
+  reply_waiting: boolean; // the submitter wrote or resubmitted after the last admin action
 }
 
 export interface ApprovePhotoSubmissionInput {
@@ -118,6 +156,82 @@ export interface ApprovePhotoSubmissionInput {
   locationName: string;
   description: string;
   notes?: string;
+  hints?: ImageHint[];
+}
+
+// A game image's difficulty rating as stored by recompute_image_difficulty
+export interface AdminImageDifficulty {
+  id: string;
+  image_url: string;
+  location_name: string;
+  year: number;
+  difficulty: DifficultyTier | null;
+  difficulty_score: number | null;
+  difficulty_rounds: number;
+  avg_year_error: number | null;
+  avg_distance_km: number | null;
+  score_stddev: number | null;
+  difficulty_updated_at: string | null;
+}
+
+// One manifest row as admin_import_images judged it
+export interface AdminImportRowResult {
+  line: number;
+  status: 'ok' | 'invalid' | 'duplicate' | 'inserted'; // 'ok' only on a dry run
+  errors: string[];
+  duplicate: { kind: 'url' | 'location'; line?: number; image_id?: string } | null;
+  image_id: string | null; // the new game_images row once inserted
+}
+
+export interface AdminImportResult {
+  dry_run: boolean;
+  confirm_token: string; // pass back once, within a day, to insert exactly the rows dry-run checked
+  inserted: number;
+  rows: AdminImportRowResult[];
+}
+
+// A catalogue image as the admin Images tab lists it
+export interface AdminCatalogueImage {
+  id: string;
+  image_url: string;
+  year: number;
+  location_lat: number;
+  location_lng: number;
+  location_name: string;
+  description: string;
+  tags: string[];
+  difficulty: DifficultyTier | null;
+  difficulty_score: number | null;
+  difficulty_rounds: number; // rounds played, as of the last difficulty recompute
+  status: ImageStatus;
+  status_changed_at: string | null;
+  perceptual_hash: string | null; // null until hashed (see AdminService.setImageHashes)
+  created_at: string;
+}
+
+export interface AdminImageUpdateInput {
+  year: number;
+  lat: number;
+  lng: number;
+  locationName: string;
+  description: string;
+}
+
+// How an image has played, from admin_image_usage (averages null until played)
+export interface AdminImageUsage {
+  rounds: number;
+  players: number;
+  avg_score: number | null;
+  best_score: number | null;
+  worst_score: number | null;
+  avg_year_error: number | null;
+  exact_year_rate: number | null; // share of year guesses that were exact, 0-1
+  avg_distance_km: number | null;
+  first_played_at: string | null;
+  last_played_at: string | null;
+  daily_challenges: number;
+  custom_challenges: number;
+  collections: number;
 }
 
 export interface AdminSettings {
@@ -1,8 +1,25 @@
 // Types for the Duels mode. These mirror the jsonb payloads returned by the
 // duel_* RPCs (see supabase/migrations/20260611010351_duels_schema_and_rpcs.sql).
 
+import type { ScoringProfileId } from '@/types/game';
+
 export type DuelStatus = 'waiting' | 'active' | 'finished' | 'cancelled';
 
+/** '2v2' pits two teams of two against each other over a shared team HP. */
+export type DuelFormat = '1v1' | '2v2';
+
+/** How a team's round score is taken from its members' guesses. */
+export type DuelTeamDamage = 'best' | 'average';
+
+/** Games in a match; the first to win a majority takes it. */
+export type DuelBestOf = 1 | 3 | 5;
+
+/** In a 1v1 the host is team 1 and the opponent team 2. */
+export type DuelTeam = 1 | 2;
+
+/** Games won by [team 1, team 2]. */
+export type DuelGameWins = [number, number];
+
 export type DuelFinishReason =
   | 'knockout'
   | 'forfeit'
@@ -19,7 +36,14 @@ export interface DuelInfo {
   guess_window_seconds: number;
   round_seconds: number;
   results_seconds: number;
+  scoring_profile: ScoringProfileId;
+  format: DuelFormat;
+  team_damage: DuelTeamDamage;
+  best_of: DuelBestOf;
+  current_game: number;
+  game_wins: DuelGameWins;
   winner_player_id: string | null;
+  winner_team: DuelTeam | null;
   finish_reason: DuelFinishReason | null;
   created_at: string;
   started_at: string | null;
@@ -30,13 +54,16 @@ export interface DuelPlayer {
   id: string;
   display_name: string;
   is_host: boolean;
+  /** Team members share one HP pool, mirrored on each of them. */
   hp: number;
+  team: DuelTeam;
   joined_at: string;
 }
 
 export interface DuelRoundInfo {
   id: string;
   round_number: number;
+  game_number: number;
   image_id: string;
   multiplier: number;
   started_at: string;
@@ -45,6 +72,9 @@ export interface DuelRoundInfo {
   resolved_at: string | null;
   next_round_at: string | null;
   winner_player_id: string | null;
+  winner_team: DuelTeam | null;
+  /** Each team's score for the round, set once it resolves. */
+  team_scores: [number, number] | null;
   score_diff: number | null;
   damage: number | null;
   guessed_player_ids: string[];
@@ -76,12 +106,16 @@ export interface DuelState {
 
 export interface DuelRoundResultGuess extends DuelGuess {
   display_name: string;
+  team: DuelTeam;
 }
 
 export interface DuelRoundResults {
   round_number: number;
+  game_number: number;
   multiplier: number;
   winner_player_id: string | null;
+  winner_team: DuelTeam | null;
+  team_scores: [number, number] | null;
   score_diff: number | null;
   damage: number | null;
   resolved_at: string;
@@ -94,14 +128,19 @@ export interface DuelRoundResults {
     description: string;
   };
   guesses: DuelRoundResultGuess[];
-  players: { id: string; hp: number }[];
+  players: { id: string; hp: number; team: DuelTeam }[];
+  /** Games won after this round. */
+  game_wins: DuelGameWins;
   server_time: string;
 }
 
 export interface DuelRoundSummary {
   round_number: number;
+  game_number: number;
   multiplier: number;
   winner_player_id: string | null;
+  winner_team: DuelTeam | null;
+  team_scores: [number, number] | null;
   score_diff: number | null;
   damage: number | null;
   image_id: string;
@@ -124,6 +163,10 @@ export interface DuelSettings {
   starting_hp?: number;
   guess_window_seconds?: number;
   round_seconds?: number;
+  scoring_profile?: ScoringProfileId;
+  format?: DuelFormat;
+  best_of?: DuelBestOf;
+  team_damage?: DuelTeamDamage;
 }
 
 /** High-level UI phase derived from duel + round state. */
@@ -8,6 +8,29 @@ export interface GameImage {
     name: string;
   };
   description: string;
+  hints?: ImageHint[]; // revealed in order, each one costs points
+  difficulty?: DifficultyTier | null; // from play history; null until enough rounds
+  difficulty_score?: number | null; // 0-100, see the image_difficulty migration
+  skill_rating?: number; // Elo-style rating the player is matched against
+  tags?: string[]; // lowercase labels collections are built from
+  status?: ImageStatus; // only active images are dealt from the pool
+}
+
+// Where an image stands in the catalogue (see the image_catalogue_admin migration)
+export type ImageStatus = 'active' | 'retired' | 'deleted';
+
+// Difficulty tier of a rated image (thirds of the rated pool)
+export type DifficultyTier = 'easy' | 'medium' | 'hard';
+
+// What a game draws from the pool: one tier, or images near the player's skill
+export type GameDifficulty = DifficultyTier | 'adaptive';
+
+// Curated clues attached to a game image (game_images.hints)
+export type ImageHintKind = 'country' | 'decade' | 'text';
+
+export interface ImageHint {
+  kind: ImageHintKind;
+  text: string;
 }
 
 export interface GuessResult {
@@ -33,6 +56,13 @@ export interface GuessResult {
   displayYearScore?: number; // Display score (0-5000)
   displayLocationScore?: number; // Display score (0-5000)
   timeBonus?: number; // Time bonus points
+  eraBucketSet?: EraBucketSetId; // set when the year was guessed as an era bucket
+  eraUnpicked?: boolean; // era mode: time ran out before a bucket was picked, so the year scored 0
+  scoredDimension?: GuessDimension; // practice modes: the only dimension guessed; the other holds the answer
+  yearMargin?: number; // ± years the year guess was widened to (0 = exact)
+  radiusKm?: number; // radius drawn around the map pin (0 = point guess)
+  hintsUsed?: number; // hints revealed before guessing
+  hintPenalty?: number; // display points those hints cost
 }
 
 export interface GameState {
@@ -51,6 +81,9 @@ export interface GameState {
   gameStartTime?: number; // timestamp when game started
   roundStartTime?: number; // timestamp when current round started
   customTimerDuration?: number; // custom timer duration for multiplayer games
+  scoringProfile: ScoringProfileId; // curves every round of this game is scored with
+  eraBucketSet: EraBucketSetId | null; // era mode: year is picked as a bucket from this set
+  scoredDimension: GuessDimension | null; // practice modes: only this half is guessed and scored
 }
 
 // User Profile Types
@@ -67,23 +100,176 @@ export interface UserProfile {
   total_score: number;
   best_single_game_score: number;
   average_score: number;
-  favorite_game_mode: 'random' | 'daily' | 'timed';
+  favorite_game_mode: GameMode;
 }
 
 // Game Session Types
-export type GameMode = 'random' | 'daily' | 'timed';
+export type GameMode = 'random' | 'daily' | 'daily_archive' | 'timed' | 'era' | 'year_only' | 'location_only' | 'challenge';
+
+// The two halves of a guess; practice modes play only one of them
+export type GuessDimension = 'year' | 'location';
+
+// Named scoring curves (see src/utils/scoringProfiles.ts)
+export type ScoringProfileId = 'classic' | 'regional' | 'global';
+
+// Bucket sets for era mode (see src/utils/eraBuckets.ts)
+export type EraBucketSetId = 'decades' | 'eras';
 
 export interface GameSession {
   id: string;
   user_id: string;
   game_mode: GameMode;
+  scoring_profile: ScoringProfileId;
+  timer_type: 'per-round' | 'total-game' | null; // null for untimed modes
+  era_bucket_set: EraBucketSetId | null; // only for game_mode 'era'
+  challenge_id: string | null; // only for game_mode 'challenge'
+  daily_date: string | null; // Eastern-Time day of a 'daily' or 'daily_archive' game
+  difficulty: GameDifficulty | null; // set when the player asked for a tier or an adaptive game
+  collection_id: string | null; // the collection the images were drawn from, if any
+  region_id: string | null; // region mode: images and map bounded to this region
   total_score: number;
   rounds_completed: number;
   time_taken?: number; // Total time in seconds
   completed_at: string;
+  verified_at: string | null; // set when the server totalled the rounds
+  is_public: boolean; // the player shared the replay at /game/:id
+  created_at: string;
+}
+
+// One round of a finished game as round_results recorded it, with the photo
+// as it was when played
+export interface GameReplayRound {
+  round_number: number;
+  image_id: string | null;
+  image_url: string | null;
+  location_name: string | null;
+  image_description: string | null;
+  year_guess: number | null; // null when only the location was guessed
+  actual_year: number;
+  location_guess_lat: number | null; // null when only the year was guessed
+  location_guess_lng: number | null;
+  actual_location_lat: number;
+  actual_location_lng: number;
+  year_score: number; // raw 0-100
+  location_score: number;
+  total_round_score: number;
+  time_bonus: number;
+  display_score: number;
+  distance_km: number | null;
+  time_used: number | null; // seconds
+  year_margin: number;
+  radius_km: number;
+  hints_used: number;
+}
+
+// One of the player's own scored rounds, for the profile's Analytics tab
+// (see src/utils/playerStats.ts)
+export interface PlayerRound {
+  played_at: string;
+  game_mode: GameMode;
+  session_id: string;
+  round_number: number;
+  image_id: string | null;
+  image_url: string | null;
+  location_name: string | null;
+  actual_year: number;
+  year_guess: number | null; // null when only the location was guessed
+  actual_location_lat: number;
+  actual_location_lng: number;
+  distance_km: number | null; // null when only the year was guessed
+  year_score: number;
+  location_score: number;
+  display_score: number;
+}
+
+// A finished game played back at /game/:sessionId (see src/utils/gameReplay.ts)
+export interface GameReplay {
+  session_id: string;
+  game_mode: GameMode;
+  scoring_profile: ScoringProfileId;
+  timer_type: 'per-round' | 'total-game' | null;
+  era_bucket_set: EraBucketSetId | null;
+  region_id: string | null;
+  total_score: number;
+  rounds_completed: number;
+  time_taken: number | null;
+  completed_at: string;
+  is_public: boolean;
+  is_owner: boolean;
+  username: string | null;
+  rounds: GameReplayRound[];
+}
+
+// Admin-scheduled theme for a run of daily challenges (see src/utils/dailySelection.ts)
+export interface DailyTheme {
+  id: string;
+  title: string;
+  description: string | null;
+  start_date: string; // YYYY-MM-DD, Eastern Time, inclusive
+  end_date: string;
+  year_from: number | null;
+  year_to: number | null;
+  keywords: string[]; // any one must appear in the description or place name
+  created_at: string;
+}
+
+// One day of the daily challenge archive with the player's scores for it
+export interface DailyArchiveDay {
+  challenge_date: string; // YYYY-MM-DD, Eastern Time
+  ranked_score: number | null; // the ranked daily played on that day, if any
+  ranked_rounds: number | null;
+  replay_best_score: number | null; // best finished replay from the archive (unranked)
+}
+
+// Admin-built game shared as /challenge/:id (see src/utils/customChallenge.ts)
+export interface CustomChallenge {
+  id: string;
+  title: string;
+  center: string | null; // the center an event is run for, if any
+  image_ids: string[]; // the pool; each player plays the same seeded draw from it
+  round_count: number;
+  timer_seconds: number | null; // per-round timer, null = untimed
+  scoring_profile: ScoringProfileId;
+  created_by: string | null;
   created_at: string;
 }
 
+// Admin-curated set of images to play (see src/utils/imageCollections.ts)
+export interface ImageCollection {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  tag_filter: string[]; // images carrying any of these tags belong to it
+  image_ids: string[]; // hand-picked members on top of the tag matches
+  is_published: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A point of an admin-drawn region outline
+export interface RegionPoint {
+  lat: number;
+  lng: number;
+}
+
+// Bounded area for region mode (see src/utils/gameRegions.ts)
+export interface GameRegion {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  south: number; // bounding box, always set; the outline's box when drawn
+  west: number;
+  north: number;
+  east: number;
+  polygon: RegionPoint[] | null; // admin-drawn outline; null = the box itself
+  is_preset: boolean;
+  is_published: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 // Round Result Types (for detailed analytics)
 export interface RoundResult {
   id: string;
@@ -91,19 +277,42 @@ export interface RoundResult {
   user_id: string;
   image_id: string;
   round_number: number;
-  year_guess: number;
+  year_guess: number | null; // null in location_only games
   actual_year: number;
-  location_guess_lat: number;
-  location_guess_lng: number;
+  location_guess_lat: number | null; // null in year_only games
+  location_guess_lng: number | null;
   actual_location_lat: number;
   actual_location_lng: number;
   year_score: number;
   location_score: number;
   total_round_score: number;
   time_used?: number;
+  time_bonus: number;
+  display_score: number | null; // null on rows saved before server scoring
+  distance_km: number | null;
+  scoring_engine_version: number | null;
+  year_margin: number; // confidence range the player chose, 0 = point guess
+  radius_km: number;
+  hints_used: number;
   created_at: string;
 }
 
+// What submit_round_guess returns (scoring_score_round plus the round)
+export interface ServerRoundScore {
+  engine_version: number;
+  profile: ScoringProfileId;
+  round_number: number;
+  distance_km: number | null;
+  year_score: number;
+  location_score: number;
+  total_score: number;
+  time_bonus: number;
+  hint_penalty: number;
+  display_year_score: number;
+  display_location_score: number;
+  display_total_score: number;
+}
+
 // Leaderboard Types
 export interface LeaderboardEntry {
   id: string;
@@ -124,8 +333,10 @@ export interface LeaderboardEntry {
 
 export interface LeaderboardFilters {
   timeframe: 'all-time' | 'monthly' | 'weekly' | 'daily';
-  gameMode: 'all' | 'random' | 'daily' | 'timed';
+  gameMode: 'all' | GameMode;
+  scoringProfile: ScoringProfileId;
   metric: 'total_score' | 'average_score' | 'best_single_game' | 'games_played';
+  collectionId: string | null; // null = the general boards, which leave collection games out
 }
 
 // Authentication Types
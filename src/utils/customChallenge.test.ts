@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getChallengeSeed, selectChallengeImages } from './customChallenge';
+import type { GameImage } from '@/types/game';
+
+const image = (id: string): GameImage => ({
+  id,
+  image_url: `https://example.com/${id}.jpg`,
+  year: 1970,
+  location: { lat: 0, lng: 0, name: id },
+  description: '',
+});
+
+const POOL = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const challenge = { id: 'c0ffee00-0000-4000-8000-000000000001', image_ids: POOL, round_count: 5 };
+
+describe('selectChallengeImages', () => {
+  it('gives every player the same sequence whatever order the images load in', () => {
+    const loaded = POOL.map(image);
+    const a = selectChallengeImages(challenge, loaded);
+    const b = selectChallengeImages(challenge, [...loaded].reverse());
+    expect(a.map(i => i.id)).toEqual(b.map(i => i.id));
+  });
+
+  it('plays round_count distinct images from the pool', () => {
+    const ids = selectChallengeImages(challenge, POOL.map(image)).map(i => i.id);
+    expect(ids).toHaveLength(5);
+    expect(new Set(ids).size).toBe(5);
+    ids.forEach(id => expect(POOL).toContain(id));
+  });
+
+  it('ignores images outside the pool and skips ones that no longer exist', () => {
+    const loaded = [...POOL.filter(id => id !== 'c'), 'zz'].map(image);
+    const ids = selectChallengeImages({ ...challenge, round_count: 8 }, loaded).map(i => i.id);
+    expect(ids).toHaveLength(7);
+    expect(ids).not.toContain('c');
+    expect(ids).not.toContain('zz');
+  });
+
+  it('draws a different order for a different challenge', () => {
+    const other = { ...challenge, id: 'c0ffee00-0000-4000-8000-000000000002', round_count: 8 };
+    const ids = (c: typeof challenge) => selectChallengeImages(c, POOL.map(image)).map(i => i.id);
+    expect(ids(other)).not.toEqual(ids({ ...challenge, round_count: 8 }));
+  });
+
+  it('seeds from the challenge id alone', () => {
+    expect(getChallengeSeed('abc')).toBe('smrutimap-challenge-abc');
+  });
+});
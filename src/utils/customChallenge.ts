@@ -0,0 +1,36 @@
+import type { CustomChallenge, GameImage } from '@/types/game';
+import { seededShuffle } from '@/utils/seededRandom';
+
+// Limits shared with admin_create_custom_challenge
+export const CHALLENGE_LIMITS = {
+  MAX_IMAGES: 20,
+  MAX_TITLE_LENGTH: 80,
+  MIN_TIMER_SECONDS: 10,
+  MAX_TIMER_SECONDS: 300,
+} as const;
+
+// Seed for a challenge's image order. Like the daily seed it must be a pure
+// function of the challenge, so every player draws the same sequence.
+export const getChallengeSeed = (challengeId: string): string =>
+  `smrutimap-challenge-${challengeId}`;
+
+/**
+ * The images a challenge is played with, in play order: the pool in its
+ * stored order (images that no longer exist are skipped), shuffled with the
+ * challenge seed, cut to round_count.
+ */
+export const selectChallengeImages = (
+  challenge: Pick<CustomChallenge, 'id' | 'image_ids' | 'round_count'>,
+  images: GameImage[]
+): GameImage[] => {
+  const byId = new Map(images.map(img => [img.id, img]));
+  const pool = challenge.image_ids
+    .map(id => byId.get(id))
+    .filter((img): img is GameImage => img !== undefined);
+  return seededShuffle(pool, getChallengeSeed(challenge.id)).slice(0, challenge.round_count);
+};
+
+export const getChallengePath = (challengeId: string): string => `/challenge/${challengeId}`;
+
+export const getChallengeUrl = (challengeId: string): string =>
+  `${window.location.origin}${getChallengePath(challengeId)}`;
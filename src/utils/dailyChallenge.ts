@@ -1,61 +1,63 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { GameImage, GameSession } from "@/types/game";
+import { DailyTheme, GameImage, GameSession } from "@/types/game";
 import { getAllImages } from "@/data/sampleData";
+import { isImageInPlay } from "@/utils/imageCatalogue";
+import { createSeededRandom, seededShuffle } from "@/utils/seededRandom";
+import {
+  DAILY_SELECTION,
+  findDailyTheme,
+  getDailyChallengeSeed,
+  selectDailyImages,
+} from "@/utils/dailySelection";
+import { getEasternDateString, shiftDateString } from "@/utils/dailyStreaks";
 
-// Create a deterministic random number generator using date as seed
-// Exported for tests: locks in the determinism guarantee.
-export const createSeededRandom = (seed: string) => {
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    const char = seed.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  return () => {
-    hash = ((hash * 1103515245) + 12345) & 0x7fffffff;
-    return hash / 0x7fffffff;
-  };
-};
-
-// Shuffle array using seeded random
-export const seededShuffle = <T>(array: T[], seed: string): T[] => {
-  const newArray = [...array];
-  const random = createSeededRandom(seed);
-  
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-  }
-  return newArray;
-};
-
-// Get today's date in Eastern Time (EST/EDT) YYYY-MM-DD format
-const getTodayDateString = (): string => {
-  // Get current time in Eastern Time (automatically handles EST/EDT)
-  const now = new Date();
-  const easternTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
-  return easternTime.toISOString().split('T')[0];
-};
+// Seeded selection lives in seededRandom.ts so custom challenges can share it
+// without pulling in the Supabase client; re-exported for existing callers.
+export { createSeededRandom, seededShuffle };
 
-// Get yesterday's date string to exclude those images
-const getYesterdayDateString = (): string => {
-  const now = new Date();
-  const easternTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
-  const yesterday = new Date(easternTime);
-  yesterday.setDate(yesterday.getDate() - 1);
-  return yesterday.toISOString().split('T')[0];
-};
+// Today's date in Eastern Time (EST/EDT), YYYY-MM-DD — the same day the
+// server stamps on game_sessions.daily_date
+const getTodayDateString = (): string => getEasternDateString();
 
 // Seed for today's challenge. Must be a pure function of the date so every
 // player computes the same image set even when the daily_challenges row
 // hasn't been stored yet (or the insert races between clients).
 export const getTodayChallengeSeed = (): string => {
-  return `smrutimap-daily-${getTodayDateString()}`;
+  return getDailyChallengeSeed(getTodayDateString());
 };
 
-// Get daily challenge images for today
+// Images used by the dailies inside the reuse cooldown before `day`
+const getRecentDailyImageIds = async (day: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('daily_challenges')
+    .select('image_ids')
+    .gte('challenge_date', shiftDateString(day, -DAILY_SELECTION.REUSE_COOLDOWN_DAYS))
+    .lt('challenge_date', day);
+  if (error) {
+    console.log('Could not fetch recent daily challenges, proceeding without the cooldown');
+    return [];
+  }
+  return (data || []).flatMap(row => row.image_ids);
+};
+
+// The admin-scheduled theme for `day`, if any
+export const getDailyThemeForDate = async (day: string): Promise<DailyTheme | null> => {
+  const { data, error } = await supabase
+    .from('daily_themes')
+    .select('*')
+    .lte('start_date', day)
+    .gte('end_date', day);
+  if (error) {
+    console.log('Could not fetch daily themes, proceeding without a theme');
+    return null;
+  }
+  return findDailyTheme((data || []) as DailyTheme[], day);
+};
+
+// Get daily challenge images for today: the stored set when the day already
+// has one (including days an admin pinned ahead of time), otherwise a fresh
+// pick under the selection policy in dailySelection.ts.
 export const getDailyChallengeImages = async (): Promise<GameImage[]> => {
   const todayString = getTodayDateString();
   
@@ -71,65 +73,44 @@ export const getDailyChallengeImages = async (): Promise<GameImage[]> => {
       console.error('Error fetching daily challenge:', fetchError);
     }
     
+    const allImages = await getAllImages();
+
     if (existingChallenge && existingChallenge.image_ids) {
-      // Get the specific images for today's challenge
-      const allImages = await getAllImages();
-      const challengeImages = allImages.filter(img => 
-        existingChallenge.image_ids.includes(img.id)
-      );
+      // Keep the stored play order
+      const byId = new Map(allImages.map(img => [img.id, img]));
+      const challengeImages = existingChallenge.image_ids
+        .map(id => byId.get(id))
+        .filter((img): img is GameImage => img !== undefined);
       
-      if (challengeImages.length === 5) {
+      if (challengeImages.length === DAILY_SELECTION.ROUNDS) {
         console.log('Using existing daily challenge images');
         return challengeImages;
       }
     }
     
-    // Generate new daily challenge
+    // Generate new daily challenge, from images still in play
     console.log('Generating new daily challenge for', todayString);
-    const allImages = await getAllImages();
+    const pool = allImages.filter(isImageInPlay);
     
-    if (allImages.length < 5) {
+    if (pool.length < DAILY_SELECTION.ROUNDS) {
       console.warn('Not enough images for daily challenge');
-      return allImages;
+      return pool;
     }
     
-    // Get yesterday's images to exclude them
-    const yesterdayString = getYesterdayDateString();
-    let yesterdayImageIds: string[] = [];
-    
-    try {
-      const { data: yesterdayChallenge } = await supabase
-        .from('daily_challenges')
-        .select('image_ids')
-        .eq('challenge_date', yesterdayString)
-        .maybeSingle();
-      
-      if (yesterdayChallenge && yesterdayChallenge.image_ids) {
-        yesterdayImageIds = yesterdayChallenge.image_ids;
-        console.log('Excluding yesterday\'s images:', yesterdayImageIds);
-      }
-    } catch (error) {
-      console.log('Could not fetch yesterday\'s challenge, proceeding without exclusion');
-    }
-    
-    // Filter out yesterday's images to ensure different selection
-    const availableImages = yesterdayImageIds.length > 0 
-      ? allImages.filter(img => !yesterdayImageIds.includes(img.id))
-      : allImages;
-    
-    if (availableImages.length < 5) {
-      console.warn('Not enough images after excluding yesterday\'s, using all images');
-      // Fallback to all images if we don't have enough after exclusion
-      const challengeSeed = getTodayChallengeSeed();
-      const shuffledImages = seededShuffle(allImages, challengeSeed);
-      return shuffledImages.slice(0, 5);
+    const [recentImageIds, theme] = await Promise.all([
+      getRecentDailyImageIds(todayString),
+      getDailyThemeForDate(todayString),
+    ]);
+    if (theme) {
+      console.log('Daily challenge theme:', theme.title);
     }
     
-    // Use unique seed for today's challenge with filtered images
-    const challengeSeed = getTodayChallengeSeed();
-    const shuffledImages = seededShuffle(availableImages, challengeSeed);
-    const selectedImages = shuffledImages.slice(0, 5);
-    const selectedImageIds = selectedImages.map(img => img.id);
+    const selectedImages = selectDailyImages({
+      pool,
+      seed: getTodayChallengeSeed(),
+      recentImageIds,
+      theme,
+    });
     
     // Store the challenge so later players reuse the exact set. Selection is
     // deterministic, so losing this insert race to another client is harmless.
@@ -137,7 +118,8 @@ export const getDailyChallengeImages = async (): Promise<GameImage[]> => {
       .from('daily_challenges')
       .insert({
         challenge_date: todayString,
-        image_ids: selectedImageIds
+        image_ids: selectedImages.map(img => img.id),
+        theme_id: theme?.id ?? null
       });
     if (insertError) {
       console.log('Could not store daily challenge (another client may have stored it first)');
@@ -149,10 +131,10 @@ export const getDailyChallengeImages = async (): Promise<GameImage[]> => {
   } catch (error) {
     console.error('Error in getDailyChallengeImages:', error);
     // Fallback: use seeded randomization with all images
-    const allImages = await getAllImages();
+    const allImages = (await getAllImages()).filter(isImageInPlay);
     const challengeSeed = getTodayChallengeSeed();
     const shuffledImages = seededShuffle(allImages, challengeSeed);
-    return shuffledImages.slice(0, Math.min(5, allImages.length));
+    return shuffledImages.slice(0, Math.min(DAILY_SELECTION.ROUNDS, allImages.length));
   }
 };
 
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findDailyTheme,
+  getImageEra,
+  getImageRegion,
+  matchesDailyTheme,
+  previewDailySchedule,
+  selectDailyImages,
+} from './dailySelection';
+import type { DailyTheme, GameImage } from '@/types/game';
+
+const image = (id: string, year: number, lat: number, lng: number, description = ''): GameImage => ({
+  id,
+  image_url: `https://example.com/${id}.jpg`,
+  year,
+  location: { lat, lng, name: `Place ${id}` },
+  description,
+});
+
+const theme = (overrides: Partial<DailyTheme> = {}): DailyTheme => ({
+  id: 'theme-1',
+  title: 'Monsoon week',
+  description: null,
+  start_date: '2026-07-06',
+  end_date: '2026-07-12',
+  year_from: null,
+  year_to: null,
+  keywords: [],
+  created_at: '2026-06-22T00:00:00Z',
+  ...overrides,
+});
+
+describe('matchesDailyTheme', () => {
+  it('checks the year range and any keyword, case-insensitively', () => {
+    const rainy = image('a', 1955, 19, 72, 'Crowds in the Monsoon rain');
+    expect(matchesDailyTheme(rainy, theme({ keywords: ['monsoon', 'flood'] }))).toBe(true);
+    expect(matchesDailyTheme(rainy, theme({ keywords: ['festival'] }))).toBe(false);
+    expect(matchesDailyTheme(rainy, theme({ year_from: 1950, year_to: 1959 }))).toBe(true);
+    expect(matchesDailyTheme(rainy, theme({ year_from: 1960 }))).toBe(false);
+  });
+});
+
+describe('findDailyTheme', () => {
+  it('finds the theme covering the day, preferring the latest start', () => {
+    const week = theme();
+    const weekend = theme({ id: 'theme-2', start_date: '2026-07-11', end_date: '2026-07-12' });
+    expect(findDailyTheme([week, weekend], '2026-07-08')?.id).toBe('theme-1');
+    expect(findDailyTheme([week, weekend], '2026-07-12')?.id).toBe('theme-2');
+    expect(findDailyTheme([week, weekend], '2026-07-13')).toBeNull();
+  });
+});
+
+describe('selectDailyImages', () => {
+  // Six eras by two regions, three photos each
+  const pool: GameImage[] = [];
+  [1930, 1955, 1970, 1985, 1995, 2010].forEach((year, era) => {
+    [
+      [13, 77],
+      [28, 77],
+    ].forEach(([lat, lng], region) => {
+      for (let i = 0; i < 3; i++) pool.push(image(`${era}-${region}-${i}`, year + i, lat, lng));
+    });
+  });
+
+  it('is deterministic for a seed and returns distinct photos', () => {
+    const a = selectDailyImages({ pool, seed: 'smrutimap-daily-2026-07-01' });
+    const b = selectDailyImages({ pool, seed: 'smrutimap-daily-2026-07-01' });
+    expect(a.map((img) => img.id)).toEqual(b.map((img) => img.id));
+    expect(new Set(a.map((img) => img.id)).size).toBe(5);
+  });
+
+  it('spreads picks over different eras and both regions', () => {
+    const picked = selectDailyImages({ pool, seed: 'smrutimap-daily-2026-07-02' });
+    expect(new Set(picked.map(getImageEra)).size).toBe(5);
+    expect(new Set(picked.map(getImageRegion)).size).toBe(2);
+  });
+
+  it('skips recently used photos while enough others remain', () => {
+    const recent = pool.slice(0, 30).map((img) => img.id);
+    const picked = selectDailyImages({ pool, seed: 'seed', recentImageIds: recent });
+    expect(picked.every((img) => !recent.includes(img.id))).toBe(true);
+    expect(picked).toHaveLength(5);
+  });
+
+  it('falls back to recent photos rather than play short', () => {
+    const recent = pool.slice(0, 34).map((img) => img.id);
+    const picked = selectDailyImages({ pool, seed: 'seed', recentImageIds: recent });
+    expect(picked).toHaveLength(5);
+    expect(picked.slice(0, 2).every((img) => !recent.includes(img.id))).toBe(true);
+  });
+
+  it('mixes difficulty tiers when the photos are rated', () => {
+    const tiers = ['easy', 'medium', 'hard'] as const;
+    const rated = pool.map((img, i) => ({ ...img, difficulty: tiers[i % 3] }));
+    const picked = selectDailyImages({ pool: rated, seed: 'smrutimap-daily-2026-07-03' });
+    expect(new Set(picked.map((img) => img.difficulty)).size).toBe(3);
+  });
+
+  it('fills the day from the theme first and tops it up from the rest', () => {
+    const fifties = theme({ year_from: 1950, year_to: 1959 });
+    const picked = selectDailyImages({ pool, seed: 'seed', theme: fifties });
+    const themed = picked.filter((img) => matchesDailyTheme(img, fifties));
+    expect(themed).toHaveLength(5);
+
+    const narrow = theme({ year_from: 1955, year_to: 1955 });
+    const topped = selectDailyImages({ pool, seed: 'seed', theme: narrow });
+    expect(topped.slice(0, 2).every((img) => img.year === 1955)).toBe(true);
+    expect(topped).toHaveLength(5);
+  });
+});
+
+describe('previewDailySchedule', () => {
+  const pool = Array.from({ length: 40 }, (_, i) => image(`p${i}`, 1900 + i * 3, i % 20, 70 + (i % 7)));
+
+  it('keeps stored days and never repeats photos across previewed days', () => {
+    const stored = new Map([['2026-07-02', ['p0', 'p1', 'p2', 'p3', 'p4']]]);
+    const days = previewDailySchedule({ pool, themes: [], stored, from: '2026-07-01', days: 6 });
+    expect(days.map((d) => d.date)).toEqual([
+      '2026-07-01',
+      '2026-07-02',
+      '2026-07-03',
+      '2026-07-04',
+      '2026-07-05',
+      '2026-07-06',
+    ]);
+    expect(days[1]).toMatchObject({ stored: true, imageIds: ['p0', 'p1', 'p2', 'p3', 'p4'] });
+    const all = days.flatMap((d) => d.imageIds);
+    expect(new Set(all).size).toBe(all.length);
+  });
+
+  it('rerolls a single day without touching earlier ones', () => {
+    const base = previewDailySchedule({ pool, themes: [], stored: new Map(), from: '2026-07-01', days: 3 });
+    const rerolled = previewDailySchedule({
+      pool,
+      themes: [],
+      stored: new Map(),
+      from: '2026-07-01',
+      days: 3,
+      rerolls: new Map([['2026-07-02', 1]]),
+    });
+    expect(rerolled[0].imageIds).toEqual(base[0].imageIds);
+    expect(rerolled[1].imageIds).not.toEqual(base[1].imageIds);
+  });
+});
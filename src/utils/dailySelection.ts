@@ -0,0 +1,172 @@
+// Daily challenge selection policy. Picks the day's photos from the pool so
+// that they follow the day's theme (if an admin scheduled one), skip photos
+// used in recent dailies, and spread across eras, regions and difficulty
+// tiers. Selection is a
+// pure function of its inputs and the date seed, so every client that
+// generates a day computes the same set, and the admin preview shows exactly
+// what players will get unless the day is pinned.
+
+import type { DailyTheme, GameImage } from '@/types/game';
+import { findEraBucketIndex } from '@/utils/eraBuckets';
+import { DIFFICULTY_TIERS, getEffectiveTier } from '@/utils/imageDifficulty';
+import { seededShuffle } from '@/utils/seededRandom';
+import { shiftDateString } from '@/utils/dailyStreaks';
+
+export const DAILY_SELECTION = {
+  ROUNDS: 5,
+  /** A photo isn't reused until this many days after its last daily. */
+  REUSE_COOLDOWN_DAYS: 30,
+  /** Regions are cells of this many degrees of latitude and longitude. */
+  REGION_CELL_DEGREES: 5,
+} as const;
+
+/** Seed for a day's selection; a pure function of the date so every client
+ *  picks the same set. */
+export const getDailyChallengeSeed = (day: string): string => `smrutimap-daily-${day}`;
+
+/** Era of a photo, on the coarse era-mode buckets. */
+export const getImageEra = (image: GameImage): number => findEraBucketIndex('eras', image.year);
+
+/** Coarse region of a photo: the grid cell its location falls in. */
+export const getImageRegion = (image: GameImage): string => {
+  const size = DAILY_SELECTION.REGION_CELL_DEGREES;
+  return `${Math.floor(image.location.lat / size)}:${Math.floor(image.location.lng / size)}`;
+};
+
+/** True when a photo fits the theme's year range and (if it has any) one of
+ *  its keywords appears in the photo's description or place name. */
+export const matchesDailyTheme = (image: GameImage, theme: DailyTheme): boolean => {
+  if (theme.year_from !== null && image.year < theme.year_from) return false;
+  if (theme.year_to !== null && image.year > theme.year_to) return false;
+  if (theme.keywords.length === 0) return true;
+  const text = `${image.description} ${image.location.name}`.toLowerCase();
+  return theme.keywords.some((keyword) => text.includes(keyword.toLowerCase()));
+};
+
+/** The theme scheduled for `day` (YYYY-MM-DD); the latest-starting one wins
+ *  when themes overlap. */
+export const findDailyTheme = (themes: DailyTheme[], day: string): DailyTheme | null =>
+  themes
+    .filter((theme) => theme.start_date <= day && day <= theme.end_date)
+    .sort((a, b) => b.start_date.localeCompare(a.start_date))[0] ?? null;
+
+export interface DailySelectionInput {
+  pool: GameImage[];
+  seed: string;
+  /** Photos used by dailies inside the cooldown window. */
+  recentImageIds?: Iterable<string>;
+  theme?: DailyTheme | null;
+  rounds?: number;
+}
+
+/**
+ * Picks the day's photos. Candidates are ranked fresh theme matches, other
+ * fresh photos, then recently used ones (theme matches first), each rank in
+ * seeded order; so a theme with too few photos is topped up with other
+ * photos before anything is reused. Within the best rank left, each pick
+ * takes the photo that adds the most variety: a point each for an unused
+ * era, an unused region and the difficulty tier the day has fewest of, ties
+ * going to the earlier photo.
+ */
+export const selectDailyImages = ({
+  pool,
+  seed,
+  recentImageIds = [],
+  theme = null,
+  rounds = DAILY_SELECTION.ROUNDS,
+}: DailySelectionInput): GameImage[] => {
+  const recent = new Set(recentImageIds);
+  const rank = (image: GameImage) =>
+    (recent.has(image.id) ? 2 : 0) + (theme && !matchesDailyTheme(image, theme) ? 1 : 0);
+  const candidates = seededShuffle(pool, seed)
+    .map((image, order) => ({ image, order, rank: rank(image) }))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .map(({ image }) => image);
+
+  const picked: GameImage[] = [];
+  const eras = new Set<number>();
+  const regions = new Set<string>();
+  const tiers = new Map(DIFFICULTY_TIERS.map((tier) => [tier, 0]));
+  const take = (index: number) => {
+    const [image] = candidates.splice(index, 1);
+    picked.push(image);
+    eras.add(getImageEra(image));
+    regions.add(getImageRegion(image));
+    const tier = getEffectiveTier(image);
+    tiers.set(tier, (tiers.get(tier) ?? 0) + 1);
+  };
+
+  // Only spread within the best rank still available, so the cooldown and
+  // the theme always outrank variety.
+  while (picked.length < rounds && candidates.length > 0) {
+    const bestRank = rank(candidates[0]);
+    const sameRank = candidates.filter((image) => rank(image) === bestRank).length;
+    const fewest = Math.min(...tiers.values());
+    const variety = (image: GameImage) =>
+      (eras.has(getImageEra(image)) ? 0 : 1) +
+      (regions.has(getImageRegion(image)) ? 0 : 1) +
+      (tiers.get(getEffectiveTier(image)) === fewest ? 1 : 0);
+    let index = 0;
+    for (let i = 1; i < sameRank; i++) {
+      if (variety(candidates[i]) > variety(candidates[index])) index = i;
+    }
+    take(index);
+  }
+  return picked;
+};
+
+export interface DailySchedulePreview {
+  date: string;
+  imageIds: string[];
+  themeId: string | null;
+  /** True when the day already has a stored (generated or pinned) set. */
+  stored: boolean;
+}
+
+export interface DailyScheduleInput {
+  pool: GameImage[];
+  themes: DailyTheme[];
+  /** Stored image sets by day, covering at least the cooldown before `from`. */
+  stored: Map<string, string[]>;
+  from: string;
+  days: number;
+  /** Per-day reroll count; a non-zero count picks an alternative set. */
+  rerolls?: Map<string, number>;
+}
+
+/**
+ * What the next `days` dailies will be: the stored set where a day has one,
+ * otherwise the set selectDailyImages would generate on the day. Each preview
+ * counts the days before it (stored or previewed) towards the cooldown, just
+ * as they will when the day comes.
+ */
+export const previewDailySchedule = ({
+  pool,
+  themes,
+  stored,
+  from,
+  days,
+  rerolls = new Map(),
+}: DailyScheduleInput): DailySchedulePreview[] => {
+  const sets = new Map(stored);
+  const previews: DailySchedulePreview[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = shiftDateString(from, i);
+    const theme = findDailyTheme(themes, date);
+    const existing = stored.get(date);
+    if (existing) {
+      previews.push({ date, imageIds: existing, themeId: theme?.id ?? null, stored: true });
+      continue;
+    }
+    const recentImageIds: string[] = [];
+    for (let back = 1; back <= DAILY_SELECTION.REUSE_COOLDOWN_DAYS; back++) {
+      recentImageIds.push(...(sets.get(shiftDateString(date, -back)) ?? []));
+    }
+    const reroll = rerolls.get(date) ?? 0;
+    const seed = getDailyChallengeSeed(date) + (reroll ? `#${reroll}` : '');
+    const imageIds = selectDailyImages({ pool, seed, recentImageIds, theme }).map((img) => img.id);
+    sets.set(date, imageIds);
+    previews.push({ date, imageIds, themeId: theme?.id ?? null, stored: false });
+  }
+  return previews;
+};
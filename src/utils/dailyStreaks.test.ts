@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeDailyStreaks,
+  getArchiveStreaks,
+  getEasternDateString,
+  shiftDateString,
+} from './dailyStreaks';
+import type { DailyArchiveDay } from '@/types/game';
+
+const day = (
+  challenge_date: string,
+  ranked_rounds: number | null,
+  replay_best_score: number | null = null
+): DailyArchiveDay => ({
+  challenge_date,
+  ranked_score: ranked_rounds === null ? null : 20000,
+  ranked_rounds,
+  replay_best_score,
+});
+
+describe('getEasternDateString', () => {
+  it('uses the New York day, not UTC', () => {
+    // 03:30 UTC is still the previous evening in New York (EDT, UTC-4)
+    expect(getEasternDateString(new Date('2026-07-02T03:30:00Z'))).toBe('2026-07-01');
+    expect(getEasternDateString(new Date('2026-07-02T04:30:00Z'))).toBe('2026-07-02');
+    // EST in winter is UTC-5
+    expect(getEasternDateString(new Date('2026-01-15T04:30:00Z'))).toBe('2026-01-14');
+  });
+});
+
+describe('shiftDateString', () => {
+  it('crosses month, year and leap-day boundaries', () => {
+    expect(shiftDateString('2026-03-01', -1)).toBe('2026-02-28');
+    expect(shiftDateString('2028-03-01', -1)).toBe('2028-02-29');
+    expect(shiftDateString('2026-12-31', 1)).toBe('2027-01-01');
+  });
+});
+
+describe('computeDailyStreaks', () => {
+  it('counts the run ending today', () => {
+    const streaks = computeDailyStreaks(['2026-06-08', '2026-06-09', '2026-06-10'], '2026-06-10');
+    expect(streaks).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('keeps the streak alive until today is over', () => {
+    expect(computeDailyStreaks(['2026-06-08', '2026-06-09'], '2026-06-10').current).toBe(2);
+    expect(computeDailyStreaks(['2026-06-08', '2026-06-09'], '2026-06-11').current).toBe(0);
+  });
+
+  it('tracks the longest run separately from the current one', () => {
+    const streaks = computeDailyStreaks(
+      ['2026-05-01', '2026-05-02', '2026-05-03', '2026-05-04', '2026-06-09', '2026-06-10'],
+      '2026-06-10'
+    );
+    expect(streaks).toEqual({ current: 2, longest: 4 });
+  });
+
+  it('ignores duplicates and order', () => {
+    expect(computeDailyStreaks(['2026-06-10', '2026-06-09', '2026-06-10'], '2026-06-10')).toEqual({
+      current: 2,
+      longest: 2,
+    });
+    expect(computeDailyStreaks([], '2026-06-10')).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe('getArchiveStreaks', () => {
+  it('only counts ranked days with every round played', () => {
+    const archive = [
+      day('2026-06-10', 5),
+      day('2026-06-09', 3), // abandoned on the day
+      day('2026-06-08', null, 21000), // replayed later from the archive
+      day('2026-06-07', 5),
+    ];
+    expect(getArchiveStreaks(archive, '2026-06-10')).toEqual({ current: 1, longest: 1 });
+  });
+});
@@ -0,0 +1,68 @@
+// Daily challenge streaks and archive helpers. Days are YYYY-MM-DD strings in
+// Eastern Time: the day boundary getESTDateRange uses for the daily
+// leaderboard and the server uses for game_sessions.daily_date.
+
+import type { DailyArchiveDay } from '@/types/game';
+
+// Rounds in a daily challenge; a day only counts once all of them are played
+// (the same rule as hasUserPlayedDailyChallengeToday).
+export const DAILY_CHALLENGE_ROUNDS = 5;
+
+const EASTERN_DATE_FORMAT = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+/** The Eastern-Time calendar day of `date` as YYYY-MM-DD. */
+export const getEasternDateString = (date: Date = new Date()): string =>
+  EASTERN_DATE_FORMAT.format(date);
+
+/** Moves a YYYY-MM-DD day by `days` (negative for earlier days). */
+export const shiftDateString = (day: string, days: number): string => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+/** True when the player finished the ranked daily on that day. */
+export const isRankedDayComplete = (day: DailyArchiveDay): boolean =>
+  (day.ranked_rounds ?? 0) >= DAILY_CHALLENGE_ROUNDS;
+
+export interface DailyStreaks {
+  current: number;
+  longest: number;
+}
+
+/**
+ * Current and longest run of consecutive days in `playedDays`. The current
+ * streak is still alive until today is over: it ends today, or yesterday if
+ * today's challenge hasn't been played yet.
+ */
+export const computeDailyStreaks = (playedDays: string[], today: string): DailyStreaks => {
+  const days = [...new Set(playedDays)].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const day of days) {
+    run = previous !== null && shiftDateString(previous, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  const played = new Set(days);
+  let current = 0;
+  let cursor = played.has(today) ? today : shiftDateString(today, -1);
+  while (played.has(cursor)) {
+    current += 1;
+    cursor = shiftDateString(cursor, -1);
+  }
+  return { current, longest };
+};
+
+/** Streaks from the archive; replays don't count, only days played live. */
+export const getArchiveStreaks = (archive: DailyArchiveDay[], today: string): DailyStreaks =>
+  computeDailyStreaks(
+    archive.filter(isRankedDayComplete).map((day) => day.challenge_date),
+    today
+  );
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getDuelTeamSize, getDuelTeams, getGamesToWin } from './duelFormats';
+import type { DuelPlayer } from '@/types/duel';
+
+const player = (id: string, team: 1 | 2, hp: number, isHost = false): DuelPlayer => ({
+  id,
+  display_name: id.toUpperCase(),
+  is_host: isHost,
+  hp,
+  team,
+  joined_at: '2026-06-20T00:00:00Z',
+});
+
+describe('duel formats', () => {
+  it('sizes teams by format', () => {
+    expect(getDuelTeamSize('1v1')).toBe(1);
+    expect(getDuelTeamSize('2v2')).toBe(2);
+  });
+
+  it('needs a majority of games to win a match', () => {
+    expect(getGamesToWin(1)).toBe(1);
+    expect(getGamesToWin(3)).toBe(2);
+    expect(getGamesToWin(5)).toBe(3);
+  });
+});
+
+describe('getDuelTeams', () => {
+  const players = [
+    player('a', 1, 8000, true),
+    player('b', 2, 5000),
+    player('c', 1, 8000),
+    player('d', 2, 5000),
+  ];
+
+  it('puts my team first and names teams after their members', () => {
+    const [mine, theirs] = getDuelTeams(players, 'b');
+    expect(mine.team).toBe(2);
+    expect(mine.name).toBe('B & D');
+    expect(mine.hp).toBe(5000);
+    expect(theirs.players.map((p) => p.id)).toEqual(['a', 'c']);
+  });
+
+  it('shows team 1 first to spectators and keeps an empty side', () => {
+    const teams = getDuelTeams([player('a', 1, 12000, true)], null);
+    expect(teams.map((t) => t.team)).toEqual([1, 2]);
+    expect(teams[1]).toMatchObject({ players: [], hp: 0, name: 'Team 2' });
+  });
+});
@@ -0,0 +1,38 @@
+import type { DuelBestOf, DuelFormat, DuelPlayer, DuelTeam } from '@/types/duel';
+
+export const DUEL_BEST_OF_OPTIONS: DuelBestOf[] = [1, 3, 5];
+
+/** Players per team: the duel is full at twice this. */
+export const getDuelTeamSize = (format: DuelFormat): number => (format === '2v2' ? 2 : 1);
+
+/** Games a side must win to take the match (mirrors the majority check in
+ *  _duel_resolve_round). */
+export const getGamesToWin = (bestOf: number): number => Math.floor(bestOf / 2) + 1;
+
+export interface DuelTeamView {
+  team: DuelTeam;
+  players: DuelPlayer[];
+  /** The team's shared HP (every member carries the same value). */
+  hp: number;
+  /** "Asha" in a 1v1, "Asha & Ravi" in a team duel. */
+  name: string;
+}
+
+/**
+ * Groups players into their two teams, my team first when I'm playing and
+ * team 1 first for spectators. Empty teams (an unfilled lobby) are kept so
+ * callers can always render two sides.
+ */
+export const getDuelTeams = (players: DuelPlayer[], myId: string | null): DuelTeamView[] => {
+  const myTeam = players.find((p) => p.id === myId)?.team ?? 1;
+  const order: DuelTeam[] = myTeam === 1 ? [1, 2] : [2, 1];
+  return order.map((team) => {
+    const members = players.filter((p) => p.team === team);
+    return {
+      team,
+      players: members,
+      hp: members.length > 0 ? Math.min(...members.map((p) => p.hp)) : 0,
+      name: members.map((p) => p.display_name).join(' & ') || `Team ${team}`,
+    };
+  });
+};
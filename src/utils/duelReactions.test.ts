@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { DUEL_REACTIONS, isDuelReaction } from './duelReactions';
+
+describe('isDuelReaction', () => {
+  it('accepts only the fixed reaction set', () => {
+    for (const emoji of DUEL_REACTIONS) expect(isDuelReaction(emoji)).toBe(true);
+    expect(isDuelReaction('🤡')).toBe(false);
+    expect(isDuelReaction('hello')).toBe(false);
+    expect(isDuelReaction(undefined)).toBe(false);
+    expect(isDuelReaction({ emoji: '🔥' })).toBe(false);
+  });
+});
@@ -0,0 +1,15 @@
+// Emoji spectators can send during a duel. Reactions travel over the duel's
+// realtime presence channel as broadcasts and are never stored; receivers
+// drop anything outside this set.
+export const DUEL_REACTIONS = ['👏', '🔥', '😮', '😂', '🎯', '💀'] as const;
+
+export type DuelReactionEmoji = (typeof DUEL_REACTIONS)[number];
+
+export const isDuelReaction = (value: unknown): value is DuelReactionEmoji =>
+  typeof value === 'string' && (DUEL_REACTIONS as readonly string[]).includes(value);
+
+/** Minimum gap between two reactions from the same spectator. */
+export const DUEL_REACTION_COOLDOWN_MS = 700;
+
+/** How long a reaction floats on screen. */
+export const DUEL_REACTION_LIFETIME_MS = 3000;
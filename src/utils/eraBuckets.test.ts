@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ERA_BUCKET_SETS,
+  describeEraMiss,
+  describeEraNoPick,
+  eraBucketYear,
+  eraMissYear,
+  findEraBucket,
+  findEraBucketIndex,
+  formatEraBucket,
+  isEraBucketSetId,
+} from './eraBuckets';
+import { calculateEraYearScore } from './scoringSystem';
+
+describe('era bucket sets', () => {
+  it.each(Object.values(ERA_BUCKET_SETS).map(set => [set.id, set] as const))(
+    '%s covers 1900–2025 without gaps or overlaps',
+    (_, set) => {
+      expect(set.buckets[0].start).toBe(1900);
+      expect(set.buckets[set.buckets.length - 1].end).toBe(2025);
+      set.buckets.forEach((bucket, i) => {
+        expect(bucket.start).toBeLessThanOrEqual(bucket.end);
+        if (i > 0) expect(bucket.start).toBe(set.buckets[i - 1].end + 1);
+      });
+    }
+  );
+
+  it('maps a bucket pick back to the same bucket', () => {
+    for (const set of Object.values(ERA_BUCKET_SETS)) {
+      for (const bucket of set.buckets) {
+        expect(findEraBucket(set.id, eraBucketYear(bucket)).id).toBe(bucket.id);
+      }
+    }
+  });
+
+  it('clamps years outside the set to its ends', () => {
+    expect(findEraBucketIndex('decades', 1850)).toBe(0);
+    expect(findEraBucket('eras', 2030).id).toBe('digital_age');
+  });
+
+  it('only shows a label without its years when the label says them', () => {
+    for (const set of Object.values(ERA_BUCKET_SETS)) {
+      for (const bucket of set.buckets) {
+        if (formatEraBucket(bucket) === bucket.label) {
+          expect(bucket.label).toBe(`${bucket.start}s`);
+          expect(bucket.end - bucket.start).toBeLessThanOrEqual(9);
+        }
+      }
+    }
+    expect(findEraBucket('eras', 1990).id).toBe('liberalisation');
+  });
+
+  it('recognises set ids', () => {
+    expect(isEraBucketSetId('decades')).toBe(true);
+    expect(isEraBucketSetId('centuries')).toBe(false);
+    expect(isEraBucketSetId(null)).toBe(false);
+  });
+});
+
+describe('era scoring', () => {
+  it('gives full, partial and no credit by bucket distance', () => {
+    expect(calculateEraYearScore(1965, 1961, 'decades')).toBe(100);
+    expect(calculateEraYearScore(1965, 1975, 'decades')).toBe(50);
+    expect(calculateEraYearScore(1965, 1985, 'decades')).toBe(20);
+    expect(calculateEraYearScore(1965, 1995, 'decades')).toBe(0);
+  });
+
+  it('describes the miss in bucket terms', () => {
+    expect(describeEraMiss('decades', 1965, 1961)).toBe('Right decade');
+    expect(describeEraMiss('decades', 1965, 1975)).toBe('1 decade off');
+    expect(describeEraMiss('eras', 1950, 2010)).toBe('4 eras off');
+    expect(describeEraNoPick('decades')).toBe('No decade picked');
+  });
+
+  it('scores a round with no bucket pick as a miss', () => {
+    for (const set of Object.values(ERA_BUCKET_SETS)) {
+      for (let year = 1900; year <= 2025; year++) {
+        expect(calculateEraYearScore(year, eraMissYear(set.id, year), set.id)).toBe(0);
+      }
+    }
+  });
+});
@@ -0,0 +1,107 @@
+// Year buckets for era mode. Players pick a bucket instead of an exact year;
+// the bucket is carried as its middle year (so every existing yearGuess path
+// keeps working) and mapped back with findEraBucket when scoring. The same
+// tables are seeded into era_buckets for the server
+// (supabase/migrations/20260615090000_era_mode.sql, the eras boundary moved in
+// 20260708090000_eighties_era_bucket.sql) — keep them in step.
+
+import type { EraBucketSetId } from '@/types/game';
+
+export interface EraBucket {
+  id: string;
+  label: string;
+  /** Inclusive year range. Buckets in a set are contiguous and ordered. */
+  start: number;
+  end: number;
+}
+
+export interface EraBucketSet {
+  id: EraBucketSetId;
+  name: string;
+  description: string;
+  buckets: EraBucket[];
+}
+
+// GAME_CONSTANTS.YEAR_RANGE, repeated because gameConstants validates env vars
+// on import and scoring code must load without them (tests, SQL parity).
+const MIN = 1900;
+const MAX = 2025;
+
+const decade = (start: number): EraBucket => ({
+  id: `${start}s`,
+  label: `${start}s`,
+  start,
+  end: Math.min(start + 9, MAX),
+});
+
+export const ERA_BUCKET_SETS: Record<EraBucketSetId, EraBucketSet> = {
+  decades: {
+    id: 'decades',
+    name: 'Decades',
+    description: 'Pick the decade the photo was taken in.',
+    buckets: Array.from({ length: Math.floor((MAX - MIN) / 10) + 1 }, (_, i) => decade(MIN + i * 10)),
+  },
+  eras: {
+    id: 'eras',
+    name: 'Named eras',
+    description: 'Broader periods of modern Indian history.',
+    buckets: [
+      { id: 'pre_independence', label: 'Pre-Independence', start: MIN, end: 1946 },
+      { id: 'early_republic', label: 'Early Republic', start: 1947, end: 1966 },
+      { id: 'green_revolution', label: 'Green Revolution', start: 1967, end: 1979 },
+      { id: 'eighties', label: '1980s', start: 1980, end: 1989 },
+      { id: 'liberalisation', label: 'Liberalisation', start: 1990, end: 2004 },
+      { id: 'digital_age', label: 'Digital Age', start: 2005, end: MAX },
+    ],
+  },
+};
+
+export const DEFAULT_ERA_BUCKET_SET: EraBucketSetId = 'decades';
+
+// Raw year score by how many buckets away the guess is: the right bucket gets
+// full marks, the neighbours partial credit, anything further nothing.
+export const ERA_STEP_SCORES = [100, 50, 20] as const;
+
+export const isEraBucketSetId = (value: unknown): value is EraBucketSetId =>
+  typeof value === 'string' && value in ERA_BUCKET_SETS;
+
+/** Index of the bucket containing `year`; years outside the set clamp to its ends. */
+export const findEraBucketIndex = (setId: EraBucketSetId, year: number): number => {
+  const { buckets } = ERA_BUCKET_SETS[setId];
+  if (year < buckets[0].start) return 0;
+  const index = buckets.findIndex(b => year <= b.end);
+  return index === -1 ? buckets.length - 1 : index;
+};
+
+export const findEraBucket = (setId: EraBucketSetId, year: number): EraBucket =>
+  ERA_BUCKET_SETS[setId].buckets[findEraBucketIndex(setId, year)];
+
+/** The year a bucket pick is stored as. */
+export const eraBucketYear = (bucket: EraBucket): number =>
+  Math.floor((bucket.start + bucket.end) / 2);
+
+export const formatEraBucket = (bucket: EraBucket): string =>
+  bucket.label === `${bucket.start}s` ? bucket.label : `${bucket.label} (${bucket.start}–${bucket.end})`;
+
+const eraUnit = (setId: EraBucketSetId): string => (setId === 'decades' ? 'decade' : 'era');
+
+/** Result-screen wording for an era-mode guess, e.g. "Right decade" or "2 eras off". */
+export const describeEraMiss = (setId: EraBucketSetId, actualYear: number, guessedYear: number): string => {
+  const steps = Math.abs(findEraBucketIndex(setId, actualYear) - findEraBucketIndex(setId, guessedYear));
+  const unit = eraUnit(setId);
+  return steps === 0 ? `Right ${unit}` : `${steps} ${unit}${steps === 1 ? '' : 's'} off`;
+};
+
+/** Result-screen wording for a round that timed out before a bucket was picked. */
+export const describeEraNoPick = (setId: EraBucketSetId): string => `No ${eraUnit(setId)} picked`;
+
+/**
+ * The year a round with no bucket pick is submitted as: the bucket farthest
+ * from the answer, which is always past ERA_STEP_SCORES and so scores 0 here
+ * and on the server alike.
+ */
+export const eraMissYear = (setId: EraBucketSetId, actualYear: number): number => {
+  const { buckets } = ERA_BUCKET_SETS[setId];
+  const actual = findEraBucketIndex(setId, actualYear);
+  return eraBucketYear(actual < buckets.length / 2 ? buckets[buckets.length - 1] : buckets[0]);
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getPolygonBounds,
+  getRegionImages,
+  getRegionMapBounds,
+  getRegionOutline,
+  isInRegion,
+  isPointInPolygon,
+} from './gameRegions';
+
+// An L-shaped outline: the top-right quarter of the box is outside
+const L_SHAPE = [
+  { lat: 0, lng: 0 },
+  { lat: 10, lng: 0 },
+  { lat: 10, lng: 5 },
+  { lat: 5, lng: 5 },
+  { lat: 5, lng: 10 },
+  { lat: 0, lng: 10 },
+];
+
+describe('isPointInPolygon', () => {
+  it('follows the outline, not its box', () => {
+    expect(isPointInPolygon({ lat: 2, lng: 8 }, L_SHAPE)).toBe(true);
+    expect(isPointInPolygon({ lat: 8, lng: 2 }, L_SHAPE)).toBe(true);
+    expect(isPointInPolygon({ lat: 8, lng: 8 }, L_SHAPE)).toBe(false);
+    expect(isPointInPolygon({ lat: -1, lng: 2 }, L_SHAPE)).toBe(false);
+  });
+});
+
+describe('regions', () => {
+  const drawn = { ...getPolygonBounds(L_SHAPE), polygon: L_SHAPE };
+  const preset = { south: 18.89, west: 72.77, north: 19.3, east: 73.05, polygon: null };
+
+  it('derives the box from an outline', () => {
+    expect(getPolygonBounds(L_SHAPE)).toEqual({ south: 0, west: 0, north: 10, east: 10 });
+  });
+
+  it('checks presets against their box and drawn regions against the outline', () => {
+    expect(isInRegion(preset, { lat: 19.07, lng: 72.87 })).toBe(true);
+    expect(isInRegion(preset, { lat: 28.61, lng: 77.2 })).toBe(false);
+    expect(isInRegion(drawn, { lat: 8, lng: 8 })).toBe(false);
+  });
+
+  it('keeps only the images inside, in pool order', () => {
+    const images = [
+      { id: 'a', location: { lat: 8, lng: 2, name: '' } },
+      { id: 'b', location: { lat: 8, lng: 8, name: '' } },
+      { id: 'c', location: { lat: 1, lng: 9, name: '' } },
+    ];
+    expect(getRegionImages(drawn, images).map(img => img.id)).toEqual(['a', 'c']);
+  });
+
+  it('pads the map bounds and outlines presets by their corners', () => {
+    expect(getRegionMapBounds({ south: 0, west: 0, north: 10, east: 20 })).toEqual({
+      south: -1.5,
+      west: -3,
+      north: 11.5,
+      east: 23,
+    });
+    expect(getRegionOutline(preset)).toHaveLength(4);
+    expect(getRegionOutline(drawn)).toBe(L_SHAPE);
+  });
+});
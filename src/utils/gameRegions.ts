@@ -0,0 +1,91 @@
+// Region mode: games bounded to one state or city. A region is a bounding
+// box (the presets) or an admin-drawn outline with its box alongside. Only
+// images inside the region are drawn, the guess map can't leave it, and
+// rounds score on the regional profile's kilometre bands.
+
+import type { GameImage, GameRegion, RegionPoint, ScoringProfileId } from '@/types/game';
+
+// Limits shared with admin_save_game_region
+export const REGION_LIMITS = {
+  MIN_POINTS: 3,
+  MAX_POINTS: 200,
+  MAX_NAME_LENGTH: 60,
+} as const;
+
+export const REGION_SCORING_PROFILE: ScoringProfileId = 'regional';
+
+// Share of the region's size the map may pan past its edges, so guesses on
+// the border are still easy to place
+const MAP_PADDING = 0.15;
+
+export interface RegionBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/** The smallest box around an outline. */
+export const getPolygonBounds = (points: RegionPoint[]): RegionBounds => ({
+  south: Math.min(...points.map(p => p.lat)),
+  west: Math.min(...points.map(p => p.lng)),
+  north: Math.max(...points.map(p => p.lat)),
+  east: Math.max(...points.map(p => p.lng)),
+});
+
+/** Even-odd ray casting; points on an edge may land either side. */
+export const isPointInPolygon = (point: RegionPoint, polygon: RegionPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInRegion = (
+  region: Pick<GameRegion, 'south' | 'west' | 'north' | 'east' | 'polygon'>,
+  point: RegionPoint
+): boolean => {
+  const inBox =
+    point.lat >= region.south &&
+    point.lat <= region.north &&
+    point.lng >= region.west &&
+    point.lng <= region.east;
+  return inBox && (!region.polygon || isPointInPolygon(point, region.polygon));
+};
+
+/** The region's images, in pool order. */
+export const getRegionImages = <T extends Pick<GameImage, 'location'>>(
+  region: Pick<GameRegion, 'south' | 'west' | 'north' | 'east' | 'polygon'>,
+  images: T[]
+): T[] => images.filter(image => isInRegion(region, image.location));
+
+/** The box the guess map is held to: the region plus some room at the edges. */
+export const getRegionMapBounds = (region: RegionBounds): RegionBounds => {
+  const padLat = (region.north - region.south) * MAP_PADDING;
+  const padLng = (region.east - region.west) * MAP_PADDING;
+  return {
+    south: Math.max(region.south - padLat, -85),
+    west: Math.max(region.west - padLng, -180),
+    north: Math.min(region.north + padLat, 85),
+    east: Math.min(region.east + padLng, 180),
+  };
+};
+
+/** The outline to draw on the map: the drawn polygon, or the box's corners. */
+export const getRegionOutline = (
+  region: Pick<GameRegion, 'south' | 'west' | 'north' | 'east' | 'polygon'>
+): RegionPoint[] =>
+  region.polygon ?? [
+    { lat: region.south, lng: region.west },
+    { lat: region.north, lng: region.west },
+    { lat: region.north, lng: region.east },
+    { lat: region.south, lng: region.east },
+  ];
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { GameReplay, GameReplayRound } from '@/types/game';
+import {
+  formatRoundTime,
+  getReplayResults,
+  getYearSliderPercent,
+  replayRoundToResult,
+} from './gameReplay';
+
+const round = (overrides: Partial<GameReplayRound> = {}): GameReplayRound => ({
+  round_number: 1,
+  image_id: 'img-1',
+  image_url: 'https://example.com/1.jpg',
+  location_name: 'Chennai',
+  image_description: 'Marina Beach',
+  year_guess: 1960,
+  actual_year: 1965,
+  location_guess_lat: 13,
+  location_guess_lng: 80.2,
+  actual_location_lat: 13.05,
+  actual_location_lng: 80.28,
+  year_score: 80,
+  location_score: 90,
+  total_round_score: 85,
+  time_bonus: 30,
+  display_score: 8280, // 4000 + 4500 + 30 bonus - 250 for a hint
+  distance_km: 10,
+  time_used: 20,
+  year_margin: 0,
+  radius_km: 0,
+  hints_used: 1,
+  ...overrides,
+});
+
+describe('replayRoundToResult', () => {
+  it('works the display scores and hint penalty back from the raw scores', () => {
+    const result = replayRoundToResult(round(), null);
+    expect(result.displayYearScore).toBe(4000);
+    expect(result.displayLocationScore).toBe(4500);
+    expect(result.hintPenalty).toBe(250);
+    expect(result.scaledScore).toBe(8280);
+    expect(result.timeUsed).toBe(20);
+    expect(result.imageUrl).toBe('https://example.com/1.jpg');
+    expect(result.actualLocation).toEqual({ lat: 13.05, lng: 80.28, name: 'Chennai' });
+  });
+
+  it('fills the half a practice round did not play with the answer', () => {
+    const yearOnly = replayRoundToResult(
+      round({ location_guess_lat: null, location_guess_lng: null, location_score: 0, display_score: 8000, time_bonus: 0, hints_used: 0 }),
+      'year'
+    );
+    expect(yearOnly.locationGuess).toEqual({ lat: 13.05, lng: 80.28 });
+    expect(yearOnly.displayYearScore).toBe(8000);
+    expect(yearOnly.hintPenalty).toBe(0);
+
+    const locationOnly = replayRoundToResult(round({ year_guess: null }), 'location');
+    expect(locationOnly.yearGuess).toBe(1965);
+  });
+});
+
+describe('getReplayResults', () => {
+  it('plays the rounds in order with the mode’s scored half', () => {
+    const replay = {
+      game_mode: 'year_only',
+      rounds: [round({ round_number: 2, image_id: 'b' }), round({ round_number: 1, image_id: 'a' })],
+    } as GameReplay;
+    const results = getReplayResults(replay);
+    expect(results.map(r => r.imageId)).toEqual(['a', 'b']);
+    expect(results[0].scoredDimension).toBe('year');
+  });
+});
+
+describe('replay display helpers', () => {
+  it('places years on the slider track', () => {
+    expect(getYearSliderPercent(1900, 1900, 2000)).toBe(0);
+    expect(getYearSliderPercent(1950, 1900, 2000)).toBe(50);
+    expect(getYearSliderPercent(2100, 1900, 2000)).toBe(100);
+  });
+
+  it('formats round times', () => {
+    expect(formatRoundTime(42)).toBe('42s');
+    expect(formatRoundTime(65)).toBe('1m 05s');
+  });
+});
@@ -0,0 +1,82 @@
+// Rebuilds a finished game from its round_results rows for the replay page
+// (/game/:sessionId, see the game_replays migration).
+
+import type { GameReplay, GameReplayRound, GuessDimension, GuessResult } from '@/types/game';
+import { getScoredDimensionForMode, SCORE_CONSTANTS } from '@/utils/scoringSystem';
+
+// How long each round stays up while the replay plays itself
+export const REPLAY_ROUND_MS = 6000;
+
+export const getReplayPath = (sessionId: string): string => `/game/${sessionId}`;
+
+export const getReplayUrl = (sessionId: string): string =>
+  `${window.location.origin}${getReplayPath(sessionId)}`;
+
+/**
+ * The round as the game screens show it. Display scores and the hint penalty
+ * aren't stored, so they are worked back from the raw scores the same way
+ * scoring_score_round builds them. A half that wasn't played holds the answer,
+ * as it does in the game.
+ */
+export const replayRoundToResult = (
+  round: GameReplayRound,
+  scoredDimension: GuessDimension | null
+): GuessResult => {
+  const multiplier = scoredDimension
+    ? SCORE_CONSTANTS.SINGLE_DIMENSION_MULTIPLIER
+    : SCORE_CONSTANTS.DISPLAY_MULTIPLIER;
+  const displayYearScore = round.year_score * multiplier;
+  const displayLocationScore = round.location_score * multiplier;
+  const actualLocation = {
+    lat: round.actual_location_lat,
+    lng: round.actual_location_lng,
+    name: round.location_name ?? undefined,
+  };
+
+  return {
+    imageId: round.image_id ?? '',
+    imageUrl: round.image_url ?? undefined,
+    yearGuess: round.year_guess ?? round.actual_year,
+    locationGuess:
+      round.location_guess_lat !== null && round.location_guess_lng !== null
+        ? { lat: round.location_guess_lat, lng: round.location_guess_lng }
+        : { lat: actualLocation.lat, lng: actualLocation.lng },
+    actualYear: round.actual_year,
+    actualLocation,
+    yearScore: round.year_score,
+    locationScore: round.location_score,
+    totalScore: round.total_round_score,
+    scaledScore: round.display_score,
+    timeUsed: round.time_used ?? undefined,
+    displayYearScore,
+    displayLocationScore,
+    timeBonus: round.time_bonus,
+    scoredDimension: scoredDimension ?? undefined,
+    yearMargin: round.year_margin,
+    radiusKm: round.radius_km,
+    hintsUsed: round.hints_used,
+    hintPenalty: Math.max(0, displayYearScore + displayLocationScore + round.time_bonus - round.display_score),
+  };
+};
+
+/** Every round of the replay, in play order. */
+export const getReplayResults = (replay: GameReplay): GuessResult[] => {
+  const scoredDimension = getScoredDimensionForMode(replay.game_mode);
+  return [...replay.rounds]
+    .sort((a, b) => a.round_number - b.round_number)
+    .map(round => replayRoundToResult(round, scoredDimension));
+};
+
+/** Where `year` sits on the year slider, as a percentage of its track. */
+export const getYearSliderPercent = (year: number, minYear: number, maxYear: number): number => {
+  if (maxYear <= minYear) return 0;
+  const clamped = Math.min(Math.max(year, minYear), maxYear);
+  return ((clamped - minYear) / (maxYear - minYear)) * 100;
+};
+
+/** "42s" or "1m 05s" for a round's time. */
+export const formatRoundTime = (seconds: number): string => {
+  const whole = Math.max(0, Math.round(seconds));
+  if (whole < 60) return `${whole}s`;
+  return `${Math.floor(whole / 60)}m ${String(whole % 60).padStart(2, '0')}s`;
+};
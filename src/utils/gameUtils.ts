@@ -1,3 +1,5 @@
+import type { GameMode } from '@/types/game';
+
 // Re-export scoring functions from the new scoring system
 export { 
   calculateYearScore, 
@@ -54,6 +56,20 @@ export const formatYear = (year: number): string => {
   }
 };
 
+// Names of the game modes as players see them
+const GAME_MODE_LABELS: Record<GameMode, string> = {
+  random: 'Classic',
+  timed: 'Timed',
+  era: 'Era',
+  year_only: 'Year only',
+  location_only: 'Location only',
+  daily: 'Daily Challenge',
+  daily_archive: 'Daily replay',
+  challenge: 'Challenge',
+};
+
+export const getGameModeLabel = (mode: GameMode): string => GAME_MODE_LABELS[mode] ?? 'Game';
+
 // Google Drive URL converter utility
 export const convertGoogleDriveUrl = (url: string): string => {
   if (!url) return url;
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { AdminCatalogueImage } from '@/types/admin';
+import type { GameRegion } from '@/types/game';
+import {
+  DEFAULT_CATALOGUE_FILTERS,
+  countByStatus,
+  filterCatalogue,
+  isImageInPlay,
+  isImageStatus,
+  sortCatalogue,
+} from './imageCatalogue';
+
+const image = (overrides: Partial<AdminCatalogueImage> = {}): AdminCatalogueImage => ({
+  id: 'img-1',
+  image_url: 'https://example.com/1.jpg',
+  year: 1965,
+  location_lat: 13.05,
+  location_lng: 80.28,
+  location_name: 'Marina Beach, Chennai',
+  description: 'Fishing boats at dawn',
+  tags: ['city:chennai'],
+  difficulty: 'medium',
+  difficulty_score: 0.5,
+  difficulty_rounds: 40,
+  status: 'active',
+  status_changed_at: null,
+  perceptual_hash: null,
+  created_at: '2026-06-01T10:00:00Z',
+  ...overrides,
+});
+
+const tamilNadu: GameRegion = {
+  id: 'region-tn',
+  slug: 'tamil-nadu',
+  name: 'Tamil Nadu',
+  description: null,
+  south: 8,
+  west: 76,
+  north: 13.6,
+  east: 80.4,
+  polygon: null,
+  is_preset: true,
+  is_published: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+const ids = (images: AdminCatalogueImage[]) => images.map(img => img.id);
+
+describe('image status', () => {
+  it('recognises the three statuses only', () => {
+    expect(isImageStatus('retired')).toBe(true);
+    expect(isImageStatus('archived')).toBe(false);
+    expect(isImageStatus(null)).toBe(false);
+  });
+
+  it('treats images without a status as in play', () => {
+    expect(isImageInPlay({})).toBe(true);
+    expect(isImageInPlay({ status: 'active' })).toBe(true);
+    expect(isImageInPlay({ status: 'retired' })).toBe(false);
+    expect(isImageInPlay({ status: 'deleted' })).toBe(false);
+  });
+
+  it('counts images by status', () => {
+    expect(countByStatus([image(), image({ status: 'deleted' }), image()])).toEqual({
+      active: 2,
+      retired: 0,
+      deleted: 1,
+    });
+  });
+});
+
+describe('filterCatalogue', () => {
+  const images = [
+    image({ id: 'chennai' }),
+    image({
+      id: 'delhi',
+      year: 1931,
+      location_lat: 28.61,
+      location_lng: 77.21,
+      location_name: 'Connaught Place, Delhi',
+      description: 'Tongas outside the arcades',
+      tags: ['city:delhi', 'archive:illustrated-weekly'],
+      difficulty: 'hard',
+    }),
+    image({ id: 'retired', status: 'retired', difficulty: null, difficulty_score: null }),
+    image({ id: 'deleted', status: 'deleted' }),
+  ];
+  const filter = (filters: Partial<typeof DEFAULT_CATALOGUE_FILTERS>) =>
+    ids(filterCatalogue(images, { ...DEFAULT_CATALOGUE_FILTERS, ...filters }, [tamilNadu]));
+
+  it('hides deleted images unless asked for them', () => {
+    expect(filter({})).toEqual(['chennai', 'delhi', 'retired']);
+    expect(filter({ status: 'deleted' })).toEqual(['deleted']);
+    expect(filter({ status: 'active' })).toEqual(['chennai', 'delhi']);
+  });
+
+  it('searches place, description, tags and exact year', () => {
+    expect(filter({ search: 'connaught' })).toEqual(['delhi']);
+    expect(filter({ search: 'BOATS' })).toEqual(['chennai', 'retired']);
+    expect(filter({ search: 'illustrated' })).toEqual(['delhi']);
+    expect(filter({ search: '1931' })).toEqual(['delhi']);
+    expect(filter({ search: '193' })).toEqual([]);
+  });
+
+  it('filters by year range, region, tag and difficulty', () => {
+    expect(filter({ yearFrom: 1940 })).toEqual(['chennai', 'retired']);
+    expect(filter({ yearTo: 1940 })).toEqual(['delhi']);
+    expect(filter({ regionId: 'region-tn' })).toEqual(['chennai', 'retired']);
+    expect(filter({ tag: 'city:delhi' })).toEqual(['delhi']);
+    expect(filter({ difficulty: 'hard' })).toEqual(['delhi']);
+    expect(filter({ difficulty: 'unrated' })).toEqual(['retired']);
+  });
+});
+
+describe('sortCatalogue', () => {
+  const images = [
+    image({ id: 'a', year: 1950, difficulty_score: 0.2, difficulty_rounds: 10, location_name: 'Pune', created_at: '2026-06-01T00:00:00Z' }),
+    image({ id: 'b', year: 1920, difficulty_score: null, difficulty_rounds: 0, location_name: 'Agra', created_at: '2026-06-03T00:00:00Z' }),
+    image({ id: 'c', year: 1980, difficulty_score: 0.9, difficulty_rounds: 90, location_name: 'Kochi', created_at: '2026-06-02T00:00:00Z' }),
+  ];
+
+  it('sorts by each key without touching the input', () => {
+    expect(ids(sortCatalogue(images, 'recent'))).toEqual(['b', 'c', 'a']);
+    expect(ids(sortCatalogue(images, 'year-asc'))).toEqual(['b', 'a', 'c']);
+    expect(ids(sortCatalogue(images, 'most-played'))).toEqual(['c', 'a', 'b']);
+    expect(ids(sortCatalogue(images, 'location'))).toEqual(['b', 'c', 'a']);
+    expect(ids(images)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps unrated images last whichever way difficulty is sorted', () => {
+    expect(ids(sortCatalogue(images, 'hardest'))).toEqual(['c', 'a', 'b']);
+    expect(ids(sortCatalogue(images, 'easiest'))).toEqual(['a', 'c', 'b']);
+  });
+});
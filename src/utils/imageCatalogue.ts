@@ -0,0 +1,121 @@
+// The admin Images tab: searching, filtering and sorting the whole catalogue,
+// and the active / retired / deleted status that decides what the pool deals.
+
+import type { DifficultyTier, GameImage, GameRegion, ImageStatus } from '@/types/game';
+import type { AdminCatalogueImage } from '@/types/admin';
+import { isInRegion } from '@/utils/gameRegions';
+
+export const IMAGE_STATUSES: ImageStatus[] = ['active', 'retired', 'deleted'];
+
+export const IMAGE_STATUS_LABELS: Record<ImageStatus, string> = {
+  active: 'Active',
+  retired: 'Retired',
+  deleted: 'Deleted',
+};
+
+export const isImageStatus = (value: unknown): value is ImageStatus =>
+  typeof value === 'string' && (IMAGE_STATUSES as string[]).includes(value);
+
+/** Whether the pool may deal an image. Images read before statuses existed count as active. */
+export const isImageInPlay = (image: Pick<GameImage, 'status'>): boolean =>
+  (image.status ?? 'active') === 'active';
+
+// 'current' is everything not deleted, the list's default
+export type CatalogueStatusFilter = ImageStatus | 'current';
+
+export type CatalogueSort =
+  | 'recent'
+  | 'year-asc'
+  | 'year-desc'
+  | 'hardest'
+  | 'easiest'
+  | 'most-played'
+  | 'location';
+
+export const CATALOGUE_SORT_LABELS: Record<CatalogueSort, string> = {
+  recent: 'Recently added',
+  'year-asc': 'Year, oldest first',
+  'year-desc': 'Year, newest first',
+  hardest: 'Hardest first',
+  easiest: 'Easiest first',
+  'most-played': 'Most played',
+  location: 'Location A–Z',
+};
+
+export interface CatalogueFilters {
+  search: string;
+  status: CatalogueStatusFilter;
+  yearFrom: number | null;
+  yearTo: number | null;
+  regionId: string | null;
+  tag: string | null;
+  difficulty: DifficultyTier | 'unrated' | null;
+}
+
+export const DEFAULT_CATALOGUE_FILTERS: CatalogueFilters = {
+  search: '',
+  status: 'current',
+  yearFrom: null,
+  yearTo: null,
+  regionId: null,
+  tag: null,
+  difficulty: null,
+};
+
+const matchesSearch = (image: AdminCatalogueImage, q: string) =>
+  image.location_name.toLowerCase().includes(q) ||
+  image.description.toLowerCase().includes(q) ||
+  String(image.year) === q ||
+  image.tags.some(tag => tag.includes(q)) ||
+  image.id === q;
+
+/** The images matching every filter that is set. */
+export const filterCatalogue = (
+  images: AdminCatalogueImage[],
+  filters: CatalogueFilters,
+  regions: Pick<GameRegion, 'id' | 'south' | 'west' | 'north' | 'east' | 'polygon'>[]
+): AdminCatalogueImage[] => {
+  const q = filters.search.trim().toLowerCase();
+  const region = filters.regionId ? regions.find(r => r.id === filters.regionId) : null;
+
+  return images.filter(image => {
+    if (filters.status === 'current' ? image.status === 'deleted' : image.status !== filters.status) return false;
+    if (filters.yearFrom !== null && image.year < filters.yearFrom) return false;
+    if (filters.yearTo !== null && image.year > filters.yearTo) return false;
+    if (region && !isInRegion(region, { lat: image.location_lat, lng: image.location_lng })) return false;
+    if (filters.tag && !image.tags.includes(filters.tag)) return false;
+    if (filters.difficulty === 'unrated' ? image.difficulty !== null : filters.difficulty && image.difficulty !== filters.difficulty) {
+      return false;
+    }
+    return !q || matchesSearch(image, q);
+  });
+};
+
+// Unrated images sort after rated ones whichever way difficulty is sorted
+const byDifficulty = (a: AdminCatalogueImage, b: AdminCatalogueImage, direction: 1 | -1) => {
+  if (a.difficulty_score === null || b.difficulty_score === null) {
+    return (a.difficulty_score === null ? 1 : 0) - (b.difficulty_score === null ? 1 : 0);
+  }
+  return direction * (a.difficulty_score - b.difficulty_score);
+};
+
+const COMPARATORS: Record<CatalogueSort, (a: AdminCatalogueImage, b: AdminCatalogueImage) => number> = {
+  recent: (a, b) => b.created_at.localeCompare(a.created_at),
+  'year-asc': (a, b) => a.year - b.year,
+  'year-desc': (a, b) => b.year - a.year,
+  hardest: (a, b) => byDifficulty(a, b, -1),
+  easiest: (a, b) => byDifficulty(a, b, 1),
+  'most-played': (a, b) => b.difficulty_rounds - a.difficulty_rounds,
+  location: (a, b) => a.location_name.localeCompare(b.location_name),
+};
+
+/** A sorted copy; ties keep the newest-added image first. */
+export const sortCatalogue = (images: AdminCatalogueImage[], sort: CatalogueSort): AdminCatalogueImage[] =>
+  [...images].sort((a, b) => COMPARATORS[sort](a, b) || COMPARATORS.recent(a, b));
+
+/** How many images have each status, for the filter's counts. */
+export const countByStatus = (images: Pick<AdminCatalogueImage, 'status'>[]): Record<ImageStatus, number> => {
+  const counts: Record<ImageStatus, number> = { active: 0, retired: 0, deleted: 0 };
+  images.forEach(image => counts[image.status]++);
+  return counts;
+};
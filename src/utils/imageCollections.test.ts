@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { countTags, getCollectionImages, isValidSlug, normalizeTag, parseTagList, slugify } from './imageCollections';
+
+describe('tags', () => {
+  it('normalizes the way the server stores them', () => {
+    expect(normalizeTag('  City:  Mumbai ')).toBe('city: mumbai');
+    expect(parseTagList('railways, City:Mumbai,, railways ')).toEqual(['city:mumbai', 'railways']);
+  });
+
+  it('counts tags across images, most used first', () => {
+    const images = [{ tags: ['b', 'a'] }, { tags: ['b'] }, {}];
+    expect(countTags(images)).toEqual([
+      { tag: 'b', count: 2 },
+      { tag: 'a', count: 1 },
+    ]);
+  });
+});
+
+describe('slugs', () => {
+  it('suggests a valid slug from a title', () => {
+    expect(slugify('  Bombay Gazette, 1920s! ')).toBe('bombay-gazette-1920s');
+    expect(isValidSlug(slugify('Bombay Gazette'))).toBe(true);
+    expect(isValidSlug('Bad--slug')).toBe(false);
+  });
+});
+
+describe('getCollectionImages', () => {
+  const images = [
+    { id: 'a', tags: ['city:mumbai'] },
+    { id: 'b', tags: ['city:delhi'] },
+    { id: 'c' },
+    { id: 'd', tags: ['railways', 'city:mumbai'] },
+  ];
+
+  it('joins tag matches and hand-picked images in pool order', () => {
+    const collection = { tag_filter: ['city:mumbai'], image_ids: ['c'] };
+    expect(getCollectionImages(collection, images).map(img => img.id)).toEqual(['a', 'c', 'd']);
+  });
+
+  it('is empty when nothing matches', () => {
+    expect(getCollectionImages({ tag_filter: ['theme:sport'], image_ids: [] }, images)).toEqual([]);
+  });
+});
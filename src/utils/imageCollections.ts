@@ -0,0 +1,61 @@
+import type { GameImage, ImageCollection } from '@/types/game';
+
+// Limits shared with admin_set_image_tags and admin_save_image_collection
+export const COLLECTION_LIMITS = {
+  MAX_TAGS: 20,
+  MAX_TAG_LENGTH: 40,
+  MAX_IMAGES: 500,
+  MAX_TITLE_LENGTH: 80,
+  MAX_SLUG_LENGTH: 60,
+  MAX_DESCRIPTION_LENGTH: 280,
+} as const;
+
+// Tags read best grouped by kind ("region:", "city:", "theme:", "archive:");
+// the prefix is only a convention, any lowercase label works.
+export const TAG_KINDS = ['region', 'city', 'theme', 'archive'] as const;
+
+/** A tag as the server stores it: trimmed, lowercase, inner spaces collapsed. */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Comma-separated input to a sorted, de-duplicated tag list. */
+export const parseTagList = (input: string): string[] =>
+  [...new Set(input.split(',').map(normalizeTag).filter(Boolean))].sort();
+
+/** "Bombay Gazette" -> "bombay-gazette", for suggesting a collection slug. */
+export const slugify = (title: string): string =>
+  title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, COLLECTION_LIMITS.MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+
+export const isValidSlug = (slug: string): boolean =>
+  slug.length <= COLLECTION_LIMITS.MAX_SLUG_LENGTH && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug);
+
+/** Whether an image is in a collection: hand-picked, or carrying one of its tags. */
+export const isInCollection = (
+  collection: Pick<ImageCollection, 'tag_filter' | 'image_ids'>,
+  image: Pick<GameImage, 'id' | 'tags'>
+): boolean =>
+  collection.image_ids.includes(image.id) ||
+  (image.tags ?? []).some(tag => collection.tag_filter.includes(tag));
+
+/** The collection's images, in pool order. */
+export const getCollectionImages = <T extends Pick<GameImage, 'id' | 'tags'>>(
+  collection: Pick<ImageCollection, 'tag_filter' | 'image_ids'>,
+  images: T[]
+): T[] => images.filter(image => isInCollection(collection, image));
+
+/** Every tag in use with how many images carry it, most used first. */
+export const countTags = (images: Pick<GameImage, 'tags'>[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  for (const image of images) {
+    for (const tag of image.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getEffectiveTier, isDifficultyTier, pickByDifficulty } from './imageDifficulty';
+import type { DifficultyTier } from '@/types/game';
+
+interface Item {
+  id: string;
+  difficulty: DifficultyTier | null;
+}
+
+const items: Item[] = [
+  { id: 'h1', difficulty: 'hard' },
+  { id: 'e1', difficulty: 'easy' },
+  { id: 'u1', difficulty: null },
+  { id: 'm1', difficulty: 'medium' },
+  { id: 'e2', difficulty: 'easy' },
+  { id: 'h2', difficulty: 'hard' },
+];
+
+describe('getEffectiveTier', () => {
+  it('treats unrated images as medium', () => {
+    expect(getEffectiveTier({ difficulty: null })).toBe('medium');
+    expect(getEffectiveTier({ difficulty: undefined })).toBe('medium');
+    expect(getEffectiveTier({ difficulty: 'hard' })).toBe('hard');
+  });
+});
+
+describe('isDifficultyTier', () => {
+  it('accepts only the three tiers', () => {
+    expect(isDifficultyTier('easy')).toBe(true);
+    expect(isDifficultyTier('extreme')).toBe(false);
+    expect(isDifficultyTier(null)).toBe(false);
+  });
+});
+
+describe('pickByDifficulty', () => {
+  const ids = (picked: Item[]) => picked.map((item) => item.id);
+
+  it('takes the first items when no difficulty is asked for', () => {
+    expect(ids(pickByDifficulty(items, 3, getEffectiveTier, null))).toEqual(['h1', 'e1', 'u1']);
+  });
+
+  it('prefers the target tier in pool order', () => {
+    expect(ids(pickByDifficulty(items, 2, getEffectiveTier, 'easy'))).toEqual(['e1', 'e2']);
+    expect(ids(pickByDifficulty(items, 2, getEffectiveTier, 'medium'))).toEqual(['u1', 'm1']);
+  });
+
+  it('tops up from the nearest tier before the far one', () => {
+    expect(ids(pickByDifficulty(items, 4, getEffectiveTier, 'easy'))).toEqual(['e1', 'e2', 'u1', 'm1']);
+    expect(ids(pickByDifficulty(items, 6, getEffectiveTier, 'hard'))).toHaveLength(6);
+  });
+});
@@ -0,0 +1,46 @@
+// Image difficulty, as rated by recompute_image_difficulty from play history
+// (see the image_difficulty migration): the rated pool is split into thirds,
+// and images without enough rounds yet stay unrated. Unrated images count as
+// medium wherever a tier is needed, so a fresh pool behaves as before.
+
+import type { DifficultyTier, GameImage } from '@/types/game';
+
+export const DIFFICULTY_TIERS: DifficultyTier[] = ['easy', 'medium', 'hard'];
+
+export const DIFFICULTY_LABELS: Record<DifficultyTier, { name: string; description: string }> = {
+  easy: { name: 'Easy', description: 'Photos most players place and date well.' },
+  medium: { name: 'Medium', description: 'The middle of the pool, plus photos not yet rated.' },
+  hard: { name: 'Hard', description: 'Photos that stump most players.' },
+};
+
+export const isDifficultyTier = (value: unknown): value is DifficultyTier =>
+  typeof value === 'string' && (DIFFICULTY_TIERS as string[]).includes(value);
+
+/** The tier an image plays as; unrated images are medium. */
+export const getEffectiveTier = (image: Pick<GameImage, 'difficulty'>): DifficultyTier =>
+  image.difficulty ?? 'medium';
+
+/**
+ * Takes `count` items for a game of the target difficulty, keeping the
+ * order they come in (pools are already shuffled). Items of the target tier
+ * come first; when there are too few, the nearest tier tops the game up
+ * rather than playing short. Without a target this is the first `count`.
+ */
+export const pickByDifficulty = <T>(
+  items: T[],
+  count: number,
+  tierOf: (item: T) => DifficultyTier,
+  target: DifficultyTier | null
+): T[] => {
+  if (!target) return items.slice(0, count);
+  const targetIndex = DIFFICULTY_TIERS.indexOf(target);
+  return items
+    .map((item, order) => ({
+      item,
+      order,
+      distance: Math.abs(DIFFICULTY_TIERS.indexOf(tierOf(item)) - targetIndex),
+    }))
+    .sort((a, b) => a.distance - b.distance || a.order - b.order)
+    .slice(0, count)
+    .map(({ item }) => item);
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_IMAGE_HINTS,
+  formatDecadeHint,
+  hintsFromSubmission,
+  parseImageHints,
+} from './imageHints';
+
+describe('parseImageHints', () => {
+  it('returns nothing for a missing or non-array value', () => {
+    expect(parseImageHints(null)).toEqual([]);
+    expect(parseImageHints(undefined)).toEqual([]);
+    expect(parseImageHints({ kind: 'text', text: 'x' })).toEqual([]);
+  });
+
+  it('keeps well-formed hints in order and drops the rest', () => {
+    expect(
+      parseImageHints([
+        { kind: 'country', text: ' India ' },
+        { kind: 'city', text: 'Mumbai' },
+        { kind: 'text', text: '   ' },
+        'a string',
+        { kind: 'decade', text: '1970s' },
+      ])
+    ).toEqual([
+      { kind: 'country', text: 'India' },
+      { kind: 'decade', text: '1970s' },
+    ]);
+  });
+
+  it(`never returns more than ${MAX_IMAGE_HINTS} hints`, () => {
+    const many = Array.from({ length: 8 }, (_, i) => ({ kind: 'text', text: `clue ${i}` }));
+    expect(parseImageHints(many)).toHaveLength(MAX_IMAGE_HINTS);
+  });
+});
+
+describe('hintsFromSubmission', () => {
+  it('leads with the decade and turns each clue line into a hint', () => {
+    expect(hintsFromSubmission('Temple spire in the back\n\nMonsoon season', 1974)).toEqual([
+      { kind: 'decade', text: '1970s' },
+      { kind: 'text', text: 'Temple spire in the back' },
+      { kind: 'text', text: 'Monsoon season' },
+    ]);
+  });
+
+  it('works without a year or clues', () => {
+    expect(hintsFromSubmission(null, null)).toEqual([]);
+    expect(hintsFromSubmission('One clue', null)).toEqual([{ kind: 'text', text: 'One clue' }]);
+  });
+
+  it('formats decades from any year inside them', () => {
+    expect(formatDecadeHint(1900)).toBe('1900s');
+    expect(formatDecadeHint(2019)).toBe('2010s');
+  });
+});
@@ -0,0 +1,53 @@
+// Hints curated onto game_images.hints: an ordered list the player can reveal
+// one at a time before guessing, each costing the scoring profile's
+// hintPenalty. Stored as jsonb, so anything read back is validated here.
+
+import type { ImageHint, ImageHintKind } from '@/types/game';
+
+// Same limits as the check in admin_approve_photo_submission
+export const MAX_IMAGE_HINTS = 5;
+export const MAX_HINT_LENGTH = 200;
+
+export const IMAGE_HINT_KINDS: ImageHintKind[] = ['country', 'decade', 'text'];
+
+export const IMAGE_HINT_LABELS: Record<ImageHintKind, string> = {
+  country: 'Country',
+  decade: 'Decade',
+  text: 'Clue',
+};
+
+export const isImageHintKind = (value: unknown): value is ImageHintKind =>
+  typeof value === 'string' && (IMAGE_HINT_KINDS as string[]).includes(value);
+
+/** Keeps the well-formed hints from a game_images.hints value, in order. */
+export const parseImageHints = (raw: unknown): ImageHint[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((h): h is { kind: ImageHintKind; text: string } =>
+      !!h && typeof h === 'object' && isImageHintKind(h.kind) && typeof h.text === 'string'
+    )
+    .map(h => ({ kind: h.kind, text: h.text.trim() }))
+    .filter(h => h.text.length > 0)
+    .slice(0, MAX_IMAGE_HINTS);
+};
+
+/** "1970s" for any year in that decade. */
+export const formatDecadeHint = (year: number): string => `${Math.floor(year / 10) * 10}s`;
+
+/**
+ * Starting hints for the admin review form: the decade of the submitted year
+ * (broad, so it goes first) followed by one clue per line of the submitter's
+ * clues, until the list is full.
+ */
+export const hintsFromSubmission = (
+  cluesDescription: string | null,
+  yearTaken: number | null
+): ImageHint[] => {
+  const hints: ImageHint[] = [];
+  if (yearTaken) hints.push({ kind: 'decade', text: formatDecadeHint(yearTaken) });
+  for (const line of (cluesDescription || '').split('\n')) {
+    const text = line.trim().slice(0, MAX_HINT_LENGTH);
+    if (text) hints.push({ kind: 'text', text });
+  }
+  return hints.slice(0, MAX_IMAGE_HINTS);
+};
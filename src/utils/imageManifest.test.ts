@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeDuplicate,
+  detectManifestFormat,
+  findManifestDuplicates,
+  parseCsv,
+  parseManifest,
+  serializeManifest,
+  validateManifestRecord,
+  type ManifestEntry,
+} from './imageManifest';
+
+const entry = (overrides: Partial<ManifestEntry> = {}): ManifestEntry => ({
+  image_url: 'https://example.com/marine-drive.jpg',
+  year: 1962,
+  lat: 18.944,
+  lng: 72.823,
+  location_name: 'Marine Drive, Mumbai',
+  description: 'The promenade at dusk',
+  tags: ['city:mumbai'],
+  ...overrides,
+});
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes, line breaks and CRLF', () => {
+    const rows = parseCsv('a,b\r\n"x, y","say ""hi"""\r\n"two\nlines",z\r\n\r\n');
+    expect(rows).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"'],
+      ['two\nlines', 'z'],
+    ]);
+  });
+});
+
+describe('detectManifestFormat', () => {
+  it('goes by the extension, then the content', () => {
+    expect(detectManifestFormat('batch.JSON', 'image_url')).toBe('json');
+    expect(detectManifestFormat('batch.csv', '[]')).toBe('csv');
+    expect(detectManifestFormat('paste', '  [{"year": 1950}]')).toBe('json');
+    expect(detectManifestFormat('paste', 'image_url,year')).toBe('csv');
+  });
+});
+
+describe('validateManifestRecord', () => {
+  it('reports every problem with a row at once', () => {
+    const { entry: parsed, errors } = validateManifestRecord(
+      { image_url: 'ftp://x', year: '1750', lat: '95', lng: '10', location_name: '', description: '' },
+      2026
+    );
+    expect(parsed).toBeNull();
+    expect(errors).toEqual([
+      'Image URL must be an http(s) link',
+      'Year must be between 1800 and 2026',
+      'Latitude must be between -90 and 90 and longitude between -180 and 180',
+      'Location name is required',
+      'Description is required',
+    ]);
+  });
+
+  it('trims text, reads numbers from strings and normalizes tags', () => {
+    const { entry: parsed, errors } = validateManifestRecord({
+      image_url: ' https://example.com/a.jpg ',
+      year: '1931',
+      lat: '28.61',
+      lng: 77.2,
+      location_name: ' Connaught Place ',
+      description: 'Under construction',
+      tags: 'City:Delhi; theme:architecture;city:delhi',
+    });
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual({
+      image_url: 'https://example.com/a.jpg',
+      year: 1931,
+      lat: 28.61,
+      lng: 77.2,
+      location_name: 'Connaught Place',
+      description: 'Under construction',
+      tags: ['city:delhi', 'theme:architecture'],
+    });
+  });
+});
+
+describe('parseManifest', () => {
+  it('maps column aliases and numbers CSV rows by file line', () => {
+    const rows = parseManifest(
+      'URL,Year,Latitude,Longitude,Location,Description\nhttps://example.com/a.jpg,1950,12.97,77.59,Bengaluru,MG Road\n,1950,,,,\n',
+      'csv',
+      2026
+    );
+    expect(rows[0]).toMatchObject({ line: 2, errors: [] });
+    expect(rows[0].entry?.location_name).toBe('Bengaluru');
+    expect(rows[1].line).toBe(3);
+    expect(rows[1].errors).toContain('Image URL is required');
+  });
+
+  it('accepts a JSON array or an { images } object and rejects anything else', () => {
+    expect(parseManifest(JSON.stringify({ images: [entry()] }), 'json')[0].errors).toEqual([]);
+    expect(() => parseManifest('{"rows": []}', 'json')).toThrow('A JSON manifest must be an array of images');
+    expect(() => parseManifest('{', 'json')).toThrow('The file is not valid JSON');
+    expect(() => parseManifest('year,lat\n1950,1', 'csv')).toThrow('image_url column');
+  });
+});
+
+describe('findManifestDuplicates', () => {
+  it('flags repeats of the catalogue and of earlier lines, keeping the first', () => {
+    const rows = [
+      { line: 2, entry: entry(), errors: [] },
+      { line: 3, entry: entry({ image_url: 'https://EXAMPLE.com/marine-drive.jpg/' }), errors: [] },
+      { line: 4, entry: entry({ image_url: 'https://example.com/other.jpg', lat: 18.9442 }), errors: [] },
+      { line: 5, entry: entry({ image_url: 'https://example.com/old.jpg', year: 1990, lat: 10, lng: 76 }), errors: [] },
+      { line: 6, entry: entry({ image_url: 'https://example.com/new.jpg', year: 1963 }), errors: [] },
+      { line: 7, entry: null, errors: ['Year is required'] },
+    ];
+    const duplicates = findManifestDuplicates(rows, [
+      { id: 'img-old', image_url: 'https://example.com/old.jpg', year: 1900, lat: 0, lng: 0 },
+    ]);
+
+    expect([...duplicates.keys()]).toEqual([3, 4, 5]);
+    expect(describeDuplicate(duplicates.get(3)!)).toBe('Same URL as line 2');
+    expect(describeDuplicate(duplicates.get(4)!)).toBe('Same place and year as line 2');
+    expect(describeDuplicate(duplicates.get(5)!)).toBe('Same URL as an image in the catalogue');
+  });
+});
+
+describe('serializeManifest', () => {
+  it('exports CSV and JSON that import back unchanged', () => {
+    const entries = [entry(), entry({ description: 'Crowds, "rain" and\nlights', tags: [] })];
+    for (const format of ['csv', 'json'] as const) {
+      const rows = parseManifest(serializeManifest(entries, format), format);
+      expect(rows.map(row => row.entry)).toEqual(entries);
+    }
+  });
+});
@@ -0,0 +1,350 @@
+// Manifests for bulk-loading game_images: the CSV or JSON lists our archivists
+// send with a batch of photos, and the same format exported back out. Rows
+// are checked here first so every mistake in a file shows at once; the
+// admin_import_images RPC checks them again, and against the catalogue,
+// before anything is inserted.
+
+import { COLLECTION_LIMITS, parseTagList } from '@/utils/imageCollections';
+
+export type ManifestFormat = 'csv' | 'json';
+
+// Columns in the order they are exported. Tags are ';'-separated in CSV.
+export const MANIFEST_COLUMNS = ['image_url', 'year', 'lat', 'lng', 'location_name', 'description', 'tags'] as const;
+
+// Same limits as admin_import_images
+export const MANIFEST_LIMITS = {
+  MAX_ROWS: 1000,
+  MAX_URL_LENGTH: 2048,
+  MAX_LOCATION_LENGTH: 500,
+  MAX_DESCRIPTION_LENGTH: 1000,
+  MIN_YEAR: 1800,
+} as const;
+
+// Two photos of the same year this close (in degrees, roughly 50 m) are
+// treated as the same photo
+export const DUPLICATE_COORDINATE_TOLERANCE = 0.0005;
+
+// Other spellings archivists use for our columns
+const COLUMN_ALIASES: Record<string, (typeof MANIFEST_COLUMNS)[number]> = {
+  url: 'image_url',
+  photo_url: 'image_url',
+  latitude: 'lat',
+  location_lat: 'lat',
+  lon: 'lng',
+  long: 'lng',
+  longitude: 'lng',
+  location_lng: 'lng',
+  location: 'location_name',
+  place: 'location_name',
+};
+
+export interface ManifestEntry {
+  image_url: string;
+  year: number;
+  lat: number;
+  lng: number;
+  location_name: string;
+  description: string;
+  tags: string[];
+}
+
+export interface ManifestRow {
+  line: number; // 1-based row of the file (the CSV header is line 1)
+  entry: ManifestEntry | null; // null when the row has errors
+  errors: string[];
+}
+
+// What a row repeats: an earlier line of the file, or a catalogue image
+export interface ManifestDuplicate {
+  kind: 'url' | 'location';
+  line?: number;
+  imageId?: string;
+}
+
+/** An existing catalogue image, as far as duplicate checks need it. */
+export interface CatalogueImage {
+  id: string;
+  image_url: string;
+  year: number;
+  lat: number;
+  lng: number;
+}
+
+/** Guesses the format from the file name, falling back to the content. */
+export const detectManifestFormat = (fileName: string, text: string): ManifestFormat => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.json')) return 'json';
+  if (name.endsWith('.csv')) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+};
+
+/**
+ * RFC 4180 CSV to rows of cells: quoted cells may hold commas, doubled quotes
+ * and line breaks. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length) endRow();
+  return rows;
+};
+
+const csvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const canonicalColumn = (header: string) => {
+  const key = header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return COLUMN_ALIASES[key] ?? key;
+};
+
+/**
+ * The raw records of a manifest, keyed by our column names, with the file
+ * line each came from. Throws when the file itself can't be read as a
+ * manifest (bad JSON, no header, too many rows).
+ */
+export const readManifestRecords = (
+  text: string,
+  format: ManifestFormat
+): { line: number; record: Record<string, unknown> }[] => {
+  let records: { line: number; record: Record<string, unknown> }[];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    // Either a bare array or { "images": [...] }
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { images?: unknown } | null)?.images;
+    if (!Array.isArray(list)) {
+      throw new Error('A JSON manifest must be an array of images');
+    }
+    records = list.map((item, i) => {
+      const record: Record<string, unknown> = {};
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        for (const [key, value] of Object.entries(item)) record[canonicalColumn(key)] = value;
+      }
+      return { line: i + 1, record };
+    });
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error('The file is empty');
+    const columns = header.map(canonicalColumn);
+    if (!columns.includes('image_url')) {
+      throw new Error('The CSV header must include an image_url column');
+    }
+    records = rows.map((cells, i) => ({
+      line: i + 2,
+      record: Object.fromEntries(columns.map((column, c) => [column, cells[c] ?? ''])),
+    }));
+  }
+
+  if (records.length > MANIFEST_LIMITS.MAX_ROWS) {
+    throw new Error(`A manifest can hold at most ${MANIFEST_LIMITS.MAX_ROWS} images`);
+  }
+  return records;
+};
+
+const cellText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const cellNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const tagList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return parseTagList(value.filter(t => typeof t === 'string').join(','));
+  return typeof value === 'string' ? parseTagList(value.replace(/;/g, ',')) : [];
+};
+
+/**
+ * Checks one record with the rules photo submissions follow
+ * (validatePhotoSubmission), plus what a catalogue image also needs:
+ * coordinates and a description.
+ */
+export const validateManifestRecord = (
+  record: Record<string, unknown>,
+  currentYear: number = new Date().getFullYear()
+): { entry: ManifestEntry | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  const imageUrl = cellText(record.image_url);
+  if (!imageUrl) {
+    errors.push('Image URL is required');
+  } else if (!/^https?:\/\/\S+$/i.test(imageUrl)) {
+    errors.push('Image URL must be an http(s) link');
+  } else if (imageUrl.length > MANIFEST_LIMITS.MAX_URL_LENGTH) {
+    errors.push(`Image URL must be less than ${MANIFEST_LIMITS.MAX_URL_LENGTH} characters`);
+  }
+
+  const year = cellNumber(record.year);
+  if (year === null) {
+    errors.push('Year is required');
+  } else if (!Number.isInteger(year) || year < MANIFEST_LIMITS.MIN_YEAR || year > currentYear) {
+    errors.push(`Year must be between ${MANIFEST_LIMITS.MIN_YEAR} and ${currentYear}`);
+  }
+
+  const lat = cellNumber(record.lat);
+  const lng = cellNumber(record.lng);
+  if (lat === null || lng === null) {
+    errors.push('Latitude and longitude are required');
+  } else if (lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+    errors.push('Latitude must be between -90 and 90 and longitude between -180 and 180');
+  }
+
+  const locationName = cellText(record.location_name);
+  if (!locationName) {
+    errors.push('Location name is required');
+  } else if (locationName.length > MANIFEST_LIMITS.MAX_LOCATION_LENGTH) {
+    errors.push(`Location name must be less than ${MANIFEST_LIMITS.MAX_LOCATION_LENGTH} characters`);
+  }
+
+  const description = cellText(record.description);
+  if (!description) {
+    errors.push('Description is required');
+  } else if (description.length > MANIFEST_LIMITS.MAX_DESCRIPTION_LENGTH) {
+    errors.push(`Description must be less than ${MANIFEST_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  const tags = tagList(record.tags);
+  if (tags.length > COLLECTION_LIMITS.MAX_TAGS) {
+    errors.push(`Use at most ${COLLECTION_LIMITS.MAX_TAGS} tags`);
+  } else if (tags.some(tag => tag.length > COLLECTION_LIMITS.MAX_TAG_LENGTH)) {
+    errors.push(`Tags can be at most ${COLLECTION_LIMITS.MAX_TAG_LENGTH} characters`);
+  }
+
+  if (errors.length) return { entry: null, errors };
+  return {
+    entry: {
+      image_url: imageUrl,
+      year: year as number,
+      lat: lat as number,
+      lng: lng as number,
+      location_name: locationName,
+      description,
+      tags,
+    },
+    errors,
+  };
+};
+
+/** Reads and checks a whole manifest, one result per row. */
+export const parseManifest = (
+  text: string,
+  format: ManifestFormat,
+  currentYear?: number
+): ManifestRow[] =>
+  readManifestRecords(text, format).map(({ line, record }) => ({
+    line,
+    ...validateManifestRecord(record, currentYear),
+  }));
+
+/** URLs compare without surrounding whitespace, case or a trailing slash. */
+export const normalizeImageUrl = (url: string): string => url.trim().toLowerCase().replace(/\/+$/, '');
+
+const isSamePlaceAndYear = (
+  a: { lat: number; lng: number; year: number },
+  b: { lat: number; lng: number; year: number }
+) =>
+  a.year === b.year &&
+  Math.abs(a.lat - b.lat) <= DUPLICATE_COORDINATE_TOLERANCE &&
+  Math.abs(a.lng - b.lng) <= DUPLICATE_COORDINATE_TOLERANCE;
+
+/**
+ * Rows that repeat a catalogue image or an earlier row of the file: the same
+ * URL, or the same year at near-identical coordinates. Keyed by line; the
+ * first of a set of repeats is kept.
+ */
+export const findManifestDuplicates = (
+  rows: ManifestRow[],
+  catalogue: CatalogueImage[]
+): Map<number, ManifestDuplicate> => {
+  const duplicates = new Map<number, ManifestDuplicate>();
+  const catalogueByUrl = new Map(catalogue.map(image => [normalizeImageUrl(image.image_url), image]));
+  const seen: { line: number; url: string; lat: number; lng: number; year: number }[] = [];
+
+  for (const { line, entry } of rows) {
+    if (!entry) continue;
+    const url = normalizeImageUrl(entry.image_url);
+
+    // Checked in the same order as admin_import_images
+    const earlierUrl = seen.find(row => row.url === url);
+    const sameUrl = catalogueByUrl.get(url);
+    const earlierPlace = seen.find(row => isSamePlaceAndYear(row, entry));
+    const samePlace = catalogue.find(image => isSamePlaceAndYear(image, entry));
+
+    if (earlierUrl) duplicates.set(line, { kind: 'url', line: earlierUrl.line });
+    else if (sameUrl) duplicates.set(line, { kind: 'url', imageId: sameUrl.id });
+    else if (earlierPlace) duplicates.set(line, { kind: 'location', line: earlierPlace.line });
+    else if (samePlace) duplicates.set(line, { kind: 'location', imageId: samePlace.id });
+    else seen.push({ line, url, lat: entry.lat, lng: entry.lng, year: entry.year });
+  }
+  return duplicates;
+};
+
+/** "Same URL as line 4", "Same place and year as an image in the catalogue". */
+export const describeDuplicate = (duplicate: ManifestDuplicate): string => {
+  const what = duplicate.kind === 'url' ? 'Same URL as' : 'Same place and year as';
+  return duplicate.line !== undefined
+    ? `${what} line ${duplicate.line}`
+    : `${what} an image in the catalogue`;
+};
+
+/** Catalogue images as a manifest that imports back unchanged. */
+export const serializeManifest = (entries: ManifestEntry[], format: ManifestFormat): string => {
+  if (format === 'json') return `${JSON.stringify(entries, null, 2)}\n`;
+  const lines = entries.map(entry =>
+    [
+      entry.image_url,
+      String(entry.year),
+      String(entry.lat),
+      String(entry.lng),
+      entry.location_name,
+      entry.description,
+      entry.tags.join(';'),
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+  return [MANIFEST_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+};
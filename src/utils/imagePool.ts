@@ -1,11 +1,22 @@
-import { GameImage } from '@/types/game';
+import { GameDifficulty, GameImage, GameRegion, ImageCollection } from '@/types/game';
 import { getAllImages } from '@/data/sampleData';
+import { getCollectionImages } from '@/utils/imageCollections';
+import { getRegionImages } from '@/utils/gameRegions';
+import { getEffectiveTier, pickByDifficulty } from '@/utils/imageDifficulty';
+import { isImageInPlay } from '@/utils/imageCatalogue';
+import { pickBySkill, SKILL_RATING } from '@/utils/skillRating';
 import { supabase } from '@/integrations/supabase/client';
 import { GAME_CONSTANTS, ENV_CONFIG } from '@/constants/gameConstants';
 
 const STORAGE_KEY = GAME_CONSTANTS.STORAGE_KEYS.IMAGE_POOL;
 const USED_IMAGES_KEY = GAME_CONSTANTS.STORAGE_KEYS.USED_IMAGES;
 
+// The images that may be dealt. Retired and deleted images stay loadable for
+// dailies, challenges and replays but never enter a pool; the validate-and-repair
+// passes below drop them from pools built before they were retired.
+const getPoolImages = async (): Promise<GameImage[]> =>
+  (await getAllImages()).filter(isImageInPlay);
+
 interface ImagePoolState {
   availableImages: GameImage[];
   usedImages: string[];
@@ -93,6 +104,37 @@ const loadUserImagePool = async (userId: string): Promise<UserImagePool | null>
   }
 };
 
+// Load the player's skill rating (guests and new players start at the initial rating)
+const loadSkillRating = async (userId?: string): Promise<number> => {
+  if (!userId) return SKILL_RATING.INITIAL;
+  const { data, error } = await supabase
+    .from('user_skill_ratings')
+    .select('rating')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.warn('⚠️ Could not load skill rating, using the initial rating:', error);
+  }
+  return data?.rating ?? SKILL_RATING.INITIAL;
+};
+
+// Pick the next `count` pool entries for the requested difficulty: a tier's
+// images first, or for adaptive games the images rated near the player
+const pickForDifficulty = async <T>(
+  items: T[],
+  count: number,
+  imageOf: (item: T) => GameImage | undefined,
+  difficulty: GameDifficulty | null,
+  userId?: string
+): Promise<T[]> => {
+  if (difficulty === 'adaptive') {
+    const rating = await loadSkillRating(userId);
+    console.log(`🎯 Adaptive game for skill rating ${Math.round(rating)}`);
+    return pickBySkill(items, count, item => imageOf(item)?.skill_rating ?? SKILL_RATING.INITIAL, rating);
+  }
+  return pickByDifficulty(items, count, item => getEffectiveTier(imageOf(item) ?? { difficulty: null }), difficulty);
+};
+
 // Save user image pool to database
 const saveUserImagePool = async (userId: string, availableImageIds: string[], usedImageIds: string[], totalImages: number): Promise<boolean> => {
   try {
@@ -151,7 +193,7 @@ const saveUserImagePool = async (userId: string, availableImageIds: string[], us
 const initializeImagePool = async (): Promise<ImagePoolState> => {
   console.log('🎲 Initializing new guest image pool...');
   
-  const allImages = await getAllImages();
+  const allImages = await getPoolImages();
   if (allImages.length === 0) {
     throw new Error('No images available in database');
   }
@@ -175,7 +217,7 @@ const initializeImagePool = async (): Promise<ImagePoolState> => {
 const initializeUserImagePool = async (userId: string): Promise<UserImagePool | null> => {
   console.log('🎲 Initializing new user image pool for user:', userId);
   
-  const allImages = await getAllImages();
+  const allImages = await getPoolImages();
   if (allImages.length === 0) {
     throw new Error('No images available in database');
   }
@@ -238,7 +280,7 @@ const getNextImageFromUserPool = async (userId: string): Promise<GameImage | nul
   }
   
   // Get all images to find the actual image object
-  const allImages = await getAllImages();
+  const allImages = await getPoolImages();
   const nextImageId = userPool.available_image_ids[0];
   const nextImage = allImages.find(img => img.id === nextImageId);
   
@@ -299,21 +341,73 @@ const getNextImageFromGuestPool = async (): Promise<GameImage | null> => {
   return nextImage;
 };
 
-// Get multiple images from pool for a game session
-export const getGameImagesFromPool = async (count: number, userId?: string): Promise<GameImage[]> => {
-  console.log(`🎮 Getting ${count} images from pool for game session...`, userId ? `for user: ${userId}` : 'for guest');
+// Get multiple images from pool for a game session. With a difficulty, the
+// game takes that tier's images (or, adaptive, those near the player's
+// rating) from what's left of the pool first. With a collection or a
+// region, the game is drawn from the images in it instead.
+export const getGameImagesFromPool = async (
+  count: number,
+  userId?: string,
+  difficulty: GameDifficulty | null = null,
+  collection: ImageCollection | null = null,
+  region: GameRegion | null = null
+): Promise<GameImage[]> => {
+  console.log(`🎮 Getting ${count} images from pool for game session...`, userId ? `for user: ${userId}` : 'for guest', difficulty ? `(${difficulty})` : '', collection ? `from collection ${collection.slug}` : '', region ? `in region ${region.slug}` : '');
+  
+  if (collection || region) {
+    let members = await getPoolImages();
+    if (collection) members = getCollectionImages(collection, members);
+    if (region) members = getRegionImages(region, members);
+    const label = [collection?.slug, region?.slug].filter(Boolean).join(' / ');
+    return getGameImagesFromSubset(count, members, label, userId, difficulty);
+  }
   
   if (userId) {
     // Authenticated user - handle batch selection from database
-    return getGameImagesFromUserPool(count, userId);
+    return getGameImagesFromUserPool(count, userId, difficulty);
   } else {
     // Guest user - handle batch selection from localStorage
-    return getGameImagesFromGuestPool(count);
+    return getGameImagesFromGuestPool(count, difficulty);
   }
 };
 
+// Get images for a collection or region game. Those subsets are small next
+// to the whole pool, so they don't use up pool entries: the pool is only
+// read, to put the images the player hasn't seen this cycle ahead of the rest.
+const getGameImagesFromSubset = async (
+  count: number,
+  subset: GameImage[],
+  label: string,
+  userId: string | undefined,
+  difficulty: GameDifficulty | null
+): Promise<GameImage[]> => {
+  const members = cryptoShuffleArray(subset);
+  if (members.length === 0) {
+    console.error(`❌ No images in ${label}`);
+    return [];
+  }
+  
+  const unseenIds = new Set(
+    userId
+      ? (await loadUserImagePool(userId))?.available_image_ids ?? []
+      : loadPoolState()?.availableImages.map(img => img.id) ?? []
+  );
+  const ordered = [
+    ...members.filter(img => unseenIds.has(img.id)),
+    ...members.filter(img => !unseenIds.has(img.id)),
+  ];
+  
+  const selected = await pickForDifficulty(ordered, Math.min(count, ordered.length), img => img, difficulty, userId);
+  console.log(`📤 Retrieved ${selected.length} images from ${label} (${members.length} in it)`);
+  return selected;
+};
+
 // Get multiple images for authenticated user (batch operation)
-const getGameImagesFromUserPool = async (count: number, userId: string): Promise<GameImage[]> => {
+const getGameImagesFromUserPool = async (
+  count: number,
+  userId: string,
+  difficulty: GameDifficulty | null
+): Promise<GameImage[]> => {
   let userPool = await loadUserImagePool(userId);
   
   // Initialize pool if it doesn't exist or is empty
@@ -347,8 +441,18 @@ const getGameImagesFromUserPool = async (count: number, userId: string): Promise
     return [];
   }
   
-  // Get the image IDs we'll use (first N from available)
-  const selectedImageIds = userPool.available_image_ids.slice(0, actualCount);
+  // Get all images to find the actual image objects (and their tiers)
+  const allImages = await getPoolImages();
+  const imagesById = new Map(allImages.map(img => [img.id, img]));
+  
+  // Get the image IDs we'll use (first N from available, of the requested difficulty if any)
+  const selectedImageIds = await pickForDifficulty(
+    userPool.available_image_ids,
+    actualCount,
+    id => imagesById.get(id),
+    difficulty,
+    userId
+  );
   
   // DUPLICATE PREVENTION: Check for duplicates in selected IDs
   const uniqueSelectedIds = [...new Set(selectedImageIds)];
@@ -377,10 +481,8 @@ const getGameImagesFromUserPool = async (count: number, userId: string): Promise
     selectedImageIds.push(...freshIds.slice(0, actualCount));
   }
   
-  // Get all images to find the actual image objects
-  const allImages = await getAllImages();
   const selectedImages = selectedImageIds
-    .map(id => allImages.find(img => img.id === id))
+    .map(id => imagesById.get(id))
     .filter((img): img is GameImage => img !== undefined);
   
   if (selectedImages.length !== selectedImageIds.length) {
@@ -399,7 +501,7 @@ const getGameImagesFromUserPool = async (count: number, userId: string): Promise
   }
   
   // Update pool state in one batch operation
-  const newAvailableIds = userPool.available_image_ids.slice(actualCount);
+  const newAvailableIds = userPool.available_image_ids.filter(id => !selectedImageIds.includes(id));
   const newUsedIds = [...userPool.used_image_ids, ...selectedImageIds];
   
   // DUPLICATE PREVENTION: Ensure no duplicates in used list
@@ -429,7 +531,10 @@ const getGameImagesFromUserPool = async (count: number, userId: string): Promise
 };
 
 // Get multiple images for guest user (batch operation)
-const getGameImagesFromGuestPool = async (count: number): Promise<GameImage[]> => {
+const getGameImagesFromGuestPool = async (
+  count: number,
+  difficulty: GameDifficulty | null
+): Promise<GameImage[]> => {
   let poolState = loadPoolState();
   
   // Initialize pool if it doesn't exist or is empty
@@ -450,8 +555,15 @@ const getGameImagesFromGuestPool = async (count: number): Promise<GameImage[]> =
     return [];
   }
   
-  // Get the images we'll use (first N from available)
-  const selectedImages = poolState.availableImages.slice(0, actualCount);
+  // Get the images we'll use (first N from available, of the requested difficulty if any).
+  // The stored pool keeps whole images, so read tiers and ratings from the current images.
+  const currentImages = difficulty ? new Map((await getPoolImages()).map(img => [img.id, img])) : null;
+  const selectedImages = await pickForDifficulty(
+    poolState.availableImages,
+    actualCount,
+    img => currentImages?.get(img.id) ?? img,
+    difficulty
+  );
   
   // DUPLICATE PREVENTION: Check for duplicates in selected images
   const uniqueSelectedImages = selectedImages.filter((img, index, arr) => 
@@ -480,7 +592,8 @@ const getGameImagesFromGuestPool = async (count: number): Promise<GameImage[]> =
   }
   
   // Update pool state
-  poolState.availableImages = poolState.availableImages.slice(actualCount);
+  const takenIds = new Set(uniqueSelectedImages.map(img => img.id));
+  poolState.availableImages = poolState.availableImages.filter(img => !takenIds.has(img.id));
   const newUsedImageIds = [...poolState.usedImages, ...uniqueSelectedImages.map(img => img.id)];
   
   // DUPLICATE PREVENTION: Ensure no duplicates in used list
@@ -628,7 +741,7 @@ if (typeof window !== 'undefined') {
 const validateAndRepairUserPool = async (userId: string, userPool: UserImagePool): Promise<UserImagePool | null> => {
   console.log('🔍 Validating user pool integrity...');
   
-  const allImages = await getAllImages();
+  const allImages = await getPoolImages();
   const allImageIds = allImages.map(img => img.id);
   
   let needsRepair = false;
@@ -716,7 +829,7 @@ const validateAndRepairUserPool = async (userId: string, userPool: UserImagePool
 const validateAndRepairGuestPool = async (poolState: ImagePoolState): Promise<ImagePoolState> => {
   console.log('🔍 Validating guest pool integrity...');
   
-  const allImages = await getAllImages();
+  const allImages = await getPoolImages();
   const allImageIds = allImages.map(img => img.id);
   
   let needsRepair = false;
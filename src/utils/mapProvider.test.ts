@@ -0,0 +1,15 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chooseMapProvider } from './mapProvider';
+
+describe('chooseMapProvider', () => {
+  it('uses Google when its script loads', async () => {
+    await expect(chooseMapProvider(() => Promise.resolve(), 1000)).resolves.toBe('google');
+  });
+
+  it('falls back to the vector map when the script fails or hangs', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await expect(chooseMapProvider(() => Promise.reject(new Error('offline')), 1000)).resolves.toBe('vector');
+    await expect(chooseMapProvider(() => new Promise<void>(() => {}), 10)).resolves.toBe('vector');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,108 @@
+// The map game screens draw on, whatever renders it. Google Maps when its
+// script loads; otherwise the bundled vector world map (vectorMap.ts), so a
+// missing key or a flaky network doesn't stop a game. loadMapProvider in
+// mapUtils.ts makes the choice once per page load.
+
+import type { GameRegion } from '@/types/game';
+
+export type MapProviderId = 'google' | 'vector';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface MarkerStyle {
+  color: string;
+  /** Radius in pixels. */
+  size?: number;
+  opacity?: number;
+  strokeColor?: string;
+  strokeWeight?: number;
+  /** A short label drawn on the marker, e.g. the round number. */
+  label?: string;
+  title?: string;
+  zIndex?: number;
+}
+
+export interface LineStyle {
+  color: string;
+  weight?: number;
+  opacity?: number;
+  /** A moving dotted line, as on the round results. */
+  animated?: boolean;
+}
+
+export interface PolygonStyle {
+  color: string;
+  weight?: number;
+  fillOpacity?: number;
+}
+
+export interface MapMarker {
+  setPosition(position: LatLng): void;
+  remove(): void;
+}
+
+export interface MapLine {
+  remove(): void;
+}
+
+export interface GameMapOptions {
+  center?: LatLng;
+  zoom?: number;
+  /** Crosshair cursor, for maps that are clicked to place points. */
+  crosshair?: boolean;
+}
+
+export interface GameMap {
+  readonly provider: MapProviderId;
+  /** The Google map underneath, for extras only it offers; null on the fallback. */
+  readonly googleMap: google.maps.Map | null;
+  createMarker(position: LatLng, style: MarkerStyle): MapMarker;
+  createPolyline(path: LatLng[], style: LineStyle): MapLine;
+  /** A closed, filled outline; ignores clicks like the other overlays. */
+  createPolygon(path: LatLng[], style: PolygonStyle): MapLine;
+  /** Fits the view to the points, easing into place. */
+  smoothFitBounds(points: LatLng[], padding?: number): void;
+  panTo(position: LatLng, zoom?: number): void;
+  /** Each returns a function that removes the listener. */
+  onClick(handler: (position: LatLng) => void): () => void;
+  onPointerMove(handler: (position: LatLng | null) => void): () => void;
+  /** Region mode: fits and holds the view to the region and outlines it. */
+  restrictToRegion(region: GameRegion): () => void;
+  destroy(): void;
+}
+
+export interface MapProvider {
+  id: MapProviderId;
+  createMap(container: HTMLElement, options?: GameMapOptions): GameMap;
+}
+
+// How long to wait on the Google script before falling back
+export const GOOGLE_MAPS_LOAD_TIMEOUT_MS = 8000;
+
+/**
+ * Google if its script loads within the timeout, the vector map otherwise.
+ * Takes the loader so it can be exercised without a network.
+ */
+export const chooseMapProvider = async (
+  loadGoogle: () => Promise<void>,
+  timeoutMs: number = GOOGLE_MAPS_LOAD_TIMEOUT_MS
+): Promise<MapProviderId> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      loadGoogle(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Timed out loading Google Maps')), timeoutMs);
+      }),
+    ]);
+    return 'google';
+  } catch (error) {
+    console.warn('Google Maps unavailable, using the offline map:', error);
+    return 'vector';
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -1,4 +1,9 @@
 import { ENV_CONFIG } from '@/constants/gameConstants';
+import { getRegionMapBounds, getRegionOutline } from '@/utils/gameRegions';
+import { chooseMapProvider } from '@/utils/mapProvider';
+import { vectorMapProvider } from '@/utils/vectorMap';
+import type { GameRegion } from '@/types/game';
+import type { GameMap, GameMapOptions, LatLng, LineStyle, MapProvider, MarkerStyle } from '@/utils/mapProvider';
 
 // Global flag to track if Google Maps is loaded
 let isGoogleMapsLoaded = false;
@@ -16,6 +21,11 @@ export const loadGoogleMapsScript = (): Promise<void> => {
     return Promise.resolve();
   }
 
+  // Without a key the script would load and then refuse to draw
+  if (!ENV_CONFIG.GOOGLE_MAPS_API_KEY) {
+    return Promise.reject(new Error('No Google Maps API key configured'));
+  }
+
   // If currently loading, return the existing promise
   if (isGoogleMapsLoading && loadPromises.length > 0) {
     return loadPromises[0];
@@ -66,23 +76,6 @@ export const isGoogleMapsAvailable = (): boolean => {
   return !!(window.google?.maps);
 };
 
-/**
- * Utility to clean up Google Maps elements
- */
-export const cleanupMapElements = (markers: google.maps.Marker[] = [], lines: google.maps.Polyline[] = []) => {
-  markers.forEach(marker => {
-    if (marker && marker.setMap) {
-      marker.setMap(null);
-    }
-  });
-  
-  lines.forEach(line => {
-    if (line && line.setMap) {
-      line.setMap(null);
-    }
-  });
-};
-
 /**
  * Creates a map with default options
  */
@@ -143,53 +136,36 @@ export const createOptimizedMap = (container: HTMLElement, options: Partial<goog
 };
 
 /**
- * Creates a marker with default styling
+ * Holds a map to a region (region mode): fits it, keeps panning within a
+ * little of its edges, stops zooming out past the fitted view and outlines
+ * it. Returns a function that lifts the restriction again.
  */
-export const createMarker = (
-  map: google.maps.Map,
-  position: google.maps.LatLngLiteral,
-  options: Partial<google.maps.MarkerOptions> = {}
-): google.maps.Marker => {
-  return new google.maps.Marker({
-    position,
-    map,
-    ...options
+export const restrictMapToRegion = (map: google.maps.Map, region: GameRegion): (() => void) => {
+  const { south, west, north, east } = region;
+  const previous = { minZoom: map.get('minZoom') as number | undefined };
+
+  map.setOptions({ restriction: { latLngBounds: getRegionMapBounds(region), strictBounds: false } });
+  map.fitBounds({ south, west, north, east }, 0);
+  const idleListener = google.maps.event.addListenerOnce(map, 'idle', () => {
+    const zoom = map.getZoom();
+    if (zoom !== undefined) map.setOptions({ minZoom: zoom });
   });
-};
 
-/**
- * Creates a polyline (for guess lines) with default styling
- */
-export const createPolyline = (
-  map: google.maps.Map,
-  path: google.maps.LatLngLiteral[],
-  options: Partial<google.maps.PolylineOptions> = {}
-): google.maps.Polyline => {
-  const defaultOptions: google.maps.PolylineOptions = {
-    path,
-    geodesic: true,
-    strokeColor: '#FF0000',
-    strokeOpacity: 1.0,
+  const outline = new google.maps.Polygon({
+    map,
+    paths: getRegionOutline(region),
+    strokeColor: '#b91c1c',
+    strokeOpacity: 0.8,
     strokeWeight: 2,
-    ...options
-  };
-
-  return new google.maps.Polyline({
-    ...defaultOptions,
-    map
+    fillOpacity: 0,
+    clickable: false,
   });
-};
 
-/**
- * Smoothly transitions map view to show specific bounds with animation
- */
-export const smoothFitBounds = (
-  map: google.maps.Map, 
-  bounds: google.maps.LatLngBounds, 
-  padding: number = 50
-): void => {
-  // Use fitBounds with smooth animation
-  map.fitBounds(bounds, padding);
+  return () => {
+    google.maps.event.removeListener(idleListener);
+    outline.setMap(null);
+    map.setOptions({ restriction: null, minZoom: previous.minZoom ?? 1 });
+  };
 };
 
 /**
@@ -224,4 +200,173 @@ export const batchUpdateMarkers = (
       updateFn(marker, index);
     });
   });
-}; 
\ No newline at end of file
+}; 
+
+const toMarkerSymbol = (style: MarkerStyle): google.maps.Symbol => ({
+  path: google.maps.SymbolPath.CIRCLE,
+  scale: style.size ?? 12,
+  fillColor: style.color,
+  fillOpacity: style.opacity ?? 1,
+  strokeWeight: style.strokeWeight ?? 3,
+  strokeColor: style.strokeColor ?? '#ffffff',
+  strokeOpacity: 1,
+});
+
+// A dotted line whose dots march from the first point to the last
+const createAnimatedPolyline = (map: google.maps.Map, path: LatLng[], style: LineStyle) => {
+  const line = new google.maps.Polyline({
+    map,
+    path,
+    geodesic: true,
+    strokeOpacity: 0,
+    strokeWeight: 0,
+    icons: [{
+      icon: {
+        path: 'M 0,-1 0,1',
+        strokeOpacity: 1,
+        strokeColor: style.color,
+        strokeWeight: style.weight ?? 3,
+        scale: 1.5
+      },
+      offset: '0',
+      repeat: '20px'
+    }]
+  });
+
+  let offset = 0;
+  let frame = requestAnimationFrame(function animate() {
+    offset = (offset + 0.05) % 100;
+    const icons = line.get('icons');
+    icons[0].offset = `${offset}%`;
+    line.set('icons', icons);
+    frame = requestAnimationFrame(animate);
+  });
+
+  return {
+    remove: () => {
+      cancelAnimationFrame(frame);
+      line.setMap(null);
+    }
+  };
+};
+
+/**
+ * The Google Maps implementation of GameMap
+ */
+export const createGoogleGameMap = (container: HTMLElement, options: GameMapOptions = {}): GameMap => {
+  const map = createOptimizedMap(container, {
+    center: options.center ?? { lat: 20, lng: 0 },
+    zoom: options.zoom ?? 2,
+    ...(options.crosshair ? { draggableCursor: 'crosshair' } : {})
+  });
+  const toLatLng = (event: google.maps.MapMouseEvent): LatLng | null =>
+    event.latLng ? { lat: event.latLng.lat(), lng: event.latLng.lng() } : null;
+
+  return {
+    provider: 'google',
+    googleMap: map,
+
+    createMarker(position, style) {
+      // Not clickable, so a click on a pin still reaches the map
+      const marker = new google.maps.Marker({
+        position,
+        map,
+        title: style.title,
+        zIndex: style.zIndex,
+        clickable: false,
+        icon: toMarkerSymbol(style),
+        label: style.label
+          ? { text: style.label, color: '#ffffff', fontSize: '12px', fontWeight: 'bold' }
+          : undefined
+      });
+      return {
+        setPosition: (next) => marker.setPosition(next),
+        remove: () => marker.setMap(null)
+      };
+    },
+
+    createPolyline(path, style) {
+      if (style.animated) {
+        return createAnimatedPolyline(map, path, style);
+      }
+      const line = new google.maps.Polyline({
+        map,
+        path,
+        geodesic: true,
+        strokeColor: style.color,
+        strokeOpacity: style.opacity ?? 1,
+        strokeWeight: style.weight ?? 2
+      });
+      return { remove: () => line.setMap(null) };
+    },
+
+    createPolygon(path, style) {
+      const polygon = new google.maps.Polygon({
+        map,
+        paths: path,
+        strokeColor: style.color,
+        strokeWeight: style.weight ?? 2,
+        fillColor: style.color,
+        fillOpacity: style.fillOpacity ?? 0,
+        clickable: false
+      });
+      return { remove: () => polygon.setMap(null) };
+    },
+
+    smoothFitBounds(points, padding = 50) {
+      const bounds = new google.maps.LatLngBounds();
+      points.forEach(point => bounds.extend(point));
+      map.fitBounds(bounds, padding);
+    },
+
+    panTo(position, zoom) {
+      map.panTo(position);
+      if (zoom !== undefined) map.setZoom(zoom);
+    },
+
+    onClick(handler) {
+      const listener = map.addListener('click', (event: google.maps.MapMouseEvent) => {
+        const position = toLatLng(event);
+        if (position) handler(position);
+      });
+      return () => listener.remove();
+    },
+
+    onPointerMove(handler) {
+      const listeners = [
+        map.addListener('mousemove', (event: google.maps.MapMouseEvent) => {
+          const position = toLatLng(event);
+          if (position) handler(position);
+        }),
+        map.addListener('mouseout', () => handler(null))
+      ];
+      return () => listeners.forEach(listener => listener.remove());
+    },
+
+    restrictToRegion: (region) => restrictMapToRegion(map, region),
+
+    destroy() {
+      google.maps.event.clearInstanceListeners(map);
+    }
+  };
+};
+
+export const googleMapProvider: MapProvider = {
+  id: 'google',
+  createMap: createGoogleGameMap
+};
+
+let mapProviderPromise: Promise<MapProvider> | null = null;
+
+/**
+ * Resolves to Google Maps when its script loads, or to the offline vector
+ * map when it doesn't. Decided once; every map on the page then agrees.
+ */
+export const loadMapProvider = (): Promise<MapProvider> => {
+  if (!mapProviderPromise) {
+    mapProviderPromise = chooseMapProvider(loadGoogleMapsScript).then(id =>
+      id === 'google' ? googleMapProvider : vectorMapProvider
+    );
+  }
+  return mapProviderPromise;
+};
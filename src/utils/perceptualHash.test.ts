@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HASH_DISTANCE,
+  computePerceptualHash,
+  findSimilarByHash,
+  hammingDistance,
+  isPerceptualHash,
+} from './perceptualHash';
+
+type Scene = (u: number, v: number) => number; // brightness 0-255 at a point in the unit square
+
+// A street-ish scene: a bright sky band, a dark building block and a round sign
+const street: Scene = (u, v) => {
+  if (v < 0.3) return 220 - 60 * v;
+  if (u > 0.15 && u < 0.55 && v < 0.85) return 60 + 20 * Math.sin(u * 40);
+  if ((u - 0.75) ** 2 + (v - 0.55) ** 2 < 0.01) return 250;
+  return 130 + 40 * u;
+};
+
+// A different photo: diagonal light across an open square
+const square: Scene = (u, v) => 40 + 180 * Math.abs(Math.sin((u + v) * 3)) * (1 - v / 2);
+
+const render = (
+  scene: Scene,
+  width: number,
+  height: number,
+  { crop = 0, adjust = (value: number) => value }: { crop?: number; adjust?: (value: number, i: number) => number } = {}
+) => {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = crop + ((x + 0.5) / width) * (1 - 2 * crop);
+      const v = crop + ((y + 0.5) / height) * (1 - 2 * crop);
+      const i = (y * width + x) * 4;
+      const value = adjust(scene(u, v), i);
+      rgba[i] = rgba[i + 1] = rgba[i + 2] = value;
+      rgba[i + 3] = 255;
+    }
+  }
+  return rgba;
+};
+
+const hashOf = (scene: Scene, width = 200, height = 150, options = {}) =>
+  computePerceptualHash(render(scene, width, height, options), width, height);
+
+describe('computePerceptualHash', () => {
+  it('produces a 64-bit hex hash that is stable for the same picture', () => {
+    const hash = hashOf(street);
+    expect(isPerceptualHash(hash)).toBe(true);
+    expect(hashOf(street)).toBe(hash);
+  });
+
+  it('barely changes when the photo is resized, brightened or noisy', () => {
+    const original = hashOf(street);
+    expect(hammingDistance(original, hashOf(street, 640, 480))).toBeLessThanOrEqual(HASH_DISTANCE.DUPLICATE);
+    expect(
+      hammingDistance(original, hashOf(street, 200, 150, { adjust: (value: number) => value * 0.8 + 30 }))
+    ).toBeLessThanOrEqual(HASH_DISTANCE.DUPLICATE);
+    expect(
+      hammingDistance(original, hashOf(street, 200, 150, { adjust: (value: number, i: number) => value + ((i * 7919) % 21) - 10 }))
+    ).toBeLessThanOrEqual(HASH_DISTANCE.DUPLICATE);
+  });
+
+  it('stays close after a light crop', () => {
+    expect(hammingDistance(hashOf(street), hashOf(street, 200, 150, { crop: 0.04 }))).toBeLessThanOrEqual(
+      HASH_DISTANCE.SIMILAR
+    );
+  });
+
+  it('is far apart for different photos', () => {
+    expect(hammingDistance(hashOf(street), hashOf(square))).toBeGreaterThan(HASH_DISTANCE.SIMILAR);
+  });
+
+  it('handles images smaller than the hash grid', () => {
+    expect(isPerceptualHash(hashOf(street, 20, 12))).toBe(true);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'f000000000000001')).toBe(5);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('findSimilarByHash', () => {
+  it('keeps close items, closest first, labelled by how close they are', () => {
+    const items = [
+      { id: 'far', hash: 'ffffffffffffffff' },
+      { id: 'similar', hash: '00000000000003ff' }, // 10 bits off
+      { id: 'unhashed', hash: null },
+      { id: 'copy', hash: '0000000000000001' },
+    ];
+    expect(
+      findSimilarByHash('0000000000000000', items, item => item.hash).map(m => [m.item.id, m.distance, m.kind])
+    ).toEqual([
+      ['copy', 1, 'duplicate'],
+      ['similar', 10, 'similar'],
+    ]);
+  });
+});
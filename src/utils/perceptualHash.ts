@@ -0,0 +1,113 @@
+// Perceptual hashes for spotting a photo that is already in the game, even
+// after it has been resized, recompressed or lightly cropped. A 64-bit pHash:
+// shrink to 32x32 greyscale, take the low 8x8 DCT frequencies, and set a bit
+// for each that is above their median. Similar pictures differ in few bits.
+// Works on raw pixels, so it stays free of the canvas and can be unit tested.
+
+export const HASH_SIZE = 32; // side of the greyscale thumbnail the DCT runs on
+const LOW_FREQUENCIES = 8; // side of the block of DCT coefficients kept
+
+// Hamming distances (of 64 bits) for a likely copy, and for a possible one
+export const HASH_DISTANCE = {
+  DUPLICATE: 6,
+  SIMILAR: 12,
+} as const;
+
+export type HashMatchKind = 'duplicate' | 'similar';
+
+export interface HashMatch<T> {
+  item: T;
+  distance: number;
+  kind: HashMatchKind;
+}
+
+export const isPerceptualHash = (value: unknown): value is string =>
+  typeof value === 'string' && /^[0-9a-f]{16}$/.test(value);
+
+/** Box-averages RGBA pixels down to a HASH_SIZE x HASH_SIZE greyscale grid. */
+export const toGreyscaleGrid = (rgba: ArrayLike<number>, width: number, height: number): Float64Array => {
+  const grid = new Float64Array(HASH_SIZE * HASH_SIZE);
+  for (let gy = 0; gy < HASH_SIZE; gy++) {
+    const y0 = Math.floor((gy * height) / HASH_SIZE);
+    const y1 = Math.max(y0 + 1, Math.floor(((gy + 1) * height) / HASH_SIZE));
+    for (let gx = 0; gx < HASH_SIZE; gx++) {
+      const x0 = Math.floor((gx * width) / HASH_SIZE);
+      const x1 = Math.max(x0 + 1, Math.floor(((gx + 1) * width) / HASH_SIZE));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          sum += 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+        }
+      }
+      grid[gy * HASH_SIZE + gx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return grid;
+};
+
+// cos((2x + 1) u pi / 2N) for the low frequencies, shared by every hash
+const COSINES = Array.from({ length: LOW_FREQUENCIES }, (_, u) =>
+  Array.from({ length: HASH_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * HASH_SIZE)))
+);
+
+/** The 64-bit pHash of RGBA pixels, as 16 hex characters. */
+export const computePerceptualHash = (rgba: ArrayLike<number>, width: number, height: number): string => {
+  const grid = toGreyscaleGrid(rgba, width, height);
+
+  // Separable 2D DCT-II, only for the coefficients that are kept
+  const rows = new Float64Array(HASH_SIZE * LOW_FREQUENCIES);
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let u = 0; u < LOW_FREQUENCIES; u++) {
+      let sum = 0;
+      for (let x = 0; x < HASH_SIZE; x++) sum += grid[y * HASH_SIZE + x] * COSINES[u][x];
+      rows[y * LOW_FREQUENCIES + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < LOW_FREQUENCIES; v++) {
+    for (let u = 0; u < LOW_FREQUENCIES; u++) {
+      let sum = 0;
+      for (let y = 0; y < HASH_SIZE; y++) sum += rows[y * LOW_FREQUENCIES + u] * COSINES[v][y];
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is the overall brightness; leave it out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  let hex = '';
+  for (let i = 0; i < 64; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+};
+
+const BITS_IN_NIBBLE = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/** How many of the 64 bits differ between two hashes. */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < 16; i++) distance += BITS_IN_NIBBLE[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  return distance;
+};
+
+/** Items whose hash is within HASH_DISTANCE.SIMILAR of `hash`, closest first. */
+export const findSimilarByHash = <T>(
+  hash: string,
+  items: T[],
+  getHash: (item: T) => string | null | undefined
+): HashMatch<T>[] =>
+  items
+    .flatMap(item => {
+      const other = getHash(item);
+      if (!isPerceptualHash(other)) return [];
+      const distance = hammingDistance(hash, other);
+      if (distance > HASH_DISTANCE.SIMILAR) return [];
+      const kind: HashMatchKind = distance <= HASH_DISTANCE.DUPLICATE ? 'duplicate' : 'similar';
+      return [{ item, distance, kind }];
+    })
+    .sort((a, b) => a.distance - b.distance);
@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import { parseMetadataDate, readEmbeddedMetadata, suggestFromMetadata } from './photoMetadata';
+
+// Minimal TIFF writer: each IFD is { tag: value }, where a string is ASCII,
+// a number[] is RATIONALs, and { ifd } is a pointer to a sub-IFD
+type Value = string | number[] | { ifd: Record<number, Value> } | { bytes: number[] };
+
+const buildTiff = (ifd0: Record<number, Value>, littleEndian = true): Uint8Array => {
+  const bytes: number[] = [];
+  const u16 = (at: number, v: number) => {
+    const pair = littleEndian ? [v & 0xff, v >> 8] : [v >> 8, v & 0xff];
+    bytes[at] = pair[0];
+    bytes[at + 1] = pair[1];
+  };
+  const quad = (v: number) => {
+    const le = [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff];
+    return littleEndian ? le : le.reverse();
+  };
+  const u32 = (at: number, v: number) => quad(v).forEach((b, i) => (bytes[at + i] = b));
+
+  const writeIfd = (ifd: Record<number, Value>): number => {
+    const start = bytes.length;
+    const tags = Object.keys(ifd).map(Number).sort((a, b) => a - b);
+    const size = 2 + tags.length * 12 + 4;
+    for (let i = 0; i < size; i++) bytes.push(0);
+    u16(start, tags.length);
+    tags.forEach((tag, i) => {
+      const entry = start + 2 + i * 12;
+      const value = ifd[tag];
+      u16(entry, tag);
+      if (typeof value === 'object' && 'ifd' in value) {
+        u16(entry + 2, 4);
+        u32(entry + 4, 1);
+        u32(entry + 8, writeIfd(value.ifd));
+        return;
+      }
+      let type: number;
+      let data: number[];
+      if (typeof value === 'string') {
+        type = 2;
+        data = [...value].map(c => c.charCodeAt(0)).concat(0);
+      } else if ('bytes' in value) {
+        type = 7;
+        data = value.bytes;
+      } else {
+        type = 5;
+        data = value.flatMap(v => [...quad(Math.round(v * 1000)), ...quad(1000)]);
+      }
+      u16(entry + 2, type);
+      u32(entry + 4, type === 5 ? data.length / 8 : data.length);
+      if (data.length <= 4) {
+        data.forEach((b, j) => (bytes[entry + 8 + j] = b));
+      } else {
+        u32(entry + 8, bytes.length);
+        bytes.push(...data);
+      }
+    });
+    return start;
+  };
+
+  bytes.push(...(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]), 0, 0, 0, 0, 0, 0);
+  u16(2, 42);
+  u32(4, 8);
+  writeIfd(ifd0);
+  return Uint8Array.from(bytes);
+};
+
+const segment = (marker: number, body: Uint8Array) =>
+  [0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body];
+
+const buildJpeg = (...segments: number[][]) =>
+  Uint8Array.from([0xff, 0xd8, ...segments.flat(), 0xff, 0xda, 0, 2, 0xff, 0xd9]).buffer;
+
+const exifSegment = (tiff: Uint8Array) =>
+  segment(0xe1, Uint8Array.from([...'Exif\0\0'].map(c => c.charCodeAt(0)).concat(...tiff)));
+
+const xmpSegment = (xml: string) =>
+  segment(0xe1, new TextEncoder().encode(`http://ns.adobe.com/xap/1.0/\0${xml}`));
+
+const camera = {
+  0x010f: 'Canon',
+  0x0110: 'Canon EOS 5D',
+  0x8769: {
+    ifd: {
+      0x9003: '1998:07:14 16:05:00',
+      0x9286: { bytes: [...'ASCII\0\0\0Diwali at Crawford Market'].map(c => c.charCodeAt(0)) },
+    },
+  },
+  0x8825: {
+    ifd: {
+      0x0001: 'N',
+      0x0002: [18, 56, 51],
+      0x0003: 'E',
+      0x0004: [72, 50, 6],
+    },
+  },
+};
+
+describe('readEmbeddedMetadata', () => {
+  it('reads date, GPS, camera and caption from a JPEG EXIF block', () => {
+    const metadata = readEmbeddedMetadata(buildJpeg(exifSegment(buildTiff(camera))));
+
+    expect(metadata?.date).toEqual({ year: 1998, month: 7, day: 14, source: 'DateTimeOriginal' });
+    expect(metadata?.gps?.lat).toBeCloseTo(18.9475, 4);
+    expect(metadata?.gps?.lng).toBeCloseTo(72.835, 4);
+    expect(metadata?.camera).toBe('Canon EOS 5D');
+    expect(metadata?.captions).toEqual(['Diwali at Crawford Market']);
+    expect(metadata?.raw.Make).toBe('Canon');
+  });
+
+  it('reads big-endian TIFF files and southern/western coordinates', () => {
+    const tiff = buildTiff(
+      {
+        0x010e: 'Harbour front',
+        0x8825: { ifd: { 0x0001: 'S', 0x0002: [33, 51, 0], 0x0003: 'W', 0x0004: [70, 39, 0] } },
+      },
+      false
+    );
+    const metadata = readEmbeddedMetadata(tiff.slice().buffer);
+
+    expect(metadata?.captions).toEqual(['Harbour front']);
+    expect(metadata?.gps?.lat).toBeCloseTo(-33.85, 4);
+    expect(metadata?.gps?.lng).toBeCloseTo(-70.65, 4);
+  });
+
+  it('reads XMP captions, places and creation dates', () => {
+    const xml = `<x:xmpmeta><rdf:RDF><rdf:Description photoshop:DateCreated="1947-08"
+      photoshop:City="Kolkata" photoshop:Country="India">
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">Crowds on Chowringhee &amp; Park Street</rdf:li></rdf:Alt></dc:description>
+      </rdf:Description></rdf:RDF></x:xmpmeta>`;
+    const metadata = readEmbeddedMetadata(buildJpeg(xmpSegment(xml)));
+
+    expect(metadata?.date).toEqual({ year: 1947, month: 8, day: null, source: 'XMP DateCreated' });
+    expect(metadata?.place).toBe('Kolkata, India');
+    expect(metadata?.captions).toEqual(['Crowds on Chowringhee & Park Street']);
+    expect(metadata?.gps).toBeNull();
+  });
+
+  it('prefers the XMP creation date over the EXIF capture date', () => {
+    const metadata = readEmbeddedMetadata(
+      buildJpeg(xmpSegment('<x photoshop:DateCreated="1950"/>'), exifSegment(buildTiff(camera)))
+    );
+    expect(metadata?.date).toEqual({ year: 1950, month: null, day: null, source: 'XMP DateCreated' });
+  });
+
+  it('returns null for files without metadata and survives truncation', () => {
+    expect(readEmbeddedMetadata(buildJpeg())).toBeNull();
+    expect(readEmbeddedMetadata(Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0]).buffer)).toBeNull();
+
+    const full = new Uint8Array(buildJpeg(exifSegment(buildTiff(camera))));
+    expect(() => readEmbeddedMetadata(full.slice(0, 60).buffer)).not.toThrow();
+  });
+});
+
+describe('parseMetadataDate', () => {
+  it('drops unset fields', () => {
+    expect(parseMetadataDate('0000:00:00 00:00:00', 'DateTimeOriginal')).toBeNull();
+    expect(parseMetadataDate('1975:00:00', 'DateTimeOriginal')).toEqual({
+      year: 1975,
+      month: null,
+      day: null,
+      source: 'DateTimeOriginal',
+    });
+  });
+});
+
+describe('suggestFromMetadata', () => {
+  const range = { min: 1800, max: 2026 };
+
+  it('fills year, confidence, location and description', () => {
+    const metadata = readEmbeddedMetadata(buildJpeg(exifSegment(buildTiff(camera))))!;
+    expect(suggestFromMetadata(metadata, range)).toEqual({
+      yearTaken: 1998,
+      yearConfidence: 'approximate',
+      locationDescription: 'GPS 18.94750°N, 72.83500°E',
+      description: 'Diwali at Crawford Market',
+    });
+  });
+
+  it('trusts curated creation dates and skips years out of range', () => {
+    const base = { gps: null, camera: null, captions: [], place: 'Pune', raw: {} };
+    expect(
+      suggestFromMetadata({ ...base, date: { year: 1911, month: null, day: null, source: 'XMP DateCreated' } }, range)
+    ).toEqual({ yearTaken: 1911, yearConfidence: 'exact', locationDescription: 'Pune' });
+    expect(
+      suggestFromMetadata({ ...base, date: { year: 1601, month: null, day: null, source: 'DateTimeOriginal' } }, range)
+    ).toEqual({ locationDescription: 'Pune' });
+  });
+
+  it('skips a capture date close to the upload, which is likely a scan', () => {
+    const base = { gps: null, camera: null, captions: [], place: 'Pune', raw: {} };
+    const uploadedAt = new Date('2026-03-10T12:00:00Z');
+    expect(
+      suggestFromMetadata({ ...base, date: { year: 2025, month: 11, day: 2, source: 'DateTimeOriginal' } }, range, uploadedAt)
+    ).toEqual({ locationDescription: 'Pune' });
+    expect(
+      suggestFromMetadata({ ...base, date: { year: 2024, month: 6, day: 1, source: 'DateTimeOriginal' } }, range, uploadedAt)
+    ).toEqual({ yearTaken: 2024, yearConfidence: 'approximate', locationDescription: 'Pune' });
+  });
+});
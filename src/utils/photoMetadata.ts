@@ -0,0 +1,367 @@
+// Reading what a submitted photo says about itself: EXIF (in JPEG APP1 or a
+// bare TIFF) and XMP. The submission form pre-fills year, location and
+// description from it, and the raw tags go to admins with the submission.
+
+export type MetadataDateSource = 'DateTimeOriginal' | 'XMP DateTimeOriginal' | 'XMP DateCreated';
+
+export interface MetadataDate {
+  year: number;
+  month: number | null;
+  day: number | null;
+  source: MetadataDateSource;
+}
+
+export interface EmbeddedPhotoMetadata {
+  date: MetadataDate | null;
+  gps: { lat: number; lng: number } | null;
+  camera: string | null;
+  captions: string[];
+  place: string | null; // city, state and country from XMP, when an archive filled them in
+  raw: Record<string, string>; // every tag read, by name, for admins
+}
+
+export interface MetadataSuggestion {
+  yearTaken?: number;
+  // A camera's clock is often unset, and a re-photographed print carries the
+  // copy's date, so only a curated creation date counts as exact
+  yearConfidence?: 'exact' | 'approximate';
+  locationDescription?: string;
+  description?: string;
+}
+
+const TIFF_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9286: 'UserComment',
+  0x9c9b: 'XPTitle',
+  0x9c9c: 'XPComment',
+  0x9c9f: 'XPSubject',
+  0xa434: 'LensModel',
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const XP_TAGS = new Set([0x9c9b, 0x9c9c, 0x9c9f]); // UCS-2 text stored as bytes
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const EXIF_HEADER = 'Exif\0\0';
+
+// Raw values are stored with the submission, so a runaway tag is cut short
+const MAX_RAW_LENGTH = 1000;
+
+const ascii = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+};
+
+const clean = (text: string) => text.replace(/\0+$/, '').trim();
+
+const utf16 = (view: DataView, offset: number, length: number, littleEndian: boolean) => {
+  let text = '';
+  for (let i = 0; i + 1 < length; i += 2) text += String.fromCharCode(view.getUint16(offset + i, littleEndian));
+  return clean(text);
+};
+
+interface TiffReader {
+  view: DataView;
+  start: number; // offset of the TIFF header; IFD offsets count from here
+  littleEndian: boolean;
+}
+
+const readValue = (tiff: TiffReader, entry: number, tag: number): string | number[] | null => {
+  const { view, start, littleEndian } = tiff;
+  const type = view.getUint16(entry + 2, littleEndian);
+  const count = view.getUint32(entry + 4, littleEndian);
+  const size = (TYPE_SIZES[type] ?? 0) * count;
+  if (!size) return null;
+  const offset = size > 4 ? start + view.getUint32(entry + 8, littleEndian) : entry + 8;
+  if (offset + size > view.byteLength) return null;
+
+  if (XP_TAGS.has(tag)) return utf16(view, offset, size, true);
+  if (type === 2) return clean(ascii(view, offset, size));
+  if (type === 7) {
+    // UserComment: an 8-byte charset code, then the text
+    if (size <= 8) return null;
+    const code = ascii(view, offset, 8);
+    if (code.startsWith('ASCII')) return clean(ascii(view, offset + 8, size - 8));
+    if (code.startsWith('UNICODE')) return utf16(view, offset + 8, size - 8, littleEndian);
+    return null;
+  }
+  if (type === 5 || type === 10) {
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const read = type === 5 ? 'getUint32' : 'getInt32';
+      const numerator = view[read](offset + i * 8, littleEndian);
+      const denominator = view[read](offset + i * 8 + 4, littleEndian);
+      values.push(denominator ? numerator / denominator : 0);
+    }
+    return values;
+  }
+  if (type === 3) return [view.getUint16(offset, littleEndian)];
+  if (type === 4) return [view.getUint32(offset, littleEndian)];
+  return null;
+};
+
+// Reads one IFD's known tags into `raw`, returning the sub-IFD pointers it holds
+const readIfd = (
+  tiff: TiffReader,
+  ifdOffset: number,
+  names: Record<number, string>,
+  raw: Record<string, string>,
+  numbers: Record<string, number[]>
+) => {
+  const { view, start, littleEndian } = tiff;
+  const base = start + ifdOffset;
+  const count = view.getUint16(base, littleEndian);
+  const pointers: Record<number, number> = {};
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) {
+      pointers[tag] = view.getUint32(entry + 8, littleEndian);
+      continue;
+    }
+    const name = names[tag];
+    if (!name) continue;
+    const value = readValue(tiff, entry, tag);
+    if (typeof value === 'string') {
+      if (value) raw[name] = value.slice(0, MAX_RAW_LENGTH);
+    } else if (value) {
+      numbers[name] = value;
+      raw[name] = value.map(v => +v.toFixed(6)).join(', ');
+    }
+  }
+  return pointers;
+};
+
+const readTiff = (view: DataView, start: number, raw: Record<string, string>) => {
+  const order = ascii(view, start, 2);
+  if (order !== 'II' && order !== 'MM') return {};
+  const tiff = { view, start, littleEndian: order === 'II' };
+  if (view.getUint16(start + 2, tiff.littleEndian) !== 42) return {};
+
+  const numbers: Record<string, number[]> = {};
+  const pointers = readIfd(tiff, view.getUint32(start + 4, tiff.littleEndian), TIFF_TAGS, raw, numbers);
+  if (pointers[EXIF_IFD_POINTER]) readIfd(tiff, pointers[EXIF_IFD_POINTER], TIFF_TAGS, raw, numbers);
+  if (pointers[GPS_IFD_POINTER]) readIfd(tiff, pointers[GPS_IFD_POINTER], GPS_TAGS, raw, numbers);
+  return numbers;
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+
+// An XMP property written either as an attribute or as an element, where
+// language alternatives and lists keep their first item
+const xmpProperty = (xmp: string, name: string): string | null => {
+  const attribute = xmp.match(new RegExp(`\\s${name}="([^"]*)"`));
+  if (attribute) return decodeXml(attribute[1]).trim() || null;
+  const element = xmp.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+  if (!element) return null;
+  const item = element[1].match(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/);
+  return decodeXml(item ? item[1] : element[1]).trim() || null;
+};
+
+const XMP_PROPERTIES = [
+  'dc:title',
+  'dc:description',
+  'dc:creator',
+  'photoshop:Headline',
+  'photoshop:DateCreated',
+  'photoshop:City',
+  'photoshop:State',
+  'photoshop:Country',
+  'Iptc4xmpCore:Location',
+  'exif:DateTimeOriginal',
+  'exif:GPSLatitude',
+  'exif:GPSLongitude',
+];
+
+const readXmp = (xmp: string, raw: Record<string, string>) => {
+  for (const property of XMP_PROPERTIES) {
+    const value = xmpProperty(xmp, property);
+    if (value) raw[`XMP ${property}`] = value.slice(0, MAX_RAW_LENGTH);
+  }
+};
+
+/** An EXIF "YYYY:MM:DD HH:MM:SS" or ISO 8601 date; unset fields ("0000:00:00") are dropped. */
+export const parseMetadataDate = (text: string, source: MetadataDateSource): MetadataDate | null => {
+  const match = text.trim().match(/^(\d{4})(?:[:-](\d{2})(?:[:-](\d{2}))?)?/);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  if (!year) return null;
+  const month = match[2] ? parseInt(match[2], 10) : 0;
+  const day = match[3] ? parseInt(match[3], 10) : 0;
+  return {
+    year,
+    month: month >= 1 && month <= 12 ? month : null,
+    day: month >= 1 && month <= 12 && day >= 1 && day <= 31 ? day : null,
+    source,
+  };
+};
+
+// XMP writes GPS as "DDD,MM.mmmmK" (degrees, decimal minutes, N/S/E/W)
+const parseXmpCoordinate = (text: string): number | null => {
+  const match = text.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!match) return null;
+  const value = +match[1] + +match[2] / 60 + (match[3] ? +match[3] / 3600 : 0);
+  return /[SW]/i.test(match[4]) ? -value : value;
+};
+
+const dmsToDegrees = (dms: number[] | undefined, ref: string | undefined, negative: string) => {
+  if (!dms || dms.length < 3) return null;
+  const value = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref?.toUpperCase() === negative ? -value : value;
+};
+
+const validGps = (lat: number | null, lng: number | null) =>
+  lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && (lat !== 0 || lng !== 0)
+    ? { lat, lng }
+    : null;
+
+const summarize = (raw: Record<string, string>, numbers: Record<string, number[]>): EmbeddedPhotoMetadata => {
+  // An archive's creation date first: on a scanned print the capture date is
+  // the scan's
+  const date =
+    (raw['XMP photoshop:DateCreated'] && parseMetadataDate(raw['XMP photoshop:DateCreated'], 'XMP DateCreated')) ||
+    (raw.DateTimeOriginal && parseMetadataDate(raw.DateTimeOriginal, 'DateTimeOriginal')) ||
+    (raw['XMP exif:DateTimeOriginal'] && parseMetadataDate(raw['XMP exif:DateTimeOriginal'], 'XMP DateTimeOriginal')) ||
+    null;
+
+  const gps =
+    validGps(
+      dmsToDegrees(numbers.GPSLatitude, raw.GPSLatitudeRef, 'S'),
+      dmsToDegrees(numbers.GPSLongitude, raw.GPSLongitudeRef, 'W')
+    ) ??
+    validGps(
+      raw['XMP exif:GPSLatitude'] ? parseXmpCoordinate(raw['XMP exif:GPSLatitude']) : null,
+      raw['XMP exif:GPSLongitude'] ? parseXmpCoordinate(raw['XMP exif:GPSLongitude']) : null
+    );
+
+  // Model usually repeats the make ("Canon" / "Canon EOS 5D")
+  const make = raw.Make ?? '';
+  const model = raw.Model ?? '';
+  const camera = (model.toLowerCase().startsWith(make.toLowerCase()) ? model : `${make} ${model}`).trim() || null;
+
+  const captions = [
+    raw['XMP dc:description'],
+    raw.ImageDescription,
+    raw.UserComment,
+    raw.XPComment,
+    raw['XMP dc:title'],
+    raw.XPTitle,
+    raw['XMP photoshop:Headline'],
+  ].filter((caption, i, all): caption is string => !!caption && all.indexOf(caption) === i);
+
+  const placeParts = [
+    raw['XMP Iptc4xmpCore:Location'],
+    raw['XMP photoshop:City'],
+    raw['XMP photoshop:State'],
+    raw['XMP photoshop:Country'],
+  ].filter((part): part is string => !!part);
+
+  return { date, gps, camera, captions, place: placeParts.length ? placeParts.join(', ') : null, raw };
+};
+
+/**
+ * Reads EXIF and XMP from a JPEG or TIFF file's bytes. Returns null for other
+ * formats or when the file carries nothing; a truncated or malformed block
+ * keeps whatever was read before it.
+ */
+export const readEmbeddedMetadata = (buffer: ArrayBuffer): EmbeddedPhotoMetadata | null => {
+  const view = new DataView(buffer);
+  const raw: Record<string, string> = {};
+  let numbers: Record<string, number[]> = {};
+
+  try {
+    if (view.byteLength >= 4 && view.getUint16(0) === 0xffd8) {
+      let offset = 2;
+      while (offset + 4 <= view.byteLength) {
+        if (view.getUint8(offset) !== 0xff) break;
+        const marker = view.getUint8(offset + 1);
+        if (marker === 0xff) {
+          offset++; // fill byte
+          continue;
+        }
+        if (marker === 0xda || marker === 0xd9) break; // image data starts; no more metadata
+        const length = view.getUint16(offset + 2);
+        const body = offset + 4;
+        if (marker === 0xe1) {
+          const size = length - 2;
+          if (size > EXIF_HEADER.length && ascii(view, body, EXIF_HEADER.length) === EXIF_HEADER) {
+            numbers = { ...numbers, ...readTiff(view, body + EXIF_HEADER.length, raw) };
+          } else if (size > XMP_HEADER.length && ascii(view, body, XMP_HEADER.length) === XMP_HEADER) {
+            const start = body + XMP_HEADER.length;
+            readXmp(new TextDecoder().decode(new Uint8Array(buffer, start, size - XMP_HEADER.length)), raw);
+          }
+        }
+        offset += 2 + length;
+      }
+    } else if (view.byteLength >= 8) {
+      numbers = readTiff(view, 0, raw);
+    }
+  } catch {
+    // Offsets pointing outside the file; keep what was read
+  }
+
+  return Object.keys(raw).length ? summarize(raw, numbers) : null;
+};
+
+const formatCoordinates = ({ lat, lng }: { lat: number; lng: number }) =>
+  `${Math.abs(lat).toFixed(5)}°${lat < 0 ? 'S' : 'N'}, ${Math.abs(lng).toFixed(5)}°${lng < 0 ? 'W' : 'E'}`;
+
+// A capture date this many years before the upload, or later, is more likely
+// a scan or a phone photo of a print than the picture itself
+const RECENT_CAPTURE_YEARS = 1;
+
+/**
+ * Form values the metadata supports. A year outside the submittable range is
+ * left out, and so is a capture date close to `uploadedAt`.
+ */
+export const suggestFromMetadata = (
+  metadata: EmbeddedPhotoMetadata,
+  range: { min: number; max: number },
+  uploadedAt: Date = new Date()
+): MetadataSuggestion => {
+  const suggestion: MetadataSuggestion = {};
+  const { date } = metadata;
+  const recentCapture =
+    !!date && date.source !== 'XMP DateCreated' && date.year >= uploadedAt.getFullYear() - RECENT_CAPTURE_YEARS;
+  if (date && date.year >= range.min && date.year <= range.max && !recentCapture) {
+    suggestion.yearTaken = date.year;
+    suggestion.yearConfidence = date.source === 'XMP DateCreated' ? 'exact' : 'approximate';
+  }
+
+  const location = [metadata.place, metadata.gps && `GPS ${formatCoordinates(metadata.gps)}`]
+    .filter(Boolean)
+    .join(' · ');
+  if (location) suggestion.locationDescription = location;
+  if (metadata.captions.length) suggestion.description = metadata.captions[0];
+  return suggestion;
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import type { PlayerRound } from '@/types/game';
+import {
+  getAccuracyByDecade,
+  getAccuracyByRegion,
+  getDistanceHistogram,
+  getFurthestMisses,
+  getScoreTrend,
+  getStatsSummary,
+  getWeekStart,
+  getYearErrorHistogram,
+} from './playerStats';
+
+const round = (overrides: Partial<PlayerRound> = {}): PlayerRound => ({
+  played_at: '2026-06-10T10:00:00Z',
+  game_mode: 'random',
+  session_id: 'session-1',
+  round_number: 1,
+  image_id: 'img-1',
+  image_url: 'https://example.com/1.jpg',
+  location_name: 'Chennai',
+  actual_year: 1965,
+  year_guess: 1960,
+  actual_location_lat: 13.05,
+  actual_location_lng: 80.28,
+  distance_km: 10,
+  year_score: 80,
+  location_score: 90,
+  display_score: 8500,
+  ...overrides,
+});
+
+describe('getYearErrorHistogram', () => {
+  it('bins the absolute year error and skips rounds without a year guess', () => {
+    const bins = getYearErrorHistogram([
+      round({ year_guess: 1965 }),
+      round({ year_guess: 1963 }),
+      round({ year_guess: 1967 }),
+      round({ year_guess: 1900 }),
+      round({ year_guess: null }),
+    ]);
+    expect(bins.map(b => b.label)).toEqual(['Exact', '1–2', '3–5', '6–10', '11–20', '21–30', '31–50', '51+']);
+    expect(bins.map(b => b.count)).toEqual([1, 2, 0, 0, 0, 0, 0, 1]);
+  });
+});
+
+describe('getDistanceHistogram', () => {
+  it('bins distances with the upper bound exclusive', () => {
+    const bins = getDistanceHistogram([
+      round({ distance_km: 2 }),
+      round({ distance_km: 10 }),
+      round({ distance_km: 3000 }),
+      round({ distance_km: null }),
+    ]);
+    expect(bins[0]).toEqual({ label: '<10 km', count: 1 });
+    expect(bins[1]).toEqual({ label: '10–50 km', count: 1 });
+    expect(bins[bins.length - 1]).toEqual({ label: '2,500+ km', count: 1 });
+  });
+});
+
+describe('getStatsSummary', () => {
+  it('reports medians and the direction players lean on the year', () => {
+    const summary = getStatsSummary([
+      round({ year_guess: 1955, distance_km: 5, display_score: 6000 }),
+      round({ year_guess: 1961, distance_km: 15, display_score: 8000 }),
+      round({ year_guess: null, distance_km: 100, display_score: 4000 }),
+    ]);
+    expect(summary.rounds).toBe(3);
+    expect(summary.avgScore).toBe(6000);
+    expect(summary.medianYearError).toBe(7);
+    expect(summary.medianDistanceKm).toBe(15);
+    expect(summary.yearBias).toBe(-7);
+  });
+
+  it('leaves the averages empty with no rounds', () => {
+    expect(getStatsSummary([])).toEqual({
+      rounds: 0,
+      avgScore: 0,
+      medianYearError: null,
+      medianDistanceKm: null,
+      yearBias: null,
+    });
+  });
+});
+
+describe('getAccuracyByDecade', () => {
+  it('groups rounds by the decade of the photo, oldest first', () => {
+    const groups = getAccuracyByDecade([
+      round({ actual_year: 1972, year_guess: 1970, display_score: 9000 }),
+      round({ actual_year: 1948, year_guess: 1958, display_score: 3000 }),
+      round({ actual_year: 1975, year_guess: 1979, display_score: 7000 }),
+    ]);
+    expect(groups.map(g => g.label)).toEqual(['1940s', '1970s']);
+    expect(groups[1]).toMatchObject({ rounds: 2, avgScore: 8000, avgYearError: 3 });
+  });
+});
+
+describe('getAccuracyByRegion', () => {
+  const kerala = { name: 'Kerala', south: 8, west: 74.8, north: 12.8, east: 77.4, polygon: null };
+  const tamilNadu = { name: 'Tamil Nadu', south: 8, west: 76.2, north: 13.6, east: 80.4, polygon: null };
+
+  it('counts a round in every region it falls in and the rest as Elsewhere', () => {
+    const groups = getAccuracyByRegion(
+      [
+        round({ actual_location_lat: 13.05, actual_location_lng: 80.28 }),
+        round({ actual_location_lat: 10, actual_location_lng: 77 }),
+        round({ actual_location_lat: 28.6, actual_location_lng: 77.2 }),
+      ],
+      [kerala, tamilNadu]
+    );
+    expect(groups.map(g => [g.label, g.rounds])).toEqual([
+      ['Tamil Nadu', 2],
+      ['Kerala', 1],
+      ['Elsewhere', 1],
+    ]);
+  });
+});
+
+describe('getScoreTrend', () => {
+  it('averages scores per Monday-starting week', () => {
+    expect(getWeekStart('2026-06-14T23:00:00Z')).toBe('2026-06-08');
+    expect(getWeekStart('2026-06-15T00:00:00Z')).toBe('2026-06-15');
+
+    const trend = getScoreTrend([
+      round({ played_at: '2026-06-16T10:00:00Z', display_score: 9000 }),
+      round({ played_at: '2026-06-09T10:00:00Z', display_score: 4000 }),
+      round({ played_at: '2026-06-12T10:00:00Z', display_score: 6000 }),
+    ]);
+    expect(trend).toEqual([
+      { week: '2026-06-08', rounds: 2, avgScore: 5000 },
+      { week: '2026-06-15', rounds: 1, avgScore: 9000 },
+    ]);
+  });
+});
+
+describe('getFurthestMisses', () => {
+  it('returns the furthest pins first, ignoring year-only rounds', () => {
+    const misses = getFurthestMisses(
+      [
+        round({ image_id: 'a', distance_km: 50 }),
+        round({ image_id: 'b', distance_km: null }),
+        round({ image_id: 'c', distance_km: 1200 }),
+        round({ image_id: 'd', distance_km: 300 }),
+      ],
+      2
+    );
+    expect(misses.map(m => m.image_id)).toEqual(['c', 'd']);
+  });
+});
@@ -0,0 +1,176 @@
+// The profile's Analytics tab: how far off a player's guesses are, where and
+// when, worked out from their own rounds (get_my_round_history).
+
+import type { GameRegion, PlayerRound } from '@/types/game';
+import { isInRegion } from '@/utils/gameRegions';
+
+export interface StatsBin {
+  label: string;
+  count: number;
+}
+
+export interface AccuracyGroup {
+  label: string;
+  rounds: number;
+  avgScore: number;
+  avgYearError: number | null; // null when none of its rounds guessed a year
+  avgDistanceKm: number | null; // null when none of its rounds placed a pin
+}
+
+export interface ScoreTrendPoint {
+  week: string; // YYYY-MM-DD, the Monday (UTC) the week starts on
+  rounds: number;
+  avgScore: number;
+}
+
+export interface PlayerStatsSummary {
+  rounds: number;
+  avgScore: number;
+  medianYearError: number | null;
+  medianDistanceKm: number | null;
+  // Mean of guess minus answer: negative means the player guesses too early
+  yearBias: number | null;
+}
+
+// Upper bounds (inclusive) of the year error bins; the last bin is open
+const YEAR_ERROR_BINS = [0, 2, 5, 10, 20, 30, 50];
+// Upper bounds (exclusive) of the distance bins in km; the last bin is open
+const DISTANCE_BINS_KM = [10, 50, 100, 250, 500, 1000, 2500];
+
+const mean = (values: number[]): number | null =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const median = (values: number[]): number | null => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/** Signed year error of a round, or null when no year was guessed. */
+export const getYearError = (round: Pick<PlayerRound, 'year_guess' | 'actual_year'>): number | null =>
+  round.year_guess === null ? null : round.year_guess - round.actual_year;
+
+const yearErrors = (rounds: PlayerRound[]) =>
+  rounds.map(getYearError).filter((e): e is number => e !== null);
+
+const distances = (rounds: PlayerRound[]) =>
+  rounds.map(r => r.distance_km).filter((d): d is number => d !== null);
+
+export const getStatsSummary = (rounds: PlayerRound[]): PlayerStatsSummary => {
+  const errors = yearErrors(rounds);
+  return {
+    rounds: rounds.length,
+    avgScore: mean(rounds.map(r => r.display_score)) ?? 0,
+    medianYearError: median(errors.map(Math.abs)),
+    medianDistanceKm: median(distances(rounds)),
+    yearBias: mean(errors),
+  };
+};
+
+/** How many guesses missed the year by how much: exact, 1–2, 3–5 … 51+. */
+export const getYearErrorHistogram = (rounds: PlayerRound[]): StatsBin[] => {
+  const bins = YEAR_ERROR_BINS.map((max, i) => {
+    const min = i === 0 ? 0 : YEAR_ERROR_BINS[i - 1] + 1;
+    return { label: max === 0 ? 'Exact' : min === max ? `${max}` : `${min}–${max}`, count: 0 };
+  });
+  bins.push({ label: `${YEAR_ERROR_BINS[YEAR_ERROR_BINS.length - 1] + 1}+`, count: 0 });
+
+  for (const error of yearErrors(rounds)) {
+    const index = YEAR_ERROR_BINS.findIndex(max => Math.abs(error) <= max);
+    bins[index === -1 ? bins.length - 1 : index].count++;
+  }
+  return bins;
+};
+
+/** How many pins landed how far from the answer: under 10 km … 2,500 km+. */
+export const getDistanceHistogram = (rounds: PlayerRound[]): StatsBin[] => {
+  const bins = DISTANCE_BINS_KM.map((max, i) => ({
+    label: i === 0 ? `<${max} km` : `${DISTANCE_BINS_KM[i - 1]}–${max} km`,
+    count: 0,
+  }));
+  bins.push({ label: `${DISTANCE_BINS_KM[DISTANCE_BINS_KM.length - 1].toLocaleString('en-US')}+ km`, count: 0 });
+
+  for (const distance of distances(rounds)) {
+    const index = DISTANCE_BINS_KM.findIndex(max => distance < max);
+    bins[index === -1 ? bins.length - 1 : index].count++;
+  }
+  return bins;
+};
+
+const toGroup = (label: string, rounds: PlayerRound[]): AccuracyGroup => {
+  const errors = yearErrors(rounds).map(Math.abs);
+  return {
+    label,
+    rounds: rounds.length,
+    avgScore: mean(rounds.map(r => r.display_score)) ?? 0,
+    avgYearError: mean(errors),
+    avgDistanceKm: mean(distances(rounds)),
+  };
+};
+
+/** Accuracy on photos from each decade, oldest first. */
+export const getAccuracyByDecade = (rounds: PlayerRound[]): AccuracyGroup[] => {
+  const byDecade = new Map<number, PlayerRound[]>();
+  for (const round of rounds) {
+    const decade = Math.floor(round.actual_year / 10) * 10;
+    byDecade.set(decade, [...(byDecade.get(decade) ?? []), round]);
+  }
+  return [...byDecade.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([decade, group]) => toGroup(`${decade}s`, group));
+};
+
+/**
+ * Accuracy on photos taken in each region mode region, most played first. A
+ * photo can sit in more than one (a city and its state); photos outside every
+ * region are grouped as "Elsewhere".
+ */
+export const getAccuracyByRegion = (
+  rounds: PlayerRound[],
+  regions: Pick<GameRegion, 'name' | 'south' | 'west' | 'north' | 'east' | 'polygon'>[]
+): AccuracyGroup[] => {
+  const elsewhere: PlayerRound[] = [];
+  const byRegion = new Map<string, PlayerRound[]>();
+  for (const round of rounds) {
+    const point = { lat: round.actual_location_lat, lng: round.actual_location_lng };
+    const matches = regions.filter(region => isInRegion(region, point));
+    if (!matches.length) elsewhere.push(round);
+    for (const region of matches) {
+      byRegion.set(region.name, [...(byRegion.get(region.name) ?? []), round]);
+    }
+  }
+
+  const groups = [...byRegion.entries()]
+    .map(([name, group]) => toGroup(name, group))
+    .sort((a, b) => b.rounds - a.rounds || a.label.localeCompare(b.label));
+  return elsewhere.length ? [...groups, toGroup('Elsewhere', elsewhere)] : groups;
+};
+
+/** The Monday (UTC) starting the week `iso` falls in, as YYYY-MM-DD. */
+export const getWeekStart = (iso: string): string => {
+  const date = new Date(iso);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday)
+  ).toISOString().slice(0, 10);
+};
+
+/** Average round score week by week, oldest first. */
+export const getScoreTrend = (rounds: PlayerRound[]): ScoreTrendPoint[] => {
+  const byWeek = new Map<string, number[]>();
+  for (const round of rounds) {
+    const week = getWeekStart(round.played_at);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), round.display_score]);
+  }
+  return [...byWeek.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, scores]) => ({ week, rounds: scores.length, avgScore: mean(scores) ?? 0 }));
+};
+
+/** The rounds whose pin landed furthest from the answer. */
+export const getFurthestMisses = (rounds: PlayerRound[], count: number = 5): PlayerRound[] =>
+  rounds
+    .filter(round => round.distance_km !== null)
+    .sort((a, b) => (b.distance_km ?? 0) - (a.distance_km ?? 0))
+    .slice(0, count);
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { GameImage, GameState, GuessResult } from '@/types/game';
+import {
+  createSavedGame,
+  describeSavedGame,
+  isSaveDue,
+  parseSavedGame,
+  restoreGameState,
+  SAVED_GAME_SAVE_INTERVAL_MS,
+  SavedGameContext,
+} from './savedGames';
+
+const NOW = 1_750_000_000_000;
+
+const image = (id: string): GameImage => ({
+  id,
+  image_url: `https://example.com/${id}.jpg`,
+  year: 1950,
+  location: { lat: 19, lng: 72.8, name: 'Mumbai' },
+  description: '',
+});
+
+const IMAGES = ['a', 'b', 'c', 'd', 'e', 'f'].map(image);
+
+const result = (imageId: string): GuessResult => ({
+  imageId,
+  yearGuess: 1950,
+  locationGuess: { lat: 19, lng: 72.8 },
+  yearScore: 100,
+  locationScore: 100,
+  totalScore: 100,
+});
+
+const state = (overrides: Partial<GameState> = {}): GameState => ({
+  currentRound: 2,
+  totalRounds: 5,
+  currentImage: IMAGES[1],
+  results: [result('a')],
+  isGuessing: true,
+  hasGuessed: false,
+  gameOver: false,
+  usedImageIds: ['a', 'b'],
+  isTimedMode: true,
+  timerType: 'per-round',
+  timeRemaining: 42,
+  timerActive: true,
+  roundStartTime: NOW - 18_000,
+  scoringProfile: 'classic',
+  eraBucketSet: null,
+  scoredDimension: null,
+  ...overrides,
+});
+
+const CONTEXT: SavedGameContext = {
+  sessionId: 'session-1',
+  gameMode: 'timed',
+  images: IMAGES,
+  difficulty: null,
+  collectionId: null,
+  region: null,
+};
+
+describe('createSavedGame', () => {
+  it('keeps the rounds of the game and how far into the round the player is', () => {
+    const saved = createSavedGame(state(), CONTEXT, 1, NOW)!;
+    expect(saved.images.map(img => img.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(saved.roundElapsedMs).toBe(18_000);
+    expect(saved.timeRemaining).toBe(42);
+    expect(saved.hintsRevealed).toBe(1);
+  });
+
+  it('has nothing to save before the game starts, once it is over, or for modes with their own resume', () => {
+    expect(createSavedGame(state({ currentRound: 0 }), CONTEXT, 0, NOW)).toBeNull();
+    expect(createSavedGame(state({ gameOver: true }), CONTEXT, 0, NOW)).toBeNull();
+    expect(createSavedGame(state(), { ...CONTEXT, gameMode: 'daily' }, 0, NOW)).toBeNull();
+  });
+});
+
+describe('parseSavedGame', () => {
+  const saved = createSavedGame(state(), CONTEXT, 0, NOW)!;
+
+  it('accepts a snapshot that went through JSON', () => {
+    expect(parseSavedGame(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+  });
+
+  it('rejects anything it cannot resume', () => {
+    expect(parseSavedGame(null)).toBeNull();
+    expect(parseSavedGame('saved')).toBeNull();
+    expect(parseSavedGame({ ...saved, version: 0 })).toBeNull();
+    expect(parseSavedGame({ ...saved, gameMode: 'challenge' })).toBeNull();
+    expect(parseSavedGame({ ...saved, currentRound: 6 })).toBeNull();
+    expect(parseSavedGame({ ...saved, images: IMAGES.slice(0, 3) })).toBeNull();
+    expect(parseSavedGame({ ...saved, results: [] })).toBeNull();
+    expect(parseSavedGame({ ...saved, images: [...IMAGES.slice(0, 4), { id: 5 }] })).toBeNull();
+  });
+});
+
+describe('restoreGameState', () => {
+  it('continues an unguessed round with the clock where it stopped', () => {
+    const saved = createSavedGame(state(), CONTEXT, 0, NOW)!;
+    const restored = restoreGameState(saved, NOW + 3_600_000);
+    expect(restored.currentImage?.id).toBe('b');
+    expect(restored.isGuessing).toBe(true);
+    expect(restored.timerActive).toBe(true);
+    expect(restored.timeRemaining).toBe(42);
+    expect(restored.roundStartTime).toBe(NOW + 3_600_000 - 18_000);
+  });
+
+  it('returns to the results of a round already guessed', () => {
+    const saved = createSavedGame(
+      state({ results: [result('a'), result('b')], hasGuessed: true, isGuessing: false }),
+      CONTEXT,
+      0,
+      NOW
+    )!;
+    const restored = restoreGameState(saved, NOW);
+    expect(restored.hasGuessed).toBe(true);
+    expect(restored.isGuessing).toBe(false);
+    expect(restored.timerActive).toBe(false);
+  });
+});
+
+describe('isSaveDue', () => {
+  const saved = createSavedGame(state(), CONTEXT, 0, NOW)!;
+
+  it('saves progress at once', () => {
+    expect(isSaveDue(null, 0, saved, NOW)).toBe(true);
+    expect(isSaveDue(saved, NOW, { ...saved, currentRound: 3 }, NOW)).toBe(true);
+    expect(isSaveDue(saved, NOW, { ...saved, hintsRevealed: 1 }, NOW)).toBe(true);
+  });
+
+  it('throttles the ticking timer', () => {
+    const tick = { ...saved, timeRemaining: 41 };
+    expect(isSaveDue(saved, NOW, tick, NOW + 1000)).toBe(false);
+    expect(isSaveDue(saved, NOW, tick, NOW + SAVED_GAME_SAVE_INTERVAL_MS)).toBe(true);
+    expect(isSaveDue(saved, NOW, saved, NOW + SAVED_GAME_SAVE_INTERVAL_MS)).toBe(false);
+  });
+});
+
+describe('describeSavedGame', () => {
+  it('names the mode, the round and the region', () => {
+    const saved = createSavedGame(state(), CONTEXT, 0, NOW)!;
+    expect(describeSavedGame(saved)).toBe('Timed · Round 2 of 5');
+    expect(describeSavedGame({ ...saved, gameMode: 'random', region: { name: 'Kerala' } as never })).toBe(
+      'Classic · Round 2 of 5 · Kerala'
+    );
+  });
+});
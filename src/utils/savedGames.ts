@@ -0,0 +1,185 @@
+// Snapshots of an unfinished game, so a refresh or another device can pick it
+// up where it stopped. Guests keep the snapshot in localStorage and signed-in
+// players in saved_games (see the saved_games migration); either way it is
+// the same JSON, built and checked here.
+
+import type {
+  EraBucketSetId,
+  GameDifficulty,
+  GameImage,
+  GameMode,
+  GameRegion,
+  GameState,
+  GuessDimension,
+  GuessResult,
+  ScoringProfileId,
+} from '@/types/game';
+import { getGameModeLabel } from '@/utils/gameUtils';
+
+// Bumped when the snapshot shape changes; older snapshots are dropped
+export const SAVED_GAME_VERSION = 1;
+
+// Timer ticks are saved at most this often; round changes save at once
+export const SAVED_GAME_SAVE_INTERVAL_MS = 5000;
+
+// Only games drawn from the pool are saved. The daily, challenges and archive
+// replays resume from their own sessions.
+const RESUMABLE_MODES: GameMode[] = ['random', 'timed', 'era', 'year_only', 'location_only'];
+
+export interface SavedGame {
+  version: number;
+  sessionId: string | null; // the signed-in player's session the rounds score against
+  gameMode: GameMode;
+  images: GameImage[]; // the game's whole sequence, one per round
+  currentRound: number;
+  totalRounds: number;
+  results: GuessResult[];
+  usedImageIds: string[];
+  isTimedMode: boolean;
+  timerType: 'per-round' | 'total-game';
+  timeRemaining: number;
+  customTimerDuration: number | null;
+  roundElapsedMs: number; // time already spent on the current round
+  scoringProfile: ScoringProfileId;
+  eraBucketSet: EraBucketSetId | null;
+  scoredDimension: GuessDimension | null;
+  hintsRevealed: number;
+  difficulty: GameDifficulty | null;
+  collectionId: string | null;
+  region: GameRegion | null;
+  savedAt: string;
+}
+
+/** What the game state itself doesn't know about the game being saved. */
+export interface SavedGameContext {
+  sessionId: string | null;
+  gameMode: GameMode;
+  images: GameImage[];
+  difficulty: GameDifficulty | null;
+  collectionId: string | null;
+  region: GameRegion | null;
+}
+
+export const isResumableMode = (mode: GameMode): boolean => RESUMABLE_MODES.includes(mode);
+
+/**
+ * A snapshot of the game in play, or null when there is nothing worth
+ * resuming: before the first round and once the game is over.
+ */
+export const createSavedGame = (
+  state: GameState,
+  context: SavedGameContext,
+  hintsRevealed: number,
+  now: number = Date.now()
+): SavedGame | null => {
+  if (state.currentRound < 1 || state.gameOver || !isResumableMode(context.gameMode)) {
+    return null;
+  }
+  return {
+    version: SAVED_GAME_VERSION,
+    sessionId: context.sessionId,
+    gameMode: context.gameMode,
+    images: context.images.slice(0, state.totalRounds),
+    currentRound: state.currentRound,
+    totalRounds: state.totalRounds,
+    results: state.results,
+    usedImageIds: state.usedImageIds,
+    isTimedMode: state.isTimedMode,
+    timerType: state.timerType,
+    timeRemaining: state.timeRemaining,
+    customTimerDuration: state.customTimerDuration ?? null,
+    roundElapsedMs: state.roundStartTime ? Math.max(0, now - state.roundStartTime) : 0,
+    scoringProfile: state.scoringProfile,
+    eraBucketSet: state.eraBucketSet,
+    scoredDimension: state.scoredDimension,
+    hintsRevealed,
+    difficulty: context.difficulty,
+    collectionId: context.collectionId,
+    region: context.region,
+    savedAt: new Date(now).toISOString(),
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The snapshot in `value` if it is one this version can resume, null
+ * otherwise. Stored snapshots come back from localStorage or the database, so
+ * nothing about their shape is taken on trust.
+ */
+export const parseSavedGame = (value: unknown): SavedGame | null => {
+  if (!isObject(value) || value.version !== SAVED_GAME_VERSION) return null;
+  const game = value as unknown as SavedGame;
+
+  if (typeof game.gameMode !== 'string' || !isResumableMode(game.gameMode)) return null;
+  if (!Array.isArray(game.images) || !Array.isArray(game.results) || !Array.isArray(game.usedImageIds)) return null;
+  if (!Number.isInteger(game.totalRounds) || game.totalRounds < 1 || game.images.length < game.totalRounds) return null;
+  if (!Number.isInteger(game.currentRound) || game.currentRound < 1 || game.currentRound > game.totalRounds) return null;
+  // The current round is either still being guessed or already scored
+  if (game.results.length !== game.currentRound - 1 && game.results.length !== game.currentRound) return null;
+  if (!game.images.every(image => isObject(image) && typeof image.id === 'string' && typeof image.image_url === 'string')) return null;
+  if (typeof game.timeRemaining !== 'number' || typeof game.isTimedMode !== 'boolean') return null;
+
+  return game;
+};
+
+/** Whether the snapshot's current round has been guessed already. */
+export const hasGuessedCurrentRound = (game: SavedGame): boolean =>
+  game.results.length === game.currentRound;
+
+/**
+ * The game state to continue from. The clock picks up where it stopped: the
+ * time the player was away doesn't count against them.
+ */
+export const restoreGameState = (game: SavedGame, now: number = Date.now()): GameState => {
+  const hasGuessed = hasGuessedCurrentRound(game);
+  return {
+    currentRound: game.currentRound,
+    totalRounds: game.totalRounds,
+    currentImage: game.images[game.currentRound - 1],
+    results: game.results,
+    isGuessing: !hasGuessed,
+    hasGuessed,
+    gameOver: false,
+    usedImageIds: game.usedImageIds,
+    isTimedMode: game.isTimedMode,
+    timerType: game.timerType,
+    timeRemaining: game.timeRemaining,
+    timerActive: game.isTimedMode && !hasGuessed && game.timeRemaining > 0,
+    roundStartTime: now - game.roundElapsedMs,
+    customTimerDuration: game.customTimerDuration ?? undefined,
+    scoringProfile: game.scoringProfile,
+    eraBucketSet: game.eraBucketSet,
+    scoredDimension: game.scoredDimension,
+  };
+};
+
+/**
+ * Whether `next` should be written now. Anything that moves the game on
+ * (a new round, a scored guess, a revealed hint) saves at once; a ticking
+ * timer only every SAVED_GAME_SAVE_INTERVAL_MS.
+ */
+export const isSaveDue = (
+  last: SavedGame | null,
+  lastSavedAt: number,
+  next: SavedGame,
+  now: number = Date.now()
+): boolean => {
+  if (!last) return true;
+  if (
+    last.sessionId !== next.sessionId ||
+    last.currentRound !== next.currentRound ||
+    last.results.length !== next.results.length ||
+    last.hintsRevealed !== next.hintsRevealed
+  ) {
+    return true;
+  }
+  return last.timeRemaining !== next.timeRemaining && now - lastSavedAt >= SAVED_GAME_SAVE_INTERVAL_MS;
+};
+
+/** One line for the resume prompt, e.g. "Timed · Round 3 of 5 · Kerala". */
+export const describeSavedGame = (game: SavedGame): string =>
+  [getGameModeLabel(game.gameMode), `Round ${game.currentRound} of ${game.totalRounds}`, game.region?.name]
+    .filter(Boolean)
+    .join(' · ');
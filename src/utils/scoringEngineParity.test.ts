@@ -0,0 +1,101 @@
+// Runs the golden vectors in scoringVectors.ts through both halves of the
+// scoring engine. The TS half always runs. The SQL half (scoring_score_round,
+// supabase/migrations/20260613090000_scoring_engine_version.sql) runs only
+// when a database is given, e.g. against `supabase start`:
+//
+//   SCORING_PARITY_SUPABASE_URL=http://127.0.0.1:54321 \
+//   SCORING_PARITY_SUPABASE_KEY=<anon key> npx vitest run scoringEngineParity
+//
+// A failure on either side means a mode would score the same guess
+// differently — fix the engine, or bump its version and the vectors together.
+
+import { describe, expect, it } from 'vitest';
+import { SCORING_ENGINE_VERSION, scoreRound } from './scoringSystem';
+import { SCORING_VECTORS, SCORING_VECTORS_ENGINE_VERSION, type ScoringVector } from './scoringVectors';
+
+const label = (v: ScoringVector) =>
+  `${v.scoredDimension ? `${v.scoredDimension}-only ` : ''}${v.eraBucketSet ?? v.profile} ${v.actualYear}→${v.guessedYear}${v.yearMargin ? `±${v.yearMargin}` : ''} ${v.distanceKm ?? 'no'}km${v.radiusKm ? ` in ${v.radiusKm}km` : ''}${v.hintsUsed ? ` ${v.hintsUsed} hint(s)` : ''} ${v.isTimedMode ? `${v.timeRemaining}s` : 'untimed'}`;
+
+describe('scoring engine golden vectors (TS)', () => {
+  it('the vectors were written for the current engine version', () => {
+    expect(SCORING_VECTORS_ENGINE_VERSION).toBe(SCORING_ENGINE_VERSION);
+  });
+
+  it('covers every profile, rounds without a location guess and the time bonus', () => {
+    expect(new Set(SCORING_VECTORS.map(v => v.profile))).toEqual(new Set(['classic', 'regional', 'global']));
+    expect(SCORING_VECTORS.some(v => v.distanceKm === null)).toBe(true);
+    expect(SCORING_VECTORS.some(v => v.expected.timeBonus > 0)).toBe(true);
+    expect(new Set(SCORING_VECTORS.map(v => v.eraBucketSet).filter(Boolean))).toEqual(new Set(['decades', 'eras']));
+    expect(new Set(SCORING_VECTORS.map(v => v.scoredDimension).filter(Boolean))).toEqual(new Set(['year', 'location']));
+    expect(SCORING_VECTORS.some(v => v.yearMargin && v.expected.yearScore === 0)).toBe(true);
+    expect(SCORING_VECTORS.some(v => v.radiusKm && v.expected.locationScore === 0)).toBe(true);
+    expect(SCORING_VECTORS.some(v => v.hintsUsed && v.expected.displayTotalScore === v.expected.timeBonus)).toBe(true);
+  });
+
+  it.each(SCORING_VECTORS.map(v => [label(v), v] as const))('%s', (_, v) => {
+    const score = scoreRound({
+      profile: v.profile,
+      actualYear: v.actualYear,
+      guessedYear: v.guessedYear,
+      distanceKm: v.distanceKm,
+      timeRemaining: v.timeRemaining,
+      isTimedMode: v.isTimedMode,
+      timerType: 'per-round',
+      eraBucketSet: v.eraBucketSet,
+      scoredDimension: v.scoredDimension,
+      yearMargin: v.yearMargin,
+      radiusKm: v.radiusKm,
+      hintsUsed: v.hintsUsed,
+    });
+
+    expect({
+      yearScore: score.yearScore,
+      locationScore: score.locationScore,
+      timeBonus: score.timeBonus,
+      displayTotalScore: score.displayTotalScore,
+    }).toEqual(v.expected);
+    expect(score.engineVersion).toBe(SCORING_ENGINE_VERSION);
+  });
+});
+
+const SQL_URL = process.env.SCORING_PARITY_SUPABASE_URL;
+const SQL_KEY = process.env.SCORING_PARITY_SUPABASE_KEY;
+
+const rpc = async (fn: string, args: Record<string, unknown>) => {
+  const res = await fetch(`${SQL_URL}/rest/v1/rpc/${fn}`, {
+    method: 'POST',
+    headers: { apikey: SQL_KEY!, Authorization: `Bearer ${SQL_KEY}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(args),
+  });
+  if (!res.ok) throw new Error(`${fn}: ${res.status} ${await res.text()}`);
+  return res.json();
+};
+
+describe.skipIf(!SQL_URL || !SQL_KEY)('scoring engine golden vectors (SQL)', () => {
+  it('scoring_engine_version matches the client engine', async () => {
+    expect(await rpc('scoring_engine_version', {})).toBe(SCORING_ENGINE_VERSION);
+  });
+
+  it.each(SCORING_VECTORS.map(v => [label(v), v] as const))('%s', async (_, v) => {
+    const score = await rpc('scoring_score_round', {
+      p_profile: v.profile,
+      p_actual_year: v.actualYear,
+      p_guessed_year: v.guessedYear,
+      p_distance_km: v.distanceKm,
+      p_time_remaining: v.timeRemaining,
+      p_per_round_timer: v.isTimedMode,
+      p_era_bucket_set: v.eraBucketSet ?? null,
+      p_scored_dimension: v.scoredDimension ?? null,
+      p_year_margin: v.yearMargin ?? 0,
+      p_radius_km: v.radiusKm ?? 0,
+      p_hints_used: v.hintsUsed ?? 0,
+    });
+
+    expect({
+      yearScore: score.year_score,
+      locationScore: score.location_score,
+      timeBonus: score.time_bonus,
+      displayTotalScore: score.display_total_score,
+    }).toEqual(v.expected);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCORING_PROFILE,
+  SCORING_PROFILES,
+  SCORING_PROFILE_IDS,
+  getScoringProfile,
+  getScoringProfileForMode,
+  scoreFromCurve,
+  type ScoreCurve,
+} from './scoringProfiles';
+import {
+  calculateLocationScoreFromKm,
+  calculateYearScore,
+} from './scoringSystem';
+
+describe('scoreFromCurve', () => {
+  const curve: ScoreCurve = {
+    inclusive: true,
+    floor: 1,
+    bands: [
+      { upTo: 10, base: 100, from: 0, slope: 2 },
+      { base: 80, from: 10, slope: 1 },
+    ],
+  };
+
+  it('uses the first band whose limit admits the value', () => {
+    expect(scoreFromCurve(curve, 0)).toBe(100);
+    expect(scoreFromCurve(curve, 10)).toBe(80); // inclusive limit
+    expect(scoreFromCurve(curve, 30)).toBe(60);
+  });
+
+  it('treats limits as exclusive when the curve says so', () => {
+    expect(scoreFromCurve({ ...curve, inclusive: false }, 10)).toBe(80);
+    expect(scoreFromCurve({ ...curve, inclusive: false }, 9.9)).toBe(80);
+  });
+
+  it('clamps to the floor and to 100', () => {
+    expect(scoreFromCurve(curve, 500)).toBe(1);
+    expect(scoreFromCurve(curve, -5)).toBe(100);
+  });
+});
+
+describe('profile lookup', () => {
+  it('falls back to classic for unknown or missing ids', () => {
+    expect(getScoringProfile('nope').id).toBe(DEFAULT_SCORING_PROFILE);
+    expect(getScoringProfile(null).id).toBe(DEFAULT_SCORING_PROFILE);
+  });
+
+  it('maps every single-player mode to a known profile', () => {
+    for (const mode of ['random', 'daily', 'timed'] as const) {
+      expect(SCORING_PROFILE_IDS).toContain(getScoringProfileForMode(mode));
+    }
+  });
+});
+
+describe('profile curves', () => {
+  it('classic is the default for the legacy call signatures', () => {
+    expect(calculateYearScore(2000, 1980)).toBe(calculateYearScore(2000, 1980, 'classic'));
+    expect(calculateLocationScoreFromKm(120)).toBe(calculateLocationScoreFromKm(120, 'classic'));
+  });
+
+  it('every profile is monotone non-increasing and stays within [1, 100]', () => {
+    for (const id of SCORING_PROFILE_IDS) {
+      let previous = 100;
+      for (let km = 0; km <= 20000; km += 25) {
+        const score = calculateLocationScoreFromKm(km, id);
+        expect(score, `${id} @ ${km}km`).toBeLessThanOrEqual(previous);
+        expect(score).toBeGreaterThanOrEqual(1);
+        previous = score;
+      }
+    }
+  });
+
+  it('bands are continuous at every limit', () => {
+    for (const id of SCORING_PROFILE_IDS) {
+      const { bands } = SCORING_PROFILES[id].distance;
+      for (let i = 0; i < bands.length - 1; i++) {
+        const { upTo, base, from, slope } = bands[i];
+        expect(base - (upTo! - from) * slope, `${id} band ${i}`).toBeCloseTo(bands[i + 1].base, 6);
+      }
+    }
+  });
+
+  it('regional rewards a 10 km miss far more than global penalises it', () => {
+    expect(calculateLocationScoreFromKm(10, 'regional')).toBe(78);
+    expect(calculateLocationScoreFromKm(10, 'global')).toBe(100);
+    expect(calculateLocationScoreFromKm(300, 'regional')).toBe(8);
+    expect(calculateLocationScoreFromKm(300, 'global')).toBe(90);
+  });
+});
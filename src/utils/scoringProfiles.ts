@@ -0,0 +1,162 @@
+// Named scoring profiles. Each profile is a pair of piecewise-linear curves
+// (year error -> raw score, distance -> raw score) expressed as band tables so
+// the same data can be mirrored row-for-row in the scoring_profiles table that
+// the duel RPCs read (see supabase/migrations/20260612090000_scoring_profiles.sql).
+// Editing a band here without the matching SQL change makes modes drift.
+
+import type { GameMode, ScoringProfileId } from '@/types/game';
+
+/**
+ * One segment of a curve: for values up to `upTo` the raw score is
+ * `round(base - (value - from) * slope)`. The last band omits `upTo` and
+ * covers everything beyond the previous limit.
+ */
+export interface ScoreBand {
+  upTo?: number;
+  base: number;
+  from: number;
+  slope: number;
+}
+
+export interface ScoreCurve {
+  bands: ScoreBand[];
+  /** true: a value equal to `upTo` falls in that band (`<=`); false: `<`. */
+  inclusive: boolean;
+  /** Lowest score any guess can earn. */
+  floor: number;
+}
+
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  name: string;
+  description: string;
+  /** Unit the distance bands are written in; distances arrive in km. */
+  distanceUnit: 'km' | 'mi';
+  /** Display points taken off a round for each hint revealed. */
+  hintPenalty: number;
+  year: ScoreCurve;
+  distance: ScoreCurve;
+}
+
+const KM_TO_MILES = 0.621371;
+
+// The original single-player curve: steep for the first decade, a long tail
+// so a wild guess still scores a point.
+const CLASSIC_YEAR_CURVE: ScoreCurve = {
+  inclusive: true,
+  floor: 1,
+  bands: [
+    { upTo: 2, base: 100, from: 0, slope: 5 }, // 100 to 90
+    { upTo: 8, base: 90, from: 2, slope: 4 }, // 90 to 66
+    { upTo: 20, base: 66, from: 8, slope: 2.5 }, // 66 to 36
+    { upTo: 40, base: 36, from: 20, slope: 1.2 }, // 36 to 12
+    { upTo: 80, base: 12, from: 40, slope: 0.15 }, // 12 to 6
+    { base: 6, from: 80, slope: 0.05 },
+  ],
+};
+
+export const SCORING_PROFILES: Record<ScoringProfileId, ScoringProfile> = {
+  classic: {
+    id: 'classic',
+    name: 'Classic',
+    description: 'The original curves, tuned for city-to-country scale guesses.',
+    distanceUnit: 'mi',
+    hintPenalty: 500,
+    year: CLASSIC_YEAR_CURVE,
+    distance: {
+      inclusive: false,
+      floor: 1,
+      bands: [
+        { upTo: 5, base: 100, from: 0, slope: 0 }, // bullseye
+        { upTo: 25, base: 100, from: 5, slope: 1.5 }, // 100 to 70
+        { upTo: 75, base: 70, from: 25, slope: 0.8 }, // 70 to 30
+        { upTo: 200, base: 30, from: 75, slope: 0.12 }, // 30 to 15
+        { upTo: 500, base: 15, from: 200, slope: 0.03 }, // 15 to 6
+        { upTo: 1500, base: 6, from: 500, slope: 0.003 }, // 6 to 3
+        { base: 3, from: 1500, slope: 0.001 },
+      ],
+    },
+  },
+  regional: {
+    id: 'regional',
+    name: 'Regional',
+    description: 'Tight kilometre bands for play inside one state or city.',
+    distanceUnit: 'km',
+    hintPenalty: 500,
+    year: CLASSIC_YEAR_CURVE,
+    distance: {
+      inclusive: false,
+      floor: 1,
+      bands: [
+        { upTo: 1, base: 100, from: 0, slope: 0 }, // same block
+        { upTo: 5, base: 100, from: 1, slope: 3 }, // 100 to 88
+        { upTo: 20, base: 88, from: 5, slope: 2 }, // 88 to 58
+        { upTo: 50, base: 58, from: 20, slope: 0.8 }, // 58 to 34
+        { upTo: 150, base: 34, from: 50, slope: 0.2 }, // 34 to 14
+        { upTo: 400, base: 14, from: 150, slope: 0.04 }, // 14 to 4
+        { base: 4, from: 400, slope: 0.005 },
+      ],
+    },
+  },
+  global: {
+    id: 'global',
+    name: 'Global',
+    description: 'Continent-scale bands for worldwide image pools.',
+    distanceUnit: 'km',
+    hintPenalty: 500,
+    year: CLASSIC_YEAR_CURVE,
+    distance: {
+      inclusive: false,
+      floor: 1,
+      bands: [
+        { upTo: 100, base: 100, from: 0, slope: 0 }, // right metro area
+        { upTo: 500, base: 100, from: 100, slope: 0.05 }, // 100 to 80
+        { upTo: 1500, base: 80, from: 500, slope: 0.03 }, // 80 to 50
+        { upTo: 4000, base: 50, from: 1500, slope: 0.012 }, // 50 to 20
+        { upTo: 10000, base: 20, from: 4000, slope: 0.0025 }, // 20 to 5
+        { base: 5, from: 10000, slope: 0.001 },
+      ],
+    },
+  },
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfileId = 'classic';
+
+export const SCORING_PROFILE_IDS = Object.keys(SCORING_PROFILES) as ScoringProfileId[];
+
+export const isScoringProfileId = (value: unknown): value is ScoringProfileId =>
+  typeof value === 'string' && value in SCORING_PROFILES;
+
+/** Resolves a (possibly unknown, e.g. from an old DB row) id to a profile. */
+export const getScoringProfile = (id?: string | null): ScoringProfile =>
+  isScoringProfileId(id) ? SCORING_PROFILES[id] : SCORING_PROFILES[DEFAULT_SCORING_PROFILE];
+
+// Which profile each single-player mode scores with. Rooms (duels) choose
+// their own profile at creation time instead.
+const PROFILE_BY_GAME_MODE: Record<GameMode, ScoringProfileId> = {
+  random: 'classic',
+  daily: 'classic',
+  daily_archive: 'classic',
+  timed: 'classic',
+  era: 'classic', // only the location half uses the curves; years score by bucket
+  year_only: 'classic',
+  location_only: 'classic',
+  challenge: 'classic', // the challenge row's own profile wins on the server
+};
+
+export const getScoringProfileForMode = (mode: GameMode): ScoringProfileId =>
+  PROFILE_BY_GAME_MODE[mode] ?? DEFAULT_SCORING_PROFILE;
+
+/** Evaluates a band curve at `value`, clamped to [floor, 100]. */
+export const scoreFromCurve = (curve: ScoreCurve, value: number): number => {
+  const band =
+    curve.bands.find(b =>
+      b.upTo === undefined || (curve.inclusive ? value <= b.upTo : value < b.upTo)
+    ) ?? curve.bands[curve.bands.length - 1];
+  const score = Math.round(band.base - (value - band.from) * band.slope);
+  return Math.min(100, Math.max(curve.floor, score));
+};
+
+/** Converts a km distance into the profile's band unit. */
+export const toProfileDistance = (profile: ScoringProfile, distanceKm: number): number =>
+  profile.distanceUnit === 'mi' ? distanceKm * KM_TO_MILES : distanceKm;
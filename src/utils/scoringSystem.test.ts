@@ -9,6 +9,8 @@ import {
   calculateFinalScore,
   getScoreFeedback,
   getFinalScoreFeedback,
+  calculateConfidenceFactor,
+  calculateRangeScore,
   SCORE_CONSTANTS,
 } from './scoringSystem';
 
@@ -92,6 +94,21 @@ describe('calculateTimeBonus', () => {
   });
 });
 
+describe('confidence ranges', () => {
+  it('leaves a point guess at full weight and halves at the half-way width', () => {
+    expect(calculateConfidenceFactor(0, 10)).toBe(1);
+    expect(calculateConfidenceFactor(10, 10)).toBe(0.5);
+    expect(calculateConfidenceFactor(30, 10)).toBe(0.25);
+  });
+
+  it('pays less the wider the range, and nothing when the answer is outside it', () => {
+    expect(calculateRangeScore(0, 5, 10)).toBe(67);
+    expect(calculateRangeScore(5, 5, 10)).toBe(67); // edge of the range still counts
+    expect(calculateRangeScore(5, 20, 10)).toBe(33);
+    expect(calculateRangeScore(6, 5, 10)).toBe(0);
+  });
+});
+
 describe('calculateCompleteScore', () => {
   it('produces a 10000 display score for a perfect untimed round', () => {
     const result = calculateCompleteScore(1969, 40.7128, -74.006, 1969, 40.7128, -74.006);
@@ -1,48 +1,70 @@
-import { GuessResult } from '@/types/game';
+import { EraBucketSetId, GameMode, GuessDimension, GuessResult, ScoringProfileId } from '@/types/game';
 import { calculateDistance } from '@/utils/gameUtils';
+import { ERA_STEP_SCORES, findEraBucketIndex } from '@/utils/eraBuckets';
+import {
+  DEFAULT_SCORING_PROFILE,
+  getScoringProfile,
+  scoreFromCurve,
+  toProfileDistance,
+} from '@/utils/scoringProfiles';
 
 // Scoring constants
 export const SCORE_CONSTANTS = {
   MAX_RAW_SCORE: 100,
   DISPLAY_MULTIPLIER: 50, // Raw score * 50 = display score (max 5000 per category)
+  SINGLE_DIMENSION_MULTIPLIER: 100, // Practice modes: the one scored category fills the 10000 range
   MAX_DISPLAY_SCORE_PER_CATEGORY: 5000,
   MAX_TOTAL_DISPLAY_SCORE: 10000,
   TIME_BONUS_MULTIPLIER: 1.5 // seconds left * 1.5 = bonus points (reduced from 2)
 } as const;
 
-// Calculate year score based on how close the guess is to the actual year - INCREASED DIFFICULTY
-export const calculateYearScore = (actualYear: number, guessedYear: number): number => {
+// Calculate year score based on how close the guess is to the actual year.
+// Curves live in scoringProfiles.ts; 'classic' is the original difficulty.
+export const calculateYearScore = (
+  actualYear: number,
+  guessedYear: number,
+  profile: ScoringProfileId = DEFAULT_SCORING_PROFILE
+): number => {
   const yearDiff = Math.abs(actualYear - guessedYear);
-  
-  // Increased difficulty - harder to get high scores
-  // Perfect guess (exact year)
-  if (yearDiff === 0) return 100;
-  
-  // Excellent precision (1-2 years) - reduced perfect range
-  if (yearDiff <= 2) return Math.round(100 - yearDiff * 5); // 100 to 90
-  
-  // Very good (3-8 years) - steeper drop
-  if (yearDiff <= 8) return Math.round(90 - (yearDiff - 2) * 4); // 90 to 66
-  
-  // Good (9-20 years) - faster decline
-  if (yearDiff <= 20) return Math.round(66 - (yearDiff - 8) * 2.5); // 66 to 36
-  
-  // Fair (21-40 years) - moderate rewards
-  if (yearDiff <= 40) return Math.round(36 - (yearDiff - 20) * 1.2); // 36 to 12
-  
-  // Poor (41-80 years) - minimal rewards
-  if (yearDiff <= 80) return Math.round(12 - (yearDiff - 40) * 0.15); // 12 to 6
-  
-  // Very poor (>80 years) - very minimal
-  return Math.max(1, Math.round(6 - (yearDiff - 80) * 0.05));
+  return scoreFromCurve(getScoringProfile(profile).year, yearDiff);
 };
 
-// Calculate location score based on distance in kilometers - INCREASED DIFFICULTY
+// Era mode: score by how many buckets separate the guess from the answer
+export const calculateEraYearScore = (
+  actualYear: number,
+  guessedYear: number,
+  bucketSet: EraBucketSetId
+): number => {
+  const steps = Math.abs(
+    findEraBucketIndex(bucketSet, actualYear) - findEraBucketIndex(bucketSet, guessedYear)
+  );
+  return ERA_STEP_SCORES[steps] ?? 0;
+};
+
+// Confidence ranges: a guess can be widened to ± years or a radius around the
+// map pin. An answer inside the range scores 100 × a factor that halves at
+// HALF_AT and keeps shrinking as the range grows; outside the range it scores
+// 0. Width 0 is an ordinary point guess scored on the profile curves.
+export const CONFIDENCE_RANGES = {
+  MAX_YEAR_MARGIN: 50,
+  YEAR_MARGIN_HALF_AT: 10,
+  MAX_RADIUS_KM: 2000,
+  RADIUS_HALF_AT_KM: 100,
+} as const;
+
+export const calculateConfidenceFactor = (width: number, halfAt: number): number =>
+  width <= 0 ? 1 : halfAt / (halfAt + width);
+
+export const calculateRangeScore = (miss: number, width: number, halfAt: number): number =>
+  miss > width ? 0 : Math.round(100 * calculateConfidenceFactor(width, halfAt));
+
+// Calculate location score from the great-circle distance between the points
 export const calculateLocationScore = (
   actualLat: number,
   actualLng: number,
   guessedLat: number,
-  guessedLng: number
+  guessedLng: number,
+  profile: ScoringProfileId = DEFAULT_SCORING_PROFILE
 ): number => {
   const distance = calculateDistance(
     actualLat,
@@ -50,31 +72,18 @@ export const calculateLocationScore = (
     guessedLat,
     guessedLng
   );
-  
-  // Convert km to miles for calculation
-  const distanceMiles = distance * 0.621371;
-  
-  // Increased difficulty - harder to get high scores
-  // Perfect guess (within 5 miles) - kept same
-  if (distanceMiles < 5) return 100;
-  
-  // Excellent precision (5-25 miles) - much steeper drop
-  if (distanceMiles < 25) return Math.round(100 - (distanceMiles - 5) * 1.5); // 100 to 70
-  
-  // Very good (25-75 miles) - much faster decline
-  if (distanceMiles < 75) return Math.round(70 - (distanceMiles - 25) * 0.8); // 70 to 30
-  
-  // Good (75-200 miles) - steeper decline
-  if (distanceMiles < 200) return Math.round(30 - (distanceMiles - 75) * 0.12); // 30 to 15
-  
-  // Fair (200-500 miles) - minimal rewards
-  if (distanceMiles < 500) return Math.round(15 - (distanceMiles - 200) * 0.03); // 15 to 6
-  
-  // Poor (500-1500 miles) - very minimal
-  if (distanceMiles < 1500) return Math.round(6 - (distanceMiles - 500) * 0.003); // 6 to 3
-  
-  // Very poor (1500+ miles) - minimal but not zero
-  return Math.max(1, Math.round(3 - (distanceMiles - 1500) * 0.001));
+
+  return calculateLocationScoreFromKm(distance, profile);
+};
+
+// Same as calculateLocationScore for callers that already have the distance
+// (mirrors scoring_location_score_from_km on the server).
+export const calculateLocationScoreFromKm = (
+  distanceKm: number,
+  profile: ScoringProfileId = DEFAULT_SCORING_PROFILE
+): number => {
+  const scoringProfile = getScoringProfile(profile);
+  return scoreFromCurve(scoringProfile.distance, toProfileDistance(scoringProfile, distanceKm));
 };
 
 // Calculate total score - FIXED: Now just adds display scores instead of weighted calculation
@@ -102,11 +111,114 @@ export interface ScoreBreakdown {
   locationScore: number; // Raw score 0-100
   totalScore: number; // Raw score 0-100 (for internal use only)
   timeBonus: number; // Bonus points from time
+  hintPenalty: number; // Display points taken off for revealed hints
   displayYearScore: number; // Year score * 50 (0-5000)
   displayLocationScore: number; // Location score * 50 (0-5000)
-  displayTotalScore: number; // FIXED: Sum of display scores + bonus (0-10000+)
+  displayTotalScore: number; // FIXED: Sum of display scores - hint penalty + bonus (0-10000+)
 }
 
+// Version of the scoring rules as a whole (curves, multipliers, rounding).
+// scoring_engine_version() on the server returns the same number; bump both,
+// and regenerate scoringVectors.ts, whenever a round could score differently.
+export const SCORING_ENGINE_VERSION = 6; // 2: era buckets, 3: single-dimension practice modes, 4: confidence ranges, 5: hint penalties, 6: the 1980s era ends in 1989
+
+// Practice modes guess (and score) only one half of the round
+const SCORED_DIMENSION_BY_GAME_MODE: Partial<Record<GameMode, GuessDimension>> = {
+  year_only: 'year',
+  location_only: 'location',
+};
+
+export const getScoredDimensionForMode = (mode: GameMode): GuessDimension | null =>
+  SCORED_DIMENSION_BY_GAME_MODE[mode] ?? null;
+
+export interface RoundScoreInput {
+  actualYear: number;
+  guessedYear: number;
+  /** Distance between guess and answer; null when no location was guessed. */
+  distanceKm: number | null;
+  timeRemaining?: number;
+  isTimedMode?: boolean;
+  timerType?: 'per-round' | 'total-game';
+  profile?: ScoringProfileId;
+  /** Era mode: the guessed year stands for its bucket in this set. */
+  eraBucketSet?: EraBucketSetId | null;
+  /** Practice modes: score only this dimension, scaled to the full display range. */
+  scoredDimension?: GuessDimension | null;
+  /** ± years around guessedYear; 0 = exact year. Ignored in era mode. */
+  yearMargin?: number;
+  /** Radius around the pin in whole km; 0 = point guess. */
+  radiusKm?: number;
+  /** Hints revealed before guessing; each costs the profile's hintPenalty. */
+  hintsUsed?: number;
+}
+
+export interface RoundScore extends ScoreBreakdown {
+  engineVersion: number;
+  profile: ScoringProfileId;
+}
+
+// The single entry point every client path scores a round through. Takes the
+// distance rather than coordinates so it lines up one-to-one with
+// scoring_score_round in SQL; a round without a location guess earns 0 there.
+export const scoreRound = ({
+  actualYear,
+  guessedYear,
+  distanceKm,
+  timeRemaining = 0,
+  isTimedMode = false,
+  timerType = 'per-round',
+  profile = DEFAULT_SCORING_PROFILE,
+  eraBucketSet = null,
+  scoredDimension = null,
+  yearMargin = 0,
+  radiusKm = 0,
+  hintsUsed = 0,
+}: RoundScoreInput): RoundScore => {
+  const yearScore = scoredDimension === 'location'
+    ? 0
+    : eraBucketSet
+      ? calculateEraYearScore(actualYear, guessedYear, eraBucketSet)
+      : yearMargin > 0
+        ? calculateRangeScore(Math.abs(actualYear - guessedYear), yearMargin, CONFIDENCE_RANGES.YEAR_MARGIN_HALF_AT)
+        : calculateYearScore(actualYear, guessedYear, profile);
+  const locationScore = scoredDimension === 'year' || distanceKm === null
+    ? 0
+    : radiusKm > 0
+      ? calculateRangeScore(distanceKm, radiusKm, CONFIDENCE_RANGES.RADIUS_HALF_AT_KM)
+      : calculateLocationScoreFromKm(distanceKm, profile);
+  const timeBonus = calculateTimeBonus(timeRemaining, isTimedMode, timerType);
+
+  const multiplier = scoredDimension
+    ? SCORE_CONSTANTS.SINGLE_DIMENSION_MULTIPLIER
+    : SCORE_CONSTANTS.DISPLAY_MULTIPLIER;
+  const displayYearScore = yearScore * multiplier;
+  const displayLocationScore = locationScore * multiplier;
+  const totalScore = scoredDimension === 'year'
+    ? yearScore
+    : scoredDimension === 'location'
+      ? locationScore
+      : calculateTotalScore(yearScore, locationScore);
+  // Hints only eat into the guess points, never below 0 or into the time bonus
+  const hintPenalty = Math.min(
+    displayYearScore + displayLocationScore,
+    Math.max(0, hintsUsed) * getScoringProfile(profile).hintPenalty
+  );
+
+  return {
+    engineVersion: SCORING_ENGINE_VERSION,
+    profile,
+    yearScore,
+    locationScore,
+    totalScore, // Keep for internal use
+    timeBonus,
+    hintPenalty,
+    displayYearScore,
+    displayLocationScore,
+    // FIXED: Display total is now the sum of display scores + time bonus
+    displayTotalScore: displayYearScore + displayLocationScore - hintPenalty + timeBonus,
+  };
+};
+
 export const calculateCompleteScore = (
   actualYear: number,
   actualLat: number,
@@ -116,40 +228,37 @@ export const calculateCompleteScore = (
   guessedLng: number,
   timeRemaining: number = 0,
   isTimedMode: boolean = false,
-  timerType: 'per-round' | 'total-game' = 'per-round'
-): ScoreBreakdown => {
-  
-  const yearScore = calculateYearScore(actualYear, guessedYear);
-  const locationScore = calculateLocationScore(actualLat, actualLng, guessedLat, guessedLng);
-  const totalScore = calculateTotalScore(yearScore, locationScore); // Keep for internal use
-  const timeBonus = calculateTimeBonus(timeRemaining, isTimedMode, timerType);
-  
-  const displayYearScore = yearScore * SCORE_CONSTANTS.DISPLAY_MULTIPLIER;
-  const displayLocationScore = locationScore * SCORE_CONSTANTS.DISPLAY_MULTIPLIER;
-  
-  // FIXED: Display total is now the sum of display scores + time bonus
-  const displayTotalScore = displayYearScore + displayLocationScore + timeBonus;
-  
+  timerType: 'per-round' | 'total-game' = 'per-round',
+  profile: ScoringProfileId = DEFAULT_SCORING_PROFILE,
+  eraBucketSet: EraBucketSetId | null = null,
+  scoredDimension: GuessDimension | null = null,
+  yearMargin: number = 0,
+  radiusKm: number = 0,
+  hintsUsed: number = 0
+): RoundScore => {
+  const score = scoreRound({
+    actualYear,
+    guessedYear,
+    distanceKm: scoredDimension === 'year'
+      ? null
+      : calculateDistance(actualLat, actualLng, guessedLat, guessedLng),
+    timeRemaining,
+    isTimedMode,
+    timerType,
+    profile,
+    eraBucketSet,
+    scoredDimension,
+    yearMargin,
+    radiusKm,
+    hintsUsed,
+  });
+
   console.log('🔧 Score calculation breakdown:', {
-    yearScore,
-    locationScore,
-    totalScore,
-    timeBonus,
-    displayYearScore,
-    displayLocationScore,
-    displayTotalScore,
-    calculation: `${displayYearScore} + ${displayLocationScore} + ${timeBonus} = ${displayTotalScore}`
+    ...score,
+    calculation: `${score.displayYearScore} + ${score.displayLocationScore} - ${score.hintPenalty} + ${score.timeBonus} = ${score.displayTotalScore}`
   });
-  
-  return {
-    yearScore,
-    locationScore,
-    totalScore,
-    timeBonus,
-    displayYearScore,
-    displayLocationScore,
-    displayTotalScore
-  };
+
+  return score;
 };
 
 // Calculate final game score based on all rounds
@@ -159,7 +268,8 @@ export const calculateFinalScore = (results: GuessResult[]): number => {
   return results.reduce((sum, result) => {
     // Use the scaledScore if available, otherwise calculate from display scores
     const score = result.scaledScore || 
-      ((result.displayYearScore || 0) + (result.displayLocationScore || 0) + (result.timeBonus || 0));
+      ((result.displayYearScore || 0) + (result.displayLocationScore || 0)
+        - (result.hintPenalty || 0) + (result.timeBonus || 0));
     return sum + score;
   }, 0);
 };
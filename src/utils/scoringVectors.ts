@@ -0,0 +1,151 @@
+// Golden vectors for the scoring engine (SCORING_ENGINE_VERSION in
+// scoringSystem.ts). Every client scoring path goes through scoreRound, and
+// scoring_score_round in SQL must return the same numbers for these inputs;
+// scoringEngineParity.test.ts checks the TS side always and the SQL side when
+// pointed at a database. The classic rows reuse the inputs verified in
+// duelScoringParity.test.ts.
+//
+// These are the contract, not a snapshot: if a change makes one fail, either
+// it is a bug or it is a new engine version (bump it, then regenerate).
+
+import type { EraBucketSetId, GuessDimension, ScoringProfileId } from '@/types/game';
+
+export interface ScoringVector {
+  profile: ScoringProfileId;
+  actualYear: number;
+  guessedYear: number;
+  distanceKm: number | null;
+  /** Per-round timer seconds left; the bonus only applies when timed. */
+  timeRemaining: number;
+  isTimedMode: boolean;
+  eraBucketSet?: EraBucketSetId;
+  scoredDimension?: GuessDimension;
+  yearMargin?: number;
+  radiusKm?: number;
+  hintsUsed?: number;
+  expected: {
+    yearScore: number;
+    locationScore: number;
+    timeBonus: number;
+    displayTotalScore: number;
+  };
+}
+
+export const SCORING_VECTORS_ENGINE_VERSION = 6;
+
+export const SCORING_VECTORS: ScoringVector[] = [
+  { profile: 'classic', actualYear: 1980, guessedYear: 1980, distanceKm: 0, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 100, locationScore: 100, timeBonus: 0, displayTotalScore: 10000 } },
+  { profile: 'classic', actualYear: 1980, guessedYear: 1979, distanceKm: 3, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 95, locationScore: 100, timeBonus: 0, displayTotalScore: 9750 } },
+  { profile: 'classic', actualYear: 1980, guessedYear: 1975, distanceKm: 10, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 78, locationScore: 98, timeBonus: 0, displayTotalScore: 8800 } },
+  { profile: 'classic', actualYear: 1980, guessedYear: 1960, distanceKm: 50, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 36, locationScore: 65, timeBonus: 0, displayTotalScore: 5050 } },
+  { profile: 'classic', actualYear: 1980, guessedYear: 1950, distanceKm: 120.5, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 24, locationScore: 30, timeBonus: 0, displayTotalScore: 2700 } },
+  { profile: 'classic', actualYear: 1980, guessedYear: 1900, distanceKm: 500, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 6, locationScore: 12, timeBonus: 0, displayTotalScore: 900 } },
+  { profile: 'classic', actualYear: 2025, guessedYear: 1800, distanceKm: 5000, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 1, locationScore: 1, timeBonus: 0, displayTotalScore: 100 } },
+  { profile: 'classic', actualYear: 1962, guessedYear: 1964, distanceKm: 8.05, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 90, locationScore: 100, timeBonus: 0, displayTotalScore: 9500 } },
+  { profile: 'classic', actualYear: 1962, guessedYear: 1970, distanceKm: 40.2, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 66, locationScore: 70, timeBonus: 0, displayTotalScore: 6800 } },
+  { profile: 'classic', actualYear: 1995, guessedYear: 1991, distanceKm: 321.9, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 82, locationScore: 15, timeBonus: 0, displayTotalScore: 4850 } },
+  { profile: 'classic', actualYear: 1995, guessedYear: 1991, distanceKm: null, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 82, locationScore: 0, timeBonus: 0, displayTotalScore: 4100 } },
+  { profile: 'classic', actualYear: 1995, guessedYear: 1995, distanceKm: 0, timeRemaining: 42, isTimedMode: true,
+    expected: { yearScore: 100, locationScore: 100, timeBonus: 63, displayTotalScore: 10063 } },
+  { profile: 'classic', actualYear: 1995, guessedYear: 1990, distanceKm: 15, timeRemaining: 17.9, isTimedMode: true,
+    expected: { yearScore: 78, locationScore: 94, timeBonus: 26, displayTotalScore: 8626 } },
+  { profile: 'classic', actualYear: 1940, guessedYear: 1955, distanceKm: 2413.9, timeRemaining: 0.4, isTimedMode: true,
+    expected: { yearScore: 49, locationScore: 3, timeBonus: 0, displayTotalScore: 2600 } },
+
+  { profile: 'regional', actualYear: 1980, guessedYear: 1980, distanceKm: 0.5, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 100, locationScore: 100, timeBonus: 0, displayTotalScore: 10000 } },
+  { profile: 'regional', actualYear: 1980, guessedYear: 1978, distanceKm: 3, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 90, locationScore: 94, timeBonus: 0, displayTotalScore: 9200 } },
+  { profile: 'regional', actualYear: 1980, guessedYear: 1972, distanceKm: 10, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 66, locationScore: 78, timeBonus: 0, displayTotalScore: 7200 } },
+  { profile: 'regional', actualYear: 1980, guessedYear: 1960, distanceKm: 35, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 36, locationScore: 46, timeBonus: 0, displayTotalScore: 4100 } },
+  { profile: 'regional', actualYear: 1980, guessedYear: 1940, distanceKm: 300, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 12, locationScore: 8, timeBonus: 0, displayTotalScore: 1000 } },
+  { profile: 'regional', actualYear: 1980, guessedYear: 1900, distanceKm: 2000, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 6, locationScore: 1, timeBonus: 0, displayTotalScore: 350 } },
+  { profile: 'regional', actualYear: 1930, guessedYear: 1931, distanceKm: 12.3, timeRemaining: 30, isTimedMode: true,
+    expected: { yearScore: 95, locationScore: 73, timeBonus: 45, displayTotalScore: 8445 } },
+
+  { profile: 'global', actualYear: 1980, guessedYear: 1980, distanceKm: 50, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 100, locationScore: 100, timeBonus: 0, displayTotalScore: 10000 } },
+  { profile: 'global', actualYear: 1980, guessedYear: 1977, distanceKm: 300, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 86, locationScore: 90, timeBonus: 0, displayTotalScore: 8800 } },
+  { profile: 'global', actualYear: 1980, guessedYear: 1970, distanceKm: 1000, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 61, locationScore: 65, timeBonus: 0, displayTotalScore: 6300 } },
+  { profile: 'global', actualYear: 1980, guessedYear: 1955, distanceKm: 2500, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 30, locationScore: 38, timeBonus: 0, displayTotalScore: 3400 } },
+  { profile: 'global', actualYear: 1980, guessedYear: 1930, distanceKm: 7000, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 11, locationScore: 13, timeBonus: 0, displayTotalScore: 1200 } },
+  { profile: 'global', actualYear: 1980, guessedYear: 1880, distanceKm: 15000, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 5, locationScore: 1, timeBonus: 0, displayTotalScore: 300 } },
+  { profile: 'global', actualYear: 2001, guessedYear: 2010, distanceKm: 800, timeRemaining: 59, isTimedMode: true,
+    expected: { yearScore: 64, locationScore: 71, timeBonus: 88, displayTotalScore: 6838 } },
+
+  { profile: 'classic', eraBucketSet: 'decades', actualYear: 1965, guessedYear: 1965, distanceKm: 10, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 100, locationScore: 98, timeBonus: 0, displayTotalScore: 9900 } },
+  { profile: 'classic', eraBucketSet: 'decades', actualYear: 1965, guessedYear: 1975, distanceKm: 50, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 50, locationScore: 65, timeBonus: 0, displayTotalScore: 5750 } },
+  { profile: 'classic', eraBucketSet: 'decades', actualYear: 1965, guessedYear: 1984, distanceKm: 500, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 20, locationScore: 12, timeBonus: 0, displayTotalScore: 1600 } },
+  { profile: 'classic', eraBucketSet: 'decades', actualYear: 1965, guessedYear: 1995, distanceKm: null, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 0, locationScore: 0, timeBonus: 0, displayTotalScore: 0 } },
+  { profile: 'classic', eraBucketSet: 'decades', actualYear: 2025, guessedYear: 2022, distanceKm: 0, timeRemaining: 30, isTimedMode: true,
+    expected: { yearScore: 100, locationScore: 100, timeBonus: 45, displayTotalScore: 10045 } },
+  { profile: 'classic', eraBucketSet: 'eras', actualYear: 1946, guessedYear: 1956, distanceKm: 3, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 50, locationScore: 100, timeBonus: 0, displayTotalScore: 7500 } },
+  { profile: 'classic', eraBucketSet: 'eras', actualYear: 1947, guessedYear: 1956, distanceKm: 120.5, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 100, locationScore: 30, timeBonus: 0, displayTotalScore: 6500 } },
+  { profile: 'classic', eraBucketSet: 'eras', actualYear: 1999, guessedYear: 1850, distanceKm: 5000, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 0, locationScore: 1, timeBonus: 0, displayTotalScore: 50 } },
+  { profile: 'classic', eraBucketSet: 'eras', actualYear: 1990, guessedYear: 1984, distanceKm: 0, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 50, locationScore: 100, timeBonus: 0, displayTotalScore: 7500 } },
+  { profile: 'classic', eraBucketSet: 'eras', actualYear: 1989, guessedYear: 1984, distanceKm: 0, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 100, locationScore: 100, timeBonus: 0, displayTotalScore: 10000 } },
+
+  { profile: 'classic', scoredDimension: 'year', actualYear: 1980, guessedYear: 1975, distanceKm: 10, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 78, locationScore: 0, timeBonus: 0, displayTotalScore: 7800 } },
+  { profile: 'classic', scoredDimension: 'year', actualYear: 1995, guessedYear: 1995, distanceKm: null, timeRemaining: 42, isTimedMode: true,
+    expected: { yearScore: 100, locationScore: 0, timeBonus: 63, displayTotalScore: 10063 } },
+  { profile: 'classic', scoredDimension: 'year', eraBucketSet: 'decades', actualYear: 1965, guessedYear: 1975, distanceKm: null, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 50, locationScore: 0, timeBonus: 0, displayTotalScore: 5000 } },
+  { profile: 'classic', scoredDimension: 'location', actualYear: 1980, guessedYear: 1900, distanceKm: 50, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 0, locationScore: 65, timeBonus: 0, displayTotalScore: 6500 } },
+  { profile: 'classic', scoredDimension: 'location', actualYear: 1995, guessedYear: 1995, distanceKm: 120.5, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 0, locationScore: 30, timeBonus: 0, displayTotalScore: 3000 } },
+
+  { profile: 'classic', yearMargin: 5, actualYear: 1980, guessedYear: 1976, distanceKm: 10, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 67, locationScore: 98, timeBonus: 0, displayTotalScore: 8250 } },
+  { profile: 'classic', yearMargin: 5, actualYear: 1980, guessedYear: 1974, distanceKm: 50, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 0, locationScore: 65, timeBonus: 0, displayTotalScore: 3250 } },
+  { profile: 'classic', radiusKm: 300, actualYear: 1980, guessedYear: 1980, distanceKm: 250, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 100, locationScore: 25, timeBonus: 0, displayTotalScore: 6250 } },
+  { profile: 'classic', radiusKm: 700, actualYear: 1980, guessedYear: 1979, distanceKm: 699.5, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 95, locationScore: 13, timeBonus: 0, displayTotalScore: 5400 } },
+  { profile: 'regional', yearMargin: 10, radiusKm: 100, actualYear: 1995, guessedYear: 1985, distanceKm: 120.5, timeRemaining: 20, isTimedMode: true,
+    expected: { yearScore: 50, locationScore: 0, timeBonus: 30, displayTotalScore: 2530 } },
+  { profile: 'classic', eraBucketSet: 'decades', yearMargin: 20, actualYear: 1965, guessedYear: 1975, distanceKm: 50, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 50, locationScore: 65, timeBonus: 0, displayTotalScore: 5750 } },
+  { profile: 'classic', scoredDimension: 'year', yearMargin: 2, radiusKm: 500, actualYear: 1980, guessedYear: 1981, distanceKm: null, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 83, locationScore: 0, timeBonus: 0, displayTotalScore: 8300 } },
+
+  { profile: 'classic', hintsUsed: 1, actualYear: 1980, guessedYear: 1979, distanceKm: 3, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 95, locationScore: 100, timeBonus: 0, displayTotalScore: 9250 } },
+  { profile: 'global', hintsUsed: 2, actualYear: 1995, guessedYear: 1995, distanceKm: 0, timeRemaining: 42, isTimedMode: true,
+    expected: { yearScore: 100, locationScore: 100, timeBonus: 63, displayTotalScore: 9063 } },
+  { profile: 'classic', hintsUsed: 2, actualYear: 1980, guessedYear: 1900, distanceKm: 20000, timeRemaining: 15, isTimedMode: true,
+    expected: { yearScore: 6, locationScore: 1, timeBonus: 22, displayTotalScore: 22 } },
+  { profile: 'classic', scoredDimension: 'location', hintsUsed: 5, actualYear: 1995, guessedYear: 1995, distanceKm: 120.5, timeRemaining: 0, isTimedMode: false,
+    expected: { yearScore: 0, locationScore: 30, timeBonus: 0, displayTotalScore: 500 } },
+];
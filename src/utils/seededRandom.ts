@@ -0,0 +1,28 @@
+// Deterministic random number generator: the same seed string always yields
+// the same sequence (daily challenges seed it with the date, custom challenges
+// with their id).
+export const createSeededRandom = (seed: string) => {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    const char = seed.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  
+  return () => {
+    hash = ((hash * 1103515245) + 12345) & 0x7fffffff;
+    return hash / 0x7fffffff;
+  };
+};
+
+// Shuffle array using seeded random
+export const seededShuffle = <T>(array: T[], seed: string): T[] => {
+  const newArray = [...array];
+  const random = createSeededRandom(seed);
+  
+  for (let i = newArray.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+  }
+  return newArray;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { applySkillRound, expectedOutcome, pickBySkill, roundOutcome, SKILL_RATING } from './skillRating';
+
+describe('expectedOutcome', () => {
+  it('is even between equal ratings and favours the stronger side', () => {
+    expect(expectedOutcome(1500, 1500)).toBeCloseTo(0.5);
+    expect(expectedOutcome(1900, 1500)).toBeCloseTo(0.909, 3);
+    expect(expectedOutcome(1500, 1900)).toBeCloseTo(0.091, 3);
+  });
+});
+
+describe('roundOutcome', () => {
+  it('drops the time bonus and clamps to 0-1', () => {
+    expect(roundOutcome(5090, 90)).toBe(0.5);
+    expect(roundOutcome(10090, 0)).toBe(1);
+    expect(roundOutcome(40, 90)).toBe(0);
+  });
+});
+
+describe('applySkillRound', () => {
+  it('moves player and image in opposite directions', () => {
+    const win = applySkillRound({ rating: 1500, rounds: 50 }, 1500, 0.8);
+    expect(win.playerRating).toBeCloseTo(1500 + 32 * 0.3);
+    expect(win.imageRating).toBeCloseTo(1500 - 16 * 0.3);
+  });
+
+  it('moves provisional players faster', () => {
+    const early = applySkillRound({ rating: 1500, rounds: 0 }, 1500, 0.2);
+    const late = applySkillRound({ rating: 1500, rounds: 40 }, 1500, 0.2);
+    expect(1500 - early.playerRating).toBeCloseTo(2 * (1500 - late.playerRating));
+  });
+});
+
+describe('pickBySkill', () => {
+  const images = [
+    { id: 'hardest', rating: 1900 },
+    { id: 'near-a', rating: 1420 },
+    { id: 'easy', rating: 1150 },
+    { id: 'near-b', rating: 1350 },
+    { id: 'mid', rating: 1600 },
+  ];
+  const pick = (count: number, player: number) =>
+    pickBySkill(images, count, (img) => img.rating, player).map((img) => img.id);
+
+  it('serves images near the player first, in pool order', () => {
+    expect(pick(2, 1500)).toEqual(['near-a', 'near-b']);
+  });
+
+  it('keeps newcomers who struggle away from the hardest photos', () => {
+    expect(pick(4, 1250)).not.toContain('hardest');
+  });
+
+  it('still challenges strong players', () => {
+    expect(pick(1, 2000)).toEqual(['hardest']);
+    expect(pick(5, SKILL_RATING.INITIAL)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,67 @@
+// Elo-style skill ratings: each scored round is a match between the player
+// and the image. The ratings themselves are kept server-side by a trigger on
+// round_results (see the adaptive_skill_ratings migration); the constants
+// and update below mirror it so the client can reason about the same scale.
+
+export const SKILL_RATING = {
+  INITIAL: 1500,
+  /** Rating gap at which the stronger side is expected to score ~91%. */
+  SCALE: 400,
+  PLAYER_K: 32,
+  /** Faster movement while a player's rating is still provisional. */
+  PROVISIONAL_K: 64,
+  PROVISIONAL_ROUNDS: 20,
+  IMAGE_K: 16,
+  MAX_ROUND_SCORE: 10000,
+  /** Adaptive games aim this far below the player, for an expected ~64%. */
+  ADAPTIVE_EDGE: 100,
+  /** Images within this many points of the target count as a match. */
+  ADAPTIVE_WINDOW: 150,
+} as const;
+
+/** The share of a round the player is expected to win against the image. */
+export const expectedOutcome = (playerRating: number, imageRating: number): number =>
+  1 / (1 + 10 ** ((imageRating - playerRating) / SKILL_RATING.SCALE));
+
+/** A round's result on the 0-1 scale: its score without the time bonus. */
+export const roundOutcome = (displayScore: number, timeBonus = 0): number =>
+  Math.min(Math.max(displayScore - timeBonus, 0), SKILL_RATING.MAX_ROUND_SCORE) /
+  SKILL_RATING.MAX_ROUND_SCORE;
+
+/** Both ratings after one round, as the server applies them. */
+export const applySkillRound = (
+  player: { rating: number; rounds: number },
+  imageRating: number,
+  outcome: number
+): { playerRating: number; imageRating: number } => {
+  const delta = outcome - expectedOutcome(player.rating, imageRating);
+  const k = player.rounds < SKILL_RATING.PROVISIONAL_ROUNDS ? SKILL_RATING.PROVISIONAL_K : SKILL_RATING.PLAYER_K;
+  return {
+    playerRating: player.rating + k * delta,
+    imageRating: imageRating - SKILL_RATING.IMAGE_K * delta,
+  };
+};
+
+/**
+ * Takes `count` items for an adaptive game, keeping pool order: images
+ * rated within the window of the player's target come first, then the
+ * next band out, and so on, so a thin band is topped up with the closest
+ * images rather than playing short.
+ */
+export const pickBySkill = <T>(
+  items: T[],
+  count: number,
+  ratingOf: (item: T) => number,
+  playerRating: number
+): T[] => {
+  const target = playerRating - SKILL_RATING.ADAPTIVE_EDGE;
+  return items
+    .map((item, order) => ({
+      item,
+      order,
+      band: Math.floor(Math.abs(ratingOf(item) - target) / SKILL_RATING.ADAPTIVE_WINDOW),
+    }))
+    .sort((a, b) => a.band - b.band || a.order - b.order)
+    .slice(0, count)
+    .map(({ item }) => item);
+};
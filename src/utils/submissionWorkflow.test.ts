@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { SubmissionEvent } from '@/types/admin';
+import {
+  MAX_COMMENT_LENGTH,
+  canResubmit,
+  describeEvent,
+  isSubmissionClosed,
+  validateComment,
+} from './submissionWorkflow';
+
+const event = (overrides: Partial<SubmissionEvent>): SubmissionEvent => ({
+  id: 'e1',
+  kind: 'comment',
+  actor_role: 'admin',
+  actor_name: 'Meera',
+  from_status: null,
+  to_status: null,
+  assignee_name: null,
+  body: null,
+  internal: false,
+  created_at: '2026-07-04T10:00:00Z',
+  ...overrides,
+});
+
+describe('describeEvent', () => {
+  it('names reviewers to admins but not to submitters', () => {
+    const change = event({ kind: 'status', from_status: 'pending', to_status: 'reviewing' });
+    expect(describeEvent(change, 'admin')).toBe('Meera changed the status from Pending to In review');
+    expect(describeEvent(change, 'submitter')).toBe('A reviewer changed the status from Pending to In review');
+  });
+
+  it('reads needs-info requests and resubmissions as the round trip', () => {
+    expect(describeEvent(event({ kind: 'status', from_status: 'reviewing', to_status: 'needs_info' }), 'submitter')).toBe(
+      'A reviewer asked for more information'
+    );
+    const resubmit = event({
+      kind: 'status',
+      actor_role: 'submitter',
+      actor_name: 'Ravi',
+      from_status: 'needs_info',
+      to_status: 'pending',
+    });
+    expect(describeEvent(resubmit, 'submitter')).toBe('You resubmitted with changes');
+    expect(describeEvent(resubmit, 'admin')).toBe('Ravi resubmitted with changes');
+  });
+
+  it('describes assignments and internal notes', () => {
+    expect(describeEvent(event({ kind: 'assignment', assignee_name: 'Arjun' }), 'admin')).toBe(
+      'Meera assigned it to Arjun'
+    );
+    expect(describeEvent(event({ kind: 'assignment' }), 'admin')).toBe('Meera unassigned it');
+    expect(describeEvent(event({ internal: true }), 'admin')).toBe('Meera (internal note)');
+    expect(describeEvent(event({ actor_role: 'submitter', actor_name: null }), 'admin')).toBe('The submitter');
+  });
+});
+
+describe('validateComment', () => {
+  it('rejects blank and overlong messages', () => {
+    expect(validateComment('   ')).toBe('Write a message first');
+    expect(validateComment('x'.repeat(MAX_COMMENT_LENGTH + 1))).toMatch(/less than/);
+    expect(validateComment(' The photo is from 1962. ')).toBeNull();
+  });
+});
+
+describe('submission status rules', () => {
+  it('only reopens needs-info submissions and closes finished ones', () => {
+    expect(canResubmit('needs_info')).toBe(true);
+    expect(canResubmit('pending')).toBe(false);
+    expect(isSubmissionClosed('approved')).toBe(true);
+    expect(isSubmissionClosed('rejected')).toBe(true);
+    expect(isSubmissionClosed('reviewing')).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+// The review workflow for photo submissions: statuses, what each side may do
+// next, and how a thread entry reads to an admin or to the submitter. The
+// server enforces the same rules in the submission_review_workflow migration.
+
+import type { PhotoSubmissionStatus, SubmissionEvent } from '@/types/admin';
+
+export const SUBMISSION_STATUS_LABELS: Record<PhotoSubmissionStatus, string> = {
+  pending: 'Pending',
+  reviewing: 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  needs_info: 'Needs info',
+};
+
+// Same limit as photo_submission_events.body
+export const MAX_COMMENT_LENGTH = 2000;
+
+/** Approved and rejected submissions take no more replies. */
+export const isSubmissionClosed = (status: PhotoSubmissionStatus): boolean =>
+  status === 'approved' || status === 'rejected';
+
+/** Only a request for more information can be answered with a resubmission. */
+export const canResubmit = (status: PhotoSubmissionStatus): boolean => status === 'needs_info';
+
+/** Why a comment can't be sent, or null when it can. */
+export const validateComment = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (trimmed === '') return 'Write a message first';
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    return `Messages must be less than ${MAX_COMMENT_LENGTH} characters`;
+  }
+  return null;
+};
+
+export type ThreadViewer = 'admin' | 'submitter';
+
+const actorLabel = (event: SubmissionEvent, viewer: ThreadViewer): string => {
+  if (viewer === 'submitter') return event.actor_role === 'submitter' ? 'You' : 'A reviewer';
+  return event.actor_name ?? (event.actor_role === 'submitter' ? 'The submitter' : 'An admin');
+};
+
+const statusLabel = (status: PhotoSubmissionStatus | null) =>
+  status ? SUBMISSION_STATUS_LABELS[status] ?? status : 'Unknown';
+
+/** The one-line summary shown above an entry in the thread. */
+export const describeEvent = (event: SubmissionEvent, viewer: ThreadViewer): string => {
+  const actor = actorLabel(event, viewer);
+  switch (event.kind) {
+    case 'status':
+      if (event.actor_role === 'submitter') return `${actor} resubmitted with changes`;
+      if (event.to_status === 'needs_info') return `${actor} asked for more information`;
+      return `${actor} changed the status from ${statusLabel(event.from_status)} to ${statusLabel(event.to_status)}`;
+    case 'assignment':
+      return event.assignee_name ? `${actor} assigned it to ${event.assignee_name}` : `${actor} unassigned it`;
+    case 'comment':
+      return event.internal ? `${actor} (internal note)` : actor;
+  }
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { WORLD_OUTLINES } from '@/data/worldOutline';
+import {
+  buildOutlinePath,
+  clampView,
+  fitView,
+  fromScreen,
+  projectPoint,
+  toScreen,
+  unprojectPoint,
+  VECTOR_MIN_ZOOM,
+  wrapLng,
+} from './vectorMap';
+
+const SIZE = { width: 800, height: 600 };
+
+describe('projection', () => {
+  it('matches Web Mercator and round-trips', () => {
+    expect(projectPoint({ lat: 0, lng: 0 })).toEqual({ x: 128, y: 128 });
+    const mumbai = { lat: 19.076, lng: 72.8777 };
+    const back = unprojectPoint(projectPoint(mumbai));
+    expect(back.lat).toBeCloseTo(mumbai.lat, 6);
+    expect(back.lng).toBeCloseTo(mumbai.lng, 6);
+  });
+
+  it('wraps longitudes into [-180, 180)', () => {
+    expect(wrapLng(190)).toBe(-170);
+    expect(wrapLng(-540)).toBe(-180);
+    expect(wrapLng(72.5)).toBe(72.5);
+  });
+
+  it('turns screen pixels back into the point under them', () => {
+    const view = { center: { lat: 22, lng: 80 }, zoom: 4 };
+    const delhi = { lat: 28.61, lng: 77.21 };
+    const back = fromScreen(view, SIZE, toScreen(view, SIZE, delhi));
+    expect(back.lat).toBeCloseTo(delhi.lat, 6);
+    expect(back.lng).toBeCloseTo(delhi.lng, 6);
+  });
+
+  it('draws points on the copy of the world nearest the centre', () => {
+    const view = { center: { lat: 0, lng: 175 }, zoom: 2 };
+    expect(toScreen(view, SIZE, { lat: 0, lng: -175 }).x).toBeGreaterThan(SIZE.width / 2);
+  });
+});
+
+describe('fitView', () => {
+  it('fits a pair of points inside the padding', () => {
+    const points = [
+      { lat: 19.07, lng: 72.87 },
+      { lat: 22.57, lng: 88.36 },
+    ];
+    const view = fitView(points, SIZE, 50);
+    for (const point of points) {
+      const { x, y } = toScreen(view, SIZE, point);
+      expect(x).toBeGreaterThanOrEqual(49.9);
+      expect(x).toBeLessThanOrEqual(SIZE.width - 49.9);
+      expect(y).toBeGreaterThanOrEqual(49.9);
+      expect(y).toBeLessThanOrEqual(SIZE.height - 49.9);
+    }
+  });
+
+  it('fits across the antimeridian the short way', () => {
+    const view = fitView([{ lat: -17, lng: 178 }, { lat: -14, lng: -172 }], SIZE, 50);
+    expect(Math.abs(view.center.lng)).toBeGreaterThan(170);
+    expect(view.zoom).toBeGreaterThan(3);
+  });
+
+  it('caps the zoom for a single point', () => {
+    expect(fitView([{ lat: 28.61, lng: 77.21 }], SIZE).zoom).toBe(7);
+  });
+});
+
+describe('clampView', () => {
+  it('keeps the zoom in range and the view inside region limits', () => {
+    expect(clampView({ center: { lat: 0, lng: 0 }, zoom: -3 }, SIZE, null).zoom).toBe(VECTOR_MIN_ZOOM);
+    const limited = clampView(
+      { center: { lat: 40, lng: 100 }, zoom: 3 },
+      SIZE,
+      { bounds: { south: 8, west: 68, north: 36, east: 97 }, minZoom: 4 }
+    );
+    expect(limited.zoom).toBe(4);
+    expect(limited.center.lat).toBeCloseTo(36, 6);
+    expect(limited.center.lng).toBe(97);
+  });
+
+  it('stops the top edge of the world scrolling into view', () => {
+    const view = clampView({ center: { lat: 84, lng: 0 }, zoom: 2 }, SIZE, null);
+    expect(toScreen(view, SIZE, { lat: 85, lng: 0 }).y).toBeLessThanOrEqual(0.001);
+  });
+});
+
+describe('world outlines', () => {
+  it('are closed rings of valid coordinates', () => {
+    for (const outline of WORLD_OUTLINES) {
+      expect(outline.length).toBeGreaterThanOrEqual(3);
+      for (const [lng, lat] of outline) {
+        expect(Math.abs(lng)).toBeLessThanOrEqual(180);
+        expect(Math.abs(lat)).toBeLessThanOrEqual(90);
+      }
+      expect(buildOutlinePath(outline)).toMatch(/^M[\d.]+ [\d.]+(L[\d.]+ [\d.]+)+Z$/);
+    }
+  });
+});
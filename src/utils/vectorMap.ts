@@ -0,0 +1,598 @@
+// The offline fallback map: the bundled coastlines (src/data/worldOutline.ts)
+// drawn as SVG in the same Web Mercator projection Google uses, with
+// click-to-guess, drag, wheel and button zoom. Plain DOM, no network. The
+// projection maths is exported on its own so it can be tested in node.
+
+import { WORLD_OUTLINES, type OutlinePoint } from '@/data/worldOutline';
+import { getRegionMapBounds, getRegionOutline, type RegionBounds } from '@/utils/gameRegions';
+import type { GameRegion } from '@/types/game';
+import type {
+  GameMap,
+  GameMapOptions,
+  LatLng,
+  LineStyle,
+  MapLine,
+  MapMarker,
+  MapProvider,
+  MarkerStyle,
+  PolygonStyle,
+} from '@/utils/mapProvider';
+
+// World size in projected units at zoom 0, as in Google's tiles
+const TILE_SIZE = 256;
+const MAX_LAT = 85;
+export const VECTOR_MIN_ZOOM = 1;
+export const VECTOR_MAX_ZOOM = 12;
+// The coastlines are too coarse to be worth fitting a pair of pins closer than this
+const MAX_FIT_ZOOM = 7;
+const ANIMATION_MS = 350;
+// A press that moves further than this is a drag, not a click
+const DRAG_THRESHOLD_PX = 4;
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+export interface ViewSize {
+  width: number;
+  height: number;
+}
+
+export interface ViewLimits {
+  bounds: RegionBounds | null;
+  minZoom: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const wrapLng = (lng: number): number => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+export const projectPoint = ({ lat, lng }: LatLng): WorldPoint => {
+  const sin = Math.sin((clamp(lat, -MAX_LAT, MAX_LAT) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * TILE_SIZE,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * TILE_SIZE,
+  };
+};
+
+export const unprojectPoint = ({ x, y }: WorldPoint): LatLng => ({
+  lat: (Math.atan(Math.sinh(Math.PI - (2 * Math.PI * y) / TILE_SIZE)) * 180) / Math.PI,
+  lng: wrapLng((x / TILE_SIZE) * 360 - 180),
+});
+
+const WORLD_TOP = projectPoint({ lat: MAX_LAT, lng: 0 }).y;
+const WORLD_BOTTOM = projectPoint({ lat: -MAX_LAT, lng: 0 }).y;
+
+// Horizontal distance from one projected x to another, the short way round
+const wrappedDx = (from: number, to: number): number => {
+  const dx = to - from;
+  if (dx > TILE_SIZE / 2) return dx - TILE_SIZE;
+  if (dx < -TILE_SIZE / 2) return dx + TILE_SIZE;
+  return dx;
+};
+
+/** Pixel position of a point, on the copy of the world nearest the centre. */
+export const toScreen = (view: MapView, size: ViewSize, point: LatLng): WorldPoint => {
+  const scale = 2 ** view.zoom;
+  const center = projectPoint(view.center);
+  const p = projectPoint(point);
+  return {
+    x: size.width / 2 + wrappedDx(center.x, p.x) * scale,
+    y: size.height / 2 + (p.y - center.y) * scale,
+  };
+};
+
+export const fromScreen = (view: MapView, size: ViewSize, screen: WorldPoint): LatLng => {
+  const scale = 2 ** view.zoom;
+  const center = projectPoint(view.center);
+  return unprojectPoint({
+    x: center.x + (screen.x - size.width / 2) / scale,
+    y: clamp(center.y + (screen.y - size.height / 2) / scale, WORLD_TOP, WORLD_BOTTOM),
+  });
+};
+
+/**
+ * The view that shows every point with `padding` pixels to spare. Points are
+ * measured from the first one the short way round, so a pair either side of
+ * the antimeridian isn't fitted across the whole world.
+ */
+export const fitView = (
+  points: LatLng[],
+  size: ViewSize,
+  padding: number = 50,
+  maxZoom: number = MAX_FIT_ZOOM
+): MapView => {
+  if (points.length === 0) return { center: { lat: 20, lng: 0 }, zoom: VECTOR_MIN_ZOOM };
+
+  const projected = points.map(projectPoint);
+  const xs = projected.map(p => projected[0].x + wrappedDx(projected[0].x, p.x));
+  const ys = projected.map(p => p.y);
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)];
+  const [minY, maxY] = [Math.min(...ys), Math.max(...ys)];
+  const width = Math.max(1, size.width - 2 * padding);
+  const height = Math.max(1, size.height - 2 * padding);
+  const zoom = Math.min(
+    maxZoom,
+    maxX > minX ? Math.log2(width / (maxX - minX)) : maxZoom,
+    maxY > minY ? Math.log2(height / (maxY - minY)) : maxZoom
+  );
+
+  return {
+    center: unprojectPoint({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }),
+    zoom: clamp(zoom, VECTOR_MIN_ZOOM, VECTOR_MAX_ZOOM),
+  };
+};
+
+/**
+ * Keeps a view inside the zoom range and region limits, and stops the edge of
+ * the world scrolling into view at the top or bottom.
+ */
+export const clampView = (view: MapView, size: ViewSize, limits: ViewLimits | null): MapView => {
+  const zoom = clamp(view.zoom, limits?.minZoom ?? VECTOR_MIN_ZOOM, VECTOR_MAX_ZOOM);
+  let { lat, lng } = view.center;
+  if (limits?.bounds) {
+    lat = clamp(lat, limits.bounds.south, limits.bounds.north);
+    lng = clamp(lng, limits.bounds.west, limits.bounds.east);
+  }
+
+  const halfHeight = size.height / 2 / 2 ** zoom;
+  const y =
+    WORLD_BOTTOM - WORLD_TOP <= 2 * halfHeight
+      ? (WORLD_TOP + WORLD_BOTTOM) / 2
+      : clamp(projectPoint({ lat, lng }).y, WORLD_TOP + halfHeight, WORLD_BOTTOM - halfHeight);
+
+  return { center: { lat: unprojectPoint({ x: 0, y }).lat, lng: wrapLng(lng) }, zoom };
+};
+
+/** An SVG path for one outline, in projected units. */
+export const buildOutlinePath = (outline: readonly OutlinePoint[]): string =>
+  outline
+    .map(([lng, lat], i) => {
+      const p = projectPoint({ lat, lng });
+      return `${i === 0 ? 'M' : 'L'}${p.x.toFixed(2)} ${p.y.toFixed(2)}`;
+    })
+    .join('') + 'Z';
+
+// Meridians and parallels every 30 degrees
+const buildGraticulePath = (): string => {
+  const lines: string[] = [];
+  for (let lng = -180; lng < 180; lng += 30) {
+    const top = projectPoint({ lat: MAX_LAT, lng });
+    const bottom = projectPoint({ lat: -MAX_LAT, lng });
+    lines.push(`M${top.x} ${top.y}L${bottom.x} ${bottom.y}`);
+  }
+  for (let lat = -60; lat <= 60; lat += 30) {
+    const { y } = projectPoint({ lat, lng: 0 });
+    lines.push(`M0 ${y.toFixed(2)}L${TILE_SIZE} ${y.toFixed(2)}`);
+  }
+  return lines.join('');
+};
+
+const LAND_PATH = WORLD_OUTLINES.map(buildOutlinePath).join('');
+const GRATICULE_PATH = buildGraticulePath();
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+const svgElement = <K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string | number> = {}
+): SVGElementTagNameMap[K] => {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+  return element;
+};
+
+export const createVectorMap = (container: HTMLElement, options: GameMapOptions = {}): GameMap => {
+  if (getComputedStyle(container).position === 'static') {
+    container.style.position = 'relative';
+  }
+
+  const baseCursor = options.crosshair ? 'crosshair' : 'grab';
+  const root = document.createElement('div');
+  root.style.cssText =
+    'position:absolute;inset:0;overflow:hidden;background:#aadaff;touch-action:none;user-select:none';
+  root.style.cursor = baseCursor;
+
+  const svg = svgElement('svg', { width: '100%', height: '100%' });
+  svg.style.display = 'block';
+
+  // Five side-by-side copies of the world, so panning past the antimeridian
+  // never runs out of map at the lowest zoom
+  const world = svgElement('g');
+  const land = svgElement('path', {
+    d: LAND_PATH,
+    fill: '#f2efe9',
+    stroke: '#b9b3a5',
+    'stroke-width': 1,
+    'stroke-linejoin': 'round',
+    'vector-effect': 'non-scaling-stroke',
+  });
+  const graticule = svgElement('path', {
+    d: GRATICULE_PATH,
+    fill: 'none',
+    stroke: '#ffffff',
+    'stroke-opacity': 0.5,
+    'stroke-width': 1,
+    'vector-effect': 'non-scaling-stroke',
+  });
+  for (let copy = -2; copy <= 2; copy++) {
+    const tile = svgElement('g', { transform: `translate(${copy * TILE_SIZE} 0)` });
+    tile.append(graticule.cloneNode(), land.cloneNode());
+    world.append(tile);
+  }
+
+  const outlineLayer = svgElement('g');
+  const lineLayer = svgElement('g');
+  const markerLayer = svgElement('g');
+  svg.append(world, outlineLayer, lineLayer, markerLayer);
+  root.append(svg);
+
+  let size: ViewSize = { width: 1, height: 1 };
+  let limits: ViewLimits | null = null;
+  let activeRegion: GameRegion | null = null;
+  let view: MapView = { center: options.center ?? { lat: 20, lng: 0 }, zoom: options.zoom ?? 2 };
+  let frame = 0;
+  let animation = 0;
+  const overlays = new Set<() => void>();
+  const clickHandlers = new Set<(position: LatLng) => void>();
+  const moveHandlers = new Set<(position: LatLng | null) => void>();
+
+  const render = () => {
+    frame = 0;
+    const center = projectPoint(view.center);
+    world.setAttribute(
+      'transform',
+      `translate(${size.width / 2} ${size.height / 2}) scale(${2 ** view.zoom}) translate(${-center.x} ${-center.y})`
+    );
+    overlays.forEach(update => update());
+  };
+
+  const setView = (next: MapView, immediate = false) => {
+    view = clampView(next, size, limits);
+    if (immediate) {
+      cancelAnimationFrame(frame);
+      render();
+    } else if (!frame) {
+      frame = requestAnimationFrame(render);
+    }
+  };
+
+  const animateTo = (target: MapView) => {
+    cancelAnimationFrame(animation);
+    const from = projectPoint(view.center);
+    const to = projectPoint(target.center);
+    const dx = wrappedDx(from.x, to.x);
+    const startZoom = view.zoom;
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / ANIMATION_MS);
+      const eased = 1 - (1 - t) ** 3;
+      setView(
+        {
+          center: unprojectPoint({ x: from.x + dx * eased, y: from.y + (to.y - from.y) * eased }),
+          zoom: startZoom + (target.zoom - startZoom) * eased,
+        },
+        true
+      );
+      if (t < 1) animation = requestAnimationFrame(step);
+    };
+    animation = requestAnimationFrame(step);
+  };
+
+  // Zooms while keeping the point under `screen` where it is
+  const zoomAround = (screen: WorldPoint, nextZoom: number) => {
+    cancelAnimationFrame(animation);
+    const zoom = clamp(nextZoom, limits?.minZoom ?? VECTOR_MIN_ZOOM, VECTOR_MAX_ZOOM);
+    const center = projectPoint(view.center);
+    const dx = screen.x - size.width / 2;
+    const dy = screen.y - size.height / 2;
+    const anchor = { x: center.x + dx / 2 ** view.zoom, y: center.y + dy / 2 ** view.zoom };
+    setView({ center: unprojectPoint({ x: anchor.x - dx / 2 ** zoom, y: anchor.y - dy / 2 ** zoom }), zoom });
+  };
+
+  const applyRegion = (region: GameRegion) => {
+    const fitted = fitView(getRegionOutline(region), size, 0, VECTOR_MAX_ZOOM);
+    limits = { bounds: getRegionMapBounds(region), minZoom: fitted.zoom };
+    setView(fitted, true);
+  };
+
+  const measure = () => {
+    size = { width: root.clientWidth || 1, height: root.clientHeight || 1 };
+    if (activeRegion) {
+      applyRegion(activeRegion);
+    } else {
+      setView(view, true);
+    }
+  };
+
+  // Inserts an overlay element in zIndex order and keeps it positioned
+  const addOverlay = (layer: SVGGElement, element: SVGElement, zIndex: number, update: () => void) => {
+    element.setAttribute('data-z', String(zIndex));
+    const before = Array.from(layer.children).find(child => Number(child.getAttribute('data-z')) > zIndex);
+    layer.insertBefore(element, before ?? null);
+    overlays.add(update);
+    update();
+    return () => {
+      overlays.delete(update);
+      element.remove();
+    };
+  };
+
+  // Screen points for a path, each following on from the last the short way
+  // round the world
+  const screenPath = (path: LatLng[]): WorldPoint[] => {
+    const worldWidth = TILE_SIZE * 2 ** view.zoom;
+    let previousX: number | null = null;
+    return path.map(point => {
+      const p = toScreen(view, size, point);
+      if (previousX !== null) {
+        while (p.x - previousX > worldWidth / 2) p.x -= worldWidth;
+        while (previousX - p.x > worldWidth / 2) p.x += worldWidth;
+      }
+      previousX = p.x;
+      return p;
+    });
+  };
+
+  const pointerPosition = (event: MouseEvent): WorldPoint => {
+    const rect = svg.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  let drag: { pointerId: number; start: WorldPoint; last: WorldPoint; moved: boolean } | null = null;
+
+  svg.addEventListener('pointerdown', event => {
+    if (event.button !== 0) return;
+    cancelAnimationFrame(animation);
+    svg.setPointerCapture(event.pointerId);
+    const point = pointerPosition(event);
+    drag = { pointerId: event.pointerId, start: point, last: point, moved: false };
+  });
+
+  svg.addEventListener('pointermove', event => {
+    const point = pointerPosition(event);
+    if (drag && drag.pointerId === event.pointerId) {
+      if (!drag.moved && Math.hypot(point.x - drag.start.x, point.y - drag.start.y) > DRAG_THRESHOLD_PX) {
+        drag.moved = true;
+        root.style.cursor = 'grabbing';
+      }
+      if (drag.moved) {
+        const scale = 2 ** view.zoom;
+        const center = projectPoint(view.center);
+        setView({
+          center: unprojectPoint({
+            x: center.x - (point.x - drag.last.x) / scale,
+            y: center.y - (point.y - drag.last.y) / scale,
+          }),
+          zoom: view.zoom,
+        });
+      }
+      drag.last = point;
+    }
+    const position = fromScreen(view, size, point);
+    moveHandlers.forEach(handler => handler(position));
+  });
+
+  svg.addEventListener('pointerup', event => {
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const wasClick = !drag.moved;
+    drag = null;
+    root.style.cursor = baseCursor;
+    if (wasClick) {
+      const position = fromScreen(view, size, pointerPosition(event));
+      clickHandlers.forEach(handler => handler(position));
+    }
+  });
+
+  svg.addEventListener('pointercancel', () => {
+    drag = null;
+    root.style.cursor = baseCursor;
+  });
+
+  svg.addEventListener('pointerleave', () => {
+    if (!drag) moveHandlers.forEach(handler => handler(null));
+  });
+
+  svg.addEventListener(
+    'wheel',
+    event => {
+      event.preventDefault();
+      zoomAround(pointerPosition(event), view.zoom - event.deltaY * 0.002);
+    },
+    { passive: false }
+  );
+
+  // Zoom buttons where Google puts its own, and a note that this is the fallback
+  const controls = document.createElement('div');
+  controls.style.cssText =
+    'position:absolute;right:10px;top:50%;transform:translateY(-50%);display:flex;flex-direction:column;' +
+    'gap:1px;background:#e6e6e6;border-radius:2px;overflow:hidden;box-shadow:0 1px 4px rgba(0,0,0,.3)';
+  [
+    { label: '+', name: 'Zoom in', delta: 1 },
+    { label: '−', name: 'Zoom out', delta: -1 },
+  ].forEach(({ label, name, delta }) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.setAttribute('aria-label', name);
+    button.style.cssText =
+      'width:40px;height:40px;border:0;background:#fff;color:#666;font-size:22px;line-height:1;cursor:pointer';
+    button.addEventListener('click', () =>
+      animateTo({ center: view.center, zoom: Math.round(view.zoom) + delta })
+    );
+    controls.append(button);
+  });
+  const note = document.createElement('div');
+  note.textContent = 'Simplified offline map';
+  note.style.cssText =
+    'position:absolute;top:8px;right:8px;padding:2px 6px;border-radius:2px;background:rgba(255,255,255,.8);' +
+    'color:#555;font:11px sans-serif;pointer-events:none';
+  root.append(controls, note);
+
+  container.append(root);
+  const resizeObserver = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(measure);
+  resizeObserver?.observe(root);
+  measure();
+
+  return {
+    provider: 'vector',
+    googleMap: null,
+
+    createMarker(position: LatLng, style: MarkerStyle): MapMarker {
+      let current = position;
+      const marker = svgElement('g', { 'pointer-events': 'none' });
+      marker.append(
+        svgElement('circle', {
+          r: style.size ?? 12,
+          fill: style.color,
+          'fill-opacity': style.opacity ?? 1,
+          stroke: style.strokeColor ?? '#ffffff',
+          'stroke-width': style.strokeWeight ?? 3,
+        })
+      );
+      if (style.label) {
+        const text = svgElement('text', {
+          'text-anchor': 'middle',
+          'dominant-baseline': 'central',
+          fill: '#ffffff',
+          'font-size': 12,
+          'font-weight': 'bold',
+        });
+        text.textContent = style.label;
+        marker.append(text);
+      }
+      if (style.title) {
+        const title = svgElement('title');
+        title.textContent = style.title;
+        marker.append(title);
+      }
+
+      const update = () => {
+        const p = toScreen(view, size, current);
+        marker.setAttribute('transform', `translate(${p.x} ${p.y})`);
+      };
+      const remove = addOverlay(markerLayer, marker, style.zIndex ?? 0, update);
+      return {
+        setPosition(next: LatLng) {
+          current = next;
+          update();
+        },
+        remove,
+      };
+    },
+
+    createPolyline(path: LatLng[], style: LineStyle): MapLine {
+      const line = svgElement('polyline', {
+        fill: 'none',
+        stroke: style.color,
+        'stroke-opacity': style.opacity ?? 1,
+        'stroke-width': style.weight ?? 2,
+        'stroke-linecap': 'round',
+        'pointer-events': 'none',
+      });
+      if (style.animated) {
+        line.setAttribute('stroke-dasharray', '1 11');
+        line.append(
+          svgElement('animate', {
+            attributeName: 'stroke-dashoffset',
+            from: 0,
+            to: -24,
+            dur: '1s',
+            repeatCount: 'indefinite',
+          })
+        );
+      }
+
+      const update = () => {
+        line.setAttribute('points', screenPath(path).map(p => `${p.x},${p.y}`).join(' '));
+      };
+      return { remove: addOverlay(lineLayer, line, 0, update) };
+    },
+
+    createPolygon(path: LatLng[], style: PolygonStyle): MapLine {
+      const polygon = svgElement('polygon', {
+        fill: style.color,
+        'fill-opacity': style.fillOpacity ?? 0,
+        stroke: style.color,
+        'stroke-width': style.weight ?? 2,
+        'stroke-linejoin': 'round',
+        'pointer-events': 'none',
+      });
+      const update = () => {
+        polygon.setAttribute('points', screenPath(path).map(p => `${p.x},${p.y}`).join(' '));
+      };
+      return { remove: addOverlay(outlineLayer, polygon, 0, update) };
+    },
+
+    smoothFitBounds(points: LatLng[], padding: number = 50) {
+      animateTo(fitView(points, size, padding));
+    },
+
+    panTo(position: LatLng, zoom?: number) {
+      animateTo({ center: position, zoom: zoom ?? view.zoom });
+    },
+
+    onClick(handler) {
+      clickHandlers.add(handler);
+      return () => {
+        clickHandlers.delete(handler);
+      };
+    },
+
+    onPointerMove(handler) {
+      moveHandlers.add(handler);
+      return () => {
+        moveHandlers.delete(handler);
+      };
+    },
+
+    restrictToRegion(region: GameRegion) {
+      activeRegion = region;
+      applyRegion(region);
+      const outline = svgElement('path', {
+        fill: 'none',
+        stroke: '#b91c1c',
+        'stroke-opacity': 0.8,
+        'stroke-width': 2,
+        'pointer-events': 'none',
+      });
+      const update = () => {
+        const d = getRegionOutline(region)
+          .map((point, i) => {
+            const p = toScreen(view, size, point);
+            return `${i === 0 ? 'M' : 'L'}${p.x} ${p.y}`;
+          })
+          .join('');
+        outline.setAttribute('d', `${d}Z`);
+      };
+      const remove = addOverlay(outlineLayer, outline, 0, update);
+      return () => {
+        remove();
+        activeRegion = null;
+        limits = null;
+        setView(view);
+      };
+    },
+
+    destroy() {
+      cancelAnimationFrame(frame);
+      cancelAnimationFrame(animation);
+      resizeObserver?.disconnect();
+      overlays.clear();
+      clickHandlers.clear();
+      moveHandlers.clear();
+      root.remove();
+    },
+  };
+};
+
+export const vectorMapProvider: MapProvider = {
+  id: 'vector',
+  createMap: createVectorMap,
+};
@@ -0,0 +1,484 @@
+-- ============================================================================
+-- SCORING PROFILES: named year/distance curves shared by every mode.
+--
+-- Until now the curves were hard-coded twice — scoringSystem.ts and the
+-- duel_year_score / duel_location_score_from_km ports. Profiles are stored as
+-- band tables in scoring_profiles, a row-for-row copy of SCORING_PROFILES in
+-- src/utils/scoringProfiles.ts, and evaluated by one generic function, so a
+-- new profile is data, not another plpgsql port.
+--
+-- duels and game_sessions record the profile they were scored with;
+-- get_session_leaderboard filters on it so rankings never mix curves.
+--
+-- duel_year_score / duel_location_score_from_km are kept untouched (they are
+-- the classic profile and are pinned by duelScoringParity.test.ts).
+-- ============================================================================
+
+-- ---------------------------------------------------------------------------
+-- Profiles table (public read; written only by migrations)
+-- ---------------------------------------------------------------------------
+create table public.scoring_profiles (
+  id             text primary key check (id ~ '^[a-z][a-z0-9_]{1,31}$'),
+  name           text not null,
+  description    text not null default '',
+  distance_unit  text not null check (distance_unit in ('km', 'mi')),
+  year_curve     jsonb not null,
+  distance_curve jsonb not null,
+  created_at     timestamptz not null default now()
+);
+
+alter table public.scoring_profiles enable row level security;
+create policy "scoring_profiles_public_read" on public.scoring_profiles
+  for select to anon, authenticated using (true);
+revoke insert, update, delete on public.scoring_profiles from anon, authenticated;
+
+-- Band semantics (same as scoreFromCurve): the first band whose "upTo" admits
+-- the value wins (<= when inclusive, < otherwise; a band without "upTo" admits
+-- everything); score = round(base - (value - from) * slope), clamped to
+-- [floor, 100].
+insert into public.scoring_profiles (id, name, description, distance_unit, year_curve, distance_curve)
+values
+(
+  'classic', 'Classic',
+  'The original curves, tuned for city-to-country scale guesses.',
+  'mi',
+  '{"inclusive": true, "floor": 1, "bands": [
+     {"upTo": 2,  "base": 100, "from": 0,  "slope": 5},
+     {"upTo": 8,  "base": 90,  "from": 2,  "slope": 4},
+     {"upTo": 20, "base": 66,  "from": 8,  "slope": 2.5},
+     {"upTo": 40, "base": 36,  "from": 20, "slope": 1.2},
+     {"upTo": 80, "base": 12,  "from": 40, "slope": 0.15},
+     {"base": 6, "from": 80, "slope": 0.05}]}',
+  '{"inclusive": false, "floor": 1, "bands": [
+     {"upTo": 5,    "base": 100, "from": 0,   "slope": 0},
+     {"upTo": 25,   "base": 100, "from": 5,   "slope": 1.5},
+     {"upTo": 75,   "base": 70,  "from": 25,  "slope": 0.8},
+     {"upTo": 200,  "base": 30,  "from": 75,  "slope": 0.12},
+     {"upTo": 500,  "base": 15,  "from": 200, "slope": 0.03},
+     {"upTo": 1500, "base": 6,   "from": 500, "slope": 0.003},
+     {"base": 3, "from": 1500, "slope": 0.001}]}'
+),
+(
+  'regional', 'Regional',
+  'Tight kilometre bands for play inside one state or city.',
+  'km',
+  '{"inclusive": true, "floor": 1, "bands": [
+     {"upTo": 2,  "base": 100, "from": 0,  "slope": 5},
+     {"upTo": 8,  "base": 90,  "from": 2,  "slope": 4},
+     {"upTo": 20, "base": 66,  "from": 8,  "slope": 2.5},
+     {"upTo": 40, "base": 36,  "from": 20, "slope": 1.2},
+     {"upTo": 80, "base": 12,  "from": 40, "slope": 0.15},
+     {"base": 6, "from": 80, "slope": 0.05}]}',
+  '{"inclusive": false, "floor": 1, "bands": [
+     {"upTo": 1,   "base": 100, "from": 0,   "slope": 0},
+     {"upTo": 5,   "base": 100, "from": 1,   "slope": 3},
+     {"upTo": 20,  "base": 88,  "from": 5,   "slope": 2},
+     {"upTo": 50,  "base": 58,  "from": 20,  "slope": 0.8},
+     {"upTo": 150, "base": 34,  "from": 50,  "slope": 0.2},
+     {"upTo": 400, "base": 14,  "from": 150, "slope": 0.04},
+     {"base": 4, "from": 400, "slope": 0.005}]}'
+),
+(
+  'global', 'Global',
+  'Continent-scale bands for worldwide image pools.',
+  'km',
+  '{"inclusive": true, "floor": 1, "bands": [
+     {"upTo": 2,  "base": 100, "from": 0,  "slope": 5},
+     {"upTo": 8,  "base": 90,  "from": 2,  "slope": 4},
+     {"upTo": 20, "base": 66,  "from": 8,  "slope": 2.5},
+     {"upTo": 40, "base": 36,  "from": 20, "slope": 1.2},
+     {"upTo": 80, "base": 12,  "from": 40, "slope": 0.15},
+     {"base": 6, "from": 80, "slope": 0.05}]}',
+  '{"inclusive": false, "floor": 1, "bands": [
+     {"upTo": 100,   "base": 100, "from": 0,    "slope": 0},
+     {"upTo": 500,   "base": 100, "from": 100,  "slope": 0.05},
+     {"upTo": 1500,  "base": 80,  "from": 500,  "slope": 0.03},
+     {"upTo": 4000,  "base": 50,  "from": 1500, "slope": 0.012},
+     {"upTo": 10000, "base": 20,  "from": 4000, "slope": 0.0025},
+     {"base": 5, "from": 10000, "slope": 0.001}]}'
+);
+
+-- ---------------------------------------------------------------------------
+-- Evaluation. numeric arithmetic throughout for the same rounding reason as
+-- the duel ports (round(numeric) is half-away-from-zero like Math.round).
+-- ---------------------------------------------------------------------------
+create or replace function public._scoring_curve_score(p_curve jsonb, p_value numeric)
+returns int
+language plpgsql immutable set search_path = public, pg_temp as $$
+declare
+  v_inclusive boolean := coalesce((p_curve->>'inclusive')::boolean, false);
+  v_floor int := coalesce((p_curve->>'floor')::int, 0);
+  v_band jsonb;
+  v_limit numeric;
+begin
+  for v_band in
+    select b.value from jsonb_array_elements(p_curve->'bands') with ordinality as b(value, ord)
+    order by b.ord
+  loop
+    v_limit := (v_band->>'upTo')::numeric;
+    if v_limit is null
+       or (v_inclusive and p_value <= v_limit)
+       or (not v_inclusive and p_value < v_limit) then
+      return least(100, greatest(v_floor, round(
+        (v_band->>'base')::numeric
+        - (p_value - (v_band->>'from')::numeric) * (v_band->>'slope')::numeric
+      )::int));
+    end if;
+  end loop;
+  return v_floor;
+end $$;
+
+-- Unknown profile ids fall back to classic, matching getScoringProfile().
+create or replace function public._scoring_profile(p_profile text)
+returns public.scoring_profiles
+language sql stable set search_path = public, pg_temp as $$
+  select * from public.scoring_profiles
+  where id = coalesce((select id from public.scoring_profiles where id = p_profile), 'classic');
+$$;
+
+create or replace function public.scoring_year_score(p_profile text, p_actual int, p_guessed int)
+returns int
+language sql stable set search_path = public, pg_temp as $$
+  select public._scoring_curve_score(
+    (public._scoring_profile(p_profile)).year_curve,
+    abs(p_actual - p_guessed)::numeric
+  );
+$$;
+
+create or replace function public.scoring_location_score_from_km(p_profile text, p_km float8)
+returns int
+language plpgsql stable set search_path = public, pg_temp as $$
+declare
+  v_profile public.scoring_profiles%rowtype := public._scoring_profile(p_profile);
+begin
+  return public._scoring_curve_score(
+    v_profile.distance_curve,
+    case when v_profile.distance_unit = 'mi'
+         then (p_km * 0.621371)::numeric
+         else p_km::numeric end
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Where the profile is recorded
+-- ---------------------------------------------------------------------------
+alter table public.duels
+  add column scoring_profile text not null default 'classic'
+  references public.scoring_profiles(id);
+
+alter table public.game_sessions
+  add column scoring_profile text not null default 'classic'
+  references public.scoring_profiles(id);
+
+create index if not exists idx_game_sessions_scoring_profile
+  on public.game_sessions (scoring_profile, completed_at);
+
+-- ---------------------------------------------------------------------------
+-- duel_create: accepts settings.scoring_profile (default classic).
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_create(p_display_name text, p_settings jsonb default '{}'::jsonb)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_name text := left(btrim(coalesce(p_display_name, '')), 20);
+  v_hp int := coalesce(nullif(p_settings->>'starting_hp', '')::int, 12000);
+  v_window int := coalesce(nullif(p_settings->>'guess_window_seconds', '')::int, 15);
+  v_round_secs int := coalesce(nullif(p_settings->>'round_seconds', '')::int, 120);
+  v_profile text := coalesce(nullif(p_settings->>'scoring_profile', ''), 'classic');
+  v_alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code text;
+  v_duel_id uuid;
+  v_player_id uuid;
+  v_token uuid;
+  v_try int := 0;
+  i int;
+begin
+  if length(v_name) < 1 then
+    raise exception 'Display name is required' using errcode = '22023';
+  end if;
+  if v_hp not between 1000 and 50000 then
+    raise exception 'starting_hp must be between 1000 and 50000' using errcode = '22023';
+  end if;
+  if v_window not between 5 and 60 then
+    raise exception 'guess_window_seconds must be between 5 and 60' using errcode = '22023';
+  end if;
+  if v_round_secs not between 30 and 600 then
+    raise exception 'round_seconds must be between 30 and 600' using errcode = '22023';
+  end if;
+  if not exists (select 1 from public.scoring_profiles where id = v_profile) then
+    raise exception 'Unknown scoring profile: %', v_profile using errcode = '22023';
+  end if;
+
+  -- Opportunistic cleanup of abandoned duels.
+  delete from public.duels
+  where status in ('waiting', 'cancelled') and created_at < now() - interval '24 hours';
+  update public.duels
+  set status = 'finished', finish_reason = 'abandoned', finished_at = now(), updated_at = now()
+  where status = 'active' and created_at < now() - interval '12 hours';
+
+  loop
+    v_try := v_try + 1;
+    v_code := '';
+    for i in 1..6 loop
+      v_code := v_code || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1);
+    end loop;
+    begin
+      insert into public.duels (code, starting_hp, guess_window_seconds, round_seconds, scoring_profile)
+      values (v_code, v_hp, v_window, v_round_secs, v_profile)
+      returning id into v_duel_id;
+      exit;
+    exception when unique_violation then
+      if v_try >= 5 then raise; end if;
+    end;
+  end loop;
+
+  insert into public.duel_players (duel_id, user_id, display_name, is_host, hp)
+  values (v_duel_id, auth.uid(), v_name, true, v_hp)
+  returning id into v_player_id;
+
+  insert into public.duel_player_secrets (player_id)
+  values (v_player_id)
+  returning token into v_token;
+
+  return jsonb_build_object(
+    'duel_id', v_duel_id, 'code', v_code,
+    'player_id', v_player_id, 'token', v_token,
+    'server_time', now()
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_submit_guess: scores with the duel's profile. Otherwise identical to
+-- the 20260611010610 version.
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_submit_guess(
+  p_token uuid, p_round_number int, p_year int, p_lat float8, p_lng float8
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_player public.duel_players%rowtype;
+  v_duel public.duels%rowtype;
+  v_round public.duel_rounds%rowtype;
+  v_deadline timestamptz;
+  v_img record;
+  v_year_raw int;
+  v_loc_raw int;
+  v_dist float8;
+  v_guess_count int;
+begin
+  v_player := public._duel_player_by_token(p_token);
+
+  select * into v_duel from public.duels where id = v_player.duel_id;
+  if v_duel.status <> 'active' then
+    raise exception 'Duel is not active' using errcode = '55000';
+  end if;
+  if p_round_number is distinct from v_duel.current_round then
+    raise exception 'Round % is not the current round', p_round_number using errcode = '55000';
+  end if;
+
+  select * into v_round from public.duel_rounds
+  where duel_id = v_duel.id and round_number = p_round_number for update;
+  if v_round.resolved_at is not null then
+    return jsonb_build_object('submitted', false, 'timed_out', true, 'server_time', now());
+  end if;
+
+  v_deadline := public._duel_effective_deadline(v_round);
+  if now() > v_deadline + interval '1 second' then
+    -- Too late: resolve the round (this player becomes a timeout) and say so.
+    perform public._duel_resolve_round(v_round.id);
+    return jsonb_build_object('submitted', false, 'timed_out', true, 'server_time', now());
+  end if;
+
+  if p_year is null or p_year not between 1800 and 2100 then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if p_lat is null or p_lat not between -90 and 90
+     or p_lng is null or p_lng not between -180 and 180 then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from public.duel_guesses
+    where round_id = v_round.id and player_id = v_player.id
+  ) then
+    raise exception 'You already guessed this round' using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng into v_img
+  from public.game_images where id = v_round.image_id;
+
+  v_year_raw := public.scoring_year_score(v_duel.scoring_profile, v_img.year, p_year);
+  v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  v_loc_raw := public.scoring_location_score_from_km(v_duel.scoring_profile, v_dist);
+
+  insert into public.duel_guesses
+    (round_id, duel_id, player_id, guessed_year, guessed_lat, guessed_lng,
+     year_score, location_score, total_score, distance_km)
+  values
+    (v_round.id, v_duel.id, v_player.id, p_year, p_lat, p_lng,
+     v_year_raw * 50, v_loc_raw * 50, (v_year_raw + v_loc_raw) * 50, v_dist);
+
+  select count(*) into v_guess_count
+  from public.duel_guesses where round_id = v_round.id;
+
+  if v_guess_count = 1 then
+    update public.duel_rounds
+    set guess_deadline = least(base_deadline, now() + make_interval(secs => v_duel.guess_window_seconds))
+    where id = v_round.id and guess_deadline is null;
+  elsif v_guess_count >= 2 then
+    perform public._duel_resolve_round(v_round.id);
+  end if;
+
+  return jsonb_build_object(
+    'submitted', true,
+    'both_guessed', v_guess_count >= 2,
+    'server_time', now()
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_get_state: adds duel.scoring_profile to the snapshot.
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_get_state(p_code text, p_token uuid default null)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v_duel public.duels%rowtype;
+  v_me uuid;
+  v_players jsonb;
+  v_round public.duel_rounds%rowtype;
+  v_round_json jsonb;
+  v_my_guess jsonb;
+  v_guessed jsonb;
+begin
+  select * into v_duel from public.duels where code = upper(btrim(coalesce(p_code, '')));
+  if not found then
+    raise exception 'Duel not found' using errcode = 'P0002';
+  end if;
+
+  if p_token is not null then
+    select p.id into v_me
+    from public.duel_players p
+    join public.duel_player_secrets s on s.player_id = p.id
+    where s.token = p_token and p.duel_id = v_duel.id;
+  end if;
+
+  select jsonb_agg(jsonb_build_object(
+    'id', id, 'display_name', display_name, 'is_host', is_host,
+    'hp', hp, 'joined_at', joined_at
+  ) order by joined_at) into v_players
+  from public.duel_players where duel_id = v_duel.id;
+
+  if v_duel.current_round >= 1 then
+    select * into v_round from public.duel_rounds
+    where duel_id = v_duel.id and round_number = v_duel.current_round;
+    if found then
+      select coalesce(jsonb_agg(g.player_id), '[]'::jsonb) into v_guessed
+      from public.duel_guesses g where g.round_id = v_round.id;
+      if v_me is not null then
+        select to_jsonb(g.*) into v_my_guess
+        from public.duel_guesses g
+        where g.round_id = v_round.id and g.player_id = v_me;
+      end if;
+      v_round_json := jsonb_build_object(
+        'id', v_round.id,
+        'round_number', v_round.round_number,
+        'image_id', v_round.image_id,
+        'multiplier', v_round.multiplier,
+        'started_at', v_round.started_at,
+        'base_deadline', v_round.base_deadline,
+        'guess_deadline', v_round.guess_deadline,
+        'resolved_at', v_round.resolved_at,
+        'next_round_at', v_round.next_round_at,
+        'winner_player_id', v_round.winner_player_id,
+        'score_diff', v_round.score_diff,
+        'damage', v_round.damage,
+        'guessed_player_ids', v_guessed
+      );
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'duel', jsonb_build_object(
+      'id', v_duel.id, 'code', v_duel.code, 'status', v_duel.status,
+      'current_round', v_duel.current_round, 'starting_hp', v_duel.starting_hp,
+      'guess_window_seconds', v_duel.guess_window_seconds,
+      'round_seconds', v_duel.round_seconds, 'results_seconds', v_duel.results_seconds,
+      'scoring_profile', v_duel.scoring_profile,
+      'winner_player_id', v_duel.winner_player_id, 'finish_reason', v_duel.finish_reason,
+      'created_at', v_duel.created_at, 'started_at', v_duel.started_at,
+      'finished_at', v_duel.finished_at
+    ),
+    'players', coalesce(v_players, '[]'::jsonb),
+    'me', v_me,
+    'round', v_round_json,
+    'my_guess', v_my_guess,
+    'server_time', now()
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- get_session_leaderboard: new scoring_profile_filter ('all' or a profile id,
+-- default classic). Dropped first — adding a parameter would otherwise leave
+-- an ambiguous overload behind.
+-- ---------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.get_session_leaderboard(timestamptz, timestamptz, text, int);
+
+CREATE OR REPLACE FUNCTION public.get_session_leaderboard(
+  start_ts timestamptz DEFAULT NULL,
+  end_ts timestamptz DEFAULT NULL,
+  game_mode_filter text DEFAULT 'all',
+  limit_count int DEFAULT 100,
+  scoring_profile_filter text DEFAULT 'classic'
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  center text,
+  total_games_played bigint,
+  total_score bigint,
+  best_single_game_score int,
+  average_score numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    up.id,
+    up.user_id,
+    up.username,
+    up.display_name,
+    up.avatar_url,
+    up.center,
+    count(gs.id)::bigint AS total_games_played,
+    coalesce(sum(gs.total_score), 0)::bigint AS total_score,
+    coalesce(max(gs.total_score), 0)::int AS best_single_game_score,
+    coalesce(round(avg(gs.total_score), 2), 0)::numeric AS average_score
+  FROM game_sessions gs
+  JOIN user_profiles up ON up.user_id = gs.user_id
+  WHERE gs.completed_at IS NOT NULL
+    AND (start_ts IS NULL OR gs.completed_at >= start_ts)
+    AND (end_ts IS NULL OR gs.completed_at < end_ts)
+    AND (game_mode_filter = 'all' OR gs.game_mode = game_mode_filter)
+    AND (scoring_profile_filter = 'all' OR gs.scoring_profile = scoring_profile_filter)
+  GROUP BY up.id, up.user_id, up.username, up.display_name, up.avatar_url, up.center
+  ORDER BY total_score DESC
+  LIMIT limit_count;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+-- The scoring functions are pure reads of public data, so (like the duel_*
+-- ports) they stay callable; the helpers must be too, since the sql-language
+-- wrappers run them with the caller's rights.
+grant execute on function public._scoring_curve_score(jsonb, numeric) to anon, authenticated;
+grant execute on function public._scoring_profile(text) to anon, authenticated;
+grant execute on function public.scoring_year_score(text, int, int) to anon, authenticated;
+grant execute on function public.scoring_location_score_from_km(text, float8) to anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_session_leaderboard(timestamptz, timestamptz, text, int, text) TO anon, authenticated;
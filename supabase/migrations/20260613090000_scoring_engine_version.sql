@@ -0,0 +1,54 @@
+-- ============================================================================
+-- SCORING ENGINE: one server-side function that scores a whole round the way
+-- scoreRound() in src/utils/scoringSystem.ts does, plus the engine version.
+--
+-- scoring_score_round is the SQL half of the golden-vector contract in
+-- src/utils/scoringVectors.ts; scoringEngineParity.test.ts runs those vectors
+-- through it when given a database. Display scaling (raw × 50) and the
+-- per-round time bonus (floor(seconds left × 1.5)) live here instead of being
+-- repeated in each RPC that awards points.
+-- ============================================================================
+
+-- Must equal SCORING_ENGINE_VERSION in scoringSystem.ts.
+create or replace function public.scoring_engine_version()
+returns int
+language sql immutable set search_path = public, pg_temp as $$
+  select 1;
+$$;
+
+-- p_distance_km null = no location guess (location scores 0).
+-- p_per_round_timer: only a per-round timer earns a time bonus.
+create or replace function public.scoring_score_round(
+  p_profile text,
+  p_actual_year int,
+  p_guessed_year int,
+  p_distance_km float8,
+  p_time_remaining numeric default 0,
+  p_per_round_timer boolean default false
+)
+returns jsonb
+language plpgsql stable set search_path = public, pg_temp as $$
+declare
+  v_profile text := (public._scoring_profile(p_profile)).id;
+  v_year int := public.scoring_year_score(v_profile, p_actual_year, p_guessed_year);
+  v_loc int := case when p_distance_km is null then 0
+                    else public.scoring_location_score_from_km(v_profile, p_distance_km) end;
+  v_bonus int := case when p_per_round_timer
+                      then greatest(0, floor(coalesce(p_time_remaining, 0) * 1.5))::int
+                      else 0 end;
+begin
+  return jsonb_build_object(
+    'engine_version', public.scoring_engine_version(),
+    'profile', v_profile,
+    'year_score', v_year,
+    'location_score', v_loc,
+    'total_score', round(v_year * 0.4 + v_loc * 0.6)::int,
+    'time_bonus', v_bonus,
+    'display_year_score', v_year * 50,
+    'display_location_score', v_loc * 50,
+    'display_total_score', (v_year + v_loc) * 50 + v_bonus
+  );
+end $$;
+
+grant execute on function public.scoring_engine_version() to anon, authenticated;
+grant execute on function public.scoring_score_round(text, int, int, float8, numeric, boolean) to anon, authenticated;
@@ -0,0 +1,280 @@
+-- ============================================================================
+-- SERVER-AUTHORITATIVE SINGLE-PLAYER SCORING
+--
+-- round_results used to be inserted straight from the browser with the scores
+-- the client computed, and completion wrote total_score + called
+-- update_user_stats with whatever number it liked. Now:
+--
+--   submit_round_guess     takes the guess + image id, looks up the answer,
+--                          scores it with scoring_score_round (the same engine
+--                          as the client and the duel RPCs) and writes the row.
+--                          One row per round number and per image per session.
+--   complete_game_session  totals the server-scored rounds, stamps verified_at
+--                          and updates user stats itself.
+--
+-- Clients lose insert/update on round_results, update on game_sessions and
+-- execute on update_user_stats. get_session_leaderboard only counts sessions
+-- with verified_at set, so legacy client-scored sessions drop off the boards.
+--
+-- The per-round time bonus is still based on the seconds left that the client
+-- reports (there is no server-side round clock yet); it is clamped to the 60 s
+-- per-round timer, so it can never be worth more than 90 points a round.
+-- ============================================================================
+
+-- ---------------------------------------------------------------------------
+-- Columns
+-- ---------------------------------------------------------------------------
+alter table public.game_sessions
+  add column if not exists timer_type text
+    check (timer_type is null or timer_type in ('per-round', 'total-game')),
+  add column if not exists verified_at timestamptz;
+
+alter table public.round_results
+  add column if not exists time_bonus int not null default 0,
+  add column if not exists display_score int,
+  add column if not exists distance_km float8,
+  add column if not exists scoring_engine_version int;
+
+-- Only server-scored rows (display_score set) are held to uniqueness; legacy
+-- client rows may already contain duplicates.
+create unique index if not exists uq_round_results_session_round
+  on public.round_results (session_id, round_number) where display_score is not null;
+create unique index if not exists uq_round_results_session_image
+  on public.round_results (session_id, image_id) where display_score is not null;
+
+create index if not exists idx_game_sessions_verified
+  on public.game_sessions (completed_at) where verified_at is not null;
+
+-- A new session always starts empty; only the RPCs below move it forward.
+create or replace function public._game_sessions_reset_on_insert()
+returns trigger
+language plpgsql set search_path = public, pg_temp as $$
+begin
+  new.total_score := 0;
+  new.rounds_completed := 0;
+  new.completed_at := null;
+  new.verified_at := null;
+  if new.game_mode is distinct from 'timed' then
+    new.timer_type := null;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists game_sessions_reset_on_insert on public.game_sessions;
+create trigger game_sessions_reset_on_insert
+  before insert on public.game_sessions
+  for each row execute function public._game_sessions_reset_on_insert();
+
+-- ---------------------------------------------------------------------------
+-- submit_round_guess
+-- ---------------------------------------------------------------------------
+create or replace function public.submit_round_guess(
+  p_session_id uuid,
+  p_image_id uuid,
+  p_round_number int,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_time_remaining numeric default 0,
+  p_time_used int default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_img record;
+  v_dist float8;
+  v_score jsonb;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if p_year is null or p_year not between 1800 and 2100 then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if p_lat is null or p_lat not between -90 and 90
+     or p_lng is null or p_lng not between -180 and 180 then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from public.round_results
+    where session_id = p_session_id and display_score is not null
+      and (round_number = p_round_number or image_id = p_image_id)
+  ) then
+    raise exception 'Round % was already submitted', p_round_number using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng into v_img
+  from public.game_images where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  v_score := public.scoring_score_round(
+    v_session.scoring_profile,
+    v_img.year,
+    p_year,
+    v_dist,
+    least(greatest(coalesce(p_time_remaining, 0), 0), 60),
+    v_session.timer_type = 'per-round'
+  );
+
+  insert into public.round_results
+    (session_id, user_id, image_id, round_number,
+     year_guess, actual_year,
+     location_guess_lat, location_guess_lng, actual_location_lat, actual_location_lng,
+     year_score, location_score, total_round_score,
+     time_used, time_bonus, display_score, distance_km, scoring_engine_version)
+  values
+    (p_session_id, v_uid, p_image_id, p_round_number,
+     p_year, v_img.year,
+     p_lat, p_lng, v_img.location_lat, v_img.location_lng,
+     (v_score->>'year_score')::int, (v_score->>'location_score')::int, (v_score->>'total_score')::int,
+     p_time_used, (v_score->>'time_bonus')::int, (v_score->>'display_total_score')::int,
+     v_dist, (v_score->>'engine_version')::int);
+
+  -- Running totals keep an unfinished session resumable from the right round.
+  update public.game_sessions gs
+  set rounds_completed = t.rounds, total_score = t.total
+  from (
+    select count(*)::int as rounds, coalesce(sum(display_score), 0)::int as total
+    from public.round_results
+    where session_id = p_session_id and display_score is not null
+  ) t
+  where gs.id = p_session_id;
+
+  return v_score || jsonb_build_object('round_number', p_round_number, 'distance_km', v_dist);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- complete_game_session
+-- ---------------------------------------------------------------------------
+create or replace function public.complete_game_session(
+  p_session_id uuid,
+  p_time_taken int default null
+)
+returns public.game_sessions
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_rounds int;
+  v_total int;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save games' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  -- Idempotent: a retried completion must not count the game twice.
+  if v_session.completed_at is not null then
+    return v_session;
+  end if;
+
+  select count(*)::int, coalesce(sum(display_score), 0)::int
+  into v_rounds, v_total
+  from public.round_results
+  where session_id = p_session_id and display_score is not null;
+
+  if v_rounds = 0 then
+    raise exception 'No scored rounds in this game' using errcode = '55000';
+  end if;
+
+  update public.game_sessions
+  set total_score = v_total,
+      rounds_completed = v_rounds,
+      time_taken = p_time_taken,
+      completed_at = now(),
+      verified_at = now()
+  where id = p_session_id
+  returning * into v_session;
+
+  perform public.update_user_stats(v_uid, v_total, v_rounds);
+
+  return v_session;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- get_session_leaderboard: verified sessions only (same signature as the
+-- scoring-profiles version, so replace in place).
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_session_leaderboard(
+  start_ts timestamptz DEFAULT NULL,
+  end_ts timestamptz DEFAULT NULL,
+  game_mode_filter text DEFAULT 'all',
+  limit_count int DEFAULT 100,
+  scoring_profile_filter text DEFAULT 'classic'
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  center text,
+  total_games_played bigint,
+  total_score bigint,
+  best_single_game_score int,
+  average_score numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    up.id,
+    up.user_id,
+    up.username,
+    up.display_name,
+    up.avatar_url,
+    up.center,
+    count(gs.id)::bigint AS total_games_played,
+    coalesce(sum(gs.total_score), 0)::bigint AS total_score,
+    coalesce(max(gs.total_score), 0)::int AS best_single_game_score,
+    coalesce(round(avg(gs.total_score), 2), 0)::numeric AS average_score
+  FROM game_sessions gs
+  JOIN user_profiles up ON up.user_id = gs.user_id
+  WHERE gs.completed_at IS NOT NULL
+    AND gs.verified_at IS NOT NULL
+    AND (start_ts IS NULL OR gs.completed_at >= start_ts)
+    AND (end_ts IS NULL OR gs.completed_at < end_ts)
+    AND (game_mode_filter = 'all' OR gs.game_mode = game_mode_filter)
+    AND (scoring_profile_filter = 'all' OR gs.scoring_profile = scoring_profile_filter)
+  GROUP BY up.id, up.user_id, up.username, up.display_name, up.avatar_url, up.center
+  ORDER BY total_score DESC
+  LIMIT limit_count;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+revoke insert, update on public.round_results from anon, authenticated;
+revoke update on public.game_sessions from anon, authenticated;
+
+-- Only complete_game_session (definer) may move user stats now.
+revoke execute on function public.update_user_stats(uuid, integer, integer) from authenticated;
+
+revoke execute on function public._game_sessions_reset_on_insert() from public, anon, authenticated;
+revoke execute on function public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int) from public, anon;
+grant execute on function public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int) to authenticated;
+revoke execute on function public.complete_game_session(uuid, int) from public, anon;
+grant execute on function public.complete_game_session(uuid, int) to authenticated;
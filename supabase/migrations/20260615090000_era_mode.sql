@@ -0,0 +1,267 @@
+-- ============================================================================
+-- ERA MODE: guess the decade or named era instead of the exact year.
+--
+-- The client sends a bucket pick as the bucket's middle year, so
+-- submit_round_guess keeps its signature; the session's era_bucket_set tells
+-- the engine to score the year by bucket distance (100 / 50 / 20 for 0 / 1 / 2
+-- buckets away, 0 beyond). era_buckets is a row-for-row copy of
+-- ERA_BUCKET_SETS in src/utils/eraBuckets.ts.
+--
+-- Engine version 2: scoring_score_round gains p_era_bucket_set. Non-era rounds
+-- score exactly as in version 1.
+-- ============================================================================
+
+-- ---------------------------------------------------------------------------
+-- Bucket tables (public read; written only by migrations)
+-- ---------------------------------------------------------------------------
+create table public.era_bucket_sets (
+  id   text primary key,
+  name text not null
+);
+
+create table public.era_buckets (
+  set_id     text not null references public.era_bucket_sets (id) on delete cascade,
+  id         text not null,
+  label      text not null,
+  start_year int not null,
+  end_year   int not null check (end_year >= start_year),
+  ord        int not null,
+  primary key (set_id, id),
+  unique (set_id, ord)
+);
+
+alter table public.era_bucket_sets enable row level security;
+alter table public.era_buckets enable row level security;
+create policy "era_bucket_sets_public_read" on public.era_bucket_sets
+  for select to anon, authenticated using (true);
+create policy "era_buckets_public_read" on public.era_buckets
+  for select to anon, authenticated using (true);
+revoke insert, update, delete on public.era_bucket_sets from anon, authenticated;
+revoke insert, update, delete on public.era_buckets from anon, authenticated;
+
+insert into public.era_bucket_sets (id, name) values
+  ('decades', 'Decades'),
+  ('eras', 'Named eras');
+
+insert into public.era_buckets (set_id, id, label, start_year, end_year, ord) values
+  ('decades', '1900s', '1900s', 1900, 1909, 1),
+  ('decades', '1910s', '1910s', 1910, 1919, 2),
+  ('decades', '1920s', '1920s', 1920, 1929, 3),
+  ('decades', '1930s', '1930s', 1930, 1939, 4),
+  ('decades', '1940s', '1940s', 1940, 1949, 5),
+  ('decades', '1950s', '1950s', 1950, 1959, 6),
+  ('decades', '1960s', '1960s', 1960, 1969, 7),
+  ('decades', '1970s', '1970s', 1970, 1979, 8),
+  ('decades', '1980s', '1980s', 1980, 1989, 9),
+  ('decades', '1990s', '1990s', 1990, 1999, 10),
+  ('decades', '2000s', '2000s', 2000, 2009, 11),
+  ('decades', '2010s', '2010s', 2010, 2019, 12),
+  ('decades', '2020s', '2020s', 2020, 2025, 13),
+  ('eras', 'pre_independence', 'Pre-Independence', 1900, 1946, 1),
+  ('eras', 'early_republic', 'Early Republic', 1947, 1966, 2),
+  ('eras', 'green_revolution', 'Green Revolution', 1967, 1979, 3),
+  ('eras', 'eighties', '1980s', 1980, 1990, 4),
+  ('eras', 'liberalisation', 'Liberalisation', 1991, 2004, 5),
+  ('eras', 'digital_age', 'Digital Age', 2005, 2025, 6);
+
+-- ---------------------------------------------------------------------------
+-- Scoring
+-- ---------------------------------------------------------------------------
+-- Position of the bucket holding p_year; years outside the set clamp to its
+-- first/last bucket, like findEraBucketIndex.
+create or replace function public._era_bucket_ord(p_set text, p_year int)
+returns int
+language sql stable set search_path = public, pg_temp as $$
+  select coalesce(
+    (select min(ord) from public.era_buckets where set_id = p_set and p_year <= end_year),
+    (select max(ord) from public.era_buckets where set_id = p_set)
+  );
+$$;
+
+-- Mirrors ERA_STEP_SCORES.
+create or replace function public.scoring_era_year_score(p_set text, p_actual int, p_guessed int)
+returns int
+language sql stable set search_path = public, pg_temp as $$
+  select case abs(public._era_bucket_ord(p_set, p_actual) - public._era_bucket_ord(p_set, p_guessed))
+    when 0 then 100
+    when 1 then 50
+    when 2 then 20
+    else 0
+  end;
+$$;
+
+create or replace function public.scoring_engine_version()
+returns int
+language sql immutable set search_path = public, pg_temp as $$
+  select 2;
+$$;
+
+-- New trailing parameter, so drop the old signature instead of leaving an
+-- overload behind.
+drop function if exists public.scoring_score_round(text, int, int, float8, numeric, boolean);
+
+create or replace function public.scoring_score_round(
+  p_profile text,
+  p_actual_year int,
+  p_guessed_year int,
+  p_distance_km float8,
+  p_time_remaining numeric default 0,
+  p_per_round_timer boolean default false,
+  p_era_bucket_set text default null
+)
+returns jsonb
+language plpgsql stable set search_path = public, pg_temp as $$
+declare
+  v_profile text := (public._scoring_profile(p_profile)).id;
+  v_year int := case when p_era_bucket_set is null
+                     then public.scoring_year_score(v_profile, p_actual_year, p_guessed_year)
+                     else public.scoring_era_year_score(p_era_bucket_set, p_actual_year, p_guessed_year) end;
+  v_loc int := case when p_distance_km is null then 0
+                    else public.scoring_location_score_from_km(v_profile, p_distance_km) end;
+  v_bonus int := case when p_per_round_timer
+                      then greatest(0, floor(coalesce(p_time_remaining, 0) * 1.5))::int
+                      else 0 end;
+begin
+  return jsonb_build_object(
+    'engine_version', public.scoring_engine_version(),
+    'profile', v_profile,
+    'era_bucket_set', p_era_bucket_set,
+    'year_score', v_year,
+    'location_score', v_loc,
+    'total_score', round(v_year * 0.4 + v_loc * 0.6)::int,
+    'time_bonus', v_bonus,
+    'display_year_score', v_year * 50,
+    'display_location_score', v_loc * 50,
+    'display_total_score', (v_year + v_loc) * 50 + v_bonus
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Sessions record the bucket set they were played with
+-- ---------------------------------------------------------------------------
+alter table public.game_sessions
+  add column if not exists era_bucket_set text references public.era_bucket_sets (id);
+
+create or replace function public._game_sessions_reset_on_insert()
+returns trigger
+language plpgsql set search_path = public, pg_temp as $$
+begin
+  new.total_score := 0;
+  new.rounds_completed := 0;
+  new.completed_at := null;
+  new.verified_at := null;
+  -- Era games can run against the clock too.
+  if new.game_mode not in ('timed', 'era') then
+    new.timer_type := null;
+  end if;
+  if new.game_mode is distinct from 'era' then
+    new.era_bucket_set := null;
+  else
+    new.era_bucket_set := coalesce(new.era_bucket_set, 'decades');
+  end if;
+  return new;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- submit_round_guess: unchanged except that era sessions score by bucket
+-- ---------------------------------------------------------------------------
+create or replace function public.submit_round_guess(
+  p_session_id uuid,
+  p_image_id uuid,
+  p_round_number int,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_time_remaining numeric default 0,
+  p_time_used int default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_img record;
+  v_dist float8;
+  v_score jsonb;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if p_year is null or p_year not between 1800 and 2100 then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if p_lat is null or p_lat not between -90 and 90
+     or p_lng is null or p_lng not between -180 and 180 then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from public.round_results
+    where session_id = p_session_id and display_score is not null
+      and (round_number = p_round_number or image_id = p_image_id)
+  ) then
+    raise exception 'Round % was already submitted', p_round_number using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng into v_img
+  from public.game_images where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  v_score := public.scoring_score_round(
+    v_session.scoring_profile,
+    v_img.year,
+    p_year,
+    v_dist,
+    least(greatest(coalesce(p_time_remaining, 0), 0), 60),
+    v_session.timer_type = 'per-round',
+    v_session.era_bucket_set
+  );
+
+  insert into public.round_results
+    (session_id, user_id, image_id, round_number,
+     year_guess, actual_year,
+     location_guess_lat, location_guess_lng, actual_location_lat, actual_location_lng,
+     year_score, location_score, total_round_score,
+     time_used, time_bonus, display_score, distance_km, scoring_engine_version)
+  values
+    (p_session_id, v_uid, p_image_id, p_round_number,
+     p_year, v_img.year,
+     p_lat, p_lng, v_img.location_lat, v_img.location_lng,
+     (v_score->>'year_score')::int, (v_score->>'location_score')::int, (v_score->>'total_score')::int,
+     p_time_used, (v_score->>'time_bonus')::int, (v_score->>'display_total_score')::int,
+     v_dist, (v_score->>'engine_version')::int);
+
+  -- Running totals keep an unfinished session resumable from the right round.
+  update public.game_sessions gs
+  set rounds_completed = t.rounds, total_score = t.total
+  from (
+    select count(*)::int as rounds, coalesce(sum(display_score), 0)::int as total
+    from public.round_results
+    where session_id = p_session_id and display_score is not null
+  ) t
+  where gs.id = p_session_id;
+
+  return v_score || jsonb_build_object('round_number', p_round_number, 'distance_km', v_dist);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+grant execute on function public._era_bucket_ord(text, int) to anon, authenticated;
+grant execute on function public.scoring_era_year_score(text, int, int) to anon, authenticated;
+grant execute on function public.scoring_score_round(text, int, int, float8, numeric, boolean, text) to anon, authenticated;
@@ -0,0 +1,234 @@
+-- ============================================================================
+-- PRACTICE MODES: year_only and location_only.
+--
+-- Each plays one half of the round. The other half is neither guessed nor
+-- stored: round_results keeps null for it (year_guess, or the location guess
+-- columns), and submit_round_guess ignores whatever the client sends there.
+-- The scored half is scaled ×100 instead of ×50, so a perfect round is still
+-- worth 10,000 display points.
+--
+-- Engine version 3: scoring_score_round gains p_scored_dimension. Rounds
+-- without it score exactly as in version 2.
+-- ============================================================================
+
+-- ---------------------------------------------------------------------------
+-- Unplayed halves are stored as null
+-- ---------------------------------------------------------------------------
+alter table public.round_results
+  alter column year_guess drop not null,
+  alter column location_guess_lat drop not null,
+  alter column location_guess_lng drop not null;
+
+-- ---------------------------------------------------------------------------
+-- Scoring
+-- ---------------------------------------------------------------------------
+create or replace function public.scoring_engine_version()
+returns int
+language sql immutable set search_path = public, pg_temp as $$
+  select 3;
+$$;
+
+drop function if exists public.scoring_score_round(text, int, int, float8, numeric, boolean, text);
+
+-- p_scored_dimension: null scores both halves; 'year' / 'location' score only
+-- that one (the other scores 0 and its guess may be null).
+create or replace function public.scoring_score_round(
+  p_profile text,
+  p_actual_year int,
+  p_guessed_year int,
+  p_distance_km float8,
+  p_time_remaining numeric default 0,
+  p_per_round_timer boolean default false,
+  p_era_bucket_set text default null,
+  p_scored_dimension text default null
+)
+returns jsonb
+language plpgsql stable set search_path = public, pg_temp as $$
+declare
+  v_profile text := (public._scoring_profile(p_profile)).id;
+  v_year int;
+  v_loc int;
+  v_total int;
+  v_mult int := case when p_scored_dimension is null then 50 else 100 end;
+  v_bonus int := case when p_per_round_timer
+                      then greatest(0, floor(coalesce(p_time_remaining, 0) * 1.5))::int
+                      else 0 end;
+begin
+  if p_scored_dimension is not null and p_scored_dimension not in ('year', 'location') then
+    raise exception 'Unknown scored dimension %', p_scored_dimension using errcode = '22023';
+  end if;
+
+  v_year := case when p_scored_dimension = 'location' then 0
+                 when p_era_bucket_set is not null
+                   then public.scoring_era_year_score(p_era_bucket_set, p_actual_year, p_guessed_year)
+                 else public.scoring_year_score(v_profile, p_actual_year, p_guessed_year) end;
+  v_loc := case when p_scored_dimension = 'year' or p_distance_km is null then 0
+                else public.scoring_location_score_from_km(v_profile, p_distance_km) end;
+  v_total := case p_scored_dimension
+               when 'year' then v_year
+               when 'location' then v_loc
+               else round(v_year * 0.4 + v_loc * 0.6)::int end;
+
+  return jsonb_build_object(
+    'engine_version', public.scoring_engine_version(),
+    'profile', v_profile,
+    'era_bucket_set', p_era_bucket_set,
+    'scored_dimension', p_scored_dimension,
+    'year_score', v_year,
+    'location_score', v_loc,
+    'total_score', v_total,
+    'time_bonus', v_bonus,
+    'display_year_score', v_year * v_mult,
+    'display_location_score', v_loc * v_mult,
+    'display_total_score', (v_year + v_loc) * v_mult + v_bonus
+  );
+end $$;
+
+-- Mirrors getScoredDimensionForMode.
+create or replace function public.game_mode_scored_dimension(p_game_mode text)
+returns text
+language sql immutable set search_path = public, pg_temp as $$
+  select case p_game_mode
+    when 'year_only' then 'year'
+    when 'location_only' then 'location'
+  end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Practice games may be timed as well
+-- ---------------------------------------------------------------------------
+create or replace function public._game_sessions_reset_on_insert()
+returns trigger
+language plpgsql set search_path = public, pg_temp as $$
+begin
+  new.total_score := 0;
+  new.rounds_completed := 0;
+  new.completed_at := null;
+  new.verified_at := null;
+  if new.game_mode not in ('timed', 'era', 'year_only', 'location_only') then
+    new.timer_type := null;
+  end if;
+  if new.game_mode is distinct from 'era' then
+    new.era_bucket_set := null;
+  else
+    new.era_bucket_set := coalesce(new.era_bucket_set, 'decades');
+  end if;
+  return new;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- submit_round_guess: only the half the session plays is required and stored
+-- ---------------------------------------------------------------------------
+create or replace function public.submit_round_guess(
+  p_session_id uuid,
+  p_image_id uuid,
+  p_round_number int,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_time_remaining numeric default 0,
+  p_time_used int default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_dimension text;
+  v_img record;
+  v_dist float8;
+  v_score jsonb;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+
+  v_dimension := public.game_mode_scored_dimension(v_session.game_mode);
+  if v_dimension = 'location' then
+    p_year := null;
+  elsif v_dimension = 'year' then
+    p_lat := null;
+    p_lng := null;
+  end if;
+
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'location'
+     and (p_year is null or p_year not between 1800 and 2100) then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'year'
+     and (p_lat is null or p_lat not between -90 and 90
+          or p_lng is null or p_lng not between -180 and 180) then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from public.round_results
+    where session_id = p_session_id and display_score is not null
+      and (round_number = p_round_number or image_id = p_image_id)
+  ) then
+    raise exception 'Round % was already submitted', p_round_number using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng into v_img
+  from public.game_images where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  if p_lat is not null then
+    v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  end if;
+  v_score := public.scoring_score_round(
+    v_session.scoring_profile,
+    v_img.year,
+    p_year,
+    v_dist,
+    least(greatest(coalesce(p_time_remaining, 0), 0), 60),
+    v_session.timer_type = 'per-round',
+    v_session.era_bucket_set,
+    v_dimension
+  );
+
+  insert into public.round_results
+    (session_id, user_id, image_id, round_number,
+     year_guess, actual_year,
+     location_guess_lat, location_guess_lng, actual_location_lat, actual_location_lng,
+     year_score, location_score, total_round_score,
+     time_used, time_bonus, display_score, distance_km, scoring_engine_version)
+  values
+    (p_session_id, v_uid, p_image_id, p_round_number,
+     p_year, v_img.year,
+     p_lat, p_lng, v_img.location_lat, v_img.location_lng,
+     (v_score->>'year_score')::int, (v_score->>'location_score')::int, (v_score->>'total_score')::int,
+     p_time_used, (v_score->>'time_bonus')::int, (v_score->>'display_total_score')::int,
+     v_dist, (v_score->>'engine_version')::int);
+
+  -- Running totals keep an unfinished session resumable from the right round.
+  update public.game_sessions gs
+  set rounds_completed = t.rounds, total_score = t.total
+  from (
+    select count(*)::int as rounds, coalesce(sum(display_score), 0)::int as total
+    from public.round_results
+    where session_id = p_session_id and display_score is not null
+  ) t
+  where gs.id = p_session_id;
+
+  return v_score || jsonb_build_object('round_number', p_round_number, 'distance_km', v_dist);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+grant execute on function public.scoring_score_round(text, int, int, float8, numeric, boolean, text, text) to anon, authenticated;
+grant execute on function public.game_mode_scored_dimension(text) to anon, authenticated;
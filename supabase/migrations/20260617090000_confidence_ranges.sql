@@ -0,0 +1,239 @@
+-- ============================================================================
+-- CONFIDENCE RANGES: widen a guess to ± years or a radius around the pin.
+--
+-- A widened half scores 100 × halfAt / (halfAt + width) when the answer falls
+-- inside the range and 0 when it doesn't (halfAt: 10 years, 100 km); width 0
+-- is an ordinary point guess on the profile curves. Same constants as
+-- CONFIDENCE_RANGES in src/utils/scoringSystem.ts.
+--
+-- round_results records the range the player chose, so we can see how sure
+-- people really are. Era rounds have no year range (the bucket is the range)
+-- and practice rounds have none for the half they don't play.
+--
+-- Engine version 4: scoring_score_round and submit_round_guess gain
+-- p_year_margin and p_radius_km. Rounds without a range score as in version 3.
+-- ============================================================================
+
+alter table public.round_results
+  add column if not exists year_margin int not null default 0
+    check (year_margin between 0 and 50),
+  add column if not exists radius_km int not null default 0
+    check (radius_km between 0 and 2000);
+
+-- ---------------------------------------------------------------------------
+-- Scoring
+-- ---------------------------------------------------------------------------
+create or replace function public.scoring_engine_version()
+returns int
+language sql immutable set search_path = public, pg_temp as $$
+  select 4;
+$$;
+
+-- Mirrors calculateRangeScore.
+create or replace function public.scoring_range_score(p_miss float8, p_width int, p_half_at int)
+returns int
+language sql immutable set search_path = public, pg_temp as $$
+  select case when p_miss > p_width then 0
+              else round((100 * p_half_at)::numeric / (p_half_at + p_width))::int end;
+$$;
+
+drop function if exists public.scoring_score_round(text, int, int, float8, numeric, boolean, text, text);
+
+create or replace function public.scoring_score_round(
+  p_profile text,
+  p_actual_year int,
+  p_guessed_year int,
+  p_distance_km float8,
+  p_time_remaining numeric default 0,
+  p_per_round_timer boolean default false,
+  p_era_bucket_set text default null,
+  p_scored_dimension text default null,
+  p_year_margin int default 0,
+  p_radius_km int default 0
+)
+returns jsonb
+language plpgsql stable set search_path = public, pg_temp as $$
+declare
+  v_profile text := (public._scoring_profile(p_profile)).id;
+  v_year int;
+  v_loc int;
+  v_total int;
+  v_mult int := case when p_scored_dimension is null then 50 else 100 end;
+  v_bonus int := case when p_per_round_timer
+                      then greatest(0, floor(coalesce(p_time_remaining, 0) * 1.5))::int
+                      else 0 end;
+begin
+  if p_scored_dimension is not null and p_scored_dimension not in ('year', 'location') then
+    raise exception 'Unknown scored dimension %', p_scored_dimension using errcode = '22023';
+  end if;
+
+  v_year := case when p_scored_dimension = 'location' then 0
+                 when p_era_bucket_set is not null
+                   then public.scoring_era_year_score(p_era_bucket_set, p_actual_year, p_guessed_year)
+                 when coalesce(p_year_margin, 0) > 0
+                   then public.scoring_range_score(abs(p_actual_year - p_guessed_year), p_year_margin, 10)
+                 else public.scoring_year_score(v_profile, p_actual_year, p_guessed_year) end;
+  v_loc := case when p_scored_dimension = 'year' or p_distance_km is null then 0
+                when coalesce(p_radius_km, 0) > 0
+                  then public.scoring_range_score(p_distance_km, p_radius_km, 100)
+                else public.scoring_location_score_from_km(v_profile, p_distance_km) end;
+  v_total := case p_scored_dimension
+               when 'year' then v_year
+               when 'location' then v_loc
+               else round(v_year * 0.4 + v_loc * 0.6)::int end;
+
+  return jsonb_build_object(
+    'engine_version', public.scoring_engine_version(),
+    'profile', v_profile,
+    'era_bucket_set', p_era_bucket_set,
+    'scored_dimension', p_scored_dimension,
+    'year_score', v_year,
+    'location_score', v_loc,
+    'total_score', v_total,
+    'time_bonus', v_bonus,
+    'display_year_score', v_year * v_mult,
+    'display_location_score', v_loc * v_mult,
+    'display_total_score', (v_year + v_loc) * v_mult + v_bonus
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- submit_round_guess: new trailing parameters, so replace the old signature
+-- ---------------------------------------------------------------------------
+drop function if exists public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int);
+
+create or replace function public.submit_round_guess(
+  p_session_id uuid,
+  p_image_id uuid,
+  p_round_number int,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_time_remaining numeric default 0,
+  p_time_used int default null,
+  p_year_margin int default 0,
+  p_radius_km int default 0
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_dimension text;
+  v_img record;
+  v_dist float8;
+  v_score jsonb;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+
+  p_year_margin := coalesce(p_year_margin, 0);
+  p_radius_km := coalesce(p_radius_km, 0);
+  if p_year_margin not between 0 and 50 then
+    raise exception 'Invalid year range' using errcode = '22023';
+  end if;
+  if p_radius_km not between 0 and 2000 then
+    raise exception 'Invalid radius' using errcode = '22023';
+  end if;
+  if v_session.era_bucket_set is not null then
+    p_year_margin := 0;
+  end if;
+
+  v_dimension := public.game_mode_scored_dimension(v_session.game_mode);
+  if v_dimension = 'location' then
+    p_year := null;
+    p_year_margin := 0;
+  elsif v_dimension = 'year' then
+    p_lat := null;
+    p_lng := null;
+    p_radius_km := 0;
+  end if;
+
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'location'
+     and (p_year is null or p_year not between 1800 and 2100) then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'year'
+     and (p_lat is null or p_lat not between -90 and 90
+          or p_lng is null or p_lng not between -180 and 180) then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from public.round_results
+    where session_id = p_session_id and display_score is not null
+      and (round_number = p_round_number or image_id = p_image_id)
+  ) then
+    raise exception 'Round % was already submitted', p_round_number using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng into v_img
+  from public.game_images where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  if p_lat is not null then
+    v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  end if;
+  v_score := public.scoring_score_round(
+    v_session.scoring_profile,
+    v_img.year,
+    p_year,
+    v_dist,
+    least(greatest(coalesce(p_time_remaining, 0), 0), 60),
+    v_session.timer_type = 'per-round',
+    v_session.era_bucket_set,
+    v_dimension,
+    p_year_margin,
+    p_radius_km
+  );
+
+  insert into public.round_results
+    (session_id, user_id, image_id, round_number,
+     year_guess, actual_year,
+     location_guess_lat, location_guess_lng, actual_location_lat, actual_location_lng,
+     year_score, location_score, total_round_score,
+     time_used, time_bonus, display_score, distance_km, scoring_engine_version,
+     year_margin, radius_km)
+  values
+    (p_session_id, v_uid, p_image_id, p_round_number,
+     p_year, v_img.year,
+     p_lat, p_lng, v_img.location_lat, v_img.location_lng,
+     (v_score->>'year_score')::int, (v_score->>'location_score')::int, (v_score->>'total_score')::int,
+     p_time_used, (v_score->>'time_bonus')::int, (v_score->>'display_total_score')::int,
+     v_dist, (v_score->>'engine_version')::int,
+     p_year_margin, p_radius_km);
+
+  -- Running totals keep an unfinished session resumable from the right round.
+  update public.game_sessions gs
+  set rounds_completed = t.rounds, total_score = t.total
+  from (
+    select count(*)::int as rounds, coalesce(sum(display_score), 0)::int as total
+    from public.round_results
+    where session_id = p_session_id and display_score is not null
+  ) t
+  where gs.id = p_session_id;
+
+  return v_score || jsonb_build_object('round_number', p_round_number, 'distance_km', v_dist);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+grant execute on function public.scoring_range_score(float8, int, int) to anon, authenticated;
+grant execute on function public.scoring_score_round(text, int, int, float8, numeric, boolean, text, text, int, int) to anon, authenticated;
+revoke execute on function public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int, int, int) from public, anon;
+grant execute on function public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int, int, int) to authenticated;
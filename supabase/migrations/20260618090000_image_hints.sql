@@ -0,0 +1,340 @@
+-- ============================================================================
+-- IMAGE HINTS: curated clues a player can reveal before guessing, at a cost.
+--
+-- game_images.hints is an ordered jsonb array of {"kind", "text"} objects
+-- (kind: country, decade or text; at most 5, see src/utils/imageHints.ts).
+-- Hints are revealed front to back, so round_results only needs to record how
+-- many were used.
+--
+-- Each hint costs the scoring profile's hint_penalty in display points
+-- (SCORING_PROFILES[...].hintPenalty), taken from the year + location points
+-- and never below 0; the time bonus is untouched.
+--
+-- Engine version 5: scoring_score_round and submit_round_guess gain
+-- p_hints_used. Rounds without hints score as in version 4.
+--
+-- admin_approve_photo_submission gains p_hints so a reviewer can turn the
+-- submitter's clues into hints while publishing the image.
+-- ============================================================================
+
+create or replace function public._valid_image_hints(p_hints jsonb)
+returns boolean
+language sql immutable set search_path = public, pg_temp as $$
+  select jsonb_typeof(p_hints) = 'array'
+     and jsonb_array_length(p_hints) <= 5
+     and not exists (
+       select 1 from jsonb_array_elements(p_hints) h
+       where jsonb_typeof(h) <> 'object'
+          or coalesce(h->>'kind', '') not in ('country', 'decade', 'text')
+          or coalesce(btrim(h->>'text'), '') = ''
+          or length(h->>'text') > 200
+     );
+$$;
+
+alter table public.game_images
+  add column if not exists hints jsonb not null default '[]'::jsonb
+    check (public._valid_image_hints(hints));
+
+alter table public.scoring_profiles
+  add column if not exists hint_penalty int not null default 500
+    check (hint_penalty >= 0);
+
+alter table public.round_results
+  add column if not exists hints_used int not null default 0
+    check (hints_used between 0 and 5);
+
+-- ---------------------------------------------------------------------------
+-- Scoring
+-- ---------------------------------------------------------------------------
+create or replace function public.scoring_engine_version()
+returns int
+language sql immutable set search_path = public, pg_temp as $$
+  select 5;
+$$;
+
+drop function if exists public.scoring_score_round(text, int, int, float8, numeric, boolean, text, text, int, int);
+
+create or replace function public.scoring_score_round(
+  p_profile text,
+  p_actual_year int,
+  p_guessed_year int,
+  p_distance_km float8,
+  p_time_remaining numeric default 0,
+  p_per_round_timer boolean default false,
+  p_era_bucket_set text default null,
+  p_scored_dimension text default null,
+  p_year_margin int default 0,
+  p_radius_km int default 0,
+  p_hints_used int default 0
+)
+returns jsonb
+language plpgsql stable set search_path = public, pg_temp as $$
+declare
+  v_profile public.scoring_profiles%rowtype := public._scoring_profile(p_profile);
+  v_year int;
+  v_loc int;
+  v_total int;
+  v_penalty int;
+  v_mult int := case when p_scored_dimension is null then 50 else 100 end;
+  v_bonus int := case when p_per_round_timer
+                      then greatest(0, floor(coalesce(p_time_remaining, 0) * 1.5))::int
+                      else 0 end;
+begin
+  if p_scored_dimension is not null and p_scored_dimension not in ('year', 'location') then
+    raise exception 'Unknown scored dimension %', p_scored_dimension using errcode = '22023';
+  end if;
+
+  v_year := case when p_scored_dimension = 'location' then 0
+                 when p_era_bucket_set is not null
+                   then public.scoring_era_year_score(p_era_bucket_set, p_actual_year, p_guessed_year)
+                 when coalesce(p_year_margin, 0) > 0
+                   then public.scoring_range_score(abs(p_actual_year - p_guessed_year), p_year_margin, 10)
+                 else public.scoring_year_score(v_profile.id, p_actual_year, p_guessed_year) end;
+  v_loc := case when p_scored_dimension = 'year' or p_distance_km is null then 0
+                when coalesce(p_radius_km, 0) > 0
+                  then public.scoring_range_score(p_distance_km, p_radius_km, 100)
+                else public.scoring_location_score_from_km(v_profile.id, p_distance_km) end;
+  v_total := case p_scored_dimension
+               when 'year' then v_year
+               when 'location' then v_loc
+               else round(v_year * 0.4 + v_loc * 0.6)::int end;
+  v_penalty := least((v_year + v_loc) * v_mult,
+                     greatest(coalesce(p_hints_used, 0), 0) * v_profile.hint_penalty);
+
+  return jsonb_build_object(
+    'engine_version', public.scoring_engine_version(),
+    'profile', v_profile.id,
+    'era_bucket_set', p_era_bucket_set,
+    'scored_dimension', p_scored_dimension,
+    'year_score', v_year,
+    'location_score', v_loc,
+    'total_score', v_total,
+    'time_bonus', v_bonus,
+    'hint_penalty', v_penalty,
+    'display_year_score', v_year * v_mult,
+    'display_location_score', v_loc * v_mult,
+    'display_total_score', (v_year + v_loc) * v_mult - v_penalty + v_bonus
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- submit_round_guess: new trailing parameter, so replace the old signature
+-- ---------------------------------------------------------------------------
+drop function if exists public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int, int, int);
+
+create or replace function public.submit_round_guess(
+  p_session_id uuid,
+  p_image_id uuid,
+  p_round_number int,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_time_remaining numeric default 0,
+  p_time_used int default null,
+  p_year_margin int default 0,
+  p_radius_km int default 0,
+  p_hints_used int default 0
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_dimension text;
+  v_img record;
+  v_dist float8;
+  v_score jsonb;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+
+  p_year_margin := coalesce(p_year_margin, 0);
+  p_radius_km := coalesce(p_radius_km, 0);
+  p_hints_used := coalesce(p_hints_used, 0);
+  if p_year_margin not between 0 and 50 then
+    raise exception 'Invalid year range' using errcode = '22023';
+  end if;
+  if p_radius_km not between 0 and 2000 then
+    raise exception 'Invalid radius' using errcode = '22023';
+  end if;
+  if v_session.era_bucket_set is not null then
+    p_year_margin := 0;
+  end if;
+
+  v_dimension := public.game_mode_scored_dimension(v_session.game_mode);
+  if v_dimension = 'location' then
+    p_year := null;
+    p_year_margin := 0;
+  elsif v_dimension = 'year' then
+    p_lat := null;
+    p_lng := null;
+    p_radius_km := 0;
+  end if;
+
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'location'
+     and (p_year is null or p_year not between 1800 and 2100) then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'year'
+     and (p_lat is null or p_lat not between -90 and 90
+          or p_lng is null or p_lng not between -180 and 180) then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from public.round_results
+    where session_id = p_session_id and display_score is not null
+      and (round_number = p_round_number or image_id = p_image_id)
+  ) then
+    raise exception 'Round % was already submitted', p_round_number using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng, hints into v_img
+  from public.game_images where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  -- A hint can only be paid for if the image has it
+  if p_hints_used not between 0 and jsonb_array_length(v_img.hints) then
+    raise exception 'Invalid hint count' using errcode = '22023';
+  end if;
+
+  if p_lat is not null then
+    v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  end if;
+  v_score := public.scoring_score_round(
+    v_session.scoring_profile,
+    v_img.year,
+    p_year,
+    v_dist,
+    least(greatest(coalesce(p_time_remaining, 0), 0), 60),
+    v_session.timer_type = 'per-round',
+    v_session.era_bucket_set,
+    v_dimension,
+    p_year_margin,
+    p_radius_km,
+    p_hints_used
+  );
+
+  insert into public.round_results
+    (session_id, user_id, image_id, round_number,
+     year_guess, actual_year,
+     location_guess_lat, location_guess_lng, actual_location_lat, actual_location_lng,
+     year_score, location_score, total_round_score,
+     time_used, time_bonus, display_score, distance_km, scoring_engine_version,
+     year_margin, radius_km, hints_used)
+  values
+    (p_session_id, v_uid, p_image_id, p_round_number,
+     p_year, v_img.year,
+     p_lat, p_lng, v_img.location_lat, v_img.location_lng,
+     (v_score->>'year_score')::int, (v_score->>'location_score')::int, (v_score->>'total_score')::int,
+     p_time_used, (v_score->>'time_bonus')::int, (v_score->>'display_total_score')::int,
+     v_dist, (v_score->>'engine_version')::int,
+     p_year_margin, p_radius_km, p_hints_used);
+
+  -- Running totals keep an unfinished session resumable from the right round.
+  update public.game_sessions gs
+  set rounds_completed = t.rounds, total_score = t.total
+  from (
+    select count(*)::int as rounds, coalesce(sum(display_score), 0)::int as total
+    from public.round_results
+    where session_id = p_session_id and display_score is not null
+  ) t
+  where gs.id = p_session_id;
+
+  return v_score || jsonb_build_object('round_number', p_round_number, 'distance_km', v_dist);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Approval publishes the reviewer's hints with the image
+-- ---------------------------------------------------------------------------
+drop function if exists public.admin_approve_photo_submission(uuid, text, int, float8, float8, text, text, text);
+
+create or replace function public.admin_approve_photo_submission(
+  p_id uuid,
+  p_image_url text,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_location_name text,
+  p_description text,
+  p_notes text default null,
+  p_hints jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_sub public.photo_submissions%rowtype;
+  v_image_id uuid;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select * into v_sub from public.photo_submissions where id = p_id for update;
+  if not found then
+    raise exception 'Submission not found' using errcode = 'P0002';
+  end if;
+  if v_sub.status = 'approved' then
+    raise exception 'This submission has already been approved' using errcode = '55000';
+  end if;
+
+  if coalesce(btrim(p_image_url), '') = '' then
+    raise exception 'Image URL is required' using errcode = '22023';
+  end if;
+  if coalesce(btrim(p_location_name), '') = '' then
+    raise exception 'Location name is required' using errcode = '22023';
+  end if;
+  if coalesce(btrim(p_description), '') = '' then
+    raise exception 'Description is required' using errcode = '22023';
+  end if;
+  if p_year is null or p_year not between 1800 and 2100 then
+    raise exception 'Year must be between 1800 and 2100' using errcode = '22023';
+  end if;
+  if p_lat is null or p_lat not between -90 and 90
+     or p_lng is null or p_lng not between -180 and 180 then
+    raise exception 'Valid map coordinates are required' using errcode = '22023';
+  end if;
+  p_hints := coalesce(p_hints, '[]'::jsonb);
+  if not public._valid_image_hints(p_hints) then
+    raise exception 'Hints must be up to 5 country, decade or text clues of at most 200 characters'
+      using errcode = '22023';
+  end if;
+
+  insert into public.game_images (image_url, year, location_lat, location_lng, location_name, description, hints)
+  values (btrim(p_image_url), p_year, p_lat, p_lng, btrim(p_location_name), btrim(p_description),
+          coalesce((select jsonb_agg(jsonb_build_object('kind', h->>'kind', 'text', btrim(h->>'text')))
+                    from jsonb_array_elements(p_hints) h), '[]'::jsonb))
+  returning id into v_image_id;
+
+  update public.photo_submissions
+  set status = 'approved',
+      approval_date = now(),
+      admin_notes = coalesce(p_notes, admin_notes),
+      rejection_reason = null,
+      updated_at = now()
+  where id = p_id;
+
+  return jsonb_build_object('ok', true, 'image_id', v_image_id);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+grant execute on function public.scoring_score_round(text, int, int, float8, numeric, boolean, text, text, int, int, int) to anon, authenticated;
+revoke execute on function public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int, int, int, int) from public, anon;
+grant execute on function public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int, int, int, int) to authenticated;
+grant execute on function public.admin_approve_photo_submission(uuid, text, int, float8, float8, text, text, text, jsonb) to authenticated;
@@ -0,0 +1,340 @@
+-- ============================================================================
+-- CUSTOM CHALLENGES: admin-built games shared as /challenge/:id links.
+--
+-- A challenge is a fixed pool of images plus its own round count, per-round
+-- timer and scoring profile. Every player draws the same sequence from the
+-- pool: the client shuffles image_ids (in stored order) with seededShuffle
+-- seeded by the challenge id and plays the first round_count images, exactly
+-- like the daily challenge (see src/utils/customChallenge.ts).
+--
+-- Challenge games are ordinary game_sessions with game_mode 'challenge' and a
+-- challenge_id; the insert trigger copies the timer and profile from the
+-- challenge so a client can't pick easier settings. Each player gets one
+-- session per challenge, so get_session_leaderboard's new challenge_filter
+-- ranks one attempt per person.
+-- ============================================================================
+
+create table public.custom_challenges (
+  id               uuid primary key default gen_random_uuid(),
+  title            text not null check (length(btrim(title)) between 1 and 80),
+  center           text check (center is null or length(center) <= 80),
+  image_ids        uuid[] not null check (cardinality(image_ids) between 1 and 20),
+  round_count      int not null check (round_count between 1 and 20),
+  timer_seconds    int check (timer_seconds is null or timer_seconds between 10 and 300),
+  scoring_profile  text not null default 'classic' references public.scoring_profiles (id),
+  created_by       uuid references auth.users (id) on delete set null,
+  created_at       timestamptz not null default now(),
+  check (round_count <= cardinality(image_ids))
+);
+
+alter table public.custom_challenges enable row level security;
+create policy "custom_challenges_public_read" on public.custom_challenges
+  for select to anon, authenticated using (true);
+revoke insert, update, delete on public.custom_challenges from anon, authenticated;
+
+create index if not exists idx_custom_challenges_created on public.custom_challenges (created_at desc);
+
+alter table public.game_sessions
+  add column if not exists challenge_id uuid references public.custom_challenges (id) on delete set null;
+
+create unique index if not exists uq_game_sessions_challenge_user
+  on public.game_sessions (challenge_id, user_id) where challenge_id is not null;
+
+-- ---------------------------------------------------------------------------
+-- Sessions take their settings from the challenge
+-- ---------------------------------------------------------------------------
+create or replace function public._game_sessions_reset_on_insert()
+returns trigger
+language plpgsql set search_path = public, pg_temp as $$
+declare
+  v_challenge public.custom_challenges%rowtype;
+begin
+  new.total_score := 0;
+  new.rounds_completed := 0;
+  new.completed_at := null;
+  new.verified_at := null;
+  if new.game_mode not in ('timed', 'era', 'year_only', 'location_only') then
+    new.timer_type := null;
+  end if;
+  if new.game_mode is distinct from 'era' then
+    new.era_bucket_set := null;
+  else
+    new.era_bucket_set := coalesce(new.era_bucket_set, 'decades');
+  end if;
+
+  if new.game_mode = 'challenge' then
+    select * into v_challenge from public.custom_challenges where id = new.challenge_id;
+    if not found then
+      raise exception 'Challenge not found' using errcode = 'P0002';
+    end if;
+    new.scoring_profile := v_challenge.scoring_profile;
+    new.timer_type := case when v_challenge.timer_seconds is null then null else 'per-round' end;
+  else
+    new.challenge_id := null;
+  end if;
+  return new;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- admin_create_custom_challenge
+-- ---------------------------------------------------------------------------
+create or replace function public.admin_create_custom_challenge(
+  p_title text,
+  p_image_ids uuid[],
+  p_round_count int,
+  p_timer_seconds int default null,
+  p_center text default null,
+  p_scoring_profile text default 'classic'
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_id uuid;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  if coalesce(btrim(p_title), '') = '' or length(btrim(p_title)) > 80 then
+    raise exception 'A title of up to 80 characters is required' using errcode = '22023';
+  end if;
+  if coalesce(cardinality(p_image_ids), 0) not between 1 and 20 then
+    raise exception 'Pick between 1 and 20 images' using errcode = '22023';
+  end if;
+  if (select count(distinct i) from unnest(p_image_ids) i) <> cardinality(p_image_ids) then
+    raise exception 'Each image can only be picked once' using errcode = '22023';
+  end if;
+  if (select count(*) from public.game_images where id = any(p_image_ids)) <> cardinality(p_image_ids) then
+    raise exception 'Some images no longer exist' using errcode = '22023';
+  end if;
+  if p_round_count is null or p_round_count not between 1 and cardinality(p_image_ids) then
+    raise exception 'Rounds must be between 1 and the number of images' using errcode = '22023';
+  end if;
+  if p_timer_seconds is not null and p_timer_seconds not between 10 and 300 then
+    raise exception 'Timer must be between 10 and 300 seconds' using errcode = '22023';
+  end if;
+  if not exists (select 1 from public.scoring_profiles where id = p_scoring_profile) then
+    raise exception 'Unknown scoring profile %', p_scoring_profile using errcode = '22023';
+  end if;
+
+  insert into public.custom_challenges
+    (title, center, image_ids, round_count, timer_seconds, scoring_profile, created_by)
+  values
+    (btrim(p_title), nullif(btrim(coalesce(p_center, '')), ''), p_image_ids, p_round_count,
+     p_timer_seconds, p_scoring_profile, auth.uid())
+  returning id into v_id;
+
+  return jsonb_build_object('ok', true, 'challenge_id', v_id);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- submit_round_guess: challenge rounds must come from the challenge, and the
+-- time bonus is capped by its timer instead of the standard 60 s
+-- ---------------------------------------------------------------------------
+create or replace function public.submit_round_guess(
+  p_session_id uuid,
+  p_image_id uuid,
+  p_round_number int,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_time_remaining numeric default 0,
+  p_time_used int default null,
+  p_year_margin int default 0,
+  p_radius_km int default 0,
+  p_hints_used int default 0
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_challenge public.custom_challenges%rowtype;
+  v_dimension text;
+  v_img record;
+  v_dist float8;
+  v_score jsonb;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+
+  p_year_margin := coalesce(p_year_margin, 0);
+  p_radius_km := coalesce(p_radius_km, 0);
+  p_hints_used := coalesce(p_hints_used, 0);
+  if p_year_margin not between 0 and 50 then
+    raise exception 'Invalid year range' using errcode = '22023';
+  end if;
+  if p_radius_km not between 0 and 2000 then
+    raise exception 'Invalid radius' using errcode = '22023';
+  end if;
+  if v_session.era_bucket_set is not null then
+    p_year_margin := 0;
+  end if;
+
+  v_dimension := public.game_mode_scored_dimension(v_session.game_mode);
+  if v_dimension = 'location' then
+    p_year := null;
+    p_year_margin := 0;
+  elsif v_dimension = 'year' then
+    p_lat := null;
+    p_lng := null;
+    p_radius_km := 0;
+  end if;
+
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'location'
+     and (p_year is null or p_year not between 1800 and 2100) then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'year'
+     and (p_lat is null or p_lat not between -90 and 90
+          or p_lng is null or p_lng not between -180 and 180) then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  if v_session.challenge_id is not null then
+    select * into v_challenge from public.custom_challenges where id = v_session.challenge_id;
+    if p_round_number > v_challenge.round_count then
+      raise exception 'Invalid round number' using errcode = '22023';
+    end if;
+    if not (p_image_id = any(v_challenge.image_ids)) then
+      raise exception 'That image is not part of this challenge' using errcode = '22023';
+    end if;
+  end if;
+
+  if exists (
+    select 1 from public.round_results
+    where session_id = p_session_id and display_score is not null
+      and (round_number = p_round_number or image_id = p_image_id)
+  ) then
+    raise exception 'Round % was already submitted', p_round_number using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng, hints into v_img
+  from public.game_images where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  -- A hint can only be paid for if the image has it
+  if p_hints_used not between 0 and jsonb_array_length(v_img.hints) then
+    raise exception 'Invalid hint count' using errcode = '22023';
+  end if;
+
+  if p_lat is not null then
+    v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  end if;
+  v_score := public.scoring_score_round(
+    v_session.scoring_profile,
+    v_img.year,
+    p_year,
+    v_dist,
+    least(greatest(coalesce(p_time_remaining, 0), 0), coalesce(v_challenge.timer_seconds, 60)),
+    v_session.timer_type = 'per-round',
+    v_session.era_bucket_set,
+    v_dimension,
+    p_year_margin,
+    p_radius_km,
+    p_hints_used
+  );
+
+  insert into public.round_results
+    (session_id, user_id, image_id, round_number,
+     year_guess, actual_year,
+     location_guess_lat, location_guess_lng, actual_location_lat, actual_location_lng,
+     year_score, location_score, total_round_score,
+     time_used, time_bonus, display_score, distance_km, scoring_engine_version,
+     year_margin, radius_km, hints_used)
+  values
+    (p_session_id, v_uid, p_image_id, p_round_number,
+     p_year, v_img.year,
+     p_lat, p_lng, v_img.location_lat, v_img.location_lng,
+     (v_score->>'year_score')::int, (v_score->>'location_score')::int, (v_score->>'total_score')::int,
+     p_time_used, (v_score->>'time_bonus')::int, (v_score->>'display_total_score')::int,
+     v_dist, (v_score->>'engine_version')::int,
+     p_year_margin, p_radius_km, p_hints_used);
+
+  -- Running totals keep an unfinished session resumable from the right round.
+  update public.game_sessions gs
+  set rounds_completed = t.rounds, total_score = t.total
+  from (
+    select count(*)::int as rounds, coalesce(sum(display_score), 0)::int as total
+    from public.round_results
+    where session_id = p_session_id and display_score is not null
+  ) t
+  where gs.id = p_session_id;
+
+  return v_score || jsonb_build_object('round_number', p_round_number, 'distance_km', v_dist);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- get_session_leaderboard: optional per-challenge board
+-- ---------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.get_session_leaderboard(timestamptz, timestamptz, text, int, text);
+
+CREATE OR REPLACE FUNCTION public.get_session_leaderboard(
+  start_ts timestamptz DEFAULT NULL,
+  end_ts timestamptz DEFAULT NULL,
+  game_mode_filter text DEFAULT 'all',
+  limit_count int DEFAULT 100,
+  scoring_profile_filter text DEFAULT 'classic',
+  challenge_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  center text,
+  total_games_played bigint,
+  total_score bigint,
+  best_single_game_score int,
+  average_score numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    up.id,
+    up.user_id,
+    up.username,
+    up.display_name,
+    up.avatar_url,
+    up.center,
+    count(gs.id)::bigint AS total_games_played,
+    coalesce(sum(gs.total_score), 0)::bigint AS total_score,
+    coalesce(max(gs.total_score), 0)::int AS best_single_game_score,
+    coalesce(round(avg(gs.total_score), 2), 0)::numeric AS average_score
+  FROM game_sessions gs
+  JOIN user_profiles up ON up.user_id = gs.user_id
+  WHERE gs.completed_at IS NOT NULL
+    AND gs.verified_at IS NOT NULL
+    AND (start_ts IS NULL OR gs.completed_at >= start_ts)
+    AND (end_ts IS NULL OR gs.completed_at < end_ts)
+    AND (game_mode_filter = 'all' OR gs.game_mode = game_mode_filter)
+    AND (scoring_profile_filter = 'all' OR gs.scoring_profile = scoring_profile_filter)
+    AND (challenge_filter IS NULL OR gs.challenge_id = challenge_filter)
+  GROUP BY up.id, up.user_id, up.username, up.display_name, up.avatar_url, up.center
+  ORDER BY total_score DESC
+  LIMIT limit_count;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+grant execute on function public.admin_create_custom_challenge(text, uuid[], int, int, text, text) to authenticated;
+GRANT EXECUTE ON FUNCTION public.get_session_leaderboard(timestamptz, timestamptz, text, int, text, uuid) TO anon, authenticated;
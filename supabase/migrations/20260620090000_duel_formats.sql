@@ -0,0 +1,817 @@
+-- ============================================================================
+-- DUEL FORMATS: best-of-N matches and 2v2 team duels
+--
+-- best_of (1/3/5): a match is a series of games played in one duel. A
+-- knockout wins the game; whoever first takes a majority of games wins the
+-- match. Every player's HP resets to starting_hp at the start of each game,
+-- and the damage multiplier ramp restarts with it. Rounds keep numbering
+-- across games (duel_rounds.game_number says which game a round belongs to).
+--
+-- format '2v2': four players in two teams. Each round a team scores its best
+-- or average guess (duels.team_damage); the score difference between the
+-- teams, times the multiplier, comes off the losing team's shared HP. The
+-- shared pool is mirrored onto every member's duel_players.hp so the existing
+-- readers (HUD, realtime, summaries) keep working unchanged.
+--
+-- A 1v1 duel is simply two teams of one: the host is team 1, the opponent
+-- team 2, and the team rules reduce to the original ones.
+-- ============================================================================
+
+-- ---------------------------------------------------------------------------
+-- Schema
+-- ---------------------------------------------------------------------------
+alter table public.duels
+  add column format       text not null default '1v1' check (format in ('1v1', '2v2')),
+  add column team_damage  text not null default 'best' check (team_damage in ('best', 'average')),
+  add column best_of      int  not null default 1 check (best_of in (1, 3, 5)),
+  add column current_game int  not null default 1 check (current_game >= 1),
+  add column game_wins    int[] not null default '{0,0}' check (cardinality(game_wins) = 2),
+  add column winner_team  smallint check (winner_team in (1, 2));
+
+alter table public.duel_players
+  add column team smallint check (team in (1, 2));
+
+update public.duel_players set team = case when is_host then 1 else 2 end;
+
+alter table public.duel_players alter column team set not null;
+
+update public.duels d
+set winner_team = p.team
+from public.duel_players p
+where p.id = d.winner_player_id;
+
+alter table public.duel_rounds
+  add column game_number int not null default 1 check (game_number >= 1),
+  add column winner_team smallint check (winner_team in (1, 2)),
+  add column team_scores int[] check (team_scores is null or cardinality(team_scores) = 2);
+
+update public.duel_rounds r
+set winner_team = p.team
+from public.duel_players p
+where p.id = r.winner_player_id;
+
+-- Players per team for a format.
+create or replace function public.duel_team_size(p_format text)
+returns int language sql immutable set search_path = public, pg_temp as $$
+  select case p_format when '2v2' then 2 else 1 end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- _duel_create_round: multiplier ramp per game; resets HP when a new game
+-- starts; on image exhaustion the match goes to games won, then HP.
+-- ---------------------------------------------------------------------------
+create or replace function public._duel_create_round(p_duel_id uuid, p_round_number int)
+returns void
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_duel public.duels%rowtype;
+  v_image_id uuid;
+  v_game_round int;
+  v_hp1 int;
+  v_hp2 int;
+  v_winner_team smallint;
+begin
+  select * into v_duel from public.duels where id = p_duel_id;
+
+  select image_ids[p_round_number] into v_image_id
+  from public.duel_secrets where duel_id = p_duel_id;
+
+  if v_image_id is null then
+    -- Out of images: more games won wins, then more HP; otherwise a draw.
+    select max(hp) filter (where team = 1), max(hp) filter (where team = 2)
+    into v_hp1, v_hp2
+    from public.duel_players where duel_id = p_duel_id;
+    v_winner_team := case
+      when v_duel.game_wins[1] > v_duel.game_wins[2] then 1
+      when v_duel.game_wins[2] > v_duel.game_wins[1] then 2
+      when v_hp1 > v_hp2 then 1
+      when v_hp2 > v_hp1 then 2
+    end;
+    update public.duels
+    set status = 'finished',
+        winner_team = v_winner_team,
+        winner_player_id = (
+          select id from public.duel_players
+          where duel_id = p_duel_id and team = v_winner_team
+          order by joined_at asc limit 1
+        ),
+        finish_reason = case when v_winner_team is null then 'draw' else 'exhausted' end,
+        finished_at = now(),
+        updated_at = now()
+    where id = p_duel_id;
+    return;
+  end if;
+
+  select count(*) + 1 into v_game_round
+  from public.duel_rounds
+  where duel_id = p_duel_id and game_number = v_duel.current_game;
+
+  if v_game_round = 1 and v_duel.current_game > 1 then
+    update public.duel_players set hp = v_duel.starting_hp where duel_id = p_duel_id;
+  end if;
+
+  insert into public.duel_rounds
+    (duel_id, round_number, game_number, image_id, multiplier, started_at, base_deadline)
+  values (
+    p_duel_id,
+    p_round_number,
+    v_duel.current_game,
+    v_image_id,
+    public.duel_round_multiplier(v_game_round),
+    now(),
+    now() + make_interval(secs => v_duel.round_seconds)
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- _duel_resolve_round: team scores decide the round; a knockout wins the
+-- game, and the match once a team holds a majority of best_of.
+-- ---------------------------------------------------------------------------
+create or replace function public._duel_resolve_round(p_round_id uuid)
+returns void
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_round public.duel_rounds%rowtype;
+  v_duel public.duels%rowtype;
+  v_player record;
+  v_score1 int;
+  v_score2 int;
+  v_winner_team smallint;
+  v_winner_player uuid;
+  v_diff int;
+  v_damage int;
+  v_loser_hp int;
+  v_wins int[];
+begin
+  select * into v_round from public.duel_rounds where id = p_round_id;
+  if v_round.resolved_at is not null then
+    return;
+  end if;
+  select * into v_duel from public.duels where id = v_round.duel_id;
+
+  -- Synthesize zero-score timeout guesses for players who never submitted.
+  for v_player in
+    select p.id from public.duel_players p
+    where p.duel_id = v_round.duel_id
+      and not exists (
+        select 1 from public.duel_guesses g
+        where g.round_id = p_round_id and g.player_id = p.id
+      )
+  loop
+    insert into public.duel_guesses
+      (round_id, duel_id, player_id, year_score, location_score, total_score, is_timeout)
+    values (p_round_id, v_round.duel_id, v_player.id, 0, 0, 0, true);
+  end loop;
+
+  select
+    coalesce(case when v_duel.team_damage = 'average'
+                  then round(avg(g.total_score) filter (where p.team = 1))::int
+                  else max(g.total_score) filter (where p.team = 1) end, 0),
+    coalesce(case when v_duel.team_damage = 'average'
+                  then round(avg(g.total_score) filter (where p.team = 2))::int
+                  else max(g.total_score) filter (where p.team = 2) end, 0)
+  into v_score1, v_score2
+  from public.duel_guesses g join public.duel_players p on p.id = g.player_id
+  where g.round_id = p_round_id;
+
+  v_diff := abs(v_score1 - v_score2);
+
+  if v_diff = 0 then
+    -- Tie round: no damage.
+    update public.duel_rounds
+    set resolved_at = now(), winner_player_id = null, winner_team = null,
+        team_scores = array[v_score1, v_score2], score_diff = 0, damage = 0,
+        next_round_at = now() + make_interval(secs => v_duel.results_seconds)
+    where id = p_round_id;
+    return;
+  end if;
+
+  v_winner_team := case when v_score1 > v_score2 then 1 else 2 end;
+  v_damage := round(v_diff * v_round.multiplier)::int;
+
+  -- The winning team's best guesser is credited with the round.
+  select g.player_id into v_winner_player
+  from public.duel_guesses g join public.duel_players p on p.id = g.player_id
+  where g.round_id = p_round_id and p.team = v_winner_team
+  order by g.total_score desc, p.joined_at asc limit 1;
+
+  update public.duel_players
+  set hp = greatest(0, hp - v_damage)
+  where duel_id = v_round.duel_id and team = 3 - v_winner_team;
+
+  select min(hp) into v_loser_hp
+  from public.duel_players
+  where duel_id = v_round.duel_id and team = 3 - v_winner_team;
+
+  v_wins := v_duel.game_wins;
+  if v_loser_hp = 0 then
+    v_wins[v_winner_team] := v_wins[v_winner_team] + 1;
+  end if;
+
+  update public.duel_rounds
+  set resolved_at = now(),
+      winner_player_id = v_winner_player,
+      winner_team = v_winner_team,
+      team_scores = array[v_score1, v_score2],
+      score_diff = v_diff,
+      damage = v_damage,
+      next_round_at = case when v_wins[v_winner_team] * 2 > v_duel.best_of
+                           then null
+                           else now() + make_interval(secs => v_duel.results_seconds) end
+  where id = p_round_id;
+
+  if v_loser_hp > 0 then
+    return;
+  end if;
+
+  if v_wins[v_winner_team] * 2 > v_duel.best_of then
+    update public.duels
+    set status = 'finished',
+        game_wins = v_wins,
+        winner_team = v_winner_team,
+        winner_player_id = v_winner_player,
+        finish_reason = 'knockout',
+        finished_at = now(),
+        updated_at = now()
+    where id = v_round.duel_id and status = 'active';
+  else
+    -- Game over, match on: the next round opens the next game.
+    update public.duels
+    set game_wins = v_wins, current_game = current_game + 1, updated_at = now()
+    where id = v_round.duel_id;
+  end if;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_create: accepts settings.format, settings.best_of, settings.team_damage.
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_create(p_display_name text, p_settings jsonb default '{}'::jsonb)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_name text := left(btrim(coalesce(p_display_name, '')), 20);
+  v_hp int := coalesce(nullif(p_settings->>'starting_hp', '')::int, 12000);
+  v_window int := coalesce(nullif(p_settings->>'guess_window_seconds', '')::int, 15);
+  v_round_secs int := coalesce(nullif(p_settings->>'round_seconds', '')::int, 120);
+  v_profile text := coalesce(nullif(p_settings->>'scoring_profile', ''), 'classic');
+  v_format text := coalesce(nullif(p_settings->>'format', ''), '1v1');
+  v_best_of int := coalesce(nullif(p_settings->>'best_of', '')::int, 1);
+  v_team_damage text := coalesce(nullif(p_settings->>'team_damage', ''), 'best');
+  v_alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code text;
+  v_duel_id uuid;
+  v_player_id uuid;
+  v_token uuid;
+  v_try int := 0;
+  i int;
+begin
+  if length(v_name) < 1 then
+    raise exception 'Display name is required' using errcode = '22023';
+  end if;
+  if v_hp not between 1000 and 50000 then
+    raise exception 'starting_hp must be between 1000 and 50000' using errcode = '22023';
+  end if;
+  if v_window not between 5 and 60 then
+    raise exception 'guess_window_seconds must be between 5 and 60' using errcode = '22023';
+  end if;
+  if v_round_secs not between 30 and 600 then
+    raise exception 'round_seconds must be between 30 and 600' using errcode = '22023';
+  end if;
+  if not exists (select 1 from public.scoring_profiles where id = v_profile) then
+    raise exception 'Unknown scoring profile: %', v_profile using errcode = '22023';
+  end if;
+  if v_format not in ('1v1', '2v2') then
+    raise exception 'format must be 1v1 or 2v2' using errcode = '22023';
+  end if;
+  if v_best_of not in (1, 3, 5) then
+    raise exception 'best_of must be 1, 3 or 5' using errcode = '22023';
+  end if;
+  if v_team_damage not in ('best', 'average') then
+    raise exception 'team_damage must be best or average' using errcode = '22023';
+  end if;
+
+  -- Opportunistic cleanup of abandoned duels.
+  delete from public.duels
+  where status in ('waiting', 'cancelled') and created_at < now() - interval '24 hours';
+  update public.duels
+  set status = 'finished', finish_reason = 'abandoned', finished_at = now(), updated_at = now()
+  where status = 'active' and created_at < now() - interval '12 hours';
+
+  loop
+    v_try := v_try + 1;
+    v_code := '';
+    for i in 1..6 loop
+      v_code := v_code || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1);
+    end loop;
+    begin
+      insert into public.duels
+        (code, starting_hp, guess_window_seconds, round_seconds, scoring_profile,
+         format, best_of, team_damage)
+      values
+        (v_code, v_hp, v_window, v_round_secs, v_profile,
+         v_format, v_best_of, v_team_damage)
+      returning id into v_duel_id;
+      exit;
+    exception when unique_violation then
+      if v_try >= 5 then raise; end if;
+    end;
+  end loop;
+
+  insert into public.duel_players (duel_id, user_id, display_name, is_host, hp, team)
+  values (v_duel_id, auth.uid(), v_name, true, v_hp, 1)
+  returning id into v_player_id;
+
+  insert into public.duel_player_secrets (player_id)
+  values (v_player_id)
+  returning token into v_token;
+
+  return jsonb_build_object(
+    'duel_id', v_duel_id, 'code', v_code,
+    'player_id', v_player_id, 'token', v_token,
+    'server_time', now()
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_join: fills the duel up to its format's size, placing each newcomer
+-- on the smaller team (team 1 on a tie).
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_join(p_code text, p_display_name text)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_name text := left(btrim(coalesce(p_display_name, '')), 20);
+  v_duel public.duels%rowtype;
+  v_team1 int;
+  v_team2 int;
+  v_player_id uuid;
+  v_token uuid;
+begin
+  if length(v_name) < 1 then
+    raise exception 'Display name is required' using errcode = '22023';
+  end if;
+
+  select * into v_duel from public.duels
+  where code = upper(btrim(coalesce(p_code, ''))) for update;
+  if not found then
+    raise exception 'Duel not found' using errcode = 'P0002';
+  end if;
+  if v_duel.status <> 'waiting' then
+    raise exception 'This duel has already started' using errcode = '55000';
+  end if;
+
+  select count(*) filter (where team = 1), count(*) filter (where team = 2)
+  into v_team1, v_team2
+  from public.duel_players where duel_id = v_duel.id;
+  if v_team1 + v_team2 >= 2 * public.duel_team_size(v_duel.format) then
+    raise exception 'Duel is full — you can spectate instead' using errcode = '55000';
+  end if;
+
+  insert into public.duel_players (duel_id, user_id, display_name, is_host, hp, team)
+  values (
+    v_duel.id, auth.uid(), v_name, false, v_duel.starting_hp,
+    case when v_team2 < v_team1 then 2 else 1 end
+  )
+  returning id into v_player_id;
+
+  insert into public.duel_player_secrets (player_id)
+  values (v_player_id)
+  returning token into v_token;
+
+  return jsonb_build_object(
+    'duel_id', v_duel.id, 'code', v_duel.code,
+    'player_id', v_player_id, 'token', v_token,
+    'server_time', now()
+  );
+end $$;
+
+-- Move yourself to the other team while in the lobby (team duels only).
+create or replace function public.duel_switch_team(p_token uuid)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_player public.duel_players%rowtype;
+  v_duel public.duels%rowtype;
+  v_other smallint;
+begin
+  v_player := public._duel_player_by_token(p_token);
+
+  select * into v_duel from public.duels where id = v_player.duel_id for update;
+  if v_duel.status <> 'waiting' then
+    raise exception 'Teams are locked once the duel starts' using errcode = '55000';
+  end if;
+  if v_duel.format <> '2v2' then
+    raise exception 'Only team duels have teams to switch' using errcode = '55000';
+  end if;
+
+  v_other := 3 - v_player.team;
+  if (select count(*) from public.duel_players
+      where duel_id = v_duel.id and team = v_other) >= public.duel_team_size(v_duel.format) then
+    raise exception 'That team is full' using errcode = '55000';
+  end if;
+
+  update public.duel_players set team = v_other where id = v_player.id;
+
+  return jsonb_build_object('team', v_other, 'server_time', now());
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_start: needs both teams full; draws enough images for every game.
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_start(p_token uuid)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_player public.duel_players%rowtype;
+  v_duel public.duels%rowtype;
+  v_team1 int;
+  v_team2 int;
+  v_images uuid[];
+begin
+  v_player := public._duel_player_by_token(p_token);
+
+  select * into v_duel from public.duels where id = v_player.duel_id for update;
+  if v_duel.status <> 'waiting' then
+    raise exception 'Duel already started' using errcode = '55000';
+  end if;
+  if not v_player.is_host then
+    raise exception 'Only the host can start the duel' using errcode = '42501';
+  end if;
+  select count(*) filter (where team = 1), count(*) filter (where team = 2)
+  into v_team1, v_team2
+  from public.duel_players where duel_id = v_duel.id;
+  if v_team1 < public.duel_team_size(v_duel.format)
+     or v_team2 < public.duel_team_size(v_duel.format) then
+    raise exception 'Both sides need to be full before starting' using errcode = '55000';
+  end if;
+
+  select array_agg(id) into v_images
+  from (select id from public.game_images order by random() limit 40 * v_duel.best_of) s;
+  if coalesce(array_length(v_images, 1), 0) < 5 then
+    raise exception 'Not enough images available' using errcode = '55000';
+  end if;
+
+  insert into public.duel_secrets (duel_id, image_ids) values (v_duel.id, v_images);
+
+  perform public._duel_create_round(v_duel.id, 1);
+
+  update public.duels
+  set status = 'active', current_round = 1, started_at = now(), updated_at = now()
+  where id = v_duel.id;
+
+  return jsonb_build_object('started', true, 'server_time', now());
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_submit_guess: the round resolves once every player has guessed.
+-- Otherwise identical to the 20260612090000 version.
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_submit_guess(
+  p_token uuid, p_round_number int, p_year int, p_lat float8, p_lng float8
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_player public.duel_players%rowtype;
+  v_duel public.duels%rowtype;
+  v_round public.duel_rounds%rowtype;
+  v_deadline timestamptz;
+  v_img record;
+  v_year_raw int;
+  v_loc_raw int;
+  v_dist float8;
+  v_guess_count int;
+  v_player_count int;
+begin
+  v_player := public._duel_player_by_token(p_token);
+
+  select * into v_duel from public.duels where id = v_player.duel_id;
+  if v_duel.status <> 'active' then
+    raise exception 'Duel is not active' using errcode = '55000';
+  end if;
+  if p_round_number is distinct from v_duel.current_round then
+    raise exception 'Round % is not the current round', p_round_number using errcode = '55000';
+  end if;
+
+  select * into v_round from public.duel_rounds
+  where duel_id = v_duel.id and round_number = p_round_number for update;
+  if v_round.resolved_at is not null then
+    return jsonb_build_object('submitted', false, 'timed_out', true, 'server_time', now());
+  end if;
+
+  v_deadline := public._duel_effective_deadline(v_round);
+  if now() > v_deadline + interval '1 second' then
+    -- Too late: resolve the round (this player becomes a timeout) and say so.
+    perform public._duel_resolve_round(v_round.id);
+    return jsonb_build_object('submitted', false, 'timed_out', true, 'server_time', now());
+  end if;
+
+  if p_year is null or p_year not between 1800 and 2100 then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if p_lat is null or p_lat not between -90 and 90
+     or p_lng is null or p_lng not between -180 and 180 then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from public.duel_guesses
+    where round_id = v_round.id and player_id = v_player.id
+  ) then
+    raise exception 'You already guessed this round' using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng into v_img
+  from public.game_images where id = v_round.image_id;
+
+  v_year_raw := public.scoring_year_score(v_duel.scoring_profile, v_img.year, p_year);
+  v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  v_loc_raw := public.scoring_location_score_from_km(v_duel.scoring_profile, v_dist);
+
+  insert into public.duel_guesses
+    (round_id, duel_id, player_id, guessed_year, guessed_lat, guessed_lng,
+     year_score, location_score, total_score, distance_km)
+  values
+    (v_round.id, v_duel.id, v_player.id, p_year, p_lat, p_lng,
+     v_year_raw * 50, v_loc_raw * 50, (v_year_raw + v_loc_raw) * 50, v_dist);
+
+  select count(*) into v_guess_count
+  from public.duel_guesses where round_id = v_round.id;
+  select count(*) into v_player_count
+  from public.duel_players where duel_id = v_duel.id;
+
+  if v_guess_count >= v_player_count then
+    perform public._duel_resolve_round(v_round.id);
+  elsif v_guess_count = 1 then
+    update public.duel_rounds
+    set guess_deadline = least(base_deadline, now() + make_interval(secs => v_duel.guess_window_seconds))
+    where id = v_round.id and guess_deadline is null;
+  end if;
+
+  return jsonb_build_object(
+    'submitted', true,
+    'both_guessed', v_guess_count >= v_player_count,
+    'server_time', now()
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_resolve_round: "everyone guessed" instead of "both guessed".
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_resolve_round(p_duel_id uuid, p_round_number int)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_round public.duel_rounds%rowtype;
+  v_all boolean;
+begin
+  select * into v_round from public.duel_rounds
+  where duel_id = p_duel_id and round_number = p_round_number for update;
+  if not found then
+    raise exception 'Round not found' using errcode = 'P0002';
+  end if;
+  if v_round.resolved_at is not null then
+    return jsonb_build_object('resolved', true, 'already_resolved', true, 'server_time', now());
+  end if;
+
+  v_all := (select count(*) from public.duel_guesses where round_id = v_round.id)
+        >= (select count(*) from public.duel_players where duel_id = p_duel_id);
+  if not v_all and now() < public._duel_effective_deadline(v_round) then
+    raise exception 'Round is not ready to resolve' using errcode = '55000';
+  end if;
+
+  perform public._duel_resolve_round(v_round.id);
+  return jsonb_build_object('resolved', true, 'server_time', now());
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_leave: a mid-match forfeit hands the match to the other team.
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_leave(p_token uuid)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_player public.duel_players%rowtype;
+  v_duel public.duels%rowtype;
+  v_opponent uuid;
+begin
+  v_player := public._duel_player_by_token(p_token);
+  select * into v_duel from public.duels where id = v_player.duel_id for update;
+
+  if v_duel.status = 'waiting' then
+    if v_player.is_host then
+      update public.duels
+      set status = 'cancelled', finished_at = now(), updated_at = now()
+      where id = v_duel.id;
+    else
+      delete from public.duel_players where id = v_player.id;
+    end if;
+  elsif v_duel.status = 'active' then
+    select id into v_opponent from public.duel_players
+    where duel_id = v_duel.id and team = 3 - v_player.team
+    order by joined_at asc limit 1;
+    update public.duels
+    set status = 'finished', winner_player_id = v_opponent, winner_team = 3 - v_player.team,
+        finish_reason = 'forfeit', finished_at = now(), updated_at = now()
+    where id = v_duel.id;
+  end if;
+
+  return jsonb_build_object('left', true, 'server_time', now());
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_get_state: adds the format/match fields, player teams and the
+-- round's game number and team scores.
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_get_state(p_code text, p_token uuid default null)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v_duel public.duels%rowtype;
+  v_me uuid;
+  v_players jsonb;
+  v_round public.duel_rounds%rowtype;
+  v_round_json jsonb;
+  v_my_guess jsonb;
+  v_guessed jsonb;
+begin
+  select * into v_duel from public.duels where code = upper(btrim(coalesce(p_code, '')));
+  if not found then
+    raise exception 'Duel not found' using errcode = 'P0002';
+  end if;
+
+  if p_token is not null then
+    select p.id into v_me
+    from public.duel_players p
+    join public.duel_player_secrets s on s.player_id = p.id
+    where s.token = p_token and p.duel_id = v_duel.id;
+  end if;
+
+  select jsonb_agg(jsonb_build_object(
+    'id', id, 'display_name', display_name, 'is_host', is_host,
+    'hp', hp, 'team', team, 'joined_at', joined_at
+  ) order by joined_at) into v_players
+  from public.duel_players where duel_id = v_duel.id;
+
+  if v_duel.current_round >= 1 then
+    select * into v_round from public.duel_rounds
+    where duel_id = v_duel.id and round_number = v_duel.current_round;
+    if found then
+      select coalesce(jsonb_agg(g.player_id), '[]'::jsonb) into v_guessed
+      from public.duel_guesses g where g.round_id = v_round.id;
+      if v_me is not null then
+        select to_jsonb(g.*) into v_my_guess
+        from public.duel_guesses g
+        where g.round_id = v_round.id and g.player_id = v_me;
+      end if;
+      v_round_json := jsonb_build_object(
+        'id', v_round.id,
+        'round_number', v_round.round_number,
+        'game_number', v_round.game_number,
+        'image_id', v_round.image_id,
+        'multiplier', v_round.multiplier,
+        'started_at', v_round.started_at,
+        'base_deadline', v_round.base_deadline,
+        'guess_deadline', v_round.guess_deadline,
+        'resolved_at', v_round.resolved_at,
+        'next_round_at', v_round.next_round_at,
+        'winner_player_id', v_round.winner_player_id,
+        'winner_team', v_round.winner_team,
+        'team_scores', v_round.team_scores,
+        'score_diff', v_round.score_diff,
+        'damage', v_round.damage,
+        'guessed_player_ids', v_guessed
+      );
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'duel', jsonb_build_object(
+      'id', v_duel.id, 'code', v_duel.code, 'status', v_duel.status,
+      'current_round', v_duel.current_round, 'starting_hp', v_duel.starting_hp,
+      'guess_window_seconds', v_duel.guess_window_seconds,
+      'round_seconds', v_duel.round_seconds, 'results_seconds', v_duel.results_seconds,
+      'scoring_profile', v_duel.scoring_profile,
+      'format', v_duel.format, 'team_damage', v_duel.team_damage,
+      'best_of', v_duel.best_of, 'current_game', v_duel.current_game,
+      'game_wins', v_duel.game_wins,
+      'winner_player_id', v_duel.winner_player_id, 'winner_team', v_duel.winner_team,
+      'finish_reason', v_duel.finish_reason,
+      'created_at', v_duel.created_at, 'started_at', v_duel.started_at,
+      'finished_at', v_duel.finished_at
+    ),
+    'players', coalesce(v_players, '[]'::jsonb),
+    'me', v_me,
+    'round', v_round_json,
+    'my_guess', v_my_guess,
+    'server_time', now()
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- duel_round_results / duel_rounds_summary: teams and game numbers.
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_round_results(p_duel_id uuid, p_round_number int)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v_round public.duel_rounds%rowtype;
+  v_img record;
+  v_guesses jsonb;
+  v_players jsonb;
+  v_game_wins int[];
+begin
+  select * into v_round from public.duel_rounds
+  where duel_id = p_duel_id and round_number = p_round_number;
+  if not found then
+    raise exception 'Round not found' using errcode = 'P0002';
+  end if;
+  if v_round.resolved_at is null then
+    raise exception 'Round is not resolved yet' using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng, location_name, description, image_url
+  into v_img from public.game_images where id = v_round.image_id;
+
+  select jsonb_agg(jsonb_build_object(
+    'player_id', g.player_id,
+    'display_name', p.display_name,
+    'team', p.team,
+    'guessed_year', g.guessed_year,
+    'guessed_lat', g.guessed_lat,
+    'guessed_lng', g.guessed_lng,
+    'year_score', g.year_score,
+    'location_score', g.location_score,
+    'total_score', g.total_score,
+    'distance_km', g.distance_km,
+    'is_timeout', g.is_timeout,
+    'submitted_at', g.submitted_at
+  ) order by p.joined_at) into v_guesses
+  from public.duel_guesses g
+  join public.duel_players p on p.id = g.player_id
+  where g.round_id = v_round.id;
+
+  select jsonb_agg(jsonb_build_object('id', id, 'hp', hp, 'team', team) order by joined_at)
+  into v_players
+  from public.duel_players where duel_id = p_duel_id;
+
+  select game_wins into v_game_wins from public.duels where id = p_duel_id;
+
+  return jsonb_build_object(
+    'round_number', v_round.round_number,
+    'game_number', v_round.game_number,
+    'multiplier', v_round.multiplier,
+    'winner_player_id', v_round.winner_player_id,
+    'winner_team', v_round.winner_team,
+    'team_scores', v_round.team_scores,
+    'score_diff', v_round.score_diff,
+    'damage', v_round.damage,
+    'resolved_at', v_round.resolved_at,
+    'next_round_at', v_round.next_round_at,
+    'actual', jsonb_build_object(
+      'year', v_img.year, 'lat', v_img.location_lat, 'lng', v_img.location_lng,
+      'location_name', v_img.location_name, 'description', v_img.description
+    ),
+    'guesses', coalesce(v_guesses, '[]'::jsonb),
+    'players', coalesce(v_players, '[]'::jsonb),
+    'game_wins', v_game_wins,
+    'server_time', now()
+  );
+end $$;
+
+create or replace function public.duel_rounds_summary(p_duel_id uuid)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v jsonb;
+begin
+  select jsonb_agg(jsonb_build_object(
+    'round_number', r.round_number,
+    'game_number', r.game_number,
+    'multiplier', r.multiplier,
+    'winner_player_id', r.winner_player_id,
+    'winner_team', r.winner_team,
+    'team_scores', r.team_scores,
+    'score_diff', r.score_diff,
+    'damage', r.damage,
+    'image_id', r.image_id,
+    'guesses', (
+      select jsonb_agg(jsonb_build_object(
+        'player_id', g.player_id, 'total_score', g.total_score,
+        'year_score', g.year_score, 'location_score', g.location_score,
+        'is_timeout', g.is_timeout
+      ) order by p.joined_at)
+      from public.duel_guesses g
+      join public.duel_players p on p.id = g.player_id
+      where g.round_id = r.id
+    )
+  ) order by r.round_number) into v
+  from public.duel_rounds r
+  where r.duel_id = p_duel_id and r.resolved_at is not null;
+
+  return coalesce(v, '[]'::jsonb);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+grant execute on function public.duel_switch_team(uuid) to anon, authenticated;
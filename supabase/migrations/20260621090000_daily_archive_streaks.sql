@@ -0,0 +1,218 @@
+-- ============================================================================
+-- DAILY ARCHIVE: replay past daily challenges and track daily streaks.
+--
+-- Every daily session now records the Eastern-Time day it belongs to in
+-- game_sessions.daily_date. Ranked dailies ('daily') get today's date from the
+-- insert trigger; archive replays use the new game_mode 'daily_archive' with
+-- the past date the client asks for. Replays are unranked: they never reach
+-- user stats or any leaderboard, and they don't count towards streaks.
+--
+-- get_daily_archive returns one row per challenge day with the caller's
+-- ranked and best replay score. Streaks are computed client-side from the
+-- ranked days (see src/utils/dailyStreaks.ts).
+-- ============================================================================
+
+alter table public.game_sessions
+  add column if not exists daily_date date;
+
+-- Existing dailies belong to the Eastern day they were played on, the same
+-- boundary uniq_daily_completion_per_user_day and getESTDateRange use.
+update public.game_sessions
+set daily_date = timezone('America/New_York', coalesce(completed_at, created_at))::date
+where game_mode = 'daily' and daily_date is null;
+
+create index if not exists idx_game_sessions_user_daily_date
+  on public.game_sessions (user_id, daily_date) where daily_date is not null;
+
+-- ---------------------------------------------------------------------------
+-- Sessions: stamp the daily date, and only replay days that have a challenge
+-- ---------------------------------------------------------------------------
+create or replace function public._game_sessions_reset_on_insert()
+returns trigger
+language plpgsql set search_path = public, pg_temp as $$
+declare
+  v_challenge public.custom_challenges%rowtype;
+begin
+  new.total_score := 0;
+  new.rounds_completed := 0;
+  new.completed_at := null;
+  new.verified_at := null;
+  if new.game_mode not in ('timed', 'era', 'year_only', 'location_only') then
+    new.timer_type := null;
+  end if;
+  if new.game_mode is distinct from 'era' then
+    new.era_bucket_set := null;
+  else
+    new.era_bucket_set := coalesce(new.era_bucket_set, 'decades');
+  end if;
+
+  if new.game_mode = 'challenge' then
+    select * into v_challenge from public.custom_challenges where id = new.challenge_id;
+    if not found then
+      raise exception 'Challenge not found' using errcode = 'P0002';
+    end if;
+    new.scoring_profile := v_challenge.scoring_profile;
+    new.timer_type := case when v_challenge.timer_seconds is null then null else 'per-round' end;
+  else
+    new.challenge_id := null;
+  end if;
+
+  if new.game_mode = 'daily' then
+    new.daily_date := timezone('America/New_York', now())::date;
+  elsif new.game_mode = 'daily_archive' then
+    if new.daily_date is null
+       or new.daily_date >= timezone('America/New_York', now())::date then
+      raise exception 'Only past daily challenges can be replayed' using errcode = '22023';
+    end if;
+    if not exists (
+      select 1 from public.daily_challenges where challenge_date = new.daily_date
+    ) then
+      raise exception 'There is no daily challenge for %', new.daily_date using errcode = 'P0002';
+    end if;
+  else
+    new.daily_date := null;
+  end if;
+  return new;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- complete_game_session: replays are verified but leave user stats alone
+-- ---------------------------------------------------------------------------
+create or replace function public.complete_game_session(
+  p_session_id uuid,
+  p_time_taken int default null
+)
+returns public.game_sessions
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_rounds int;
+  v_total int;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save games' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  -- Idempotent: a retried completion must not count the game twice.
+  if v_session.completed_at is not null then
+    return v_session;
+  end if;
+
+  select count(*)::int, coalesce(sum(display_score), 0)::int
+  into v_rounds, v_total
+  from public.round_results
+  where session_id = p_session_id and display_score is not null;
+
+  if v_rounds = 0 then
+    raise exception 'No scored rounds in this game' using errcode = '55000';
+  end if;
+
+  update public.game_sessions
+  set total_score = v_total,
+      rounds_completed = v_rounds,
+      time_taken = p_time_taken,
+      completed_at = now(),
+      verified_at = now()
+  where id = p_session_id
+  returning * into v_session;
+
+  if v_session.game_mode is distinct from 'daily_archive' then
+    perform public.update_user_stats(v_uid, v_total, v_rounds);
+  end if;
+
+  return v_session;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- get_session_leaderboard: archive replays never rank (same signature)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_session_leaderboard(
+  start_ts timestamptz DEFAULT NULL,
+  end_ts timestamptz DEFAULT NULL,
+  game_mode_filter text DEFAULT 'all',
+  limit_count int DEFAULT 100,
+  scoring_profile_filter text DEFAULT 'classic',
+  challenge_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  center text,
+  total_games_played bigint,
+  total_score bigint,
+  best_single_game_score int,
+  average_score numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    up.id,
+    up.user_id,
+    up.username,
+    up.display_name,
+    up.avatar_url,
+    up.center,
+    count(gs.id)::bigint AS total_games_played,
+    coalesce(sum(gs.total_score), 0)::bigint AS total_score,
+    coalesce(max(gs.total_score), 0)::int AS best_single_game_score,
+    coalesce(round(avg(gs.total_score), 2), 0)::numeric AS average_score
+  FROM game_sessions gs
+  JOIN user_profiles up ON up.user_id = gs.user_id
+  WHERE gs.completed_at IS NOT NULL
+    AND gs.verified_at IS NOT NULL
+    AND gs.game_mode <> 'daily_archive'
+    AND (start_ts IS NULL OR gs.completed_at >= start_ts)
+    AND (end_ts IS NULL OR gs.completed_at < end_ts)
+    AND (game_mode_filter = 'all' OR gs.game_mode = game_mode_filter)
+    AND (scoring_profile_filter = 'all' OR gs.scoring_profile = scoring_profile_filter)
+    AND (challenge_filter IS NULL OR gs.challenge_id = challenge_filter)
+  GROUP BY up.id, up.user_id, up.username, up.display_name, up.avatar_url, up.center
+  ORDER BY total_score DESC
+  LIMIT limit_count;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- get_daily_archive: every challenge day with the caller's scores, newest
+-- first. Guests get the days with null scores.
+-- ---------------------------------------------------------------------------
+create or replace function public.get_daily_archive()
+returns table (
+  challenge_date date,
+  ranked_score int,
+  ranked_rounds int,
+  replay_best_score int
+)
+language sql stable security definer set search_path = public, pg_temp as $$
+  with mine as (
+    select gs.daily_date, gs.game_mode, gs.total_score, gs.rounds_completed, gs.completed_at
+    from public.game_sessions gs
+    where gs.user_id = auth.uid() and gs.daily_date is not null
+  ),
+  days as (
+    select dc.challenge_date as day from public.daily_challenges dc
+    union
+    select m.daily_date from mine m where m.game_mode = 'daily'
+  )
+  select
+    d.day,
+    max(m.total_score) filter (where m.game_mode = 'daily')::int,
+    max(m.rounds_completed) filter (where m.game_mode = 'daily')::int,
+    max(m.total_score) filter (where m.game_mode = 'daily_archive' and m.completed_at is not null)::int
+  from days d
+  left join mine m on m.daily_date = d.day
+  group by d.day
+  order by d.day desc;
+$$;
+
+grant execute on function public.get_daily_archive() to anon, authenticated;
@@ -0,0 +1,223 @@
+-- ============================================================================
+-- CURATED DAILY SELECTION: theme calendar and pinned upcoming challenges.
+--
+-- The day's photos are still picked client-side by whoever opens the daily
+-- first (selectDailyImages in src/utils/dailySelection.ts): it follows the
+-- theme covering the day, skips photos used within the reuse cooldown and
+-- spreads eras and regions. What's new on the server:
+--
+--   daily_themes                 admin-scheduled themes ("Monsoon week",
+--                                "1950s"): a date range, an optional year
+--                                range and keywords matched against photos.
+--   daily_challenges.theme_id    the theme a day was generated under.
+--   admin_pin_daily_challenge    stores an upcoming day's photos ahead of
+--                                time; clients always reuse a stored day.
+--   admin_unpin_daily_challenge  drops a pinned upcoming day again.
+--
+-- Only future days can be pinned or unpinned: once a day has started players
+-- may already have its photos.
+-- ============================================================================
+
+create table public.daily_themes (
+  id           uuid primary key default gen_random_uuid(),
+  title        text not null check (length(btrim(title)) between 1 and 80),
+  description  text check (description is null or length(description) <= 280),
+  start_date   date not null,
+  end_date     date not null,
+  year_from    int check (year_from is null or year_from between 1800 and 2100),
+  year_to      int check (year_to is null or year_to between 1800 and 2100),
+  keywords     text[] not null default '{}' check (cardinality(keywords) <= 20),
+  created_by   uuid references auth.users (id) on delete set null,
+  created_at   timestamptz not null default now(),
+  check (end_date >= start_date and end_date - start_date <= 62),
+  check (year_from is null or year_to is null or year_to >= year_from)
+);
+
+alter table public.daily_themes enable row level security;
+create policy "daily_themes_public_read" on public.daily_themes
+  for select to anon, authenticated using (true);
+revoke insert, update, delete on public.daily_themes from anon, authenticated;
+
+create index if not exists idx_daily_themes_dates on public.daily_themes (start_date, end_date);
+
+alter table public.daily_challenges
+  add column if not exists theme_id uuid references public.daily_themes (id) on delete set null,
+  add column if not exists pinned_by uuid references auth.users (id) on delete set null,
+  add column if not exists pinned_at timestamptz;
+
+-- ---------------------------------------------------------------------------
+-- Themes
+-- ---------------------------------------------------------------------------
+create or replace function public.admin_save_daily_theme(
+  p_title text,
+  p_start_date date,
+  p_end_date date,
+  p_year_from int default null,
+  p_year_to int default null,
+  p_keywords text[] default '{}',
+  p_description text default null,
+  p_theme_id uuid default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_id uuid;
+  v_keywords text[];
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  if coalesce(btrim(p_title), '') = '' or length(btrim(p_title)) > 80 then
+    raise exception 'A title of up to 80 characters is required' using errcode = '22023';
+  end if;
+  if p_start_date is null or p_end_date is null or p_end_date < p_start_date then
+    raise exception 'The theme must end on or after its start date' using errcode = '22023';
+  end if;
+  if p_end_date - p_start_date > 62 then
+    raise exception 'A theme can run for at most 63 days' using errcode = '22023';
+  end if;
+  if p_year_from is not null and p_year_to is not null and p_year_to < p_year_from then
+    raise exception 'The year range is reversed' using errcode = '22023';
+  end if;
+
+  select coalesce(array_agg(distinct lower(btrim(k))), '{}') into v_keywords
+  from unnest(coalesce(p_keywords, '{}')) k
+  where btrim(k) <> '';
+  if cardinality(v_keywords) > 20 then
+    raise exception 'Use at most 20 keywords' using errcode = '22023';
+  end if;
+
+  if p_theme_id is null then
+    insert into public.daily_themes
+      (title, description, start_date, end_date, year_from, year_to, keywords, created_by)
+    values
+      (btrim(p_title), nullif(btrim(coalesce(p_description, '')), ''), p_start_date, p_end_date,
+       p_year_from, p_year_to, v_keywords, auth.uid())
+    returning id into v_id;
+  else
+    update public.daily_themes
+    set title = btrim(p_title),
+        description = nullif(btrim(coalesce(p_description, '')), ''),
+        start_date = p_start_date,
+        end_date = p_end_date,
+        year_from = p_year_from,
+        year_to = p_year_to,
+        keywords = v_keywords
+    where id = p_theme_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Theme not found' using errcode = 'P0002';
+    end if;
+  end if;
+
+  return jsonb_build_object('ok', true, 'theme_id', v_id);
+end $$;
+
+create or replace function public.admin_delete_daily_theme(p_theme_id uuid)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  delete from public.daily_themes where id = p_theme_id;
+  if not found then
+    raise exception 'Theme not found' using errcode = 'P0002';
+  end if;
+  return jsonb_build_object('ok', true);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Pinning upcoming days
+-- ---------------------------------------------------------------------------
+create or replace function public.admin_pin_daily_challenge(
+  p_date date,
+  p_image_ids uuid[],
+  p_theme_id uuid default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  if p_date is null or p_date <= timezone('America/New_York', now())::date then
+    raise exception 'Only upcoming days can be pinned' using errcode = '22023';
+  end if;
+  if coalesce(cardinality(p_image_ids), 0) <> 5 then
+    raise exception 'A daily challenge has exactly 5 images' using errcode = '22023';
+  end if;
+  if (select count(distinct i) from unnest(p_image_ids) i) <> 5 then
+    raise exception 'Each image can only be picked once' using errcode = '22023';
+  end if;
+  if (select count(*) from public.game_images where id = any(p_image_ids)) <> 5 then
+    raise exception 'Some images no longer exist' using errcode = '22023';
+  end if;
+  if p_theme_id is not null and not exists (select 1 from public.daily_themes where id = p_theme_id) then
+    raise exception 'Theme not found' using errcode = 'P0002';
+  end if;
+
+  delete from public.daily_challenges where challenge_date = p_date;
+  insert into public.daily_challenges (challenge_date, image_ids, theme_id, pinned_by, pinned_at)
+  values (p_date, p_image_ids, p_theme_id, auth.uid(), now());
+
+  return jsonb_build_object('ok', true, 'challenge_date', p_date);
+end $$;
+
+create or replace function public.admin_unpin_daily_challenge(p_date date)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  if p_date is null or p_date <= timezone('America/New_York', now())::date then
+    raise exception 'Only upcoming days can be unpinned' using errcode = '22023';
+  end if;
+
+  delete from public.daily_challenges where challenge_date = p_date;
+  return jsonb_build_object('ok', true);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- get_daily_archive: pinned upcoming days stay out of the archive
+-- ---------------------------------------------------------------------------
+create or replace function public.get_daily_archive()
+returns table (
+  challenge_date date,
+  ranked_score int,
+  ranked_rounds int,
+  replay_best_score int
+)
+language sql stable security definer set search_path = public, pg_temp as $$
+  with mine as (
+    select gs.daily_date, gs.game_mode, gs.total_score, gs.rounds_completed, gs.completed_at
+    from public.game_sessions gs
+    where gs.user_id = auth.uid() and gs.daily_date is not null
+  ),
+  days as (
+    select dc.challenge_date as day from public.daily_challenges dc
+    where dc.challenge_date <= timezone('America/New_York', now())::date
+    union
+    select m.daily_date from mine m where m.game_mode = 'daily'
+  )
+  select
+    d.day,
+    max(m.total_score) filter (where m.game_mode = 'daily')::int,
+    max(m.rounds_completed) filter (where m.game_mode = 'daily')::int,
+    max(m.total_score) filter (where m.game_mode = 'daily_archive' and m.completed_at is not null)::int
+  from days d
+  left join mine m on m.daily_date = d.day
+  group by d.day
+  order by d.day desc;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+grant execute on function public.admin_save_daily_theme(text, date, date, int, int, text[], text, uuid) to authenticated;
+grant execute on function public.admin_delete_daily_theme(uuid) to authenticated;
+grant execute on function public.admin_pin_daily_challenge(date, uuid[], uuid) to authenticated;
+grant execute on function public.admin_unpin_daily_challenge(date) to authenticated;
@@ -0,0 +1,184 @@
+-- ============================================================================
+-- IMAGE DIFFICULTY: a rating for every game image, computed from play history.
+--
+-- recompute_image_difficulty() aggregates round_results per image:
+--
+--   avg_year_error    mean |year_guess - actual_year| over rounds with a year
+--   avg_distance_km   mean distance_km over rounds with a map guess
+--   score_stddev      spread of display_score over server-scored rounds
+--
+-- and folds them into difficulty_score (0-100): 40% year error (capped at 40
+-- years), 40% distance (capped at 2,500 km), 20% score spread (capped at
+-- 5,000, half the round maximum). A component with no data is left out and
+-- the weights of the others are rescaled. Images with at least p_min_rounds
+-- rated rounds are split into thirds by score: easy, medium, hard. The rest
+-- stay unrated (difficulty null) and the client treats them as medium.
+--
+-- It runs nightly through pg_cron where the extension is installed, and on
+-- demand from the admin analytics tab (admin_recompute_image_difficulty).
+--
+-- Players can ask for an Easy, Medium or Hard game; game_sessions.difficulty
+-- records the choice and such games stay off the leaderboard, which only
+-- compares games drawn from the whole pool.
+-- ============================================================================
+
+alter table public.game_images
+  add column if not exists difficulty text
+    check (difficulty is null or difficulty in ('easy', 'medium', 'hard')),
+  add column if not exists difficulty_score real,
+  add column if not exists difficulty_rounds int not null default 0,
+  add column if not exists avg_year_error real,
+  add column if not exists avg_distance_km real,
+  add column if not exists score_stddev real,
+  add column if not exists difficulty_updated_at timestamptz;
+
+alter table public.game_sessions
+  add column if not exists difficulty text
+    check (difficulty is null or difficulty in ('easy', 'medium', 'hard'));
+
+create index if not exists idx_round_results_image on public.round_results (image_id);
+
+-- ---------------------------------------------------------------------------
+-- Computation (not granted to clients; reached through the admin RPC or cron)
+-- ---------------------------------------------------------------------------
+create or replace function public.recompute_image_difficulty(p_min_rounds int default 5)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_rated int;
+begin
+  with stats as (
+    select
+      rr.image_id,
+      count(*)::int as rounds,
+      avg(abs(rr.year_guess - rr.actual_year)) filter (where rr.year_guess is not null) as year_error,
+      avg(rr.distance_km) filter (where rr.distance_km is not null) as distance_km,
+      stddev_samp(rr.display_score) filter (where rr.display_score is not null) as spread
+    from public.round_results rr
+    where rr.image_id is not null
+    group by rr.image_id
+  ),
+  scored as (
+    select
+      s.*,
+      100 * (
+        coalesce(0.4 * least(s.year_error / 40.0, 1), 0)
+        + coalesce(0.4 * least(s.distance_km / 2500.0, 1), 0)
+        + coalesce(0.2 * least(s.spread / 5000.0, 1), 0)
+      ) / nullif(
+        (case when s.year_error is null then 0 else 0.4 end)
+        + (case when s.distance_km is null then 0 else 0.4 end)
+        + (case when s.spread is null then 0 else 0.2 end),
+        0
+      ) as score
+    from stats s
+  ),
+  tiered as (
+    select
+      sc.*,
+      case when sc.rounds >= p_min_rounds and sc.score is not null
+        then ntile(3) over (
+          partition by (sc.rounds >= p_min_rounds and sc.score is not null)
+          order by sc.score
+        )
+      end as third
+    from scored sc
+  )
+  update public.game_images gi
+  set difficulty = case t.third when 1 then 'easy' when 2 then 'medium' when 3 then 'hard' end,
+      difficulty_score = round(t.score::numeric, 1),
+      difficulty_rounds = coalesce(t.rounds, 0),
+      avg_year_error = round(t.year_error::numeric, 1),
+      avg_distance_km = round(t.distance_km::numeric, 1),
+      score_stddev = round(t.spread::numeric, 1),
+      difficulty_updated_at = now()
+  from public.game_images g
+  left join tiered t on t.image_id = g.id
+  where gi.id = g.id;
+
+  select count(*) into v_rated from public.game_images where difficulty is not null;
+  return jsonb_build_object('ok', true, 'rated', v_rated);
+end $$;
+
+revoke execute on function public.recompute_image_difficulty(int) from public, anon, authenticated;
+
+create or replace function public.admin_recompute_image_difficulty()
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  return public.recompute_image_difficulty();
+end $$;
+
+grant execute on function public.admin_recompute_image_difficulty() to authenticated;
+
+-- Nightly refresh where pg_cron is available; elsewhere admins recompute by hand
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'recompute-image-difficulty',
+      '15 8 * * *',
+      'select public.recompute_image_difficulty()'
+    );
+  end if;
+end $$;
+
+select public.recompute_image_difficulty();
+
+-- ---------------------------------------------------------------------------
+-- get_session_leaderboard: difficulty-filtered games never rank (same signature)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_session_leaderboard(
+  start_ts timestamptz DEFAULT NULL,
+  end_ts timestamptz DEFAULT NULL,
+  game_mode_filter text DEFAULT 'all',
+  limit_count int DEFAULT 100,
+  scoring_profile_filter text DEFAULT 'classic',
+  challenge_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  center text,
+  total_games_played bigint,
+  total_score bigint,
+  best_single_game_score int,
+  average_score numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    up.id,
+    up.user_id,
+    up.username,
+    up.display_name,
+    up.avatar_url,
+    up.center,
+    count(gs.id)::bigint AS total_games_played,
+    coalesce(sum(gs.total_score), 0)::bigint AS total_score,
+    coalesce(max(gs.total_score), 0)::int AS best_single_game_score,
+    coalesce(round(avg(gs.total_score), 2), 0)::numeric AS average_score
+  FROM game_sessions gs
+  JOIN user_profiles up ON up.user_id = gs.user_id
+  WHERE gs.completed_at IS NOT NULL
+    AND gs.verified_at IS NOT NULL
+    AND gs.game_mode <> 'daily_archive'
+    AND gs.difficulty IS NULL
+    AND (start_ts IS NULL OR gs.completed_at >= start_ts)
+    AND (end_ts IS NULL OR gs.completed_at < end_ts)
+    AND (game_mode_filter = 'all' OR gs.game_mode = game_mode_filter)
+    AND (scoring_profile_filter = 'all' OR gs.scoring_profile = scoring_profile_filter)
+    AND (challenge_filter IS NULL OR gs.challenge_id = challenge_filter)
+  GROUP BY up.id, up.user_id, up.username, up.display_name, up.avatar_url, up.center
+  ORDER BY total_score DESC
+  LIMIT limit_count;
+$$;
@@ -0,0 +1,122 @@
+-- ============================================================================
+-- ADAPTIVE DIFFICULTY: Elo-style skill ratings for players and images.
+--
+-- Every server-scored round is a match between the player and the image:
+--
+--   outcome   display score without the time bonus, over the 10,000 maximum
+--   expected  1 / (1 + 10 ^ ((image - player) / 400))
+--   player   += K * (outcome - expected), K = 64 for the first 20 rounds
+--               (provisional) and 32 after
+--   image    -= 16 * (outcome - expected)
+--
+-- Both start at 1500. Images already rated by recompute_image_difficulty are
+-- seeded from difficulty_score (0-100 maps to 1200-1800), then the whole
+-- round history is replayed once so existing players start where their play
+-- puts them. From here on a trigger applies each new round.
+--
+-- Ratings live in user_skill_ratings rather than user_profiles because
+-- players may update their own profile row; only these functions write here.
+-- The client's "Adaptive" game draws images rated near the player (see
+-- src/utils/skillRating.ts) and, like tier games, stays off the leaderboard:
+-- game_sessions.difficulty = 'adaptive'.
+-- ============================================================================
+
+create table public.user_skill_ratings (
+  user_id     uuid primary key references auth.users (id) on delete cascade,
+  rating      real not null default 1500,
+  rounds      int not null default 0,
+  updated_at  timestamptz not null default now()
+);
+
+alter table public.user_skill_ratings enable row level security;
+create policy "user_skill_ratings_own_read" on public.user_skill_ratings
+  for select to authenticated using (user_id = auth.uid());
+revoke insert, update, delete on public.user_skill_ratings from anon, authenticated;
+
+alter table public.game_images
+  add column if not exists skill_rating real not null default 1500;
+
+update public.game_images
+set skill_rating = 1500 + (difficulty_score - 50) * 6
+where difficulty_score is not null;
+
+alter table public.game_sessions drop constraint if exists game_sessions_difficulty_check;
+alter table public.game_sessions
+  add constraint game_sessions_difficulty_check
+    check (difficulty is null or difficulty in ('easy', 'medium', 'hard', 'adaptive'));
+
+-- ---------------------------------------------------------------------------
+-- One rated round
+-- ---------------------------------------------------------------------------
+create or replace function public._apply_skill_round(
+  p_user_id uuid,
+  p_image_id uuid,
+  p_display_score int,
+  p_time_bonus int
+)
+returns void
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_player real;
+  v_rounds int;
+  v_image real;
+  v_outcome real;
+  v_delta real;
+begin
+  select skill_rating into v_image from public.game_images where id = p_image_id for update;
+  if not found then
+    return;
+  end if;
+
+  insert into public.user_skill_ratings (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+  select rating, rounds into v_player, v_rounds
+  from public.user_skill_ratings where user_id = p_user_id for update;
+
+  v_outcome := least(greatest(p_display_score - coalesce(p_time_bonus, 0), 0), 10000) / 10000.0;
+  v_delta := v_outcome - 1 / (1 + power(10, (v_image - v_player) / 400.0));
+
+  update public.user_skill_ratings
+  set rating = v_player + (case when v_rounds < 20 then 64 else 32 end) * v_delta,
+      rounds = v_rounds + 1,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  update public.game_images
+  set skill_rating = v_image - 16 * v_delta
+  where id = p_image_id;
+end $$;
+
+revoke execute on function public._apply_skill_round(uuid, uuid, int, int) from public, anon, authenticated;
+
+create or replace function public._round_results_apply_skill()
+returns trigger
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  perform public._apply_skill_round(new.user_id, new.image_id, new.display_score, new.time_bonus);
+  return new;
+end $$;
+
+drop trigger if exists trg_round_results_apply_skill on public.round_results;
+create trigger trg_round_results_apply_skill
+  after insert on public.round_results
+  for each row
+  when (new.user_id is not null and new.image_id is not null and new.display_score is not null)
+  execute function public._round_results_apply_skill();
+
+-- ---------------------------------------------------------------------------
+-- Backfill: replay the existing history in order
+-- ---------------------------------------------------------------------------
+do $$
+declare
+  r record;
+begin
+  for r in
+    select user_id, image_id, display_score, time_bonus
+    from public.round_results
+    where user_id is not null and image_id is not null and display_score is not null
+    order by created_at, id
+  loop
+    perform public._apply_skill_round(r.user_id, r.image_id, r.display_score, r.time_bonus);
+  end loop;
+end $$;
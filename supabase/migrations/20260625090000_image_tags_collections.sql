@@ -0,0 +1,245 @@
+-- ============================================================================
+-- IMAGE TAGS AND COLLECTIONS: curated subsets of the pool to play.
+--
+--   game_images.tags           free-form lowercase labels ("mumbai",
+--                              "railways", "archive:times-of-india"); a
+--                              "kind:" prefix groups them in the admin UI.
+--   image_collections          a titled set of images: every image carrying
+--                              one of tag_filter, plus the hand-picked
+--                              image_ids. Membership is resolved client-side
+--                              (src/utils/imageCollections.ts) from the same
+--                              two lists, like custom challenge sequences.
+--   game_sessions.collection_id  the collection a game was drawn from.
+--   simple_multiplayer_rooms.collection_id  the same for party rooms.
+--
+-- Collection games rank only on their collection's board:
+-- get_session_leaderboard gains collection_filter, and the general boards
+-- (collection_filter null) leave collection games out.
+-- ============================================================================
+
+alter table public.game_images
+  add column if not exists tags text[] not null default '{}'
+    check (cardinality(tags) <= 20);
+
+create index if not exists idx_game_images_tags on public.game_images using gin (tags);
+
+create table public.image_collections (
+  id            uuid primary key default gen_random_uuid(),
+  slug          text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' and length(slug) <= 60),
+  title         text not null check (length(btrim(title)) between 1 and 80),
+  description   text check (description is null or length(description) <= 280),
+  tag_filter    text[] not null default '{}' check (cardinality(tag_filter) <= 20),
+  image_ids     uuid[] not null default '{}' check (cardinality(image_ids) <= 500),
+  is_published  boolean not null default false,
+  created_by    uuid references auth.users (id) on delete set null,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+alter table public.image_collections enable row level security;
+create policy "image_collections_read" on public.image_collections
+  for select to anon, authenticated using (is_published or public._is_admin());
+revoke insert, update, delete on public.image_collections from anon, authenticated;
+
+-- No foreign key: a deleted collection's games must keep their id so they
+-- stay off the general boards.
+alter table public.game_sessions
+  add column if not exists collection_id uuid;
+
+create index if not exists idx_game_sessions_collection
+  on public.game_sessions (collection_id, completed_at) where collection_id is not null;
+
+alter table public.simple_multiplayer_rooms
+  add column if not exists collection_id uuid references public.image_collections (id) on delete set null;
+
+-- Trimmed, lowercased, de-duplicated tags with inner whitespace collapsed,
+-- as normalizeTag does client-side; raises on anything too long
+create or replace function public._normalize_image_tags(p_tags text[])
+returns text[]
+language plpgsql immutable set search_path = public, pg_temp as $$
+declare
+  v_tags text[];
+begin
+  select coalesce(array_agg(distinct t order by t), '{}') into v_tags
+  from (select regexp_replace(lower(btrim(x)), '\s+', ' ', 'g') as t from unnest(coalesce(p_tags, '{}')) x) s
+  where t <> '';
+  if exists (select 1 from unnest(v_tags) t where length(t) > 40) then
+    raise exception 'Tags can be at most 40 characters' using errcode = '22023';
+  end if;
+  if cardinality(v_tags) > 20 then
+    raise exception 'Use at most 20 tags' using errcode = '22023';
+  end if;
+  return v_tags;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Admin RPCs
+-- ---------------------------------------------------------------------------
+create or replace function public.admin_set_image_tags(p_image_id uuid, p_tags text[])
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_tags text[];
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  v_tags := public._normalize_image_tags(p_tags);
+  update public.game_images set tags = v_tags where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+  return jsonb_build_object('ok', true, 'tags', to_jsonb(v_tags));
+end $$;
+
+create or replace function public.admin_save_image_collection(
+  p_title text,
+  p_slug text,
+  p_description text default null,
+  p_tag_filter text[] default '{}',
+  p_image_ids uuid[] default '{}',
+  p_is_published boolean default false,
+  p_collection_id uuid default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_id uuid;
+  v_slug text := lower(btrim(coalesce(p_slug, '')));
+  v_tags text[];
+  v_ids uuid[];
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  if coalesce(btrim(p_title), '') = '' or length(btrim(p_title)) > 80 then
+    raise exception 'A title of up to 80 characters is required' using errcode = '22023';
+  end if;
+  if v_slug !~ '^[a-z0-9]+(-[a-z0-9]+)*$' or length(v_slug) > 60 then
+    raise exception 'The slug may only use lowercase letters, digits and single dashes' using errcode = '22023';
+  end if;
+  v_tags := public._normalize_image_tags(p_tag_filter);
+
+  select coalesce(array_agg(distinct i), '{}') into v_ids from unnest(coalesce(p_image_ids, '{}')) i;
+  if cardinality(v_ids) > 500 then
+    raise exception 'A collection can hand-pick at most 500 images' using errcode = '22023';
+  end if;
+  if (select count(*) from public.game_images where id = any(v_ids)) <> cardinality(v_ids) then
+    raise exception 'Some images no longer exist' using errcode = '22023';
+  end if;
+  if cardinality(v_tags) = 0 and cardinality(v_ids) = 0 then
+    raise exception 'Pick some images or tags for the collection' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from public.image_collections
+    where slug = v_slug and id is distinct from p_collection_id
+  ) then
+    raise exception 'Another collection already uses that slug' using errcode = '22023';
+  end if;
+
+  if p_collection_id is null then
+    insert into public.image_collections
+      (slug, title, description, tag_filter, image_ids, is_published, created_by)
+    values
+      (v_slug, btrim(p_title), nullif(btrim(coalesce(p_description, '')), ''), v_tags, v_ids,
+       coalesce(p_is_published, false), auth.uid())
+    returning id into v_id;
+  else
+    update public.image_collections
+    set slug = v_slug,
+        title = btrim(p_title),
+        description = nullif(btrim(coalesce(p_description, '')), ''),
+        tag_filter = v_tags,
+        image_ids = v_ids,
+        is_published = coalesce(p_is_published, false),
+        updated_at = now()
+    where id = p_collection_id
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Collection not found' using errcode = 'P0002';
+    end if;
+  end if;
+
+  return jsonb_build_object('ok', true, 'collection_id', v_id);
+end $$;
+
+create or replace function public.admin_delete_image_collection(p_collection_id uuid)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  delete from public.image_collections where id = p_collection_id;
+  if not found then
+    raise exception 'Collection not found' using errcode = 'P0002';
+  end if;
+  return jsonb_build_object('ok', true);
+end $$;
+
+grant execute on function public.admin_set_image_tags(uuid, text[]) to authenticated;
+grant execute on function public.admin_save_image_collection(text, text, text, text[], uuid[], boolean, uuid) to authenticated;
+grant execute on function public.admin_delete_image_collection(uuid) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- get_session_leaderboard: optional per-collection board
+-- ---------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.get_session_leaderboard(timestamptz, timestamptz, text, int, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.get_session_leaderboard(
+  start_ts timestamptz DEFAULT NULL,
+  end_ts timestamptz DEFAULT NULL,
+  game_mode_filter text DEFAULT 'all',
+  limit_count int DEFAULT 100,
+  scoring_profile_filter text DEFAULT 'classic',
+  challenge_filter uuid DEFAULT NULL,
+  collection_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  center text,
+  total_games_played bigint,
+  total_score bigint,
+  best_single_game_score int,
+  average_score numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    up.id,
+    up.user_id,
+    up.username,
+    up.display_name,
+    up.avatar_url,
+    up.center,
+    count(gs.id)::bigint AS total_games_played,
+    coalesce(sum(gs.total_score), 0)::bigint AS total_score,
+    coalesce(max(gs.total_score), 0)::int AS best_single_game_score,
+    coalesce(round(avg(gs.total_score), 2), 0)::numeric AS average_score
+  FROM game_sessions gs
+  JOIN user_profiles up ON up.user_id = gs.user_id
+  WHERE gs.completed_at IS NOT NULL
+    AND gs.verified_at IS NOT NULL
+    AND gs.game_mode <> 'daily_archive'
+    AND gs.difficulty IS NULL
+    AND (start_ts IS NULL OR gs.completed_at >= start_ts)
+    AND (end_ts IS NULL OR gs.completed_at < end_ts)
+    AND (game_mode_filter = 'all' OR gs.game_mode = game_mode_filter)
+    AND (scoring_profile_filter = 'all' OR gs.scoring_profile = scoring_profile_filter)
+    AND (challenge_filter IS NULL OR gs.challenge_id = challenge_filter)
+    AND gs.collection_id IS NOT DISTINCT FROM collection_filter
+  GROUP BY up.id, up.user_id, up.username, up.display_name, up.avatar_url, up.center
+  ORDER BY total_score DESC
+  LIMIT limit_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_session_leaderboard(timestamptz, timestamptz, text, int, text, uuid, uuid) TO anon, authenticated;
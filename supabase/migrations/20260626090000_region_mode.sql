@@ -0,0 +1,253 @@
+-- ============================================================================
+-- REGION MODE: games bounded to one state or city.
+--
+--   game_regions             a bounding box (the seeded presets) or an
+--                            admin-drawn outline (polygon, [{lat, lng}, ...])
+--                            with its box alongside for cheap filtering.
+--   game_sessions.region_id  the region a game was played in.
+--
+-- The client draws only images inside the region and holds the guess map to
+-- it (src/utils/gameRegions.ts). Region games always score on the regional
+-- profile's kilometre bands, whatever the client asks for, so they rank on
+-- the Regional boards rather than alongside city-to-country guesses.
+-- ============================================================================
+
+create table public.game_regions (
+  id            uuid primary key default gen_random_uuid(),
+  slug          text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' and length(slug) <= 60),
+  name          text not null check (length(btrim(name)) between 1 and 60),
+  description   text check (description is null or length(description) <= 280),
+  south         double precision not null check (south between -85 and 85),
+  west          double precision not null check (west between -180 and 180),
+  north         double precision not null check (north between -85 and 85),
+  east          double precision not null check (east between -180 and 180),
+  polygon       jsonb check (polygon is null or jsonb_typeof(polygon) = 'array'),
+  is_preset     boolean not null default false,
+  is_published  boolean not null default true,
+  created_by    uuid references auth.users (id) on delete set null,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now(),
+  check (south < north and west < east)
+);
+
+alter table public.game_regions enable row level security;
+create policy "game_regions_read" on public.game_regions
+  for select to anon, authenticated using (is_published or public._is_admin());
+revoke insert, update, delete on public.game_regions from anon, authenticated;
+
+insert into public.game_regions (slug, name, south, west, north, east, is_preset) values
+  ('india',          'All of India',    6.5,   68.0,  35.7,  97.4,  true),
+  ('maharashtra',    'Maharashtra',     15.6,  72.6,  22.1,  80.9,  true),
+  ('gujarat',        'Gujarat',         20.1,  68.1,  24.7,  74.5,  true),
+  ('karnataka',      'Karnataka',       11.6,  74.0,  18.5,  78.6,  true),
+  ('kerala',         'Kerala',          8.2,   74.8,  12.8,  77.4,  true),
+  ('tamil-nadu',     'Tamil Nadu',      8.0,   76.2,  13.6,  80.4,  true),
+  ('west-bengal',    'West Bengal',     21.5,  85.8,  27.3,  89.9,  true),
+  ('mumbai',         'Mumbai',          18.89, 72.77, 19.30, 73.05, true),
+  ('delhi-ncr',      'Delhi NCR',       28.40, 76.84, 28.88, 77.35, true),
+  ('kolkata',        'Kolkata',         22.45, 88.25, 22.65, 88.45, true),
+  ('chennai',        'Chennai',         12.90, 80.15, 13.20, 80.32, true),
+  ('bengaluru',      'Bengaluru',       12.83, 77.45, 13.14, 77.78, true)
+on conflict (slug) do nothing;
+
+alter table public.game_sessions
+  add column if not exists region_id uuid references public.game_regions (id) on delete set null;
+
+-- ---------------------------------------------------------------------------
+-- Sessions: region games score on the regional profile
+-- ---------------------------------------------------------------------------
+create or replace function public._game_sessions_reset_on_insert()
+returns trigger
+language plpgsql set search_path = public, pg_temp as $$
+declare
+  v_challenge public.custom_challenges%rowtype;
+begin
+  new.total_score := 0;
+  new.rounds_completed := 0;
+  new.completed_at := null;
+  new.verified_at := null;
+  if new.game_mode not in ('timed', 'era', 'year_only', 'location_only') then
+    new.timer_type := null;
+  end if;
+  if new.game_mode is distinct from 'era' then
+    new.era_bucket_set := null;
+  else
+    new.era_bucket_set := coalesce(new.era_bucket_set, 'decades');
+  end if;
+
+  if new.game_mode = 'challenge' then
+    select * into v_challenge from public.custom_challenges where id = new.challenge_id;
+    if not found then
+      raise exception 'Challenge not found' using errcode = 'P0002';
+    end if;
+    new.scoring_profile := v_challenge.scoring_profile;
+    new.timer_type := case when v_challenge.timer_seconds is null then null else 'per-round' end;
+  else
+    new.challenge_id := null;
+  end if;
+
+  if new.game_mode = 'daily' then
+    new.daily_date := timezone('America/New_York', now())::date;
+  elsif new.game_mode = 'daily_archive' then
+    if new.daily_date is null
+       or new.daily_date >= timezone('America/New_York', now())::date then
+      raise exception 'Only past daily challenges can be replayed' using errcode = '22023';
+    end if;
+    if not exists (
+      select 1 from public.daily_challenges where challenge_date = new.daily_date
+    ) then
+      raise exception 'There is no daily challenge for %', new.daily_date using errcode = 'P0002';
+    end if;
+  else
+    new.daily_date := null;
+  end if;
+
+  if new.game_mode in ('daily', 'daily_archive', 'challenge') then
+    new.region_id := null;
+  elsif new.region_id is not null then
+    if not exists (
+      select 1 from public.game_regions where id = new.region_id and is_published
+    ) then
+      raise exception 'Region not found' using errcode = 'P0002';
+    end if;
+    new.scoring_profile := 'regional';
+  end if;
+  return new;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Admin RPCs
+-- ---------------------------------------------------------------------------
+
+-- Saves a drawn region; the bounding box is derived from the outline
+create or replace function public.admin_save_game_region(
+  p_name text,
+  p_slug text,
+  p_polygon jsonb,
+  p_description text default null,
+  p_is_published boolean default true,
+  p_region_id uuid default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_id uuid;
+  v_slug text := lower(btrim(coalesce(p_slug, '')));
+  v_points int;
+  v_south double precision;
+  v_west double precision;
+  v_north double precision;
+  v_east double precision;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  if coalesce(btrim(p_name), '') = '' or length(btrim(p_name)) > 60 then
+    raise exception 'A name of up to 60 characters is required' using errcode = '22023';
+  end if;
+  if v_slug !~ '^[a-z0-9]+(-[a-z0-9]+)*$' or length(v_slug) > 60 then
+    raise exception 'The slug may only use lowercase letters, digits and single dashes' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from public.game_regions where slug = v_slug and id is distinct from p_region_id
+  ) then
+    raise exception 'Another region already uses that slug' using errcode = '22023';
+  end if;
+
+  if p_polygon is null or jsonb_typeof(p_polygon) <> 'array' then
+    raise exception 'Draw the region''s outline' using errcode = '22023';
+  end if;
+  v_points := jsonb_array_length(p_polygon);
+  if v_points < 3 or v_points > 200 then
+    raise exception 'An outline needs 3 to 200 points' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(p_polygon) pt
+    where coalesce(jsonb_typeof(pt->'lat'), '') <> 'number'
+       or coalesce(jsonb_typeof(pt->'lng'), '') <> 'number'
+  ) then
+    raise exception 'Every point needs a valid lat and lng' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(p_polygon) pt
+    where (pt->>'lat')::double precision not between -85 and 85
+       or (pt->>'lng')::double precision not between -180 and 180
+  ) then
+    raise exception 'Every point needs a valid lat and lng' using errcode = '22023';
+  end if;
+
+  select min((pt->>'lat')::double precision), min((pt->>'lng')::double precision),
+         max((pt->>'lat')::double precision), max((pt->>'lng')::double precision)
+  into v_south, v_west, v_north, v_east
+  from jsonb_array_elements(p_polygon) pt;
+  if v_south >= v_north or v_west >= v_east then
+    raise exception 'The outline has no area' using errcode = '22023';
+  end if;
+
+  if p_region_id is null then
+    insert into public.game_regions
+      (slug, name, description, south, west, north, east, polygon, is_published, created_by)
+    values
+      (v_slug, btrim(p_name), nullif(btrim(coalesce(p_description, '')), ''),
+       v_south, v_west, v_north, v_east, p_polygon, coalesce(p_is_published, true), auth.uid())
+    returning id into v_id;
+  else
+    update public.game_regions
+    set slug = v_slug,
+        name = btrim(p_name),
+        description = nullif(btrim(coalesce(p_description, '')), ''),
+        south = v_south, west = v_west, north = v_north, east = v_east,
+        polygon = p_polygon,
+        is_published = coalesce(p_is_published, true),
+        updated_at = now()
+    where id = p_region_id and not is_preset
+    returning id into v_id;
+    if v_id is null then
+      raise exception 'Region not found, or it is a preset' using errcode = 'P0002';
+    end if;
+  end if;
+
+  return jsonb_build_object('ok', true, 'region_id', v_id);
+end $$;
+
+-- Presets can't be edited or deleted, only hidden
+create or replace function public.admin_set_game_region_published(p_region_id uuid, p_published boolean)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  update public.game_regions
+  set is_published = p_published, updated_at = now()
+  where id = p_region_id;
+  if not found then
+    raise exception 'Region not found' using errcode = 'P0002';
+  end if;
+  return jsonb_build_object('ok', true);
+end $$;
+
+create or replace function public.admin_delete_game_region(p_region_id uuid)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_preset boolean;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  select is_preset into v_preset from public.game_regions where id = p_region_id;
+  if not found then
+    raise exception 'Region not found' using errcode = 'P0002';
+  end if;
+  if v_preset then
+    raise exception 'Presets can be hidden but not deleted' using errcode = '55000';
+  end if;
+  delete from public.game_regions where id = p_region_id;
+  return jsonb_build_object('ok', true);
+end $$;
+
+grant execute on function public.admin_save_game_region(text, text, jsonb, text, boolean, uuid) to authenticated;
+grant execute on function public.admin_set_game_region_published(uuid, boolean) to authenticated;
+grant execute on function public.admin_delete_game_region(uuid) to authenticated;
@@ -0,0 +1,97 @@
+-- ============================================================================
+-- SAVED GAMES: resume an unfinished game after a refresh or on another device.
+--
+-- A game's state otherwise lives only in the tab playing it. The client keeps
+-- a snapshot of it (src/utils/savedGames.ts: the image sequence, results so
+-- far, current round, timer remaining) and saves it here for signed-in players
+-- as the game moves on; guests keep the same snapshot in localStorage.
+--
+-- One saved game per player: starting another game replaces it. The snapshot
+-- is tied to its game_sessions row, so resumed rounds keep scoring against the
+-- same session, and it is dropped as soon as that session completes. The
+-- snapshot is only a convenience for picking the game up again; scores still
+-- come from submit_round_guess, so editing it can't change a result.
+-- ============================================================================
+
+create table public.saved_games (
+  user_id     uuid primary key references auth.users (id) on delete cascade,
+  session_id  uuid not null references public.game_sessions (id) on delete cascade,
+  state       jsonb not null,
+  updated_at  timestamptz not null default now()
+);
+
+alter table public.saved_games enable row level security;
+create policy "saved_games_own_read" on public.saved_games
+  for select to authenticated using (user_id = auth.uid());
+revoke insert, update, delete on public.saved_games from anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Save / discard
+-- ---------------------------------------------------------------------------
+create or replace function public.save_game_progress(
+  p_session_id uuid,
+  p_state jsonb
+)
+returns void
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Sign in to save a game' using errcode = '28000';
+  end if;
+  if p_state is null or jsonb_typeof(p_state) <> 'object' then
+    raise exception 'Saved game state must be an object' using errcode = '22023';
+  end if;
+  -- Generous for ten rounds of images and results, but bounded
+  if pg_column_size(p_state) > 262144 then
+    raise exception 'Saved game state is too large' using errcode = '22023';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id;
+  if not found or v_session.user_id is distinct from v_user_id then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+
+  insert into public.saved_games (user_id, session_id, state, updated_at)
+  values (v_user_id, p_session_id, p_state, now())
+  on conflict (user_id) do update
+    set session_id = excluded.session_id,
+        state = excluded.state,
+        updated_at = excluded.updated_at;
+end $$;
+
+create or replace function public.discard_saved_game()
+returns void
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to manage saved games' using errcode = '28000';
+  end if;
+  delete from public.saved_games where user_id = auth.uid();
+end $$;
+
+grant execute on function public.save_game_progress(uuid, jsonb) to authenticated;
+grant execute on function public.discard_saved_game() to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- A finished game has nothing to resume
+-- ---------------------------------------------------------------------------
+create or replace function public._game_sessions_drop_saved_game()
+returns trigger
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  delete from public.saved_games where session_id = new.id;
+  return new;
+end $$;
+
+drop trigger if exists trg_game_sessions_drop_saved_game on public.game_sessions;
+create trigger trg_game_sessions_drop_saved_game
+  after update of completed_at on public.game_sessions
+  for each row
+  when (old.completed_at is null and new.completed_at is not null)
+  execute function public._game_sessions_drop_saved_game();
@@ -0,0 +1,153 @@
+-- ============================================================================
+-- GAME REPLAYS: /game/:sessionId plays a finished game back round by round.
+--
+-- round_results already has the guesses, answers, scores and time per round,
+-- but only an image_id for the photo, and game_images can be edited or
+-- deleted after the game. Each round now keeps its own copy of the photo URL,
+-- place name and description, taken by a trigger as the row is written, so a
+-- replay shows what the player actually saw. Rounds written before this keep
+-- today's copy from game_images.
+--
+-- A replay is private to its player until they share it:
+--
+--   set_game_replay_public  owner only, on a finished game
+--   get_game_replay         the session and its rounds, for the owner, an
+--                           admin, or anyone once the replay is public
+--
+-- The client rebuilds each round's GuessResult from these rows (see
+-- src/utils/gameReplay.ts).
+-- ============================================================================
+
+alter table public.round_results
+  add column if not exists image_url text,
+  add column if not exists location_name text,
+  add column if not exists image_description text;
+
+alter table public.game_sessions
+  add column if not exists is_public boolean not null default false;
+
+-- ---------------------------------------------------------------------------
+-- Each round keeps the photo it was played with
+-- ---------------------------------------------------------------------------
+create or replace function public._round_results_snapshot_image()
+returns trigger
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  select image_url, location_name, description
+  into new.image_url, new.location_name, new.image_description
+  from public.game_images where id = new.image_id;
+  return new;
+end $$;
+
+drop trigger if exists trg_round_results_snapshot_image on public.round_results;
+create trigger trg_round_results_snapshot_image
+  before insert on public.round_results
+  for each row
+  when (new.image_id is not null and new.image_url is null)
+  execute function public._round_results_snapshot_image();
+
+update public.round_results rr
+set image_url = gi.image_url,
+    location_name = gi.location_name,
+    image_description = gi.description
+from public.game_images gi
+where gi.id = rr.image_id and rr.image_url is null;
+
+-- ---------------------------------------------------------------------------
+-- Sharing
+-- ---------------------------------------------------------------------------
+create or replace function public.set_game_replay_public(
+  p_session_id uuid,
+  p_public boolean
+)
+returns void
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_session public.game_sessions%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to share a replay' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from auth.uid() then
+    raise exception 'Game not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is null then
+    raise exception 'Only finished games can be shared' using errcode = '55000';
+  end if;
+
+  update public.game_sessions
+  set is_public = coalesce(p_public, false)
+  where id = p_session_id;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Reading a replay
+-- ---------------------------------------------------------------------------
+create or replace function public.get_game_replay(p_session_id uuid)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v_session public.game_sessions%rowtype;
+  v_is_owner boolean;
+begin
+  select * into v_session from public.game_sessions where id = p_session_id;
+  if not found then
+    raise exception 'Replay not found' using errcode = 'P0002';
+  end if;
+
+  v_is_owner := auth.uid() is not null and v_session.user_id = auth.uid();
+  if not (v_is_owner or v_session.is_public or public._is_admin()) then
+    raise exception 'This replay is private' using errcode = '42501';
+  end if;
+  if v_session.completed_at is null then
+    raise exception 'This game is not finished yet' using errcode = '55000';
+  end if;
+
+  return jsonb_build_object(
+    'session_id', v_session.id,
+    'game_mode', v_session.game_mode,
+    'scoring_profile', v_session.scoring_profile,
+    'timer_type', v_session.timer_type,
+    'era_bucket_set', v_session.era_bucket_set,
+    'region_id', v_session.region_id,
+    'total_score', v_session.total_score,
+    'rounds_completed', v_session.rounds_completed,
+    'time_taken', v_session.time_taken,
+    'completed_at', v_session.completed_at,
+    'is_public', v_session.is_public,
+    'is_owner', v_is_owner,
+    'username', (select username from public.user_profiles where user_id = v_session.user_id),
+    'rounds', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'round_number', rr.round_number,
+        'image_id', rr.image_id,
+        'image_url', rr.image_url,
+        'location_name', rr.location_name,
+        'image_description', rr.image_description,
+        'year_guess', rr.year_guess,
+        'actual_year', rr.actual_year,
+        'location_guess_lat', rr.location_guess_lat,
+        'location_guess_lng', rr.location_guess_lng,
+        'actual_location_lat', rr.actual_location_lat,
+        'actual_location_lng', rr.actual_location_lng,
+        'year_score', rr.year_score,
+        'location_score', rr.location_score,
+        'total_round_score', rr.total_round_score,
+        'time_bonus', rr.time_bonus,
+        'display_score', rr.display_score,
+        'distance_km', rr.distance_km,
+        'time_used', rr.time_used,
+        'year_margin', rr.year_margin,
+        'radius_km', rr.radius_km,
+        'hints_used', rr.hints_used
+      ) order by rr.round_number)
+      from public.round_results rr
+      where rr.session_id = v_session.id and rr.display_score is not null
+    ), '[]'::jsonb)
+  );
+end $$;
+
+grant execute on function public.set_game_replay_public(uuid, boolean) to authenticated;
+grant execute on function public.get_game_replay(uuid) to anon, authenticated;
@@ -0,0 +1,50 @@
+-- ============================================================================
+-- PLAYER ANALYTICS: the profile's Analytics tab, built from round_results.
+--
+-- user_profiles only keeps running totals. get_my_round_history returns the
+-- caller's own server-scored rounds (newest first, capped) with the game mode
+-- they were played in; the histograms, per-decade and per-region accuracy,
+-- trend and worst misses are all worked out in the browser
+-- (src/utils/playerStats.ts), so new charts don't need new SQL.
+-- ============================================================================
+
+create index if not exists idx_round_results_user_created
+  on public.round_results (user_id, created_at desc) where display_score is not null;
+
+create or replace function public.get_my_round_history(p_limit int default 1000)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to see your statistics' using errcode = '28000';
+  end if;
+  p_limit := least(greatest(coalesce(p_limit, 1000), 1), 5000);
+
+  return coalesce((
+    select jsonb_agg(to_jsonb(r) order by r.played_at desc)
+    from (
+      select rr.created_at as played_at,
+             gs.game_mode,
+             rr.session_id,
+             rr.round_number,
+             rr.image_id,
+             rr.image_url,
+             rr.location_name,
+             rr.actual_year,
+             rr.year_guess,
+             rr.actual_location_lat,
+             rr.actual_location_lng,
+             rr.distance_km,
+             rr.year_score,
+             rr.location_score,
+             rr.display_score
+      from public.round_results rr
+      join public.game_sessions gs on gs.id = rr.session_id
+      where rr.user_id = auth.uid() and rr.display_score is not null
+      order by rr.created_at desc
+      limit p_limit
+    ) r
+  ), '[]'::jsonb);
+end $$;
+
+grant execute on function public.get_my_round_history(int) to authenticated;
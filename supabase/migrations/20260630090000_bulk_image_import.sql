@@ -0,0 +1,194 @@
+-- ============================================================================
+-- BULK IMAGE IMPORT: loading an archivist's manifest into game_images.
+--
+-- Until now images arrived one at a time (admin_approve_photo_submission or
+-- hand-written SQL). admin_import_images takes a whole manifest, already
+-- parsed client-side (src/utils/imageManifest.ts), and checks every row again:
+-- the same field rules as the client, then duplicates of the catalogue or of
+-- an earlier row (same URL, or the same year within ~50 m).
+--
+-- It always runs as a dry run first. Called without p_confirm_token it only
+-- reports and returns a token for exactly those rows; called again with the
+-- token it inserts the rows that are still clean. A manifest edited after its
+-- dry run no longer matches its token and is refused.
+--
+-- Exports need no SQL: admins read game_images directly.
+-- ============================================================================
+
+-- URLs compare without surrounding whitespace, case or a trailing slash, as
+-- normalizeImageUrl does client-side
+create or replace function public._normalize_image_url(p_url text)
+returns text
+language sql immutable set search_path = public, pg_temp as $$
+  select regexp_replace(lower(btrim(p_url)), '/+$', '');
+$$;
+
+create index if not exists idx_game_images_normalized_url
+  on public.game_images (public._normalize_image_url(image_url));
+create index if not exists idx_game_images_year_location
+  on public.game_images (year, location_lat, location_lng);
+
+create or replace function public.admin_import_images(p_rows jsonb, p_confirm_token text default null)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  -- Two photos of the same year this close are the same photo
+  c_tolerance constant float8 := 0.0005;
+  v_dry_run boolean := p_confirm_token is null;
+  v_token text;
+  v_max_year int := extract(year from now())::int;
+  v_row jsonb;
+  v_index bigint;
+  v_line int;
+  v_errors text[];
+  v_url text;
+  v_year int;
+  v_lat float8;
+  v_lng float8;
+  v_location text;
+  v_description text;
+  v_tags text[];
+  v_duplicate jsonb;
+  v_image_id uuid;
+  v_seen jsonb := '[]'::jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_inserted int := 0;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  if jsonb_typeof(p_rows) is distinct from 'array' then
+    raise exception 'Rows must be a JSON array' using errcode = '22023';
+  end if;
+  if jsonb_array_length(p_rows) > 1000 then
+    raise exception 'A manifest can hold at most 1000 images' using errcode = '22023';
+  end if;
+
+  v_token := md5(p_rows::text);
+  if not v_dry_run and p_confirm_token <> v_token then
+    raise exception 'The manifest changed since its dry run; run the dry run again'
+      using errcode = '55000';
+  end if;
+
+  for v_row, v_index in select value, ordinality from jsonb_array_elements(p_rows) with ordinality loop
+    v_errors := '{}';
+    v_duplicate := null;
+    v_image_id := null;
+    v_line := case when (v_row->>'line') ~ '^\d{1,6}$' then (v_row->>'line')::int else v_index::int end;
+
+    v_url := btrim(coalesce(v_row->>'image_url', ''));
+    if v_url = '' then
+      v_errors := v_errors || 'Image URL is required'::text;
+    elsif v_url !~* '^https?://\S+$' then
+      v_errors := v_errors || 'Image URL must be an http(s) link'::text;
+    elsif length(v_url) > 2048 then
+      v_errors := v_errors || 'Image URL must be less than 2048 characters'::text;
+    end if;
+
+    v_year := case when jsonb_typeof(v_row->'year') = 'number' and (v_row->>'year') ~ '^-?\d{1,6}$'
+                   then (v_row->>'year')::int end;
+    if v_year is null then
+      v_errors := v_errors || 'Year is required'::text;
+    elsif v_year not between 1800 and v_max_year then
+      v_errors := v_errors || format('Year must be between 1800 and %s', v_max_year);
+    end if;
+
+    v_lat := case when jsonb_typeof(v_row->'lat') = 'number' then (v_row->>'lat')::float8 end;
+    v_lng := case when jsonb_typeof(v_row->'lng') = 'number' then (v_row->>'lng')::float8 end;
+    if v_lat is null or v_lng is null then
+      v_errors := v_errors || 'Latitude and longitude are required'::text;
+    elsif v_lat not between -90 and 90 or v_lng not between -180 and 180 then
+      v_errors := v_errors || 'Latitude must be between -90 and 90 and longitude between -180 and 180'::text;
+    end if;
+
+    v_location := btrim(coalesce(v_row->>'location_name', ''));
+    if v_location = '' then
+      v_errors := v_errors || 'Location name is required'::text;
+    elsif length(v_location) > 500 then
+      v_errors := v_errors || 'Location name must be less than 500 characters'::text;
+    end if;
+
+    v_description := btrim(coalesce(v_row->>'description', ''));
+    if v_description = '' then
+      v_errors := v_errors || 'Description is required'::text;
+    elsif length(v_description) > 1000 then
+      v_errors := v_errors || 'Description must be less than 1000 characters'::text;
+    end if;
+
+    begin
+      v_tags := public._normalize_image_tags(
+        case when jsonb_typeof(v_row->'tags') = 'array'
+             then array(select jsonb_array_elements_text(v_row->'tags'))
+             else '{}' end
+      );
+    exception when invalid_parameter_value then
+      v_errors := v_errors || sqlerrm;
+    end;
+
+    if cardinality(v_errors) = 0 then
+      -- Same order as findManifestDuplicates: URL before place, and the file
+      -- before the catalogue (on the real run earlier rows are already in it)
+      select jsonb_build_object('kind', 'url', 'line', (s->>'line')::int) into v_duplicate
+      from jsonb_array_elements(v_seen) s
+      where s->>'url' = public._normalize_image_url(v_url)
+      limit 1;
+
+      if v_duplicate is null then
+        select jsonb_build_object('kind', 'url', 'image_id', id) into v_duplicate
+        from public.game_images
+        where public._normalize_image_url(image_url) = public._normalize_image_url(v_url)
+        limit 1;
+      end if;
+
+      if v_duplicate is null then
+        select jsonb_build_object('kind', 'location', 'line', (s->>'line')::int) into v_duplicate
+        from jsonb_array_elements(v_seen) s
+        where (s->>'year')::int = v_year
+          and abs((s->>'lat')::float8 - v_lat) <= c_tolerance
+          and abs((s->>'lng')::float8 - v_lng) <= c_tolerance
+        limit 1;
+      end if;
+
+      if v_duplicate is null then
+        select jsonb_build_object('kind', 'location', 'image_id', id) into v_duplicate
+        from public.game_images
+        where year = v_year
+          and location_lat between v_lat - c_tolerance and v_lat + c_tolerance
+          and location_lng between v_lng - c_tolerance and v_lng + c_tolerance
+        limit 1;
+      end if;
+    end if;
+
+    if cardinality(v_errors) = 0 and v_duplicate is null then
+      v_seen := v_seen || jsonb_build_object(
+        'line', v_line, 'url', public._normalize_image_url(v_url), 'year', v_year, 'lat', v_lat, 'lng', v_lng
+      );
+      if not v_dry_run then
+        insert into public.game_images (image_url, year, location_lat, location_lng, location_name, description, tags)
+        values (v_url, v_year, v_lat, v_lng, v_location, v_description, v_tags)
+        returning id into v_image_id;
+        v_inserted := v_inserted + 1;
+      end if;
+    end if;
+
+    v_results := v_results || jsonb_build_object(
+      'line', v_line,
+      'status', case when cardinality(v_errors) > 0 then 'invalid'
+                     when v_duplicate is not null then 'duplicate'
+                     when v_dry_run then 'ok'
+                     else 'inserted' end,
+      'errors', to_jsonb(v_errors),
+      'duplicate', v_duplicate,
+      'image_id', v_image_id
+    );
+  end loop;
+
+  return jsonb_build_object(
+    'dry_run', v_dry_run,
+    'confirm_token', v_token,
+    'inserted', v_inserted,
+    'rows', v_results
+  );
+end $$;
+
+grant execute on function public.admin_import_images(jsonb, text) to authenticated;
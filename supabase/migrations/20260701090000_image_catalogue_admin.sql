@@ -0,0 +1,195 @@
+-- ============================================================================
+-- IMAGE CATALOGUE ADMIN: editing, retiring and reviewing game_images.
+--
+--   game_images.status   'active'  dealt to players
+--                        'retired' kept in the catalogue but no longer dealt
+--                                  (worn out, too easy, superseded)
+--                        'deleted' soft-deleted: hidden from the admin list by
+--                                  default and never dealt, but kept so the
+--                                  rounds, dailies and replays that used it
+--                                  still resolve
+--
+-- Only active images are dealt: the client pool (src/utils/imagePool.ts)
+-- filters on status, and duel_start draws from active images only. Dailies,
+-- challenges and collections that already name a retired image keep it.
+--
+-- admin_update_image edits year, location and description with the same rules
+-- as admin_approve_photo_submission; admin_image_usage summarises how an image
+-- has played.
+-- ============================================================================
+
+alter table public.game_images
+  add column if not exists status text not null default 'active'
+    check (status in ('active', 'retired', 'deleted')),
+  add column if not exists status_changed_at timestamptz;
+
+create index if not exists idx_game_images_status on public.game_images (status);
+
+-- ---------------------------------------------------------------------------
+-- duel_start: as in 20260620090000, drawing from active images only
+-- ---------------------------------------------------------------------------
+create or replace function public.duel_start(p_token uuid)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_player public.duel_players%rowtype;
+  v_duel public.duels%rowtype;
+  v_team1 int;
+  v_team2 int;
+  v_images uuid[];
+begin
+  v_player := public._duel_player_by_token(p_token);
+
+  select * into v_duel from public.duels where id = v_player.duel_id for update;
+  if v_duel.status <> 'waiting' then
+    raise exception 'Duel already started' using errcode = '55000';
+  end if;
+  if not v_player.is_host then
+    raise exception 'Only the host can start the duel' using errcode = '42501';
+  end if;
+  select count(*) filter (where team = 1), count(*) filter (where team = 2)
+  into v_team1, v_team2
+  from public.duel_players where duel_id = v_duel.id;
+  if v_team1 < public.duel_team_size(v_duel.format)
+     or v_team2 < public.duel_team_size(v_duel.format) then
+    raise exception 'Both sides need to be full before starting' using errcode = '55000';
+  end if;
+
+  select array_agg(id) into v_images
+  from (
+    select id from public.game_images
+    where status = 'active'
+    order by random() limit 40 * v_duel.best_of
+  ) s;
+  if coalesce(array_length(v_images, 1), 0) < 5 then
+    raise exception 'Not enough images available' using errcode = '55000';
+  end if;
+
+  insert into public.duel_secrets (duel_id, image_ids) values (v_duel.id, v_images);
+
+  perform public._duel_create_round(v_duel.id, 1);
+
+  update public.duels
+  set status = 'active', current_round = 1, started_at = now(), updated_at = now()
+  where id = v_duel.id;
+
+  return jsonb_build_object('started', true, 'server_time', now());
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Admin RPCs
+-- ---------------------------------------------------------------------------
+create or replace function public.admin_update_image(
+  p_image_id uuid,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_location_name text,
+  p_description text
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  if coalesce(btrim(p_location_name), '') = '' then
+    raise exception 'Location name is required' using errcode = '22023';
+  end if;
+  if length(btrim(p_location_name)) > 500 then
+    raise exception 'Location name must be less than 500 characters' using errcode = '22023';
+  end if;
+  if coalesce(btrim(p_description), '') = '' then
+    raise exception 'Description is required' using errcode = '22023';
+  end if;
+  if length(btrim(p_description)) > 1000 then
+    raise exception 'Description must be less than 1000 characters' using errcode = '22023';
+  end if;
+  if p_year is null or p_year not between 1800 and 2100 then
+    raise exception 'Year must be between 1800 and 2100' using errcode = '22023';
+  end if;
+  if p_lat is null or p_lat not between -90 and 90
+     or p_lng is null or p_lng not between -180 and 180 then
+    raise exception 'Valid map coordinates are required' using errcode = '22023';
+  end if;
+
+  update public.game_images
+  set year = p_year,
+      location_lat = p_lat,
+      location_lng = p_lng,
+      location_name = btrim(p_location_name),
+      description = btrim(p_description)
+  where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  return jsonb_build_object('ok', true);
+end $$;
+
+create or replace function public.admin_set_image_status(p_image_id uuid, p_status text)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  if p_status is null or p_status not in ('active', 'retired', 'deleted') then
+    raise exception 'Status must be active, retired or deleted' using errcode = '22023';
+  end if;
+
+  update public.game_images
+  set status = p_status,
+      status_changed_at = case when status is distinct from p_status then now() else status_changed_at end
+  where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  return jsonb_build_object('ok', true, 'status', p_status);
+end $$;
+
+-- How an image has played: its rounds (server-scored ones for the scores),
+-- and where else it is used
+create or replace function public.admin_image_usage(p_image_id uuid)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v jsonb;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  if not exists (select 1 from public.game_images where id = p_image_id) then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  select jsonb_build_object(
+    'rounds', count(*),
+    'players', count(distinct rr.user_id),
+    'avg_score', round(avg(rr.display_score)::numeric, 0),
+    'best_score', max(rr.display_score),
+    'worst_score', min(rr.display_score),
+    'avg_year_error', round(avg(abs(rr.year_guess - rr.actual_year)) filter (where rr.year_guess is not null), 1),
+    'exact_year_rate', round(avg((rr.year_guess = rr.actual_year)::int) filter (where rr.year_guess is not null), 3),
+    'avg_distance_km', round(avg(rr.distance_km) filter (where rr.distance_km is not null)::numeric, 1),
+    'first_played_at', min(rr.created_at),
+    'last_played_at', max(rr.created_at)
+  )
+  into v
+  from public.round_results rr
+  where rr.image_id = p_image_id;
+
+  return v || jsonb_build_object(
+    'daily_challenges', (select count(*) from public.daily_challenges where p_image_id::text = any(image_ids::text[])),
+    'custom_challenges', (select count(*) from public.custom_challenges where p_image_id = any(image_ids)),
+    'collections', (
+      select count(*) from public.image_collections c, public.game_images g
+      where g.id = p_image_id and (p_image_id = any(c.image_ids) or c.tag_filter && g.tags)
+    )
+  );
+end $$;
+
+grant execute on function public.admin_update_image(uuid, int, float8, float8, text, text) to authenticated;
+grant execute on function public.admin_set_image_status(uuid, text) to authenticated;
+grant execute on function public.admin_image_usage(uuid) to authenticated;
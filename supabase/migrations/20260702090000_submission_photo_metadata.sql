@@ -0,0 +1,47 @@
+-- ============================================================================
+-- PHOTO METADATA FOR REVIEWERS: admin_list_photo_submissions now returns
+-- photo_metadata.
+--
+-- The submission form reads EXIF/XMP in the browser (src/utils/photoMetadata.ts)
+-- and pre-fills year, location and description from it. What it read is kept
+-- in photo_submissions.photo_metadata (jsonb, already written on insert) under
+-- `embedded`, with `prefilled` listing the fields the submitter left as
+-- pre-filled. The review dialog shows it and seeds the pin from any GPS.
+-- Same shape as before otherwise.
+-- ============================================================================
+
+create or replace function public.admin_list_photo_submissions(p_limit int default 200)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v_limit int := least(greatest(coalesce(p_limit, 200), 1), 500);
+  v jsonb;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'submitter_name', submitter_name,
+    'email', email,
+    'photo_url', photo_url,
+    'location_description', location_description,
+    'year_taken', year_taken,
+    'year_confidence', year_confidence,
+    'description', description,
+    'clues_description', clues_description,
+    'photo_metadata', photo_metadata,
+    'status', coalesce(status, 'pending'),
+    'admin_notes', admin_notes,
+    'rejection_reason', rejection_reason,
+    'approval_date', approval_date,
+    'user_id', user_id,
+    'created_at', created_at
+  ) order by created_at desc), '[]'::jsonb)
+  into v
+  from (select * from public.photo_submissions order by created_at desc limit v_limit) s;
+  return v;
+end $$;
+
+grant execute on function public.admin_list_photo_submissions(int) to authenticated;
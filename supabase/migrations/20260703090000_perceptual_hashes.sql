@@ -0,0 +1,96 @@
+-- ============================================================================
+-- PERCEPTUAL HASHES: spotting submissions that are already in the game.
+--
+-- game_images.perceptual_hash and photo_submissions.perceptual_hash hold a
+-- 64-bit pHash as 16 hex characters (src/utils/perceptualHash.ts). Resized,
+-- recompressed or lightly cropped copies of a photo land a few bits apart, so
+-- matching is a Hamming distance, done in the browser against the public
+-- catalogue: the submission form warns the submitter on upload, and the
+-- review dialog lists likely matches before approval.
+--
+-- Hashes are computed from pixels, so the browser computes them too: the
+-- submission form stores its upload's hash on insert, and admins fill in the
+-- catalogue's (existing, imported or approved images) through
+-- admin_set_image_hashes. A submitter can only misreport the hash of their
+-- own submission, which only weakens the hint for that one review.
+-- ============================================================================
+
+alter table public.game_images
+  add column if not exists perceptual_hash text
+    check (perceptual_hash ~ '^[0-9a-f]{16}$');
+
+alter table public.photo_submissions
+  add column if not exists perceptual_hash text
+    check (perceptual_hash ~ '^[0-9a-f]{16}$');
+
+-- p_hashes: [{ "id": uuid, "hash": text }]. Returns how many images were updated.
+create or replace function public.admin_set_image_hashes(p_hashes jsonb)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_updated int;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  if jsonb_typeof(p_hashes) is distinct from 'array' then
+    raise exception 'Hashes must be a list' using errcode = '22023';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(p_hashes) e
+    where coalesce(e->>'hash', '') !~ '^[0-9a-f]{16}$'
+       or coalesce(e->>'id', '') !~ '^[0-9a-f-]{36}$'
+  ) then
+    raise exception 'Each hash needs an image id and 16 hex characters' using errcode = '22023';
+  end if;
+
+  update public.game_images g
+  set perceptual_hash = e->>'hash'
+  from jsonb_array_elements(p_hashes) e
+  where g.id = (e->>'id')::uuid;
+  get diagnostics v_updated = row_count;
+
+  return jsonb_build_object('updated', v_updated);
+end $$;
+
+grant execute on function public.admin_set_image_hashes(jsonb) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- admin_list_photo_submissions: as in 20260702090000, plus perceptual_hash
+-- ---------------------------------------------------------------------------
+create or replace function public.admin_list_photo_submissions(p_limit int default 200)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v_limit int := least(greatest(coalesce(p_limit, 200), 1), 500);
+  v jsonb;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'submitter_name', submitter_name,
+    'email', email,
+    'photo_url', photo_url,
+    'location_description', location_description,
+    'year_taken', year_taken,
+    'year_confidence', year_confidence,
+    'description', description,
+    'clues_description', clues_description,
+    'photo_metadata', photo_metadata,
+    'perceptual_hash', perceptual_hash,
+    'status', coalesce(status, 'pending'),
+    'admin_notes', admin_notes,
+    'rejection_reason', rejection_reason,
+    'approval_date', approval_date,
+    'user_id', user_id,
+    'created_at', created_at
+  ) order by created_at desc), '[]'::jsonb)
+  into v
+  from (select * from public.photo_submissions order by created_at desc limit v_limit) s;
+  return v;
+end $$;
+
+grant execute on function public.admin_list_photo_submissions(int) to authenticated;
@@ -0,0 +1,553 @@
+-- ============================================================================
+-- SUBMISSION REVIEW WORKFLOW: reviewers, a conversation with the submitter,
+-- and a record of every status change.
+--
+-- A status change used to be one update that overwrote the previous one, and
+-- 'needs_info' had no way to say what was needed or to hear back. Now each
+-- submission has a thread in photo_submission_events holding three kinds of
+-- entry: comments (from an admin or the submitter), status changes (who, from,
+-- to, and a note) and assignments. Admin comments and notes can be internal;
+-- submitters never see those, nor reviewer names.
+--
+-- The needs_info round trip: an admin asks a question (required), the
+-- submitter sees it under My submissions in their profile, edits the details
+-- and resubmits, which puts the submission back to pending.
+--
+-- Submissions are assigned to admins; assigning a pending one starts its
+-- review. An approved submission's status is final, since its image is
+-- already in the game.
+--
+-- Events are only read and written through the RPCs below.
+-- ============================================================================
+
+alter table public.photo_submissions
+  add column if not exists assigned_to uuid references auth.users (id) on delete set null,
+  add column if not exists assigned_at timestamptz;
+
+create index if not exists idx_photo_submissions_assigned_to on public.photo_submissions (assigned_to);
+create index if not exists idx_photo_submissions_user_id on public.photo_submissions (user_id);
+
+create table public.photo_submission_events (
+  id             uuid primary key default gen_random_uuid(),
+  submission_id  uuid not null references public.photo_submissions (id) on delete cascade,
+  actor_id       uuid references auth.users (id) on delete set null,
+  actor_role     text not null check (actor_role in ('admin', 'submitter')),
+  kind           text not null check (kind in ('comment', 'status', 'assignment')),
+  from_status    text,
+  to_status      text,
+  assignee_id    uuid references auth.users (id) on delete set null,
+  body           text check (length(body) <= 2000),
+  internal       boolean not null default false,
+  created_at     timestamptz not null default now()
+);
+
+create index idx_photo_submission_events_submission
+  on public.photo_submission_events (submission_id, created_at);
+
+alter table public.photo_submission_events enable row level security;
+revoke all on public.photo_submission_events from anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+-- ---------------------------------------------------------------------------
+create or replace function public._log_submission_event(
+  p_submission_id uuid,
+  p_actor_role text,
+  p_kind text,
+  p_body text default null,
+  p_internal boolean default false,
+  p_from_status text default null,
+  p_to_status text default null,
+  p_assignee_id uuid default null
+)
+returns void
+language sql security definer set search_path = public, pg_temp as $$
+  insert into public.photo_submission_events
+    (submission_id, actor_id, actor_role, kind, from_status, to_status, assignee_id, body, internal)
+  values
+    (p_submission_id, auth.uid(), p_actor_role, p_kind, p_from_status, p_to_status, p_assignee_id,
+     nullif(btrim(p_body), ''), coalesce(p_internal, false));
+$$;
+revoke execute on function public._log_submission_event(uuid, text, text, text, boolean, text, text, uuid)
+  from public, anon, authenticated;
+
+create or replace function public._user_display_name(p_user_id uuid)
+returns text
+language sql stable security definer set search_path = public, pg_temp as $$
+  select coalesce(nullif(btrim(display_name), ''), username)
+  from public.user_profiles where user_id = p_user_id;
+$$;
+revoke execute on function public._user_display_name(uuid) from public, anon, authenticated;
+
+-- Comments and notes share the events.body limit
+create or replace function public._check_submission_comment(p_body text)
+returns void
+language plpgsql immutable set search_path = public, pg_temp as $$
+begin
+  if coalesce(btrim(p_body), '') = '' then
+    raise exception 'Write a message first' using errcode = '22023';
+  end if;
+  if length(btrim(p_body)) > 2000 then
+    raise exception 'Messages must be less than 2000 characters' using errcode = '22023';
+  end if;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Admin RPCs
+-- ---------------------------------------------------------------------------
+
+-- As in 20260702090000, plus assignment and thread state
+create or replace function public.admin_list_photo_submissions(p_limit int default 200)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v_limit int := least(greatest(coalesce(p_limit, 200), 1), 500);
+  v jsonb;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'submitter_name', s.submitter_name,
+    'email', s.email,
+    'photo_url', s.photo_url,
+    'location_description', s.location_description,
+    'year_taken', s.year_taken,
+    'year_confidence', s.year_confidence,
+    'description', s.description,
+    'clues_description', s.clues_description,
+    'photo_metadata', s.photo_metadata,
+    'perceptual_hash', s.perceptual_hash,
+    'status', coalesce(s.status, 'pending'),
+    'admin_notes', s.admin_notes,
+    'rejection_reason', s.rejection_reason,
+    'approval_date', s.approval_date,
+    'user_id', s.user_id,
+    'created_at', s.created_at,
+    'updated_at', s.updated_at,
+    'assigned_to', s.assigned_to,
+    'assignee_name', public._user_display_name(s.assigned_to),
+    'last_status_change', (
+      select jsonb_build_object('at', e.created_at, 'to_status', e.to_status, 'actor_role', e.actor_role,
+                                'actor_name', public._user_display_name(e.actor_id))
+      from public.photo_submission_events e
+      where e.submission_id = s.id and e.kind = 'status'
+      order by e.created_at desc limit 1
+    ),
+    -- The submitter has written or resubmitted since an admin last did anything
+    'reply_waiting', coalesce((
+      select e.actor_role = 'submitter'
+      from public.photo_submission_events e
+      where e.submission_id = s.id
+      order by e.created_at desc limit 1
+    ), false)
+  ) order by s.created_at desc), '[]'::jsonb)
+  into v
+  from (select * from public.photo_submissions order by created_at desc limit v_limit) s;
+  return v;
+end $$;
+
+-- The whole thread, internal entries included, oldest first
+create or replace function public.admin_list_photo_submission_events(p_id uuid)
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v jsonb;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', e.id,
+    'kind', e.kind,
+    'actor_role', e.actor_role,
+    'actor_name', case when e.actor_role = 'submitter'
+                       then coalesce(public._user_display_name(e.actor_id), s.submitter_name)
+                       else public._user_display_name(e.actor_id) end,
+    'from_status', e.from_status,
+    'to_status', e.to_status,
+    'assignee_name', public._user_display_name(e.assignee_id),
+    'body', e.body,
+    'internal', e.internal,
+    'created_at', e.created_at
+  ) order by e.created_at, e.id), '[]'::jsonb)
+  into v
+  from public.photo_submission_events e
+  join public.photo_submissions s on s.id = e.submission_id
+  where e.submission_id = p_id;
+  return v;
+end $$;
+
+-- Admins a submission can be assigned to
+create or replace function public.admin_list_reviewers()
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v jsonb;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'user_id', user_id,
+    'name', public._user_display_name(user_id)
+  ) order by public._user_display_name(user_id)), '[]'::jsonb)
+  into v
+  from public.user_profiles
+  where is_admin = true and user_id is not null;
+  return v;
+end $$;
+
+-- Assign to an admin, or unassign with null. Assigning a pending submission
+-- starts its review.
+create or replace function public.admin_assign_photo_submission(p_id uuid, p_assignee uuid)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_sub public.photo_submissions%rowtype;
+  v_status text;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select * into v_sub from public.photo_submissions where id = p_id for update;
+  if not found then
+    raise exception 'Submission not found' using errcode = 'P0002';
+  end if;
+  if p_assignee is not null and not exists (
+    select 1 from public.user_profiles where user_id = p_assignee and is_admin = true
+  ) then
+    raise exception 'Submissions can only be assigned to admins' using errcode = '22023';
+  end if;
+
+  v_status := coalesce(v_sub.status, 'pending');
+  if v_sub.assigned_to is not distinct from p_assignee then
+    return jsonb_build_object('ok', true, 'status', v_status);
+  end if;
+
+  update public.photo_submissions
+  set assigned_to = p_assignee,
+      assigned_at = case when p_assignee is null then null else now() end,
+      updated_at = now()
+  where id = p_id;
+  perform public._log_submission_event(p_id, 'admin', 'assignment', null, true, null, null, p_assignee);
+
+  if p_assignee is not null and v_status = 'pending' then
+    update public.photo_submissions set status = 'reviewing' where id = p_id;
+    perform public._log_submission_event(p_id, 'admin', 'status', null, true, 'pending', 'reviewing');
+    v_status := 'reviewing';
+  end if;
+
+  return jsonb_build_object('ok', true, 'status', v_status);
+end $$;
+
+create or replace function public.admin_comment_photo_submission(
+  p_id uuid, p_body text, p_internal boolean default false
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  perform public._check_submission_comment(p_body);
+  if not exists (select 1 from public.photo_submissions where id = p_id) then
+    raise exception 'Submission not found' using errcode = 'P0002';
+  end if;
+
+  perform public._log_submission_event(p_id, 'admin', 'comment', p_body, p_internal);
+  update public.photo_submissions set updated_at = now() where id = p_id;
+  return jsonb_build_object('ok', true);
+end $$;
+
+-- As in 20260611031924, now recorded in the thread and with p_message, the
+-- note the submitter sees (required when asking them for more information).
+-- Rejection reasons and admin notes stay internal.
+drop function if exists public.admin_set_photo_submission_status(uuid, text, text, text);
+
+create or replace function public.admin_set_photo_submission_status(
+  p_id uuid,
+  p_status text,
+  p_notes text default null,
+  p_rejection_reason text default null,
+  p_message text default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_sub public.photo_submissions%rowtype;
+  v_from text;
+  v_message text := nullif(btrim(p_message), '');
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+  if p_status not in ('pending', 'reviewing', 'rejected', 'needs_info') then
+    raise exception 'Invalid status (use the approve action to approve)' using errcode = '22023';
+  end if;
+  if p_status = 'needs_info' and v_message is null then
+    raise exception 'Tell the submitter what information is needed' using errcode = '22023';
+  end if;
+  if v_message is not null then
+    perform public._check_submission_comment(v_message);
+  end if;
+
+  select * into v_sub from public.photo_submissions where id = p_id for update;
+  if not found then
+    raise exception 'Submission not found' using errcode = 'P0002';
+  end if;
+  v_from := coalesce(v_sub.status, 'pending');
+  if v_from = 'approved' then
+    raise exception 'This submission has already been approved' using errcode = '55000';
+  end if;
+
+  update public.photo_submissions
+  set status = p_status,
+      admin_notes = coalesce(p_notes, admin_notes),
+      rejection_reason = case when p_status = 'rejected'
+                              then left(coalesce(p_rejection_reason, ''), 500)
+                              else null end,
+      updated_at = now()
+  where id = p_id;
+
+  if v_message is not null then
+    perform public._log_submission_event(p_id, 'admin', 'status', v_message, false, v_from, p_status);
+  else
+    perform public._log_submission_event(
+      p_id, 'admin', 'status',
+      left(coalesce(nullif(btrim(p_rejection_reason), ''), p_notes), 2000), true,
+      v_from, p_status
+    );
+  end if;
+
+  return jsonb_build_object('ok', true, 'status', p_status);
+end $$;
+
+-- As in 20260618090000, now recorded in the thread
+create or replace function public.admin_approve_photo_submission(
+  p_id uuid,
+  p_image_url text,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_location_name text,
+  p_description text,
+  p_notes text default null,
+  p_hints jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_sub public.photo_submissions%rowtype;
+  v_image_id uuid;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select * into v_sub from public.photo_submissions where id = p_id for update;
+  if not found then
+    raise exception 'Submission not found' using errcode = 'P0002';
+  end if;
+  if v_sub.status = 'approved' then
+    raise exception 'This submission has already been approved' using errcode = '55000';
+  end if;
+
+  if coalesce(btrim(p_image_url), '') = '' then
+    raise exception 'Image URL is required' using errcode = '22023';
+  end if;
+  if coalesce(btrim(p_location_name), '') = '' then
+    raise exception 'Location name is required' using errcode = '22023';
+  end if;
+  if coalesce(btrim(p_description), '') = '' then
+    raise exception 'Description is required' using errcode = '22023';
+  end if;
+  if p_year is null or p_year not between 1800 and 2100 then
+    raise exception 'Year must be between 1800 and 2100' using errcode = '22023';
+  end if;
+  if p_lat is null or p_lat not between -90 and 90
+     or p_lng is null or p_lng not between -180 and 180 then
+    raise exception 'Valid map coordinates are required' using errcode = '22023';
+  end if;
+  p_hints := coalesce(p_hints, '[]'::jsonb);
+  if not public._valid_image_hints(p_hints) then
+    raise exception 'Hints must be up to 5 country, decade or text clues of at most 200 characters'
+      using errcode = '22023';
+  end if;
+
+  insert into public.game_images (image_url, year, location_lat, location_lng, location_name, description, hints)
+  values (btrim(p_image_url), p_year, p_lat, p_lng, btrim(p_location_name), btrim(p_description),
+          coalesce((select jsonb_agg(jsonb_build_object('kind', h->>'kind', 'text', btrim(h->>'text')))
+                    from jsonb_array_elements(p_hints) h), '[]'::jsonb))
+  returning id into v_image_id;
+
+  update public.photo_submissions
+  set status = 'approved',
+      approval_date = now(),
+      admin_notes = coalesce(p_notes, admin_notes),
+      rejection_reason = null,
+      updated_at = now()
+  where id = p_id;
+
+  perform public._log_submission_event(
+    p_id, 'admin', 'status', left(p_notes, 2000), true, coalesce(v_sub.status, 'pending'), 'approved'
+  );
+
+  return jsonb_build_object('ok', true, 'image_id', v_image_id);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Submitter RPCs
+-- ---------------------------------------------------------------------------
+
+-- The caller's own submissions, newest first, each with the part of its
+-- thread they may see: no internal entries, no reviewer names, and status
+-- changes without their internal note.
+create or replace function public.get_my_photo_submissions()
+returns jsonb
+language plpgsql stable security definer set search_path = public, pg_temp as $$
+declare
+  v_user_id uuid := auth.uid();
+  v jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Sign in to see your submissions' using errcode = '28000';
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'photo_url', s.photo_url,
+    'location_description', s.location_description,
+    'year_taken', s.year_taken,
+    'year_confidence', s.year_confidence,
+    'description', s.description,
+    'clues_description', s.clues_description,
+    'status', coalesce(s.status, 'pending'),
+    'created_at', s.created_at,
+    'updated_at', s.updated_at,
+    'events', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', e.id,
+        'kind', e.kind,
+        'actor_role', e.actor_role,
+        'actor_name', null,
+        'from_status', e.from_status,
+        'to_status', e.to_status,
+        'assignee_name', null,
+        'body', case when e.internal then null else e.body end,
+        'internal', false,
+        'created_at', e.created_at
+      ) order by e.created_at, e.id)
+      from public.photo_submission_events e
+      where e.submission_id = s.id
+        and (not e.internal or e.kind = 'status')
+    ), '[]'::jsonb)
+  ) order by s.created_at desc), '[]'::jsonb)
+  into v
+  from public.photo_submissions s
+  where s.user_id = v_user_id;
+  return v;
+end $$;
+
+create or replace function public.reply_to_photo_submission(p_id uuid, p_body text)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_sub public.photo_submissions%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to reply' using errcode = '28000';
+  end if;
+  perform public._check_submission_comment(p_body);
+
+  select * into v_sub from public.photo_submissions where id = p_id and user_id = auth.uid();
+  if not found then
+    raise exception 'Submission not found' using errcode = 'P0002';
+  end if;
+  if v_sub.status in ('approved', 'rejected') then
+    raise exception 'This submission has been closed' using errcode = '55000';
+  end if;
+
+  perform public._log_submission_event(p_id, 'submitter', 'comment', p_body);
+  update public.photo_submissions set updated_at = now() where id = p_id;
+  return jsonb_build_object('ok', true);
+end $$;
+
+-- Answer a needs_info request: update the details (same rules as the
+-- submission form) and send it back for review
+create or replace function public.resubmit_photo_submission(
+  p_id uuid,
+  p_location_description text,
+  p_year_taken int,
+  p_year_confidence text,
+  p_description text,
+  p_clues_description text,
+  p_message text default null
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_sub public.photo_submissions%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to resubmit' using errcode = '28000';
+  end if;
+
+  select * into v_sub from public.photo_submissions
+  where id = p_id and user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Submission not found' using errcode = 'P0002';
+  end if;
+  if v_sub.status is distinct from 'needs_info' then
+    raise exception 'Only submissions waiting for more information can be resubmitted'
+      using errcode = '55000';
+  end if;
+
+  if coalesce(btrim(p_location_description), '') = '' then
+    raise exception 'Location description is required' using errcode = '22023';
+  end if;
+  if length(btrim(p_location_description)) > 500 then
+    raise exception 'Location description must be less than 500 characters' using errcode = '22023';
+  end if;
+  if p_year_taken is not null and p_year_taken not between 1800 and extract(year from now())::int then
+    raise exception 'Year must be between 1800 and this year' using errcode = '22023';
+  end if;
+  if coalesce(p_year_confidence, 'unknown') not in ('exact', 'approximate', 'decade', 'unknown') then
+    raise exception 'Invalid year confidence' using errcode = '22023';
+  end if;
+  if length(p_description) > 1000 or length(p_clues_description) > 1000 then
+    raise exception 'Descriptions must be less than 1000 characters' using errcode = '22023';
+  end if;
+  if nullif(btrim(p_message), '') is not null then
+    perform public._check_submission_comment(p_message);
+  end if;
+
+  update public.photo_submissions
+  set location_description = btrim(p_location_description),
+      year_taken = p_year_taken,
+      year_confidence = coalesce(p_year_confidence, 'unknown'),
+      description = nullif(btrim(p_description), ''),
+      clues_description = nullif(btrim(p_clues_description), ''),
+      status = 'pending',
+      updated_at = now()
+  where id = p_id;
+
+  perform public._log_submission_event(p_id, 'submitter', 'status', p_message, false, 'needs_info', 'pending');
+  return jsonb_build_object('ok', true, 'status', 'pending');
+end $$;
+
+grant execute on function public.admin_list_photo_submissions(int) to authenticated;
+grant execute on function public.admin_list_photo_submission_events(uuid) to authenticated;
+grant execute on function public.admin_list_reviewers() to authenticated;
+grant execute on function public.admin_assign_photo_submission(uuid, uuid) to authenticated;
+grant execute on function public.admin_comment_photo_submission(uuid, text, boolean) to authenticated;
+grant execute on function public.admin_set_photo_submission_status(uuid, text, text, text, text) to authenticated;
+grant execute on function public.admin_approve_photo_submission(uuid, text, int, float8, float8, text, text, text, jsonb) to authenticated;
+grant execute on function public.get_my_photo_submissions() to authenticated;
+grant execute on function public.reply_to_photo_submission(uuid, text) to authenticated;
+grant execute on function public.resubmit_photo_submission(uuid, text, int, text, text, text, text) to authenticated;
@@ -0,0 +1,249 @@
+-- ============================================================================
+-- SERVER ROUND CLOCK: the per-round time bonus is timed by the server.
+--
+-- submit_round_guess used to score the seconds left that the client reported
+-- (clamped to the round timer), so any client could claim a full bonus. Now:
+--
+--   start_round         called as a round is shown; stamps the session with
+--                       the round number and now(). Asking again for the same
+--                       round (a reload) keeps the clock it already has, and
+--                       an earlier round can't be restarted.
+--   submit_round_guess  loses p_time_remaining and works the seconds left out
+--                       from that stamp. A round that was never started earns
+--                       no time bonus.
+--
+-- Only per-round timed sessions score a time bonus, so only they need to call
+-- start_round. The scoring engine is unchanged.
+-- ============================================================================
+
+alter table public.game_sessions
+  add column if not exists round_started_number int,
+  add column if not exists round_started_at timestamptz;
+
+-- Clients insert their own sessions; the clock only ever comes from start_round
+create or replace function public._game_sessions_clear_round_clock()
+returns trigger
+language plpgsql set search_path = public, pg_temp as $$
+begin
+  new.round_started_number := null;
+  new.round_started_at := null;
+  return new;
+end $$;
+
+drop trigger if exists game_sessions_clear_round_clock on public.game_sessions;
+create trigger game_sessions_clear_round_clock
+  before insert on public.game_sessions
+  for each row execute function public._game_sessions_clear_round_clock();
+
+-- ---------------------------------------------------------------------------
+-- start_round
+-- ---------------------------------------------------------------------------
+create or replace function public.start_round(
+  p_session_id uuid,
+  p_round_number int
+)
+returns timestamptz
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if p_round_number < coalesce(v_session.round_started_number, 0) then
+    raise exception 'Round % has already been played', p_round_number using errcode = '55000';
+  end if;
+
+  if v_session.round_started_number is distinct from p_round_number then
+    update public.game_sessions
+    set round_started_number = p_round_number, round_started_at = now()
+    where id = p_session_id
+    returning round_started_at into v_session.round_started_at;
+  end if;
+
+  return v_session.round_started_at;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- submit_round_guess: as in 20260619090000_custom_challenges.sql, but the
+-- seconds left come from the round clock instead of the client
+-- ---------------------------------------------------------------------------
+drop function if exists public.submit_round_guess(uuid, uuid, int, int, float8, float8, numeric, int, int, int, int);
+
+create or replace function public.submit_round_guess(
+  p_session_id uuid,
+  p_image_id uuid,
+  p_round_number int,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_time_used int default null,
+  p_year_margin int default 0,
+  p_radius_km int default 0,
+  p_hints_used int default 0
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+  v_challenge public.custom_challenges%rowtype;
+  v_dimension text;
+  v_img record;
+  v_dist float8;
+  v_round_seconds int;
+  v_time_remaining numeric := 0;
+  v_score jsonb;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+
+  p_year_margin := coalesce(p_year_margin, 0);
+  p_radius_km := coalesce(p_radius_km, 0);
+  p_hints_used := coalesce(p_hints_used, 0);
+  if p_year_margin not between 0 and 50 then
+    raise exception 'Invalid year range' using errcode = '22023';
+  end if;
+  if p_radius_km not between 0 and 2000 then
+    raise exception 'Invalid radius' using errcode = '22023';
+  end if;
+  if v_session.era_bucket_set is not null then
+    p_year_margin := 0;
+  end if;
+
+  v_dimension := public.game_mode_scored_dimension(v_session.game_mode);
+  if v_dimension = 'location' then
+    p_year := null;
+    p_year_margin := 0;
+  elsif v_dimension = 'year' then
+    p_lat := null;
+    p_lng := null;
+    p_radius_km := 0;
+  end if;
+
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'location'
+     and (p_year is null or p_year not between 1800 and 2100) then
+    raise exception 'Invalid year' using errcode = '22023';
+  end if;
+  if v_dimension is distinct from 'year'
+     and (p_lat is null or p_lat not between -90 and 90
+          or p_lng is null or p_lng not between -180 and 180) then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  if v_session.challenge_id is not null then
+    select * into v_challenge from public.custom_challenges where id = v_session.challenge_id;
+    if p_round_number > v_challenge.round_count then
+      raise exception 'Invalid round number' using errcode = '22023';
+    end if;
+    if not (p_image_id = any(v_challenge.image_ids)) then
+      raise exception 'That image is not part of this challenge' using errcode = '22023';
+    end if;
+  end if;
+
+  if exists (
+    select 1 from public.round_results
+    where session_id = p_session_id and display_score is not null
+      and (round_number = p_round_number or image_id = p_image_id)
+  ) then
+    raise exception 'Round % was already submitted', p_round_number using errcode = '55000';
+  end if;
+
+  select year, location_lat, location_lng, hints into v_img
+  from public.game_images where id = p_image_id;
+  if not found then
+    raise exception 'Image not found' using errcode = 'P0002';
+  end if;
+
+  -- A hint can only be paid for if the image has it
+  if p_hints_used not between 0 and jsonb_array_length(v_img.hints) then
+    raise exception 'Invalid hint count' using errcode = '22023';
+  end if;
+
+  -- Challenge rounds run on the challenge's timer, the rest on the standard 60 s
+  v_round_seconds := coalesce(v_challenge.timer_seconds, 60);
+  if v_session.round_started_number = p_round_number then
+    v_time_remaining := least(
+      greatest(v_round_seconds - extract(epoch from now() - v_session.round_started_at), 0),
+      v_round_seconds
+    );
+  end if;
+
+  if p_lat is not null then
+    v_dist := public.duel_distance_km(v_img.location_lat, v_img.location_lng, p_lat, p_lng);
+  end if;
+  v_score := public.scoring_score_round(
+    v_session.scoring_profile,
+    v_img.year,
+    p_year,
+    v_dist,
+    v_time_remaining,
+    v_session.timer_type = 'per-round',
+    v_session.era_bucket_set,
+    v_dimension,
+    p_year_margin,
+    p_radius_km,
+    p_hints_used
+  );
+
+  insert into public.round_results
+    (session_id, user_id, image_id, round_number,
+     year_guess, actual_year,
+     location_guess_lat, location_guess_lng, actual_location_lat, actual_location_lng,
+     year_score, location_score, total_round_score,
+     time_used, time_bonus, display_score, distance_km, scoring_engine_version,
+     year_margin, radius_km, hints_used)
+  values
+    (p_session_id, v_uid, p_image_id, p_round_number,
+     p_year, v_img.year,
+     p_lat, p_lng, v_img.location_lat, v_img.location_lng,
+     (v_score->>'year_score')::int, (v_score->>'location_score')::int, (v_score->>'total_score')::int,
+     p_time_used, (v_score->>'time_bonus')::int, (v_score->>'display_total_score')::int,
+     v_dist, (v_score->>'engine_version')::int,
+     p_year_margin, p_radius_km, p_hints_used);
+
+  -- Running totals keep an unfinished session resumable from the right round.
+  update public.game_sessions gs
+  set rounds_completed = t.rounds, total_score = t.total
+  from (
+    select count(*)::int as rounds, coalesce(sum(display_score), 0)::int as total
+    from public.round_results
+    where session_id = p_session_id and display_score is not null
+  ) t
+  where gs.id = p_session_id;
+
+  return v_score || jsonb_build_object('round_number', p_round_number, 'distance_km', v_dist);
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Privileges
+-- ---------------------------------------------------------------------------
+revoke execute on function public._game_sessions_clear_round_clock() from public, anon, authenticated;
+revoke execute on function public.start_round(uuid, int) from public, anon;
+grant execute on function public.start_round(uuid, int) to authenticated;
+revoke execute on function public.submit_round_guess(uuid, uuid, int, int, float8, float8, int, int, int, int) from public, anon;
+grant execute on function public.submit_round_guess(uuid, uuid, int, int, float8, float8, int, int, int, int) to authenticated;
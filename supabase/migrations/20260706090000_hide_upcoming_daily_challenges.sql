@@ -0,0 +1,31 @@
+-- ============================================================================
+-- HIDE UPCOMING DAILY CHALLENGES
+--
+-- daily_challenges kept its original read-everything SELECT policy, so once
+-- admins could pin days ahead (20260622090000_curated_daily_selection.sql)
+-- anyone could read the photos of every upcoming daily. Players now only see
+-- days that have started, in Eastern Time as everywhere else the daily is
+-- dated; admins still see the whole calendar. The security-definer RPCs
+-- (admin_pin_daily_challenge, get_daily_archive, ...) are unaffected.
+--
+-- The old policy predates the tracked migrations and its name isn't known
+-- here, so every SELECT policy on the table is replaced.
+-- ============================================================================
+
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname from pg_policies
+    where schemaname = 'public' and tablename = 'daily_challenges' and cmd = 'SELECT'
+  loop
+    execute format('drop policy %I on public.daily_challenges', v_policy.policyname);
+  end loop;
+end $$;
+
+alter table public.daily_challenges enable row level security;
+
+create policy "daily_challenges_started_read" on public.daily_challenges
+  for select to anon, authenticated
+  using (challenge_date <= timezone('America/New_York', now())::date or public._is_admin());
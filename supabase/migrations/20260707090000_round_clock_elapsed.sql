@@ -0,0 +1,52 @@
+-- ============================================================================
+-- ROUND CLOCK ELAPSED: start_round reports how long the round has been running.
+--
+-- start_round (20260705090000_server_round_clock.sql) keeps the original stamp
+-- when a round is asked for again, but returned only the stamp, so a client
+-- coming back to a round (a reload, a resumed game) had to compare it with
+-- its own clock. It now returns the seconds since the stamp, measured here,
+-- and the client sets its round timer from that. A new stamp reports 0.
+-- ============================================================================
+
+drop function if exists public.start_round(uuid, int);
+
+create or replace function public.start_round(
+  p_session_id uuid,
+  p_round_number int
+)
+returns numeric
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_uid uuid := auth.uid();
+  v_session public.game_sessions%rowtype;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to save rounds' using errcode = '28000';
+  end if;
+
+  select * into v_session from public.game_sessions where id = p_session_id for update;
+  if not found or v_session.user_id is distinct from v_uid then
+    raise exception 'Game session not found' using errcode = 'P0002';
+  end if;
+  if v_session.completed_at is not null then
+    raise exception 'This game is already complete' using errcode = '55000';
+  end if;
+  if p_round_number is null or p_round_number not between 1 and 20 then
+    raise exception 'Invalid round number' using errcode = '22023';
+  end if;
+  if p_round_number < coalesce(v_session.round_started_number, 0) then
+    raise exception 'Round % has already been played', p_round_number using errcode = '55000';
+  end if;
+
+  if v_session.round_started_number is distinct from p_round_number then
+    update public.game_sessions
+    set round_started_number = p_round_number, round_started_at = now()
+    where id = p_session_id;
+    return 0;
+  end if;
+
+  return greatest(extract(epoch from now() - v_session.round_started_at), 0);
+end $$;
+
+revoke execute on function public.start_round(uuid, int) from public, anon;
+grant execute on function public.start_round(uuid, int) to authenticated;
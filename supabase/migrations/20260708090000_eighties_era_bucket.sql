@@ -0,0 +1,22 @@
+-- ============================================================================
+-- EIGHTIES ERA BUCKET: the named-era "1980s" bucket covers 1980–1989.
+--
+-- 20260615090000_era_mode.sql seeded it as 1980–1990, and since its label
+-- reads like a decade the picker showed no years, so a 1990 photo was a
+-- "1980s" answer. 1990 now opens Liberalisation, as in ERA_BUCKET_SETS
+-- (src/utils/eraBuckets.ts).
+--
+-- Engine version 6: a 1990 photo in the eras set can score differently.
+-- ============================================================================
+
+update public.era_buckets set end_year = 1989
+where set_id = 'eras' and id = 'eighties';
+
+update public.era_buckets set start_year = 1990
+where set_id = 'eras' and id = 'liberalisation';
+
+create or replace function public.scoring_engine_version()
+returns int
+language sql immutable set search_path = public, pg_temp as $$
+  select 6;
+$$;
@@ -0,0 +1,90 @@
+-- ============================================================================
+-- IMAGE HASHES ON PUBLISH: approved photos keep their submission's hash.
+--
+-- admin_approve_photo_submission (20260704090000_submission_review_workflow.sql)
+-- inserted the game image without perceptual_hash, and the review dialog
+-- copied it across in a second call that could fail unnoticed, leaving the
+-- photo out of later duplicate checks. The approval now copies the hash in the
+-- same insert. Bulk-imported photos are hashed by the import panel as soon as
+-- they are in (src/components/admin/AdminImportPanel.tsx).
+-- ============================================================================
+
+-- ---------------------------------------------------------------------------
+-- admin_approve_photo_submission: as in 20260704090000, plus perceptual_hash
+-- ---------------------------------------------------------------------------
+create or replace function public.admin_approve_photo_submission(
+  p_id uuid,
+  p_image_url text,
+  p_year int,
+  p_lat float8,
+  p_lng float8,
+  p_location_name text,
+  p_description text,
+  p_notes text default null,
+  p_hints jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql security definer set search_path = public, pg_temp as $$
+declare
+  v_sub public.photo_submissions%rowtype;
+  v_image_id uuid;
+begin
+  if not public._is_admin() then
+    raise exception 'Admin access required' using errcode = '42501';
+  end if;
+
+  select * into v_sub from public.photo_submissions where id = p_id for update;
+  if not found then
+    raise exception 'Submission not found' using errcode = 'P0002';
+  end if;
+  if v_sub.status = 'approved' then
+    raise exception 'This submission has already been approved' using errcode = '55000';
+  end if;
+
+  if coalesce(btrim(p_image_url), '') = '' then
+    raise exception 'Image URL is required' using errcode = '22023';
+  end if;
+  if coalesce(btrim(p_location_name), '') = '' then
+    raise exception 'Location name is required' using errcode = '22023';
+  end if;
+  if coalesce(btrim(p_description), '') = '' then
+    raise exception 'Description is required' using errcode = '22023';
+  end if;
+  if p_year is null or p_year not between 1800 and 2100 then
+    raise exception 'Year must be between 1800 and 2100' using errcode = '22023';
+  end if;
+  if p_lat is null or p_lat not between -90 and 90
+     or p_lng is null or p_lng not between -180 and 180 then
+    raise exception 'Valid map coordinates are required' using errcode = '22023';
+  end if;
+  p_hints := coalesce(p_hints, '[]'::jsonb);
+  if not public._valid_image_hints(p_hints) then
+    raise exception 'Hints must be up to 5 country, decade or text clues of at most 200 characters'
+      using errcode = '22023';
+  end if;
+
+  insert into public.game_images
+    (image_url, year, location_lat, location_lng, location_name, description, hints, perceptual_hash)
+  values (btrim(p_image_url), p_year, p_lat, p_lng, btrim(p_location_name), btrim(p_description),
+          coalesce((select jsonb_agg(jsonb_build_object('kind', h->>'kind', 'text', btrim(h->>'text')))
+                    from jsonb_array_elements(p_hints) h), '[]'::jsonb),
+          -- The submission's hash is of its upload, so only when that is what goes live
+          case when btrim(p_image_url) = btrim(v_sub.photo_url) then v_sub.perceptual_hash end)
+  returning id into v_image_id;
+
+  update public.photo_submissions
+  set status = 'approved',
+      approval_date = now(),
+      admin_notes = coalesce(p_notes, admin_notes),
+      rejection_reason = null,
+      updated_at = now()
+  where id = p_id;
+
+  perform public._log_submission_event(
+    p_id, 'admin', 'status', left(p_notes, 2000), true, coalesce(v_sub.status, 'pending'), 'approved'
+  );
+
+  return jsonb_build_object('ok', true, 'image_id', v_image_id);
+end $$;
+
+grant execute on function public.admin_approve_photo_submission(uuid, text, int, float8, float8, text, text, text, jsonb) to authenticated;